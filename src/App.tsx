@@ -1,19 +1,42 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useWallet } from './context/WalletContext';
 import LoginScreen from './components/LoginScreen';
 import WalletHeader from './components/WalletHeader';
 import BottomNavigation from './components/BottomNavigation';
 import HomeTab from './components/HomeTab';
 import ActivityTab from './components/ActivityTab';
+import CollectiblesTab, { isNftHidden } from './components/CollectiblesTab';
 import SettingsTab from './components/SettingsTab';
 import { SendModal, ReceiveModal, BuyModal, BackupModal, PhraseModal, TransactionModal, PasswordPromptModal, SelectWalletTypeModal, TokenDetailsModal, PrivateKeyModal, SwapModal } from './components/WalletModals';
 import { AccountsModal, AddAccountModal } from './components/AccountModals';
+import { OfflineSendModal, ColdSignerModal, AddWatchOnlyModal } from './components/OfflineSigningModals';
+import { MultisigActivityTab, AddMultisigModal } from './components/MultisigModals';
+import { NftDetailModal } from './components/NftModals';
+import { DomainsModal } from './components/DnsModals';
+import { StakingModal } from './components/StakingModals';
+import { LiquidityModal } from './components/LiquidityModals';
+import { SwapOrdersModal } from './components/SwapOrderModals';
+import { PayoutsModal } from './components/PayoutModals';
+import { HighloadAdminModal } from './components/HighloadModals';
+import { InvoicesModal } from './components/InvoiceModals';
+import { AddressBookModal } from './components/AddressBookModals';
+import { ImportTokenModal } from './components/TokenModals';
 import NetworkBanner from './components/NetworkBanner';
+import { TonConnectApprovalModal, ConnectedAppsModal } from './components/TonConnectModals';
+import type { TonConnectApproval } from './components/TonConnectModals';
+import { TonConnectService, parseConnectLink, isConnectLink } from './tonconnect';
+import type { ConnectedDApp, PendingRequest } from './tonconnect';
+import type { DnsUpdate, GaslessQuote, NftItem, StakingAction, WalletVersion } from './types';
+import { getRenewalReminders } from './wallets/dns';
+import type { SignedTransaction, UnsignedTransaction } from './crypto';
+import { canSign } from './services/WatchOnlyService';
+import { isMultisigAccount } from './services/AccountManager';
+import type { LiquidityAction } from './services/LiquidityService';
 
 
 export default function TonWallet() {
     // Context State
-    const { isLoggedIn, balance, transactions, walletAddress, sendTransaction, logout, isLoading, walletType, getDecryptedSeed, getPrivateKey, switchWalletType, tokens, totalBalanceUSDT, accounts, activeAccount, selectAccount, addAccount, renameAccount, deleteAccount } = useWallet();
+    const { isLoggedIn, balance, transactions, hasMoreTransactions, isLoadingMoreTransactions, loadMoreTransactions, walletAddress, sendTransaction, logout, isLoading, walletType, getDecryptedSeed, getPrivateKey, switchWalletType, tokens, totalBalanceUSDT, accounts, activeAccount, walletFacade, previewTransaction, quoteGaslessTransfer, previewPayload, selectAccount, addAccount, addWatchOnlyAccount, importWatchOnlyAccount, renameAccount, deleteAccount, prepareOfflineTransfer, broadcastOfflineTransaction, signOfflineTransaction, getColdSignerAccount, deployMultisig, importMultisigAccount, getMultisigOrders, getMultisigMember, proposeMultisigTransfer, approveMultisigOrder, watchMultisigOrder, hiddenNfts, getNfts, resolveNftMetadata, setNftHidden, sendNft, prepareOfflineNft, resolveDomain, domainNames, domains, refreshDomains, sendDnsUpdate, prepareOfflineDnsUpdate, stakingPools, stakingPositions, refreshStaking, sendStaking, prepareOfflineStaking, sendSwap, swapOrders, swapOrderSessionUntil, placeSwapOrder, cancelSwapOrder, authorizeSwapOrders, revokeSwapOrders, liquidityPools, liquidityPositions, liquidityProvisions, refreshLiquidity, sendLiquidity, registryTokens, validateJetton, importJetton, removeImportedJetton, payoutJobs, payoutSessionUntil, planPayout, createPayout, cancelPayout, removePayout, authorizePayouts, revokePayouts, getHighloadWallets, syncHighloadQueryIds, invoices, invoiceWebhook, createInvoice, cancelInvoice, checkInvoices, getInvoiceLink, setInvoiceWebhook, contacts, saveContact, removeContact, checkRecipient, buildActivityStatement } = useWallet();
 
     // UI State
     const [activeTab, setActiveTab] = useState('home');
@@ -33,8 +56,8 @@ export default function TonWallet() {
 
     // Transaction & Security Flow State
     const [showPasswordModal, setShowPasswordModal] = useState(false);
-    const [passwordAction, setPasswordAction] = useState<'transaction' | 'viewSeed' | 'switchType' | 'viewPrivateKey' | 'swap' | null>(null);
-    const [pendingTx, setPendingTx] = useState<{ recipient: string; amount: string; comment?: string; token?: any } | null>(null);
+    const [passwordAction, setPasswordAction] = useState<'transaction' | 'viewSeed' | 'switchType' | 'viewPrivateKey' | 'swap' | 'tonConnect' | 'multisigOrder' | 'nft' | 'dns' | 'staking' | 'swapOrders' | 'liquidity' | 'payouts' | null>(null);
+    const [pendingTx, setPendingTx] = useState<{ recipient: string; amount: string; comment?: string; token?: any; gaslessQuote?: GaslessQuote } | null>(null);
     const [pendingSwap, setPendingSwap] = useState<{ fromToken: string; toToken: string; amount: string; minOutput: string; provider: string; quote: any } | null>(null);
     const [txError, setTxError] = useState('');
     const [decryptedSeed, setDecryptedSeed] = useState<string[]>([]);
@@ -43,6 +66,39 @@ export default function TonWallet() {
     // Accounts
     const [showAccountsModal, setShowAccountsModal] = useState(false);
     const [showAddAccountModal, setShowAddAccountModal] = useState(false);
+    const [showAddWatchOnlyModal, setShowAddWatchOnlyModal] = useState(false);
+    const [showAddMultisigModal, setShowAddMultisigModal] = useState(false);
+
+    // Multisig: member account whose password signs the pending order
+    const [multisigMemberName, setMultisigMemberName] = useState('');
+
+    // Collectibles: item in the detail modal, transfer waiting for the password
+    const [selectedNft, setSelectedNft] = useState<NftItem | null>(null);
+    const [pendingNft, setPendingNft] = useState<{ item: NftItem; recipient: string; comment: string } | null>(null);
+
+    // Domains: record change or renewal waiting for the password
+    const [showDomainsModal, setShowDomainsModal] = useState(false);
+    const [pendingDnsUpdate, setPendingDnsUpdate] = useState<DnsUpdate | null>(null);
+    const renewalReminders = getRenewalReminders(domains);
+
+    // Staking: deposit or withdrawal waiting for the password
+    const [showStakingModal, setShowStakingModal] = useState(false);
+    const [pendingStaking, setPendingStaking] = useState<StakingAction | null>(null);
+
+    // Liquidity: deposit or withdrawal waiting for the password
+    const [showLiquidityModal, setShowLiquidityModal] = useState(false);
+    const [pendingLiquidity, setPendingLiquidity] = useState<LiquidityAction | null>(null);
+    const [showSwapOrdersModal, setShowSwapOrdersModal] = useState(false);
+    const [pendingSessionHours, setPendingSessionHours] = useState<number | null>(null);
+    const [showImportTokenModal, setShowImportTokenModal] = useState(false);
+    const [showPayoutsModal, setShowPayoutsModal] = useState(false);
+    const [showHighloadModal, setShowHighloadModal] = useState(false);
+    const [showInvoicesModal, setShowInvoicesModal] = useState(false);
+    const [showAddressBookModal, setShowAddressBookModal] = useState(false);
+
+    // Offline Signing State
+    const [offlineTx, setOfflineTx] = useState<UnsignedTransaction | null>(null);
+    const [showColdSignerModal, setShowColdSignerModal] = useState(false);
 
     const [showWalletTypeModal, setShowWalletTypeModal] = useState(false);
     const [pendingWalletType, setPendingWalletType] = useState('');
@@ -53,6 +109,38 @@ export default function TonWallet() {
     const [showPrivateKeyModal, setShowPrivateKeyModal] = useState(false);
     const [privateKey, setPrivateKey] = useState('');
 
+    // TON Connect
+    const [tonConnect] = useState(() => new TonConnectService());
+    const [tonConnectApproval, setTonConnectApproval] = useState<TonConnectApproval | null>(null);
+    const [tonConnectRequests, setTonConnectRequests] = useState<PendingRequest[]>([]);
+    const [connections, setConnections] = useState<ConnectedDApp[]>([]);
+    const [showConnectedAppsModal, setShowConnectedAppsModal] = useState(false);
+
+    // Listen for dApp requests on the active account's sessions
+    useEffect(() => {
+        if (!isLoggedIn || !activeAccount) return;
+        setConnections(tonConnect.getConnections(activeAccount.id));
+        return tonConnect.listen(
+            activeAccount.id,
+            (request: PendingRequest) => setTonConnectRequests((queue: PendingRequest[]) => [...queue, request]),
+            (error: Error) => console.warn('[TonConnect] Bridge error:', error.message)
+        );
+    }, [isLoggedIn, activeAccount?.id, connections.length]);
+
+    // dApp requests wait in arrival order and are shown one at a time, so each gets a reply
+    useEffect(() => {
+        if (tonConnectApproval || tonConnectRequests.length === 0) return;
+        setTonConnectApproval({ kind: 'request', request: tonConnectRequests[0] });
+        setTonConnectRequests(tonConnectRequests.slice(1));
+    }, [tonConnectApproval, tonConnectRequests]);
+
+    // Handle TON Connect universal links opened directly in the wallet
+    useEffect(() => {
+        if (!isLoggedIn || !isConnectLink(window.location.href)) return;
+        handleConnectLink(window.location.href).catch((e: any) => console.warn('[TonConnect] Invalid link:', e.message));
+        window.history.replaceState(null, '', window.location.pathname);
+    }, [isLoggedIn]);
+
     const handleCopy = () => {
         // Actually copy the wallet address to clipboard
         if (walletAddress) {
@@ -71,16 +159,189 @@ export default function TonWallet() {
         setTimeout(() => setCopiedPhrase(false), 2000);
     };
 
+    // Watch-only accounts have no secret to unlock: password-protected actions are blocked
+    const blockWatchOnly = () => {
+        if (!activeAccount?.watchOnly) return false;
+        if (isMultisigAccount(activeAccount)) {
+            alert(language === 'ar' ? 'المحفظة متعددة التوقيع تعمل بأوامر يوافق عليها الموقعون' : 'A multisig wallet acts through orders approved by its signers');
+        } else {
+            alert(language === 'ar' ? 'هذه محفظة مراقبة فقط ولا يمكنها التوقيع' : 'This is a watch-only wallet and cannot sign');
+        }
+        return true;
+    };
+
     // Send Logic
-    const handleSendInitiated = (to: string, amt: string, comment?: string, token?: any) => {
-        setPendingTx({ recipient: to, amount: amt, comment: comment, token: token });
+    const handleSendInitiated = (to: string, amt: string, comment?: string, token?: any, gaslessQuote?: GaslessQuote) => {
+        // Multisig accounts create an order, signed by one of the user's member accounts
+        if (isMultisigAccount(activeAccount)) {
+            if (token && token.symbol !== 'TON') {
+                alert(language === 'ar' ? 'أوامر التوقيع المتعدد تدعم TON فقط' : 'Multisig orders support TON transfers only');
+                return;
+            }
+            getMultisigMember()
+                .then((member: any) => {
+                    if (!member) {
+                        alert(language === 'ar' ? 'لا يوجد حساب لديك موقع أو مقترح في هذه المحفظة' : 'None of your accounts is a signer or proposer of this multisig');
+                        return;
+                    }
+                    setMultisigMemberName(member.name);
+                    setPendingTx({ recipient: to, amount: amt, comment: comment });
+                    setShowSendModal(false);
+                    setTxError('');
+                    setPasswordAction('multisigOrder');
+                    setShowPasswordModal(true);
+                })
+                .catch((e: any) => alert(e.message || 'Failed to load multisig'));
+            return;
+        }
+
+        // Watch-only accounts hand the transfer to the cold signer instead of asking for a password
+        if (activeAccount?.watchOnly) {
+            if (!canSign(activeAccount)) {
+                blockWatchOnly();
+                return;
+            }
+            if (token && token.symbol !== 'TON') {
+                alert(language === 'ar' ? 'التوقيع دون اتصال يدعم TON فقط' : 'Offline signing supports TON transfers only');
+                return;
+            }
+            prepareOfflineTransfer(to, amt, comment)
+                .then((tx: UnsignedTransaction) => {
+                    setShowSendModal(false);
+                    setOfflineTx(tx);
+                })
+                .catch((e: any) => alert(e.message || 'Failed to prepare transaction'));
+            return;
+        }
+
+        setPendingTx({ recipient: to, amount: amt, comment: comment, token: token, gaslessQuote });
         setShowSendModal(false);
         setPasswordAction('transaction');
         setShowPasswordModal(true);
     };
 
+    // NFT Send Logic - same routes as TON: cold signer for watch-only, password otherwise
+    const handleNftSendInitiated = (item: NftItem, recipient: string, comment: string) => {
+        if (activeAccount?.watchOnly) {
+            if (!canSign(activeAccount)) {
+                blockWatchOnly();
+                return;
+            }
+            prepareOfflineNft(item.address, recipient, comment)
+                .then((tx: UnsignedTransaction) => {
+                    setSelectedNft(null);
+                    setOfflineTx(tx);
+                })
+                .catch((e: any) => alert(e.message || 'Failed to prepare transaction'));
+            return;
+        }
+
+        setPendingNft({ item, recipient, comment });
+        setSelectedNft(null);
+        setTxError('');
+        setPasswordAction('nft');
+        setShowPasswordModal(true);
+    };
+
+    // DNS Update Logic - record changes and renewals take the same routes as sends
+    const handleDnsUpdateInitiated = (update: DnsUpdate) => {
+        if (activeAccount?.watchOnly) {
+            if (!canSign(activeAccount)) {
+                blockWatchOnly();
+                return;
+            }
+            prepareOfflineDnsUpdate(update)
+                .then((tx: UnsignedTransaction) => {
+                    setShowDomainsModal(false);
+                    setOfflineTx(tx);
+                })
+                .catch((e: any) => alert(e.message || 'Failed to prepare transaction'));
+            return;
+        }
+
+        setPendingDnsUpdate(update);
+        setShowDomainsModal(false);
+        setTxError('');
+        setPasswordAction('dns');
+        setShowPasswordModal(true);
+    };
+
+    // Staking Logic - deposits and withdrawals take the same routes as sends
+    const handleStakingInitiated = (action: StakingAction) => {
+        if (activeAccount?.watchOnly) {
+            if (!canSign(activeAccount)) {
+                blockWatchOnly();
+                return;
+            }
+            prepareOfflineStaking(action)
+                .then((tx: UnsignedTransaction) => {
+                    setShowStakingModal(false);
+                    setOfflineTx(tx);
+                })
+                .catch((e: any) => alert(e.message || 'Failed to prepare transaction'));
+            return;
+        }
+
+        setPendingStaking(action);
+        setShowStakingModal(false);
+        setTxError('');
+        setPasswordAction('staking');
+        setShowPasswordModal(true);
+    };
+
+    // Liquidity Logic - both sides of a deposit go out in one signed message
+    const handleLiquidityInitiated = (action: LiquidityAction) => {
+        if (blockWatchOnly()) return;
+        setPendingLiquidity(action);
+        setShowLiquidityModal(false);
+        setTxError('');
+        setPasswordAction('liquidity');
+        setShowPasswordModal(true);
+    };
+
+    // Swap Orders Logic - one password unlocks a signing session for limit, DCA and TWAP orders
+    const handleSwapOrdersAuthorize = (hours: number) => {
+        if (blockWatchOnly()) return;
+        setPendingSessionHours(hours);
+        setShowSwapOrdersModal(false);
+        setTxError('');
+        setPasswordAction('swapOrders');
+        setShowPasswordModal(true);
+    };
+
+    // Payouts Logic - one password unlocks a signing session for the highload wallet's payout jobs
+    const handlePayoutsAuthorize = (hours: number) => {
+        if (blockWatchOnly()) return;
+        setPendingSessionHours(hours);
+        setShowPayoutsModal(false);
+        setTxError('');
+        setPasswordAction('payouts');
+        setShowPasswordModal(true);
+    };
+
+    const handleOfflineBroadcast = async (signed: SignedTransaction) => {
+        if (!offlineTx) return;
+        await broadcastOfflineTransaction(offlineTx, signed);
+        setOfflineTx(null);
+        alert('Transaction Sent!');
+    };
+
     // Swap Logic
+    const handleSwapPreview = async (_provider: 'stonfi' | 'dedust', quote: any) => {
+        const { swapService } = await import('./services/SwapService');
+        const stages = await swapService.buildRouteTransactions(quote, walletAddress || '');
+        const swapTx = stages[0][0];
+
+        // Only a lone TON leg can be emulated; later stages depend on earlier outputs
+        if (stages.length > 1 || stages[0].length > 1 || swapTx.type === 'jetton_transfer' || !swapTx.to || !swapTx.value) {
+            throw new Error(language === 'ar' ? 'المعاينة غير مدعومة لهذا التبديل' : 'Preview is not supported for this swap');
+        }
+
+        return previewPayload(swapTx.to, BigInt(swapTx.value), swapTx.body);
+    };
+
     const handleSwapInitiated = (swapData: any) => {
+        if (blockWatchOnly()) return;
         setPendingSwap(swapData);
         setShowSwapModal(false);
         setPasswordAction('swap');
@@ -93,6 +354,7 @@ export default function TonWallet() {
             setShowWalletTypeModal(false);
             return;
         }
+        if (blockWatchOnly()) return;
         setPendingWalletType(type);
         setShowWalletTypeModal(false);
         setPasswordAction('switchType');
@@ -101,24 +363,72 @@ export default function TonWallet() {
 
     // View Seed Logic
     const handleViewSeedInitiated = () => {
+        if (blockWatchOnly()) return;
         setDecryptedSeed([]);
         setPasswordAction('viewSeed');
         setShowPasswordModal(true);
     };
 
     const handleViewPrivateKeyInitiated = () => {
+        if (blockWatchOnly()) return;
         setPrivateKey('');
         setPasswordAction('viewPrivateKey');
         setShowPasswordModal(true);
     };
 
+    // TON Connect Logic
+    const handleConnectLink = async (link: string) => {
+        const parsed = parseConnectLink(link);
+        let manifest;
+        try {
+            manifest = await tonConnect.fetchManifest(parsed.request.manifestUrl);
+        } catch (e: any) {
+            await tonConnect.rejectConnect(parsed, e.code, e.message).catch(() => undefined);
+            throw e;
+        }
+        setShowConnectedAppsModal(false);
+        if (tonConnectApproval?.kind === 'request') {
+            // A request still waiting for approval goes back to the front of the queue
+            const displaced = tonConnectApproval.request;
+            setTonConnectRequests((queue: PendingRequest[]) => [displaced, ...queue]);
+        }
+        setTonConnectApproval({ kind: 'connect', link: parsed, manifest });
+    };
+
+    const finishTonConnectApproval = () => {
+        setShowPasswordModal(false);
+        setTonConnectApproval(null);
+        setPasswordAction(null);
+    };
+
+    const handleTonConnectReject = async () => {
+        const approval = tonConnectApproval;
+        setTonConnectApproval(null);
+        if (!approval) return;
+        try {
+            if (approval.kind === 'connect') {
+                await tonConnect.rejectConnect(approval.link);
+            } else {
+                await tonConnect.rejectRequest(approval.request);
+            }
+        } catch (e: any) {
+            console.warn('[TonConnect] Failed to send rejection:', e.message);
+        }
+    };
+
+    const handleTonConnectDisconnect = async (clientId: string) => {
+        if (!activeAccount) return;
+        await tonConnect.disconnect(activeAccount.id, clientId);
+        setConnections(tonConnect.getConnections(activeAccount.id));
+    };
+
     const handlePasswordConfirm = async (password: string) => {
         setTxError('');
 
         if (passwordAction === 'transaction') {
             if (!pendingTx) return;
             try {
-                await sendTransaction(pendingTx.recipient, pendingTx.amount, password, pendingTx.comment, pendingTx.token);
+                await sendTransaction(pendingTx.recipient, pendingTx.amount, password, pendingTx.comment, pendingTx.token, pendingTx.gaslessQuote);
                 setShowPasswordModal(false);
                 setPendingTx(null);
                 setPasswordAction(null);
@@ -126,6 +436,84 @@ export default function TonWallet() {
             } catch (e: any) {
                 setTxError(e.message || 'Transaction failed');
             }
+        } else if (passwordAction === 'nft') {
+            if (!pendingNft) return;
+            try {
+                await sendNft(pendingNft.item.address, pendingNft.recipient, password, pendingNft.comment);
+                setShowPasswordModal(false);
+                setPendingNft(null);
+                setPasswordAction(null);
+                alert('Transaction Sent!');
+            } catch (e: any) {
+                setTxError(e.message || 'Transaction failed');
+            }
+        } else if (passwordAction === 'dns') {
+            if (!pendingDnsUpdate) return;
+            try {
+                await sendDnsUpdate(pendingDnsUpdate, password);
+                setShowPasswordModal(false);
+                setPendingDnsUpdate(null);
+                setPasswordAction(null);
+                alert('Transaction Sent!');
+            } catch (e: any) {
+                setTxError(e.message || 'Transaction failed');
+            }
+        } else if (passwordAction === 'staking') {
+            if (!pendingStaking) return;
+            try {
+                await sendStaking(pendingStaking, password);
+                setShowPasswordModal(false);
+                setPendingStaking(null);
+                setPasswordAction(null);
+                alert('Transaction Sent!');
+            } catch (e: any) {
+                setTxError(e.message || 'Transaction failed');
+            }
+        } else if (passwordAction === 'liquidity') {
+            if (!pendingLiquidity) return;
+            try {
+                await sendLiquidity(pendingLiquidity, password);
+                setShowPasswordModal(false);
+                setPendingLiquidity(null);
+                setPasswordAction(null);
+                alert('Transaction Sent!');
+            } catch (e: any) {
+                setTxError(e.message || 'Transaction failed');
+            }
+        } else if (passwordAction === 'swapOrders') {
+            if (!pendingSessionHours) return;
+            try {
+                await authorizeSwapOrders(password, pendingSessionHours);
+                setShowPasswordModal(false);
+                setPendingSessionHours(null);
+                setPasswordAction(null);
+                setShowSwapOrdersModal(true);
+            } catch (e: any) {
+                setTxError(e.message || 'Failed to authorise orders');
+            }
+        } else if (passwordAction === 'payouts') {
+            if (!pendingSessionHours) return;
+            try {
+                await authorizePayouts(password, pendingSessionHours);
+                setShowPasswordModal(false);
+                setPendingSessionHours(null);
+                setPasswordAction(null);
+                setShowPayoutsModal(true);
+            } catch (e: any) {
+                setTxError(e.message || 'Failed to authorise payouts');
+            }
+        } else if (passwordAction === 'multisigOrder') {
+            if (!pendingTx) return;
+            try {
+                await proposeMultisigTransfer(pendingTx.recipient, pendingTx.amount, password, pendingTx.comment);
+                setShowPasswordModal(false);
+                setPendingTx(null);
+                setPasswordAction(null);
+                setActiveTab('activity');
+                alert(language === 'ar' ? 'تم إنشاء الأمر. بانتظار موافقة الموقعين.' : 'Order created. It executes once enough signers approve it.');
+            } catch (e: any) {
+                setTxError(e.message || 'Failed to create order');
+            }
         } else if (passwordAction === 'viewSeed') {
             setIsSeedLoading(true);
             try {
@@ -170,76 +558,11 @@ export default function TonWallet() {
             if (!pendingSwap) return;
             setIsSeedLoading(true);
             try {
-                // Import the new TypeScript SwapService with proper gas fees
-                const { swapService } = await import('./services/SwapService');
-
-                // Build swap transaction using the unified method
-                // This now uses correct gas fees: 0.1 TON instead of 0.3 TON
-                const swapTx = await swapService.buildSwapTransaction(
-                    pendingSwap.provider as 'stonfi' | 'dedust',
-                    pendingSwap.quote,
-                    walletAddress || ''
-                );
-
-                console.log('[Swap] Built transaction:', {
-                    type: swapTx.type,
-                    to: swapTx.to,
-                    value: swapTx.value,
-                    provider: pendingSwap.provider
-                });
-
-                // Execute the swap based on transaction type
-                if (swapTx.type === 'jetton_transfer') {
-                    // For Jetton swaps, we need to use sendJettonTransfer
-                    // This requires the WalletContext to expose a jetton transfer method
-                    const swapInfo = `${pendingSwap.amount} ${pendingSwap.fromToken} → ${pendingSwap.quote.outputAmount} ${pendingSwap.toToken}`;
-                    alert(`Jetton-to-Jetton/TON swaps require additional implementation.\n\n${swapInfo}\nProvider: ${pendingSwap.provider === 'stonfi' ? 'STON.fi' : 'DeDust'}`);
-                } else if (swapTx.to && swapTx.value && swapTx.body) {
-                    // TON -> Jetton swap - send TON to router WITH swap payload
-                    // Convert nanoTON string to TON with proper decimal handling
-                    const valueInNano = BigInt(swapTx.value);
-                    const wholeTon = valueInNano / BigInt(1e9);
-                    const remainder = valueInNano % BigInt(1e9);
-                    const decimalPart = remainder.toString().padStart(9, '0');
-                    const amountInTon = `${wholeTon}.${decimalPart}`.replace(/\.?0+$/, '') || '0';
-
-                    console.log('[Swap] Sending swap transaction to DEX router:', {
-                        to: swapTx.to,
-                        valueNano: swapTx.value,
-                        valueTON: amountInTon,
-                        swapAmount: pendingSwap.amount,
-                        expectedOutput: pendingSwap.quote.outputAmount,
-                        hasPayload: !!swapTx.body
-                    });
-
-                    if (parseFloat(amountInTon) <= 0) {
-                        throw new Error('Invalid swap amount');
-                    }
+                // Routed quotes go out leg by leg; jetton legs through the wallet's jetton wallet
+                const result = await sendSwap(pendingSwap.quote, password);
+                if (!result.success) throw new Error(result.error || 'Swap transaction failed');
 
-                    // Get mnemonic for the transaction
-                    const mnemonic = await getDecryptedSeed(password);
-
-                    // Import WalletService and send transaction WITH the swap payload
-                    const { WalletService } = await import('./services/WalletService');
-                    const walletService = new WalletService();
-
-                    // Send transaction with the swap payload (Cell body)
-                    await walletService.sendTransactionWithPayload(
-                        mnemonic,
-                        walletType,
-                        swapTx.to,
-                        amountInTon,
-                        swapTx.body, // The swap payload Cell - THIS IS CRITICAL!
-                        false // mainnet
-                    );
-
-                    alert(`Swap initiated! ✅\n\n${pendingSwap.amount} ${pendingSwap.fromToken} → ${pendingSwap.quote.outputAmount} ${pendingSwap.toToken}\n\nProvider: ${pendingSwap.provider === 'stonfi' ? 'STON.fi' : 'DeDust'}\n\nPlease check your transaction history in a few minutes.`);
-                } else if (swapTx.to && swapTx.value) {
-                    // Fallback: simple transfer without payload (shouldn't happen for swaps)
-                    throw new Error('Swap transaction missing payload - contact support');
-                } else {
-                    throw new Error('Failed to build swap transaction - missing address or value');
-                }
+                alert(`Swap initiated! ✅\n\n${pendingSwap.amount} ${pendingSwap.fromToken} → ${pendingSwap.quote.outputAmount} ${pendingSwap.toToken}\n\nProvider: ${pendingSwap.quote.providerName}\n\nPlease check your transaction history in a few minutes.`);
 
                 setShowPasswordModal(false);
                 setPendingSwap(null);
@@ -250,6 +573,39 @@ export default function TonWallet() {
             } finally {
                 setIsSeedLoading(false);
             }
+        } else if (passwordAction === 'tonConnect') {
+            if (!tonConnectApproval || !activeAccount) return;
+            const approval = tonConnectApproval;
+            setIsSeedLoading(true);
+            try {
+                const mnemonic = await getDecryptedSeed(password);
+                const wallet = await walletFacade.importWallet(mnemonic, walletType as WalletVersion);
+
+                if (approval.kind === 'connect') {
+                    await tonConnect.approveConnect(activeAccount.id, approval.link, approval.manifest, wallet);
+                    setConnections(tonConnect.getConnections(activeAccount.id));
+                    finishTonConnectApproval();
+                    return;
+                }
+
+                // The request is answered from here on, failed or not: it cannot be approved again
+                try {
+                    if (approval.request.method === 'sendTransaction') {
+                        const result = await tonConnect.approveSendTransaction(approval.request, walletFacade.getClient(), wallet);
+                        if (!result.success) throw new Error(result.error || 'Transaction failed');
+                    } else {
+                        await tonConnect.approveSignData(approval.request, wallet.keyPair);
+                    }
+                } catch (e: any) {
+                    alert(e.message || 'Request failed');
+                } finally {
+                    finishTonConnectApproval();
+                }
+            } catch (e: any) {
+                setTxError(e.message || 'Request failed');
+            } finally {
+                setIsSeedLoading(false);
+            }
         }
     };
 
@@ -293,6 +649,37 @@ export default function TonWallet() {
                                 setSelectedToken(token);
                                 setShowTokenModal(true);
                             }}
+                            renewalReminders={renewalReminders}
+                            onRenewalClick={() => setShowDomainsModal(true)}
+                            stakingPools={stakingPools}
+                            stakingPositions={stakingPositions}
+                            onStakingClick={() => setShowStakingModal(true)}
+                            liquidityPositions={liquidityPositions}
+                            onLiquidityClick={() => setShowLiquidityModal(true)}
+                            onAddTokenClick={() => setShowImportTokenModal(true)}
+                        />
+                    )}
+
+                    {activeTab === 'collectibles' && (
+                        <CollectiblesTab
+                            darkMode={darkMode}
+                            language={language}
+                            walletAddress={walletAddress || ''}
+                            hiddenNfts={hiddenNfts}
+                            getNfts={getNfts}
+                            onSelect={setSelectedNft}
+                        />
+                    )}
+
+                    {activeTab === 'activity' && isMultisigAccount(activeAccount) && (
+                        <MultisigActivityTab
+                            darkMode={darkMode}
+                            language={language}
+                            multisigAddress={walletAddress || ''}
+                            getOrders={getMultisigOrders}
+                            getMember={getMultisigMember}
+                            onApprove={approveMultisigOrder}
+                            onWatch={watchMultisigOrder}
                         />
                     )}
 
@@ -304,6 +691,13 @@ export default function TonWallet() {
                             setActivityFilter={setActivityFilter}
                             activities={transactions}
                             setSelectedTransaction={setSelectedTransaction}
+                            domainNames={domainNames}
+                            contacts={contacts}
+                            hasMore={hasMoreTransactions}
+                            isLoadingMore={isLoadingMoreTransactions}
+                            onLoadMore={loadMoreTransactions}
+                            tokens={tokens}
+                            onBuildStatement={buildActivityStatement}
                         />
                     )}
 
@@ -323,6 +717,14 @@ export default function TonWallet() {
                                 setActiveTab('home');
                             }}
                             onWalletTypeClick={() => setShowWalletTypeModal(true)}
+                            onConnectedAppsClick={() => setShowConnectedAppsModal(true)}
+                            onColdSignerClick={activeAccount?.watchOnly ? undefined : () => setShowColdSignerModal(true)}
+                            onPayoutsClick={walletType === 'highload-v3' && !activeAccount?.watchOnly ? () => setShowPayoutsModal(true) : undefined}
+                            onHighloadClick={walletType === 'highload-v3' ? () => setShowHighloadModal(true) : undefined}
+                            onInvoicesClick={() => setShowInvoicesModal(true)}
+                            onAddressBookClick={() => setShowAddressBookModal(true)}
+                            onDomainsClick={() => setShowDomainsModal(true)}
+                            renewalCount={renewalReminders.length}
                         />
                     )}
                 </div>
@@ -340,8 +742,14 @@ export default function TonWallet() {
                     darkMode={darkMode}
                     language={language}
                     onSend={handleSendInitiated}
+                    onPreview={isMultisigAccount(activeAccount) ? undefined : previewTransaction}
+                    onGaslessQuote={walletType === 'v5r1' && !activeAccount?.watchOnly ? quoteGaslessTransfer : undefined}
+                    onResolveDomain={resolveDomain}
+                    onCheckRecipient={checkRecipient}
                     tokens={tokens}
+                    contacts={contacts}
                     walletAddress={walletAddress || ''}
+                    tonBalance={balance}
                 />
                 <ReceiveModal
                     isOpen={showReceiveModal}
@@ -351,6 +759,7 @@ export default function TonWallet() {
                     walletAddress={walletAddress || ''}
                     handleCopy={handleCopy}
                     copied={copied}
+                    tokens={tokens}
                 />
                 <BuyModal
                     isOpen={showBuyModal}
@@ -366,7 +775,72 @@ export default function TonWallet() {
                     language={language}
                     walletAddress={walletAddress || ''}
                     tokens={tokens}
+                    registryTokens={registryTokens}
                     onSwapInitiated={handleSwapInitiated}
+                    onPreview={handleSwapPreview}
+                    onOpenOrders={() => {
+                        if (blockWatchOnly()) return;
+                        setShowSwapModal(false);
+                        setShowSwapOrdersModal(true);
+                    }}
+                />
+                <SwapOrdersModal
+                    isOpen={showSwapOrdersModal}
+                    onClose={() => setShowSwapOrdersModal(false)}
+                    orders={swapOrders}
+                    sessionUntil={swapOrderSessionUntil}
+                    onPlace={placeSwapOrder}
+                    onCancel={cancelSwapOrder}
+                    onAuthorize={handleSwapOrdersAuthorize}
+                    onRevoke={revokeSwapOrders}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <PayoutsModal
+                    isOpen={showPayoutsModal}
+                    onClose={() => setShowPayoutsModal(false)}
+                    jobs={payoutJobs}
+                    sessionUntil={payoutSessionUntil}
+                    onPlan={planPayout}
+                    onCreate={createPayout}
+                    onCancel={cancelPayout}
+                    onRemove={removePayout}
+                    onAuthorize={handlePayoutsAuthorize}
+                    onRevoke={revokePayouts}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <HighloadAdminModal
+                    isOpen={showHighloadModal}
+                    onClose={() => setShowHighloadModal(false)}
+                    onDiscover={getHighloadWallets}
+                    onSync={syncHighloadQueryIds}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <InvoicesModal
+                    isOpen={showInvoicesModal}
+                    onClose={() => setShowInvoicesModal(false)}
+                    invoices={invoices}
+                    webhook={invoiceWebhook}
+                    tokens={tokens}
+                    onCreate={createInvoice}
+                    onCancel={cancelInvoice}
+                    onCheck={checkInvoices}
+                    onGetLink={getInvoiceLink}
+                    onSetWebhook={setInvoiceWebhook}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <AddressBookModal
+                    isOpen={showAddressBookModal}
+                    onClose={() => setShowAddressBookModal(false)}
+                    contacts={contacts}
+                    tokens={tokens}
+                    onSave={saveContact}
+                    onRemove={removeContact}
+                    darkMode={darkMode}
+                    language={language}
                 />
                 <BackupModal
                     isOpen={showBackupModal}
@@ -396,6 +870,7 @@ export default function TonWallet() {
                     onClose={() => setSelectedTransaction(null)}
                     darkMode={darkMode}
                     language={language}
+                    contacts={contacts}
                 />
                 <PrivateKeyModal
                     isOpen={showPrivateKeyModal}
@@ -412,6 +887,9 @@ export default function TonWallet() {
                     darkMode={darkMode}
                     language={language}
                     isLoading={isLoading || isSeedLoading}
+                    message={passwordAction === 'multisigOrder'
+                        ? `${language === 'ar' ? 'أدخل كلمة مرور الحساب الذي ينشئ الأمر:' : 'Enter the password of the account creating the order:'} ${multisigMemberName}`
+                        : undefined}
                 />
                 <SelectWalletTypeModal
                     isOpen={showWalletTypeModal}
@@ -445,11 +923,47 @@ export default function TonWallet() {
                         setShowAccountsModal(false);
                         setShowAddAccountModal(true);
                     }}
-                    onDeleteAccount={deleteAccount}
+                    onAddWatchOnly={() => {
+                        setShowAccountsModal(false);
+                        setShowAddWatchOnlyModal(true);
+                    }}
+                    onAddMultisig={() => {
+                        setShowAccountsModal(false);
+                        setShowAddMultisigModal(true);
+                    }}
+                    onDeleteAccount={(id: string) => {
+                        deleteAccount(id);
+                        tonConnect.removeAccount(id);
+                    }}
                     onRenameAccount={renameAccount}
                     darkMode={darkMode}
                     language={language}
                 />
+                {/* TON Connect Modals */}
+                <ConnectedAppsModal
+                    isOpen={showConnectedAppsModal}
+                    onClose={() => setShowConnectedAppsModal(false)}
+                    connections={connections}
+                    onConnect={handleConnectLink}
+                    onDisconnect={handleTonConnectDisconnect}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <TonConnectApprovalModal
+                    approval={showPasswordModal ? null : tonConnectApproval}
+                    onApprove={() => {
+                        if (blockWatchOnly()) {
+                            handleTonConnectReject();
+                            return;
+                        }
+                        setTxError('');
+                        setPasswordAction('tonConnect');
+                        setShowPasswordModal(true);
+                    }}
+                    onReject={handleTonConnectReject}
+                    darkMode={darkMode}
+                    language={language}
+                />
                 <AddAccountModal
                     isOpen={showAddAccountModal}
                     onClose={() => setShowAddAccountModal(false)}
@@ -459,6 +973,91 @@ export default function TonWallet() {
                     darkMode={darkMode}
                     language={language}
                 />
+                {/* Offline Signing Modals */}
+                <AddWatchOnlyModal
+                    isOpen={showAddWatchOnlyModal}
+                    onClose={() => setShowAddWatchOnlyModal(false)}
+                    onAdd={addWatchOnlyAccount}
+                    onImport={importWatchOnlyAccount}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <NftDetailModal
+                    item={selectedNft}
+                    onClose={() => setSelectedNft(null)}
+                    isHidden={!!selectedNft && isNftHidden(selectedNft, hiddenNfts)}
+                    onToggleHidden={(item: NftItem) => setNftHidden(item.address, !isNftHidden(item, hiddenNfts))}
+                    onSend={handleNftSendInitiated}
+                    resolveMetadata={resolveNftMetadata}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <DomainsModal
+                    isOpen={showDomainsModal}
+                    onClose={() => setShowDomainsModal(false)}
+                    domains={domains}
+                    walletAddress={walletAddress || ''}
+                    onRefresh={refreshDomains}
+                    onUpdate={handleDnsUpdateInitiated}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <StakingModal
+                    isOpen={showStakingModal}
+                    onClose={() => setShowStakingModal(false)}
+                    pools={stakingPools}
+                    positions={stakingPositions}
+                    onRefresh={refreshStaking}
+                    onAction={handleStakingInitiated}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <LiquidityModal
+                    isOpen={showLiquidityModal}
+                    onClose={() => setShowLiquidityModal(false)}
+                    pools={liquidityPools}
+                    positions={liquidityPositions}
+                    provisions={liquidityProvisions}
+                    onRefresh={refreshLiquidity}
+                    onAction={handleLiquidityInitiated}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <ImportTokenModal
+                    isOpen={showImportTokenModal}
+                    onClose={() => setShowImportTokenModal(false)}
+                    tokens={registryTokens}
+                    onValidate={validateJetton}
+                    onImport={importJetton}
+                    onRemove={removeImportedJetton}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <AddMultisigModal
+                    isOpen={showAddMultisigModal}
+                    onClose={() => setShowAddMultisigModal(false)}
+                    accounts={accounts}
+                    codeConfigured={!!import.meta.env.VITE_MULTISIG_V2_CODE}
+                    onImport={importMultisigAccount}
+                    onDeploy={deployMultisig}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <OfflineSendModal
+                    transaction={offlineTx}
+                    onClose={() => setOfflineTx(null)}
+                    onBroadcast={handleOfflineBroadcast}
+                    darkMode={darkMode}
+                    language={language}
+                />
+                <ColdSignerModal
+                    isOpen={showColdSignerModal}
+                    onClose={() => setShowColdSignerModal(false)}
+                    onSign={signOfflineTransaction}
+                    onPair={getColdSignerAccount}
+                    darkMode={darkMode}
+                    language={language}
+                />
             </div>
         </div>
     );
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { X, Plus, Wallet, MoreVertical, Trash2, Edit2, Check, UserPlus, LogOut } from 'lucide-react';
-import { WalletAccount } from '../services/AccountManager';
+import { X, Plus, Wallet, MoreVertical, Trash2, Edit2, Check, UserPlus, LogOut, Eye, Users } from 'lucide-react';
+import { WalletAccount, isMultisigAccount } from '../services/AccountManager';
 
 interface AccountsModalProps {
     isOpen: boolean;
@@ -9,6 +9,8 @@ interface AccountsModalProps {
     activeAccount: WalletAccount | null;
     onSelectAccount: (id: string) => void;
     onAddAccount: () => void;
+    onAddWatchOnly?: () => void;
+    onAddMultisig?: () => void;
     onDeleteAccount: (id: string) => void;
     onRenameAccount: (id: string, name: string) => void;
     darkMode: boolean;
@@ -16,7 +18,7 @@ interface AccountsModalProps {
 }
 
 export function AccountsModal({
-    isOpen, onClose, accounts, activeAccount, onSelectAccount, onAddAccount, onDeleteAccount, onRenameAccount, darkMode, language
+    isOpen, onClose, accounts, activeAccount, onSelectAccount, onAddAccount, onAddWatchOnly, onAddMultisig, onDeleteAccount, onRenameAccount, darkMode, language
 }: AccountsModalProps) {
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editName, setEditName] = useState('');
@@ -93,6 +95,11 @@ export function AccountsModal({
                                             {activeAccount?.id === account.id && (
                                                 <span className="bg-blue-100 text-blue-600 text-[10px] px-1.5 py-0.5 rounded-full font-bold">ACTIVE</span>
                                             )}
+                                            {isMultisigAccount(account) ? (
+                                                <span className="bg-purple-100 text-purple-600 text-[10px] px-1.5 py-0.5 rounded-full font-bold">MULTISIG</span>
+                                            ) : account.watchOnly && (
+                                                <span className="bg-gray-100 text-gray-600 text-[10px] px-1.5 py-0.5 rounded-full font-bold">WATCH-ONLY</span>
+                                            )}
                                         </div>
                                         <div className={`text-xs mt-1 font-mono truncate max-w-[200px] ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                                             {account.address ? `${account.address.slice(0, 4)}...${account.address.slice(-4)}` : '...'}
@@ -149,6 +156,24 @@ export function AccountsModal({
                     <UserPlus size={20} />
                     {language === 'ar' ? 'إضافة حساب جديد' : 'Add New Account'}
                 </button>
+                {onAddWatchOnly && (
+                    <button
+                        onClick={onAddWatchOnly}
+                        className={`w-full mt-2 py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                    >
+                        <Eye size={20} />
+                        {language === 'ar' ? 'إضافة محفظة مراقبة' : 'Add Watch-Only Wallet'}
+                    </button>
+                )}
+                {onAddMultisig && (
+                    <button
+                        onClick={onAddMultisig}
+                        className={`w-full mt-2 py-3 rounded-xl font-bold flex items-center justify-center gap-2 transition ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                    >
+                        <Users size={20} />
+                        {language === 'ar' ? 'إضافة محفظة متعددة التوقيع' : 'Add Multisig Wallet'}
+                    </button>
+                )}
             </div>
         </div>
     );
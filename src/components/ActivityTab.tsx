@@ -1,5 +1,10 @@
-import React from 'react';
-import { ArrowDownToLine, Send, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { ArrowDownToLine, Send, Clock, Repeat, Layers, Rocket, Undo2, Code, Loader2, Search, SlidersHorizontal, Download } from 'lucide-react';
+import { findContact } from '../services/AddressBook';
+import type { Contact } from '../services/AddressBook';
+import { isEmptyFilter, matchesActivity, monthRange, statementToCsv, statementToJson } from '../services/ActivityStatement';
+import type { ActivityFilter, ActivityStatement } from '../services/ActivityStatement';
+import type { TransactionAction } from '../types';
 
 interface ActivityTabProps {
     darkMode: boolean;
@@ -8,17 +13,362 @@ interface ActivityTabProps {
     setActivityFilter: (v: string) => void;
     activities: any[];
     setSelectedTransaction: (v: any) => void;
+    domainNames?: Record<string, string | null>;   // Reverse-resolved counterparties
+    contacts?: Contact[];
+    hasMore?: boolean;              // Older history can be loaded
+    isLoadingMore?: boolean;
+    onLoadMore?: () => void;
+    tokens?: any[];                 // Jettons offered in the asset filter
+    onBuildStatement?: (filter: ActivityFilter, currency: string) => Promise<ActivityStatement>;
 }
 
-export default function ActivityTab({ darkMode, language, activityFilter, setActivityFilter, activities, setSelectedTransaction }: ActivityTabProps) {
+// Action filter groups
+const ACTION_GROUPS: { id: string; actions: TransactionAction[]; en: string; ar: string }[] = [
+    { id: 'transfers', actions: ['ton_transfer', 'jetton_transfer'], en: 'Transfers', ar: 'التحويلات' },
+    { id: 'swaps', actions: ['jetton_swap'], en: 'Swaps', ar: 'المبادلات' },
+    { id: 'nfts', actions: ['nft_transfer', 'nft_purchase', 'auction_bid'], en: 'NFTs', ar: 'NFT' },
+    { id: 'staking', actions: ['stake_deposit', 'stake_withdraw_request', 'stake_withdraw'], en: 'Staking', ar: 'التخزين' },
+    { id: 'contracts', actions: ['contract_deploy', 'contract_call', 'unknown'], en: 'Contracts', ar: 'العقود' },
+    { id: 'other', actions: ['jetton_mint', 'jetton_burn', 'domain_renew', 'subscribe', 'unsubscribe', 'bounce'], en: 'Other', ar: 'أخرى' },
+];
+
+const STATEMENT_CURRENCIES = ['usd', 'eur', 'gbp'];
+
+/**
+ * Unix time of a date input value (UTC midnight), the next day's when `end`
+ */
+function dateToUnix(value: string, end = false): number | undefined {
+    if (!value) return undefined;
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return isNaN(time) ? undefined : time / 1000 + (end ? 24 * 60 * 60 : 0);
+}
+
+/**
+ * Save a statement as a CSV or JSON file
+ */
+function downloadStatement(statement: ActivityStatement, format: 'csv' | 'json'): void {
+    const content = format === 'csv' ? statementToCsv(statement) : statementToJson(statement);
+    const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const period = statement.from !== undefined ? new Date(statement.from * 1000).toISOString().slice(0, 10) : 'all';
+    link.href = url;
+    link.download = `statement_${statement.address.slice(-8)}_${period}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Label for a transaction status ('completed' is an indexed history item)
+ */
+export function getStatusLabel(status: string, language: string): string {
+    const ar = language === 'ar';
+    switch (status) {
+        case 'pending':
+        case 'confirming':
+            return ar ? 'قيد الانتظار' : 'Pending';
+        case 'bounced':
+            return ar ? 'مرتدة' : 'Bounced';
+        case 'failed':
+            return ar ? 'فشلت' : 'Failed';
+        case 'expired':
+            return ar ? 'منتهية الصلاحية' : 'Expired';
+        default:
+            return ar ? 'مكتمل' : 'Completed';
+    }
+}
+
+/**
+ * Dot colour for a transaction status
+ */
+export function getStatusColor(status: string): string {
+    switch (status) {
+        case 'pending':
+        case 'confirming':
+            return 'bg-yellow-500';
+        case 'bounced':
+            return 'bg-orange-500';
+        case 'failed':
+            return 'bg-red-500';
+        case 'expired':
+            return 'bg-gray-400';
+        default:
+            return 'bg-green-500';
+    }
+}
+
+/**
+ * Saved contact of a transaction's counterparty, matched on the raw address
+ * when the history has it (the display address may be a TonAPI name)
+ */
+export function getCounterpartyContact(transaction: any, contacts: Contact[]): Contact | undefined {
+    const received = transaction.type === 'received';
+    const address = (received ? transaction.fromRaw : transaction.toRaw) || (received ? transaction.from : transaction.to);
+    return address ? findContact(contacts, address) : undefined;
+}
+
+/**
+ * Title of a history item by its action; tracked sends have none and are transfers
+ */
+export function getActivityTitle(activity: any, language: string): string {
+    const ar = language === 'ar';
+    const received = activity.type === 'received';
+    switch (activity.action) {
+        case 'nft_transfer':
+            return received ? (ar ? 'استلام NFT' : 'NFT received') : (ar ? 'إرسال NFT' : 'NFT sent');
+        case 'jetton_swap':
+            return ar ? 'مبادلة' : 'Swap';
+        case 'jetton_mint':
+            return ar ? 'سك' : 'Mint';
+        case 'jetton_burn':
+            return ar ? 'حرق' : 'Burn';
+        case 'nft_purchase':
+            return received ? (ar ? 'بيع NFT' : 'NFT sale') : (ar ? 'شراء NFT' : 'NFT purchase');
+        case 'auction_bid':
+            return ar ? 'مزايدة' : 'Auction bid';
+        case 'contract_deploy':
+            return ar ? 'نشر عقد' : 'Contract deploy';
+        case 'contract_call':
+            return ar ? 'استدعاء عقد' : 'Contract call';
+        case 'stake_deposit':
+            return ar ? 'تخزين' : 'Stake';
+        case 'stake_withdraw_request':
+            return ar ? 'طلب سحب التخزين' : 'Unstake request';
+        case 'stake_withdraw':
+            return ar ? 'سحب التخزين' : 'Unstake';
+        case 'domain_renew':
+            return ar ? 'تجديد النطاق' : 'Domain renewal';
+        case 'subscribe':
+            return ar ? 'اشتراك' : 'Subscription';
+        case 'unsubscribe':
+            return ar ? 'إلغاء الاشتراك' : 'Unsubscribe';
+        case 'bounce':
+            return ar ? 'مرتدة' : 'Bounced';
+        case 'unknown':
+            return activity.description || (ar ? 'إجراء عقد' : 'Contract action');
+        default:
+            return received ? (ar ? 'استلام' : 'Receive') : (ar ? 'إرسال' : 'Send');
+    }
+}
+
+// Actions that move no value show no amount
+const VALUELESS_ACTIONS = ['contract_deploy', 'domain_renew', 'unsubscribe', 'unknown'];
+
+function ActivityIcon({ activity }: { activity: any }) {
+    switch (activity.action) {
+        case 'jetton_swap':
+            return <Repeat size={18} />;
+        case 'stake_deposit':
+        case 'stake_withdraw_request':
+        case 'stake_withdraw':
+            return <Layers size={18} />;
+        case 'contract_deploy':
+            return <Rocket size={18} />;
+        case 'bounce':
+            return <Undo2 size={18} />;
+        case 'contract_call':
+        case 'unknown':
+            return <Code size={18} />;
+        default:
+            return activity.type === 'received' ? <ArrowDownToLine size={18} /> : <Send size={18} />;
+    }
+}
+
+const isFinalSuccess = (status: string) => status === 'completed' || status === 'confirmed';
+
+export default function ActivityTab({ darkMode, language, activityFilter, setActivityFilter, activities, setSelectedTransaction, domainNames = {}, contacts = [], hasMore = false, isLoadingMore = false, onLoadMore, tokens = [], onBuildStatement }: ActivityTabProps) {
+    const [query, setQuery] = useState('');
+    const [showFilters, setShowFilters] = useState(false);
+    const [asset, setAsset] = useState('');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+    const [minAmount, setMinAmount] = useState('');
+    const [maxAmount, setMaxAmount] = useState('');
+    const [actionGroup, setActionGroup] = useState('');
+    const [currency, setCurrency] = useState('usd');
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState('');
+
+    const filter: ActivityFilter = {
+        query,
+        asset: asset || undefined,
+        from: dateToUnix(fromDate),
+        to: dateToUnix(toDate, true),
+        minAmount,
+        maxAmount,
+        actions: ACTION_GROUPS.find(group => group.id === actionGroup)?.actions,
+        direction: activityFilter === 'received' ? 'incoming' : activityFilter === 'sent' ? 'outgoing' : undefined,
+    };
+
+    // Indexed items are filtered on their history record; tracked sends not yet indexed
+    // have none and are listed only while nothing but the direction narrows the list
+    const visibleActivities = activities.filter((activity: any) => activity.record
+        ? matchesActivity(activity.record, filter, contacts)
+        : isEmptyFilter({ ...filter, direction: undefined }) && filter.direction !== 'incoming');
+
+    const selectMonth = (value: string) => {
+        const [year, month] = value.split('-').map(Number);
+        if (!year || !month) return;
+        const range = monthRange(year, month);
+        setFromDate(new Date(range.from * 1000).toISOString().slice(0, 10));
+        setToDate(new Date((range.to - 1) * 1000).toISOString().slice(0, 10));
+    };
+
+    const clearFilters = () => {
+        setAsset('');
+        setFromDate('');
+        setToDate('');
+        setMinAmount('');
+        setMaxAmount('');
+        setActionGroup('');
+    };
+
+    const handleExport = async (format: 'csv' | 'json') => {
+        if (!onBuildStatement) return;
+        setIsExporting(true);
+        setExportError('');
+        try {
+            downloadStatement(await onBuildStatement(filter, currency), format);
+        } catch (e: any) {
+            setExportError(e.message);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const fieldClass = `w-full p-2.5 rounded-xl border text-xs ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const labelClass = `block text-[11px] font-semibold mb-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`;
+
+    // Saved contacts show their label, and counterparties with a TON DNS name show the name
+    const displayName = (activity: any) => {
+        const address = activity.type === 'received' ? activity.from : activity.to;
+        return getCounterpartyContact(activity, contacts)?.label || domainNames[address] || address;
+    };
+
+    // Load older history when the end of the list scrolls into view
+    const sentinel = React.useRef(null);
+    React.useEffect(() => {
+        const element = sentinel.current;
+        if (!element || !hasMore || isLoadingMore || !onLoadMore || typeof IntersectionObserver === 'undefined') return;
+        const observer = new IntersectionObserver((entries: IntersectionObserverEntry[]) => {
+            if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+        }, { rootMargin: '200px' });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [hasMore, isLoadingMore, onLoadMore, activities.length]);
+
     return (
         <div className="px-5 pb-6 pt-2">
             <div className="flex items-center justify-between mb-4">
                 <h3 className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
                     {language === 'ar' ? 'سجل المعاملات' : 'Transactions'}
                 </h3>
+                <button
+                    onClick={() => setShowFilters(!showFilters)}
+                    className={`p-2 rounded-xl transition ${showFilters
+                        ? (darkMode ? 'bg-white text-black' : 'bg-black text-white')
+                        : (darkMode ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-600')
+                        }`}
+                    title={language === 'ar' ? 'الفلاتر والتصدير' : 'Filters and export'}
+                >
+                    <SlidersHorizontal size={16} />
+                </button>
+            </div>
+
+            {/* Search */}
+            <div className={`flex items-center gap-2 px-3 mb-3 rounded-xl border ${darkMode ? 'bg-gray-900 border-gray-800' : 'bg-gray-50 border-gray-200'}`}>
+                <Search size={16} className={darkMode ? 'text-gray-500' : 'text-gray-400'} />
+                <input
+                    value={query}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setQuery(e.target.value)}
+                    placeholder={language === 'ar' ? 'ابحث بالعنوان أو الاسم أو التعليق أو المعرف' : 'Search address, label, comment or hash'}
+                    className={`flex-1 py-2.5 bg-transparent text-sm outline-none ${darkMode ? 'text-white' : 'text-gray-900'}`}
+                />
             </div>
 
+            {/* Filters and statement export */}
+            {showFilters && (
+                <div className={`p-4 mb-4 rounded-2xl space-y-3 ${darkMode ? 'bg-gray-900 border border-gray-800' : 'bg-white border border-gray-100'}`}>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'الأصل' : 'Asset'}</label>
+                            <select value={asset} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAsset(e.target.value)} className={fieldClass}>
+                                <option value="">{language === 'ar' ? 'الكل' : 'All'}</option>
+                                <option value="TON">TON</option>
+                                {tokens.filter((t: any) => t.masterAddress).map((t: any) => (
+                                    <option key={t.masterAddress} value={t.masterAddress}>{t.symbol}</option>
+                                ))}
+                                <option value="NFT">NFT</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'النوع' : 'Type'}</label>
+                            <select value={actionGroup} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setActionGroup(e.target.value)} className={fieldClass}>
+                                <option value="">{language === 'ar' ? 'الكل' : 'All'}</option>
+                                {ACTION_GROUPS.map(group => (
+                                    <option key={group.id} value={group.id}>{language === 'ar' ? group.ar : group.en}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'من تاريخ' : 'From date'}</label>
+                            <input type="date" value={fromDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFromDate(e.target.value)} className={fieldClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'إلى تاريخ' : 'To date'}</label>
+                            <input type="date" value={toDate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setToDate(e.target.value)} className={fieldClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'أقل مبلغ' : 'Min amount'}</label>
+                            <input type="number" min="0" value={minAmount} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMinAmount(e.target.value)} className={fieldClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'أعلى مبلغ' : 'Max amount'}</label>
+                            <input type="number" min="0" value={maxAmount} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMaxAmount(e.target.value)} className={fieldClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'كشف شهري' : 'Monthly statement'}</label>
+                            <input type="month" onChange={(e: React.ChangeEvent<HTMLInputElement>) => selectMonth(e.target.value)} className={fieldClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{language === 'ar' ? 'العملة' : 'Currency'}</label>
+                            <select value={currency} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCurrency(e.target.value)} className={fieldClass}>
+                                {STATEMENT_CURRENCIES.map(c => <option key={c} value={c}>{c.toUpperCase()}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {exportError && (
+                        <p className={`text-xs ${darkMode ? 'text-red-400' : 'text-red-600'}`}>{exportError}</p>
+                    )}
+
+                    <div className="grid grid-cols-3 gap-2">
+                        <button
+                            onClick={clearFilters}
+                            className={`py-2.5 rounded-xl text-xs font-bold ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                        >
+                            {language === 'ar' ? 'مسح' : 'Clear'}
+                        </button>
+                        {(['csv', 'json'] as const).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleExport(format)}
+                                disabled={isExporting || !onBuildStatement}
+                                className="py-2.5 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-1.5"
+                            >
+                                {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+                                {format.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                    <p className={`text-[11px] ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                        {language === 'ar'
+                            ? 'يشمل التصدير المعاملات المفلترة مع قيمتها بالعملة وقت المعاملة والرسوم'
+                            : 'Exports the filtered transactions with their value at the time and the fees paid'}
+                    </p>
+                </div>
+            )}
+
             {/* Activity Filter - Cleaner Look */}
             <div className="flex gap-2 mb-4 overflow-x-auto no-scrollbar">
                 {['all', 'received', 'sent'].map((filter) => (
@@ -38,14 +388,8 @@ export default function ActivityTab({ darkMode, language, activityFilter, setAct
             </div>
 
             <div className="space-y-3">
-                {activities
-                    .filter(activity => {
-                        if (activityFilter === 'all') return true;
-                        if (activityFilter === 'received') return activity.type === 'received';
-                        if (activityFilter === 'sent') return activity.type === 'sent';
-                        return true;
-                    })
-                    .map((activity, idx) => (
+                {visibleActivities
+                    .map((activity: any, idx: number) => (
                         <div
                             key={idx}
                             onClick={() => setSelectedTransaction(activity)}
@@ -57,25 +401,23 @@ export default function ActivityTab({ darkMode, language, activityFilter, setAct
                             <div className="flex items-center justify-between">
                                 <div className="flex items-center gap-4">
                                     {/* Colored Icon */}
-                                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${activity.type === 'received'
-                                            ? (darkMode ? 'bg-green-500/10 text-green-400' : 'bg-green-100 text-green-600')
-                                            : (darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-100 text-red-600')
+                                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${activity.action === 'jetton_swap'
+                                            ? (darkMode ? 'bg-blue-500/10 text-blue-400' : 'bg-blue-100 text-blue-600')
+                                            : activity.action === 'bounce'
+                                                ? (darkMode ? 'bg-orange-500/10 text-orange-400' : 'bg-orange-100 text-orange-600')
+                                                : activity.type === 'received'
+                                                    ? (darkMode ? 'bg-green-500/10 text-green-400' : 'bg-green-100 text-green-600')
+                                                    : (darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-100 text-red-600')
                                         }`}>
-                                        {activity.type === 'received' ? (
-                                            <ArrowDownToLine size={18} />
-                                        ) : (
-                                            <Send size={18} />
-                                        )}
+                                        <ActivityIcon activity={activity} />
                                     </div>
 
                                     <div>
                                         <div className="flex items-center gap-2">
-                                            <p className={`font-semibold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
-                                                {activity.type === 'received'
-                                                    ? (language === 'ar' ? 'استلام' : 'Receive')
-                                                    : (language === 'ar' ? 'إرسال' : 'Send')}
+                                            <p className={`font-semibold text-sm truncate max-w-[140px] ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                                {getActivityTitle(activity, language)}
                                             </p>
-                                            <span className={`text-[10px] px-1.5 py-0.5 rounded-md font-medium ${activity.status === 'completed'
+                                            <span className={`text-[10px] px-1.5 py-0.5 rounded-md font-medium ${isFinalSuccess(activity.status)
                                                 ? (darkMode ? 'bg-green-500/10 text-green-400' : 'bg-green-50 text-green-700')
                                                 : (darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700')
                                                 }`}>
@@ -85,33 +427,64 @@ export default function ActivityTab({ darkMode, language, activityFilter, setAct
                                         </div>
                                         <div className={`flex items-center gap-2 text-xs mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
                                             <span>{activity.time}</span>
+                                            {!isFinalSuccess(activity.status) && (
+                                                <>
+                                                    <span>•</span>
+                                                    <span className="flex items-center gap-1">
+                                                        <span className={`w-1.5 h-1.5 rounded-full ${getStatusColor(activity.status)}`}></span>
+                                                        {getStatusLabel(activity.status, language)}
+                                                    </span>
+                                                </>
+                                            )}
                                             <span>•</span>
                                             <span className="truncate max-w-[100px]">
                                                 {activity.type === 'received'
                                                     ? (language === 'ar' ? 'من' : 'From')
                                                     : (language === 'ar' ? 'إلى' : 'To')
-                                                }: {activity.type === 'received' ? activity.from : activity.to}
+                                                }: {displayName(activity)}
                                             </span>
                                         </div>
                                     </div>
                                 </div>
 
-                                <div className="text-right">
-                                    <p className={`font-bold text-sm ${activity.type === 'received'
-                                            ? 'text-green-600 dark:text-green-400'
-                                            : 'text-red-600 dark:text-red-400'
-                                        }`}>
-                                        {activity.type === 'received' ? '+' : '-'}{activity.amount}
-                                    </p>
-                                    <p className={`text-xs font-medium ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
-                                        {activity.token}
-                                    </p>
-                                </div>
+                                {!VALUELESS_ACTIONS.includes(activity.action) && (
+                                    <div className="text-right">
+                                        <p className={`font-bold text-sm ${activity.type === 'received'
+                                                ? 'text-green-600 dark:text-green-400'
+                                                : 'text-red-600 dark:text-red-400'
+                                            }`}>
+                                            {activity.type === 'received' ? '+' : '-'}{activity.amount}
+                                        </p>
+                                        <p className={`text-xs font-medium ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                                            {activity.action === 'jetton_swap'
+                                                ? `${activity.token} → ${activity.amountOut} ${activity.tokenOut}`
+                                                : activity.token}
+                                        </p>
+                                    </div>
+                                )}
                             </div>
                         </div>
                     ))}
 
-                {activities.length === 0 && (
+                {hasMore && (
+                    <div ref={sentinel} className={`flex justify-center py-4 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                        {isLoadingMore ? (
+                            <Loader2 size={20} className="animate-spin" />
+                        ) : (
+                            <button onClick={onLoadMore} className="text-xs font-semibold text-blue-500">
+                                {language === 'ar' ? 'تحميل المزيد' : 'Load more'}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {visibleActivities.length === 0 && activities.length > 0 && !hasMore && (
+                    <p className={`text-center text-sm py-10 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                        {language === 'ar' ? 'لا توجد معاملات مطابقة' : 'No matching transactions'}
+                    </p>
+                )}
+
+                {activities.length === 0 && !hasMore && (
                     <div className={`text-center py-10 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
                         <div className="w-16 h-16 rounded-full bg-gray-100 dark:bg-gray-800 mx-auto mb-3 flex items-center justify-center">
                             <Clock size={24} className="opacity-50" />
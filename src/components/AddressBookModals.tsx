@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { X, Plus, Pencil, Trash2 } from 'lucide-react';
+import type { Contact, ContactInput } from '../services/AddressBook';
+import { sameTokenAddress } from '../services/TokenRegistry';
+
+interface AddressBookModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    contacts: Contact[];
+    tokens: any[];
+    onSave: (input: ContactInput) => Contact;
+    onRemove: (id: string) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+const EMPTY_FORM: ContactInput = { address: '', label: '', notes: '', defaultJetton: '', requiresMemo: false };
+
+// Address Book Modal - saved recipients with their default asset and memo requirement
+export function AddressBookModal({ isOpen, onClose, contacts, tokens, onSave, onRemove, darkMode, language }: AddressBookModalProps) {
+    const [form, setForm] = useState<ContactInput | null>(null);   // null when not editing
+    const [error, setError] = useState('');
+
+    if (!isOpen) return null;
+
+    const fieldClass = `w-full p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const mutedClass = darkMode ? 'text-gray-500' : 'text-gray-400';
+    const jettons = tokens.filter((t: any) => t.masterAddress);
+
+    const update = (patch: Partial<ContactInput>) => setForm((prev: ContactInput | null) => prev ? { ...prev, ...patch } : prev);
+
+    const edit = (contact: Contact | null) => {
+        setError('');
+        setForm(contact
+            ? { id: contact.id, address: contact.address, label: contact.label, notes: contact.notes ?? '', defaultJetton: contact.defaultJetton ?? '', requiresMemo: contact.requiresMemo }
+            : EMPTY_FORM);
+    };
+
+    const handleSave = () => {
+        if (!form) return;
+        setError('');
+        try {
+            onSave({ ...form, defaultJetton: form.defaultJetton || undefined });
+            setForm(null);
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const handleRemove = (contact: Contact) => {
+        const message = language === 'ar' ? `حذف "${contact.label}"؟` : `Remove "${contact.label}"?`;
+        if (window.confirm(message)) onRemove(contact.id);
+    };
+
+    const assetSymbol = (master?: string) => master
+        ? jettons.find((t: any) => sameTokenAddress(t.masterAddress, master))?.symbol ?? (language === 'ar' ? 'رمز' : 'Jetton')
+        : 'TON';
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'دفتر العناوين' : 'Address book'}
+                    </h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {error && (
+                    <div className={`p-3 mb-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-600'}`}>{error}</div>
+                )}
+
+                {/* Add / edit contact */}
+                {form ? (
+                    <div className={`p-4 mb-4 rounded-xl space-y-2 ${darkMode ? 'bg-gray-800/50' : 'bg-gray-50 border border-gray-200'}`}>
+                        <input
+                            placeholder={language === 'ar' ? 'الاسم' : 'Label'}
+                            value={form.label}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ label: e.target.value })}
+                            className={fieldClass}
+                        />
+                        <input
+                            placeholder={language === 'ar' ? 'العنوان' : 'Address'}
+                            value={form.address}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ address: e.target.value })}
+                            className={`${fieldClass} font-mono`}
+                        />
+                        <input
+                            placeholder={language === 'ar' ? 'ملاحظات (اختياري)' : 'Notes (optional)'}
+                            value={form.notes}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ notes: e.target.value })}
+                            className={fieldClass}
+                        />
+                        <select value={form.defaultJetton} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => update({ defaultJetton: e.target.value })} className={fieldClass}>
+                            <option value="">{language === 'ar' ? 'الأصل الافتراضي: TON' : 'Default asset: TON'}</option>
+                            {jettons.map((t: any) => (
+                                <option key={t.masterAddress} value={t.masterAddress}>
+                                    {language === 'ar' ? `الأصل الافتراضي: ${t.symbol}` : `Default asset: ${t.symbol}`}
+                                </option>
+                            ))}
+                        </select>
+                        <label className="flex items-center justify-between gap-2 cursor-pointer px-1 py-1">
+                            <span className={`text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                {language === 'ar' ? 'يتطلب مذكرة (مثل منصات التداول)' : 'Requires a memo (e.g. exchanges)'}
+                            </span>
+                            <input
+                                type="checkbox"
+                                checked={!!form.requiresMemo}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ requiresMemo: e.target.checked })}
+                                className="w-4 h-4 accent-blue-600"
+                            />
+                        </label>
+                        <div className="grid grid-cols-2 gap-2 pt-1">
+                            <button
+                                onClick={() => setForm(null)}
+                                className={`py-3 rounded-xl text-sm font-bold ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                            >
+                                {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={!form.label.trim() || !form.address.trim()}
+                                className="py-3 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                {language === 'ar' ? 'حفظ' : 'Save'}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => edit(null)}
+                        className="w-full mb-4 py-3 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 flex items-center justify-center gap-2"
+                    >
+                        <Plus size={16} />
+                        {language === 'ar' ? 'جهة اتصال جديدة' : 'New contact'}
+                    </button>
+                )}
+
+                {/* Contact list */}
+                <div className="space-y-3">
+                    {contacts.length === 0 && (
+                        <p className={`text-sm text-center py-4 ${mutedClass}`}>{language === 'ar' ? 'لا توجد جهات اتصال' : 'No contacts yet'}</p>
+                    )}
+                    {contacts.map((contact: Contact) => (
+                        <div key={contact.id} className={`p-4 rounded-xl ${darkMode ? 'bg-gray-800' : 'bg-gray-50 border border-gray-200'}`}>
+                            <div className="flex justify-between items-center mb-1">
+                                <span className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{contact.label}</span>
+                                <div className="flex items-center gap-1">
+                                    <button onClick={() => edit(contact)} className={`p-1.5 rounded-lg ${mutedClass}`} title={language === 'ar' ? 'تعديل' : 'Edit'}>
+                                        <Pencil size={14} />
+                                    </button>
+                                    <button onClick={() => handleRemove(contact)} className="p-1.5 rounded-lg text-red-500" title={language === 'ar' ? 'حذف' : 'Remove'}>
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                            <p className={`font-mono text-xs break-all ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>{contact.address}</p>
+                            {contact.notes && (
+                                <p className={`text-xs mt-1 ${mutedClass}`}>{contact.notes}</p>
+                            )}
+                            <div className={`flex gap-3 mt-1 text-xs ${mutedClass}`}>
+                                <span>{assetSymbol(contact.defaultJetton)}</span>
+                                {contact.requiresMemo && (
+                                    <span className="text-yellow-500 font-semibold">{language === 'ar' ? 'يتطلب مذكرة' : 'Memo required'}</span>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Wallet, Settings, Clock } from 'lucide-react';
+import { Wallet, Settings, Clock, Gem } from 'lucide-react';
 
 interface BottomNavigationProps {
     darkMode: boolean;
@@ -11,7 +11,7 @@ interface BottomNavigationProps {
 export default function BottomNavigation({ darkMode, activeTab, setActiveTab, language }: BottomNavigationProps) {
     return (
         <div className={`border-t ${darkMode ? 'border-gray-900 bg-gray-950' : 'border-gray-200 bg-white'}`}>
-            <div className="grid grid-cols-3 gap-1 p-2">
+            <div className="grid grid-cols-4 gap-1 p-2">
                 <button
                     onClick={() => setActiveTab('home')}
                     className={`flex flex-col items-center justify-center py-3 rounded-xl transition ${activeTab === 'home'
@@ -29,6 +29,23 @@ export default function BottomNavigation({ darkMode, activeTab, setActiveTab, la
                     </span>
                 </button>
 
+                <button
+                    onClick={() => setActiveTab('collectibles')}
+                    className={`flex flex-col items-center justify-center py-3 rounded-xl transition ${activeTab === 'collectibles'
+                        ? darkMode
+                            ? 'bg-blue-950 text-blue-400'
+                            : 'bg-blue-50 text-blue-600'
+                        : darkMode
+                            ? 'text-gray-500'
+                            : 'text-gray-500'
+                        }`}
+                >
+                    <Gem size={22} />
+                    <span className="text-xs mt-1 font-medium">
+                        {language === 'ar' ? 'المقتنيات' : 'Collectibles'}
+                    </span>
+                </button>
+
                 <button
                     onClick={() => setActiveTab('activity')}
                     className={`flex flex-col items-center justify-center py-3 rounded-xl transition ${activeTab === 'activity'
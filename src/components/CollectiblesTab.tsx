@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Address } from '@ton/core';
+import { Gem, RefreshCw, EyeOff, ShieldAlert, Tag } from 'lucide-react';
+import type { NftItem } from '../types';
+import { filterNfts, groupNftsByCollection } from '../wallets/nft';
+
+interface CollectiblesTabProps {
+    darkMode: boolean;
+    language: string;
+    walletAddress: string;
+    hiddenNfts: string[];
+    getNfts: () => Promise<NftItem[]>;
+    onSelect: (item: NftItem) => void;
+}
+
+/**
+ * Display name of an item (unnamed items show their index)
+ */
+export function getNftName(item: NftItem): string {
+    return item.metadata.name || `${item.collection?.name ?? 'NFT'} #${item.index}`;
+}
+
+/**
+ * Whether the user hid an item
+ */
+export function isNftHidden(item: NftItem, hiddenNfts: string[]): boolean {
+    const address = Address.parse(item.address);
+    return hiddenNfts.some(hidden => Address.parse(hidden).equals(address));
+}
+
+// Collectibles - NFT gallery grouped by collection; spam and hidden items stay out unless asked for
+export default function CollectiblesTab({ darkMode, language, walletAddress, hiddenNfts, getNfts, onSelect }: CollectiblesTabProps) {
+    const [items, setItems] = useState<NftItem[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [collection, setCollection] = useState('');
+    const [showHidden, setShowHidden] = useState(false);
+
+    const loadItems = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            setItems(await getNfts());
+        } catch (e: any) {
+            setError(e.message || 'Failed to load collectibles');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        setCollection('');
+        loadItems();
+    }, [walletAddress]);
+
+    const visible = filterNfts(items, { hidden: hiddenNfts, showHidden, showSpam: showHidden });
+    const shown = filterNfts(visible, { collection: collection || undefined, showHidden: true, showSpam: true });
+    const collections = groupNftsByCollection(visible)
+        .filter(group => group.collection)
+        .map(group => ({ ...group.collection!, count: group.items.length }));
+    const filteredOut = items.length - filterNfts(items, { hidden: hiddenNfts }).length;
+
+    const chipClass = (active: boolean) => `px-4 py-2 rounded-xl text-xs font-semibold whitespace-nowrap transition ${active
+        ? (darkMode ? 'bg-white text-black' : 'bg-black text-white')
+        : (darkMode ? 'bg-gray-800 text-gray-400 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200')}`;
+
+    return (
+        <div className="px-5 pb-6 pt-2">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {language === 'ar' ? 'المقتنيات' : 'Collectibles'}
+                </h3>
+                <button onClick={loadItems} disabled={isLoading} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                    <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            {collections.length > 1 && (
+                <div className="flex gap-2 mb-4 overflow-x-auto no-scrollbar">
+                    <button onClick={() => setCollection('')} className={chipClass(!collection)}>
+                        {language === 'ar' ? 'الكل' : 'All'}
+                    </button>
+                    {collections.map(group => (
+                        <button key={group.address} onClick={() => setCollection(group.address)} className={chipClass(collection === group.address)}>
+                            {group.name} · {group.count}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+            <div className="grid grid-cols-2 gap-3">
+                {shown.map((item: NftItem) => {
+                    const hidden = isNftHidden(item, hiddenNfts);
+                    const image = item.preview || item.metadata.image;
+                    return (
+                        <div
+                            key={item.address}
+                            onClick={() => onSelect(item)}
+                            className={`rounded-2xl overflow-hidden border cursor-pointer transition ${darkMode
+                                ? 'bg-gray-900 border-gray-800 hover:bg-gray-800'
+                                : 'bg-white border-gray-100 hover:shadow-sm'} ${hidden || item.trust === 'blacklist' ? 'opacity-50' : ''}`}
+                        >
+                            <div className={`aspect-square flex items-center justify-center ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                                {image ? (
+                                    <img src={image} alt={getNftName(item)} className="w-full h-full object-cover" loading="lazy" />
+                                ) : (
+                                    <Gem size={32} className={darkMode ? 'text-gray-600' : 'text-gray-300'} />
+                                )}
+                            </div>
+                            <div className="p-3">
+                                <p className={`font-semibold text-sm truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>{getNftName(item)}</p>
+                                <div className={`flex items-center gap-1 text-xs mt-0.5 ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                    {item.trust === 'blacklist' && <ShieldAlert size={12} className="text-red-500 shrink-0" />}
+                                    {hidden && <EyeOff size={12} className="shrink-0" />}
+                                    {item.onSale && <Tag size={12} className="text-blue-500 shrink-0" />}
+                                    <span className="truncate">{item.collection?.name ?? (language === 'ar' ? 'بدون مجموعة' : 'No collection')}</span>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {!isLoading && shown.length === 0 && (
+                <div className={`text-center py-10 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                    <div className="w-16 h-16 rounded-full bg-gray-100 dark:bg-gray-800 mx-auto mb-3 flex items-center justify-center">
+                        <Gem size={24} className="opacity-50" />
+                    </div>
+                    <p>{language === 'ar' ? 'لا توجد مقتنيات بعد' : 'No collectibles yet'}</p>
+                </div>
+            )}
+
+            {filteredOut > 0 && (
+                <button
+                    onClick={() => setShowHidden(!showHidden)}
+                    className={`w-full mt-4 py-2 text-xs font-medium ${darkMode ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'}`}
+                >
+                    {showHidden
+                        ? (language === 'ar' ? 'إخفاء المخفية والمزعجة' : 'Hide hidden and spam')
+                        : (language === 'ar' ? `عرض المخفية والمزعجة (${filteredOut})` : `Show hidden and spam (${filteredOut})`)}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { X, Globe, RefreshCw, CalendarClock, ChevronRight, ArrowDownToLine } from 'lucide-react';
+import type { DnsDomain, DnsRecordKind, DnsUpdate } from '../types';
+import { getRenewalReminders } from '../wallets/dns';
+
+interface DomainsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    domains: DnsDomain[];
+    walletAddress: string;
+    onRefresh: () => Promise<void>;
+    onUpdate: (update: DnsUpdate) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+/**
+ * Whole days until a domain expires (negative once it has expired)
+ */
+export function getDaysUntilExpiry(domain: DnsDomain, now: number = Math.floor(Date.now() / 1000)): number | null {
+    return domain.expiresAt === null ? null : Math.floor((domain.expiresAt - now) / (24 * 3600));
+}
+
+/**
+ * Reminder line for a domain due for renewal
+ */
+export function getRenewalLabel(domain: DnsDomain, language: string): string {
+    const days = getDaysUntilExpiry(domain) ?? 0;
+    if (days < 0) {
+        return language === 'ar' ? `انتهت صلاحية ${domain.name}` : `${domain.name} has expired`;
+    }
+    return language === 'ar'
+        ? `تنتهي صلاحية ${domain.name} خلال ${days} يوم`
+        : `${domain.name} expires in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+const RECORD_LABELS: Record<DnsRecordKind, { en: string; ar: string; placeholder: string }> = {
+    wallet: { en: 'Wallet', ar: 'المحفظة', placeholder: 'EQ... / UQ... / name.ton' },
+    site: { en: 'Site (ADNL)', ar: 'الموقع (ADNL)', placeholder: '64 hex characters' },
+    storage: { en: 'Storage (bag ID)', ar: 'التخزين (Bag ID)', placeholder: '64 hex characters' },
+};
+
+// Domains Modal - owned domains with expiry, renewal and wallet/site/storage record edits
+export function DomainsModal({ isOpen, onClose, domains, walletAddress, onRefresh, onUpdate, darkMode, language }: DomainsModalProps) {
+    const [selected, setSelected] = useState<DnsDomain | null>(null);
+    const [record, setRecord] = useState<DnsRecordKind>('wallet');
+    const [value, setValue] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelected(null);
+        setError('');
+        setIsLoading(true);
+        onRefresh()
+            .catch((e: any) => setError(e.message || 'Failed to load domains'))
+            .finally(() => setIsLoading(false));
+    }, [isOpen]);
+
+    useEffect(() => {
+        setRecord('wallet');
+        setValue('');
+    }, [selected?.address]);
+
+    if (!isOpen) return null;
+
+    const reminders = getRenewalReminders(domains);
+    const cardClass = darkMode ? 'bg-gray-900 border-gray-800 hover:bg-gray-800' : 'bg-white border-gray-100 hover:bg-gray-50';
+    const fieldClass = `w-full p-3 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+
+    const formatExpiry = (domain: DnsDomain) => {
+        if (domain.expiresAt === null) {
+            return domain.name.endsWith('.ton')
+                ? (language === 'ar' ? 'تاريخ الانتهاء غير معروف' : 'Expiry unknown')
+                : (language === 'ar' ? 'لا تنتهي صلاحيته' : 'Does not expire');
+        }
+        const date = new Date(domain.expiresAt * 1000).toLocaleDateString();
+        return `${language === 'ar' ? 'تنتهي في' : 'Expires'} ${date}`;
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <div className="flex items-center gap-2">
+                        {selected && (
+                            <button onClick={() => setSelected(null)} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                                <ArrowDownToLine className="rotate-90" size={18} />
+                            </button>
+                        )}
+                        <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                            {selected ? selected.name : (language === 'ar' ? 'النطاقات' : 'Domains')}
+                        </h3>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        {!selected && (
+                            <button
+                                onClick={() => {
+                                    setIsLoading(true);
+                                    onRefresh().finally(() => setIsLoading(false));
+                                }}
+                                disabled={isLoading}
+                                className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+                            >
+                                <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                            </button>
+                        )}
+                        <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+                {!selected && (
+                    <>
+                        {reminders.length > 0 && (
+                            <div className={`p-3 mb-4 rounded-xl text-sm space-y-1 ${darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700'}`}>
+                                {reminders.map((domain: DnsDomain) => (
+                                    <div key={domain.address} className="flex items-center justify-between gap-2">
+                                        <span className="flex items-center gap-2">
+                                            <CalendarClock size={16} className="shrink-0" />
+                                            {getRenewalLabel(domain, language)}
+                                        </span>
+                                        <button
+                                            onClick={() => onUpdate({ type: 'renew', domainAddress: domain.address })}
+                                            className="font-semibold underline shrink-0"
+                                        >
+                                            {language === 'ar' ? 'تجديد' : 'Renew'}
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            {domains.map((domain: DnsDomain) => (
+                                <button
+                                    key={domain.address}
+                                    onClick={() => setSelected(domain)}
+                                    className={`w-full p-4 rounded-2xl border flex items-center justify-between transition ${cardClass}`}
+                                >
+                                    <div className="flex items-center gap-3 text-left">
+                                        <div className={`w-10 h-10 rounded-full flex items-center justify-center ${darkMode ? 'bg-blue-950 text-blue-400' : 'bg-blue-100 text-blue-600'}`}>
+                                            <Globe size={18} />
+                                        </div>
+                                        <div>
+                                            <p className={`font-semibold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>{domain.name}</p>
+                                            <p className={`text-xs ${reminders.includes(domain) ? 'text-yellow-500' : (darkMode ? 'text-gray-500' : 'text-gray-500')}`}>
+                                                {formatExpiry(domain)}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <ChevronRight size={18} className={darkMode ? 'text-gray-600' : 'text-gray-400'} />
+                                </button>
+                            ))}
+                        </div>
+
+                        {!isLoading && domains.length === 0 && (
+                            <div className={`text-center py-10 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                                <Globe size={24} className="mx-auto mb-3 opacity-50" />
+                                <p>{language === 'ar' ? 'لا تملك أي نطاق' : 'You do not own any domains'}</p>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {selected && (
+                    <div className="space-y-4">
+                        <div className={`p-3 rounded-xl text-sm ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                            <p>{formatExpiry(selected)}</p>
+                            <p className={`text-xs font-mono break-all mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{selected.address}</p>
+                        </div>
+
+                        {selected.name.endsWith('.ton') && (
+                            <button
+                                onClick={() => onUpdate({ type: 'renew', domainAddress: selected.address })}
+                                className={`w-full py-3 rounded-xl font-semibold flex items-center justify-center gap-2 ${darkMode ? 'bg-gray-800 text-white hover:bg-gray-700' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+                            >
+                                <CalendarClock size={16} />
+                                {language === 'ar' ? 'تجديد لمدة عام' : 'Renew for a year'}
+                            </button>
+                        )}
+
+                        <div>
+                            <p className={`text-xs font-medium mb-2 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                                {language === 'ar' ? 'تعديل السجل' : 'Edit record'}
+                            </p>
+                            <div className="flex gap-2 mb-3">
+                                {(Object.keys(RECORD_LABELS) as DnsRecordKind[]).map((kind: DnsRecordKind) => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => setRecord(kind)}
+                                        className={`px-3 py-2 rounded-xl text-xs font-semibold transition ${record === kind
+                                            ? (darkMode ? 'bg-white text-black' : 'bg-black text-white')
+                                            : (darkMode ? 'bg-gray-800 text-gray-400 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200')}`}
+                                    >
+                                        {language === 'ar' ? RECORD_LABELS[kind].ar : RECORD_LABELS[kind].en}
+                                    </button>
+                                ))}
+                            </div>
+                            <input
+                                value={value}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setValue(e.target.value)}
+                                placeholder={RECORD_LABELS[record as DnsRecordKind].placeholder}
+                                className={`${fieldClass} font-mono text-sm`}
+                            />
+                            {record === 'wallet' && (
+                                <button
+                                    onClick={() => setValue(walletAddress)}
+                                    className={`text-xs mt-2 ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}
+                                >
+                                    {language === 'ar' ? 'استخدم هذه المحفظة' : 'Use this wallet'}
+                                </button>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={() => onUpdate({ type: 'record', domainAddress: selected.address, record })}
+                                className={`py-3 rounded-xl font-semibold ${darkMode ? 'bg-red-950 text-red-400 hover:bg-red-900' : 'bg-red-50 text-red-600 hover:bg-red-100'}`}
+                            >
+                                {language === 'ar' ? 'حذف السجل' : 'Delete record'}
+                            </button>
+                            <button
+                                onClick={() => onUpdate({ type: 'record', domainAddress: selected.address, record, value: value.trim() })}
+                                disabled={!value.trim()}
+                                className="py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+                            >
+                                {language === 'ar' ? 'حفظ' : 'Save'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { fromNano } from '@ton/core';
+import type { HighloadWalletState } from '../types';
+import { DEFAULT_CONFIG } from '../types';
+
+interface HighloadAdminModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onDiscover: (subwalletIds: number[], timeouts: number[]) => Promise<HighloadWalletState[]>;
+    onSync: (subwalletId: number, timeout: number) => Promise<HighloadWalletState>;
+    darkMode: boolean;
+    language: string;
+}
+
+const STATUS_LABELS: Record<HighloadWalletState['status'], { en: string; ar: string }> = {
+    active: { en: 'Active', ar: 'نشطة' },
+    uninitialized: { en: 'Not deployed', ar: 'غير منشورة' },
+    frozen: { en: 'Frozen', ar: 'مجمدة' },
+};
+
+/**
+ * Numbers of a comma or space separated list
+ */
+function parseList(text: string): number[] {
+    return text.split(/[\s,]+/).filter(Boolean).map(Number);
+}
+
+// Highload Admin Modal - the key's highload wallets per subwallet ID and timeout, with their query ID state
+export function HighloadAdminModal({ isOpen, onClose, onDiscover, onSync, darkMode, language }: HighloadAdminModalProps) {
+    const [subwalletIds, setSubwalletIds] = useState(String(DEFAULT_CONFIG.SUBWALLET_ID));
+    const [timeouts, setTimeouts] = useState(String(DEFAULT_CONFIG.HIGHLOAD_TIMEOUT));
+    const [wallets, setWallets] = useState<HighloadWalletState[]>([]);
+    const [syncing, setSyncing] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const discover = () => {
+        setError('');
+        setIsLoading(true);
+        onDiscover(parseList(subwalletIds), parseList(timeouts))
+            .then(setWallets)
+            .catch((e: any) => setError(e.message || 'Failed to read the wallets'))
+            .finally(() => setIsLoading(false));
+    };
+
+    useEffect(() => {
+        if (isOpen) discover();
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const fieldClass = `w-full p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const mutedClass = darkMode ? 'text-gray-500' : 'text-gray-400';
+
+    const handleSync = (wallet: HighloadWalletState) => {
+        setError('');
+        setSyncing(wallet.address);
+        onSync(wallet.subwalletId, wallet.timeout)
+            .then((updated: HighloadWalletState) => setWallets((list: HighloadWalletState[]) => list.map((w: HighloadWalletState) => (w.address === updated.address ? updated : w))))
+            .catch((e: any) => setError(e.message || 'Failed to sync query IDs'))
+            .finally(() => setSyncing(null));
+    };
+
+    const formatTime = (seconds: number | null) => (seconds ? new Date(seconds * 1000).toLocaleString() : '—');
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'محافظ Highload' : 'Highload wallets'}
+                    </h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* Variants */}
+                <div className="grid grid-cols-2 gap-2 mb-2">
+                    <div>
+                        <label className={`block text-xs mb-1 ${mutedClass}`}>{language === 'ar' ? 'معرفات المحافظ الفرعية' : 'Subwallet IDs'}</label>
+                        <input value={subwalletIds} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSubwalletIds(e.target.value)} className={fieldClass} />
+                    </div>
+                    <div>
+                        <label className={`block text-xs mb-1 ${mutedClass}`}>{language === 'ar' ? 'المهل (ثوانٍ)' : 'Timeouts (seconds)'}</label>
+                        <input value={timeouts} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTimeouts(e.target.value)} className={fieldClass} />
+                    </div>
+                </div>
+                <button
+                    onClick={discover}
+                    disabled={isLoading}
+                    className="w-full mb-4 py-3 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                    {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                    {language === 'ar' ? 'عرض المحافظ' : 'Show wallets'}
+                </button>
+
+                {error && (
+                    <div className={`p-3 mb-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-600'}`}>{error}</div>
+                )}
+
+                <div className="space-y-3">
+                    {wallets.map((wallet: HighloadWalletState) => (
+                        <div key={wallet.address} className={`p-4 rounded-xl ${darkMode ? 'bg-gray-800' : 'bg-gray-50 border border-gray-200'}`}>
+                            <div className="flex justify-between items-center mb-1">
+                                <span className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                    {wallet.subwalletId} · {wallet.timeout}s
+                                </span>
+                                <span className={`text-xs ${wallet.status === 'active' ? 'text-green-500' : mutedClass}`}>
+                                    {language === 'ar' ? STATUS_LABELS[wallet.status].ar : STATUS_LABELS[wallet.status].en}
+                                </span>
+                            </div>
+                            <p className={`text-xs font-mono break-all mb-2 ${mutedClass}`}>{wallet.address}</p>
+
+                            <div className={`grid grid-cols-2 gap-x-3 gap-y-1 text-xs ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                                <span>{language === 'ar' ? 'الرصيد' : 'Balance'}</span>
+                                <span className="text-right">{fromNano(wallet.balance)} TON</span>
+                                <span>{language === 'ar' ? 'آخر تنظيف' : 'Last cleaned'}</span>
+                                <span className="text-right">{formatTime(wallet.lastCleanedAt)}</span>
+                                <span>{language === 'ar' ? 'معرفات معالجة' : 'Processed query IDs'}</span>
+                                <span className="text-right">{wallet.processedCount}</span>
+                                <span>{language === 'ar' ? 'المعرف التالي' : 'Next query ID'}</span>
+                                <span className="text-right">{wallet.nextQueryId.toString()}</span>
+                                <span>{language === 'ar' ? 'المعرفات المتبقية' : 'Query IDs left'}</span>
+                                <span className="text-right">{wallet.remainingQueryIds.toLocaleString()}</span>
+                            </div>
+
+                            {wallet.warnings.map((warning: string) => (
+                                <div key={warning} className={`flex gap-2 mt-2 p-2 rounded-lg text-xs ${darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700'}`}>
+                                    <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                                    <span>{warning}</span>
+                                </div>
+                            ))}
+
+                            {wallet.lastProcessedQueryId !== null && wallet.lastProcessedQueryId >= wallet.nextQueryId && (
+                                <button
+                                    onClick={() => handleSync(wallet)}
+                                    disabled={syncing === wallet.address}
+                                    className="mt-2 text-xs font-semibold underline disabled:opacity-50"
+                                >
+                                    {language === 'ar' ? 'تخطي المعرفات المستخدمة' : 'Skip past the used query IDs'}
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,11 @@
 import React from 'react';
-import { Send, ArrowDownToLine, Wallet, ChevronRight, ArrowRightLeft } from 'lucide-react';
+import { Send, ArrowDownToLine, Wallet, ChevronRight, ArrowRightLeft, CalendarClock, Layers, Droplets } from 'lucide-react';
+import type { DnsDomain, StakingPool, StakingPosition } from '../types';
+import { getRenewalLabel } from './DnsModals';
+import { findStakingPool, formatStake } from './StakingModals';
+import { formatPoolAmount, formatShare, getPoolDexName } from './LiquidityModals';
+import { UnverifiedBadge } from './TokenModals';
+import type { LiquidityPosition } from '../services/LiquidityService';
 
 interface HomeTabProps {
     darkMode: boolean;
@@ -10,9 +16,17 @@ interface HomeTabProps {
     setShowSwapModal: (v: boolean) => void;
     tokens: any[];
     onTokenClick: (token: any) => void;
+    renewalReminders?: DnsDomain[];
+    onRenewalClick?: () => void;
+    stakingPools?: StakingPool[];
+    stakingPositions?: StakingPosition[];
+    onStakingClick?: () => void;
+    liquidityPositions?: LiquidityPosition[];
+    onLiquidityClick?: () => void;
+    onAddTokenClick?: () => void;
 }
 
-export default function HomeTab({ darkMode, language, setShowSendModal, setShowReceiveModal, setShowBuyModal, setShowSwapModal, tokens, onTokenClick }: HomeTabProps) {
+export default function HomeTab({ darkMode, language, setShowSendModal, setShowReceiveModal, setShowBuyModal, setShowSwapModal, tokens, onTokenClick, renewalReminders = [], onRenewalClick, stakingPools = [], stakingPositions = [], onStakingClick, liquidityPositions = [], onLiquidityClick, onAddTokenClick }: HomeTabProps) {
     return (
         <>
             <div className="grid grid-cols-4 gap-2 p-6">
@@ -65,12 +79,29 @@ export default function HomeTab({ darkMode, language, setShowSendModal, setShowR
                 </button>
             </div>
 
+            {/* Domains due for renewal */}
+            {renewalReminders.length > 0 && (
+                <div className="px-6 pb-4">
+                    <button
+                        onClick={onRenewalClick}
+                        className={`w-full p-3 rounded-xl text-sm flex items-center justify-between gap-2 ${darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700'}`}
+                    >
+                        <span className="flex items-center gap-2 text-left">
+                            <CalendarClock size={16} className="shrink-0" />
+                            {getRenewalLabel(renewalReminders[0], language)}
+                            {renewalReminders.length > 1 && ` (+${renewalReminders.length - 1})`}
+                        </span>
+                        <ChevronRight size={16} className="shrink-0" />
+                    </button>
+                </div>
+            )}
+
             <div className="px-6 pb-6">
                 <div className="flex items-center justify-between mb-4">
                     <h3 className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
                         {language === 'ar' ? 'التوكينات' : 'Tokens'}
                     </h3>
-                    <button className={`text-sm ${darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'} flex items-center gap-1`}>
+                    <button onClick={onAddTokenClick} className={`text-sm ${darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'} flex items-center gap-1`}>
                         {language === 'ar' ? 'إضافة' : 'Add'}
                         <ChevronRight size={16} />
                     </button>
@@ -101,7 +132,10 @@ export default function HomeTab({ darkMode, language, setShowSendModal, setShowR
                                 </div>
                                 <div>
                                     <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>{token.name}</p>
-                                    <p className={`text-sm ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>{token.symbol}</p>
+                                    <p className={`text-sm flex items-center gap-1.5 ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                        {token.symbol}
+                                        {token.verified === false && <UnverifiedBadge language={language} />}
+                                    </p>
                                 </div>
                             </div>
                             <div className="text-left">
@@ -112,6 +146,112 @@ export default function HomeTab({ darkMode, language, setShowSendModal, setShowR
                     ))}
                 </div>
             </div>
+
+            {/* Staked TON, held beside the token balances */}
+            {onStakingClick && (
+                <div className="px-6 pb-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                            {language === 'ar' ? 'التخزين' : 'Staking'}
+                        </h3>
+                        <button onClick={onStakingClick} className={`text-sm ${darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'} flex items-center gap-1`}>
+                            {language === 'ar' ? 'تخزين' : 'Stake'}
+                            <ChevronRight size={16} />
+                        </button>
+                    </div>
+
+                    <div className="space-y-3">
+                        {stakingPositions.map((position: StakingPosition) => {
+                            const pool = findStakingPool(stakingPools, position);
+                            const pending = position.pendingDeposit + position.pendingWithdraw + position.readyWithdraw;
+                            return (
+                                <div
+                                    key={position.poolAddress}
+                                    onClick={onStakingClick}
+                                    className={`flex items-center justify-between p-4 ${darkMode ? 'bg-gray-900 hover:bg-gray-800' : 'bg-gray-50 hover:bg-gray-100'} rounded-xl transition cursor-pointer`}
+                                >
+                                    <div className="flex items-center gap-3">
+                                        <div className={`w-10 h-10 ${darkMode ? 'bg-gray-800 text-blue-400' : 'bg-white text-blue-600'} rounded-full flex items-center justify-center shadow-sm`}>
+                                            <Layers size={18} />
+                                        </div>
+                                        <div>
+                                            <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>{pool?.name ?? position.poolAddress.slice(0, 8)}</p>
+                                            <p className="text-sm text-gray-500">
+                                                {pool?.liquidSymbol ?? 'TON'}{pool?.apy != null ? ` · ${pool.apy.toFixed(2)}%` : ''}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="text-left">
+                                        <p className={`font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{formatStake(position.amount)} TON</p>
+                                        {pending > 0n && (
+                                            <p className="text-xs text-yellow-500">
+                                                {language === 'ar' ? 'معلق' : 'Pending'} {formatStake(pending)} TON
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+
+                        {stakingPositions.length === 0 && (
+                            <button
+                                onClick={onStakingClick}
+                                className={`w-full p-4 rounded-xl text-sm text-left ${darkMode ? 'bg-gray-900 text-gray-400 hover:bg-gray-800' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                            >
+                                {language === 'ar' ? 'اربح مكافآت بتخزين TON في مجمع' : 'Earn rewards by staking TON in a pool'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* LP positions on STON.fi and DeDust */}
+            {onLiquidityClick && (
+                <div className="px-6 pb-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                            {language === 'ar' ? 'السيولة' : 'Liquidity'}
+                        </h3>
+                        <button onClick={onLiquidityClick} className={`text-sm ${darkMode ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'} flex items-center gap-1`}>
+                            {language === 'ar' ? 'إضافة' : 'Provide'}
+                            <ChevronRight size={16} />
+                        </button>
+                    </div>
+
+                    <div className="space-y-3">
+                        {liquidityPositions.map((position: LiquidityPosition) => (
+                            <div
+                                key={position.pool.address}
+                                onClick={onLiquidityClick}
+                                className={`flex items-center justify-between p-4 ${darkMode ? 'bg-gray-900 hover:bg-gray-800' : 'bg-gray-50 hover:bg-gray-100'} rounded-xl transition cursor-pointer`}
+                            >
+                                <div className="flex items-center gap-3">
+                                    <div className={`w-10 h-10 ${darkMode ? 'bg-gray-800 text-blue-400' : 'bg-white text-blue-600'} rounded-full flex items-center justify-center shadow-sm`}>
+                                        <Droplets size={18} />
+                                    </div>
+                                    <div>
+                                        <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>{position.pool.tokens[0]}/{position.pool.tokens[1]}</p>
+                                        <p className="text-sm text-gray-500">{getPoolDexName(position.pool)} · {formatShare(position.share)}</p>
+                                    </div>
+                                </div>
+                                <div className="text-left">
+                                    <p className={`text-sm font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{formatPoolAmount(position.underlying[0], position.pool.tokens[0])}</p>
+                                    <p className={`text-sm font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{formatPoolAmount(position.underlying[1], position.pool.tokens[1])}</p>
+                                </div>
+                            </div>
+                        ))}
+
+                        {liquidityPositions.length === 0 && (
+                            <button
+                                onClick={onLiquidityClick}
+                                className={`w-full p-4 rounded-xl text-sm text-left ${darkMode ? 'bg-gray-900 text-gray-400 hover:bg-gray-800' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                            >
+                                {language === 'ar' ? 'اربح رسوم التداول بإضافة سيولة إلى مجمع' : 'Earn trading fees by providing liquidity to a pool'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
         </>
     );
 }
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { X, Loader2, RefreshCw, Copy, Check, Plus } from 'lucide-react';
+import type { CreateInvoiceParams, Invoice, InvoiceAsset, InvoiceStatus } from '../services/InvoiceService';
+import { formatTransferAmount } from '../services/TransferLink';
+
+interface InvoicesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    invoices: Invoice[];
+    webhook: string | null;
+    tokens: any[];
+    onCreate: (params: CreateInvoiceParams) => Invoice;
+    onCancel: (id: string) => void;
+    onCheck: () => Promise<void>;
+    onGetLink: (invoice: Invoice) => string;
+    onSetWebhook: (url: string | null) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+const STATUS_LABELS: Record<InvoiceStatus, { en: string; ar: string; color: string }> = {
+    pending: { en: 'Pending', ar: 'بانتظار الدفع', color: 'text-gray-500' },
+    underpaid: { en: 'Underpaid', ar: 'مدفوعة جزئياً', color: 'text-yellow-500' },
+    paid: { en: 'Paid', ar: 'مدفوعة', color: 'text-green-500' },
+    overpaid: { en: 'Overpaid', ar: 'مدفوعة بزيادة', color: 'text-blue-500' },
+    expired: { en: 'Expired', ar: 'منتهية', color: 'text-red-500' },
+    cancelled: { en: 'Cancelled', ar: 'ملغاة', color: 'text-gray-500' },
+};
+
+const TON_ASSET: InvoiceAsset = { symbol: 'TON', decimals: 9 };
+
+// Invoices Modal - merchant invoices with a unique comment each, matched to incoming transfers
+export function InvoicesModal({ isOpen, onClose, invoices, webhook, tokens, onCreate, onCancel, onCheck, onGetLink, onSetWebhook, darkMode, language }: InvoicesModalProps) {
+    const [isCreating, setIsCreating] = useState(false);
+    const [assetMaster, setAssetMaster] = useState('');     // '' for TON
+    const [amount, setAmount] = useState('');
+    const [description, setDescription] = useState('');
+    const [memo, setMemo] = useState('');
+    const [expiresInMinutes, setExpiresInMinutes] = useState(60);
+    const [webhookUrl, setWebhookUrl] = useState(webhook ?? '');
+    const [isChecking, setIsChecking] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    React.useEffect(() => {
+        setWebhookUrl(webhook ?? '');
+    }, [webhook, isOpen]);
+
+    if (!isOpen) return null;
+
+    const fieldClass = `w-full p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const mutedClass = darkMode ? 'text-gray-500' : 'text-gray-400';
+    const jettons = tokens.filter((t: any) => t.masterAddress && !t.imported);
+
+    const run = (action: () => void) => {
+        setError('');
+        try {
+            action();
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const handleCreate = () => run(() => {
+        const token = jettons.find((t: any) => t.masterAddress === assetMaster);
+        const asset = token ? { symbol: token.symbol, decimals: token.decimals || 9, jettonMaster: token.masterAddress } : TON_ASSET;
+        onCreate({ asset, amount, description, memo: memo || undefined, expiresInMinutes: expiresInMinutes || undefined });
+        setIsCreating(false);
+        setAmount('');
+        setDescription('');
+        setMemo('');
+    });
+
+    const handleCheck = () => {
+        setError('');
+        setIsChecking(true);
+        onCheck()
+            .catch((e: any) => setError(e.message || 'Failed to check payments'))
+            .finally(() => setIsChecking(false));
+    };
+
+    const handleCopyLink = (invoice: Invoice) => run(() => {
+        navigator.clipboard.writeText(onGetLink(invoice));
+        setCopiedId(invoice.id);
+        setTimeout(() => setCopiedId(null), 2000);
+    });
+
+    const formatAmount = (invoice: Invoice, units: string) => `${formatTransferAmount(BigInt(units), invoice.asset.decimals)} ${invoice.asset.symbol}`;
+    const formatTime = (ms: number) => new Date(ms).toLocaleString();
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'الفواتير' : 'Invoices'}
+                    </h3>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={handleCheck}
+                            disabled={isChecking}
+                            title={language === 'ar' ? 'التحقق من المدفوعات' : 'Check payments'}
+                            className={`p-2 rounded-full disabled:opacity-50 ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+                        >
+                            {isChecking ? <Loader2 size={20} className="animate-spin" /> : <RefreshCw size={20} />}
+                        </button>
+                        <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {error && (
+                    <div className={`p-3 mb-4 rounded-xl text-sm ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-600'}`}>{error}</div>
+                )}
+
+                {/* New invoice */}
+                {isCreating ? (
+                    <div className={`p-4 mb-4 rounded-xl space-y-2 ${darkMode ? 'bg-gray-800/50' : 'bg-gray-50 border border-gray-200'}`}>
+                        <div className="grid grid-cols-2 gap-2">
+                            <select value={assetMaster} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAssetMaster(e.target.value)} className={fieldClass}>
+                                <option value="">TON</option>
+                                {jettons.map((t: any) => (
+                                    <option key={t.masterAddress} value={t.masterAddress}>{t.symbol}</option>
+                                ))}
+                            </select>
+                            <input
+                                inputMode="decimal"
+                                placeholder={language === 'ar' ? 'المبلغ' : 'Amount'}
+                                value={amount}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+                                className={fieldClass}
+                            />
+                        </div>
+                        <input
+                            placeholder={language === 'ar' ? 'الوصف (اختياري)' : 'Description (optional)'}
+                            value={description}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDescription(e.target.value)}
+                            className={fieldClass}
+                        />
+                        <input
+                            placeholder={language === 'ar' ? 'المذكرة (تُنشأ تلقائياً إن تُركت فارغة)' : 'Memo (generated when empty)'}
+                            value={memo}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMemo(e.target.value)}
+                            className={fieldClass}
+                        />
+                        <select value={expiresInMinutes} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setExpiresInMinutes(Number(e.target.value))} className={fieldClass}>
+                            <option value={15}>{language === 'ar' ? 'تنتهي بعد 15 دقيقة' : 'Expires in 15 minutes'}</option>
+                            <option value={60}>{language === 'ar' ? 'تنتهي بعد ساعة' : 'Expires in 1 hour'}</option>
+                            <option value={1440}>{language === 'ar' ? 'تنتهي بعد يوم' : 'Expires in 1 day'}</option>
+                            <option value={0}>{language === 'ar' ? 'بدون انتهاء' : 'No expiry'}</option>
+                        </select>
+                        <div className="grid grid-cols-2 gap-2 pt-1">
+                            <button
+                                onClick={() => setIsCreating(false)}
+                                className={`py-3 rounded-xl text-sm font-bold ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                            >
+                                {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                            </button>
+                            <button
+                                onClick={handleCreate}
+                                disabled={!amount}
+                                className="py-3 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                {language === 'ar' ? 'إنشاء' : 'Create'}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => setIsCreating(true)}
+                        className="w-full mb-4 py-3 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 flex items-center justify-center gap-2"
+                    >
+                        <Plus size={16} />
+                        {language === 'ar' ? 'فاتورة جديدة' : 'New invoice'}
+                    </button>
+                )}
+
+                {/* Invoice list */}
+                <div className="space-y-3 mb-4">
+                    {invoices.length === 0 && (
+                        <p className={`text-sm text-center py-4 ${mutedClass}`}>{language === 'ar' ? 'لا توجد فواتير' : 'No invoices yet'}</p>
+                    )}
+                    {invoices.map((invoice: Invoice) => {
+                        const status = STATUS_LABELS[invoice.status];
+                        const open = invoice.status === 'pending' || invoice.status === 'underpaid' || invoice.status === 'expired';
+                        return (
+                            <div key={invoice.id} className={`p-4 rounded-xl ${darkMode ? 'bg-gray-800' : 'bg-gray-50 border border-gray-200'}`}>
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                        {formatAmount(invoice, invoice.amount)}
+                                    </span>
+                                    <span className={`text-xs font-semibold ${status.color}`}>
+                                        {language === 'ar' ? status.ar : status.en}
+                                        {invoice.paidLate && (language === 'ar' ? ' (متأخرة)' : ' (late)')}
+                                    </span>
+                                </div>
+                                {invoice.description && (
+                                    <p className={`text-xs mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>{invoice.description}</p>
+                                )}
+                                <div className={`grid grid-cols-2 gap-x-3 gap-y-1 text-xs ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                                    <span>{language === 'ar' ? 'المذكرة' : 'Memo'}</span>
+                                    <span className="text-right font-mono truncate">{invoice.comment}</span>
+                                    <span>{language === 'ar' ? 'المستلم' : 'Received'}</span>
+                                    <span className="text-right">{formatAmount(invoice, invoice.received)}</span>
+                                    <span>{language === 'ar' ? 'أُنشئت' : 'Created'}</span>
+                                    <span className="text-right">{formatTime(invoice.createdAt)}</span>
+                                    {invoice.expiresAt !== undefined && (
+                                        <>
+                                            <span>{language === 'ar' ? 'تنتهي' : 'Expires'}</span>
+                                            <span className="text-right">{formatTime(invoice.expiresAt)}</span>
+                                        </>
+                                    )}
+                                </div>
+
+                                {invoice.payments.length > 0 && (
+                                    <div className={`mt-2 pt-2 border-t space-y-1 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                                        {invoice.payments.map(payment => (
+                                            <div key={payment.key} className={`flex justify-between text-xs ${mutedClass}`}>
+                                                <span className="font-mono truncate max-w-[140px]">{payment.from}</span>
+                                                <span>
+                                                    {formatAmount(invoice, payment.amount)}
+                                                    {payment.late && (language === 'ar' ? ' · متأخرة' : ' · late')}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="flex gap-3 mt-2">
+                                    {open && invoice.status !== 'expired' && (
+                                        <button onClick={() => handleCopyLink(invoice)} className="text-xs font-semibold text-blue-500 flex items-center gap-1">
+                                            {copiedId === invoice.id ? <Check size={12} /> : <Copy size={12} />}
+                                            {language === 'ar' ? 'نسخ رابط الدفع' : 'Copy payment link'}
+                                        </button>
+                                    )}
+                                    {open && (
+                                        <button onClick={() => run(() => onCancel(invoice.id))} className="text-xs font-semibold text-red-500">
+                                            {language === 'ar' ? 'إلغاء الفاتورة' : 'Cancel invoice'}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Webhook */}
+                <div>
+                    <label className={`block text-xs mb-1 ${mutedClass}`}>
+                        {language === 'ar' ? 'رابط Webhook (يُرسل عند كل دفعة)' : 'Webhook URL (posted on every payment event)'}
+                    </label>
+                    <div className="flex gap-2">
+                        <input
+                            value={webhookUrl}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setWebhookUrl(e.target.value)}
+                            placeholder="https://..."
+                            className={fieldClass}
+                        />
+                        <button
+                            onClick={() => run(() => onSetWebhook(webhookUrl || null))}
+                            disabled={webhookUrl === (webhook ?? '')}
+                            className={`px-4 rounded-xl text-sm font-bold disabled:opacity-50 ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                        >
+                            {language === 'ar' ? 'حفظ' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,334 @@
+import React, { useEffect, useState } from 'react';
+import { X, RefreshCw, ChevronRight, ArrowDownToLine, Droplets, Clock } from 'lucide-react';
+import { Address } from '@ton/core';
+import { swapService, DEX_PROVIDERS, LP_DECIMALS } from '../services/SwapService';
+import type { LiquidityQuote, PoolEdge } from '../services/SwapService';
+import { getLpTokenLabel } from '../services/LiquidityService';
+import type { LiquidityAction, LiquidityPosition, LiquidityProvision } from '../services/LiquidityService';
+
+interface LiquidityModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    pools: PoolEdge[];
+    positions: LiquidityPosition[];
+    provisions: LiquidityProvision[];
+    onRefresh: () => Promise<void>;
+    onAction: (action: LiquidityAction) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+/**
+ * DEX name of a pool
+ */
+export function getPoolDexName(pool: PoolEdge): string {
+    return pool.provider === 'stonfi' ? DEX_PROVIDERS.STONFI.name : DEX_PROVIDERS.DEDUST.name;
+}
+
+/**
+ * Position held in a pool
+ */
+export function findLiquidityPosition(positions: LiquidityPosition[], pool: PoolEdge): LiquidityPosition | undefined {
+    const address = Address.parse(pool.address);
+    return positions.find((position: LiquidityPosition) => Address.parse(position.pool.address).equals(address));
+}
+
+/**
+ * Short amount of a pool token, from smallest units
+ */
+export function formatPoolAmount(units: bigint, symbol: string): string {
+    const decimals = swapService.getToken(symbol)?.decimals ?? 9;
+    const amount = Number(swapService.fromUnits(units.toString(), decimals));
+    return `${amount.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${symbol}`;
+}
+
+/**
+ * Pool share as a percentage
+ */
+export function formatShare(share: number): string {
+    return `${(share * 100).toLocaleString(undefined, { maximumFractionDigits: share < 0.0001 ? 6 : 4 })}%`;
+}
+
+// Liquidity Modal - LP positions with fees earned, deposits and withdrawals on STON.fi and DeDust
+export function LiquidityModal({ isOpen, onClose, pools, positions, provisions, onRefresh, onAction, darkMode, language }: LiquidityModalProps) {
+    const [selected, setSelected] = useState<PoolEdge | null>(null);
+    const [mode, setMode] = useState<'provide' | 'remove'>('provide');
+    const [side, setSide] = useState(0);
+    const [amount, setAmount] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelected(null);
+        setError('');
+        setIsLoading(true);
+        onRefresh()
+            .catch((e: any) => setError(e.message || 'Failed to load pools'))
+            .finally(() => setIsLoading(false));
+    }, [isOpen]);
+
+    useEffect(() => {
+        setMode('provide');
+        setSide(0);
+        setAmount('');
+        setError('');
+    }, [selected?.address]);
+
+    if (!isOpen) return null;
+
+    const cardClass = darkMode ? 'bg-gray-900 border-gray-800 hover:bg-gray-800' : 'bg-white border-gray-100 hover:bg-gray-50';
+    const fieldClass = `w-full p-3 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const mutedClass = 'text-gray-500';
+    const pillClass = (active: boolean) => `py-2 rounded-xl text-sm font-semibold transition ${active
+        ? (darkMode ? 'bg-white text-black' : 'bg-black text-white')
+        : (darkMode ? 'bg-gray-800 text-gray-400 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200')}`;
+
+    const position = selected ? findLiquidityPosition(positions, selected) : undefined;
+    const lpBalance = position ? swapService.fromUnits(position.lpBalance.toString(), LP_DECIMALS) : '0';
+    const pending = provisions.filter((provision: LiquidityProvision) => provision.status === 'pending');
+    const refunded = provisions.filter((provision: LiquidityProvision) => provision.status === 'refunded');
+
+    let quote: LiquidityQuote | null = null;
+    let removeAmounts: [string, string] | null = null;
+    let quoteError = '';
+    if (selected && amount.trim() && parseFloat(amount) > 0) {
+        try {
+            if (mode === 'provide') {
+                quote = swapService.quoteProvideLiquidity(selected, selected.tokens[side], amount.trim());
+            } else {
+                removeAmounts = swapService.quoteRemoveLiquidity(selected, amount.trim());
+            }
+        } catch (e: any) {
+            quoteError = e.message || 'Invalid amount';
+        }
+    }
+
+    const handleSubmit = () => {
+        if (!selected) return;
+        setError('');
+
+        if (mode === 'provide') {
+            if (!quote) {
+                setError(quoteError || (language === 'ar' ? 'أدخل المبلغ' : 'Enter an amount'));
+                return;
+            }
+            onAction({ kind: 'provide', pool: selected, quote });
+        } else {
+            if (!removeAmounts) {
+                setError(quoteError || (language === 'ar' ? 'أدخل المبلغ' : 'Enter an amount'));
+                return;
+            }
+            if (!position || parseFloat(amount) > parseFloat(lpBalance)) {
+                setError(language === 'ar' ? 'رصيد LP غير كافٍ' : 'Not enough LP tokens');
+                return;
+            }
+            onAction({ kind: 'remove', pool: selected, lpAmount: amount.trim() });
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <div className="flex items-center gap-2">
+                        {selected && (
+                            <button onClick={() => setSelected(null)} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                                <ArrowDownToLine className="rotate-90" size={18} />
+                            </button>
+                        )}
+                        <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                            {selected ? `${selected.tokens[0]}/${selected.tokens[1]}` : (language === 'ar' ? 'السيولة' : 'Liquidity')}
+                        </h3>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        {!selected && (
+                            <button
+                                onClick={() => {
+                                    setIsLoading(true);
+                                    onRefresh().finally(() => setIsLoading(false));
+                                }}
+                                disabled={isLoading}
+                                className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+                            >
+                                <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                            </button>
+                        )}
+                        <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+                {!selected && (
+                    <div className="space-y-2">
+                        {pending.map((provision: LiquidityProvision) => (
+                            <div key={provision.id} className="p-3 rounded-xl text-sm flex items-center gap-2 bg-yellow-500/10 text-yellow-600">
+                                <Clock size={14} />
+                                <span>
+                                    {language === 'ar' ? 'إيداع قيد المعالجة' : 'Deposit pending'}: {provision.amounts[0]} {provision.tokens[0]} + {provision.amounts[1]} {provision.tokens[1]}
+                                </span>
+                            </div>
+                        ))}
+                        {refunded.slice(0, 3).map((provision: LiquidityProvision) => (
+                            <div key={provision.id} className="p-3 rounded-xl text-sm bg-red-500/10 text-red-500">
+                                {language === 'ar' ? 'فشل الإيداع وأعيدت الأموال' : 'Deposit failed and was refunded'}: {provision.tokens[0]}/{provision.tokens[1]}
+                                {provision.settledAt ? ` · ${new Date(provision.settledAt).toLocaleString()}` : ''}
+                            </div>
+                        ))}
+
+                        {pools.map((pool: PoolEdge) => {
+                            const held = findLiquidityPosition(positions, pool);
+                            return (
+                                <button
+                                    key={pool.address}
+                                    onClick={() => setSelected(pool)}
+                                    className={`w-full p-4 rounded-2xl border flex items-center justify-between transition ${cardClass}`}
+                                >
+                                    <div className="flex items-center gap-3 text-left">
+                                        <div className={`w-10 h-10 rounded-full flex items-center justify-center ${darkMode ? 'bg-blue-950 text-blue-400' : 'bg-blue-100 text-blue-600'}`}>
+                                            <Droplets size={18} />
+                                        </div>
+                                        <div>
+                                            <p className={`font-semibold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                                {pool.tokens[0]}/{pool.tokens[1]}
+                                            </p>
+                                            <p className={`text-xs ${mutedClass}`}>
+                                                {getPoolDexName(pool)} · {pool.feeBps / 100}%
+                                                {held ? ` · ${formatShare(held.share)}` : ''}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <ChevronRight size={18} className={darkMode ? 'text-gray-600' : 'text-gray-400'} />
+                                </button>
+                            );
+                        })}
+
+                        {!isLoading && pools.length === 0 && (
+                            <div className={`text-center py-10 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                                <Droplets size={24} className="mx-auto mb-3 opacity-50" />
+                                <p>{language === 'ar' ? 'لا توجد مجمعات متاحة' : 'No pools available'}</p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {selected && (
+                    <div className="space-y-4">
+                        <div className={`p-3 rounded-xl text-sm space-y-1 ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                            <div className="flex justify-between">
+                                <span>{getPoolDexName(selected)}</span>
+                                <span>{language === 'ar' ? 'رسوم' : 'Fee'} {selected.feeBps / 100}%</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span>{language === 'ar' ? 'الاحتياطيات' : 'Reserves'}</span>
+                                <span>{formatPoolAmount(selected.reserves[0], selected.tokens[0])} · {formatPoolAmount(selected.reserves[1], selected.tokens[1])}</span>
+                            </div>
+                            {position && (
+                                <>
+                                    <div className="flex justify-between">
+                                        <span>{getLpTokenLabel(selected).symbol}</span>
+                                        <span className="font-semibold">{Number(lpBalance).toLocaleString(undefined, { maximumFractionDigits: 4 })} · {formatShare(position.share)}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>{language === 'ar' ? 'حصتك' : 'Your tokens'}</span>
+                                        <span>{formatPoolAmount(position.underlying[0], selected.tokens[0])} · {formatPoolAmount(position.underlying[1], selected.tokens[1])}</span>
+                                    </div>
+                                    <div className="flex justify-between text-green-500">
+                                        <span>{language === 'ar' ? 'الرسوم المكتسبة' : 'Fees earned'}</span>
+                                        <span>
+                                            {position.feesEarned
+                                                ? `${formatPoolAmount(position.feesEarned[0], selected.tokens[0])} · ${formatPoolAmount(position.feesEarned[1], selected.tokens[1])}`
+                                                : '—'}
+                                        </span>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['provide', 'remove'] as const).map((option: 'provide' | 'remove') => (
+                                <button key={option} onClick={() => { setMode(option); setAmount(''); }} className={pillClass(mode === option)}>
+                                    {option === 'provide'
+                                        ? (language === 'ar' ? 'إضافة' : 'Add')
+                                        : (language === 'ar' ? 'سحب' : 'Remove')}
+                                </button>
+                            ))}
+                        </div>
+
+                        {mode === 'provide' && (
+                            <div className="grid grid-cols-2 gap-2">
+                                {selected.tokens.map((symbol: string, index: number) => (
+                                    <button key={symbol} onClick={() => setSide(index)} className={pillClass(side === index)}>
+                                        {symbol}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        <div>
+                            <input
+                                value={amount}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+                                placeholder={mode === 'provide' ? `0 ${selected.tokens[side]}` : '0 LP'}
+                                inputMode="decimal"
+                                className={fieldClass}
+                            />
+                            {mode === 'remove' && position && (
+                                <button onClick={() => setAmount(lpBalance)} className={`text-xs mt-2 ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>
+                                    {language === 'ar' ? 'الكل' : 'Max'}
+                                </button>
+                            )}
+                        </div>
+
+                        {quoteError && <p className="text-sm text-red-500">{quoteError}</p>}
+
+                        {quote && (
+                            <div className={`p-3 rounded-xl text-sm space-y-1 ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                                <div className="flex justify-between">
+                                    <span>{language === 'ar' ? 'الإيداع' : 'Deposit'}</span>
+                                    <span>{quote.amounts[0]} {quote.tokens[0]} + {quote.amounts[1]} {quote.tokens[1]}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>{language === 'ar' ? 'رموز LP المتوقعة' : 'Expected LP tokens'}</span>
+                                    <span className="font-semibold">{Number(quote.lpAmount).toLocaleString(undefined, { maximumFractionDigits: 4 })}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>{language === 'ar' ? 'الحد الأدنى' : 'Minimum LP tokens'}</span>
+                                    <span>{Number(quote.minLpAmount).toLocaleString(undefined, { maximumFractionDigits: 4 })}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>{language === 'ar' ? 'حصة المجمع' : 'Pool share'}</span>
+                                    <span>{formatShare(quote.share)}</span>
+                                </div>
+                                <p className={`text-xs pt-1 ${mutedClass}`}>
+                                    {language === 'ar'
+                                        ? 'يُرسل الجانبان معاً؛ إذا فشل الإيداع تُعاد الرموز إلى محفظتك.'
+                                        : 'Both sides are sent together; if the deposit fails the tokens are refunded to your wallet.'}
+                                </p>
+                            </div>
+                        )}
+
+                        {removeAmounts && (
+                            <div className={`p-3 rounded-xl text-sm flex justify-between ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                                <span>{language === 'ar' ? 'ستستلم' : 'You receive'}</span>
+                                <span>{removeAmounts[0]} {selected.tokens[0]} + {removeAmounts[1]} {selected.tokens[1]}</span>
+                            </div>
+                        )}
+
+                        <button
+                            onClick={handleSubmit}
+                            className="w-full py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+                        >
+                            {mode === 'provide'
+                                ? (language === 'ar' ? 'إضافة السيولة' : 'Add liquidity')
+                                : (language === 'ar' ? 'سحب السيولة' : 'Remove liquidity')}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,432 @@
+import React, { useEffect, useState } from 'react';
+import { Address, fromNano } from '@ton/core';
+import { X, Users, Loader2, CircleCheck, Circle, RefreshCw, Clock } from 'lucide-react';
+import type { MultisigAction, MultisigOrderInfo } from '../types';
+import type { WalletAccount } from '../services/AccountManager';
+import type { MultisigDeployParams } from '../context/WalletContext';
+import { PasswordPromptModal } from './WalletModals';
+
+const shortAddress = (address: string) => address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-6)}` : address;
+
+const splitAddresses = (text: string) => text.split(/[\s,]+/).map(line => line.trim()).filter(Boolean);
+
+/**
+ * One-line description of an order action
+ */
+function describeAction(action: MultisigAction, language: string): string {
+    const ar = language === 'ar';
+    if (action.type === 'update') {
+        return ar
+            ? `تغيير الموقعين: ${action.threshold} من ${action.signers.length}`
+            : `Change signers: ${action.threshold} of ${action.signers.length}`;
+    }
+
+    const info = action.message.info;
+    if (info.type !== 'internal') {
+        return ar ? 'رسالة غير معروفة' : 'Unknown message';
+    }
+
+    let comment = '';
+    try {
+        const body = action.message.body.beginParse();
+        comment = body.remainingBits >= 32 && body.loadUint(32) === 0 ? body.loadStringTail() : '';
+    } catch {
+        // Not a text comment
+    }
+    const transfer = `${fromNano(info.value.coins)} TON → ${shortAddress(info.dest.toString())}`;
+    return comment ? `${transfer} (${comment})` : transfer;
+}
+
+/**
+ * Label for an order status
+ */
+function getOrderStatusLabel(status: MultisigOrderInfo['status'], language: string): string {
+    const ar = language === 'ar';
+    switch (status) {
+        case 'executed':
+            return ar ? 'منفذ' : 'Executed';
+        case 'expired':
+            return ar ? 'منتهي الصلاحية' : 'Expired';
+        default:
+            return ar ? 'بانتظار الموافقات' : 'Awaiting approvals';
+    }
+}
+
+interface MultisigActivityTabProps {
+    darkMode: boolean;
+    language: string;
+    multisigAddress: string;
+    getOrders: () => Promise<MultisigOrderInfo[]>;
+    getMember: (order: MultisigOrderInfo) => Promise<WalletAccount | null>;
+    onApprove: (order: MultisigOrderInfo, password: string) => Promise<unknown>;
+    onWatch: (orderAddress: string) => Promise<MultisigOrderInfo | null>;
+}
+
+// Multisig Activity - orders with their approvals; local signers approve with their own password
+export function MultisigActivityTab({ darkMode, language, multisigAddress, getOrders, getMember, onApprove, onWatch }: MultisigActivityTabProps) {
+    const [orders, setOrders] = useState<MultisigOrderInfo[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+    const [approving, setApproving] = useState<{ order: MultisigOrderInfo; member: WalletAccount } | null>(null);
+    const [approveError, setApproveError] = useState('');
+    const [isApproving, setIsApproving] = useState(false);
+    const [watching, setWatching] = useState<string | null>(null);
+
+    const loadOrders = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            setOrders(await getOrders());
+        } catch (e: any) {
+            setError(e.message || 'Failed to load orders');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadOrders();
+        const interval = setInterval(loadOrders, 60000);
+        return () => clearInterval(interval);
+    }, [multisigAddress]);
+
+    const handleApproveClick = async (order: MultisigOrderInfo) => {
+        const member = await getMember(order);
+        if (!member) {
+            alert(language === 'ar' ? 'لا يوجد حساب لديك يمكنه الموافقة على هذا الأمر' : 'None of your accounts can approve this order');
+            return;
+        }
+        setApproveError('');
+        setApproving({ order, member });
+    };
+
+    const handleApprove = async (password: string) => {
+        if (!approving) return;
+        setIsApproving(true);
+        setApproveError('');
+        try {
+            await onApprove(approving.order, password);
+            const orderAddress = approving.order.address.toString();
+            setApproving(null);
+
+            // Follow the order until it executes, then show the final state
+            setWatching(orderAddress);
+            onWatch(orderAddress)
+                .catch(() => null)
+                .then(() => {
+                    setWatching(null);
+                    loadOrders();
+                });
+        } catch (e: any) {
+            setApproveError(e.message || 'Approval failed');
+        } finally {
+            setIsApproving(false);
+        }
+    };
+
+    const cardClass = `p-4 rounded-2xl border ${darkMode ? 'bg-gray-900 border-gray-800' : 'bg-white border-gray-100'}`;
+
+    return (
+        <div className="px-5 pt-2">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {language === 'ar' ? 'أوامر التوقيع المتعدد' : 'Multisig Orders'}
+                </h3>
+                <button onClick={loadOrders} disabled={isLoading} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                    <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+            <div className="space-y-3">
+                {orders.map((order: MultisigOrderInfo) => {
+                    const orderAddress = order.address.toString();
+                    return (
+                        <div key={orderAddress} className={cardClass}>
+                            <div className="flex items-center justify-between mb-2">
+                                <p className={`font-semibold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                    {language === 'ar' ? 'أمر' : 'Order'} #{order.seqno.toString()}
+                                </p>
+                                <span className={`text-[10px] px-1.5 py-0.5 rounded-md font-medium ${order.status === 'executed'
+                                    ? (darkMode ? 'bg-green-500/10 text-green-400' : 'bg-green-50 text-green-700')
+                                    : order.status === 'expired'
+                                        ? (darkMode ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-500')
+                                        : (darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700')
+                                    }`}>
+                                    {getOrderStatusLabel(order.status, language)}
+                                </span>
+                            </div>
+
+                            <div className={`space-y-1 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                                {order.actions.map((action: MultisigAction, index: number) => (
+                                    <p key={index} className="font-mono text-xs break-all">{describeAction(action, language)}</p>
+                                ))}
+                            </div>
+
+                            <div className={`flex items-center gap-2 text-xs mt-3 ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                <Users size={14} />
+                                <span>{order.approvalsNum}/{order.threshold}</span>
+                                <span className="flex items-center gap-0.5">
+                                    {order.signers.map((signer: Address, index: number) => order.approvals[index]
+                                        ? <CircleCheck key={index} size={12} className="text-green-500" />
+                                        : <Circle key={index} size={12} />)}
+                                </span>
+                                <span>•</span>
+                                <Clock size={12} />
+                                <span>{new Date(order.expiresAt * 1000).toLocaleString()}</span>
+                            </div>
+
+                            {order.status === 'pending' && (
+                                watching === orderAddress ? (
+                                    <p className={`flex items-center gap-2 text-xs mt-3 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                                        <Loader2 size={14} className="animate-spin" />
+                                        {language === 'ar' ? 'بانتظار التنفيذ...' : 'Waiting for execution...'}
+                                    </p>
+                                ) : (
+                                    <button
+                                        onClick={() => handleApproveClick(order)}
+                                        className="w-full mt-3 bg-blue-600 text-white py-2 rounded-xl text-sm font-bold"
+                                    >
+                                        {language === 'ar' ? 'موافقة' : 'Approve'}
+                                    </button>
+                                )
+                            )}
+                        </div>
+                    );
+                })}
+
+                {!isLoading && orders.length === 0 && !error && (
+                    <p className={`text-center text-sm py-6 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                        {language === 'ar' ? 'لا توجد أوامر بعد. استخدم إرسال لإنشاء أمر.' : 'No orders yet. Use Send to create one.'}
+                    </p>
+                )}
+            </div>
+
+            <PasswordPromptModal
+                isOpen={!!approving}
+                onClose={() => setApproving(null)}
+                onConfirm={handleApprove}
+                darkMode={darkMode}
+                language={language}
+                isLoading={isApproving}
+                error={approveError}
+                message={approving ? `${language === 'ar' ? 'أدخل كلمة مرور الحساب للموافقة باسم' : 'Enter the password of the account approving:'} ${approving.member.name}` : undefined}
+            />
+        </div>
+    );
+}
+
+interface AddMultisigModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    accounts: WalletAccount[];
+    codeConfigured: boolean;
+    onImport: (name: string, address: string) => Promise<void>;
+    onDeploy: (name: string, params: MultisigDeployParams, deployerId: string, password: string) => Promise<void>;
+    darkMode: boolean;
+    language: string;
+}
+
+// Add Multisig Modal - watch an existing multisig v2 or deploy a new one from a seed account
+export function AddMultisigModal({ isOpen, onClose, accounts, codeConfigured, onImport, onDeploy, darkMode, language }: AddMultisigModalProps) {
+    const [mode, setMode] = useState<'import' | 'deploy'>('import');
+    const [name, setName] = useState('');
+    const [address, setAddress] = useState('');
+    const [signers, setSigners] = useState('');
+    const [proposers, setProposers] = useState('');
+    const [threshold, setThreshold] = useState('2');
+    const [amount, setAmount] = useState('0.5');
+    const [codeSource, setCodeSource] = useState('');
+    const [deployerId, setDeployerId] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isAdding, setIsAdding] = useState(false);
+
+    if (!isOpen) return null;
+
+    const seedAccounts = accounts.filter(account => !account.watchOnly);
+    const deployer = deployerId || seedAccounts[0]?.id || '';
+    const walletName = name.trim() || (language === 'ar' ? 'محفظة متعددة التوقيع' : 'Multisig Wallet');
+    const signerList = splitAddresses(signers);
+
+    const handleClose = () => {
+        setMode('import');
+        setName('');
+        setAddress('');
+        setSigners('');
+        setProposers('');
+        setThreshold('2');
+        setAmount('0.5');
+        setCodeSource('');
+        setDeployerId('');
+        setPassword('');
+        setError('');
+        onClose();
+    };
+
+    const handleAdd = async () => {
+        setError('');
+        setIsAdding(true);
+        try {
+            if (mode === 'import') {
+                await onImport(walletName, address.trim());
+            } else {
+                await onDeploy(walletName, {
+                    signers: signerList,
+                    proposers: splitAddresses(proposers),
+                    threshold: Number(threshold),
+                    amount,
+                    codeSource: codeSource.trim() || undefined,
+                }, deployer, password);
+            }
+            handleClose();
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const canAdd = mode === 'import'
+        ? !!address.trim()
+        : signerList.length > 0 && Number(threshold) >= 1 && Number(threshold) <= signerList.length
+            && parseFloat(amount) > 0 && !!deployer && !!password && (codeConfigured || !!codeSource.trim());
+    const tabClass = (active: boolean) => `flex-1 py-2 rounded-lg text-sm font-medium ${active
+        ? 'bg-blue-600 text-white'
+        : darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+    const fieldClass = `w-full p-3 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const hintClass = `text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4" onClick={handleClose}>
+            <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl sm:rounded-3xl p-6 animate-slide-up sm:animate-scale-up max-h-[90vh] overflow-y-auto no-scrollbar`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'محفظة متعددة التوقيع' : 'Multisig Wallet'}
+                    </h3>
+                    <button onClick={handleClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="space-y-4">
+                    <div className={`flex gap-1 p-1 rounded-xl ${darkMode ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                        <button onClick={() => setMode('import')} className={tabClass(mode === 'import')}>
+                            {language === 'ar' ? 'إضافة موجودة' : 'Existing'}
+                        </button>
+                        <button onClick={() => setMode('deploy')} className={tabClass(mode === 'deploy')}>
+                            {language === 'ar' ? 'إنشاء جديدة' : 'Deploy new'}
+                        </button>
+                    </div>
+
+                    <input
+                        value={name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                        placeholder={language === 'ar' ? 'اسم المحفظة' : 'Wallet Name'}
+                        className={fieldClass}
+                    />
+
+                    {mode === 'import' ? (
+                        <>
+                            <input
+                                value={address}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAddress(e.target.value)}
+                                placeholder={language === 'ar' ? 'عنوان المحفظة متعددة التوقيع' : 'Multisig address'}
+                                className={`${fieldClass} font-mono text-sm`}
+                            />
+                            <p className={hintClass}>
+                                {language === 'ar'
+                                    ? 'حساباتك الموقعة تنشئ الأوامر وتوافق عليها.'
+                                    : 'Your accounts that are signers create and approve its orders.'}
+                            </p>
+                        </>
+                    ) : (
+                        <>
+                            <textarea
+                                value={signers}
+                                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSigners(e.target.value)}
+                                placeholder={language === 'ar' ? 'عناوين الموقعين، واحد في كل سطر' : 'Signer addresses, one per line'}
+                                rows={3}
+                                className={`${fieldClass} font-mono text-sm resize-none`}
+                            />
+                            <textarea
+                                value={proposers}
+                                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setProposers(e.target.value)}
+                                placeholder={language === 'ar' ? 'عناوين المقترحين (اختياري)' : 'Proposer addresses (optional)'}
+                                rows={2}
+                                className={`${fieldClass} font-mono text-sm resize-none`}
+                            />
+                            <div className="flex gap-2">
+                                <div className="flex-1">
+                                    <label className={hintClass}>
+                                        {language === 'ar' ? `الموافقات المطلوبة من ${signerList.length}` : `Approvals needed of ${signerList.length}`}
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={signerList.length || 1}
+                                        value={threshold}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setThreshold(e.target.value)}
+                                        className={fieldClass}
+                                    />
+                                </div>
+                                <div className="flex-1">
+                                    <label className={hintClass}>{language === 'ar' ? 'الرصيد الأولي (TON)' : 'Initial balance (TON)'}</label>
+                                    <input
+                                        type="number"
+                                        value={amount}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+                                        className={fieldClass}
+                                    />
+                                </div>
+                            </div>
+                            {!codeConfigured && (
+                                <>
+                                    <input
+                                        value={codeSource}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCodeSource(e.target.value)}
+                                        placeholder={language === 'ar' ? 'نسخ الكود من محفظة متعددة التوقيع v2' : 'Copy code from a deployed multisig v2'}
+                                        className={`${fieldClass} font-mono text-sm`}
+                                    />
+                                    <p className={hintClass}>
+                                        {language === 'ar'
+                                            ? 'كود العقد غير مضمن في التطبيق؛ يُنسخ من محفظة v2 موجودة.'
+                                            : 'The contract code is not bundled with the app; it is copied from an existing multisig v2.'}
+                                    </p>
+                                </>
+                            )}
+                            <select
+                                value={deployer}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDeployerId(e.target.value)}
+                                className={fieldClass}
+                            >
+                                {seedAccounts.map(account => (
+                                    <option key={account.id} value={account.id}>
+                                        {language === 'ar' ? 'الدفع من' : 'Pay from'} {account.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                                placeholder={language === 'ar' ? 'كلمة مرور الحساب' : 'Account password'}
+                                className={fieldClass}
+                            />
+                        </>
+                    )}
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+
+                    <button onClick={handleAdd} disabled={!canAdd || isAdding} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold disabled:opacity-50 flex items-center justify-center gap-2">
+                        {isAdding && <Loader2 size={18} className="animate-spin" />}
+                        {mode === 'import'
+                            ? (language === 'ar' ? 'إضافة' : 'Add')
+                            : (language === 'ar' ? 'إنشاء' : 'Deploy')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
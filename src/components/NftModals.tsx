@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { X, Gem, Eye, EyeOff, RefreshCw, ShieldAlert, ExternalLink } from 'lucide-react';
+import type { NftAttribute, NftItem, NftMetadata } from '../types';
+import { getNftName } from './CollectiblesTab';
+
+interface NftDetailModalProps {
+    item: NftItem | null;
+    onClose: () => void;
+    isHidden: boolean;
+    onToggleHidden: (item: NftItem) => void;
+    onSend: (item: NftItem, recipient: string, comment: string) => void;
+    resolveMetadata: (nftAddress: string) => Promise<NftMetadata>;
+    darkMode: boolean;
+    language: string;
+}
+
+// NFT Detail Modal - metadata, attributes, hide/unhide and the TEP-62 transfer form
+export function NftDetailModal({ item, onClose, isHidden, onToggleHidden, onSend, resolveMetadata, darkMode, language }: NftDetailModalProps) {
+    const [metadata, setMetadata] = useState<NftMetadata | null>(null);
+    const [isResolving, setIsResolving] = useState(false);
+    const [resolveError, setResolveError] = useState('');
+    const [recipient, setRecipient] = useState('');
+    const [comment, setComment] = useState('');
+
+    useEffect(() => {
+        setMetadata(null);
+        setResolveError('');
+        setRecipient('');
+        setComment('');
+    }, [item?.address]);
+
+    if (!item) return null;
+
+    const shown = metadata ?? item.metadata;
+    const image = shown.image || item.preview;
+    const isSpam = item.trust === 'blacklist';
+
+    // Re-read the metadata from chain when the indexer's copy looks wrong or is missing
+    const handleResolve = async () => {
+        setIsResolving(true);
+        setResolveError('');
+        try {
+            setMetadata(await resolveMetadata(item.address));
+        } catch (e: any) {
+            setResolveError(e.message || 'Failed to load metadata');
+        } finally {
+            setIsResolving(false);
+        }
+    };
+
+    const fieldClass = `w-full p-3 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const labelClass = `text-xs font-medium ${darkMode ? 'text-gray-500' : 'text-gray-400'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-xl font-bold truncate ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {shown.name || getNftName(item)}
+                    </h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className={`aspect-square rounded-2xl overflow-hidden mb-4 flex items-center justify-center ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                    {image ? (
+                        <img src={image} alt={shown.name || getNftName(item)} className="w-full h-full object-cover" />
+                    ) : (
+                        <Gem size={48} className={darkMode ? 'text-gray-600' : 'text-gray-300'} />
+                    )}
+                </div>
+
+                {isSpam && (
+                    <div className="flex items-start gap-2 p-3 mb-4 rounded-xl bg-red-500/10 text-red-500 text-sm">
+                        <ShieldAlert size={18} className="shrink-0 mt-0.5" />
+                        {language === 'ar'
+                            ? 'تم تصنيف هذا العنصر كرسائل مزعجة. لا تتبع الروابط الموجودة فيه.'
+                            : 'This item is marked as spam. Do not follow links it contains.'}
+                    </div>
+                )}
+
+                <div className="space-y-3 mb-6">
+                    <div>
+                        <p className={labelClass}>{language === 'ar' ? 'المجموعة' : 'Collection'}</p>
+                        <p className={`text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                            {item.collection?.name ?? (language === 'ar' ? 'بدون مجموعة' : 'No collection')}
+                        </p>
+                    </div>
+
+                    {shown.description && (
+                        <div>
+                            <p className={labelClass}>{language === 'ar' ? 'الوصف' : 'Description'}</p>
+                            <p className={`text-sm whitespace-pre-line ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{shown.description}</p>
+                        </div>
+                    )}
+
+                    {shown.attributes && shown.attributes.length > 0 && (
+                        <div>
+                            <p className={`${labelClass} mb-1`}>{language === 'ar' ? 'السمات' : 'Attributes'}</p>
+                            <div className="grid grid-cols-2 gap-2">
+                                {shown.attributes.map((attribute: NftAttribute, index: number) => (
+                                    <div key={index} className={`p-2 rounded-xl ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                                        <p className={`text-[10px] uppercase ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{attribute.traitType}</p>
+                                        <p className={`text-sm font-medium truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>{attribute.value}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <p className={labelClass}>{language === 'ar' ? 'العنوان' : 'Address'}</p>
+                        <p className={`text-xs font-mono break-all ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{item.address}</p>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={handleResolve}
+                            disabled={isResolving}
+                            className={`flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-medium ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        >
+                            <RefreshCw size={14} className={isResolving ? 'animate-spin' : ''} />
+                            {language === 'ar' ? 'تحميل البيانات من الشبكة' : 'Load metadata from chain'}
+                        </button>
+                        <button
+                            onClick={() => onToggleHidden(item)}
+                            className={`flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-medium ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        >
+                            {isHidden ? <Eye size={14} /> : <EyeOff size={14} />}
+                            {isHidden
+                                ? (language === 'ar' ? 'إظهار' : 'Unhide')
+                                : (language === 'ar' ? 'إخفاء' : 'Hide')}
+                        </button>
+                        {shown.externalUrl && !isSpam && (
+                            <a
+                                href={shown.externalUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className={`flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-medium ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                            >
+                                <ExternalLink size={14} />
+                                {language === 'ar' ? 'الموقع' : 'Website'}
+                            </a>
+                        )}
+                    </div>
+                    {resolveError && <p className="text-sm text-red-500">{resolveError}</p>}
+                </div>
+
+                {item.onSale ? (
+                    <p className={`text-sm text-center py-3 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                        {language === 'ar'
+                            ? 'هذا العنصر معروض للبيع. ألغِ العرض في السوق قبل إرساله.'
+                            : 'This item is listed for sale. Cancel the listing on the marketplace before sending it.'}
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        <input
+                            value={recipient}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRecipient(e.target.value)}
+                            placeholder={language === 'ar' ? 'عنوان المستلم أو النطاق' : 'Recipient address or domain'}
+                            className={fieldClass}
+                        />
+                        <input
+                            value={comment}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setComment(e.target.value)}
+                            placeholder={language === 'ar' ? 'تعليق (اختياري)' : 'Comment (optional)'}
+                            className={fieldClass}
+                        />
+                        <button
+                            onClick={() => onSend(item, recipient.trim(), comment)}
+                            disabled={!recipient.trim()}
+                            className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition disabled:opacity-50"
+                        >
+                            {language === 'ar' ? 'إرسال' : 'Send'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
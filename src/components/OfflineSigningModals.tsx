@@ -0,0 +1,617 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { Buffer } from 'buffer';
+import { Cell, fromNano } from '@ton/core';
+import { X, Camera, ScanLine, QrCode, Loader2, TriangleAlert, CircleCheck, ClipboardPaste } from 'lucide-react';
+import { OfflineQrProtocol } from '../crypto';
+import { JETTON_OP_CODES, NFT_OP_CODES } from '../types';
+import type { WalletVersion } from '../types';
+import type { ColdSignerAccount, OfflinePayloadKind, OfflinePayloadMap, QrScanProgress, SignedTransaction, UnsignedTransaction } from '../crypto';
+
+const protocol = new OfflineQrProtocol();
+
+const shortAddress = (address: string) => address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-6)}` : address;
+
+// Animated QR Code - cycles through the frames of a payload; QR images are rendered locally (works offline)
+export function AnimatedQrCode({ frames, darkMode, language, intervalMs = 300 }: { frames: string[]; darkMode: boolean; language: string; intervalMs?: number }) {
+    const [images, setImages] = useState<string[]>([]);
+    const [index, setIndex] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(frames.map(frame => QRCode.toDataURL(frame, { errorCorrectionLevel: 'L', margin: 2, width: 320 })))
+            .then(urls => {
+                if (!cancelled) {
+                    setImages(urls);
+                    setIndex(0);
+                }
+            });
+        return () => { cancelled = true; };
+    }, [frames]);
+
+    useEffect(() => {
+        if (images.length < 2) return;
+        const timer = setInterval(() => setIndex((i: number) => (i + 1) % images.length), intervalMs);
+        return () => clearInterval(timer);
+    }, [images, intervalMs]);
+
+    return (
+        <div className="flex flex-col items-center">
+            <div className="bg-white p-3 rounded-2xl">
+                {images.length > 0 ? (
+                    <img src={images[index]} alt="QR" className="w-64 h-64" />
+                ) : (
+                    <div className="w-64 h-64 flex items-center justify-center">
+                        <Loader2 size={32} className="animate-spin text-blue-500" />
+                    </div>
+                )}
+            </div>
+            {images.length > 1 && (
+                <p className={`text-xs mt-2 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                    {language === 'ar' ? 'إطار' : 'Frame'} {index + 1}/{images.length}
+                </p>
+            )}
+        </div>
+    );
+}
+
+interface QrScannerProps<K extends OfflinePayloadKind> {
+    kind: K;
+    onScanned: (payload: OfflinePayloadMap[K]) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+// QR Camera - reports the text of every QR code the camera sees
+export function QrCamera({ onText, darkMode, language }: { onText: (text: string) => void; darkMode: boolean; language: string }) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const onTextRef = useRef(onText);
+    onTextRef.current = onText;
+    const [cameraError, setCameraError] = useState('');
+
+    // Camera loop
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let frameRequest = 0;
+        let stopped = false;
+
+        const scan = () => {
+            const video = videoRef.current;
+            const canvas = canvasRef.current;
+            if (stopped || !video || !canvas) return;
+
+            if (video.readyState === video.HAVE_ENOUGH_DATA) {
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                const context = canvas.getContext('2d', { willReadFrequently: true });
+                if (context) {
+                    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+                    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+                    const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+                    if (code?.data) onTextRef.current(code.data);
+                }
+            }
+            frameRequest = requestAnimationFrame(scan);
+        };
+
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setCameraError(language === 'ar' ? 'الكاميرا غير متاحة' : 'Camera is not available');
+            return;
+        }
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+            .then(media => {
+                if (stopped) {
+                    media.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = media;
+                if (videoRef.current) {
+                    videoRef.current.srcObject = media;
+                    videoRef.current.play().catch(() => undefined);
+                }
+                frameRequest = requestAnimationFrame(scan);
+            })
+            .catch(() => setCameraError(language === 'ar' ? 'تم رفض الوصول إلى الكاميرا' : 'Camera access was denied'));
+
+        return () => {
+            stopped = true;
+            cancelAnimationFrame(frameRequest);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    return (
+        <>
+            {cameraError ? (
+                <div className={`rounded-xl p-4 flex items-center gap-2 text-sm ${darkMode ? 'bg-gray-800 text-gray-400' : 'bg-gray-50 text-gray-500'}`}>
+                    <Camera size={18} />
+                    {cameraError}
+                </div>
+            ) : (
+                <div className="relative rounded-2xl overflow-hidden bg-black aspect-square">
+                    <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                    <ScanLine size={48} className="absolute inset-0 m-auto text-white/60" />
+                </div>
+            )}
+            <canvas ref={canvasRef} className="hidden" />
+        </>
+    );
+}
+
+// QR Scanner - assembles animated frames from the camera, with a paste fallback for devices without one
+export function QrScanner<K extends OfflinePayloadKind>({ kind, onScanned, darkMode, language }: QrScannerProps<K>) {
+    const assemblerRef = useRef(protocol.createAssembler(kind));
+    const lastFrameRef = useRef('');
+    const doneRef = useRef(false);
+    const [progress, setProgress] = useState<QrScanProgress | null>(null);
+    const [error, setError] = useState('');
+    const [pasted, setPasted] = useState('');
+
+    const handleFrame = (text: string) => {
+        if (doneRef.current || text === lastFrameRef.current) return;
+        lastFrameRef.current = text;
+
+        try {
+            const assembler = assemblerRef.current;
+            const next = assembler.add(text);
+            setProgress(next);
+            setError('');
+
+            if (next.complete) {
+                doneRef.current = true;
+                onScanned(protocol.decode(kind, assembler.getPayload()));
+            }
+        } catch (e: any) {
+            setError(e.message);
+            if (doneRef.current) {
+                // Corrupted payload: start the animation over
+                doneRef.current = false;
+                assemblerRef.current.reset();
+                setProgress(null);
+            }
+        }
+    };
+
+    const handlePaste = () => {
+        pasted.split(/\s+/).filter(Boolean).forEach((frame: string) => handleFrame(frame));
+        setPasted('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <QrCamera onText={handleFrame} darkMode={darkMode} language={language} />
+
+            {progress && (
+                <div>
+                    <div className={`h-2 rounded-full overflow-hidden ${darkMode ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                        <div className="h-full bg-blue-600 transition-all" style={{ width: `${(progress.received / progress.total) * 100}%` }} />
+                    </div>
+                    <p className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {progress.received}/{progress.total} {language === 'ar' ? 'إطارات' : 'frames'}
+                    </p>
+                </div>
+            )}
+
+            {error && (
+                <p className="text-xs text-red-500 flex items-center gap-1">
+                    <TriangleAlert size={14} />
+                    {error}
+                </p>
+            )}
+
+            <div className="flex gap-2">
+                <input
+                    value={pasted}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPasted(e.target.value)}
+                    onKeyDown={(e: React.KeyboardEvent) => e.key === 'Enter' && handlePaste()}
+                    placeholder="tonsign:..."
+                    className={`flex-1 px-3 py-2 text-xs font-mono rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`}
+                />
+                <button
+                    onClick={handlePaste}
+                    disabled={!pasted}
+                    className={`px-3 rounded-xl disabled:opacity-50 ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}
+                >
+                    <ClipboardPaste size={16} />
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// What a message body does, from its op code: text comment, jetton or NFT transfer, other contract call
+function describePayload(payload: string, language: string) {
+    try {
+        const body = Cell.fromBoc(Buffer.from(payload, 'base64'))[0].beginParse();
+        const op = body.remainingBits >= 32 ? body.loadUint(32) : null;
+        if (op === 0) return body.loadStringTail();
+        if (op === JETTON_OP_CODES.TRANSFER) return language === 'ar' ? 'تحويل رمز' : 'Jetton transfer';
+        if (op === NFT_OP_CODES.TRANSFER) return language === 'ar' ? 'تحويل NFT' : 'NFT transfer';
+    } catch {
+        // Shown as a contract call; signing rebuilds the body and rejects it if malformed
+    }
+    return language === 'ar' ? 'استدعاء عقد' : 'Contract call';
+}
+
+// Transfer summary shown on both devices before anything is signed or broadcast
+function TransferDetails({ transaction, darkMode, language }: { transaction: UnsignedTransaction; darkMode: boolean; language: string }) {
+    const messageRows = transaction.messages.flatMap((message, i) => {
+        const suffix = transaction.messages.length > 1 ? ` #${i + 1}` : '';
+        const note = message.payload ? describePayload(message.payload, language) : message.comment;
+        return [
+            { label: `${language === 'ar' ? 'إلى' : 'To'}${suffix}`, value: shortAddress(message.to) },
+            { label: `${language === 'ar' ? 'المبلغ' : 'Amount'}${suffix}`, value: `${fromNano(message.amount)} TON` },
+            ...(note ? [{ label: `${language === 'ar' ? 'تعليق' : 'Comment'}${suffix}`, value: note }] : []),
+        ];
+    });
+    const rows = [
+        { label: language === 'ar' ? 'من' : 'From', value: shortAddress(transaction.walletAddress) },
+        ...messageRows,
+        { label: language === 'ar' ? 'صالح حتى' : 'Valid until', value: new Date(transaction.validUntil * 1000).toLocaleTimeString() },
+    ];
+
+    return (
+        <div className={`rounded-xl p-4 space-y-2 text-sm ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+            {rows.map(row => (
+                <div key={row.label} className="flex justify-between gap-4">
+                    <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{row.label}</span>
+                    <span className="font-mono truncate">{row.value}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function ModalFrame({ title, onClose, darkMode, children }: { title: string; onClose: () => void; darkMode: boolean; children: React.ReactNode }) {
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl sm:rounded-3xl p-6 animate-slide-up sm:animate-scale-up max-h-[90vh] overflow-y-auto no-scrollbar`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{title}</h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+                {children}
+            </div>
+        </div>
+    );
+}
+
+interface OfflineSendModalProps {
+    transaction: UnsignedTransaction | null;
+    onClose: () => void;
+    onBroadcast: (signed: SignedTransaction) => Promise<void>;
+    darkMode: boolean;
+    language: string;
+}
+
+// Offline Send Modal - watch-only side: show the unsigned transfer, scan the signature back, broadcast
+export function OfflineSendModal({ transaction, onClose, onBroadcast, darkMode, language }: OfflineSendModalProps) {
+    const [step, setStep] = useState<'show' | 'scan' | 'sending'>('show');
+    const [error, setError] = useState('');
+    const frames = useMemo(() => transaction ? protocol.encode('unsigned', transaction) : [], [transaction]);
+
+    useEffect(() => {
+        setStep('show');
+        setError('');
+    }, [transaction]);
+
+    if (!transaction) return null;
+
+    const handleScanned = async (signed: SignedTransaction) => {
+        setStep('sending');
+        setError('');
+        try {
+            await onBroadcast(signed);
+        } catch (e: any) {
+            setError(e.message || 'Transaction failed');
+            setStep('scan');
+        }
+    };
+
+    return (
+        <ModalFrame title={language === 'ar' ? 'التوقيع دون اتصال' : 'Sign Offline'} onClose={onClose} darkMode={darkMode}>
+            {step === 'show' && (
+                <div className="space-y-4">
+                    <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {language === 'ar' ? 'امسح الرمز بجهاز التوقيع' : 'Scan this code with your cold signer'}
+                    </p>
+                    <AnimatedQrCode frames={frames} darkMode={darkMode} language={language} />
+                    <TransferDetails transaction={transaction} darkMode={darkMode} language={language} />
+                    <button onClick={() => setStep('scan')} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2">
+                        <ScanLine size={20} />
+                        {language === 'ar' ? 'مسح التوقيع' : 'Scan Signature'}
+                    </button>
+                </div>
+            )}
+
+            {step === 'scan' && (
+                <div className="space-y-4">
+                    <QrScanner kind="signed" onScanned={handleScanned} darkMode={darkMode} language={language} />
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                    <button onClick={() => setStep('show')} className={`w-full py-3 rounded-xl font-bold ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}>
+                        {language === 'ar' ? 'رجوع' : 'Back'}
+                    </button>
+                </div>
+            )}
+
+            {step === 'sending' && (
+                <div className="py-12 flex flex-col items-center gap-3">
+                    <Loader2 size={32} className="animate-spin text-blue-500" />
+                    <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {language === 'ar' ? 'جارٍ الإرسال...' : 'Broadcasting...'}
+                    </p>
+                </div>
+            )}
+        </ModalFrame>
+    );
+}
+
+interface ColdSignerModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSign: (transaction: UnsignedTransaction, password: string) => Promise<SignedTransaction>;
+    onPair: (password: string) => Promise<ColdSignerAccount>;
+    darkMode: boolean;
+    language: string;
+}
+
+// Cold Signer Modal - signer side: share the public key for pairing, sign scanned transfers
+export function ColdSignerModal({ isOpen, onClose, onSign, onPair, darkMode, language }: ColdSignerModalProps) {
+    const [step, setStep] = useState<'menu' | 'pair' | 'scan' | 'review' | 'done'>('menu');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [transaction, setTransaction] = useState<UnsignedTransaction | null>(null);
+    const [frames, setFrames] = useState<string[]>([]);
+
+    if (!isOpen) return null;
+
+    const reset = () => {
+        setStep('menu');
+        setPassword('');
+        setError('');
+        setTransaction(null);
+        setFrames([]);
+    };
+
+    const handleClose = () => {
+        reset();
+        onClose();
+    };
+
+    const handleConfirm = async () => {
+        setLoading(true);
+        setError('');
+        try {
+            if (step === 'pair') {
+                setFrames(protocol.encode('account', await onPair(password)));
+            } else if (transaction) {
+                setFrames(protocol.encode('signed', await onSign(transaction, password)));
+            }
+            setPassword('');
+            setStep('done');
+        } catch (e: any) {
+            setError(e.message || 'Invalid password');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const passwordInput = (
+        <div className="space-y-3">
+            <input
+                type="password"
+                value={password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+                onKeyDown={(e: React.KeyboardEvent) => e.key === 'Enter' && password && handleConfirm()}
+                placeholder="********"
+                className={`w-full p-3 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`}
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <button onClick={handleConfirm} disabled={loading || !password} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-50">
+                {loading && <Loader2 size={16} className="animate-spin" />}
+                {step === 'pair' ? (language === 'ar' ? 'عرض رمز الاقتران' : 'Show Pairing Code') : (language === 'ar' ? 'توقيع' : 'Sign')}
+            </button>
+        </div>
+    );
+
+    const menuButton = 'w-full rounded-xl p-4 flex items-center gap-3 transition ' + (darkMode ? 'bg-gray-800 hover:bg-gray-700 text-white' : 'bg-gray-50 hover:bg-gray-100 text-gray-800');
+
+    return (
+        <ModalFrame title={language === 'ar' ? 'جهاز التوقيع' : 'Cold Signer'} onClose={handleClose} darkMode={darkMode}>
+            {step === 'menu' && (
+                <div className="space-y-2">
+                    <button onClick={() => setStep('pair')} className={menuButton}>
+                        <QrCode size={20} className="text-blue-500" />
+                        <div className="text-left">
+                            <p className="font-medium">{language === 'ar' ? 'اقتران بمحفظة مراقبة' : 'Pair Watch-Only Wallet'}</p>
+                            <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>{language === 'ar' ? 'مشاركة المفتاح العام فقط' : 'Shares the public key only'}</p>
+                        </div>
+                    </button>
+                    <button onClick={() => setStep('scan')} className={menuButton}>
+                        <ScanLine size={20} className="text-blue-500" />
+                        <div className="text-left">
+                            <p className="font-medium">{language === 'ar' ? 'توقيع معاملة' : 'Sign Transaction'}</p>
+                            <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>{language === 'ar' ? 'امسح رمز المحفظة المراقبة' : 'Scan the watch-only wallet code'}</p>
+                        </div>
+                    </button>
+                </div>
+            )}
+
+            {step === 'pair' && passwordInput}
+
+            {step === 'scan' && (
+                <QrScanner
+                    kind="unsigned"
+                    onScanned={(tx: UnsignedTransaction) => {
+                        setTransaction(tx);
+                        setStep('review');
+                    }}
+                    darkMode={darkMode}
+                    language={language}
+                />
+            )}
+
+            {step === 'review' && transaction && (
+                <div className="space-y-4">
+                    <TransferDetails transaction={transaction} darkMode={darkMode} language={language} />
+                    {passwordInput}
+                </div>
+            )}
+
+            {step === 'done' && (
+                <div className="space-y-4">
+                    <p className={`text-sm flex items-center gap-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        <CircleCheck size={18} className="text-green-500" />
+                        {transaction
+                            ? (language === 'ar' ? 'امسح التوقيع بالمحفظة المراقبة' : 'Scan the signature with the watch-only wallet')
+                            : (language === 'ar' ? 'امسح الرمز لإضافة المحفظة المراقبة' : 'Scan this code to add the watch-only wallet')}
+                    </p>
+                    <AnimatedQrCode frames={frames} darkMode={darkMode} language={language} />
+                    <button onClick={handleClose} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold">
+                        {language === 'ar' ? 'تم' : 'Done'}
+                    </button>
+                </div>
+            )}
+        </ModalFrame>
+    );
+}
+
+interface AddWatchOnlyModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onAdd: (name: string, signer: ColdSignerAccount) => void;
+    onImport: (name: string, input: string, version?: WalletVersion) => Promise<void>;
+    darkMode: boolean;
+    language: string;
+}
+
+const WATCH_ONLY_VERSIONS: WalletVersion[] = ['v5r1', 'v4r2', 'v3r2', 'v3r1', 'highload-v3'];
+
+// Add Watch-Only Modal - watches an address or public key, or pairs with a cold signer by scanning its public key
+export function AddWatchOnlyModal({ isOpen, onClose, onAdd, onImport, darkMode, language }: AddWatchOnlyModalProps) {
+    const [mode, setMode] = useState<'address' | 'signer'>('address');
+    const [name, setName] = useState('');
+    const [input, setInput] = useState('');
+    const [version, setVersion] = useState<WalletVersion | ''>('');
+    const [signer, setSigner] = useState<ColdSignerAccount | null>(null);
+    const [error, setError] = useState('');
+    const [isAdding, setIsAdding] = useState(false);
+
+    if (!isOpen) return null;
+
+    const isPublicKey = /^[0-9a-f]{64}$/i.test(input.trim());
+    const walletName = name.trim() || (language === 'ar' ? 'محفظة مراقبة' : 'Watch-Only Wallet');
+
+    const handleClose = () => {
+        setMode('address');
+        setName('');
+        setInput('');
+        setVersion('');
+        setSigner(null);
+        setError('');
+        onClose();
+    };
+
+    const handleAdd = async () => {
+        setError('');
+        setIsAdding(true);
+        try {
+            if (mode === 'signer') {
+                if (!signer) return;
+                onAdd(walletName, signer);
+            } else {
+                await onImport(walletName, input, version || undefined);
+            }
+            handleClose();
+        } catch (e: any) {
+            setError(e.message);
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const canAdd = mode === 'signer' ? !!signer : !!input.trim() && (!isPublicKey || !!version);
+    const tabClass = (active: boolean) => `flex-1 py-2 rounded-lg text-sm font-medium ${active
+        ? 'bg-blue-600 text-white'
+        : darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+    const fieldClass = `w-full p-3 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+
+    return (
+        <ModalFrame title={language === 'ar' ? 'محفظة مراقبة' : 'Watch-Only Wallet'} onClose={handleClose} darkMode={darkMode}>
+            <div className="space-y-4">
+                <div className={`flex gap-1 p-1 rounded-xl ${darkMode ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                    <button onClick={() => setMode('address')} className={tabClass(mode === 'address')}>
+                        {language === 'ar' ? 'عنوان أو مفتاح' : 'Address or key'}
+                    </button>
+                    <button onClick={() => setMode('signer')} className={tabClass(mode === 'signer')}>
+                        {language === 'ar' ? 'جهاز توقيع' : 'Cold signer'}
+                    </button>
+                </div>
+
+                <input
+                    value={name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                    placeholder={language === 'ar' ? 'اسم المحفظة' : 'Wallet Name'}
+                    className={fieldClass}
+                />
+
+                {mode === 'address' ? (
+                    <>
+                        <textarea
+                            value={input}
+                            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setInput(e.target.value)}
+                            placeholder={language === 'ar' ? 'العنوان (UQ… / EQ… / 0:…) أو المفتاح العام' : 'Address (UQ… / EQ… / 0:…) or public key'}
+                            rows={3}
+                            className={`${fieldClass} font-mono text-sm resize-none`}
+                        />
+                        <select
+                            value={version}
+                            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setVersion(e.target.value as WalletVersion | '')}
+                            className={fieldClass}
+                        >
+                            <option value="">
+                                {isPublicKey
+                                    ? (language === 'ar' ? 'اختر إصدار المحفظة' : 'Choose wallet version')
+                                    : (language === 'ar' ? 'اكتشاف الإصدار تلقائياً' : 'Detect version automatically')}
+                            </option>
+                            {WATCH_ONLY_VERSIONS.map(v => <option key={v} value={v}>{v}</option>)}
+                        </select>
+                        <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                            {language === 'ar'
+                                ? 'يمكن مشاهدة الرصيد والرموز والسجل. التوقيع يتطلب جهاز توقيع مقترن.'
+                                : 'Balances, tokens and history are shown. Signing needs a paired cold signer.'}
+                        </p>
+                    </>
+                ) : signer ? (
+                    <div className={`rounded-xl p-4 space-y-1 text-sm ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                        <p className="flex items-center gap-2 font-medium">
+                            <CircleCheck size={16} className="text-green-500" />
+                            {language === 'ar' ? 'تم الاقتران' : 'Signer paired'} ({signer.walletVersion})
+                        </p>
+                        <p className="font-mono text-xs break-all">{signer.address}</p>
+                    </div>
+                ) : (
+                    <>
+                        <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                            {language === 'ar' ? 'امسح رمز الاقتران من جهاز التوقيع' : 'Scan the pairing code shown by your cold signer'}
+                        </p>
+                        <QrScanner kind="account" onScanned={setSigner} darkMode={darkMode} language={language} />
+                    </>
+                )}
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                <button onClick={handleAdd} disabled={!canAdd || isAdding} className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold disabled:opacity-50 flex items-center justify-center gap-2">
+                    {isAdding && <Loader2 size={18} className="animate-spin" />}
+                    {language === 'ar' ? 'إضافة' : 'Add'}
+                </button>
+            </div>
+        </ModalFrame>
+    );
+}
@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { X, KeyRound, Loader2, Upload, Download, Trash2 } from 'lucide-react';
+import { getPayoutReport, getPayoutStatus, payoutReportToCsv } from '../services/PayoutService';
+import type { PayoutIssue, PayoutJob, PayoutJobStatus, PayoutPlan, PayoutTotal } from '../services/PayoutService';
+
+interface PayoutsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    jobs: PayoutJob[];
+    sessionUntil: number | null;
+    onPlan: (text: string) => Promise<PayoutPlan>;
+    onCreate: (plan: PayoutPlan, name?: string) => void;
+    onCancel: (id: string) => void;
+    onRemove: (id: string) => void;
+    onAuthorize: (hours: number) => void;
+    onRevoke: () => void;
+    darkMode: boolean;
+    language: string;
+}
+
+const STATUS_LABELS: Record<PayoutJobStatus, { en: string; ar: string }> = {
+    running: { en: 'Running', ar: 'قيد التنفيذ' },
+    completed: { en: 'Completed', ar: 'مكتملة' },
+    attention: { en: 'Needs review', ar: 'تحتاج مراجعة' },
+    cancelled: { en: 'Cancelled', ar: 'ملغاة' },
+};
+
+// Long enough for a chunk to expire and be signed again
+const SESSION_HOURS = [2, 8, 24];
+
+/**
+ * Save a job's reconciliation report as a CSV file
+ */
+function downloadReport(job: PayoutJob): void {
+    const blob = new Blob([payoutReportToCsv(getPayoutReport(job))], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${job.name.replace(/[^\w-]+/g, '_')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Payouts Modal - import a recipient list, run it chunk by chunk and export the report
+export function PayoutsModal({ isOpen, onClose, jobs, sessionUntil, onPlan, onCreate, onCancel, onRemove, onAuthorize, onRevoke, darkMode, language }: PayoutsModalProps) {
+    const [text, setText] = useState('');
+    const [name, setName] = useState('');
+    const [plan, setPlan] = useState<PayoutPlan | null>(null);
+    const [sessionHours, setSessionHours] = useState(2);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setPlan(null);
+        setError('');
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const fieldClass = `w-full p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const mutedClass = darkMode ? 'text-gray-500' : 'text-gray-400';
+    const pillClass = (active: boolean) => `px-3 py-2 rounded-xl text-xs font-semibold transition ${active
+        ? (darkMode ? 'bg-white text-black' : 'bg-black text-white')
+        : (darkMode ? 'bg-gray-800 text-gray-400 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200')}`;
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then((content: string) => {
+            setText(content);
+            setPlan(null);
+        });
+    };
+
+    const handleCheck = () => {
+        setError('');
+        setPlan(null);
+        setIsLoading(true);
+        onPlan(text)
+            .then(setPlan)
+            .catch((e: any) => setError(e.message || 'Invalid recipient list'))
+            .finally(() => setIsLoading(false));
+    };
+
+    const handleCreate = () => {
+        if (!plan) return;
+        setError('');
+        try {
+            onCreate(plan, name);
+            setText('');
+            setName('');
+            setPlan(null);
+        } catch (e: any) {
+            setError(e.message || 'Failed to create payout');
+        }
+    };
+
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'الدفعات' : 'Payouts'}
+                    </h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* Session */}
+                <div className={`p-3 mb-4 rounded-xl text-sm ${sessionUntil
+                    ? (darkMode ? 'bg-green-500/10 text-green-400' : 'bg-green-50 text-green-700')
+                    : (darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700')}`}>
+                    <div className="flex items-center gap-2 mb-2">
+                        <KeyRound size={16} className="shrink-0" />
+                        <span>
+                            {sessionUntil
+                                ? (language === 'ar' ? `تُرسل الدفعات حتى ${formatTime(sessionUntil)}` : `Payouts are sent until ${formatTime(sessionUntil)}`)
+                                : (language === 'ar' ? 'تُؤكَّد الأجزاء المرسلة، ولا يُوقَّع جديد حتى تأذن بجلسة' : 'Sent chunks are confirmed; new ones wait until you authorise a session')}
+                        </span>
+                    </div>
+                    {sessionUntil ? (
+                        <button onClick={onRevoke} className="font-semibold underline text-xs">
+                            {language === 'ar' ? 'إنهاء الجلسة' : 'End session'}
+                        </button>
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            {SESSION_HOURS.map((hours: number) => (
+                                <button key={hours} onClick={() => setSessionHours(hours)} className={pillClass(sessionHours === hours)}>
+                                    {hours}h
+                                </button>
+                            ))}
+                            <button onClick={() => onAuthorize(sessionHours)} className="ml-auto px-3 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700">
+                                {language === 'ar' ? 'تفويض' : 'Authorise'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* New payout */}
+                <div className={`p-4 mb-4 rounded-2xl border space-y-3 ${darkMode ? 'border-gray-800' : 'border-gray-100'}`}>
+                    <input
+                        value={name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                        placeholder={language === 'ar' ? 'اسم الدفعة (اختياري)' : 'Payout name (optional)'}
+                        className={fieldClass}
+                    />
+                    <textarea
+                        value={text}
+                        onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => { setText(e.target.value); setPlan(null); }}
+                        placeholder={'address,amount,token,comment\nUQ...,12.5,TON,March salary\nUQ...,100,USDT,'}
+                        rows={5}
+                        className={`${fieldClass} font-mono text-xs`}
+                    />
+                    <label className={`flex items-center justify-center gap-2 py-2 rounded-xl text-xs font-semibold cursor-pointer ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}>
+                        <Upload size={14} />
+                        {language === 'ar' ? 'تحميل ملف CSV أو JSON' : 'Load a CSV or JSON file'}
+                        <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+                    </label>
+
+                    {plan && (
+                        <div className={`p-3 rounded-xl text-sm space-y-1 ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                            <p>
+                                {language === 'ar'
+                                    ? `${plan.recipients.length} مستلم في ${plan.chunks.length} رسالة`
+                                    : `${plan.recipients.length} recipients in ${plan.chunks.length} message${plan.chunks.length === 1 ? '' : 's'}`}
+                            </p>
+                            {plan.totals.map((total: PayoutTotal) => (
+                                <p key={total.token} className="font-semibold">{total.amount} {total.symbol}</p>
+                            ))}
+                            <p className={`text-xs ${mutedClass}`}>
+                                {language === 'ar' ? `يلزم ${plan.tonRequired} TON مع رسوم التوكنات` : `Needs ${plan.tonRequired} TON including jetton fees`}
+                            </p>
+                            {plan.duplicates.length > 0 && (
+                                <p className={`text-xs ${mutedClass}`}>
+                                    {language === 'ar' ? `تم تجاهل ${plan.duplicates.length} صف مكرر` : `${plan.duplicates.length} duplicate row(s) skipped`}
+                                </p>
+                            )}
+                            {plan.issues.map((issue: PayoutIssue) => (
+                                <p key={issue.line} className="text-xs text-red-500">
+                                    {language === 'ar' ? 'سطر' : 'Line'} {issue.line}: {issue.error}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+
+                    <button
+                        onClick={plan ? handleCreate : handleCheck}
+                        disabled={isLoading || !text.trim() || (plan !== null && plan.issues.length > 0)}
+                        className="w-full py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        {isLoading && <Loader2 size={18} className="animate-spin" />}
+                        {plan
+                            ? (language === 'ar' ? 'إنشاء الدفعة' : 'Create payout')
+                            : (language === 'ar' ? 'تحقق' : 'Check')}
+                    </button>
+                </div>
+
+                {/* Jobs */}
+                <div className="space-y-2">
+                    {jobs.map((job: PayoutJob) => {
+                        const status = getPayoutStatus(job);
+                        const processed = job.chunks.filter(chunk => chunk.status === 'processed').length;
+                        const errors = job.chunks.filter(chunk => chunk.error && chunk.status !== 'processed');
+                        return (
+                            <div key={job.id} className={`p-4 rounded-2xl border ${darkMode ? 'bg-gray-900 border-gray-800' : 'bg-white border-gray-100'}`}>
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className={`font-semibold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>{job.name}</p>
+                                        <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                                            {language === 'ar' ? STATUS_LABELS[status].ar : STATUS_LABELS[status].en}
+                                            {` · ${processed}/${job.chunks.length} · `}
+                                            {language === 'ar' ? `${job.recipients.length} مستلم` : `${job.recipients.length} recipients`}
+                                        </p>
+                                        <p className={`text-xs ${mutedClass}`}>{formatTime(job.createdAt)}</p>
+                                        {errors.length > 0 && <p className="text-xs text-red-500 mt-1">{errors[0].error}</p>}
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        <button onClick={() => downloadReport(job)} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                                            <Download size={16} />
+                                        </button>
+                                        {job.chunks.some(chunk => chunk.status === 'pending') ? (
+                                            <button onClick={() => onCancel(job.id)} className={`text-xs font-semibold ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
+                                                {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                                            </button>
+                                        ) : status !== 'running' && (
+                                            <button onClick={() => onRemove(job.id)} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {jobs.length === 0 && (
+                    <p className={`text-center text-sm py-8 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                        {language === 'ar' ? 'لا توجد دفعات' : 'No payouts'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Shield, ChevronRight, Key, Moon, Bell, Globe, Wallet, LogOut } from 'lucide-react';
+import { Shield, ChevronRight, Key, Moon, Bell, Globe, Wallet, LogOut, Link2, QrCode, AtSign, Users, Server, Receipt, BookUser } from 'lucide-react';
 
 interface SettingsTabProps {
     darkMode: boolean;
@@ -13,11 +13,20 @@ interface SettingsTabProps {
     setShowPhraseModal: (v: boolean) => void;
     onLogout: () => void;
     onWalletTypeClick: () => void;
+    onConnectedAppsClick: () => void;
+    onColdSignerClick?: () => void;
+    onPayoutsClick?: () => void;
+    onHighloadClick?: () => void;
+    onInvoicesClick?: () => void;
+    onAddressBookClick?: () => void;
+    onDomainsClick: () => void;
+    renewalCount?: number;
 }
 
 export default function SettingsTab({
     darkMode, setDarkMode, language, setLanguage, walletType,
-    notifications, setNotifications, setShowBackupModal, setShowPhraseModal, onLogout, onWalletTypeClick
+    notifications, setNotifications, setShowBackupModal, setShowPhraseModal, onLogout, onWalletTypeClick, onConnectedAppsClick, onColdSignerClick,
+    onPayoutsClick, onHighloadClick, onInvoicesClick, onAddressBookClick, onDomainsClick, renewalCount = 0
 }: SettingsTabProps) {
     // Common styles for settings rows - with proper contrast
     const rowStyle = darkMode
@@ -52,7 +61,160 @@ export default function SettingsTab({
                         <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
                     </button>
 
+                    <button
+                        onClick={onConnectedAppsClick}
+                        className={`w-full ${rowStyle} rounded-xl p-4 flex items-center justify-between transition`}
+                    >
+                        <div className="flex items-center gap-3">
+                            <div className={`w-10 h-10 ${darkMode ? 'bg-purple-950' : 'bg-purple-100'} rounded-full flex items-center justify-center`}>
+                                <Link2 size={20} className={darkMode ? 'text-purple-400' : 'text-purple-600'} />
+                            </div>
+                            <div className="text-right">
+                                <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                    {language === 'ar' ? 'التطبيقات المتصلة' : 'Connected Apps'}
+                                </p>
+                                <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                    TON Connect
+                                </p>
+                            </div>
+                        </div>
+                        <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
+                    </button>
+
+                    <button
+                        onClick={onDomainsClick}
+                        className={`w-full ${rowStyle} rounded-xl p-4 flex items-center justify-between transition`}
+                    >
+                        <div className="flex items-center gap-3">
+                            <div className={`w-10 h-10 ${darkMode ? 'bg-sky-950' : 'bg-sky-100'} rounded-full flex items-center justify-center`}>
+                                <AtSign size={20} className={darkMode ? 'text-sky-400' : 'text-sky-600'} />
+                            </div>
+                            <div className="text-right">
+                                <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                    {language === 'ar' ? 'النطاقات' : 'Domains'}
+                                </p>
+                                <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                    {language === 'ar' ? 'سجلات TON DNS والتجديد' : 'TON DNS records and renewal'}
+                                </p>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {renewalCount > 0 && (
+                                <span className="text-xs font-bold px-2 py-0.5 rounded-full bg-yellow-500 text-white">{renewalCount}</span>
+                            )}
+                            <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
+                        </div>
+                    </button>
+
+                    {onColdSignerClick && (
+                        <button
+                            onClick={onColdSignerClick}
+                            className={`w-full ${rowStyle} rounded-xl p-4 flex items-center justify-between transition`}
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className={`w-10 h-10 ${darkMode ? 'bg-teal-950' : 'bg-teal-100'} rounded-full flex items-center justify-center`}>
+                                    <QrCode size={20} className={darkMode ? 'text-teal-400' : 'text-teal-600'} />
+                                </div>
+                                <div className="text-right">
+                                    <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                        {language === 'ar' ? 'جهاز التوقيع' : 'Cold Signer'}
+                                    </p>
+                                    <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                        {language === 'ar' ? 'التوقيع لمحفظة مراقبة عبر QR' : 'Sign for a watch-only wallet over QR'}
+                                    </p>
+                                </div>
+                            </div>
+                            <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
+                        </button>
+                    )}
+
+                    {onPayoutsClick && (
+                        <button
+                            onClick={onPayoutsClick}
+                            className={`w-full ${rowStyle} rounded-xl p-4 flex items-center justify-between transition`}
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className={`w-10 h-10 ${darkMode ? 'bg-indigo-950' : 'bg-indigo-100'} rounded-full flex items-center justify-center`}>
+                                    <Users size={20} className={darkMode ? 'text-indigo-400' : 'text-indigo-600'} />
+                                </div>
+                                <div className="text-right">
+                                    <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                        {language === 'ar' ? 'الدفعات' : 'Payouts'}
+                                    </p>
+                                    <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                        {language === 'ar' ? 'دفعات جماعية من ملف CSV أو JSON' : 'Batch payments from a CSV or JSON list'}
+                                    </p>
+                                </div>
+                            </div>
+                            <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
+                        </button>
+                    )}
+
+                    {onHighloadClick && (
+                        <button
+                            onClick={onHighloadClick}
+                            className={`w-full ${rowStyle} rounded-xl p-4 flex items-center justify-between transition`}
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className={`w-10 h-10 ${darkMode ? 'bg-cyan-950' : 'bg-cyan-100'} rounded-full flex items-center justify-center`}>
+                                    <Server size={20} className={darkMode ? 'text-cyan-400' : 'text-cyan-600'} />
+                                </div>
+                                <div className="text-right">
+                                    <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                        {language === 'ar' ? 'محافظ Highload' : 'Highload wallets'}
+                                    </p>
+                                    <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                        {language === 'ar' ? 'المحافظ الفرعية وحالة معرفات الاستعلام' : 'Subwallets and query ID state'}
+                                    </p>
+                                </div>
+                            </div>
+                            <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
+                        </button>
+                    )}
 
+                    {onInvoicesClick && (
+                        <button
+                            onClick={onInvoicesClick}
+                            className={`w-full ${rowStyle} rounded-xl p-4 flex items-center justify-between transition`}
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className={`w-10 h-10 ${darkMode ? 'bg-emerald-950' : 'bg-emerald-100'} rounded-full flex items-center justify-center`}>
+                                    <Receipt size={20} className={darkMode ? 'text-emerald-400' : 'text-emerald-600'} />
+                                </div>
+                                <div className="text-right">
+                                    <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                        {language === 'ar' ? 'الفواتير' : 'Invoices'}
+                                    </p>
+                                    <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                        {language === 'ar' ? 'فواتير للتجار مع اكتشاف الدفع تلقائياً' : 'Merchant invoices with automatic payment detection'}
+                                    </p>
+                                </div>
+                            </div>
+                            <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
+                        </button>
+                    )}
+
+                    {onAddressBookClick && (
+                        <button
+                            onClick={onAddressBookClick}
+                            className={`w-full ${rowStyle} rounded-xl p-4 flex items-center justify-between transition`}
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className={`w-10 h-10 ${darkMode ? 'bg-sky-950' : 'bg-sky-100'} rounded-full flex items-center justify-center`}>
+                                    <BookUser size={20} className={darkMode ? 'text-sky-400' : 'text-sky-600'} />
+                                </div>
+                                <div className="text-right">
+                                    <p className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                                        {language === 'ar' ? 'دفتر العناوين' : 'Address book'}
+                                    </p>
+                                    <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                        {language === 'ar' ? 'المستلمون المحفوظون والمذكرات المطلوبة' : 'Saved recipients and required memos'}
+                                    </p>
+                                </div>
+                            </div>
+                            <ChevronRight className={darkMode ? 'text-gray-600' : 'text-gray-400'} size={20} />
+                        </button>
+                    )}
                 </div>
             </div>
 
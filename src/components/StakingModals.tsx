@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { X, RefreshCw, ChevronRight, ArrowDownToLine, Layers, Clock } from 'lucide-react';
+import { Address, fromNano, toNano } from '@ton/core';
+import type { StakingAction, StakingPool, StakingPoolKind, StakingPosition } from '../types';
+import { isLiquidStaking } from '../wallets/staking';
+
+interface StakingModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    pools: StakingPool[];
+    positions: StakingPosition[];
+    onRefresh: () => Promise<void>;
+    onAction: (action: StakingAction) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+export const STAKING_KIND_LABELS: Record<StakingPoolKind, { en: string; ar: string }> = {
+    nominator: { en: 'Nominator pool', ar: 'مجمع ترشيح' },
+    whales: { en: 'Whales pool', ar: 'مجمع Whales' },
+    tonstakers: { en: 'Liquid staking', ar: 'تخزين سائل' },
+    bemo: { en: 'Liquid staking', ar: 'تخزين سائل' },
+    hipo: { en: 'Liquid staking', ar: 'تخزين سائل' },
+};
+
+/**
+ * Pool kind label in the UI language
+ */
+export function getKindLabel(kind: StakingPoolKind, language: string): string {
+    return language === 'ar' ? STAKING_KIND_LABELS[kind].ar : STAKING_KIND_LABELS[kind].en;
+}
+
+/**
+ * Pool a position is held in
+ */
+export function findStakingPool(pools: StakingPool[], position: StakingPosition): StakingPool | undefined {
+    const address = Address.parse(position.poolAddress);
+    return pools.find((pool: StakingPool) => Address.parse(pool.address).equals(address));
+}
+
+/**
+ * APY label ("4.25% APY", or a dash when unknown)
+ */
+export function formatApy(pool: StakingPool): string {
+    return pool.apy === null ? 'APY —' : `${pool.apy.toFixed(2)}% APY`;
+}
+
+/**
+ * Short TON amount for position rows
+ */
+export function formatStake(amount: bigint): string {
+    return Number(fromNano(amount)).toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+// Staking Modal - pools with APY, staked positions, deposits and withdrawals
+export function StakingModal({ isOpen, onClose, pools, positions, onRefresh, onAction, darkMode, language }: StakingModalProps) {
+    const [selected, setSelected] = useState<StakingPool | null>(null);
+    const [mode, setMode] = useState<'deposit' | 'withdraw'>('deposit');
+    const [amount, setAmount] = useState('');
+    const [waitTillRoundEnd, setWaitTillRoundEnd] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSelected(null);
+        setError('');
+        setIsLoading(true);
+        onRefresh()
+            .catch((e: any) => setError(e.message || 'Failed to load staking pools'))
+            .finally(() => setIsLoading(false));
+    }, [isOpen]);
+
+    useEffect(() => {
+        setMode('deposit');
+        setAmount('');
+        setWaitTillRoundEnd(false);
+        setError('');
+    }, [selected?.address]);
+
+    if (!isOpen) return null;
+
+    const cardClass = darkMode ? 'bg-gray-900 border-gray-800 hover:bg-gray-800' : 'bg-white border-gray-100 hover:bg-gray-50';
+    const fieldClass = `w-full p-3 rounded-xl border ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const mutedClass = darkMode ? 'text-gray-500' : 'text-gray-500';
+
+    const positionIn = (pool: StakingPool) => positions.find((position: StakingPosition) => findStakingPool([pool], position));
+    const position = selected ? positionIn(selected) : undefined;
+    const liquid = selected ? isLiquidStaking(selected.kind) : false;
+    const withdrawUnit = liquid ? selected?.liquidSymbol ?? '' : 'TON';
+
+    const handleSubmit = () => {
+        if (!selected) return;
+        setError('');
+
+        let value: bigint | undefined;
+        if (amount.trim()) {
+            try {
+                value = toNano(amount.trim());
+            } catch {
+                setError(language === 'ar' ? 'مبلغ غير صالح' : 'Invalid amount');
+                return;
+            }
+        }
+
+        if (mode === 'deposit') {
+            if (!value) {
+                setError(language === 'ar' ? 'أدخل المبلغ' : 'Enter an amount');
+                return;
+            }
+            onAction({ type: 'deposit', pool: selected, amount: value });
+        } else {
+            onAction({ type: 'withdraw', pool: selected, amount: value, waitTillRoundEnd });
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <div className="flex items-center gap-2">
+                        {selected && (
+                            <button onClick={() => setSelected(null)} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                                <ArrowDownToLine className="rotate-90" size={18} />
+                            </button>
+                        )}
+                        <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                            {selected ? selected.name : (language === 'ar' ? 'التخزين' : 'Staking')}
+                        </h3>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        {!selected && (
+                            <button
+                                onClick={() => {
+                                    setIsLoading(true);
+                                    onRefresh().finally(() => setIsLoading(false));
+                                }}
+                                disabled={isLoading}
+                                className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+                            >
+                                <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+                            </button>
+                        )}
+                        <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+                {!selected && (
+                    <div className="space-y-2">
+                        {pools.map((pool: StakingPool) => {
+                            const stake = positionIn(pool);
+                            return (
+                                <button
+                                    key={pool.address}
+                                    onClick={() => setSelected(pool)}
+                                    className={`w-full p-4 rounded-2xl border flex items-center justify-between transition ${cardClass}`}
+                                >
+                                    <div className="flex items-center gap-3 text-left">
+                                        <div className={`w-10 h-10 rounded-full flex items-center justify-center ${darkMode ? 'bg-blue-950 text-blue-400' : 'bg-blue-100 text-blue-600'}`}>
+                                            <Layers size={18} />
+                                        </div>
+                                        <div>
+                                            <p className={`font-semibold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                                {pool.name}{pool.liquidSymbol ? ` · ${pool.liquidSymbol}` : ''}
+                                            </p>
+                                            <p className={`text-xs ${mutedClass}`}>
+                                                {getKindLabel(pool.kind, language)}
+                                                {stake ? ` · ${formatStake(stake.amount)} TON` : ''}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className={`text-sm font-semibold ${pool.apy === null ? mutedClass : 'text-green-500'}`}>{formatApy(pool)}</span>
+                                        <ChevronRight size={18} className={darkMode ? 'text-gray-600' : 'text-gray-400'} />
+                                    </div>
+                                </button>
+                            );
+                        })}
+
+                        {!isLoading && pools.length === 0 && (
+                            <div className={`text-center py-10 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                                <Layers size={24} className="mx-auto mb-3 opacity-50" />
+                                <p>{language === 'ar' ? 'لا توجد مجمعات متاحة' : 'No staking pools available'}</p>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {selected && (
+                    <div className="space-y-4">
+                        <div className={`p-3 rounded-xl text-sm space-y-1 ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                            <div className="flex justify-between">
+                                <span>{getKindLabel(selected.kind, language)}</span>
+                                <span className="font-semibold">{formatApy(selected)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span>{language === 'ar' ? 'الحد الأدنى' : 'Minimum stake'}</span>
+                                <span>{formatStake(selected.minStake)} TON</span>
+                            </div>
+                            {position && (
+                                <>
+                                    <div className="flex justify-between">
+                                        <span>{language === 'ar' ? 'رصيدك المخزن' : 'Your stake'}</span>
+                                        <span className="font-semibold">{formatStake(position.amount)} TON</span>
+                                    </div>
+                                    {position.liquidBalance !== undefined && (
+                                        <div className="flex justify-between">
+                                            <span>{selected.liquidSymbol}</span>
+                                            <span>{fromNano(position.liquidBalance)}</span>
+                                        </div>
+                                    )}
+                                    {position.pendingWithdraw > 0n && (
+                                        <div className="flex justify-between text-yellow-500">
+                                            <span className="flex items-center gap-1"><Clock size={14} />{language === 'ar' ? 'سحب معلق' : 'Pending withdrawal'}</span>
+                                            <span>{formatStake(position.pendingWithdraw)} TON</span>
+                                        </div>
+                                    )}
+                                    {position.readyWithdraw > 0n && (
+                                        <div className="flex justify-between text-green-500">
+                                            <span>{language === 'ar' ? 'جاهز للسحب' : 'Ready to withdraw'}</span>
+                                            <span>{formatStake(position.readyWithdraw)} TON</span>
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                            {selected.cycleEnd && (
+                                <p className={`text-xs pt-1 ${mutedClass}`}>
+                                    {language === 'ar' ? 'تنتهي الجولة في' : 'Round ends'} {new Date(selected.cycleEnd * 1000).toLocaleString()}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['deposit', 'withdraw'] as const).map((option: 'deposit' | 'withdraw') => (
+                                <button
+                                    key={option}
+                                    onClick={() => setMode(option)}
+                                    className={`py-2 rounded-xl text-sm font-semibold transition ${mode === option
+                                        ? (darkMode ? 'bg-white text-black' : 'bg-black text-white')
+                                        : (darkMode ? 'bg-gray-800 text-gray-400 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200')}`}
+                                >
+                                    {option === 'deposit'
+                                        ? (language === 'ar' ? 'إيداع' : 'Stake')
+                                        : (language === 'ar' ? 'سحب' : 'Unstake')}
+                                </button>
+                            ))}
+                        </div>
+
+                        {mode === 'withdraw' && selected.kind === 'nominator' ? (
+                            <p className={`text-sm ${mutedClass}`}>
+                                {language === 'ar'
+                                    ? 'يعيد مجمع الترشيح كامل رصيدك في نهاية الجولة.'
+                                    : 'Nominator pools return your whole stake at the end of the round.'}
+                            </p>
+                        ) : (
+                            <div>
+                                <input
+                                    value={amount}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+                                    placeholder={mode === 'deposit' ? '0 TON' : `0 ${withdrawUnit}`}
+                                    inputMode="decimal"
+                                    className={fieldClass}
+                                />
+                                {mode === 'withdraw' && liquid && position?.liquidBalance !== undefined && (
+                                    <button
+                                        onClick={() => setAmount(fromNano(position.liquidBalance!))}
+                                        className={`text-xs mt-2 ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}
+                                    >
+                                        {language === 'ar' ? 'الكل' : 'Max'}
+                                    </button>
+                                )}
+                                {mode === 'withdraw' && selected.kind === 'whales' && (
+                                    <p className={`text-xs mt-2 ${mutedClass}`}>
+                                        {language === 'ar' ? 'اتركه فارغاً لسحب كل شيء' : 'Leave empty to withdraw everything'}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {mode === 'withdraw' && selected.kind === 'tonstakers' && (
+                            <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={waitTillRoundEnd}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setWaitTillRoundEnd(e.target.checked)}
+                                />
+                                {language === 'ar' ? 'انتظر نهاية الجولة' : 'Wait for the end of the round'}
+                            </label>
+                        )}
+
+                        <button
+                            onClick={handleSubmit}
+                            className="w-full py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+                        >
+                            {mode === 'deposit'
+                                ? (language === 'ar' ? 'إيداع' : 'Stake')
+                                : (language === 'ar' ? 'سحب' : 'Unstake')}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { X, Clock, KeyRound, Repeat, Target, SplitSquareHorizontal } from 'lucide-react';
+import { swapService } from '../services/SwapService';
+import type { TokenInfo } from '../services/SwapService';
+import type { SwapOrder, SwapOrderKind, SwapOrderRequest, SwapOrderStatus } from '../services/SwapOrderService';
+
+interface SwapOrdersModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    orders: SwapOrder[];
+    sessionUntil: number | null;
+    onPlace: (order: SwapOrderRequest) => void;
+    onCancel: (id: string) => void;
+    onAuthorize: (hours: number) => void;
+    onRevoke: () => void;
+    darkMode: boolean;
+    language: string;
+}
+
+type OrderTab = 'open' | 'filled' | 'cancelled';
+
+const KIND_LABELS: Record<SwapOrderKind, { en: string; ar: string }> = {
+    limit: { en: 'Limit', ar: 'محدد' },
+    dca: { en: 'DCA', ar: 'متوسط التكلفة' },
+    twap: { en: 'TWAP', ar: 'TWAP' },
+};
+
+const SESSION_HOURS = [1, 24, 24 * 7];
+
+/**
+ * List tab an order belongs to; failed orders are listed with cancelled ones
+ */
+export function getOrderTab(status: SwapOrderStatus): OrderTab {
+    return status === 'open' || status === 'filled' ? status : 'cancelled';
+}
+
+/**
+ * One-line summary of what an order does
+ */
+export function describeOrder(order: SwapOrder, language: string): string {
+    const pair = `${order.amount} ${order.fromToken} → ${order.toToken}`;
+    const hours = (order.interval ?? 0) / 3600000;
+    const every = hours >= 1 ? `${+hours.toFixed(2)}h` : `${Math.round(hours * 60)}m`;
+
+    switch (order.kind) {
+        case 'limit':
+            return language === 'ar'
+                ? `${pair} عند ${order.targetRate} ${order.toToken} أو أفضل`
+                : `${pair} at ${order.targetRate} ${order.toToken} or better`;
+        case 'dca':
+        case 'twap':
+            return language === 'ar' ? `${pair} كل ${every}` : `${pair} every ${every}`;
+    }
+}
+
+// Swap Orders Modal - limit, DCA and TWAP orders with the session that lets them sign
+export function SwapOrdersModal({ isOpen, onClose, orders, sessionUntil, onPlace, onCancel, onAuthorize, onRevoke, darkMode, language }: SwapOrdersModalProps) {
+    const [tab, setTab] = useState<OrderTab>('open');
+    const [kind, setKind] = useState<SwapOrderKind>('limit');
+    const [fromToken, setFromToken] = useState('TON');
+    const [toToken, setToToken] = useState('USDT');
+    const [amount, setAmount] = useState('');
+    const [targetRate, setTargetRate] = useState('');
+    const [expiresInHours, setExpiresInHours] = useState('');
+    const [intervalHours, setIntervalHours] = useState('24');
+    const [runs, setRuns] = useState('');
+    const [durationHours, setDurationHours] = useState('4');
+    const [slices, setSlices] = useState('8');
+    const [sessionHours, setSessionHours] = useState(24);
+    const [error, setError] = useState('');
+
+    if (!isOpen) return null;
+
+    // The registry's tokens, as published to the swap service
+    const symbols = swapService.getAvailableTokens().map((token: TokenInfo) => token.symbol);
+
+    const fieldClass = `w-full p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const labelClass = `text-xs font-medium mb-1 block ${darkMode ? 'text-gray-500' : 'text-gray-400'}`;
+    const pillClass = (active: boolean) => `px-3 py-2 rounded-xl text-xs font-semibold transition ${active
+        ? (darkMode ? 'bg-white text-black' : 'bg-black text-white')
+        : (darkMode ? 'bg-gray-800 text-gray-400 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200')}`;
+
+    const listed = orders.filter((order: SwapOrder) => getOrderTab(order.status) === tab);
+
+    const handlePlace = () => {
+        setError('');
+        const pair = { fromToken, toToken };
+        try {
+            if (kind === 'limit') {
+                onPlace({ kind, ...pair, amount, targetRate: parseFloat(targetRate), expiresInHours: parseFloat(expiresInHours) || undefined });
+            } else if (kind === 'dca') {
+                onPlace({ kind, ...pair, amount, intervalHours: parseFloat(intervalHours), runs: parseInt(runs) || undefined });
+            } else {
+                onPlace({ kind, ...pair, totalAmount: amount, durationHours: parseFloat(durationHours), slices: parseInt(slices) });
+            }
+            setAmount('');
+            setTargetRate('');
+            setTab('open');
+        } catch (e: any) {
+            setError(e.message || 'Failed to place order');
+        }
+    };
+
+    const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'أوامر التبديل' : 'Swap Orders'}
+                    </h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {/* Session */}
+                <div className={`p-3 mb-4 rounded-xl text-sm ${sessionUntil
+                    ? (darkMode ? 'bg-green-500/10 text-green-400' : 'bg-green-50 text-green-700')
+                    : (darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700')}`}>
+                    <div className="flex items-center gap-2 mb-2">
+                        <KeyRound size={16} className="shrink-0" />
+                        <span>
+                            {sessionUntil
+                                ? (language === 'ar' ? `تُنفَّذ الأوامر حتى ${formatTime(sessionUntil)}` : `Orders execute until ${formatTime(sessionUntil)}`)
+                                : (language === 'ar' ? 'الأوامر متوقفة حتى تأذن بجلسة' : 'Orders wait until you authorise a session')}
+                        </span>
+                    </div>
+                    {sessionUntil ? (
+                        <button onClick={onRevoke} className="font-semibold underline text-xs">
+                            {language === 'ar' ? 'إنهاء الجلسة' : 'End session'}
+                        </button>
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            {SESSION_HOURS.map((hours: number) => (
+                                <button key={hours} onClick={() => setSessionHours(hours)} className={pillClass(sessionHours === hours)}>
+                                    {hours < 24 ? `${hours}h` : `${hours / 24}d`}
+                                </button>
+                            ))}
+                            <button onClick={() => onAuthorize(sessionHours)} className="ml-auto px-3 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700">
+                                {language === 'ar' ? 'تفويض' : 'Authorise'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* New order */}
+                <div className={`p-4 mb-4 rounded-2xl border space-y-3 ${darkMode ? 'border-gray-800' : 'border-gray-100'}`}>
+                    <div className="flex gap-2">
+                        {(Object.keys(KIND_LABELS) as SwapOrderKind[]).map((k: SwapOrderKind) => (
+                            <button key={k} onClick={() => setKind(k)} className={pillClass(kind === k)}>
+                                {language === 'ar' ? KIND_LABELS[k].ar : KIND_LABELS[k].en}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <select value={fromToken} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFromToken(e.target.value)} className={fieldClass}>
+                            {symbols.map((symbol: string) => <option key={symbol} value={symbol}>{symbol}</option>)}
+                        </select>
+                        <select value={toToken} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setToToken(e.target.value)} className={fieldClass}>
+                            {symbols.map((symbol: string) => <option key={symbol} value={symbol}>{symbol}</option>)}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>
+                            {kind === 'dca'
+                                ? (language === 'ar' ? `المبلغ لكل تبديل (${fromToken})` : `Amount per swap (${fromToken})`)
+                                : (language === 'ar' ? `المبلغ (${fromToken})` : `Amount (${fromToken})`)}
+                        </label>
+                        <input type="number" value={amount} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)} placeholder="0.0" className={fieldClass} />
+                    </div>
+
+                    {kind === 'limit' && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className={labelClass}>{language === 'ar' ? `السعر (${toToken} لكل ${fromToken})` : `Rate (${toToken} per ${fromToken})`}</label>
+                                <input type="number" value={targetRate} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTargetRate(e.target.value)} className={fieldClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>{language === 'ar' ? 'ينتهي بعد (ساعات)' : 'Expires in (hours)'}</label>
+                                <input type="number" value={expiresInHours} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExpiresInHours(e.target.value)} placeholder="∞" className={fieldClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {kind === 'dca' && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className={labelClass}>{language === 'ar' ? 'كل (ساعات)' : 'Every (hours)'}</label>
+                                <input type="number" value={intervalHours} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIntervalHours(e.target.value)} className={fieldClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>{language === 'ar' ? 'عدد التبديلات' : 'Number of swaps'}</label>
+                                <input type="number" value={runs} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRuns(e.target.value)} placeholder="∞" className={fieldClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {kind === 'twap' && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className={labelClass}>{language === 'ar' ? 'المدة (ساعات)' : 'Over (hours)'}</label>
+                                <input type="number" value={durationHours} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDurationHours(e.target.value)} className={fieldClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>{language === 'ar' ? 'عدد الأجزاء' : 'Slices'}</label>
+                                <input type="number" value={slices} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSlices(e.target.value)} className={fieldClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+
+                    <button
+                        onClick={handlePlace}
+                        disabled={!amount}
+                        className="w-full py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+                    >
+                        {language === 'ar' ? 'إنشاء الأمر' : 'Place order'}
+                    </button>
+                </div>
+
+                {/* Orders */}
+                <div className="flex gap-2 mb-3">
+                    {(['open', 'filled', 'cancelled'] as OrderTab[]).map((t: OrderTab) => (
+                        <button key={t} onClick={() => setTab(t)} className={pillClass(tab === t)}>
+                            {language === 'ar'
+                                ? { open: 'مفتوحة', filled: 'منفذة', cancelled: 'ملغاة' }[t]
+                                : { open: 'Open', filled: 'Filled', cancelled: 'Cancelled' }[t]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="space-y-2">
+                    {listed.map((order: SwapOrder) => {
+                        const Icon = order.kind === 'limit' ? Target : order.kind === 'dca' ? Repeat : SplitSquareHorizontal;
+                        return (
+                            <div key={order.id} className={`p-4 rounded-2xl border ${darkMode ? 'bg-gray-900 border-gray-800' : 'bg-white border-gray-100'}`}>
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="flex items-start gap-3">
+                                        <div className={`w-9 h-9 rounded-full flex items-center justify-center shrink-0 ${darkMode ? 'bg-blue-950 text-blue-400' : 'bg-blue-100 text-blue-600'}`}>
+                                            <Icon size={16} />
+                                        </div>
+                                        <div>
+                                            <p className={`font-semibold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                                {language === 'ar' ? KIND_LABELS[order.kind as SwapOrderKind].ar : KIND_LABELS[order.kind as SwapOrderKind].en}
+                                                {order.runs ? ` · ${order.fills.length}/${order.runs}` : order.kind === 'dca' ? ` · ${order.fills.length}` : ''}
+                                            </p>
+                                            <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>{describeOrder(order, language)}</p>
+                                            {(order.status === 'open' || order.pending) && (
+                                                <p className={`text-xs flex items-center gap-1 mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                                                    <Clock size={12} />
+                                                    {order.pending
+                                                        ? (language === 'ar' ? 'بانتظار تأكيد المبادلة...' : 'Confirming swap...')
+                                                        : <>{language === 'ar' ? 'التالي:' : 'Next:'} {formatTime(order.nextRunAt)}</>}
+                                                </p>
+                                            )}
+                                            {order.fills.length > 0 && (
+                                                <p className={`text-xs mt-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                                                    {language === 'ar' ? 'آخر تنفيذ:' : 'Last fill:'} {order.fills[order.fills.length - 1].outputAmount} {order.toToken} · {order.fills[order.fills.length - 1].provider}
+                                                </p>
+                                            )}
+                                            {order.error && <p className="text-xs text-red-500 mt-1">{order.error}</p>}
+                                        </div>
+                                    </div>
+                                    {order.status === 'open' && (
+                                        <button onClick={() => onCancel(order.id)} className={`text-xs font-semibold shrink-0 ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
+                                            {language === 'ar' ? 'إلغاء' : 'Cancel'}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {listed.length === 0 && (
+                    <p className={`text-center text-sm py-8 ${darkMode ? 'text-gray-600' : 'text-gray-400'}`}>
+                        {language === 'ar' ? 'لا توجد أوامر' : 'No orders'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, TriangleAlert, Trash2, Plus } from 'lucide-react';
+import type { TokenInfo } from '../services/SwapService';
+import { sameTokenAddress } from '../services/TokenRegistry';
+import type { RegistryToken } from '../services/TokenRegistry';
+
+const TON_ICON = 'https://raw.githubusercontent.com/trustwallet/assets/master/blockchains/ton/info/logo.png';
+
+interface ImportTokenModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    tokens: RegistryToken[];
+    onValidate: (masterAddress: string) => Promise<RegistryToken>;
+    onImport: (masterAddress: string) => Promise<RegistryToken>;
+    onRemove: (masterAddress: string) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+/**
+ * Home list row (balance) of a registry token, matched by master address
+ */
+export function findHeldToken(tokens: any[], token: TokenInfo): any | undefined {
+    if (token.address === 'native') {
+        return tokens.find((t: any) => t.symbol === 'TON');
+    }
+    return tokens.find((t: any) => t.masterAddress && sameTokenAddress(t.masterAddress, token.address));
+}
+
+/**
+ * Marks a token the indexer has not verified
+ */
+export function UnverifiedBadge({ language }: { language: string }) {
+    return (
+        <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-semibold bg-amber-500/10 text-amber-500">
+            <TriangleAlert size={10} />
+            {language === 'ar' ? 'غير موثّق' : 'Unverified'}
+        </span>
+    );
+}
+
+// Import Token Modal - add a jetton by its master address, validated from chain
+export function ImportTokenModal({ isOpen, onClose, tokens, onValidate, onImport, onRemove, darkMode, language }: ImportTokenModalProps) {
+    const [address, setAddress] = useState('');
+    const [candidate, setCandidate] = useState<RegistryToken | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setAddress('');
+        setCandidate(null);
+        setError('');
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const fieldClass = `w-full p-3 rounded-xl border font-mono text-sm ${darkMode ? 'bg-gray-800 border-gray-700 text-white' : 'bg-gray-50 border-gray-200'}`;
+    const mutedClass = 'text-gray-500';
+    const imported = tokens.filter((token: RegistryToken) => token.source === 'imported');
+
+    const handleCheck = () => {
+        setError('');
+        setCandidate(null);
+        setIsLoading(true);
+        onValidate(address.trim())
+            .then(setCandidate)
+            .catch((e: any) => setError(e.message || 'Not a jetton master'))
+            .finally(() => setIsLoading(false));
+    };
+
+    const handleImport = () => {
+        if (!candidate) return;
+        setError('');
+        setIsLoading(true);
+        onImport(candidate.address)
+            .then(() => {
+                setAddress('');
+                setCandidate(null);
+            })
+            .catch((e: any) => setError(e.message || 'Import failed'))
+            .finally(() => setIsLoading(false));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end justify-center z-50 pointer-events-auto" onClick={onClose}>
+            <div className={`w-full max-w-md ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl p-6 max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'إضافة توكن' : 'Import token'}
+                    </h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="space-y-3">
+                    <input
+                        value={address}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => { setAddress(e.target.value); setCandidate(null); }}
+                        placeholder={language === 'ar' ? 'عنوان عقد التوكن' : 'Jetton master address'}
+                        className={fieldClass}
+                    />
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+
+                    {candidate && (
+                        <div className={`p-3 rounded-xl text-sm space-y-2 ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                            <div className="flex items-center gap-3">
+                                <img src={candidate.icon || TON_ICON} alt={candidate.symbol} className="w-8 h-8 rounded-full" />
+                                <div>
+                                    <p className={`font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>{candidate.name}</p>
+                                    <p className={`text-xs ${mutedClass}`}>{candidate.symbol} · {candidate.decimals} {language === 'ar' ? 'منازل عشرية' : 'decimals'}</p>
+                                </div>
+                                {!candidate.verified && <span className="ml-auto"><UnverifiedBadge language={language} /></span>}
+                            </div>
+                            {!candidate.verified && (
+                                <p className={`text-xs ${mutedClass}`}>
+                                    {language === 'ar'
+                                        ? 'أي شخص يمكنه إنشاء توكن بأي اسم. تأكد من العنوان قبل الإضافة.'
+                                        : 'Anyone can create a token with any name. Make sure the address is the one you expect.'}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    <button
+                        onClick={candidate ? handleImport : handleCheck}
+                        disabled={isLoading || !address.trim()}
+                        className="w-full py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        {isLoading ? <Loader2 size={18} className="animate-spin" /> : candidate ? <Plus size={18} /> : null}
+                        {candidate
+                            ? (language === 'ar' ? 'إضافة' : 'Import')
+                            : (language === 'ar' ? 'تحقق' : 'Check')}
+                    </button>
+                </div>
+
+                {imported.length > 0 && (
+                    <div className="mt-6 space-y-2">
+                        <p className={`text-xs font-bold uppercase ${mutedClass}`}>{language === 'ar' ? 'التوكنات المضافة' : 'Imported tokens'}</p>
+                        {imported.map((token: RegistryToken) => (
+                            <div key={token.address} className={`p-3 rounded-xl flex items-center gap-3 ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                                <img src={token.icon || TON_ICON} alt={token.symbol} className="w-6 h-6 rounded-full" />
+                                <div className="min-w-0">
+                                    <p className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>{token.symbol}</p>
+                                    <p className={`text-xs truncate ${mutedClass}`}>{token.address}</p>
+                                </div>
+                                <button
+                                    onClick={() => onRemove(token.address)}
+                                    className={`ml-auto p-2 rounded-full ${darkMode ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-500'}`}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
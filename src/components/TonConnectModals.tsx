@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { X, Link2, Unplug, Loader2, TriangleAlert } from 'lucide-react';
+import type { ConnectedDApp, DAppManifest, ParsedConnectLink, PendingRequest } from '../tonconnect';
+
+/**
+ * What the user is asked to approve
+ */
+export type TonConnectApproval =
+    | { kind: 'connect'; link: ParsedConnectLink; manifest: DAppManifest }
+    | { kind: 'request'; request: PendingRequest };
+
+interface TonConnectApprovalModalProps {
+    approval: TonConnectApproval | null;
+    onApprove: () => void;
+    onReject: () => void;
+    darkMode: boolean;
+    language: string;
+}
+
+interface ConnectedAppsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    connections: ConnectedDApp[];
+    onConnect: (link: string) => Promise<void>;
+    onDisconnect: (clientId: string) => void;
+    darkMode: boolean;
+    language: string;
+}
+
+const formatNano = (amount: string) => {
+    const value = BigInt(amount);
+    const whole = value / 1_000_000_000n;
+    const fraction = (value % 1_000_000_000n).toString().padStart(9, '0').replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole.toString();
+};
+
+const shortAddress = (address: string) => address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-6)}` : address;
+
+// TON Connect Approval Modal - password confirmation happens in PasswordPromptModal after approve
+export function TonConnectApprovalModal({ approval, onApprove, onReject, darkMode, language }: TonConnectApprovalModalProps) {
+    if (!approval) return null;
+
+    const manifest = approval.kind === 'connect' ? approval.manifest : approval.request.connection.manifest;
+    const request = approval.kind === 'request' ? approval.request : null;
+
+    let title: string;
+    if (approval.kind === 'connect') {
+        title = language === 'ar' ? 'طلب اتصال' : 'Connect Request';
+    } else if (request?.method === 'sendTransaction') {
+        title = language === 'ar' ? 'تأكيد المعاملة' : 'Confirm Transaction';
+    } else {
+        title = language === 'ar' ? 'طلب توقيع' : 'Signature Request';
+    }
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4" onClick={onReject}>
+            <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl sm:rounded-3xl p-6 animate-slide-up sm:animate-scale-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{title}</h3>
+                    <button onClick={onReject} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex items-center gap-3 mb-6">
+                    {manifest.iconUrl ? (
+                        <img src={manifest.iconUrl} alt={manifest.name} className="w-12 h-12 rounded-xl" />
+                    ) : (
+                        <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${darkMode ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                            <Link2 size={24} className="text-blue-500" />
+                        </div>
+                    )}
+                    <div className="min-w-0">
+                        <p className={`font-bold truncate ${darkMode ? 'text-white' : 'text-gray-800'}`}>{manifest.name}</p>
+                        <p className={`text-xs truncate ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{manifest.url}</p>
+                    </div>
+                </div>
+
+                <div className={`rounded-xl p-4 mb-6 space-y-2 text-sm ${darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-700'}`}>
+                    {approval.kind === 'connect' && (
+                        <>
+                            <p>{language === 'ar' ? 'سيتمكن التطبيق من رؤية عنوان محفظتك وطلب المعاملات.' : 'The app will see your wallet address and can request transactions.'}</p>
+                            {approval.link.request.items.some(item => item.name === 'ton_proof') && (
+                                <p className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
+                                    {language === 'ar' ? 'يطلب التطبيق إثبات ملكية المحفظة.' : 'The app also asks for proof of wallet ownership.'}
+                                </p>
+                            )}
+                        </>
+                    )}
+
+                    {request?.method === 'sendTransaction' && request.params.messages.map((message, index) => (
+                        <div key={index} className="flex justify-between gap-2">
+                            <span className="font-mono">{shortAddress(message.address)}</span>
+                            <span className="font-bold">{formatNano(message.amount)} TON</span>
+                        </div>
+                    ))}
+                    {request?.method === 'sendTransaction' && request.params.messages.some(m => m.payload || m.stateInit) && (
+                        <p className="flex items-center gap-2 text-yellow-600 text-xs">
+                            <TriangleAlert size={14} />
+                            {language === 'ar' ? 'تحتوي المعاملة على بيانات عقد ذكي.' : 'This transaction carries smart contract payload.'}
+                        </p>
+                    )}
+
+                    {request?.method === 'signData' && (
+                        <p className="break-all font-mono text-xs">
+                            {request.params.type === 'text'
+                                ? request.params.text
+                                : request.params.type === 'binary'
+                                    ? request.params.bytes
+                                    : request.params.cell}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={onReject}
+                        className={`flex-1 py-3 rounded-xl font-bold ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'} transition`}
+                    >
+                        {language === 'ar' ? 'رفض' : 'Reject'}
+                    </button>
+                    <button
+                        onClick={onApprove}
+                        className="flex-1 py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-700 transition"
+                    >
+                        {approval.kind === 'connect'
+                            ? (language === 'ar' ? 'اتصال' : 'Connect')
+                            : (language === 'ar' ? 'موافقة' : 'Approve')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// Connected Apps Modal - paste a TON Connect link and manage connected dApps
+export function ConnectedAppsModal({ isOpen, onClose, connections, onConnect, onDisconnect, darkMode, language }: ConnectedAppsModalProps) {
+    const [link, setLink] = useState('');
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    if (!isOpen) return null;
+
+    const handleConnect = async () => {
+        setError('');
+        setIsLoading(true);
+        try {
+            await onConnect(link.trim());
+            setLink('');
+        } catch (e: any) {
+            setError(e.message || 'Invalid link');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-t-3xl sm:rounded-3xl p-6 animate-slide-up sm:animate-scale-up`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {language === 'ar' ? 'التطبيقات المتصلة' : 'Connected Apps'}
+                    </h3>
+                    <button onClick={onClose} className={`p-2 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="space-y-2 mb-4">
+                    <input
+                        value={link}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLink(e.target.value)}
+                        placeholder={language === 'ar' ? 'الصق رابط tc:// أو رابط TON Connect' : 'Paste tc:// or TON Connect link'}
+                        className={`w-full p-3 rounded-xl text-sm ${darkMode ? 'bg-gray-800 text-white border-gray-700' : 'bg-gray-50 text-gray-900 border-gray-200'} border focus:ring-2 focus:ring-blue-500 outline-none`}
+                    />
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+                    <button
+                        onClick={handleConnect}
+                        disabled={!link.trim() || isLoading}
+                        className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition flex justify-center disabled:opacity-50"
+                    >
+                        {isLoading ? <Loader2 className="animate-spin" /> : (language === 'ar' ? 'اتصال' : 'Connect')}
+                    </button>
+                </div>
+
+                <div className="space-y-3 max-h-[50vh] overflow-y-auto no-scrollbar">
+                    {connections.length === 0 && (
+                        <p className={`text-center text-sm py-6 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                            {language === 'ar' ? 'لا توجد تطبيقات متصلة' : 'No connected apps'}
+                        </p>
+                    )}
+                    {connections.map(connection => (
+                        <div key={connection.clientId} className={`p-4 rounded-xl border flex items-center gap-3 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-100 shadow-sm'}`}>
+                            {connection.manifest.iconUrl ? (
+                                <img src={connection.manifest.iconUrl} alt={connection.manifest.name} className="w-10 h-10 rounded-lg" />
+                            ) : (
+                                <Link2 size={20} className="text-blue-500" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <p className={`font-bold truncate ${darkMode ? 'text-white' : 'text-gray-800'}`}>{connection.manifest.name}</p>
+                                <p className={`text-xs truncate ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{connection.manifest.url}</p>
+                            </div>
+                            <button
+                                onClick={() => onDisconnect(connection.clientId)}
+                                className={`p-2 rounded-lg ${darkMode ? 'hover:bg-red-900/30 text-red-400' : 'hover:bg-red-50 text-red-500'}`}
+                                title={language === 'ar' ? 'قطع الاتصال' : 'Disconnect'}
+                            >
+                                <Unplug size={16} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
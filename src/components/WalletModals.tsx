@@ -1,5 +1,18 @@
 import React, { useState } from 'react';
-import { X, Copy, ExternalLink, ArrowDownToLine, Send, Check, Eye, EyeOff, Loader2, Share2, Wallet, TriangleAlert, ChevronRight, RefreshCw } from 'lucide-react';
+import { X, Copy, ExternalLink, ArrowDownToLine, Send, Check, Eye, EyeOff, Loader2, Share2, Wallet, TriangleAlert, ChevronRight, RefreshCw, ScanLine, Link } from 'lucide-react';
+import QRCode from 'qrcode';
+import { Address, fromNano } from '@ton/core';
+import { getStatusLabel, getStatusColor, getCounterpartyContact } from './ActivityTab';
+import type { DnsResolution, EmulationResult, GaslessQuote } from '../types';
+import { isDnsDomain } from '../wallets/dns';
+import type { SwapLeg } from '../services/SwapService';
+import type { RegistryToken } from '../services/TokenRegistry';
+import { findHeldToken, UnverifiedBadge } from './TokenModals';
+import { QrCamera } from './OfflineSigningModals';
+import { sameTokenAddress } from '../services/TokenRegistry';
+import { buildTransferLink, buildUniversalTransferLink, formatTransferAmount, getTransferComment, isTransferLink, parseTransferAmount, parseTransferLink } from '../services/TransferLink';
+import { findContact } from '../services/AddressBook';
+import type { Contact, RecipientCheck, RecipientWarning } from '../services/AddressBook';
 
 interface BaseModalProps {
     isOpen: boolean;
@@ -12,6 +25,7 @@ interface ReceiveModalProps extends BaseModalProps {
     walletAddress: string;
     handleCopy: () => void;
     copied: boolean;
+    tokens?: any[];
 }
 
 interface PhraseModalProps extends BaseModalProps {
@@ -25,6 +39,7 @@ interface TransactionModalProps {
     onClose: () => void;
     darkMode: boolean;
     language: string;
+    contacts?: Contact[];
 }
 
 interface PasswordPromptModalProps {
@@ -35,6 +50,7 @@ interface PasswordPromptModalProps {
     language: string;
     isLoading?: boolean;
     error?: string;
+    message?: string;   // Replaces the default prompt (e.g. which account signs)
 }
 
 interface SelectWalletTypeModalProps {
@@ -223,7 +239,7 @@ export function SelectWalletTypeModal({ isOpen, onClose, currentType, onSelect,
 }
 
 // Password Prompt Modal
-export function PasswordPromptModal({ isOpen, onClose, onConfirm, darkMode, language, isLoading, error }: PasswordPromptModalProps) {
+export function PasswordPromptModal({ isOpen, onClose, onConfirm, darkMode, language, isLoading, error, message }: PasswordPromptModalProps) {
     const [password, setPassword] = useState('');
     const [showPassword, setShowPassword] = useState(false);
 
@@ -248,7 +264,7 @@ export function PasswordPromptModal({ isOpen, onClose, onConfirm, darkMode, lang
                 </div>
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                        {language === 'ar' ? 'يرجى إدخال كلمة المرور لتأكيد المعاملة.' : 'Please enter your password to confirm transaction.'}
+                        {message || (language === 'ar' ? 'يرجى إدخال كلمة المرور لتأكيد المعاملة.' : 'Please enter your password to confirm transaction.')}
                     </p>
                     <div className="relative">
                         <input
@@ -273,43 +289,296 @@ export function PasswordPromptModal({ isOpen, onClose, onConfirm, darkMode, lang
     );
 }
 
+// Emulation Preview - fee, message outcomes and jetton changes on confirm steps
+interface EmulationPreviewProps {
+    preview: EmulationResult | null;
+    isLoading: boolean;
+    error: string;
+    darkMode: boolean;
+    language: string;
+}
+
+const formatUnits = (amount: bigint, decimals: number) => {
+    const negative = amount < 0n;
+    const value = negative ? -amount : amount;
+    const divisor = 10n ** BigInt(decimals);
+    const fraction = (value % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return `${negative ? '-' : '+'}${value / divisor}${fraction ? `.${fraction}` : ''}`;
+};
+
+export function EmulationPreview({ preview, isLoading, error, darkMode, language }: EmulationPreviewProps) {
+    const muted = darkMode ? 'text-gray-500' : 'text-gray-400';
+    const text = darkMode ? 'text-gray-300' : 'text-gray-700';
+
+    if (isLoading) {
+        return (
+            <div className={`flex items-center justify-center gap-2 py-2 text-xs ${muted}`}>
+                <Loader2 size={14} className="animate-spin" />
+                {language === 'ar' ? 'جارٍ محاكاة المعاملة...' : 'Simulating transaction...'}
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className={`p-3 rounded-xl text-xs ${darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700'}`}>
+                {language === 'ar' ? 'المعاينة غير متاحة: ' : 'Preview unavailable: '}{error}
+            </div>
+        );
+    }
+
+    if (!preview) return null;
+
+    return (
+        <div className="space-y-2">
+            {preview.messages.map((message, i) => (
+                <div key={i} className="flex justify-between items-center text-xs">
+                    <span className={`font-mono truncate max-w-[140px] ${muted}`}>{message.destination}</span>
+                    <span className={message.success ? 'text-green-500' : 'text-red-500'}>
+                        {message.success
+                            ? (language === 'ar' ? 'ناجحة' : 'OK')
+                            : `${message.bounced ? (language === 'ar' ? 'مرتدة' : 'Bounced') : (language === 'ar' ? 'فشلت' : 'Failed')} (${message.computeExitCode ?? '-'} / ${message.actionResultCode ?? '-'})`}
+                    </span>
+                </div>
+            ))}
+
+            {preview.jettonDeltas.map((delta, i) => (
+                <div key={`jetton-${i}`} className="flex justify-between items-center text-xs">
+                    <span className={muted}>{delta.jetton.symbol}</span>
+                    <span className={`font-medium ${delta.amount < 0n ? 'text-red-500' : 'text-green-500'}`}>
+                        {formatUnits(delta.amount, delta.jetton.decimals)} {delta.jetton.symbol}
+                    </span>
+                </div>
+            ))}
+
+            {!preview.success && (
+                <div className={`p-3 rounded-xl text-xs ${darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-600'}`}>
+                    {preview.bounced
+                        ? (language === 'ar' ? 'ستُرتد هذه المعاملة: ' : 'This transaction will bounce: ')
+                        : (language === 'ar' ? 'ستفشل هذه المعاملة: ' : 'This transaction will fail: ')}
+                    {preview.error}
+                </div>
+            )}
+
+            {preview.success && preview.messages.length === 0 && preview.jettonDeltas.length === 0 && (
+                <p className={`text-xs ${text}`}>{language === 'ar' ? 'لا توجد رسائل صادرة' : 'No outgoing messages'}</p>
+            )}
+        </div>
+    );
+}
+
 interface SendModalProps extends BaseModalProps {
-    onSend: (address: string, amount: string, comment?: string, token?: any) => void;
+    onSend: (address: string, amount: string, comment?: string, token?: any, gaslessQuote?: GaslessQuote) => void;
+    onPreview?: (address: string, amount: string, comment?: string, token?: any) => Promise<EmulationResult>;
+    onGaslessQuote?: (address: string, amount: string, comment?: string, token?: any) => Promise<GaslessQuote>;
+    onResolveDomain?: (domain: string) => Promise<DnsResolution>;
+    onCheckRecipient?: (address: string) => Promise<RecipientCheck>;
     tokens?: any[];
+    contacts?: Contact[];
     walletAddress?: string;
+    tonBalance?: string;
 }
 
+// Contacts suggested under the address field
+const MAX_CONTACT_SUGGESTIONS = 5;
+
+// TON attached to a jetton transfer for the jetton wallet's gas
+const JETTON_TRANSFER_TON = 0.05;
+
+const isUsdtToken = (token: any) =>
+    token?.symbol === 'USDT' || token?.symbol === 'USD₮' || token?.symbol?.toLowerCase() === 'usdt';
+
 // Send Modal
-export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens = [], walletAddress }: SendModalProps) {
+export function SendModal({ isOpen, onClose, darkMode, language, onSend, onPreview, onGaslessQuote, onResolveDomain, onCheckRecipient, tokens = [], contacts = [], walletAddress, tonBalance }: SendModalProps) {
     const [step, setStep] = useState(1);
     const [address, setAddress] = useState('');
     const [comment, setComment] = useState('');
     const [amount, setAmount] = useState('');
     const [selectedAsset, setSelectedAsset] = useState<any>(null); // null = TON
     const [addressError, setAddressError] = useState('');
+    const [preview, setPreview] = useState<EmulationResult | null>(null);
+    const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+    const [previewError, setPreviewError] = useState('');
+    const [payFeeInToken, setPayFeeInToken] = useState(false);
+    const [gaslessQuote, setGaslessQuote] = useState<GaslessQuote | null>(null);
+    const [isQuoteLoading, setIsQuoteLoading] = useState(false);
+    const [quoteError, setQuoteError] = useState('');
+    const [resolution, setResolution] = useState<DnsResolution | null>(null);
+    const [isResolving, setIsResolving] = useState(false);
+    const [isScanning, setIsScanning] = useState(false);
+    const [linkExpiresAt, setLinkExpiresAt] = useState<number | null>(null);
+    const [recipientCheck, setRecipientCheck] = useState<RecipientCheck | null>(null);
+    const [isCheckingRecipient, setIsCheckingRecipient] = useState(false);
+    const [memoError, setMemoError] = useState('');
+    const [acceptScamRisk, setAcceptScamRisk] = useState(false);
+
+    // A domain is sent to the address it resolved to when the user moved on, not re-resolved later
+    const recipient = resolution?.wallet ?? address;
+
+    // Emulate the exact message on the review step
+    React.useEffect(() => {
+        if (!isOpen || step !== 3 || !onPreview) return;
+        let cancelled = false;
+
+        setPreview(null);
+        setPreviewError('');
+        setIsPreviewLoading(true);
+        onPreview(recipient, amount, comment, selectedAsset)
+            .then((result: EmulationResult) => { if (!cancelled) setPreview(result); })
+            .catch((err: any) => { if (!cancelled) setPreviewError(err?.message || 'Emulation failed'); })
+            .finally(() => { if (!cancelled) setIsPreviewLoading(false); });
+
+        return () => { cancelled = true; };
+    }, [isOpen, step, recipient, amount, comment, selectedAsset]);
+
+    // Offer paying the fee in USDT (W5 gasless) when TON can't cover the transfer
+    const tonNeeded = JETTON_TRANSFER_TON + (preview ? Number(fromNano(preview.totalFee)) : 0.01);
+    const canPayFeeInToken = !!onGaslessQuote && isUsdtToken(selectedAsset)
+        && parseFloat(tonBalance || '0') < tonNeeded;
+
+    // Fetch a relayer quote when paying the fee in USDT
+    React.useEffect(() => {
+        setGaslessQuote(null);
+        setQuoteError('');
+        if (!isOpen || step !== 3 || !payFeeInToken || !canPayFeeInToken || !onGaslessQuote) return;
+        let cancelled = false;
+
+        setIsQuoteLoading(true);
+        onGaslessQuote(recipient, amount, comment, selectedAsset)
+            .then((quote: GaslessQuote) => { if (!cancelled) setGaslessQuote(quote); })
+            .catch((err: any) => { if (!cancelled) setQuoteError(err?.message || 'Relayer unavailable'); })
+            .finally(() => { if (!cancelled) setIsQuoteLoading(false); });
+
+        return () => { cancelled = true; };
+    }, [isOpen, step, payFeeInToken, canPayFeeInToken, recipient, amount, comment, selectedAsset]);
 
-    // Validate TON address (EQ/UQ format, 48 chars, or .ton domain)
+    // Validate TON address (EQ/UQ format, 48 chars, or .ton / .t.me domain)
     const isValidTonAddress = (addr: string): boolean => {
         if (!addr) return false;
-        // .ton domain
-        if (addr.toLowerCase().endsWith('.ton')) return true;
+        // .ton / .t.me domain
+        if (isDnsDomain(addr)) return true;
         // Raw address: starts with EQ or UQ, 48 characters, base64
         const tonAddrRegex = /^(EQ|UQ)[a-zA-Z0-9_-]{46}$/;
         return tonAddrRegex.test(addr);
     };
 
+    // Prefill the form from a pasted or scanned payment link
+    const applyTransferLink = (link: string) => {
+        setIsScanning(false);
+        setResolution(null);
+        try {
+            const request = parseTransferLink(link);
+            setRecipientCheck(null);
+            const linkComment = getTransferComment(request);
+            if (linkComment === null) {
+                throw new Error(language === 'ar' ? 'يحمل هذا الرابط استدعاء عقد لا يمكن إرساله من هنا' : 'This link carries a contract call that cannot be sent from here');
+            }
+
+            const asset = request.jetton
+                ? tokens.find((t: any) => t.masterAddress && sameTokenAddress(t.masterAddress, request.jetton!))
+                : null;
+            if (request.jetton && !asset) {
+                throw new Error(language === 'ar' ? 'لا تملك الرمز الذي يطلبه هذا الرابط' : 'You do not hold the jetton this link asks for');
+            }
+
+            setAddress(request.address);
+            setComment(linkComment);
+            setSelectedAsset(asset);
+            setAmount(request.amount !== undefined ? formatTransferAmount(request.amount, asset ? asset.decimals || 9 : 9) : '');
+            setLinkExpiresAt(request.expiresAt ?? null);
+            setAddressError('');
+        } catch (e: any) {
+            setAddress('');
+            setAddressError(e.message === 'Payment link expired' && language === 'ar' ? 'انتهت صلاحية رابط الدفع' : e.message);
+        }
+    };
+
+    // A scanned code is a payment link or a bare address; anything else keeps the camera on
+    const handleScanned = (text: string) => {
+        if (isTransferLink(text)) {
+            applyTransferLink(text);
+        } else if (Address.isFriendly(text.trim())) {
+            setIsScanning(false);
+            setAddress(text.trim());
+            setResolution(null);
+            setLinkExpiresAt(null);
+            setRecipientCheck(null);
+        }
+    };
+
+    // Fill the recipient from a saved contact, with the asset usually sent to it
+    const applyContact = (contact: Contact) => {
+        setAddress(contact.address);
+        setResolution(null);
+        setLinkExpiresAt(null);
+        setRecipientCheck(null);
+        setAddressError('');
+        setSelectedAsset(contact.defaultJetton
+            ? tokens.find((t: any) => t.masterAddress && sameTokenAddress(t.masterAddress, contact.defaultJetton!)) ?? null
+            : null);
+    };
+
+    const typedContact = findContact(contacts, address) ?? null;
+    const query = address.trim().toLowerCase();
+    const contactSuggestions = query && !typedContact
+        ? contacts
+            .filter((c: Contact) => c.label.toLowerCase().includes(query) || c.address.toLowerCase().includes(query))
+            .slice(0, MAX_CONTACT_SUGGESTIONS)
+        : [];
+    const isFlaggedScam = !!recipientCheck?.warnings.some((w: RecipientWarning) => w.kind === 'scam');
+
     if (!isOpen) return null;
 
     // Reset on close... ideally in useEffect or wrapper
     // simplifying for now
 
-    const handleNext = () => {
+    const handleNext = async () => {
         if (step === 1) {
             if (!isValidTonAddress(address)) {
                 setAddressError(language === 'ar' ? 'عنوان غير صالح' : 'Invalid TON address');
                 return;
             }
             setAddressError('');
+            setMemoError('');
+
+            // Show what a domain resolves to before anything is sent
+            if (isDnsDomain(address) && onResolveDomain && !resolution) {
+                setIsResolving(true);
+                try {
+                    const resolved = await onResolveDomain(address);
+                    if (!resolved.wallet) {
+                        setAddressError(language === 'ar' ? 'لا يشير هذا النطاق إلى محفظة' : 'This domain does not point to a wallet');
+                        return;
+                    }
+                    setResolution(resolved);
+                } catch (e: any) {
+                    setAddressError(e.message || 'Could not resolve domain');
+                } finally {
+                    setIsResolving(false);
+                }
+                return;
+            }
+
+            // Recognise the recipient from the address book, and stop exchanges without their memo
+            if (onCheckRecipient) {
+                setIsCheckingRecipient(true);
+                try {
+                    const check = await onCheckRecipient(recipient);
+                    setRecipientCheck(check);
+                    setAcceptScamRisk(false);
+                    if (check.memoRequired && !comment.trim()) {
+                        setMemoError(language === 'ar'
+                            ? `يتطلب ${check.contact!.label} مذكرة؛ أضفها كتعليق`
+                            : `${check.contact!.label} requires a memo; add it as the comment`);
+                        return;
+                    }
+                } catch (e: any) {
+                    setAddressError(e.message || 'Could not check the recipient');
+                    return;
+                } finally {
+                    setIsCheckingRecipient(false);
+                }
+            }
         }
         setStep(prev => prev + 1);
     };
@@ -352,28 +621,88 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
                                 <label className={`block text-xs font-bold ${darkMode ? 'text-gray-400' : 'text-gray-500'} uppercase mb-2 ml-1`}>
                                     {language === 'ar' ? 'إلى عنوان' : 'To Address'}
                                 </label>
-                                <input
-                                    type="text"
-                                    placeholder={language === 'ar' ? 'العنوان أو النطاق (.ton)...' : 'Address or domain (.ton)...'}
-                                    value={address}
-                                    onChange={(e) => setAddress(e.target.value)}
-                                    className={`w-full p-4 rounded-xl ${darkMode ? 'bg-gray-900 text-white placeholder-gray-600' : 'bg-gray-50 text-gray-900 placeholder-gray-400'} border-none focus:ring-2 focus:ring-blue-500 font-mono text-sm shadow-inner`}
-                                    autoFocus
-                                />
+                                <div className="relative">
+                                    <input
+                                        type="text"
+                                        placeholder={language === 'ar' ? 'العنوان أو النطاق أو رابط الدفع...' : 'Address, domain or payment link...'}
+                                        value={address}
+                                        onChange={(e) => {
+                                            if (isTransferLink(e.target.value)) {
+                                                applyTransferLink(e.target.value);
+                                                return;
+                                            }
+                                            setAddress(e.target.value);
+                                            setResolution(null);
+                                            setLinkExpiresAt(null);
+                                            setRecipientCheck(null);
+                                        }}
+                                        className={`w-full p-4 pr-12 rounded-xl ${darkMode ? 'bg-gray-900 text-white placeholder-gray-600' : 'bg-gray-50 text-gray-900 placeholder-gray-400'} border-none focus:ring-2 focus:ring-blue-500 font-mono text-sm shadow-inner`}
+                                        autoFocus
+                                    />
+                                    <button
+                                        onClick={() => setIsScanning(!isScanning)}
+                                        title={language === 'ar' ? 'مسح رمز QR' : 'Scan QR code'}
+                                        className={`absolute right-3 top-1/2 -translate-y-1/2 p-1.5 rounded-lg ${isScanning ? 'text-blue-500' : (darkMode ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600')}`}
+                                    >
+                                        <ScanLine size={20} />
+                                    </button>
+                                </div>
+                                {contactSuggestions.length > 0 && (
+                                    <div className={`mt-2 rounded-xl overflow-hidden border ${darkMode ? 'border-gray-800' : 'border-gray-100'}`}>
+                                        {contactSuggestions.map((contact: Contact) => (
+                                            <button
+                                                key={contact.id}
+                                                onClick={() => applyContact(contact)}
+                                                className={`w-full text-left px-4 py-2 ${darkMode ? 'hover:bg-gray-900' : 'hover:bg-gray-50'}`}
+                                            >
+                                                <p className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>{contact.label}</p>
+                                                <p className={`font-mono text-xs truncate ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{contact.address}</p>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {typedContact && (
+                                    <p className={`text-xs mt-1 ml-1 font-semibold ${darkMode ? 'text-blue-400' : 'text-blue-600'}`}>
+                                        {typedContact.label}
+                                    </p>
+                                )}
+                                {isScanning && (
+                                    <div className="mt-2">
+                                        <QrCamera onText={handleScanned} darkMode={darkMode} language={language} />
+                                    </div>
+                                )}
                                 {addressError && (
                                     <p className="text-red-500 text-xs mt-1 ml-1">{addressError}</p>
                                 )}
+                                {linkExpiresAt !== null && (
+                                    <p className={`text-xs mt-1 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                                        {language === 'ar' ? 'رابط الدفع صالح حتى' : 'Payment link valid until'} {new Date(linkExpiresAt * 1000).toLocaleString()}
+                                    </p>
+                                )}
+                                {resolution?.wallet && (
+                                    <div className={`mt-2 p-3 rounded-xl text-xs ${darkMode ? 'bg-blue-500/10 text-blue-300' : 'bg-blue-50 text-blue-700'}`}>
+                                        <p className="font-semibold mb-1">
+                                            {resolution.domain} {language === 'ar' ? 'يشير إلى' : 'resolves to'}
+                                        </p>
+                                        <p className="font-mono break-all">{resolution.wallet}</p>
+                                    </div>
+                                )}
                             </div>
                             <div>
                                 <label className={`block text-xs font-bold ${darkMode ? 'text-gray-400' : 'text-gray-500'} uppercase mb-2 ml-1`}>
-                                    {language === 'ar' ? 'تعليق (اختياري)' : 'Comment (Optional)'}
+                                    {typedContact?.requiresMemo
+                                        ? (language === 'ar' ? 'مذكرة (مطلوبة)' : 'Memo (Required)')
+                                        : (language === 'ar' ? 'تعليق (اختياري)' : 'Comment (Optional)')}
                                 </label>
                                 <textarea
                                     value={comment}
-                                    onChange={(e) => setComment(e.target.value)}
+                                    onChange={(e) => { setComment(e.target.value); setMemoError(''); }}
                                     placeholder={language === 'ar' ? 'رسالة للمستلم...' : 'Message for recipient...'}
                                     className={`w-full p-4 rounded-xl ${darkMode ? 'bg-gray-900 text-white placeholder-gray-600' : 'bg-gray-50 text-gray-900 placeholder-gray-400'} border-none focus:ring-2 focus:ring-blue-500 font-medium text-sm shadow-inner resize-none h-24`}
                                 />
+                                {memoError && (
+                                    <p className="text-red-500 text-xs mt-1 ml-1">{memoError}</p>
+                                )}
                             </div>
                         </div>
                     )}
@@ -399,7 +728,7 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
                                         </div>
                                         <span className="font-bold text-sm">TON</span>
                                     </button>
-                                    {tokens.map((t, i) => t.symbol !== 'TON' && (
+                                    {tokens.map((t, i) => t.symbol !== 'TON' && !t.imported && (
                                         <button
                                             key={i}
                                             onClick={() => setSelectedAsset(t)}
@@ -416,6 +745,7 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
                                                 )}
                                             </div>
                                             <span className="font-bold text-sm">{t.symbol}</span>
+                                            {t.verified === false && <UnverifiedBadge language={language} />}
                                         </button>
                                     ))}
                                 </div>
@@ -460,12 +790,50 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
                                 </h2>
                             </div>
 
+                            {/* Recipient warnings from the address book and scam list */}
+                            {recipientCheck && recipientCheck.warnings.length > 0 && (
+                                <div className="space-y-2">
+                                    {recipientCheck.warnings.map((warning: RecipientWarning, i: number) => (
+                                        <div
+                                            key={i}
+                                            className={`p-3 rounded-xl flex items-start gap-2 text-xs ${warning.kind === 'new'
+                                                ? (darkMode ? 'bg-yellow-500/10 text-yellow-400' : 'bg-yellow-50 text-yellow-700')
+                                                : (darkMode ? 'bg-red-500/10 text-red-400' : 'bg-red-50 text-red-700')}`}
+                                        >
+                                            <TriangleAlert size={16} className="shrink-0" />
+                                            <span>
+                                                {language === 'ar'
+                                                    ? (warning.kind === 'scam'
+                                                        ? 'تم الإبلاغ عن هذا العنوان كاحتيال'
+                                                        : warning.kind === 'lookalike'
+                                                            ? `يشبه هذا العنوان جهة الاتصال "${warning.contact?.label}" لكنه عنوان مختلف`
+                                                            : 'لم ترسل إلى هذا العنوان من قبل')
+                                                    : warning.message}
+                                            </span>
+                                        </div>
+                                    ))}
+                                    {isFlaggedScam && (
+                                        <label className="flex items-center gap-2 cursor-pointer px-1">
+                                            <input
+                                                type="checkbox"
+                                                checked={acceptScamRisk}
+                                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAcceptScamRisk(e.target.checked)}
+                                                className="w-4 h-4 accent-red-600"
+                                            />
+                                            <span className={`text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                                {language === 'ar' ? 'أفهم المخاطرة وأريد الإرسال' : 'I understand the risk and want to send'}
+                                            </span>
+                                        </label>
+                                    )}
+                                </div>
+                            )}
+
                             <div className={`p-5 rounded-2xl ${darkMode ? 'bg-gray-900 border-gray-800' : 'bg-gray-50 border-gray-100'} border space-y-4`}>
                                 {/* Recipient */}
                                 <div className="flex justify-between items-center py-1">
                                     <span className={`text-sm ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{language === 'ar' ? 'المستلم' : 'Recipient'}</span>
                                     <span className={`font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
-                                        {address.slice(0, 4)}...{address.slice(-4)}
+                                        {recipientCheck?.contact?.label ?? (resolution ? resolution.domain : `${address.slice(0, 4)}...${address.slice(-4)}`)}
                                     </span>
                                 </div>
 
@@ -473,7 +841,7 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
                                 <div className="flex justify-between items-center py-1">
                                     <span className={`text-sm ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{language === 'ar' ? 'العنوان' : 'Recipient address'}</span>
                                     <p className={`font-mono text-xs max-w-[150px] truncate text-right ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                                        {address}
+                                        {recipient}
                                     </p>
                                 </div>
 
@@ -495,12 +863,48 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
                                     <span className={`text-sm ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{language === 'ar' ? 'الرسوم' : 'Fee'}</span>
                                     <div className="text-right">
                                         <span className={`font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                                            0.0055 TON
+                                            {payFeeInToken && canPayFeeInToken
+                                                ? (gaslessQuote
+                                                    ? `${formatUnits(gaslessQuote.commission, selectedAsset?.decimals || 6)} ${currentAsset.symbol}`
+                                                    : (isQuoteLoading ? '…' : '—'))
+                                                : (preview ? `${fromNano(preview.totalFee)} TON` : '≈ 0.0055 TON')}
                                         </span>
-                                        <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>≈ $0.005</p>
                                     </div>
                                 </div>
 
+                                {/* Pay fee in USDT (gasless) */}
+                                {canPayFeeInToken && (
+                                    <div className={`p-3 rounded-xl space-y-2 ${darkMode ? 'bg-yellow-500/10' : 'bg-yellow-50'}`}>
+                                        <p className={`text-xs ${darkMode ? 'text-yellow-400' : 'text-yellow-700'}`}>
+                                            {language === 'ar' ? 'رصيد TON غير كافٍ لدفع الرسوم' : 'Not enough TON to pay the network fee'}
+                                        </p>
+                                        <label className="flex items-center justify-between gap-2 cursor-pointer">
+                                            <span className={`text-sm font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                                {language === 'ar' ? `ادفع الرسوم بـ ${currentAsset.symbol}` : `Pay fee in ${currentAsset.symbol}`}
+                                            </span>
+                                            <input
+                                                type="checkbox"
+                                                checked={payFeeInToken}
+                                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPayFeeInToken(e.target.checked)}
+                                                className="w-4 h-4 accent-blue-600"
+                                            />
+                                        </label>
+                                        {payFeeInToken && quoteError && (
+                                            <p className="text-xs text-red-500">{quoteError}</p>
+                                        )}
+                                    </div>
+                                )}
+
+                                {onPreview && (
+                                    <EmulationPreview
+                                        preview={preview}
+                                        isLoading={isPreviewLoading}
+                                        error={previewError}
+                                        darkMode={darkMode}
+                                        language={language}
+                                    />
+                                )}
+
                                 {comment && (
                                     <>
                                         <div className={`h-px w-full ${darkMode ? 'bg-gray-800' : 'bg-gray-200'} my-2`}></div>
@@ -521,15 +925,27 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
                         {step < 3 ? (
                             <button
                                 onClick={handleNext}
-                                disabled={(!address || address.length < 3) && step === 1 || !amount && step === 2}
+                                disabled={(!address || address.length < 3 || isResolving || isCheckingRecipient) && step === 1 || !amount && step === 2}
                                 className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-blue-500/30"
                             >
-                                {language === 'ar' ? 'متابعة' : 'Continue'}
+                                {isResolving
+                                    ? (language === 'ar' ? 'جارٍ التحقق من النطاق...' : 'Resolving domain...')
+                                    : isCheckingRecipient
+                                        ? (language === 'ar' ? 'جارٍ التحقق من المستلم...' : 'Checking recipient...')
+                                        : (language === 'ar' ? 'متابعة' : 'Continue')}
                             </button>
                         ) : (
                             <button
-                                onClick={() => onSend(address, amount, comment, selectedAsset)}
-                                className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold hover:bg-blue-700 transition shadow-lg shadow-blue-500/30 flex items-center justify-center gap-2"
+                                onClick={() => {
+                                    if (linkExpiresAt !== null && linkExpiresAt * 1000 <= Date.now()) {
+                                        setAddressError(language === 'ar' ? 'انتهت صلاحية رابط الدفع' : 'Payment link expired');
+                                        setStep(1);
+                                        return;
+                                    }
+                                    onSend(recipient, amount, comment, selectedAsset, payFeeInToken && canPayFeeInToken && gaslessQuote ? gaslessQuote : undefined);
+                                }}
+                                disabled={payFeeInToken && canPayFeeInToken && !gaslessQuote || isFlaggedScam && !acceptScamRisk}
+                                className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-blue-500/30 flex items-center justify-center gap-2"
                             >
                                 {language === 'ar' ? 'تأكيد وإرسال' : 'Confirm & Send'}
                                 <Send size={18} />
@@ -545,16 +961,66 @@ export function SendModal({ isOpen, onClose, darkMode, language, onSend, tokens
 
 // Receive Modal
 // Receive Modal
-export function ReceiveModal({ isOpen, onClose, darkMode, language, walletAddress, handleCopy, copied }: ReceiveModalProps) {
+export function ReceiveModal({ isOpen, onClose, darkMode, language, walletAddress, handleCopy, copied, tokens = [] }: ReceiveModalProps) {
+    const [isRequesting, setIsRequesting] = useState(false);
+    const [requestAsset, setRequestAsset] = useState('');   // Jetton master, '' for TON
+    const [requestAmount, setRequestAmount] = useState('');
+    const [requestComment, setRequestComment] = useState('');
+    const [requestExpiry, setRequestExpiry] = useState(0);  // Seconds, 0 = never
+    const [qrImage, setQrImage] = useState('');
+    const [linkCopied, setLinkCopied] = useState(false);
+
+    const requestTokens = tokens.filter((t: any) => t.masterAddress && !t.imported);
+
+    // Payment request the QR code and links carry; the bare address until details are entered
+    const request = React.useMemo(() => {
+        if (!walletAddress) return null;
+        if (!isRequesting) return { request: { address: walletAddress }, error: '' };
+
+        const token = requestTokens.find((t: any) => t.masterAddress === requestAsset);
+        try {
+            return {
+                request: {
+                    address: walletAddress,
+                    amount: requestAmount ? parseTransferAmount(requestAmount, token ? token.decimals || 9 : 9) : undefined,
+                    jetton: token?.masterAddress,
+                    text: requestComment || undefined,
+                    expiresAt: requestExpiry ? Math.floor(Date.now() / 1000) + requestExpiry : undefined,
+                },
+                error: '',
+            };
+        } catch (e: any) {
+            return { request: { address: walletAddress }, error: e.message };
+        }
+    }, [walletAddress, isRequesting, requestAsset, requestAmount, requestComment, requestExpiry, tokens]);
+
+    const transferLink = request ? buildTransferLink(request.request) : '';
+    const universalLink = request ? buildUniversalTransferLink(request.request) : '';
+
+    // QR images are rendered locally
+    React.useEffect(() => {
+        if (!isOpen || !transferLink) return;
+        let cancelled = false;
+        QRCode.toDataURL(transferLink, { errorCorrectionLevel: 'M', margin: 1, width: 500 })
+            .then((url: string) => { if (!cancelled) setQrImage(url); })
+            .catch((err: any) => console.error('QR code failed:', err));
+        return () => { cancelled = true; };
+    }, [isOpen, transferLink]);
+
     if (!isOpen) return null;
 
+    const handleCopyLink = () => {
+        navigator.clipboard.writeText(universalLink);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+    };
+
     const handleShare = async () => {
         if (navigator.share) {
             try {
-                await navigator.share({
-                    title: 'My TON Wallet Address',
-                    text: walletAddress,
-                });
+                await navigator.share(isRequesting
+                    ? { title: 'TON Payment Request', url: universalLink }
+                    : { title: 'My TON Wallet Address', text: walletAddress });
             } catch (err) {
                 console.error('Share failed:', err);
             }
@@ -565,7 +1031,7 @@ export function ReceiveModal({ isOpen, onClose, darkMode, language, walletAddres
 
     return (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
-            <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-950' : 'bg-white'} rounded-[32px] p-6 animate-scale-up shadow-2xl`} onClick={(e) => e.stopPropagation()}>
+            <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-950' : 'bg-white'} rounded-[32px] p-6 animate-scale-up shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar`} onClick={(e) => e.stopPropagation()}>
                 {/* Header */}
                 <div className="flex justify-between items-center mb-8">
                     <div className="flex items-center gap-3">
@@ -596,11 +1062,15 @@ export function ReceiveModal({ isOpen, onClose, darkMode, language, walletAddres
                         <div className={`absolute -inset-1 rounded-[26px] blur opacity-30 group-hover:opacity-50 transition duration-500 ${darkMode ? 'bg-gradient-to-r from-blue-600 to-purple-600' : 'bg-blue-200'}`}></div>
 
                         <div className={`relative w-64 h-64 ${darkMode ? 'bg-white' : 'bg-white'} p-4 rounded-[24px] shadow-sm flex items-center justify-center`}>
-                            <img
-                                src={`https://api.qrserver.com/v1/create-qr-code/?size=250x250&data=${walletAddress}`}
-                                alt="QR Code"
-                                className="w-full h-full object-contain rounded-xl"
-                            />
+                            {qrImage ? (
+                                <img
+                                    src={qrImage}
+                                    alt="QR Code"
+                                    className="w-full h-full object-contain rounded-xl"
+                                />
+                            ) : (
+                                <Loader2 size={32} className="animate-spin text-blue-500" />
+                            )}
                             {/* Logo Overlay */}
                             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                                 <div className="w-12 h-12 bg-white rounded-full p-1 shadow-md flex items-center justify-center overflow-hidden">
@@ -621,6 +1091,78 @@ export function ReceiveModal({ isOpen, onClose, darkMode, language, walletAddres
                     </p>
                 </div>
 
+                {/* Payment Request */}
+                <div className={`mb-8 rounded-2xl border ${darkMode ? 'border-gray-800' : 'border-gray-100'}`}>
+                    <button
+                        onClick={() => setIsRequesting(!isRequesting)}
+                        className={`w-full flex items-center justify-between p-4 text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}
+                    >
+                        <span className="flex items-center gap-2">
+                            <Link size={16} />
+                            {language === 'ar' ? 'طلب دفع' : 'Request a payment'}
+                        </span>
+                        <ChevronRight size={16} className={`transition ${isRequesting ? 'rotate-90' : ''}`} />
+                    </button>
+
+                    {isRequesting && (
+                        <div className="px-4 pb-4 space-y-3">
+                            <div className="grid grid-cols-2 gap-2">
+                                <select
+                                    value={requestAsset}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRequestAsset(e.target.value)}
+                                    className={`p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-900 border-gray-800 text-white' : 'bg-gray-50 border-gray-200'}`}
+                                >
+                                    <option value="">TON</option>
+                                    {requestTokens.map((t: any) => (
+                                        <option key={t.masterAddress} value={t.masterAddress}>{t.symbol}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="text"
+                                    inputMode="decimal"
+                                    placeholder={language === 'ar' ? 'المبلغ' : 'Amount'}
+                                    value={requestAmount}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRequestAmount(e.target.value)}
+                                    className={`p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-900 border-gray-800 text-white' : 'bg-gray-50 border-gray-200'}`}
+                                />
+                            </div>
+                            <input
+                                type="text"
+                                placeholder={language === 'ar' ? 'تعليق (مثل رقم الفاتورة)' : 'Comment (e.g. invoice number)'}
+                                value={requestComment}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRequestComment(e.target.value)}
+                                className={`w-full p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-900 border-gray-800 text-white' : 'bg-gray-50 border-gray-200'}`}
+                            />
+                            <select
+                                value={requestExpiry}
+                                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRequestExpiry(Number(e.target.value))}
+                                className={`w-full p-3 rounded-xl border text-sm ${darkMode ? 'bg-gray-900 border-gray-800 text-white' : 'bg-gray-50 border-gray-200'}`}
+                            >
+                                <option value={0}>{language === 'ar' ? 'بدون انتهاء' : 'No expiry'}</option>
+                                <option value={3600}>{language === 'ar' ? 'تنتهي بعد ساعة' : 'Expires in 1 hour'}</option>
+                                <option value={86400}>{language === 'ar' ? 'تنتهي بعد يوم' : 'Expires in 1 day'}</option>
+                                <option value={604800}>{language === 'ar' ? 'تنتهي بعد أسبوع' : 'Expires in 1 week'}</option>
+                            </select>
+                            {request?.error && (
+                                <p className="text-red-500 text-xs">{request.error}</p>
+                            )}
+                            <div className="flex gap-2">
+                                <p className={`flex-1 p-3 rounded-xl text-xs font-mono truncate ${darkMode ? 'bg-gray-900 text-gray-400' : 'bg-gray-50 text-gray-500'}`}>
+                                    {universalLink}
+                                </p>
+                                <button
+                                    onClick={handleCopyLink}
+                                    disabled={!!request?.error}
+                                    title={language === 'ar' ? 'نسخ الرابط' : 'Copy link'}
+                                    className={`px-3 rounded-xl disabled:opacity-50 ${linkCopied ? 'bg-green-600 text-white' : (darkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600')}`}
+                                >
+                                    {linkCopied ? <Check size={16} /> : <Copy size={16} />}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
                 {/* Actions */}
                 <div className="grid grid-cols-2 gap-3">
                     <button
@@ -698,13 +1240,35 @@ export function BuyModal({ isOpen, onClose, darkMode, language, walletAddress }:
     );
 }
 // Swap Modal - Real On-Chain Swap Interface
+/**
+ * One line per route of a routed quote: its share of the input, venues and tokens
+ */
+function formatSwapRoute(route: SwapLeg[]): string[] {
+    const paths: SwapLeg[][] = [];
+    for (const leg of route) {
+        if (leg.stage === 0) paths.push([leg]);
+        else paths[paths.length - 1].push(leg);
+    }
+
+    const total = paths.reduce((sum, path) => sum + parseFloat(path[0].inputAmount), 0);
+    return paths.map(path => {
+        const share = total > 0 ? Math.round(parseFloat(path[0].inputAmount) / total * 100) : 100;
+        const venues = Array.from(new Set(path.map(leg => (leg.provider === 'stonfi' ? 'STON.fi' : 'DeDust')))).join(' + ');
+        const tokens = [path[0].fromToken, ...path.map(leg => leg.toToken)].join(' → ');
+        return `${share}% ${venues}: ${tokens}`;
+    });
+}
+
 interface SwapModalProps extends BaseModalProps {
     walletAddress: string;
     tokens: any[];
+    registryTokens: RegistryToken[];
     onSwapInitiated?: (swapData: any) => void;
+    onPreview?: (provider: 'stonfi' | 'dedust', quote: any) => Promise<EmulationResult>;
+    onOpenOrders?: () => void;
 }
 
-export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress, tokens, onSwapInitiated }: SwapModalProps) {
+export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress, tokens, registryTokens, onSwapInitiated, onPreview, onOpenOrders }: SwapModalProps) {
     const [fromToken, setFromToken] = useState('TON');
     const [toToken, setToToken] = useState('USDT');
     const [amount, setAmount] = useState('');
@@ -714,25 +1278,29 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
     const [isLoadingQuote, setIsLoadingQuote] = useState(false);
     const [quote, setQuote] = useState<any>(null);
     const [error, setError] = useState('');
+    const [isReviewing, setIsReviewing] = useState(false);
+    const [preview, setPreview] = useState<EmulationResult | null>(null);
+    const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+    const [previewError, setPreviewError] = useState('');
 
-    const availableTokens = [
-        { symbol: 'TON', name: 'Toncoin', icon: 'https://raw.githubusercontent.com/trustwallet/assets/master/blockchains/ton/info/logo.png', decimals: 9 },
-        { symbol: 'USDT', name: 'Tether USD', icon: 'https://tether.to/images/logoCircle.png', decimals: 6 },
-        { symbol: 'USDC', name: 'USD Coin', icon: 'https://assets.coingecko.com/coins/images/6319/small/usdc.png', decimals: 6 },
-        { symbol: 'NOT', name: 'Notcoin', icon: 'https://cache.tonapi.io/imgproxy/4KCMNm34jZLXt0rqeFm4rH-BK4FoK76EVX9r0cCIGDg/rs:fill:200:200:1/g:no/aHR0cHM6Ly9jZG4uam9pbmNvbW11bml0eS54eXovbm90L2xvZ28ucG5n.webp', decimals: 9 },
-        { symbol: 'DOGS', name: 'Dogs', icon: 'https://cache.tonapi.io/imgproxy/4K0vW2fG-B3x-Kbp-i_ZC9nQHfO7uP5YJ3r7QoPqhvo/rs:fill:200:200:1/g:no/aHR0cHM6Ly9jZG4uam9pbmNvbW11bml0eS54eXovY2xpY2tlci9kb2dzL2xvZ28ucG5n.webp', decimals: 9 },
-    ];
+    React.useEffect(() => {
+        if (!isOpen) setIsReviewing(false);
+    }, [isOpen]);
+
+    // Bundled, held and imported tokens from the registry
+    const availableTokens = registryTokens;
 
     const dexProviders = [
         { id: 'stonfi' as const, name: 'STON.fi' },
         { id: 'dedust' as const, name: 'DeDust' },
     ];
 
-    const getToken = (symbol: string) => availableTokens.find(t => t.symbol === symbol);
+    const getToken = (symbol: string) => availableTokens.find((t: RegistryToken) => t.symbol === symbol);
 
+    // Balances are matched by master address, as the home list may show another symbol (USD₮)
     const getBalance = (symbol: string) => {
-        const token = tokens.find(t => t.symbol === symbol);
-        return token?.rawBalance || 0;
+        const token = getToken(symbol);
+        return (token && findHeldToken(tokens, token)?.rawBalance) || 0;
     };
 
     const handleSwapTokens = () => {
@@ -779,6 +1347,8 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
                 rate: `1 ${fromToken} ≈ ${rate} ${toToken}`,
                 isEstimate: bestQuote.isEstimate,
                 poolAddress: bestQuote.poolAddress,
+                providerName: bestQuote.providerName,
+                route: bestQuote.route,
                 allQuotes: result.allQuotes, // Store all quotes for comparison
             });
 
@@ -835,7 +1405,8 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
     const [refreshCountdown, setRefreshCountdown] = React.useState(10);
 
     React.useEffect(() => {
-        if (!isOpen || !amount || parseFloat(amount) <= 0) {
+        // Keep the reviewed quote fixed on the confirm step
+        if (!isOpen || isReviewing || !amount || parseFloat(amount) <= 0) {
             setRefreshCountdown(10);
             return;
         }
@@ -861,7 +1432,7 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
             clearInterval(countdownInterval);
             clearInterval(refreshInterval);
         };
-    }, [isOpen, amount, fromToken, toToken, selectedDex]);
+    }, [isOpen, isReviewing, amount, fromToken, toToken, selectedDex]);
 
     // Reset countdown when quote is manually fetched
     const handleManualRefresh = () => {
@@ -887,6 +1458,22 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
             return;
         }
 
+        // Review step: emulate the swap message before asking for the password
+        setIsReviewing(true);
+        setPreview(null);
+        setPreviewError('');
+        if (onPreview) {
+            setIsPreviewLoading(true);
+            onPreview(selectedDex, quote)
+                .then((result: EmulationResult) => setPreview(result))
+                .catch((err: any) => setPreviewError(err?.message || 'Emulation failed'))
+                .finally(() => setIsPreviewLoading(false));
+        }
+    };
+
+    const handleConfirmSwap = () => {
+        setIsReviewing(false);
+
         // Trigger swap - this will open password modal for confirmation
         if (onSwapInitiated) {
             onSwapInitiated({
@@ -908,6 +1495,84 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
     const balance = getBalance(fromToken);
     const hasInsufficientBalance = parseFloat(amount || '0') > balance;
 
+    // Confirm step with the emulated outcome
+    if (isReviewing && quote) {
+        return (
+            <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+                <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-2xl animate-scale-up shadow-xl`} onClick={(e: React.MouseEvent) => e.stopPropagation()}>
+                    <div className={`p-4 border-b ${darkMode ? 'border-gray-800' : 'border-gray-100'}`}>
+                        <div className="flex justify-between items-center">
+                            <h3 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                                {language === 'ar' ? 'تأكيد التبديل' : 'Confirm Swap'}
+                            </h3>
+                            <button onClick={onClose} className={`p-1.5 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                                <X size={18} />
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="p-4 space-y-3">
+                        <div className={`p-3 rounded-xl space-y-1 text-xs ${darkMode ? 'bg-gray-800/50' : 'bg-gray-50'}`}>
+                            <div className="flex justify-between">
+                                <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{language === 'ar' ? 'أرسل' : 'Send'}</span>
+                                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>{amount} {fromToken}</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{language === 'ar' ? 'الحد الأدنى' : 'Min. received'}</span>
+                                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>{quote.minOutputAmount} {toToken}</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{language === 'ar' ? 'المنصة' : 'Provider'}</span>
+                                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>{quote.providerName || (selectedDex === 'stonfi' ? 'STON.fi' : 'DeDust')}</span>
+                            </div>
+                            {quote.route?.length > 1 && (
+                                <div className="flex justify-between gap-3">
+                                    <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{language === 'ar' ? 'المسار' : 'Route'}</span>
+                                    <span className={`text-right ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                                        {formatSwapRoute(quote.route).map((line: string) => <span key={line} className="block">{line}</span>)}
+                                    </span>
+                                </div>
+                            )}
+                            <div className="flex justify-between">
+                                <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{language === 'ar' ? 'رسوم الشبكة' : 'Network fee'}</span>
+                                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>
+                                    {preview ? `${fromNano(preview.totalFee)} TON` : '-'}
+                                </span>
+                            </div>
+                        </div>
+
+                        {onPreview && (
+                            <EmulationPreview
+                                preview={preview}
+                                isLoading={isPreviewLoading}
+                                error={previewError}
+                                darkMode={darkMode}
+                                language={language}
+                            />
+                        )}
+
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setIsReviewing(false)}
+                                className={`flex-1 py-3.5 rounded-xl font-semibold transition ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                            >
+                                {language === 'ar' ? 'رجوع' : 'Back'}
+                            </button>
+                            <button
+                                onClick={handleConfirmSwap}
+                                disabled={isPreviewLoading}
+                                className="flex-1 py-3.5 rounded-xl bg-blue-500 hover:bg-blue-600 text-white font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                            >
+                                <Send size={16} />
+                                {language === 'ar' ? 'تأكيد' : 'Confirm'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
             <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-900' : 'bg-white'} rounded-2xl animate-scale-up shadow-xl`} onClick={(e) => e.stopPropagation()}>
@@ -918,9 +1583,16 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
                         <h3 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
                             {language === 'ar' ? 'تبديل' : 'Swap'}
                         </h3>
-                        <button onClick={onClose} className={`p-1.5 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
-                            <X size={18} />
-                        </button>
+                        <div className="flex items-center gap-1">
+                            {onOpenOrders && (
+                                <button onClick={onOpenOrders} className={`px-3 py-1.5 rounded-full text-xs font-medium ${darkMode ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}>
+                                    {language === 'ar' ? 'الأوامر' : 'Orders'}
+                                </button>
+                            )}
+                            <button onClick={onClose} className={`p-1.5 rounded-full ${darkMode ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                                <X size={18} />
+                            </button>
+                        </div>
                     </div>
                 </div>
 
@@ -969,8 +1641,8 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
 
                     {/* Token Picker - From */}
                     {showFromPicker && (
-                        <div className={`rounded-xl mb-2 overflow-hidden ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
-                            {availableTokens.filter(t => t.symbol !== toToken).map((t) => (
+                        <div className={`rounded-xl mb-2 max-h-64 overflow-y-auto no-scrollbar ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                            {availableTokens.filter((t: RegistryToken) => t.symbol !== toToken).map((t: RegistryToken) => (
                                 <button
                                     key={t.symbol}
                                     onClick={() => { setFromToken(t.symbol); setShowFromPicker(false); setQuote(null); }}
@@ -978,6 +1650,7 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
                                 >
                                     <img src={t.icon} alt={t.symbol} className="w-6 h-6 rounded-full" />
                                     <span className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>{t.symbol}</span>
+                                    {!t.verified && <UnverifiedBadge language={language} />}
                                     <span className={`text-sm ml-auto ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
                                         {getBalance(t.symbol).toFixed(4)}
                                     </span>
@@ -1029,8 +1702,8 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
 
                     {/* Token Picker - To */}
                     {showToPicker && (
-                        <div className={`rounded-xl mb-3 overflow-hidden ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
-                            {availableTokens.filter(t => t.symbol !== fromToken).map((t) => (
+                        <div className={`rounded-xl mb-3 max-h-64 overflow-y-auto no-scrollbar ${darkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
+                            {availableTokens.filter((t: RegistryToken) => t.symbol !== fromToken).map((t: RegistryToken) => (
                                 <button
                                     key={t.symbol}
                                     onClick={() => { setToToken(t.symbol); setShowToPicker(false); setQuote(null); }}
@@ -1038,6 +1711,7 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
                                 >
                                     <img src={t.icon} alt={t.symbol} className="w-6 h-6 rounded-full" />
                                     <span className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>{t.symbol}</span>
+                                    {!t.verified && <UnverifiedBadge language={language} />}
                                 </button>
                             ))}
                         </div>
@@ -1066,8 +1740,16 @@ export function SwapModal({ isOpen, onClose, darkMode, language, walletAddress,
                             </div>
                             <div className="flex justify-between text-xs mb-1">
                                 <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{language === 'ar' ? 'المنصة' : 'Provider'}</span>
-                                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>{selectedDex === 'stonfi' ? 'STON.fi' : 'DeDust'}</span>
+                                <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>{quote.providerName || (selectedDex === 'stonfi' ? 'STON.fi' : 'DeDust')}</span>
                             </div>
+                            {quote.route?.length > 1 && (
+                                <div className="flex justify-between gap-3 text-xs mb-1">
+                                    <span className={darkMode ? 'text-gray-500' : 'text-gray-400'}>{language === 'ar' ? 'المسار' : 'Route'}</span>
+                                    <span className={`text-right ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                                        {formatSwapRoute(quote.route).map((line: string) => <span key={line} className="block">{line}</span>)}
+                                    </span>
+                                </div>
+                            )}
                             {/* Live update indicator */}
                             <div className="flex items-center justify-center gap-1 mt-2 pt-2 border-t border-gray-700/50">
                                 <div className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></div>
@@ -1214,8 +1896,10 @@ export function PhraseModal({ isOpen, onClose, darkMode, language, seedPhrase, h
 }
 
 // Transaction Modal
-export function TransactionModal({ transaction, onClose, darkMode, language }: TransactionModalProps) {
+export function TransactionModal({ transaction, onClose, darkMode, language, contacts = [] }: TransactionModalProps) {
     if (!transaction) return null;
+    const contact = getCounterpartyContact(transaction, contacts);
+
     return (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-end justify-center z-50" onClick={onClose}>
             <div className={`w-full max-w-sm ${darkMode ? 'bg-gray-950' : 'bg-white'} rounded-t-[32px] p-6 animate-slide-up shadow-2xl`} onClick={(e) => e.stopPropagation()}>
@@ -1248,13 +1932,31 @@ export function TransactionModal({ transaction, onClose, darkMode, language }: T
                                 {language === 'ar' ? 'الحالة' : 'Status'}
                             </span>
                             <div className="flex items-center gap-1.5">
-                                <div className="w-2 h-2 rounded-full bg-green-500"></div>
+                                <div className={`w-2 h-2 rounded-full ${getStatusColor(transaction.status)}`}></div>
                                 <span className={`text-sm font-semibold ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
-                                    {language === 'ar' ? 'مكتمل' : 'Completed'}
+                                    {getStatusLabel(transaction.status, language)}
                                 </span>
                             </div>
                         </div>
 
+                        {/* Exit Codes Row (tracked sends that reached the chain) */}
+                        {(transaction.computeExitCode !== undefined || transaction.actionResultCode !== undefined) && (
+                            <div className="flex justify-between items-center">
+                                <span className={`text-sm font-medium ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                                    {language === 'ar' ? 'رموز الخروج' : 'Exit codes'}
+                                </span>
+                                <span className={`text-sm font-mono ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                                    {transaction.computeExitCode ?? '-'} / {transaction.actionResultCode ?? '-'}
+                                </span>
+                            </div>
+                        )}
+
+                        {transaction.error && (
+                            <p className={`text-xs font-medium ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
+                                {transaction.error}
+                            </p>
+                        )}
+
                         {/* Fee Row */}
                         <div className="flex justify-between items-center">
                             <span className={`text-sm font-medium ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>
@@ -1275,6 +1977,9 @@ export function TransactionModal({ transaction, onClose, darkMode, language }: T
                                     {transaction.type === 'received' ? (language === 'ar' ? 'من' : 'From') : (language === 'ar' ? 'إلى' : 'To')}
                                 </span>
                             </div>
+                            {contact && (
+                                <p className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>{contact.label}</p>
+                            )}
                             <div className="flex items-center justify-between gap-3">
                                 <p className={`text-sm font-mono break-all ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
                                     {transaction.from}
@@ -1,13 +1,112 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-// @ts-ignore
-import { WalletService } from '../services/WalletService';
+import { Buffer } from 'buffer';
+import { Address, Cell, fromNano, internal, MessageRelaxed, toNano } from '@ton/core';
+import { createWalletFacade, DNS_UPDATE_GAS, getStakingValue, WalletFacade } from '../wallets';
+import { createRpcClient, createTonApiClient } from '../network';
+import type { DnsDomain, DnsResolution, DnsUpdate, EmulationResult, GaslessQuote, HighloadBatchItem, HighloadWalletState, KeyPair, MultisigOrderInfo, MultisigOrderResult, NftItem, NftMetadata, SignedHighloadMessage, StakingAction, StakingPool, StakingPosition, TransactionHistoryItem, TransactionResult, WalletVersion } from '../types';
+import type { ColdSignerAccount, SignedTransaction, UnsignedTransaction } from '../crypto';
 // @ts-ignore
 import { SecurityService } from '../services/SecurityService';
 // @ts-ignore
 import { TonApiService } from '../services/TonApiService';
-import { AccountManager, WalletAccount } from '../services/AccountManager';
+import { AccountManager, WalletAccount, MULTISIG_ACCOUNT_TYPE, isMultisigAccount } from '../services/AccountManager';
+import { WatchOnlyService } from '../services/WatchOnlyService';
+import type { WatchOnlyTarget } from '../services/WatchOnlyService';
 // @ts-ignore
 import { networkService, ConnectionQuality } from '../services/NetworkService';
+// @ts-ignore
+import { transactionTracker, TransactionEvent } from '../services/TransactionTracker';
+import { swapService } from '../services/SwapService';
+import type { PoolEdge, SwapQuote, SwapTransaction } from '../services/SwapService';
+import { SwapOrderEngine } from '../services/SwapOrderService';
+import type { SwapOrder, SwapOrderRequest } from '../services/SwapOrderService';
+import { LiquidityTracker, getLpTokenLabel, getLpTokenPrice } from '../services/LiquidityService';
+import type { LiquidityAction, LiquidityPosition, LiquidityProvision } from '../services/LiquidityService';
+import { TokenRegistry, sameTokenAddress } from '../services/TokenRegistry';
+import type { RegistryToken } from '../services/TokenRegistry';
+import { PayoutEngine, PAYOUT_JETTON_GAS, getPayoutStatus } from '../services/PayoutService';
+import type { PayoutJob, PayoutPlan, PayoutRecipient } from '../services/PayoutService';
+import { InvoiceService } from '../services/InvoiceService';
+import type { CreateInvoiceParams, Invoice } from '../services/InvoiceService';
+import { AddressBook } from '../services/AddressBook';
+import type { Contact, ContactInput, RecipientCheck } from '../services/AddressBook';
+import { TransactionHistory } from '../services/TransactionHistory';
+import type { HistoryView } from '../services/TransactionHistory';
+import { ActivityStatementBuilder } from '../services/ActivityStatement';
+import type { ActivityFilter, ActivityStatement } from '../services/ActivityStatement';
+
+/**
+ * How long a routed swap waits for one stage's output before giving up
+ */
+const SWAP_STAGE_TIMEOUT = 180000;
+const SWAP_STAGE_POLL = 5000;
+
+/**
+ * How often due swap orders are checked
+ */
+const SWAP_ORDER_TICK = 30000;
+
+/**
+ * How often running payouts are confirmed and advanced
+ */
+const PAYOUT_TICK = 15000;
+
+/**
+ * How often open invoices are matched against incoming transfers
+ */
+const INVOICE_TICK = 30000;
+
+/**
+ * New multisig v2: member addresses, approvals needed and initial balance
+ */
+export interface MultisigDeployParams {
+    signers: string[];
+    proposers: string[];
+    threshold: number;
+    amount: string;
+    codeSource?: string;   // Deployed multisig v2 to copy the contract code from
+}
+
+// Orders stay open for approvals for a week
+const MULTISIG_ORDER_LIFETIME = 7 * 24 * 3600;
+
+// Reverse DNS lookups per refresh, to stay inside TonAPI rate limits
+const REVERSE_RESOLVE_BATCH = 20;
+
+/**
+ * Activity list entry of a history item: 'received'/'sent', amounts as
+ * display strings and the counterparty in both `from` and `to`
+ */
+function toActivity(item: TransactionHistoryItem): any {
+    const type = item.type === 'incoming' ? 'received' : 'sent';
+
+    // For small amounts (< 0.01), show more decimals
+    const format = (amount: bigint, decimals: number) => {
+        const value = Number(amount) / Math.pow(10, decimals);
+        return value.toFixed(value < 0.01 ? Math.min(decimals, 6) : 2);
+    };
+
+    // Parse timestamp (API returns Unix timestamp in seconds)
+    const date = new Date(item.timestamp * 1000);
+    const time = isNaN(date.getTime()) ? 'Unknown' : date.toLocaleString();
+
+    return {
+        ...item,
+        type,
+        amount: item.action === 'nft_transfer' ? '1' : format(item.amount, item.jetton?.decimals ?? 9),
+        token: item.action === 'nft_transfer' ? 'NFT' : item.jetton?.symbol || 'TON',
+        ...(item.action === 'jetton_swap' ? {
+            amountOut: format(item.amountOut, item.jettonOut?.decimals ?? 9),
+            tokenOut: item.jettonOut?.symbol || 'TON',
+        } : {}),
+        time,
+        fee: item.fee !== undefined ? fromNano(item.fee) : '0',
+        record: item,   // The history item, for search and statements
+        from: type === 'received' ? item.from : item.to,
+        to: type === 'sent' ? item.to : item.from,
+        status: item.status === 'confirmed' ? 'completed' : item.status,
+    };
+}
 
 interface WalletContextType {
     isLoggedIn: boolean;
@@ -15,28 +114,129 @@ interface WalletContextType {
     walletAddress: string | null;
     balance: string;
     transactions: any[];
+    hasMoreTransactions: boolean;
+    isLoadingMoreTransactions: boolean;
+    loadMoreTransactions: () => Promise<void>;
     isLoading: boolean;
     walletType: string;
     tokens: any[];
     totalBalanceUSDT: string;
     accounts: WalletAccount[];
     activeAccount: WalletAccount | null;
+    walletFacade: WalletFacade;
 
     // Actions
     createWallet: (password: string, mnemonic?: string[], name?: string) => Promise<string[]>; // Added name
     importWallet: (mnemonic: string[], password: string, name?: string) => Promise<void>; // Added name
     unlockWallet: (password: string) => Promise<boolean>;
     logout: () => void;
-    sendTransaction: (recipient: string, amount: string, password: string, comment?: string, token?: any) => Promise<any>;
+    sendTransaction: (recipient: string, amount: string, password: string, comment?: string, token?: any, gaslessQuote?: GaslessQuote) => Promise<any>;
+    previewTransaction: (recipient: string, amount: string, comment?: string, token?: any) => Promise<EmulationResult>;
+    quoteGaslessTransfer: (recipient: string, amount: string, comment?: string, token?: any) => Promise<GaslessQuote>;
+    previewPayload: (to: string, value: bigint, body?: Cell) => Promise<EmulationResult>;
     refreshData: () => Promise<void>;
     resetWallet: () => void;
     getDecryptedSeed: (password: string) => Promise<string[]>;
     getPrivateKey: (password: string) => Promise<string>;
     switchWalletType: (newType: string, password: string) => Promise<void>;
 
+    // NFTs (gallery of the active account, TEP-62 transfers)
+    hiddenNfts: string[];
+    getNfts: () => Promise<NftItem[]>;
+    resolveNftMetadata: (nftAddress: string) => Promise<NftMetadata>;
+    setNftHidden: (nftAddress: string, hidden: boolean) => void;
+    sendNft: (nftAddress: string, recipient: string, password: string, comment?: string) => Promise<TransactionResult>;
+
+    // TON DNS (resolution before send, names in activity, owned domains)
+    resolveDomain: (domain: string) => Promise<DnsResolution>;
+    domainNames: Record<string, string | null>;
+    domains: DnsDomain[];
+    refreshDomains: () => Promise<void>;
+    sendDnsUpdate: (update: DnsUpdate, password: string) => Promise<TransactionResult>;
+
+    // Staking (pools with APY, positions held beside token balances)
+    stakingPools: StakingPool[];
+    stakingPositions: StakingPosition[];
+    refreshStaking: () => Promise<void>;
+    sendStaking: (action: StakingAction, password: string) => Promise<TransactionResult>;
+
+    // Swaps (routed quotes go out stage by stage)
+    sendSwap: (quote: SwapQuote, password: string) => Promise<TransactionResult>;
+    swapOrders: SwapOrder[];
+    swapOrderSessionUntil: number | null;
+    placeSwapOrder: (order: SwapOrderRequest) => SwapOrder;
+    cancelSwapOrder: (id: string) => void;
+    authorizeSwapOrders: (password: string, hours: number) => Promise<void>;
+    revokeSwapOrders: () => void;
+
+    // Liquidity (LP positions on STON.fi and DeDust, deposits until settled)
+    liquidityPools: PoolEdge[];
+    liquidityPositions: LiquidityPosition[];
+    liquidityProvisions: LiquidityProvision[];
+    refreshLiquidity: () => Promise<void>;
+    sendLiquidity: (action: LiquidityAction, password: string) => Promise<TransactionResult>;
+
+    // Token registry (bundled, held and imported jettons; shared by swap, send and home)
+    registryTokens: RegistryToken[];
+    validateJetton: (masterAddress: string) => Promise<RegistryToken>;
+    importJetton: (masterAddress: string) => Promise<RegistryToken>;
+    removeImportedJetton: (masterAddress: string) => void;
+
+    // Payouts (Highload V3 batch jobs, confirmed chunk by chunk)
+    payoutJobs: PayoutJob[];
+    payoutSessionUntil: number | null;
+    planPayout: (text: string) => Promise<PayoutPlan>;
+    createPayout: (plan: PayoutPlan, name?: string) => PayoutJob;
+    cancelPayout: (id: string) => void;
+    removePayout: (id: string) => void;
+    authorizePayouts: (password: string, hours: number) => Promise<void>;
+    revokePayouts: () => void;
+
+    // Merchant invoices (matched to incoming transfers by their comment)
+    invoices: Invoice[];
+    invoiceWebhook: string | null;
+    createInvoice: (params: CreateInvoiceParams) => Invoice;
+    cancelInvoice: (id: string) => void;
+    checkInvoices: () => Promise<void>;
+    getInvoiceLink: (invoice: Invoice) => string;
+    setInvoiceWebhook: (url: string | null) => void;
+
+    // Address book (labels, default assets and memo requirements of recipients)
+    contacts: Contact[];
+    saveContact: (input: ContactInput) => Contact;
+    removeContact: (id: string) => void;
+    checkRecipient: (address: string) => Promise<RecipientCheck>;
+
+    // Activity statements (filtered history with fiat values and fees, for CSV/JSON export)
+    buildActivityStatement: (filter: ActivityFilter, currency?: string) => Promise<ActivityStatement>;
+
+    // Highload V3 administration (the key's wallets per subwallet ID and timeout)
+    getHighloadWallets: (subwalletIds: number[], timeouts: number[]) => Promise<HighloadWalletState[]>;
+    syncHighloadQueryIds: (subwalletId: number, timeout: number) => Promise<HighloadWalletState>;
+
+    // Offline Signing (watch-only + cold signer)
+    prepareOfflineTransfer: (recipient: string, amount: string, comment?: string) => Promise<UnsignedTransaction>;
+    prepareOfflineNft: (nftAddress: string, recipient: string, comment?: string) => Promise<UnsignedTransaction>;
+    prepareOfflineDnsUpdate: (update: DnsUpdate) => Promise<UnsignedTransaction>;
+    prepareOfflineStaking: (action: StakingAction) => Promise<UnsignedTransaction>;
+    broadcastOfflineTransaction: (unsigned: UnsignedTransaction, signed: SignedTransaction) => Promise<TransactionResult>;
+    signOfflineTransaction: (unsigned: UnsignedTransaction, password: string) => Promise<SignedTransaction>;
+    getColdSignerAccount: (password: string) => Promise<ColdSignerAccount>;
+
+    // Multisig v2 (orders signed by the user's member accounts)
+    deployMultisig: (name: string, params: MultisigDeployParams, deployerId: string, password: string) => Promise<void>;
+    importMultisigAccount: (name: string, address: string) => Promise<void>;
+    getMultisigOrders: () => Promise<MultisigOrderInfo[]>;
+    getMultisigMember: (order?: MultisigOrderInfo) => Promise<WalletAccount | null>;
+    proposeMultisigTransfer: (recipient: string, amount: string, password: string, comment?: string) => Promise<MultisigOrderResult>;
+    approveMultisigOrder: (order: MultisigOrderInfo, password: string) => Promise<TransactionResult>;
+    watchMultisigOrder: (orderAddress: string) => Promise<MultisigOrderInfo | null>;
+
     // Multi-Account Actions
     selectAccount: (id: string) => void;
     addAccount: (name: string, mnemonic: string[], password: string) => Promise<void>;
+    addWatchOnlyAccount: (name: string, signer: ColdSignerAccount) => void;
+    importWatchOnlyAccount: (name: string, input: string, version?: WalletVersion) => Promise<void>;
     renameAccount: (id: string, name: string) => void;
     deleteAccount: (id: string) => void;
 }
@@ -45,10 +245,27 @@ const WalletContext = createContext<WalletContextType | undefined>(undefined);
 
 export function WalletProvider({ children }: { children: ReactNode }) {
     // Services
-    const [walletService] = useState(() => new WalletService());
+    const [walletFacade] = useState(() => createWalletFacade('mainnet', {
+        rpcClient: createRpcClient('mainnet', import.meta.env.VITE_TONCENTER_API_KEY || undefined),
+        tonApiClient: createTonApiClient('mainnet', import.meta.env.VITE_TONAPI_KEY || undefined),
+        multisigCode: import.meta.env.VITE_MULTISIG_V2_CODE
+            ? Cell.fromBoc(Buffer.from(import.meta.env.VITE_MULTISIG_V2_CODE, 'base64'))[0]
+            : undefined,
+    }));
     const [securityService] = useState(() => new SecurityService());
     const [tonApiService] = useState(() => new TonApiService());
     const [accountManager] = useState(() => new AccountManager());
+    const [watchOnlyService] = useState(() => new WatchOnlyService(walletFacade, tonApiService));
+    const [swapOrderEngine] = useState(() => new SwapOrderEngine());
+    const [liquidityTracker] = useState(() => new LiquidityTracker());
+    const [tokenRegistry] = useState(() => new TokenRegistry({ sources: { mainnet: walletFacade } }));
+    const [payoutEngine] = useState(() => new PayoutEngine({ chain: walletFacade, jettons: walletFacade }));
+    const [invoiceService] = useState(() => new InvoiceService({ source: tonApiService }));
+    const [transactionHistory] = useState(() => new TransactionHistory({ source: tonApiService }));
+    const [statementBuilder] = useState(() => new ActivityStatementBuilder({ prices: tonApiService }));
+    const [addressBook] = useState(() => new AddressBook({
+        scams: { isScam: async (address: string) => Boolean((await tonApiService.getAccountInfo(address))?.is_scam) },
+    }));
 
     // State
     const [accounts, setAccounts] = useState<WalletAccount[]>([]);
@@ -58,10 +275,28 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     const [walletAddress, setWalletAddress] = useState<string | null>(null);
     const [balance, setBalance] = useState('0.00');
     const [transactions, setTxs] = useState<any[]>([]);
+    const [hasMoreTransactions, setHasMoreTransactions] = useState(false);
+    const [isLoadingMoreTransactions, setIsLoadingMoreTransactions] = useState(false);
+    const [trackedTxs, setTrackedTxs] = useState<any[]>(() => transactionTracker.getAll());
     const [isLoading, setIsLoading] = useState(false);
     const [walletType, setWalletType] = useState('v4r2'); // From active account
     const [tokens, setTokens] = useState<any[]>([]);
     const [totalBalanceUSDT, setTotalBalanceUSDT] = useState('0.00');
+    const [domainNames, setDomainNames] = useState<Record<string, string | null>>({});
+    const [domains, setDomains] = useState<DnsDomain[]>([]);
+    const [stakingPools, setStakingPools] = useState<StakingPool[]>([]);
+    const [stakingPositions, setStakingPositions] = useState<StakingPosition[]>([]);
+    const [swapOrders, setSwapOrders] = useState<SwapOrder[]>([]);
+    const [swapOrderSessionUntil, setSwapOrderSessionUntil] = useState<number | null>(null);
+    const [liquidityPools, setLiquidityPools] = useState<PoolEdge[]>([]);
+    const [liquidityPositions, setLiquidityPositions] = useState<LiquidityPosition[]>([]);
+    const [liquidityProvisions, setLiquidityProvisions] = useState<LiquidityProvision[]>([]);
+    const [registryTokens, setRegistryTokens] = useState<RegistryToken[]>(() => tokenRegistry.getTokens('mainnet'));
+    const [payoutJobs, setPayoutJobs] = useState<PayoutJob[]>([]);
+    const [payoutSessionUntil, setPayoutSessionUntil] = useState<number | null>(null);
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [invoiceWebhook, setInvoiceWebhookState] = useState<string | null>(null);
+    const [contacts, setContacts] = useState<Contact[]>([]);
 
     // Init Accounts
     useEffect(() => {
@@ -88,11 +323,589 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         loadAccounts();
     }, []);
 
+    // Public key of the active account, for previews before the password is entered
+    const getActivePublicKey = () => {
+        if (!activeAccount?.publicKey) throw new Error('Public key unavailable, unlock the wallet first');
+        return Buffer.from(activeAccount.publicKey, 'hex');
+    };
+
+    const previewTransaction = async (recipient: string, amount: string, comment?: string, token?: any) => {
+        if (!activeAccount) throw new Error('No active account');
+        const version = activeAccount.type as WalletVersion;
+
+        if (token && token.symbol !== 'TON') {
+            if (!token.walletAddress) throw new Error(`Missing wallet address for ${token.symbol}`);
+            return walletFacade.previewJetton(getActivePublicKey(), version, {
+                jettonWalletAddress: token.walletAddress,
+                to: recipient,
+                amount: walletFacade.parseJettonAmount(amount, token.decimals || 6),
+                comment: comment || '',
+            });
+        }
+
+        return walletFacade.previewTon(getActivePublicKey(), version, recipient, toNano(amount), comment || '');
+    };
+
+    // Quote a W5 jetton transfer with the network fee paid in the jetton itself
+    const quoteGaslessTransfer = async (recipient: string, amount: string, comment?: string, token?: any) => {
+        if (!activeAccount) throw new Error('No active account');
+        if (activeAccount.type !== 'v5r1') throw new Error('Paying fees in tokens requires a W5 wallet');
+        if (!token?.walletAddress || !token?.masterAddress) throw new Error(`Missing jetton addresses for ${token?.symbol}`);
+
+        return walletFacade.quoteGaslessJetton(getActivePublicKey(), {
+            jettonMaster: token.masterAddress,
+            jettonWalletAddress: token.walletAddress,
+            to: recipient,
+            amount: walletFacade.parseJettonAmount(amount, token.decimals || 6),
+            comment: comment || '',
+        });
+    };
+
+    const previewPayload = async (to: string, value: bigint, body?: Cell) => {
+        if (!activeAccount) throw new Error('No active account');
+        return walletFacade.previewWithPayload(getActivePublicKey(), activeAccount.type as WalletVersion, to, value, body);
+    };
+
+    // Watch-only side: build the transfer for the cold signer, broadcast its signature
+    const prepareOfflineTransfer = async (recipient: string, amount: string, comment?: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        if (!activeAccount.publicKey) throw new Error('This watch-only account has no known public key and cannot sign');
+        return walletFacade.prepareOfflineTransfer(
+            getActivePublicKey(),
+            activeAccount.type as WalletVersion,
+            recipient,
+            toNano(amount),
+            comment || ''
+        );
+    };
+
+    const prepareOfflineNft = async (nftAddress: string, recipient: string, comment?: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        if (!activeAccount.publicKey) throw new Error('This watch-only account has no known public key and cannot sign');
+        return walletFacade.prepareOfflineNft(getActivePublicKey(), activeAccount.type as WalletVersion, {
+            nftAddress,
+            to: recipient,
+            comment: comment || '',
+        });
+    };
+
+    const prepareOfflineDnsUpdate = async (update: DnsUpdate) => {
+        if (!activeAccount) throw new Error('No active account');
+        if (!activeAccount.publicKey) throw new Error('This watch-only account has no known public key and cannot sign');
+        return walletFacade.prepareOfflineDnsUpdate(getActivePublicKey(), activeAccount.type as WalletVersion, update);
+    };
+
+    const prepareOfflineStaking = async (action: StakingAction) => {
+        if (!activeAccount) throw new Error('No active account');
+        if (!activeAccount.publicKey) throw new Error('This watch-only account has no known public key and cannot sign');
+        return walletFacade.prepareOfflineStaking(getActivePublicKey(), activeAccount.type as WalletVersion, action);
+    };
+
+    const broadcastOfflineTransaction = async (unsigned: UnsignedTransaction, signed: SignedTransaction) => {
+        setIsLoading(true);
+        try {
+            if (!activeAccount) throw new Error('No active account');
+
+            const res = await walletFacade.broadcastOfflineTransaction(getActivePublicKey(), unsigned, signed);
+            if (!res.success) throw new Error(res.error || 'Transaction failed');
+
+            transactionTracker.track({
+                hash: res.hash,
+                queryId: res.queryId,
+                amount: fromNano(unsigned.messages.reduce((total, message) => total + message.amount, 0n)),
+                recipient: unsigned.messages[0].to,
+                tokenSymbol: 'TON',
+                walletAddress,
+                walletVersion: activeAccount.type,
+                network: 'mainnet',
+            });
+            setTrackedTxs(transactionTracker.getAll());
+
+            setTimeout(refreshData, 3000);
+            setTimeout(refreshData, 10000);
+            return res;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Cold signer side: sign a scanned transfer, share the public key for pairing
+    const signOfflineTransaction = async (unsigned: UnsignedTransaction, password: string) => {
+        const mnemonic = await getDecryptedSeed(password);
+        return walletFacade.signOfflineTransaction(mnemonic, unsigned);
+    };
+
+    const getColdSignerAccount = async (password: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        const mnemonic = await getDecryptedSeed(password);
+        return walletFacade.getColdSignerAccount(mnemonic, activeAccount.type as WalletVersion);
+    };
+
+    // Multisig side: the active account is the multisig, orders are created and
+    // approved by the user's own seed accounts that are among its members
+    const getMultisigMember = async (order?: MultisigOrderInfo) => {
+        if (!activeAccount || !isMultisigAccount(activeAccount)) throw new Error('No active multisig account');
+        const seedAccounts = accountManager.getAccounts().filter((account: WalletAccount) => !account.watchOnly && account.address);
+        const isListed = (members: Address[], account: WalletAccount) =>
+            members.some(member => member.equals(Address.parse(account.address)));
+
+        // Approvals: a signer of the order that has not approved yet
+        if (order) {
+            return seedAccounts.find((account: WalletAccount) => {
+                const index = order.signers.findIndex(signer => signer.equals(Address.parse(account.address)));
+                return index !== -1 && !order.approvals[index];
+            }) ?? null;
+        }
+
+        // New orders: signers first, their order counts as an approval
+        const data = await walletFacade.getMultisigData(activeAccount.address);
+        return seedAccounts.find((account: WalletAccount) => isListed(data.signers, account))
+            ?? seedAccounts.find((account: WalletAccount) => isListed(data.proposers, account))
+            ?? null;
+    };
+
+    const getMultisigOrders = async () => {
+        if (!activeAccount || !isMultisigAccount(activeAccount)) return [];
+        return walletFacade.getMultisigOrders(activeAccount.address);
+    };
+
+    const proposeMultisigTransfer = async (recipient: string, amount: string, password: string, comment?: string) => {
+        setIsLoading(true);
+        try {
+            const member = await getMultisigMember();
+            if (!member) throw new Error('None of your accounts is a signer or proposer of this multisig');
+
+            const mnemonic = await decryptAccountSeed(member, password);
+            const res = await walletFacade.proposeMultisigTransfer(
+                mnemonic,
+                member.type as WalletVersion,
+                activeAccount!.address,
+                recipient,
+                toNano(amount),
+                comment || '',
+                Math.floor(Date.now() / 1000) + MULTISIG_ORDER_LIFETIME
+            );
+            if (!res.success) throw new Error(res.error || 'Failed to create order');
+            return res;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const approveMultisigOrder = async (order: MultisigOrderInfo, password: string) => {
+        setIsLoading(true);
+        try {
+            const member = await getMultisigMember(order);
+            if (!member) throw new Error('None of your accounts can approve this order');
+
+            const mnemonic = await decryptAccountSeed(member, password);
+            const res = await walletFacade.approveMultisigOrder(mnemonic, member.type as WalletVersion, order.address.toString());
+            if (!res.success) throw new Error(res.error || 'Failed to approve order');
+            return res;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const watchMultisigOrder = (orderAddress: string) => walletFacade.waitForMultisigOrder(orderAddress);
+
+    // Deploy from one of the user's seed accounts, then watch the new multisig
+    const deployMultisig = async (name: string, params: MultisigDeployParams, deployerId: string, password: string) => {
+        setIsLoading(true);
+        try {
+            const deployer = accountManager.getAccount(deployerId);
+            if (!deployer || deployer.watchOnly) throw new Error('Choose an account with a secret phrase to pay for the deployment');
+
+            const mnemonic = await decryptAccountSeed(deployer, password);
+            const config = {
+                threshold: params.threshold,
+                signers: await Promise.all(params.signers.map(signer => walletFacade.resolveAddress(signer))),
+                proposers: await Promise.all(params.proposers.map(proposer => walletFacade.resolveAddress(proposer))),
+            };
+
+            const address = await walletFacade.getMultisigAddress(config, params.codeSource);
+            assertNewAccount(address);
+
+            const res = await walletFacade.deployMultisig(mnemonic, deployer.type as WalletVersion, config, toNano(params.amount));
+            if (!res.success) throw new Error(res.error || 'Deployment failed');
+
+            saveWatchOnlyAccount(name, { address, type: MULTISIG_ACCOUNT_TYPE });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const importMultisigAccount = async (name: string, address: string) => {
+        setIsLoading(true);
+        try {
+            const multisig = await walletFacade.resolveAddress(address);
+            await walletFacade.getMultisigData(multisig.toString());
+            saveWatchOnlyAccount(name, { address: multisig.toString({ bounceable: true }), type: MULTISIG_ACCOUNT_TYPE });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // NFTs: the gallery loads on demand, hidden items are remembered per account
+    const getNfts = async () => {
+        if (!walletAddress) return [];
+        return walletFacade.getNfts(walletAddress);
+    };
+
+    const resolveNftMetadata = (nftAddress: string) => walletFacade.resolveNftMetadata(nftAddress);
+
+    const setNftHidden = (nftAddress: string, hidden: boolean) => {
+        if (!activeAccount) return;
+        const target = Address.parse(nftAddress);
+        const hiddenNfts = (activeAccount.hiddenNfts ?? []).filter((address: string) => !Address.parse(address).equals(target));
+        if (hidden) hiddenNfts.push(nftAddress);
+
+        accountManager.updateAccount(activeAccount.id, { hiddenNfts });
+        setAccounts(accountManager.getAccounts());
+        setActiveAccount({ ...activeAccount, hiddenNfts });
+    };
+
+    const sendNft = async (nftAddress: string, recipient: string, password: string, comment?: string) => {
+        setIsLoading(true);
+        try {
+            if (!activeAccount) throw new Error('No active account');
+            if (activeAccount.watchOnly) throw new Error('Watch-only accounts sign with the cold signer');
+
+            const mnemonic = await decryptAccountSeed(activeAccount, password);
+            const res = await walletFacade.sendNft(mnemonic, activeAccount.type as WalletVersion, {
+                nftAddress,
+                to: recipient,
+                comment: comment || '',
+            });
+            if (!res.success) throw new Error(res.error || 'Transaction failed');
+
+            transactionTracker.track({
+                hash: res.hash,
+                queryId: res.queryId,
+                amount: '1',
+                recipient,
+                tokenSymbol: 'NFT',
+                walletAddress,
+                walletVersion: activeAccount.type,
+                network: 'mainnet',
+            });
+            setTrackedTxs(transactionTracker.getAll());
+
+            setTimeout(refreshData, 3000);
+            setTimeout(refreshData, 10000);
+            return res;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // TON DNS: domains resolve before send; owned domains are edited and renewed with change_dns_record
+    const resolveDomain = (domain: string) => walletFacade.resolveDns(domain);
+
+    const refreshDomains = async () => {
+        if (!walletAddress) return;
+        setDomains(await walletFacade.getDomains(walletAddress));
+    };
+
+    const sendDnsUpdate = async (update: DnsUpdate, password: string) => {
+        setIsLoading(true);
+        try {
+            if (!activeAccount) throw new Error('No active account');
+            if (activeAccount.watchOnly) throw new Error('Watch-only accounts sign with the cold signer');
+
+            const mnemonic = await decryptAccountSeed(activeAccount, password);
+            const res = await walletFacade.sendDnsUpdate(mnemonic, activeAccount.type as WalletVersion, update);
+            if (!res.success) throw new Error(res.error || 'Transaction failed');
+
+            transactionTracker.track({
+                hash: res.hash,
+                queryId: res.queryId,
+                amount: fromNano(DNS_UPDATE_GAS),
+                recipient: update.domainAddress,
+                tokenSymbol: 'TON',
+                walletAddress,
+                walletVersion: activeAccount.type,
+                network: 'mainnet',
+            });
+            setTrackedTxs(transactionTracker.getAll());
+
+            // Renewals and record changes show up once the item processes the message
+            setTimeout(refreshDomains, 10000);
+            return res;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Staking: pools and positions load per account; deposits and withdrawals settle with the pool's round
+    const refreshStaking = async () => {
+        if (!walletAddress) return;
+        const pools = await walletFacade.getStakingPools();
+        setStakingPools(pools);
+        setStakingPositions(await walletFacade.getStakingPositions(walletAddress, pools));
+    };
+
+    const sendStaking = async (action: StakingAction, password: string) => {
+        setIsLoading(true);
+        try {
+            if (!activeAccount) throw new Error('No active account');
+            if (activeAccount.watchOnly) throw new Error('Watch-only accounts sign with the cold signer');
+
+            const mnemonic = await decryptAccountSeed(activeAccount, password);
+            const res = await walletFacade.sendStaking(mnemonic, activeAccount.type as WalletVersion, action);
+            if (!res.success) throw new Error(res.error || 'Transaction failed');
+
+            transactionTracker.track({
+                hash: res.hash,
+                queryId: res.queryId,
+                amount: fromNano(getStakingValue(action)),
+                recipient: action.pool.address,
+                tokenSymbol: 'TON',
+                walletAddress,
+                walletVersion: activeAccount.type,
+                network: 'mainnet',
+            });
+            setTrackedTxs(transactionTracker.getAll());
+
+            setTimeout(refreshData, 3000);
+            setTimeout(refreshStaking, 10000);
+            return res;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Swaps: a routed quote goes out one stage at a time; a stage that spends an
+    // intermediate token waits until the previous stage has delivered it
+    const sendSwap = async (quote: SwapQuote, password: string) => {
+        setIsLoading(true);
+        try {
+            if (!activeAccount) throw new Error('No active account');
+            if (activeAccount.watchOnly) throw new Error('Watch-only accounts sign with the cold signer');
+
+            const mnemonic = await decryptAccountSeed(activeAccount, password);
+            const result = await executeSwap(activeAccount, mnemonic, quote);
+
+            setTimeout(refreshData, 3000);
+            return result;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const executeSwap = async (account: WalletAccount, mnemonic: string[], quote: SwapQuote): Promise<TransactionResult> => {
+        const owner = account.address;
+        const stages = await swapService.buildRouteTransactions(quote, owner);
+        let result: TransactionResult = { success: false, error: 'Empty swap route' };
+        let balancesBefore: Record<string, bigint> = {};
+        let tonSpent = 0n;
+
+        for (let stage = 0; stage < stages.length; stage++) {
+            const legs = (quote.route || []).filter(leg => leg.stage === stage);
+
+            if (stage > 0) {
+                // Each intermediate token must cover what this stage spends
+                for (const symbol of Array.from(new Set(legs.map(leg => leg.fromToken)))) {
+                    const token = swapService.getToken(symbol)!;
+                    const needed = legs
+                        .filter(leg => leg.fromToken === symbol)
+                        .reduce((sum, leg) => sum + walletFacade.parseJettonAmount(leg.inputAmount, token.decimals), 0n);
+                    const spent = symbol === 'TON' ? tonSpent : 0n;
+                    await waitForSwapBalance(owner, symbol, balancesBefore[symbol] - spent + needed);
+                }
+            }
+
+            // Snapshot what the next stage spends before this one changes it
+            const next = (quote.route || []).filter(leg => leg.stage === stage + 1);
+            balancesBefore = {};
+            for (const symbol of Array.from(new Set(next.map(leg => leg.fromToken)))) {
+                balancesBefore[symbol] = await getSwapBalance(owner, symbol);
+            }
+            tonSpent = stages[stage].reduce((sum, tx) => sum + BigInt(tx.value ?? tx.gasAmount ?? '0'), 0n);
+
+            const messages = await Promise.all(stages[stage].map(tx => toSwapMessage(owner, tx)));
+            result = await walletFacade.sendMessages(mnemonic, account.type as WalletVersion, messages);
+            if (!result.success) throw new Error(result.error || 'Swap transaction failed');
+
+            transactionTracker.track({
+                hash: result.hash,
+                queryId: result.queryId,
+                amount: legs.length > 0 ? legs[0].inputAmount : quote.inputAmount,
+                recipient: stages[stage][0].to || stages[stage][0].destination || '',
+                tokenSymbol: legs.length > 0 ? legs[0].fromToken : quote.fromToken,
+                walletAddress: owner,
+                walletVersion: account.type,
+                network: 'mainnet',
+            });
+            setTrackedTxs(transactionTracker.getAll());
+        }
+
+        return result;
+    };
+
+    // Internal message for one swap leg: TON straight to the DEX, jettons (and LP burns) through the owner's jetton wallet
+    const toSwapMessage = async (owner: string, tx: SwapTransaction): Promise<MessageRelaxed> => {
+        if (tx.type === 'jetton_burn') {
+            const jettonWalletAddress = await walletFacade.getJettonWalletAddress(owner, tx.jettonMaster!);
+            if (!jettonWalletAddress) throw new Error('No LP jetton wallet to burn from');
+            return internal({ to: Address.parse(jettonWalletAddress), value: BigInt(tx.gasAmount!), body: tx.body!, bounce: true });
+        }
+
+        if (tx.type === 'jetton_transfer') {
+            const jettonWalletAddress = await walletFacade.getJettonWalletAddress(owner, tx.jettonMaster!);
+            if (!jettonWalletAddress) throw new Error('No jetton wallet to swap from');
+
+            return walletFacade.buildJettonMessage(owner, {
+                jettonWalletAddress,
+                to: tx.destination!,
+                amount: BigInt(tx.amount!),
+                forwardAmount: BigInt(tx.forwardAmount!),
+                forwardPayload: tx.forwardPayload ? Cell.fromBase64(tx.forwardPayload) : undefined,
+                gasAmount: BigInt(tx.gasAmount!),
+            });
+        }
+
+        if (!tx.to || !tx.value || !tx.body) throw new Error('Failed to build swap transaction - missing address or value');
+        return internal({ to: Address.parse(tx.to), value: BigInt(tx.value), body: tx.body, bounce: true });
+    };
+
+    const getSwapBalance = async (owner: string, symbol: string): Promise<bigint> => {
+        const token = swapService.getToken(symbol)!;
+        if (token.address === 'native') {
+            return walletFacade.getClient().getBalance(Address.parse(owner));
+        }
+        return (await walletFacade.getJettonBalance(owner, token.address))?.balance ?? 0n;
+    };
+
+    const waitForSwapBalance = async (owner: string, symbol: string, target: bigint) => {
+        const deadline = Date.now() + SWAP_STAGE_TIMEOUT;
+        while ((await getSwapBalance(owner, symbol)) < target) {
+            if (Date.now() > deadline) {
+                throw new Error(`${symbol} from the first swap leg has not arrived; it stays in your wallet`);
+            }
+            await new Promise(resolve => setTimeout(resolve, SWAP_STAGE_POLL));
+        }
+    };
+
+    // Swap orders: limit, DCA and TWAP orders run while the user has authorised a session;
+    // the session's executor keeps the account's keys in memory until it expires
+    const refreshSwapOrders = () => {
+        if (!activeAccount) return;
+        setSwapOrders(swapOrderEngine.getOrders(activeAccount.id));
+        setSwapOrderSessionUntil(swapOrderEngine.getSessionExpiry(activeAccount.id));
+    };
+
+    const placeSwapOrder = (order: SwapOrderRequest) => {
+        if (!activeAccount) throw new Error('No active account');
+        if (activeAccount.watchOnly) throw new Error('Watch-only accounts cannot run swap orders');
+
+        const placed = swapOrderEngine.placeOrder(activeAccount.id, order);
+        refreshSwapOrders();
+        return placed;
+    };
+
+    const cancelSwapOrder = (id: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        swapOrderEngine.cancelOrder(activeAccount.id, id);
+        refreshSwapOrders();
+    };
+
+    const authorizeSwapOrders = async (password: string, hours: number) => {
+        if (!activeAccount) throw new Error('No active account');
+        if (activeAccount.watchOnly) throw new Error('Watch-only accounts cannot run swap orders');
+
+        const account = activeAccount;
+        const mnemonic = await decryptAccountSeed(account, password);
+        swapOrderEngine.authorize(account.id, (quote: SwapQuote) => executeSwap(account, mnemonic, quote), hours * 3600 * 1000);
+        refreshSwapOrders();
+        runSwapOrders();
+    };
+
+    const revokeSwapOrders = () => {
+        if (!activeAccount) return;
+        swapOrderEngine.revoke(activeAccount.id);
+        refreshSwapOrders();
+    };
+
+    const runSwapOrders = async () => {
+        if (!activeAccount) return;
+        const changed = await swapOrderEngine.runDue(activeAccount.id);
+        if (changed.length > 0) setTimeout(refreshData, 3000);
+        refreshSwapOrders();
+    };
+
+    // Liquidity: deposits are recorded until LP tokens arrive or the DEX refunds them;
+    // positions are the LP jettons held, valued at the pools' reserves
+    const refreshLiquidity = async () => {
+        if (!walletAddress || !activeAccount) return;
+        const [pools, balances, history] = await Promise.all([
+            swapService.getLiquidityPools(),
+            walletFacade.getJettonBalances(walletAddress),
+            walletFacade.getTransactions(walletAddress, 50),
+        ]);
+
+        liquidityTracker.resolveProvisions(activeAccount.id, balances, history);
+        setLiquidityPools(pools);
+        setLiquidityPositions(liquidityTracker.getPositions(activeAccount.id, pools, balances));
+        setLiquidityProvisions(liquidityTracker.getProvisions(activeAccount.id));
+    };
+
+    const sendLiquidity = async (action: LiquidityAction, password: string) => {
+        setIsLoading(true);
+        try {
+            if (!activeAccount) throw new Error('No active account');
+            if (activeAccount.watchOnly) throw new Error('Watch-only accounts sign with the cold signer');
+
+            const mnemonic = await decryptAccountSeed(activeAccount, password);
+            const owner = activeAccount.address;
+            const version = activeAccount.type as WalletVersion;
+            let res: TransactionResult;
+
+            if (action.kind === 'provide') {
+                const lpBefore = (await walletFacade.getJettonBalance(owner, action.pool.address))?.balance ?? 0n;
+                const txs = await swapService.buildProvideLiquidityTransactions(action.quote, owner);
+                res = await walletFacade.sendMessages(mnemonic, version, await Promise.all(txs.map(tx => toSwapMessage(owner, tx))));
+                if (!res.success) throw new Error(res.error || 'Transaction failed');
+
+                liquidityTracker.recordProvision(activeAccount.id, action.quote, action.pool, lpBefore, res.hash);
+            } else {
+                const tx = swapService.buildRemoveLiquidityTransaction(action.pool.address, action.lpAmount, owner);
+                res = await walletFacade.sendMessages(mnemonic, version, [await toSwapMessage(owner, tx)]);
+                if (!res.success) throw new Error(res.error || 'Transaction failed');
+
+                liquidityTracker.recordWithdrawal(activeAccount.id, action.pool.address, BigInt(tx.amount!));
+            }
+
+            transactionTracker.track({
+                hash: res.hash,
+                queryId: res.queryId,
+                amount: action.kind === 'provide' ? action.quote.amounts[0] : action.lpAmount,
+                recipient: action.kind === 'provide' ? action.quote.poolAddress : action.pool.address,
+                tokenSymbol: action.kind === 'provide' ? action.quote.tokens[0] : getLpTokenLabel(action.pool).symbol,
+                walletAddress: owner,
+                walletVersion: activeAccount.type,
+                network: 'mainnet',
+            });
+            setTrackedTxs(transactionTracker.getAll());
+            setLiquidityProvisions(liquidityTracker.getProvisions(activeAccount.id));
+
+            // LP tokens (or refunds) arrive after the DEX has processed both sides
+            setTimeout(refreshData, 3000);
+            setTimeout(refreshLiquidity, 15000);
+            setTimeout(refreshLiquidity, 60000);
+            return res;
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
     // Helper to refresh data
-    const sendTransaction = async (recipient: string, amount: string, password: string, comment?: string, token?: any) => {
+    const sendTransaction = async (recipient: string, amount: string, password: string, comment?: string, token?: any, gaslessQuote?: GaslessQuote) => {
         setIsLoading(true);
         try {
             if (!activeAccount) throw new Error('No active account');
+            if (activeAccount.watchOnly) throw new Error('Watch-only accounts sign with the cold signer');
+            addressBook.requireMemo(activeAccount.id, recipient, comment);
 
             // Verify Password
             localStorage.setItem('wallet_password_hash', activeAccount.passwordHash);
@@ -105,22 +918,46 @@ export function WalletProvider({ children }: { children: ReactNode }) {
 
             // Send
             let res;
-            if (token && token.symbol !== 'TON') {
+            if (gaslessQuote) {
+                if (!token?.walletAddress || !token?.masterAddress) throw new Error(`Missing jetton addresses for ${token?.symbol}`);
+                res = await walletFacade.sendGaslessJetton(mnemonic, gaslessQuote, {
+                    jettonMaster: token.masterAddress,
+                    jettonWalletAddress: token.walletAddress,
+                    to: recipient,
+                    amount: walletFacade.parseJettonAmount(amount, token.decimals || 6),
+                    comment: comment || '',
+                });
+            } else if (token && token.symbol !== 'TON') {
                 if (!token.walletAddress) throw new Error(`Missing wallet address for ${token.symbol}`);
 
                 console.log(`Sending Jetton ${token.symbol} (${token.walletAddress}) -> ${recipient}`);
 
-                res = await walletService.sendJettonTransfer(
-                    mnemonic,
-                    activeAccount.type,
-                    token.walletAddress,
-                    recipient,
-                    Number(amount),
-                    token.decimals || 6,
-                    comment || ''
-                );
+                res = await walletFacade.sendJetton(mnemonic, activeAccount.type as WalletVersion, {
+                    jettonWalletAddress: token.walletAddress,
+                    to: recipient,
+                    amount: walletFacade.parseJettonAmount(amount, token.decimals || 6),
+                    comment: comment || '',
+                });
             } else {
-                res = await walletService.sendTransaction(mnemonic, activeAccount.type, recipient, amount, comment || '');
+                res = await walletFacade.sendTon(mnemonic, activeAccount.type as WalletVersion, recipient, toNano(amount), comment || '');
+            }
+
+            if (!res.success) throw new Error(res.error || 'Transaction failed');
+
+            // Follow the send on-chain until it is confirmed, bounced or failed.
+            // Gasless requests are re-wrapped by the relayer, so their hash never lands on-chain.
+            if (!gaslessQuote) {
+                transactionTracker.track({
+                    hash: res.hash,
+                    queryId: res.queryId,
+                    amount,
+                    recipient,
+                    tokenSymbol: token?.symbol || 'TON',
+                    walletAddress,
+                    walletVersion: activeAccount.type,
+                    network: 'mainnet',
+                });
+                setTrackedTxs(transactionTracker.getAll());
             }
 
             // Refresh balance multiple times to catch confirmation
@@ -135,10 +972,243 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         }
     };
 
+    // Publish the registry's list to the swap service and the UI
+    const syncTokenRegistry = (): RegistryToken[] => {
+        const list = tokenRegistry.getTokens('mainnet');
+        swapService.setTokens(list);
+        setRegistryTokens(list);
+        return list;
+    };
+
+    // Home list row for a registry token the account does not hold
+    const emptyTokenRow = (token: RegistryToken) => ({
+        name: token.name,
+        symbol: token.symbol,
+        balance: '0.00',
+        value: '$0.00',
+        icon: token.icon,
+        price: 0,
+        diff: '0.00%',
+        rawBalance: 0,
+        masterAddress: token.address,
+        decimals: token.decimals,
+        verified: token.verified,
+        imported: true,
+    });
+
+    const validateJetton = async (masterAddress: string) => {
+        return tokenRegistry.validateJetton('mainnet', masterAddress);
+    };
+
+    const importJetton = async (masterAddress: string) => {
+        const token = await tokenRegistry.importJetton('mainnet', masterAddress);
+        syncTokenRegistry();
+        if (token.source === 'imported') {
+            setTokens((prev: any[]) => [...prev, emptyTokenRow(token)]);
+        }
+        return token;
+    };
+
+    const removeImportedJetton = (masterAddress: string) => {
+        tokenRegistry.removeImported('mainnet', masterAddress);
+        syncTokenRegistry();
+        setTokens((prev: any[]) => prev.filter(t => !(t.imported && sameTokenAddress(t.masterAddress, masterAddress))));
+    };
+
+    // Payouts: jobs are confirmed chunk by chunk on every tick; new chunks are only
+    // signed while the user has authorised a session for the highload account
+    const refreshPayouts = () => {
+        if (!activeAccount) return;
+        setPayoutJobs(payoutEngine.getJobs(activeAccount.id));
+        setPayoutSessionUntil(payoutEngine.getSessionExpiry(activeAccount.id));
+    };
+
+    const requirePayoutAccount = (): WalletAccount => {
+        if (!activeAccount) throw new Error('No active account');
+        if (activeAccount.watchOnly) throw new Error('Watch-only accounts cannot run payouts');
+        if (activeAccount.type !== 'highload-v3') throw new Error('Payouts need a Highload V3 account');
+        return activeAccount;
+    };
+
+    const planPayout = async (text: string) => {
+        return payoutEngine.planPayout(text, registryTokens);
+    };
+
+    const createPayout = (plan: PayoutPlan, name?: string) => {
+        const account = requirePayoutAccount();
+        if (!walletAddress) throw new Error('No active account');
+
+        const job = payoutEngine.createJob(account.id, walletAddress, plan, name);
+        refreshPayouts();
+        return job;
+    };
+
+    const cancelPayout = (id: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        payoutEngine.cancelJob(activeAccount.id, id);
+        refreshPayouts();
+    };
+
+    const removePayout = (id: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        payoutEngine.removeJob(activeAccount.id, id);
+        refreshPayouts();
+    };
+
+    const authorizePayouts = async (password: string, hours: number) => {
+        const account = requirePayoutAccount();
+        const mnemonic = await decryptAccountSeed(account, password);
+        const wallet = await walletFacade.importWallet(mnemonic, 'highload-v3');
+
+        payoutEngine.authorize(
+            account.id,
+            (recipients: PayoutRecipient[], createdAt: number) => signPayoutChunk(wallet.keyPair, wallet.address, recipients, createdAt),
+            hours * 3600 * 1000
+        );
+        refreshPayouts();
+        runPayouts();
+    };
+
+    const revokePayouts = () => {
+        if (!activeAccount) return;
+        payoutEngine.revoke(activeAccount.id);
+        refreshPayouts();
+    };
+
+    const runPayouts = async () => {
+        if (!activeAccount) return;
+        try {
+            const changed = await payoutEngine.runDue(activeAccount.id);
+            if (changed.some((job: PayoutJob) => getPayoutStatus(job) !== 'running')) setTimeout(refreshData, 3000);
+        } catch (e) {
+            console.warn('Payout run failed:', e);
+        }
+        refreshPayouts();
+    };
+
+    // Invoices are matched on the account's own incoming transfers, so watch-only accounts can invoice too
+    const refreshInvoices = () => {
+        if (!activeAccount) return;
+        setInvoices(invoiceService.getInvoices(activeAccount.id));
+        setInvoiceWebhookState(invoiceService.getWebhook(activeAccount.id));
+    };
+
+    const createInvoice = (params: CreateInvoiceParams) => {
+        if (!activeAccount) throw new Error('No active account');
+        const invoice = invoiceService.createInvoice(activeAccount.id, params);
+        refreshInvoices();
+        return invoice;
+    };
+
+    const cancelInvoice = (id: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        invoiceService.cancelInvoice(activeAccount.id, id);
+        refreshInvoices();
+    };
+
+    const checkInvoices = async () => {
+        if (!activeAccount || !walletAddress) return;
+        const changed = await invoiceService.check(activeAccount.id, walletAddress);
+        if (changed.some((invoice: Invoice) => invoice.payments.length > 0)) setTimeout(refreshData, 3000);
+        refreshInvoices();
+    };
+
+    const getInvoiceLink = (invoice: Invoice) => {
+        if (!walletAddress) throw new Error('No active account');
+        return invoiceService.getInvoiceLink(invoice, walletAddress);
+    };
+
+    const setInvoiceWebhook = (url: string | null) => {
+        if (!activeAccount) throw new Error('No active account');
+        invoiceService.setWebhook(activeAccount.id, url);
+        refreshInvoices();
+    };
+
+    const refreshContacts = () => {
+        if (!activeAccount) return;
+        setContacts(addressBook.getContacts(activeAccount.id));
+    };
+
+    const saveContact = (input: ContactInput) => {
+        if (!activeAccount) throw new Error('No active account');
+        const contact = addressBook.saveContact(activeAccount.id, input);
+        refreshContacts();
+        return contact;
+    };
+
+    const removeContact = (id: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        addressBook.removeContact(activeAccount.id, id);
+        refreshContacts();
+    };
+
+    // Recipients already sent to (from the loaded history) are not new
+    const checkRecipient = async (address: string) => {
+        if (!activeAccount) throw new Error('No active account');
+        const history = transactions
+            .filter((tx: any) => tx.type === 'sent' && tx.toRaw)
+            .map((tx: any) => tx.toRaw as string);
+        return addressBook.checkRecipient(activeAccount.id, address, 'mainnet', history);
+    };
+
+    // A statement with a start date first loads the history back to it, so a month is complete
+    const buildActivityStatement = async (filter: ActivityFilter, currency = 'usd') => {
+        if (!activeAccount || !walletAddress) throw new Error('No active account');
+        const history = filter.from !== undefined
+            ? await transactionHistory.loadSince(activeAccount.id, walletAddress, 'mainnet', filter.from)
+            : await transactionHistory.getCached(activeAccount.id, 'mainnet');
+        showHistory(history);
+        return statementBuilder.build(history.items, { address: walletAddress, network: 'mainnet', currency, filter, contacts });
+    };
+
+    // Highload administration reads with the public key only, so watch-only accounts can inspect too
+    const getHighloadWallets = async (subwalletIds: number[], timeouts: number[]) => {
+        return walletFacade.discoverHighloadWallets(getActivePublicKey(), subwalletIds, timeouts);
+    };
+
+    const syncHighloadQueryIds = async (subwalletId: number, timeout: number) => {
+        return walletFacade.syncHighloadQueryIds(getActivePublicKey(), subwalletId, timeout);
+    };
+
+    // One chunk as a single highload message: TON straight to the recipients, jettons through the owner's jetton wallets
+    const signPayoutChunk = async (keyPair: KeyPair, owner: string, recipients: PayoutRecipient[], createdAt: number): Promise<SignedHighloadMessage> => {
+        const items: HighloadBatchItem[] = recipients.map((recipient: PayoutRecipient): HighloadBatchItem => recipient.token === 'native'
+            ? { type: 'ton', to: recipient.address, amount: BigInt(recipient.units), comment: recipient.comment }
+            : {
+                type: 'jetton',
+                jettonMaster: recipient.token,
+                to: recipient.address,
+                amount: BigInt(recipient.units),
+                comment: recipient.comment,
+                gasAmount: PAYOUT_JETTON_GAS,
+            });
+
+        const messages = await walletFacade.buildHighloadBatch(owner, items);
+        return walletFacade.signHighloadMessages(keyPair, messages, createdAt);
+    };
+
     // Track last refresh to debounce
     const [lastRefresh, setLastRefresh] = useState<number>(0);
     const REFRESH_COOLDOWN = 5000; // 5 second cooldown between refreshes
 
+    const showHistory = (history: HistoryView) => {
+        setTxs(history.items.map(toActivity));
+        setHasMoreTransactions(history.hasMore);
+    };
+
+    // Older history, a page at a time (infinite scroll)
+    const loadMoreTransactions = async () => {
+        if (!activeAccount || !walletAddress || isLoadingMoreTransactions || !hasMoreTransactions) return;
+        setIsLoadingMoreTransactions(true);
+        try {
+            showHistory(await transactionHistory.loadMore(activeAccount.id, walletAddress, 'mainnet'));
+        } catch (e: any) {
+            console.warn('[WalletContext] Failed to load older transactions:', e?.message);
+        } finally {
+            setIsLoadingMoreTransactions(false);
+        }
+    };
+
     const refreshData = async () => {
         if (!walletAddress) return;
 
@@ -170,8 +1240,18 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             const balTon = balNano / 1e9;
             setBalance(balTon.toFixed(2));
 
-            // 3. Get Jettons
+            // 3. Get Jettons (LP jettons are named and priced from their pools)
             const jettons = await tonApiService.getJettons(walletAddress);
+            tokenRegistry.setHeldJettons('mainnet', jettons);
+            const registry = syncTokenRegistry();
+            const lpPools = await swapService.getLiquidityPools();
+            const lpPoolOf = (master: string | undefined) => {
+                if (!master) return undefined;
+                const address = Address.parse(master);
+                return lpPools.find((pool: PoolEdge) => Address.parse(pool.address).equals(address));
+            };
+            const registryTokenOf = (master: string) =>
+                registry.find((token: RegistryToken) => sameTokenAddress(token.address, master));
 
             // 4. Build Tokens List
             const tokenList: any[] = [];
@@ -185,7 +1265,8 @@ export function WalletProvider({ children }: { children: ReactNode }) {
                 icon: 'https://raw.githubusercontent.com/trustwallet/assets/master/blockchains/ton/info/logo.png',
                 price: tonPrice,
                 diff: tonDiff,
-                rawBalance: balTon
+                rawBalance: balTon,
+                verified: true
             });
 
             // Add USDT/Others
@@ -198,16 +1279,20 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             jettons.forEach((j: any) => {
                 const amount = j.balance / Math.pow(10, j.jetton.decimals);
                 const symbol = j.jetton.symbol;
+                const lpPool = lpPoolOf(j.jetton.address);
+                const lpLabel = lpPool ? getLpTokenLabel(lpPool) : null;
 
                 // Normalize USDT symbol for consistent display
-                const displaySymbol = isUsdtSymbol(symbol) ? 'USD₮' : symbol;
-                const price = isUsdtSymbol(symbol) ? usdtPrice : 0;
+                const displaySymbol = lpLabel ? lpLabel.symbol : isUsdtSymbol(symbol) ? 'USD₮' : symbol;
+                const price = lpPool
+                    ? getLpTokenPrice(lpPool, { TON: tonPrice, USDT: usdtPrice })
+                    : isUsdtSymbol(symbol) ? usdtPrice : 0;
                 const val = amount * price;
 
                 totalUsd += val;
 
                 tokenList.push({
-                    name: j.jetton.name,
+                    name: lpLabel ? lpLabel.name : j.jetton.name,
                     symbol: displaySymbol,
                     balance: amount.toFixed(2),
                     value: `$${val.toFixed(2)}`,
@@ -216,10 +1301,17 @@ export function WalletProvider({ children }: { children: ReactNode }) {
                     diff: isUsdtSymbol(symbol) ? usdtDiff : '0.00%',
                     rawBalance: amount,
                     walletAddress: j.wallet_address?.address, // Store jetton wallet address
-                    decimals: j.jetton.decimals || 9
+                    masterAddress: j.jetton.address,
+                    decimals: j.jetton.decimals || 9,
+                    verified: registryTokenOf(j.jetton.address)?.verified ?? false
                 });
             });
 
+            // Imported jettons stay listed while not held
+            registry
+                .filter((token: RegistryToken) => token.source === 'imported')
+                .forEach((token: RegistryToken) => tokenList.push(emptyTokenRow(token)));
+
             // Only add fallback USDT if no USDT variant found
             const hasUsdt = tokenList.some(t => isUsdtSymbol(t.symbol));
             if (!hasUsdt) {
@@ -231,59 +1323,18 @@ export function WalletProvider({ children }: { children: ReactNode }) {
                     icon: 'https://tether.to/images/logoCircle.png',
                     price: usdtPrice,
                     diff: usdtDiff,
-                    rawBalance: 0
+                    rawBalance: 0,
+                    verified: true
                 });
             }
 
             setTokens(tokenList);
             setTotalBalanceUSDT(totalUsd.toFixed(2));
 
-            // 5. Get Transactions
-            const txs = await tonApiService.getTransactions(walletAddress);
-            const formattedTxs = txs.map((tx: any) => {
-                // Convert 'incoming'/'outgoing' to 'received'/'sent'
-                let type = 'sent';
-                if (tx.type === 'incoming') {
-                    type = 'received';
-                } else if (tx.type === 'outgoing') {
-                    type = 'sent';
-                }
-
-                // Convert raw amount to formatted string based on decimals
-                const decimals = tx.decimals || 9;
-                const amountVal = tx.amount ? (tx.amount / Math.pow(10, decimals)) : 0;
-
-                // Format with appropriate precision
-                // For small amounts (< 0.01), show more decimals
-                // For USDT (6 decimals), usually 2 is fine, but if small, show more
-                const formattedAmount = amountVal.toFixed(amountVal < 0.01 ? Math.min(decimals, 6) : 2);
-
-                // Parse timestamp (API returns Unix timestamp in seconds)
-                let timeString = 'Unknown';
-                if (tx.timestamp) {
-                    try {
-                        const date = new Date(tx.timestamp * 1000);
-                        if (!isNaN(date.getTime())) {
-                            timeString = date.toLocaleString();
-                        }
-                    } catch (e) {
-                        console.warn('Failed to parse timestamp:', tx.timestamp);
-                    }
-                }
-
-                return {
-                    ...tx,
-                    type,
-                    amount: formattedAmount,
-                    token: tx.jetton || 'TON',
-                    time: timeString,
-                    from: type === 'received' ? tx.from : tx.to,
-                    to: type === 'sent' ? tx.to : tx.from,
-                    status: 'completed'
-                };
-            });
-
-            setTxs(formattedTxs);
+            // 5. Get Transactions: new events merged into the cached history
+            if (activeAccount) {
+                showHistory(await transactionHistory.refresh(activeAccount.id, walletAddress, 'mainnet'));
+            }
         } catch (e: any) {
             // Check if this is a network-related error
             const errorMessage = e?.message?.toLowerCase() || '';
@@ -303,6 +1354,67 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         }
     };
 
+    // Tracked sends: re-render on status changes, refresh once a send settles
+    useEffect(() => {
+        const unsubscribe = transactionTracker.on(TransactionEvent.STATUS_CHANGED, ({ tx }: any) => {
+            setTrackedTxs(transactionTracker.getAll());
+            if (tx.status !== 'pending' && tx.status !== 'confirming' && isLoggedIn && walletAddress) {
+                refreshData();
+            }
+        });
+        return unsubscribe;
+    }, [isLoggedIn, walletAddress]);
+
+    // Owned domains load once per account; renewal reminders are computed from them
+    useEffect(() => {
+        setDomains([]);
+        if (isLoggedIn && walletAddress) {
+            refreshDomains().catch((e: any) => console.warn('[WalletContext] Failed to load domains:', e?.message));
+        }
+    }, [isLoggedIn, walletAddress]);
+
+    // Staking positions load once per account and after each staking send
+    useEffect(() => {
+        setStakingPositions([]);
+        if (isLoggedIn && walletAddress) {
+            refreshStaking().catch((e: any) => console.warn('[WalletContext] Failed to load staking:', e?.message));
+        }
+    }, [isLoggedIn, walletAddress]);
+
+    // Swaps read DeDust vaults from chain and trade the registry's tokens
+    useEffect(() => {
+        swapService.setClient(walletFacade.getClient());
+        syncTokenRegistry();
+    }, []);
+
+    // Liquidity positions load once per account; pending deposits settle on each load
+    useEffect(() => {
+        setLiquidityPositions([]);
+        setLiquidityProvisions([]);
+        if (isLoggedIn && walletAddress) {
+            refreshLiquidity().catch((e: any) => console.warn('[WalletContext] Failed to load liquidity:', e?.message));
+        }
+    }, [isLoggedIn, walletAddress]);
+
+    // Reverse-resolve counterparties in the activity list; misses are cached too
+    useEffect(() => {
+        const pending = Array.from(new Set(transactions.flatMap((tx: any) => [tx.from, tx.to])))
+            .filter((address: any) => typeof address === 'string' && Address.isFriendly(address) && !(address in domainNames))
+            .slice(0, REVERSE_RESOLVE_BATCH) as string[];
+        if (pending.length === 0) return;
+        let cancelled = false;
+
+        (async () => {
+            const names: Record<string, string | null> = {};
+            for (const address of pending) {
+                names[address] = await walletFacade.reverseResolve(address);
+            }
+            if (!cancelled) setDomainNames((current: Record<string, string | null>) => ({ ...current, ...names }));
+        })();
+
+        return () => { cancelled = true; };
+    }, [transactions]);
+
     // Periodical Refresh - 60 second interval to avoid rate limiting (429 errors)
     useEffect(() => {
         if (isLoggedIn && walletAddress) {
@@ -312,6 +1424,54 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         }
     }, [isLoggedIn, walletAddress]);
 
+    // Swap orders: due orders run every tick while a session is authorised;
+    // sent swaps are confirmed every tick, with or without a session
+    const hasPendingSwap = swapOrders.some((order: SwapOrder) => order.pending !== undefined);
+    useEffect(() => {
+        if (!activeAccount) return;
+        refreshSwapOrders();
+        if (!swapOrderSessionUntil && !hasPendingSwap) return;
+        const interval = setInterval(runSwapOrders, SWAP_ORDER_TICK);
+        return () => clearInterval(interval);
+    }, [activeAccount?.id, swapOrderSessionUntil, hasPendingSwap]);
+
+    // Payouts: running jobs are confirmed every tick, with or without a session
+    const hasRunningPayout = payoutJobs.some((job: PayoutJob) => getPayoutStatus(job) === 'running');
+    useEffect(() => {
+        if (!activeAccount) return;
+        refreshPayouts();
+        if (!hasRunningPayout) return;
+        runPayouts();
+        const interval = setInterval(runPayouts, PAYOUT_TICK);
+        return () => clearInterval(interval);
+    }, [activeAccount?.id, payoutSessionUntil, hasRunningPayout]);
+
+    // Invoices: open invoices are checked every tick
+    const hasOpenInvoice = invoices.some((invoice: Invoice) => invoice.status === 'pending' || invoice.status === 'underpaid');
+    useEffect(() => {
+        if (!activeAccount) return;
+        refreshInvoices();
+        if (!hasOpenInvoice || !walletAddress) return;
+        const interval = setInterval(() => checkInvoices().catch((e: any) => console.warn('Invoice check failed:', e)), INVOICE_TICK);
+        return () => clearInterval(interval);
+    }, [activeAccount?.id, walletAddress, hasOpenInvoice]);
+
+    useEffect(() => {
+        refreshContacts();
+    }, [activeAccount?.id]);
+
+    // Show the cached history while the first refresh is under way
+    useEffect(() => {
+        if (!activeAccount) return;
+        let cancelled = false;
+        transactionHistory.getCached(activeAccount.id, 'mainnet').then((history: HistoryView) => {
+            if (cancelled || history.items.length === 0) return;
+            setTxs((current: any[]) => current.length > 0 ? current : history.items.map(toActivity));
+            setHasMoreTransactions(history.hasMore);
+        });
+        return () => { cancelled = true; };
+    }, [activeAccount?.id]);
+
     // Actions
 
     const selectAccount = (id: string) => {
@@ -325,6 +1485,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             setWalletAddress(account.address || null);
             setBalance('0.00');
             setTxs([]);
+            setHasMoreTransactions(false);
             setTokens([]);
             // Keep logged in if already logged in
             // Data will refresh automatically via useEffect
@@ -336,7 +1497,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     const createWallet = async (password: string, existingMnemonic?: string[], name: string = 'My Wallet') => {
         setIsLoading(true);
         try {
-            const mnemonic = existingMnemonic || await walletService.generateMnemonic();
+            const mnemonic = existingMnemonic || await walletFacade.generateMnemonic();
             await addAccount(name, mnemonic, password);
             return mnemonic;
         } catch (e) {
@@ -355,7 +1516,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         setIsLoading(true);
         try {
             // Generate new mnemonic if not provided
-            const actualMnemonic = mnemonic.length > 0 ? mnemonic : await walletService.generateMnemonic();
+            const actualMnemonic = mnemonic.length > 0 ? mnemonic : await walletFacade.generateMnemonic();
 
             // Setup password and get security data (hash + salt)
             await securityService.setupPassword(password);
@@ -366,7 +1527,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             const encrypted = await securityService.encryptData(seedStr, password);
 
             // Get Address
-            const wallet = await walletService.importWallet(actualMnemonic, 'v4r2');
+            const wallet = await walletFacade.importWallet(actualMnemonic, 'v4r2');
 
             // Add to Manager - store full security data (hash + salt)
             const newAccount = accountManager.addAccount({
@@ -374,7 +1535,8 @@ export function WalletProvider({ children }: { children: ReactNode }) {
                 type: 'v4r2',
                 encryptedSeed: encrypted,
                 passwordHash: JSON.stringify(securityData), // Store full security data
-                address: wallet.address
+                address: wallet.address,
+                publicKey: wallet.publicKey
             });
 
             // Refresh list
@@ -393,11 +1555,65 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         }
     };
 
+    // Pair with a cold signer: the account keeps the public key only
+    const addWatchOnlyAccount = (name: string, signer: ColdSignerAccount) => {
+        const publicKey = Buffer.from(signer.publicKey, 'hex');
+        const address = walletFacade.getAddress(publicKey, signer.walletVersion);
+        if (!Address.parse(address).equals(Address.parse(signer.address))) {
+            throw new Error('Signer address does not match its public key');
+        }
+
+        saveWatchOnlyAccount(name, { address, type: signer.walletVersion, publicKey: signer.publicKey });
+    };
+
+    // Watch a wallet by friendly/raw address, or by public key plus version
+    const importWatchOnlyAccount = async (name: string, input: string, version?: WalletVersion) => {
+        setIsLoading(true);
+        try {
+            saveWatchOnlyAccount(name, await watchOnlyService.resolve(input, version));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const assertNewAccount = (address: string) => {
+        const existing = accountManager.getAccounts().find((account: WalletAccount) =>
+            account.address && Address.parse(account.address).equals(Address.parse(address))
+        );
+        if (existing) {
+            throw new Error(`This wallet is already added as "${existing.name}"`);
+        }
+    };
+
+    const saveWatchOnlyAccount = (name: string, target: WatchOnlyTarget | Pick<WalletAccount, 'address' | 'type'>) => {
+        assertNewAccount(target.address);
+
+        const newAccount = accountManager.addAccount({
+            name,
+            type: target.type,
+            address: target.address,
+            publicKey: 'publicKey' in target ? target.publicKey : undefined,
+            watchOnly: true,
+        });
+
+        setAccounts(accountManager.getAccounts());
+        selectAccount(newAccount.id);
+        setIsLoggedIn(true);
+        setWalletAddress(target.address);
+    };
+
     const unlockWallet = async (password: string) => {
         setIsLoading(true);
         try {
             if (!activeAccount) throw new Error('No active account');
 
+            // Nothing to decrypt for watch-only accounts
+            if (activeAccount.watchOnly) {
+                setWalletAddress(activeAccount.address);
+                setIsLoggedIn(true);
+                return true;
+            }
+
             // Verify password by attempting to decrypt the seed
             // If decryption succeeds, password is correct
             let seedStr: string;
@@ -416,13 +1632,14 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             }
 
             const type = activeAccount.type;
-            const wallet = await walletService.importWallet(mnemonic, type);
+            const wallet = await walletFacade.importWallet(mnemonic, type as WalletVersion);
             setWalletAddress(wallet.address);
 
-            // Update address in storage if missing
-            if (!activeAccount.address) {
-                accountManager.updateAccount(activeAccount.id, { address: wallet.address });
+            // Update address / public key in storage if missing
+            if (!activeAccount.address || !activeAccount.publicKey) {
+                accountManager.updateAccount(activeAccount.id, { address: wallet.address, publicKey: wallet.publicKey });
                 setAccounts(accountManager.getAccounts());
+                setActiveAccount({ ...activeAccount, address: wallet.address, publicKey: wallet.publicKey });
             }
 
             setIsLoggedIn(true);
@@ -436,10 +1653,20 @@ export function WalletProvider({ children }: { children: ReactNode }) {
 
     const getDecryptedSeed = async (password: string) => {
         if (!activeAccount) throw new Error('No active account');
+        if (activeAccount.watchOnly) throw new Error('Watch-only accounts have no secret phrase');
         setIsLoading(true);
+        try {
+            return await decryptAccountSeed(activeAccount, password);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Decrypt the seed of any seed account (multisig members sign for the active multisig)
+    const decryptAccountSeed = async (account: WalletAccount, password: string) => {
         try {
             // Verify by attempting decryption - will throw if password wrong
-            const seedStr = await securityService.decryptData(activeAccount.encryptedSeed, password);
+            const seedStr = await securityService.decryptData(account.encryptedSeed, password);
             const mnemonic = seedStr.split(' ');
 
             if (mnemonic.length !== 24) {
@@ -449,15 +1676,13 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             return mnemonic;
         } catch (e) {
             throw new Error('Invalid password');
-        } finally {
-            setIsLoading(false);
         }
     };
 
     const getPrivateKey = async (password: string) => {
         // Reuse getDecryptedSeed logic
         const mnemonic = await getDecryptedSeed(password);
-        return await walletService.getPrivateKey(mnemonic);
+        return await walletFacade.getPrivateKey(mnemonic);
     };
 
     const switchWalletType = async (newType: string, password: string) => {
@@ -467,7 +1692,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             const mnemonic = await getDecryptedSeed(password); // Verifies pwd
 
             // Re-import
-            const wallet = await walletService.importWallet(mnemonic, newType);
+            const wallet = await walletFacade.importWallet(mnemonic, newType as WalletVersion);
 
             // Update Account
             accountManager.updateAccount(activeAccount.id, { type: newType, address: wallet.address });
@@ -496,6 +1721,12 @@ export function WalletProvider({ children }: { children: ReactNode }) {
 
     const deleteAccount = (id: string) => {
         accountManager.deleteAccount(id);
+        swapOrderEngine.removeAccount(id);
+        payoutEngine.removeAccount(id);
+        invoiceService.removeAccount(id);
+        addressBook.removeAccount(id);
+        transactionHistory.removeAccount(id);
+        liquidityTracker.removeAccount(id);
         const updated = accountManager.getAccounts();
         setAccounts(updated);
 
@@ -518,6 +1749,12 @@ export function WalletProvider({ children }: { children: ReactNode }) {
 
         // Delete the current account from storage
         accountManager.deleteAccount(currentId);
+        swapOrderEngine.removeAccount(currentId);
+        payoutEngine.removeAccount(currentId);
+        invoiceService.removeAccount(currentId);
+        addressBook.removeAccount(currentId);
+        transactionHistory.removeAccount(currentId);
+        liquidityTracker.removeAccount(currentId);
 
         // Get remaining accounts
         const remainingAccounts = accountManager.getAccounts();
@@ -531,6 +1768,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
             setIsLoggedIn(false);
             setWalletAddress(null);
             setTxs([]);
+            setHasMoreTransactions(false);
             setBalance('0.00');
             setTokens([]);
             setActiveAccount(null);
@@ -541,6 +1779,7 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         setIsLoggedIn(false);
         setWalletAddress(null);
         setTxs([]);
+        setHasMoreTransactions(false);
         setBalance('0.00');
         setAccounts([]);
         setActiveAccount(null);
@@ -548,31 +1787,141 @@ export function WalletProvider({ children }: { children: ReactNode }) {
         securityService.clearSecurityData();
     };
 
+    // History with tracked sends: indexed items take the tracked on-chain status,
+    // sends the indexer has not picked up yet are listed first
+    const trackedForWallet = trackedTxs.filter((tx: any) => tx.walletAddress === walletAddress);
+    const trackedByHash = new Map(trackedForWallet.filter((tx: any) => tx.txHash).map((tx: any) => [tx.txHash, tx]));
+    const historyHashes = new Set(transactions.map((tx: any) => tx.hash));
+    const activity = [
+        ...trackedForWallet
+            .filter((tx: any) => !historyHashes.has(tx.txHash))
+            .sort((a: any, b: any) => b.createdAt - a.createdAt)
+            .map((tx: any) => ({
+                hash: tx.txHash || tx.hash || tx.id,
+                type: 'sent',
+                amount: tx.amount,
+                token: tx.tokenSymbol,
+                time: new Date(tx.createdAt).toLocaleString(),
+                from: tx.recipient,
+                to: tx.recipient,
+                fee: '-',
+                status: tx.status,
+                computeExitCode: tx.computeExitCode,
+                actionResultCode: tx.actionResultCode,
+                error: tx.error,
+            })),
+        ...transactions.map((tx: any) => {
+            const tracked: any = trackedByHash.get(tx.hash);
+            return tracked ? {
+                ...tx,
+                status: tracked.status,
+                computeExitCode: tracked.computeExitCode,
+                actionResultCode: tracked.actionResultCode,
+                error: tracked.error,
+            } : tx;
+        }),
+    ];
+
     return (
         <WalletContext.Provider value={{
             isLoggedIn,
             hasPassword: accounts.length > 0, // Simplified: if we have accounts, we have setup
             walletAddress,
             balance,
-            transactions,
+            transactions: activity,
+            hasMoreTransactions,
+            isLoadingMoreTransactions,
+            loadMoreTransactions,
             isLoading,
             walletType,
             tokens,
             totalBalanceUSDT,
             accounts,
             activeAccount,
+            walletFacade,
             createWallet,
             importWallet,
             unlockWallet,
             logout,
             sendTransaction,
+            previewTransaction,
+            quoteGaslessTransfer,
+            previewPayload,
             refreshData,
             resetWallet,
             getDecryptedSeed,
             getPrivateKey,
             switchWalletType,
+            hiddenNfts: activeAccount?.hiddenNfts ?? [],
+            getNfts,
+            resolveNftMetadata,
+            setNftHidden,
+            sendNft,
+            resolveDomain,
+            domainNames,
+            domains,
+            refreshDomains,
+            sendDnsUpdate,
+            stakingPools,
+            stakingPositions,
+            refreshStaking,
+            sendStaking,
+            sendSwap,
+            swapOrders,
+            swapOrderSessionUntil,
+            placeSwapOrder,
+            cancelSwapOrder,
+            authorizeSwapOrders,
+            revokeSwapOrders,
+            liquidityPools,
+            liquidityPositions,
+            liquidityProvisions,
+            refreshLiquidity,
+            sendLiquidity,
+            registryTokens,
+            validateJetton,
+            importJetton,
+            removeImportedJetton,
+            payoutJobs,
+            payoutSessionUntil,
+            planPayout,
+            createPayout,
+            cancelPayout,
+            removePayout,
+            authorizePayouts,
+            revokePayouts,
+            invoices,
+            invoiceWebhook,
+            createInvoice,
+            cancelInvoice,
+            checkInvoices,
+            getInvoiceLink,
+            setInvoiceWebhook,
+            contacts,
+            saveContact,
+            removeContact,
+            checkRecipient,
+            buildActivityStatement,
+            getHighloadWallets,
+            syncHighloadQueryIds,
+            prepareOfflineTransfer,
+            prepareOfflineNft,
+            prepareOfflineDnsUpdate,
+            prepareOfflineStaking,
+            broadcastOfflineTransaction,
+            signOfflineTransaction,
+            getColdSignerAccount,
+            deployMultisig,
+            importMultisigAccount,
+            getMultisigOrders,
+            getMultisigMember,
+            proposeMultisigTransfer,
+            approveMultisigOrder,
+            watchMultisigOrder,
             selectAccount,
             addAccount,
+            addWatchOnlyAccount,
+            importWatchOnlyAccount,
             renameAccount,
             deleteAccount
         }}>
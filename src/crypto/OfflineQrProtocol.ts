@@ -0,0 +1,368 @@
+/**
+ * Offline QR Protocol
+ *
+ * Moves offline signing payloads between an online watch-only device and an
+ * air-gapped signer as an animated sequence of QR frames.
+ *
+ * Frame layout (one QR code each):
+ *
+ *   tonsign:<version>:<kind>:<id>:<index>/<total>:<data>:<crc>
+ *
+ * - kind:   account | unsigned | signed
+ * - id:     CRC32 of the whole payload, shared by all frames of a message
+ * - index:  1-based frame number, total: number of frames
+ * - data:   base64url chunk of the JSON payload
+ * - crc:    CRC32 of everything before the last ':'
+ *
+ * Frames can be scanned in any order and repeatedly; the assembler keeps
+ * the first valid copy of each frame and checks the payload against the id.
+ */
+
+import { Buffer } from 'buffer';
+import type { WalletVersion } from '../types';
+import type { UnsignedTransaction, SignedTransaction } from './OfflineSigningService';
+
+/**
+ * Frame prefix and protocol version
+ */
+const FRAME_PREFIX = 'tonsign';
+const PROTOCOL_VERSION = 1;
+
+/**
+ * Default base64url characters per frame (keeps QR codes readable on phone cameras)
+ */
+const DEFAULT_CHUNK_SIZE = 200;
+
+/**
+ * Payload kinds
+ */
+export type OfflinePayloadKind = 'account' | 'unsigned' | 'signed';
+
+/**
+ * Watch-only account pairing: the signer shares its public key
+ */
+export interface ColdSignerAccount {
+    publicKey: string;     // hex
+    walletVersion: WalletVersion;
+    address: string;
+}
+
+/**
+ * Payload type per kind
+ */
+export interface OfflinePayloadMap {
+    account: ColdSignerAccount;
+    unsigned: UnsignedTransaction;
+    signed: SignedTransaction;
+}
+
+/**
+ * Parsed QR frame
+ */
+export interface QrFrame {
+    kind: OfflinePayloadKind;
+    id: string;
+    index: number;
+    total: number;
+    data: string;
+}
+
+/**
+ * Assembler progress after a scan
+ */
+export interface QrScanProgress {
+    kind: OfflinePayloadKind;
+    received: number;
+    total: number;
+    complete: boolean;
+}
+
+/**
+ * Offline QR Protocol
+ */
+export class OfflineQrProtocol {
+    private readonly chunkSize: number;
+
+    constructor(chunkSize: number = DEFAULT_CHUNK_SIZE) {
+        if (chunkSize < 1) {
+            throw new Error('Chunk size must be positive');
+        }
+        this.chunkSize = chunkSize;
+    }
+
+    /**
+     * Encode a payload into QR frame strings
+     */
+    encode<K extends OfflinePayloadKind>(kind: K, payload: OfflinePayloadMap[K]): string[] {
+        const bytes = serializePayload(payload);
+        const id = crc32Hex(bytes);
+        const data = toBase64Url(bytes);
+
+        const total = Math.max(1, Math.ceil(data.length / this.chunkSize));
+        const frames: string[] = [];
+        for (let i = 0; i < total; i++) {
+            const chunk = data.slice(i * this.chunkSize, (i + 1) * this.chunkSize);
+            const body = `${FRAME_PREFIX}:${PROTOCOL_VERSION}:${kind}:${id}:${i + 1}/${total}:${chunk}`;
+            frames.push(`${body}:${crc32Hex(Buffer.from(body))}`);
+        }
+
+        return frames;
+    }
+
+    /**
+     * Decode an assembled payload
+     */
+    decode<K extends OfflinePayloadKind>(kind: K, bytes: Buffer): OfflinePayloadMap[K] {
+        const payload = deserializePayload(bytes);
+        validatePayload(kind, payload);
+        return payload as OfflinePayloadMap[K];
+    }
+
+    /**
+     * Create an assembler for scanned frames
+     */
+    createAssembler(kind?: OfflinePayloadKind): QrFrameAssembler {
+        return new QrFrameAssembler(kind);
+    }
+}
+
+/**
+ * Collects scanned frames of one message
+ */
+export class QrFrameAssembler {
+    private readonly expectedKind?: OfflinePayloadKind;
+    private frames = new Map<number, string>();
+    private current: { kind: OfflinePayloadKind; id: string; total: number } | null = null;
+
+    constructor(expectedKind?: OfflinePayloadKind) {
+        this.expectedKind = expectedKind;
+    }
+
+    /**
+     * Add a scanned frame. Throws on malformed or corrupted frames and on
+     * frames of another kind. A frame from a different message restarts
+     * the assembly, so a new animation can replace a stale one.
+     */
+    add(text: string): QrScanProgress {
+        const frame = parseQrFrame(text);
+
+        if (this.expectedKind && frame.kind !== this.expectedKind) {
+            throw new Error(`Expected ${this.expectedKind} QR code, got ${frame.kind}`);
+        }
+
+        if (!this.current || this.current.id !== frame.id || this.current.total !== frame.total) {
+            this.current = { kind: frame.kind, id: frame.id, total: frame.total };
+            this.frames = new Map();
+        }
+
+        if (!this.frames.has(frame.index)) {
+            this.frames.set(frame.index, frame.data);
+        }
+
+        return this.getProgress()!;
+    }
+
+    /**
+     * Progress of the current message, if any frame was scanned
+     */
+    getProgress(): QrScanProgress | null {
+        if (!this.current) {
+            return null;
+        }
+        return {
+            kind: this.current.kind,
+            received: this.frames.size,
+            total: this.current.total,
+            complete: this.frames.size === this.current.total,
+        };
+    }
+
+    /**
+     * Check if every frame was received
+     */
+    isComplete(): boolean {
+        return this.getProgress()?.complete ?? false;
+    }
+
+    /**
+     * Get the assembled payload bytes, verified against the message id
+     */
+    getPayload(): Buffer {
+        if (!this.current || !this.isComplete()) {
+            throw new Error('QR transfer is incomplete');
+        }
+
+        let data = '';
+        for (let i = 1; i <= this.current.total; i++) {
+            data += this.frames.get(i);
+        }
+
+        const bytes = fromBase64Url(data);
+        if (crc32Hex(bytes) !== this.current.id) {
+            throw new Error('QR payload checksum mismatch');
+        }
+
+        return bytes;
+    }
+
+    /**
+     * Start over
+     */
+    reset(): void {
+        this.frames = new Map();
+        this.current = null;
+    }
+}
+
+/**
+ * Parse and verify a single frame string
+ */
+export function parseQrFrame(text: string): QrFrame {
+    const value = text.trim();
+    const separator = value.lastIndexOf(':');
+    const body = value.slice(0, separator);
+    const crc = value.slice(separator + 1);
+
+    const parts = body.split(':');
+    if (separator < 0 || parts.length !== 6 || parts[0] !== FRAME_PREFIX) {
+        throw new Error('Not an offline signing QR code');
+    }
+    if (parts[1] !== String(PROTOCOL_VERSION)) {
+        throw new Error(`Unsupported QR protocol version: ${parts[1]}`);
+    }
+    if (crc32Hex(Buffer.from(body)) !== crc) {
+        throw new Error('QR frame checksum mismatch');
+    }
+
+    const [, , kind, id, sequence, data] = parts;
+    if (kind !== 'account' && kind !== 'unsigned' && kind !== 'signed') {
+        throw new Error(`Unknown QR payload kind: ${kind}`);
+    }
+
+    const match = /^(\d+)\/(\d+)$/.exec(sequence);
+    const index = match ? Number(match[1]) : 0;
+    const total = match ? Number(match[2]) : 0;
+    if (index < 1 || index > total) {
+        throw new Error('Invalid QR frame sequence');
+    }
+
+    return { kind, id, index, total, data };
+}
+
+/**
+ * base64url without padding (the browser Buffer polyfill has no 'base64url')
+ */
+function toBase64Url(bytes: Buffer): string {
+    return bytes.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(data: string): Buffer {
+    return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+/**
+ * JSON with bigints tagged as { $bigint: '<decimal>' }
+ */
+function serializePayload(payload: unknown): Buffer {
+    const json = JSON.stringify(payload, (_key, value) =>
+        typeof value === 'bigint' ? { $bigint: value.toString() } : value
+    );
+    return Buffer.from(json, 'utf-8');
+}
+
+function deserializePayload(bytes: Buffer): any {
+    try {
+        return JSON.parse(bytes.toString('utf-8'), (_key, value) =>
+            value && typeof value === 'object' && typeof value.$bigint === 'string'
+                ? BigInt(value.$bigint)
+                : value
+        );
+    } catch {
+        throw new Error('QR payload is not valid');
+    }
+}
+
+/**
+ * Check the fields a payload of each kind must carry
+ */
+function validatePayload(kind: OfflinePayloadKind, payload: any): void {
+    const invalid = () => new Error(`Invalid ${kind} payload`);
+    if (!payload || typeof payload !== 'object') {
+        throw invalid();
+    }
+
+    switch (kind) {
+        case 'account':
+            if (!/^[0-9a-f]{64}$/i.test(payload.publicKey) || typeof payload.walletVersion !== 'string') {
+                throw invalid();
+            }
+            break;
+        case 'unsigned':
+            if (!isUnsignedTransaction(payload)) {
+                throw invalid();
+            }
+            break;
+        case 'signed':
+            if (!isUnsignedTransaction(payload.unsigned)
+                || !/^[0-9a-f]{128}$/i.test(payload.signature)
+                || typeof payload.signedBody !== 'string') {
+                throw invalid();
+            }
+            break;
+    }
+}
+
+function isUnsignedTransaction(tx: any): boolean {
+    return !!tx
+        && Array.isArray(tx.messages)
+        && tx.messages.length > 0
+        && tx.messages.every(isOfflineMessage)
+        && Number.isInteger(tx.sendMode)
+        && typeof tx.walletAddress === 'string'
+        && typeof tx.walletVersion === 'string'
+        && (tx.subwalletId === undefined || Number.isInteger(tx.subwalletId))
+        && Number.isInteger(tx.seqno)
+        && (tx.queryId === undefined || typeof tx.queryId === 'bigint')
+        && (tx.timeout === undefined || Number.isInteger(tx.timeout))
+        && Number.isInteger(tx.validUntil);
+}
+
+function isOfflineMessage(message: any): boolean {
+    return !!message
+        && typeof message.to === 'string'
+        && typeof message.amount === 'bigint'
+        && (message.payload === undefined || typeof message.payload === 'string')
+        && (message.comment === undefined || typeof message.comment === 'string');
+}
+
+/**
+ * CRC32 (IEEE) as 8 lowercase hex characters
+ */
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32Hex(bytes: Uint8Array): string {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Create offline QR protocol
+ */
+export function createOfflineQrProtocol(chunkSize: number = DEFAULT_CHUNK_SIZE): OfflineQrProtocol {
+    return new OfflineQrProtocol(chunkSize);
+}
+
+export default OfflineQrProtocol;
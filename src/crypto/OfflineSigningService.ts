@@ -1,34 +1,94 @@
 /**
  * Offline Signing Service
- * 
+ *
  * Enables signing transactions without network access.
  * Useful for cold storage and air-gapped systems.
+ *
+ * The unsigned body is rebuilt from plain data on both sides and matches
+ * what the online wallet services sign, bit for bit, for every version:
+ * - V3R1/V3R2: wallet_id, valid_until, seqno, (mode, ^message) x 4
+ * - V4R2:      as V3 with op 0 before the messages
+ * - V5R1:      op "sign", wallet_id, valid_until, seqno, ^out_list, no extended actions;
+ *              signature at the tail
+ * - Highload V3: subwallet_id, ^internal_transfer to self, mode, query_id, created_at, timeout;
+ *              signature followed by the body as a reference
  */
 
 import { Buffer } from 'buffer';
 import {
     Address,
     beginCell,
+    Builder,
     Cell,
     internal,
-    storeMessageRelaxed
+    OutActionSendMsg,
+    SendMode,
+    storeMessageRelaxed,
+    storeOutList
 } from '@ton/core';
-import { sign } from '@ton/crypto';
-import type { KeyPair, WalletVersion, TransactionParams } from '../types';
+import { sign, signVerify } from '@ton/crypto';
+import type { WalletVersion } from '../types';
+import { DEFAULT_CONFIG, HIGHLOAD_CONSTANTS, V5_CONSTANTS } from '../types';
 
 /**
- * Unsigned transaction data
+ * Messages per transfer for each wallet version
  */
-export interface UnsignedTransaction {
-    // Transaction details
+const MAX_MESSAGES: Record<WalletVersion, number> = {
+    'v3r1': 4,
+    'v3r2': 4,
+    'v4r2': 4,
+    'v5r1': V5_CONSTANTS.MAX_ACTIONS,
+    'highload-v3': HIGHLOAD_CONSTANTS.MAX_ACTIONS,
+};
+
+/**
+ * Default transfer validity in seconds (standard wallets)
+ */
+const DEFAULT_VALID_FOR = 3600;
+
+/**
+ * Highload created_at is backdated so a lagging validator clock still accepts it
+ */
+const HIGHLOAD_CREATED_AT_OFFSET = 60;
+
+/**
+ * Internal message of an offline transfer
+ */
+export interface OfflineMessage {
     to: string;
     amount: bigint;
-    comment?: string;
     bounce?: boolean;
+    comment?: string;
+    payload?: string;      // base64 BOC of the body (jetton/NFT transfer, contract call); replaces comment
+}
+
+/**
+ * Wallet state the transfer is prepared against
+ */
+export interface OfflineWalletState {
+    walletAddress: string;
+    walletVersion: WalletVersion;
+    seqno: number;
+    subwalletId?: number;  // wallet_id / subwallet_id when not the default
+    queryId?: bigint;      // Highload V3 only
+    timeout?: number;      // Highload V3 only
+}
+
+/**
+ * Unsigned transaction data
+ */
+export interface UnsignedTransaction {
+    // Transaction details
+    messages: OfflineMessage[];
+    sendMode: number;
     // Wallet details
     walletAddress: string;
     walletVersion: WalletVersion;
+    subwalletId?: number;
     seqno: number;
+    // Highload V3 replay protection
+    queryId?: bigint;
+    timeout?: number;
     // Metadata
     validUntil: number;
     createdAt: number;
@@ -54,104 +114,193 @@ export class OfflineSigningService {
      * Create unsigned transaction body
      */
     createUnsignedBody(tx: UnsignedTransaction): Cell {
-        // Build message body
-        let body: Cell | undefined;
-        if (tx.comment) {
-            body = beginCell()
-                .storeUint(0, 32)
-                .storeStringTail(tx.comment)
-                .endCell();
+        const maxMessages = MAX_MESSAGES[tx.walletVersion];
+        if (maxMessages === undefined) {
+            throw new Error(`Unsupported wallet version: ${tx.walletVersion}`);
+        }
+        if (tx.messages.length === 0) {
+            throw new Error('No messages to sign');
+        }
+        if (tx.messages.length > maxMessages) {
+            throw new Error(`${tx.walletVersion} wallet can only send up to ${maxMessages} messages per transaction`);
         }
 
-        // Build internal message
-        const internalMessage = internal({
-            to: Address.parse(tx.to),
-            value: tx.amount,
-            body,
-            bounce: tx.bounce ?? false,
-        });
-
-        // Create wallet-specific message
         switch (tx.walletVersion) {
             case 'v3r1':
             case 'v3r2':
-                return this.buildV3Message(internalMessage, tx.seqno, tx.validUntil);
+                return this.buildV3Message(tx);
             case 'v4r2':
-                return this.buildV4Message(internalMessage, tx.seqno, tx.validUntil);
+                return this.buildV4Message(tx);
             case 'v5r1':
-                return this.buildV5Message(internalMessage, tx.seqno, tx.validUntil);
+                return this.buildV5Message(tx);
             case 'highload-v3':
-                throw new Error('Use OfflineHighloadService for Highload V3 transactions');
-            default:
-                throw new Error(`Unsupported wallet version: ${tx.walletVersion}`);
+                return this.buildHighloadMessage(tx);
         }
     }
 
     /**
-     * Build V3/V3R2 message body
+     * Build V3R1/V3R2 message body
      */
-    private buildV3Message(message: any, seqno: number, validUntil: number): Cell {
-        const messageBuilder = beginCell();
-        messageBuilder.store(storeMessageRelaxed(message));
-        const messageCell = messageBuilder.endCell();
-
-        return beginCell()
-            .storeUint(0, 32) // subwallet_id (not used in v3)
-            .storeUint(validUntil, 32)
-            .storeUint(seqno, 32)
-            .storeRef(messageCell)
-            .storeUint(3, 8) // send mode
-            .endCell();
+    private buildV3Message(tx: UnsignedTransaction): Cell {
+        const builder = this.storeSeqnoHeader(beginCell(), tx);
+        this.storeMessages(builder, tx);
+        return builder.endCell();
     }
 
     /**
      * Build V4R2 message body
      */
-    private buildV4Message(message: any, seqno: number, validUntil: number): Cell {
-        const messageBuilder = beginCell();
-        messageBuilder.store(storeMessageRelaxed(message));
-        const messageCell = messageBuilder.endCell();
+    private buildV4Message(tx: UnsignedTransaction): Cell {
+        const builder = this.storeSeqnoHeader(beginCell(), tx)
+            .storeUint(0, 8); // op = 0 for simple transfer
+        this.storeMessages(builder, tx);
+        return builder.endCell();
+    }
 
-        return beginCell()
-            .storeUint(698983191, 32) // subwallet_id
-            .storeUint(validUntil, 32)
-            .storeUint(seqno, 32)
-            .storeUint(0, 8) // op = 0 for simple transfer
-            .storeRef(messageCell)
-            .storeUint(3, 8) // send mode
+    /**
+     * Build V5R1 message body. External requests always carry IGNORE_ERRORS,
+     * and the out list is stored last action first.
+     */
+    private buildV5Message(tx: UnsignedTransaction): Cell {
+        const actions: OutActionSendMsg[] = tx.messages.map(message => ({
+            type: 'sendMsg',
+            mode: tx.sendMode | SendMode.IGNORE_ERRORS,
+            outMsg: this.buildInternalMessage(message),
+        }));
+
+        return this.storeSeqnoHeader(beginCell().storeUint(V5_CONSTANTS.OP_SIGNED_EXTERNAL, 32), tx)
+            .storeMaybeRef(beginCell().store(storeOutList(actions.slice().reverse())).endCell())
+            .storeBit(0) // no extended actions
             .endCell();
     }
 
     /**
-     * Build V5R1 message body
+     * Build Highload V3 message body: the actions go in an internal transfer
+     * the wallet sends to itself, carrying its remaining balance
      */
-    private buildV5Message(message: any, seqno: number, validUntil: number): Cell {
-        const messageBuilder = beginCell();
-        messageBuilder.store(storeMessageRelaxed(message));
-        const messageCell = messageBuilder.endCell();
+    private buildHighloadMessage(tx: UnsignedTransaction): Cell {
+        if (tx.queryId === undefined) {
+            throw new Error('Highload V3 transactions need a query ID');
+        }
+
+        const actions: OutActionSendMsg[] = tx.messages.map(message => ({
+            type: 'sendMsg',
+            mode: tx.sendMode,
+            outMsg: this.buildInternalMessage(message),
+        }));
+
+        const internalTransfer = internal({
+            to: Address.parse(tx.walletAddress),
+            value: 0n,
+            body: beginCell()
+                .storeUint(HIGHLOAD_CONSTANTS.OP_INTERNAL_TRANSFER, 32)
+                .storeUint(tx.queryId, 64)
+                .storeRef(beginCell().store(storeOutList(actions)).endCell())
+                .endCell(),
+        });
 
         return beginCell()
-            .storeUint(0x73696e74, 32) // op: sint
-            .storeUint(698983191, 32) // wallet_id
-            .storeUint(validUntil, 32)
-            .storeUint(seqno, 32)
-            .storeRef(messageCell)
+            .storeUint(tx.subwalletId ?? DEFAULT_CONFIG.SUBWALLET_ID, 32)
+            .storeRef(beginCell().store(storeMessageRelaxed(internalTransfer)).endCell())
+            .storeUint(SendMode.CARRY_ALL_REMAINING_BALANCE, 8)
+            .storeUint(tx.queryId, 23)
+            .storeUint(tx.createdAt, HIGHLOAD_CONSTANTS.TIMESTAMP_SIZE)
+            .storeUint(tx.timeout ?? DEFAULT_CONFIG.HIGHLOAD_TIMEOUT, HIGHLOAD_CONSTANTS.TIMEOUT_SIZE)
             .endCell();
     }
 
     /**
-     * Sign transaction offline
+     * Store wallet_id, valid_until and seqno. Before deployment (seqno 0)
+     * valid_until is all ones, as the wallet contracts expect.
+     */
+    private storeSeqnoHeader(builder: Builder, tx: UnsignedTransaction): Builder {
+        builder.storeUint(this.getWalletId(tx), 32);
+        if (tx.seqno === 0) {
+            builder.storeUint(0xffffffff, 32);
+        } else {
+            builder.storeUint(tx.validUntil, 32);
+        }
+        return builder.storeUint(tx.seqno, 32);
+    }
+
+    /**
+     * Store (mode, ^message) pairs of V3/V4 transfers
+     */
+    private storeMessages(builder: Builder, tx: UnsignedTransaction): void {
+        for (const message of tx.messages) {
+            builder
+                .storeUint(tx.sendMode, 8)
+                .storeRef(beginCell().store(storeMessageRelaxed(this.buildInternalMessage(message))).endCell());
+        }
+    }
+
+    /**
+     * Wallet ID signed into standard wallet bodies. V3/V4 default to
+     * 698983191 + workchain, V5 stores the subwallet ID as-is (network id 0).
+     */
+    private getWalletId(tx: UnsignedTransaction): number {
+        if (tx.subwalletId !== undefined) {
+            return tx.subwalletId;
+        }
+        if (tx.walletVersion === 'v5r1') {
+            return DEFAULT_CONFIG.SUBWALLET_ID;
+        }
+        return DEFAULT_CONFIG.SUBWALLET_ID + Address.parse(tx.walletAddress).workChain;
+    }
+
+    /**
+     * Build internal message from offline message data
+     */
+    private buildInternalMessage(message: OfflineMessage) {
+        let body: Cell | undefined;
+        if (message.payload) {
+            body = Cell.fromBoc(Buffer.from(message.payload, 'base64'))[0];
+        } else if (message.comment) {
+            body = beginCell()
+                .storeUint(0, 32)
+                .storeStringTail(message.comment)
+                .endCell();
+        }
+
+        return internal({
+            to: Address.parse(message.to),
+            value: message.amount,
+            body,
+            bounce: message.bounce ?? false,
+        });
+    }
+
+    /**
+     * Sign transaction offline. V3/V4 carry the signature in front,
+     * V5 at the tail, Highload V3 in front of a reference to the body.
      */
     signTransaction(
         unsignedBody: Cell,
-        secretKey: Buffer
+        secretKey: Buffer,
+        walletVersion: WalletVersion
     ): { signature: Buffer; signedBody: Cell } {
         const signature = sign(unsignedBody.hash(), secretKey);
 
-        const signedBody = beginCell()
-            .storeBuffer(signature)
-            .storeSlice(unsignedBody.beginParse())
-            .endCell();
+        let signedBody: Cell;
+        switch (walletVersion) {
+            case 'v5r1':
+                signedBody = beginCell()
+                    .storeSlice(unsignedBody.beginParse())
+                    .storeBuffer(signature)
+                    .endCell();
+                break;
+            case 'highload-v3':
+                signedBody = beginCell()
+                    .storeBuffer(signature)
+                    .storeRef(unsignedBody)
+                    .endCell();
+                break;
+            default:
+                signedBody = beginCell()
+                    .storeBuffer(signature)
+                    .storeSlice(unsignedBody.beginParse())
+                    .endCell();
+        }
 
         return { signature, signedBody };
     }
@@ -164,7 +313,7 @@ export class OfflineSigningService {
         secretKey: Buffer
     ): SignedTransaction {
         const unsignedBody = this.createUnsignedBody(tx);
-        const { signature, signedBody } = this.signTransaction(unsignedBody, secretKey);
+        const { signature, signedBody } = this.signTransaction(unsignedBody, secretKey, tx.walletVersion);
 
         return {
             unsigned: tx,
@@ -173,6 +322,57 @@ export class OfflineSigningService {
         };
     }
 
+    /**
+     * Verify a signed transaction against the signer's public key:
+     * the signature must cover the body rebuilt from the unsigned data,
+     * and the signed body must be exactly that body with the signature
+     */
+    verifySignedTransaction(signed: SignedTransaction, publicKey: Buffer): boolean {
+        try {
+            const unsignedBody = this.createUnsignedBody(signed.unsigned);
+            const { signature, body } = this.splitSignature(
+                this.parseSignedTransaction(signed.signedBody),
+                signed.unsigned.walletVersion
+            );
+
+            if (signature.toString('hex') !== signed.signature.toLowerCase()
+                || !signVerify(unsignedBody.hash(), signature, publicKey)) {
+                return false;
+            }
+
+            return body.equals(unsignedBody);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Separate the signature from the signed body, per wallet layout
+     */
+    private splitSignature(signedBody: Cell, walletVersion: WalletVersion): { signature: Buffer; body: Cell } {
+        const slice = signedBody.beginParse();
+
+        switch (walletVersion) {
+            case 'v5r1': {
+                const body = beginCell().storeBits(slice.loadBits(slice.remainingBits - 512));
+                while (slice.remainingRefs > 0) {
+                    body.storeRef(slice.loadRef());
+                }
+                return { signature: slice.loadBuffer(64), body: body.endCell() };
+            }
+            case 'highload-v3': {
+                const signature = slice.loadBuffer(64);
+                const body = slice.loadRef();
+                slice.endParse();
+                return { signature, body };
+            }
+            default: {
+                const signature = slice.loadBuffer(64);
+                return { signature, body: beginCell().storeSlice(slice).endCell() };
+            }
+        }
+    }
+
     /**
      * Parse signed transaction from BOC
      */
@@ -181,27 +381,40 @@ export class OfflineSigningService {
     }
 
     /**
-     * Prepare transaction for offline signing
+     * Prepare transaction for offline signing.
+     * Standard wallets default to PAY_GAS_SEPARATELY + IGNORE_ERRORS and stay
+     * valid for `validFor` seconds; Highload V3 defaults to PAY_GAS_SEPARATELY
+     * and stays valid for the wallet timeout.
      */
     prepareForSigning(
-        params: TransactionParams,
-        walletAddress: string,
-        walletVersion: WalletVersion,
-        seqno: number
+        messages: OfflineMessage[],
+        wallet: OfflineWalletState,
+        sendMode?: number,
+        validFor: number = DEFAULT_VALID_FOR
     ): UnsignedTransaction {
         const now = Math.floor(Date.now() / 1000);
+        const highload = wallet.walletVersion === 'highload-v3';
+        const timeout = highload ? wallet.timeout ?? DEFAULT_CONFIG.HIGHLOAD_TIMEOUT : undefined;
+        const createdAt = highload ? now - HIGHLOAD_CREATED_AT_OFFSET : now;
 
-        return {
-            to: params.to,
-            amount: params.amount,
-            comment: params.comment,
-            bounce: params.bounce,
-            walletAddress,
-            walletVersion,
-            seqno,
-            validUntil: now + 3600, // 1 hour validity
-            createdAt: now,
+        const tx: UnsignedTransaction = {
+            messages,
+            sendMode: sendMode ?? (highload
+                ? SendMode.PAY_GAS_SEPARATELY
+                : SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS),
+            walletAddress: wallet.walletAddress,
+            walletVersion: wallet.walletVersion,
+            subwalletId: wallet.subwalletId,
+            seqno: highload ? 0 : wallet.seqno,
+            queryId: highload ? wallet.queryId : undefined,
+            timeout,
+            validUntil: timeout !== undefined ? createdAt + timeout : now + validFor,
+            createdAt,
         };
+
+        // Fail here rather than on the cold signer
+        this.createUnsignedBody(tx);
+        return tx;
     }
 }
 
@@ -8,4 +8,12 @@ export type { MnemonicLength } from './MnemonicService';
 export { EncryptionService, createEncryptionService } from './EncryptionService';
 
 export { OfflineSigningService, createOfflineSigningService } from './OfflineSigningService';
-export type { UnsignedTransaction, SignedTransaction } from './OfflineSigningService';
+export type {
+    UnsignedTransaction,
+    SignedTransaction,
+    OfflineMessage,
+    OfflineWalletState
+} from './OfflineSigningService';
+
+export { OfflineQrProtocol, QrFrameAssembler, parseQrFrame, createOfflineQrProtocol } from './OfflineQrProtocol';
+export type { OfflinePayloadKind, OfflinePayloadMap, ColdSignerAccount, QrFrame, QrScanProgress } from './OfflineQrProtocol';
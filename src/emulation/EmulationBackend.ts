@@ -0,0 +1,161 @@
+/**
+ * Emulation Backend
+ *
+ * Common interface for running a signed external message without
+ * broadcasting it, plus the summary shared by every backend that
+ * produces a transaction trace.
+ */
+
+import { Address, Cell } from '@ton/core';
+import type {
+    ChainEmulation,
+    ChainTrace,
+    ChainTransaction,
+    EmulatedMessage,
+    EmulationResult,
+    JettonBalanceDelta
+} from '../types';
+
+/**
+ * Emulation backend (TonAPI, local TVM sandbox, ...)
+ */
+export interface EmulationBackend {
+    /**
+     * Emulate a wallet external message and summarize its outcome
+     */
+    emulate(externalMessage: Cell): Promise<EmulationResult>;
+}
+
+/**
+ * Summarize an emulated trace from the point of view of the sending wallet
+ */
+export function summarizeEmulation(wallet: Address, emulation: ChainEmulation): EmulationResult {
+    const root = emulation.trace.transaction;
+    const totalFee = sumFees(emulation.trace);
+    const jettonDeltas = collectJettonDeltas(wallet, emulation);
+
+    if (isFailed(root)) {
+        return failed(root, totalFee, [], jettonDeltas);
+    }
+
+    // Highload V3 performs its actions in an internal_transfer to itself
+    let node = emulation.trace;
+    const self = node.children.find(child => child.transaction.account === root.account);
+    if (self) {
+        if (isFailed(self.transaction)) {
+            return failed(self.transaction, totalFee, [], jettonDeltas);
+        }
+        node = self;
+    }
+
+    const messages: EmulatedMessage[] = [];
+    let failure: ChainTransaction | undefined;
+
+    for (const message of node.transaction.outMessages) {
+        // External out messages (logs) have no destination transaction
+        if (!message.destination) continue;
+
+        const delivery = node.children.find(child => child.transaction.inMessage?.hash === message.hash);
+        const deliveryFailed = delivery ? isFailed(delivery.transaction) : false;
+        if (deliveryFailed && !failure) {
+            failure = delivery!.transaction;
+        }
+
+        messages.push({
+            destination: message.destination,
+            value: message.value ?? 0n,
+            bounce: message.bounce,
+            success: !deliveryFailed,
+            bounced: deliveryFailed && message.bounce,
+            computeExitCode: delivery?.transaction.computeExitCode,
+            actionResultCode: delivery?.transaction.actionResultCode,
+        });
+    }
+
+    if (failure) {
+        return failed(failure, totalFee, messages, jettonDeltas);
+    }
+
+    return {
+        success: true,
+        totalFee,
+        messages,
+        jettonDeltas,
+        bounced: false,
+    };
+}
+
+/**
+ * Result for an emulation where a transaction failed
+ */
+function failed(
+    transaction: ChainTransaction,
+    totalFee: bigint,
+    messages: EmulatedMessage[],
+    jettonDeltas: JettonBalanceDelta[]
+): EmulationResult {
+    return {
+        success: false,
+        totalFee,
+        messages,
+        jettonDeltas,
+        bounced: messages.some(message => message.bounced),
+        exitCode: transaction.computeExitCode,
+        actionResultCode: transaction.actionResultCode,
+        error: transaction.actionResultCode
+            ? `Action phase failed with result code ${transaction.actionResultCode}`
+            : `Compute phase failed with exit code ${transaction.computeExitCode ?? '-'}`,
+    };
+}
+
+/**
+ * Total fees of every transaction in the trace
+ */
+function sumFees(trace: ChainTrace): bigint {
+    return trace.children.reduce(
+        (sum, child) => sum + sumFees(child),
+        trace.transaction.totalFees ?? 0n
+    );
+}
+
+/**
+ * Net jetton balance change of the wallet per jetton
+ */
+function collectJettonDeltas(wallet: Address, emulation: ChainEmulation): JettonBalanceDelta[] {
+    const deltas = new Map<string, JettonBalanceDelta>();
+
+    for (const transfer of emulation.jettonTransfers) {
+        let amount = 0n;
+        if (isWallet(wallet, transfer.recipient)) amount += transfer.amount;
+        if (isWallet(wallet, transfer.sender)) amount -= transfer.amount;
+        if (amount === 0n) continue;
+
+        const delta = deltas.get(transfer.jetton.address);
+        if (delta) {
+            delta.amount += amount;
+        } else {
+            deltas.set(transfer.jetton.address, { jetton: transfer.jetton, amount });
+        }
+    }
+
+    return Array.from(deltas.values());
+}
+
+/**
+ * Check if an indexer address is the wallet
+ */
+function isWallet(wallet: Address, address: string | undefined): boolean {
+    if (!address) return false;
+    try {
+        return Address.parse(address).equals(wallet);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check if a transaction failed in the compute or action phase
+ */
+function isFailed(transaction: ChainTransaction): boolean {
+    return !transaction.success || transaction.aborted;
+}
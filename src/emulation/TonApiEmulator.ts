@@ -0,0 +1,49 @@
+/**
+ * TonAPI Emulator
+ *
+ * Emulation backend using the TonAPI wallet emulation endpoint.
+ * TonAPI skips the signature check, so messages signed with a
+ * placeholder key (before the user unlocks the wallet) can be previewed.
+ */
+
+import { Cell, loadMessage } from '@ton/core';
+import type { EmulationResult, NetworkType } from '../types';
+import { TonApiClient } from '../network';
+import type { EmulationBackend } from './EmulationBackend';
+import { summarizeEmulation } from './EmulationBackend';
+
+/**
+ * TonAPI Emulator
+ */
+export class TonApiEmulator implements EmulationBackend {
+    private readonly tonApiClient: TonApiClient;
+
+    constructor(network: NetworkType = 'mainnet', tonApiClient?: TonApiClient) {
+        this.tonApiClient = tonApiClient ?? new TonApiClient(network);
+    }
+
+    /**
+     * Emulate a wallet external message
+     */
+    async emulate(externalMessage: Cell): Promise<EmulationResult> {
+        const message = loadMessage(externalMessage.beginParse());
+        if (message.info.type !== 'external-in') {
+            throw new Error('Expected an external message');
+        }
+
+        const emulation = await this.tonApiClient.emulateMessage(
+            externalMessage.toBoc().toString('base64')
+        );
+
+        return summarizeEmulation(message.info.dest, emulation);
+    }
+}
+
+/**
+ * Create TonAPI emulator
+ */
+export function createTonApiEmulator(network: NetworkType = 'mainnet', tonApiClient?: TonApiClient): TonApiEmulator {
+    return new TonApiEmulator(network, tonApiClient);
+}
+
+export default TonApiEmulator;
@@ -0,0 +1,8 @@
+/**
+ * Emulation Module Exports
+ */
+
+export { summarizeEmulation } from './EmulationBackend';
+export type { EmulationBackend } from './EmulationBackend';
+
+export { TonApiEmulator, createTonApiEmulator } from './TonApiEmulator';
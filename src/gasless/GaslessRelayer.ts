@@ -0,0 +1,142 @@
+/**
+ * Gasless Relayer
+ *
+ * Common interface for relayers that deliver a W5 wallet's signed
+ * internal request and take their fee in a jetton instead of TON.
+ */
+
+import { Address, Cell } from '@ton/core';
+import type { GaslessConfig, GaslessEstimateRequest, GaslessQuote } from '../types';
+import { JETTON_OP_CODES } from '../types';
+
+/**
+ * Gasless relayer (TonAPI, in-memory, ...)
+ */
+export interface GaslessRelayer {
+    /**
+     * Get the relay address and the jettons accepted as fee
+     */
+    getConfig(): Promise<GaslessConfig>;
+
+    /**
+     * Quote wallet messages: returns the messages to sign, fee payment included
+     */
+    estimate(request: GaslessEstimateRequest): Promise<GaslessQuote>;
+
+    /**
+     * Submit the signed external message for delivery
+     */
+    send(walletPublicKey: Buffer, externalMessage: Cell): Promise<void>;
+}
+
+/**
+ * Most TON a gasless message may attach: enough to forward a jetton transfer
+ */
+export const MAX_GASLESS_MESSAGE_VALUE = 100_000_000n;
+
+/**
+ * Check that a relayer accepts a jetton as fee payment
+ */
+export function isGasJetton(config: GaslessConfig, jettonMaster: string): boolean {
+    const master = Address.parse(jettonMaster);
+    return config.gasJettons.some(jetton => Address.parse(jetton).equals(master));
+}
+
+/**
+ * The transfer a gasless quote must carry, as the user entered it
+ */
+export interface GaslessTransferIntent {
+    jettonWalletAddress: string;
+    to: string;
+    amount: bigint;
+    comment?: string;
+}
+
+/**
+ * Check a quote before signing it: the relayer may only ask for exactly two
+ * jetton transfers from the wallet's own jetton wallet, the user's transfer
+ * as entered (recipient, amount, comment) and its fee of `quote.commission`
+ * to the relay, each attaching at most MAX_GASLESS_MESSAGE_VALUE, and the
+ * quote must not have expired.
+ */
+export function validateGaslessQuote(
+    quote: GaslessQuote,
+    intent: GaslessTransferIntent,
+    relayAddress: string,
+    now: number = Math.floor(Date.now() / 1000)
+): void {
+    if (quote.messages.length === 0) {
+        throw new Error('Relayer quote has no messages');
+    }
+
+    const jettonWallet = Address.parse(intent.jettonWalletAddress);
+    for (const message of quote.messages) {
+        const destination = message.info.dest;
+        if (!Address.isAddress(destination) || !destination.equals(jettonWallet)) {
+            throw new Error('Relayer quote contains a message to an unexpected address');
+        }
+        if (message.info.type !== 'internal' || message.info.value.coins > MAX_GASLESS_MESSAGE_VALUE) {
+            throw new Error('Relayer quote attaches more TON than forwarding a jetton transfer needs');
+        }
+    }
+
+    if (quote.messages.length !== 2) {
+        throw new Error('Relayer quote must contain only the transfer and its fee');
+    }
+
+    const relay = Address.parse(relayAddress);
+    if (!Address.parse(quote.relayAddress).equals(relay)) {
+        throw new Error('Relayer quote names an unexpected relay address');
+    }
+
+    const transfers = quote.messages.map(message => readJettonTransfer(message.body));
+    const recipient = Address.parse(intent.to);
+    const isUserTransfer = (transfer: JettonTransferBody) => transfer.destination.equals(recipient)
+        && transfer.amount === intent.amount
+        && transfer.comment === (intent.comment || '');
+    const isFee = (transfer: JettonTransferBody) => transfer.destination.equals(relay) && transfer.amount === quote.commission;
+
+    const [first, second] = transfers;
+    if (!(isUserTransfer(first) && isFee(second)) && !(isFee(first) && isUserTransfer(second))) {
+        throw new Error('Relayer quote does not match the transfer and its fee');
+    }
+
+    if (quote.validUntil <= now) {
+        throw new Error('Relayer quote has expired');
+    }
+}
+
+interface JettonTransferBody {
+    amount: bigint;
+    destination: Address;
+    comment: string | null;     // Text comment; null for any other forward payload
+}
+
+/**
+ * Read a TEP-74 jetton transfer body; anything else is rejected
+ */
+function readJettonTransfer(body: Cell): JettonTransferBody {
+    try {
+        const slice = body.beginParse();
+        if (slice.loadUint(32) !== JETTON_OP_CODES.TRANSFER) {
+            throw new Error('not a transfer');
+        }
+        slice.loadUintBig(64);                      // query_id
+        const amount = slice.loadCoins();
+        const destination = slice.loadAddress();
+        slice.loadMaybeAddress();                   // response_destination
+        if (slice.loadBit()) {
+            throw new Error('custom payload');
+        }
+        slice.loadCoins();                          // forward_ton_amount
+        const payload = slice.loadBit() ? slice.loadRef().beginParse() : slice;
+
+        let comment: string | null = '';
+        if (payload.remainingBits > 0 || payload.remainingRefs > 0) {
+            comment = payload.remainingBits >= 32 && payload.loadUint(32) === 0 ? payload.loadStringTail() : null;
+        }
+        return { amount, destination, comment };
+    } catch {
+        throw new Error('Relayer quote contains a message that is not a jetton transfer');
+    }
+}
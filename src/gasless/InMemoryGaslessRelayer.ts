@@ -0,0 +1,131 @@
+/**
+ * In-Memory Gasless Relayer
+ *
+ * Gasless relayer without a network: quotes a fixed commission and
+ * records submitted messages. Used in tests and local development.
+ */
+
+import { Address, Cell, internal, loadMessage, loadMessageRelaxed } from '@ton/core';
+import type { GaslessConfig, GaslessEstimateRequest, GaslessQuote } from '../types';
+import { V5_CONSTANTS } from '../types';
+import type { GaslessRelayer } from './GaslessRelayer';
+import { isGasJetton } from './GaslessRelayer';
+import { V3R1JettonService } from '../wallets/v3r1';
+
+/**
+ * In-memory relayer configuration
+ */
+export interface InMemoryGaslessRelayerConfig {
+    relayAddress: string;
+    gasJettons: string[];
+    commission: bigint;
+    validFor?: number;     // Quote lifetime in seconds
+    now?: () => number;    // Clock (unix seconds)
+}
+
+/**
+ * Submitted gasless message
+ */
+export interface SubmittedGaslessMessage {
+    walletPublicKey: string;
+    externalMessage: Cell;
+}
+
+/**
+ * In-Memory Gasless Relayer
+ */
+export class InMemoryGaslessRelayer implements GaslessRelayer {
+    readonly estimates: GaslessEstimateRequest[] = [];
+    readonly submitted: SubmittedGaslessMessage[] = [];
+    private readonly config: InMemoryGaslessRelayerConfig;
+    private readonly jettonService: V3R1JettonService;
+
+    constructor(config: InMemoryGaslessRelayerConfig) {
+        this.config = config;
+        this.jettonService = new V3R1JettonService();
+    }
+
+    /**
+     * Get relayer configuration
+     */
+    async getConfig(): Promise<GaslessConfig> {
+        return {
+            relayAddress: this.config.relayAddress,
+            gasJettons: this.config.gasJettons,
+        };
+    }
+
+    /**
+     * Quote the messages as-is plus a commission transfer to the relay
+     * from the jetton wallet of the first message
+     */
+    async estimate(request: GaslessEstimateRequest): Promise<GaslessQuote> {
+        if (!isGasJetton(await this.getConfig(), request.jettonMaster)) {
+            throw new Error('Jetton is not accepted for gas payment');
+        }
+        this.estimates.push(request);
+
+        const messages = request.messages.map(message => loadMessageRelaxed(message.beginParse()));
+        const jettonWallet = messages[0]?.info.dest;
+        if (!Address.isAddress(jettonWallet)) {
+            throw new Error('No jetton transfer to quote');
+        }
+
+        const fee = internal({
+            to: jettonWallet,
+            value: messages[0].info.type === 'internal' ? messages[0].info.value.coins : 0n,
+            bounce: true,
+            body: this.jettonService.buildTransferBody({
+                jettonWalletAddress: jettonWallet.toString(),
+                to: this.config.relayAddress,
+                amount: this.config.commission,
+                responseDestination: this.config.relayAddress,
+                forwardAmount: 0n,
+            }),
+        });
+
+        return {
+            jettonMaster: request.jettonMaster,
+            relayAddress: this.config.relayAddress,
+            commission: this.config.commission,
+            validUntil: this.now() + (this.config.validFor ?? 300),
+            messages: [...messages, fee],
+        };
+    }
+
+    /**
+     * Record the signed external message
+     */
+    async send(walletPublicKey: Buffer, externalMessage: Cell): Promise<void> {
+        const message = loadMessage(externalMessage.beginParse());
+        if (message.info.type !== 'external-in') {
+            throw new Error('Expected an external message');
+        }
+
+        // Relayers only deliver signed internal requests
+        if (message.body.beginParse().preloadUint(32) !== V5_CONSTANTS.OP_SIGNED_INTERNAL) {
+            throw new Error('Expected a signed internal request');
+        }
+
+        this.submitted.push({
+            walletPublicKey: walletPublicKey.toString('hex'),
+            externalMessage,
+        });
+    }
+
+    /**
+     * Current time in unix seconds
+     */
+    private now(): number {
+        return this.config.now ? this.config.now() : Math.floor(Date.now() / 1000);
+    }
+}
+
+/**
+ * Create in-memory gasless relayer
+ */
+export function createInMemoryGaslessRelayer(config: InMemoryGaslessRelayerConfig): InMemoryGaslessRelayer {
+    return new InMemoryGaslessRelayer(config);
+}
+
+export default InMemoryGaslessRelayer;
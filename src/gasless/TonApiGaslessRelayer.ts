@@ -0,0 +1,55 @@
+/**
+ * TonAPI Gasless Relayer
+ *
+ * Gasless relayer using the TonAPI gasless endpoints
+ * (config, estimate, send).
+ */
+
+import { Cell } from '@ton/core';
+import type { GaslessConfig, GaslessEstimateRequest, GaslessQuote, NetworkType } from '../types';
+import { TonApiClient } from '../network';
+import type { GaslessRelayer } from './GaslessRelayer';
+
+/**
+ * TonAPI Gasless Relayer
+ */
+export class TonApiGaslessRelayer implements GaslessRelayer {
+    private readonly tonApiClient: TonApiClient;
+
+    constructor(network: NetworkType = 'mainnet', tonApiClient?: TonApiClient) {
+        this.tonApiClient = tonApiClient ?? new TonApiClient(network);
+    }
+
+    /**
+     * Get relayer configuration
+     */
+    async getConfig(): Promise<GaslessConfig> {
+        return this.tonApiClient.getGaslessConfig();
+    }
+
+    /**
+     * Quote wallet messages
+     */
+    async estimate(request: GaslessEstimateRequest): Promise<GaslessQuote> {
+        return this.tonApiClient.estimateGasless(request);
+    }
+
+    /**
+     * Submit the signed external message
+     */
+    async send(walletPublicKey: Buffer, externalMessage: Cell): Promise<void> {
+        await this.tonApiClient.sendGasless(
+            walletPublicKey.toString('hex'),
+            externalMessage.toBoc().toString('base64')
+        );
+    }
+}
+
+/**
+ * Create TonAPI gasless relayer
+ */
+export function createTonApiGaslessRelayer(network: NetworkType = 'mainnet', tonApiClient?: TonApiClient): TonApiGaslessRelayer {
+    return new TonApiGaslessRelayer(network, tonApiClient);
+}
+
+export default TonApiGaslessRelayer;
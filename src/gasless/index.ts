@@ -0,0 +1,10 @@
+/**
+ * Gasless Module Exports
+ */
+
+export { isGasJetton, validateGaslessQuote, MAX_GASLESS_MESSAGE_VALUE } from './GaslessRelayer';
+export type { GaslessRelayer, GaslessTransferIntent } from './GaslessRelayer';
+
+export { TonApiGaslessRelayer, createTonApiGaslessRelayer } from './TonApiGaslessRelayer';
+export { InMemoryGaslessRelayer, createInMemoryGaslessRelayer } from './InMemoryGaslessRelayer';
+export type { InMemoryGaslessRelayerConfig, SubmittedGaslessMessage } from './InMemoryGaslessRelayer';
@@ -4,9 +4,14 @@
  * Clean, modular TypeScript architecture supporting:
  * - V3R1, V3R2, V4R2, V5R1 (Standard Wallets)
  * - Highload V3 (Enterprise/Batch Transactions)
+ * - Multisig V2 (orders approved by several signers)
  * - Jetton Transfers (USDT, NOT, etc.)
+ * - NFTs (TEP-62 transfers, TEP-64 metadata)
+ * - TON DNS (resolution, reverse lookup, record edits, renewal)
+ * - Staking (nominator, Whales and liquid pools: tsTON, stTON, hTON)
  * - Secure Key Storage (AES-256-GCM)
  * - Offline Signing
+ * - TON Connect 2.0 (wallet side)
  * 
  * @packageDocumentation
  */
@@ -28,6 +33,10 @@ export * from './types';
 // ============================================================================
 
 export {
+    // Wallet Facade (all versions)
+    WalletFacade,
+    createWalletFacade,
+
     // Standard Wallet (unified)
     StandardWalletService,
     createStandardWalletService,
@@ -46,6 +55,10 @@ export {
 
     // V5R1
     V5R1WalletService,
+    sendMsgAction,
+    addExtensionAction,
+    removeExtensionAction,
+    setSignatureAuthAction,
 
     // Highload V3
     HighloadQueryId,
@@ -54,6 +67,29 @@ export {
     HighloadWalletV3Service,
     HighloadV3JettonService,
     HighloadV3UsdtService,
+
+    // Multisig V2
+    MultisigV2,
+    MultisigOrder,
+    MultisigV2Service,
+    createMultisigV2Service,
+
+    // NFT
+    NftService,
+    createNftService,
+    filterNfts,
+    groupNftsByCollection,
+
+    // DNS
+    DnsService,
+    createDnsService,
+    isDnsDomain,
+    getRenewalReminders,
+
+    // Staking
+    StakingService,
+    createStakingService,
+    isLiquidStaking,
 } from './wallets';
 
 // ============================================================================
@@ -67,6 +103,32 @@ export {
     createTonApiClient,
 } from './network';
 
+// ============================================================================
+// EMULATION EXPORTS
+// ============================================================================
+
+export {
+    TonApiEmulator,
+    createTonApiEmulator,
+    summarizeEmulation,
+} from './emulation';
+export type { EmulationBackend } from './emulation';
+
+// ============================================================================
+// GASLESS EXPORTS
+// ============================================================================
+
+export {
+    TonApiGaslessRelayer,
+    createTonApiGaslessRelayer,
+    InMemoryGaslessRelayer,
+    createInMemoryGaslessRelayer,
+    isGasJetton,
+    validateGaslessQuote,
+    MAX_GASLESS_MESSAGE_VALUE,
+} from './gasless';
+export type { GaslessRelayer, GaslessTransferIntent, InMemoryGaslessRelayerConfig } from './gasless';
+
 // ============================================================================
 // CRYPTO EXPORTS
 // ============================================================================
@@ -78,8 +140,36 @@ export {
     createEncryptionService,
     OfflineSigningService,
     createOfflineSigningService,
+    OfflineQrProtocol,
+    QrFrameAssembler,
+    parseQrFrame,
+    createOfflineQrProtocol,
+} from './crypto';
+export type {
+    UnsignedTransaction,
+    SignedTransaction,
+    OfflineMessage,
+    OfflineWalletState,
+    OfflinePayloadKind,
+    ColdSignerAccount,
+    QrScanProgress,
 } from './crypto';
 
+// ============================================================================
+// TON CONNECT EXPORTS
+// ============================================================================
+
+export {
+    TonConnectService,
+    createTonConnectService,
+    TonConnectSigner,
+    BridgeClient,
+    SessionCrypto,
+    ConnectionStore,
+    parseConnectLink,
+    isConnectLink,
+} from './tonconnect';
+
 // ============================================================================
 // CONVENIENCE FACTORY FUNCTIONS
 // ============================================================================
@@ -4,14 +4,33 @@
  * Client for TonAPI (tonapi.io) for blockchain indexing and history.
  */
 
-import { Address } from '@ton/core';
+import { Buffer } from 'buffer';
+import { Address, Cell, internal, loadStateInit, MessageRelaxed } from '@ton/core';
 import type {
     NetworkType,
     TonApiConfig,
     AccountInfo,
+    ChainEmulation,
+    ChainJettonTransfer,
+    ChainMessage,
+    ChainTrace,
+    ChainTransaction,
+    GaslessConfig,
+    GaslessEstimateRequest,
+    GaslessQuote,
     TransactionHistoryItem,
-    JettonBalance
+    TransactionHistoryPage,
+    JettonBalance,
+    JettonInfo,
+    NftItem,
+    NftMetadata,
+    NftTrust,
+    DnsResolution,
+    StakingPool,
+    StakingPoolKind,
+    StakingPosition
 } from '../types';
+import { parseAccountEventsPage } from './TonApiEvents';
 
 /**
  * TonAPI endpoints
@@ -21,6 +40,15 @@ const TONAPI_ENDPOINTS = {
     testnet: 'https://testnet.tonapi.io/v2',
 };
 
+/**
+ * TonAPI staking implementations and the pool kind each maps to
+ */
+const STAKING_IMPLEMENTATIONS: Record<string, StakingPoolKind> = {
+    tf: 'nominator',
+    whales: 'whales',
+    liquidTF: 'tonstakers',
+};
+
 /**
  * TonAPI Client
  */
@@ -61,7 +89,9 @@ export class TonApiClient {
             throw new Error(`TonAPI error: ${response.status} ${response.statusText}`);
         }
 
-        return response.json();
+        // Some POST endpoints (e.g. gasless send) answer with an empty body
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
     }
 
     /**
@@ -95,95 +125,238 @@ export class TonApiClient {
      */
     async getTransactions(
         address: string,
-        limit: number = 20
+        limit: number = 20,
+        beforeLt?: string
     ): Promise<TransactionHistoryItem[]> {
         try {
-            const accountData = await this.request<any>(`/accounts/${encodeURIComponent(address)}`);
-            const myRawAddress = accountData?.address;
+            return (await this.getTransactionPage(address, limit, beforeLt)).items;
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Get a page of transaction history, before the given logical time
+     */
+    async getTransactionPage(
+        address: string,
+        limit: number = 20,
+        beforeLt?: string
+    ): Promise<TransactionHistoryPage> {
+        const accountData = await this.request<any>(`/accounts/${encodeURIComponent(address)}`);
+        const myRawAddress = accountData?.address;
+
+        const cursor = beforeLt ? `&before_lt=${encodeURIComponent(beforeLt)}` : '';
+        const data = await this.request<any>(
+            `/accounts/${encodeURIComponent(address)}/events?limit=${limit}${cursor}`
+        );
+
+        return parseAccountEventsPage(data, myRawAddress || address, this.network);
+    }
 
+    /**
+     * Get the transaction created by a message (e.g. a wallet's external message).
+     * Returns null until the message has been processed on-chain.
+     */
+    async getTransactionByMessageHash(messageHash: string): Promise<ChainTransaction | null> {
+        try {
             const data = await this.request<any>(
-                `/accounts/${encodeURIComponent(address)}/events?limit=${limit}`
+                `/blockchain/messages/${encodeURIComponent(messageHash)}/transaction`
             );
+            return this.parseChainTransaction(data);
+        } catch {
+            return null;
+        }
+    }
 
-            return this.parseEvents(data.events || [], myRawAddress);
+    /**
+     * Get the trace (transaction tree) started by a transaction
+     */
+    async getTrace(transactionHash: string): Promise<ChainTrace | null> {
+        try {
+            const data = await this.request<any>(
+                `/traces/${encodeURIComponent(transactionHash)}`
+            );
+            return this.parseTrace(data);
         } catch {
-            return [];
+            return null;
         }
     }
 
     /**
-     * Parse events into transaction history
+     * Emulate an external message to a wallet. The signature is not checked,
+     * so a message signed with a placeholder key can be previewed.
      */
-    private parseEvents(events: any[], myRawAddress: string): TransactionHistoryItem[] {
-        const transactions: TransactionHistoryItem[] = [];
-        const myHash = this.extractHash(myRawAddress);
+    async emulateMessage(boc: string): Promise<ChainEmulation> {
+        const data = await this.request<any>('/wallet/emulate', {
+            method: 'POST',
+            body: JSON.stringify({ boc }),
+        });
+
+        return {
+            trace: this.parseTrace(data.trace),
+            jettonTransfers: this.parseJettonTransfers(data.event?.actions || []),
+        };
+    }
 
-        for (const event of events) {
-            const actions = event.actions || [];
+    /**
+     * Get gasless relayer configuration
+     */
+    async getGaslessConfig(): Promise<GaslessConfig> {
+        const data = await this.request<any>('/gasless/config');
 
-            for (const action of actions) {
-                if (action.type === 'TonTransfer') {
-                    const transfer = action.TonTransfer;
-                    const senderHash = this.extractHash(transfer.sender?.address);
-                    const recipientHash = this.extractHash(transfer.recipient?.address);
+        return {
+            relayAddress: data.relay_address,
+            gasJettons: (data.gas_jettons || []).map((jetton: any) => jetton.master_id),
+        };
+    }
 
-                    const isIncoming = recipientHash === myHash && senderHash !== myHash;
+    /**
+     * Get a relayer quote for wallet messages paid in a jetton
+     */
+    async estimateGasless(request: GaslessEstimateRequest): Promise<GaslessQuote> {
+        const data = await this.request<any>(`/gasless/estimate/${encodeURIComponent(request.jettonMaster)}`, {
+            method: 'POST',
+            body: JSON.stringify({
+                wallet_address: request.walletAddress,
+                wallet_public_key: request.walletPublicKey,
+                messages: request.messages.map(message => ({
+                    boc: message.toBoc().toString('base64'),
+                })),
+            }),
+        });
 
-                    transactions.push({
-                        hash: event.event_id,
-                        type: isIncoming ? 'incoming' : 'outgoing',
-                        amount: BigInt(transfer.amount || '0'),
-                        from: this.toUserFriendlyAddress(transfer.sender?.address, transfer.sender?.name),
-                        to: this.toUserFriendlyAddress(transfer.recipient?.address, transfer.recipient?.name),
-                        fromRaw: transfer.sender?.address,
-                        toRaw: transfer.recipient?.address,
-                        timestamp: event.timestamp,
-                        comment: transfer.comment,
-                        status: 'confirmed',
+        return {
+            jettonMaster: request.jettonMaster,
+            relayAddress: data.relay_address,
+            commission: BigInt(data.commission || '0'),
+            validUntil: data.valid_until,
+            messages: (data.messages || []).map((message: any) => this.parseGaslessMessage(message)),
+        };
+    }
+
+    /**
+     * Submit a signed gasless external message to the relayer
+     */
+    async sendGasless(walletPublicKey: string, boc: string): Promise<void> {
+        await this.request<void>('/gasless/send', {
+            method: 'POST',
+            body: JSON.stringify({ wallet_public_key: walletPublicKey, boc }),
+        });
+    }
+
+    /**
+     * Parse a message of a gasless quote (payload and state init are hex BOCs)
+     */
+    private parseGaslessMessage(message: any): MessageRelaxed {
+        const fromHex = (boc: string) => Cell.fromBoc(Buffer.from(boc, 'hex'))[0];
+
+        return internal({
+            to: Address.parse(message.address),
+            value: BigInt(message.amount),
+            body: message.payload ? fromHex(message.payload) : undefined,
+            init: message.stateInit ? loadStateInit(fromHex(message.stateInit).beginParse()) : undefined,
+            bounce: true,
+        });
+    }
+
+    /**
+     * Parse jetton transfers and swap legs from event actions
+     */
+    private parseJettonTransfers(actions: any[]): ChainJettonTransfer[] {
+        const transfers: ChainJettonTransfer[] = [];
+
+        for (const action of actions) {
+            if (action.type === 'JettonTransfer') {
+                const transfer = action.JettonTransfer;
+                transfers.push({
+                    jetton: this.parseJettonPreview(transfer.jetton),
+                    sender: transfer.sender?.address,
+                    recipient: transfer.recipient?.address,
+                    amount: BigInt(transfer.amount || '0'),
+                });
+            }
+
+            if (action.type === 'JettonSwap') {
+                const swap = action.JettonSwap;
+                const user = swap.user_wallet?.address;
+                const router = swap.router?.address;
+                if (swap.jetton_master_in) {
+                    transfers.push({
+                        jetton: this.parseJettonPreview(swap.jetton_master_in),
+                        sender: user,
+                        recipient: router,
+                        amount: BigInt(swap.amount_in || '0'),
                     });
                 }
-
-                if (action.type === 'JettonTransfer') {
-                    const transfer = action.JettonTransfer;
-                    const recipientHash = this.extractHash(transfer.recipient?.address);
-                    const isIncoming = recipientHash === myHash;
-
-                    transactions.push({
-                        hash: event.event_id,
-                        type: isIncoming ? 'incoming' : 'outgoing',
-                        amount: BigInt(transfer.amount || '0'),
-                        from: this.toUserFriendlyAddress(transfer.sender?.address, transfer.sender?.name),
-                        to: this.toUserFriendlyAddress(transfer.recipient?.address, transfer.recipient?.name),
-                        fromRaw: transfer.sender?.address,
-                        toRaw: transfer.recipient?.address,
-                        timestamp: event.timestamp,
-                        comment: transfer.comment,
-                        jetton: {
-                            address: transfer.jetton?.address || '',
-                            symbol: transfer.jetton?.symbol || 'TOKEN',
-                            name: transfer.jetton?.name || 'Unknown',
-                            decimals: transfer.jetton?.decimals || 9,
-                            image: transfer.jetton?.image,
-                            verified: transfer.jetton?.verification === 'whitelist',
-                        },
-                        status: 'confirmed',
+                if (swap.jetton_master_out) {
+                    transfers.push({
+                        jetton: this.parseJettonPreview(swap.jetton_master_out),
+                        sender: router,
+                        recipient: user,
+                        amount: BigInt(swap.amount_out || '0'),
                     });
                 }
             }
         }
 
-        return transactions;
+        return transfers;
     }
 
     /**
-     * Extract hash from raw address
+     * Parse jetton preview object
      */
-    private extractHash(address: string | undefined): string {
-        if (!address) return '';
-        if (address.includes(':')) {
-            return address.split(':')[1]?.toLowerCase() || '';
-        }
-        return address.toLowerCase();
+    private parseJettonPreview(jetton: any): JettonInfo {
+        return {
+            address: jetton?.address || '',
+            symbol: jetton?.symbol || 'TOKEN',
+            name: jetton?.name || 'Unknown',
+            decimals: jetton?.decimals || 9,
+            image: jetton?.image,
+            verified: jetton?.verification === 'whitelist',
+        };
+    }
+
+    /**
+     * Parse trace node recursively
+     */
+    private parseTrace(node: any): ChainTrace {
+        return {
+            transaction: this.parseChainTransaction(node.transaction),
+            children: (node.children || []).map((child: any) => this.parseTrace(child)),
+        };
+    }
+
+    /**
+     * Parse blockchain transaction with its phase results
+     */
+    private parseChainTransaction(data: any): ChainTransaction {
+        return {
+            hash: data.hash,
+            lt: String(data.lt),
+            account: data.account?.address || '',
+            success: data.success === true,
+            aborted: data.aborted === true,
+            computeExitCode: data.compute_phase?.skipped ? undefined : data.compute_phase?.exit_code,
+            actionResultCode: data.action_phase?.result_code,
+            totalFees: data.total_fees !== undefined ? BigInt(data.total_fees) : undefined,
+            inMessage: data.in_msg ? this.parseChainMessage(data.in_msg) : undefined,
+            outMessages: (data.out_msgs || []).map((msg: any) => this.parseChainMessage(msg)),
+        };
+    }
+
+    /**
+     * Parse blockchain message
+     */
+    private parseChainMessage(msg: any): ChainMessage {
+        return {
+            hash: msg.hash,
+            source: msg.source?.address,
+            destination: msg.destination?.address,
+            value: msg.value !== undefined ? BigInt(msg.value) : undefined,
+            bounce: msg.bounce === true,
+            bounced: msg.bounced === true,
+        };
     }
 
     /**
@@ -234,29 +407,112 @@ export class TonApiClient {
                 `/accounts/${encodeURIComponent(address)}/jettons`
             );
 
-            return (data.balances || []).map((item: any) => {
-                const balance = BigInt(item.balance || '0');
-                const decimals = item.jetton?.decimals || 9;
-
-                return {
-                    jetton: {
-                        address: item.jetton?.address || '',
-                        symbol: item.jetton?.symbol || 'TOKEN',
-                        name: item.jetton?.name || 'Unknown Token',
-                        decimals,
-                        image: item.jetton?.image,
-                        verified: item.jetton?.verification === 'whitelist',
-                    },
-                    walletAddress: item.wallet_address?.address || '',
-                    balance,
-                    balanceFormatted: this.formatBalance(balance, decimals),
-                };
-            });
+            return (data.balances || []).map((item: any) => this.toJettonBalance(item));
         } catch {
             return [];
         }
     }
 
+    /**
+     * Get an owner's balance of one jetton, priced in TON
+     */
+    async getJettonBalance(ownerAddress: string, jettonMasterAddress: string): Promise<JettonBalance | null> {
+        try {
+            const data = await this.request<any>(
+                `/accounts/${encodeURIComponent(ownerAddress)}/jettons/${encodeURIComponent(jettonMasterAddress)}?currencies=ton`
+            );
+            return this.toJettonBalance(data);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Map a TonAPI jetton balance
+     */
+    private toJettonBalance(item: any): JettonBalance {
+        const balance = BigInt(item.balance || '0');
+        const decimals = item.jetton?.decimals || 9;
+
+        return {
+            jetton: {
+                address: item.jetton?.address || '',
+                symbol: item.jetton?.symbol || 'TOKEN',
+                name: item.jetton?.name || 'Unknown Token',
+                decimals,
+                image: item.jetton?.image,
+                verified: item.jetton?.verification === 'whitelist',
+            },
+            walletAddress: item.wallet_address?.address || '',
+            balance,
+            balanceFormatted: this.formatBalance(balance, decimals),
+            tonRate: item.price?.prices?.TON,
+        };
+    }
+
+    /**
+     * Get NFT items of an owner, including items it has listed for sale
+     */
+    async getNftItems(ownerAddress: string, limit: number = 100, offset: number = 0): Promise<NftItem[]> {
+        try {
+            const data = await this.request<any>(
+                `/accounts/${encodeURIComponent(ownerAddress)}/nfts?limit=${limit}&offset=${offset}&indirect_ownership=true`
+            );
+
+            return (data.nft_items || []).map((item: any) => ({
+                address: this.toContractAddress(item.address),
+                index: BigInt(item.index ?? 0),
+                owner: this.toUserFriendlyAddress(item.owner?.address),
+                collection: item.collection ? {
+                    address: this.toContractAddress(item.collection.address),
+                    name: item.collection.name || 'Unknown collection',
+                    description: item.collection.description || undefined,
+                } : null,
+                metadata: this.parseNftMetadata(item.metadata),
+                trust: (['whitelist', 'graylist', 'blacklist'].includes(item.trust) ? item.trust : 'none') as NftTrust,
+                preview: this.pickNftPreview(item.previews),
+                onSale: item.sale !== undefined,
+                dns: typeof item.dns === 'string' ? item.dns : undefined,
+            }));
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Map indexed TEP-64 metadata (images come pre-resolved from the indexer)
+     */
+    private parseNftMetadata(metadata: any): NftMetadata {
+        return {
+            name: typeof metadata?.name === 'string' ? metadata.name : undefined,
+            description: typeof metadata?.description === 'string' ? metadata.description : undefined,
+            image: typeof metadata?.image === 'string' ? metadata.image : undefined,
+            attributes: Array.isArray(metadata?.attributes)
+                ? metadata.attributes.map((attribute: any) => ({
+                    traitType: String(attribute?.trait_type ?? ''),
+                    value: String(attribute?.value ?? ''),
+                }))
+                : undefined,
+            contentUrl: typeof metadata?.content_url === 'string' ? metadata.content_url : undefined,
+            externalUrl: typeof metadata?.external_url === 'string' ? metadata.external_url : undefined,
+        };
+    }
+
+    /**
+     * Pick a medium-size preview image (TonAPI serves 5x5 up to 1500x1500)
+     */
+    private pickNftPreview(previews: any[] | undefined): string | undefined {
+        if (!previews?.length) return undefined;
+        return (previews.find(preview => preview.resolution === '500x500') ?? previews[previews.length - 1]).url;
+    }
+
+    /**
+     * Convert raw address of a contract (NFT item, collection) to bounceable format
+     */
+    private toContractAddress(rawAddress: string): string {
+        return Address.parse(rawAddress).toString({ bounceable: true, testOnly: this.network === 'testnet' });
+    }
+
     /**
      * Get Jetton wallet address
      */
@@ -274,6 +530,96 @@ export class TonApiClient {
         }
     }
 
+    /**
+     * Resolve a TON DNS domain (e.g. "alice.ton") to its wallet address
+     */
+    async resolveDomain(domain: string): Promise<string | null> {
+        return (await this.resolveDns(domain))?.wallet ?? null;
+    }
+
+    /**
+     * Resolve the wallet, site and storage records of a TON DNS domain
+     */
+    async resolveDns(domain: string): Promise<DnsResolution | null> {
+        try {
+            const name = domain.trim().toLowerCase();
+            const data = await this.request<any>(`/dns/${encodeURIComponent(name)}/resolve`);
+
+            return {
+                domain: name,
+                wallet: data.wallet?.address ? this.toUserFriendlyAddress(data.wallet.address) : null,
+                site: data.sites?.[0] || undefined,
+                storage: data.storage || undefined,
+            };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Reverse-resolve an address to the domain its owner set for it
+     */
+    async reverseResolve(address: string): Promise<string | null> {
+        try {
+            const data = await this.request<any>(
+                `/accounts/${encodeURIComponent(address)}/dns/backresolve`
+            );
+            return data.domains?.[0] || null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Get staking pools with their APY: nominator, Whales and Tonstakers pools.
+     * With an account, only pools it can still join are listed.
+     */
+    async getStakingPools(availableFor?: string): Promise<StakingPool[]> {
+        try {
+            const query = availableFor ? `&available_for=${encodeURIComponent(availableFor)}` : '';
+            const data = await this.request<any>(`/staking/pools?include_unverified=false${query}`);
+
+            return (data.pools || [])
+                .filter((pool: any) => pool.implementation in STAKING_IMPLEMENTATIONS)
+                .map((pool: any): StakingPool => ({
+                    address: this.toContractAddress(pool.address),
+                    name: pool.name || 'Staking pool',
+                    kind: STAKING_IMPLEMENTATIONS[pool.implementation],
+                    apy: typeof pool.apy === 'number' ? pool.apy : null,
+                    minStake: BigInt(pool.min_stake || 0),
+                    totalStaked: BigInt(pool.total_amount || 0),
+                    liquidJetton: pool.liquid_jetton_master ? this.toContractAddress(pool.liquid_jetton_master) : undefined,
+                    liquidSymbol: pool.implementation === 'liquidTF' ? 'tsTON' : undefined,
+                    cycleEnd: pool.cycle_end || undefined,
+                    verified: pool.verified !== false,
+                }));
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Get the stakes an account holds in TonAPI-indexed pools, with pending
+     * deposits and withdrawals
+     */
+    async getStakingPositions(address: string): Promise<StakingPosition[]> {
+        try {
+            const data = await this.request<any>(
+                `/staking/nominator/${encodeURIComponent(address)}/pools`
+            );
+
+            return (data.pools || []).map((item: any): StakingPosition => ({
+                poolAddress: this.toContractAddress(item.pool),
+                amount: BigInt(item.amount || 0),
+                pendingDeposit: BigInt(item.pending_deposit || 0),
+                pendingWithdraw: BigInt(item.pending_withdraw || 0),
+                readyWithdraw: BigInt(item.ready_withdraw || 0),
+            }));
+        } catch {
+            return [];
+        }
+    }
+
     /**
      * Format balance with decimals
      */
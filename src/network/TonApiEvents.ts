@@ -0,0 +1,249 @@
+/**
+ * TonAPI Account Events
+ *
+ * Parses TonAPI account events (`/accounts/{id}/events`) into typed history
+ * items, one per action. Shared by TonApiClient and TonApiService so every
+ * history view understands the same action types.
+ */
+
+import { Address } from '@ton/core';
+import type {
+    JettonInfo,
+    NetworkType,
+    TransactionDirection,
+    TransactionHistoryItem,
+    TransactionHistoryPage,
+    TransactionStatus,
+} from '../types';
+
+/**
+ * Parse a page of account events, newest first
+ */
+export function parseAccountEventsPage(data: any, myRawAddress: string, network: NetworkType = 'mainnet'): TransactionHistoryPage {
+    const nextFrom = data?.next_from;
+    return {
+        items: parseAccountEvents(data?.events || [], myRawAddress, network),
+        nextBeforeLt: nextFrom && String(nextFrom) !== '0' ? String(nextFrom) : null,
+    };
+}
+
+/**
+ * Parse account events into history items. Actions TonAPI has no type for
+ * come out as 'unknown' with its description rather than being dropped.
+ */
+export function parseAccountEvents(events: any[], myRawAddress: string, network: NetworkType = 'mainnet'): TransactionHistoryItem[] {
+    const myHash = extractHash(myRawAddress);
+    const isMe = (account: any) => !!account?.address && extractHash(account.address) === myHash;
+    const items: TransactionHistoryItem[] = [];
+
+    for (const event of events) {
+        // TonAPI reports what the account lost beyond its actions (fees) as a negative `extra`
+        const extra = toBigInt(event.extra);
+        (event.actions || []).forEach((action: any, index: number) => {
+            const item = parseAction(event, action, isMe, network);
+            if (item) items.push(index === 0 && extra < 0n ? { ...item, fee: -extra } : item);
+        });
+    }
+
+    return items;
+}
+
+/**
+ * Parse one action of an event
+ */
+function parseAction(event: any, action: any, isMe: (account: any) => boolean, network: NetworkType): TransactionHistoryItem | null {
+    const failed = action.status === 'failed';
+    const base = (type: TransactionDirection, fromAccount: any, toAccount: any, amount: bigint) => ({
+        hash: event.event_id,
+        lt: event.lt !== undefined ? String(event.lt) : undefined,
+        type,
+        amount,
+        from: toUserFriendlyAddress(fromAccount?.address, fromAccount?.name, network),
+        to: toUserFriendlyAddress(toAccount?.address, toAccount?.name, network),
+        fromRaw: fromAccount?.address,
+        toRaw: toAccount?.address,
+        timestamp: event.timestamp,
+        description: action.simple_preview?.description,
+        status: (event.in_progress ? 'pending' : failed ? 'failed' : 'confirmed') as TransactionStatus,
+    });
+    const payload = action[action.type] || {};
+
+    switch (action.type) {
+        case 'TonTransfer': {
+            const incoming = isMe(payload.recipient) && !isMe(payload.sender);
+            const item = { ...base(incoming ? 'incoming' : 'outgoing', payload.sender, payload.recipient, toBigInt(payload.amount)), comment: payload.comment };
+            return failed ? { ...item, action: 'bounce', bounced: 'ton_transfer' } : { ...item, action: 'ton_transfer' };
+        }
+
+        case 'JettonTransfer': {
+            const item = {
+                ...base(isMe(payload.recipient) ? 'incoming' : 'outgoing', payload.sender, payload.recipient, toBigInt(payload.amount)),
+                comment: payload.comment,
+                jetton: parseJettonPreview(payload.jetton),
+            };
+            return failed ? { ...item, action: 'bounce', bounced: 'jetton_transfer' } : { ...item, action: 'jetton_transfer' };
+        }
+
+        case 'NftItemTransfer':
+            return {
+                ...base(isMe(payload.recipient) ? 'incoming' : 'outgoing', payload.sender, payload.recipient, 1n),
+                action: 'nft_transfer',
+                comment: payload.comment,
+                nft: payload.nft,
+            };
+
+        case 'JettonSwap':
+            return {
+                ...base('outgoing', payload.user_wallet, payload.router, toBigInt(payload.ton_in ?? payload.amount_in)),
+                action: 'jetton_swap',
+                dex: payload.dex || 'unknown',
+                jetton: payload.jetton_master_in ? parseJettonPreview(payload.jetton_master_in) : undefined,
+                amountOut: toBigInt(payload.ton_out ?? payload.amount_out),
+                jettonOut: payload.jetton_master_out ? parseJettonPreview(payload.jetton_master_out) : undefined,
+            };
+
+        case 'JettonMint':
+            return {
+                ...base('incoming', undefined, payload.recipient, toBigInt(payload.amount)),
+                action: 'jetton_mint',
+                jetton: parseJettonPreview(payload.jetton),
+            };
+
+        case 'JettonBurn':
+            return {
+                ...base('outgoing', payload.sender, undefined, toBigInt(payload.amount)),
+                action: 'jetton_burn',
+                jetton: parseJettonPreview(payload.jetton),
+            };
+
+        case 'NftPurchase':
+            return {
+                ...base(isMe(payload.buyer) ? 'outgoing' : 'incoming', payload.buyer, payload.seller, toBigInt(payload.amount?.value)),
+                action: 'nft_purchase',
+                nft: payload.nft?.address,
+            };
+
+        case 'AuctionBid':
+            return {
+                ...base('outgoing', payload.bidder, payload.auction, toBigInt(payload.amount?.value)),
+                action: 'auction_bid',
+                nft: payload.nft?.address,
+            };
+
+        case 'ContractDeploy':
+            return {
+                ...base('outgoing', undefined, { address: payload.address }, 0n),
+                action: 'contract_deploy',
+                interfaces: payload.interfaces || [],
+            };
+
+        case 'SmartContractExec':
+            return {
+                ...base(isMe(payload.executor) ? 'outgoing' : 'incoming', payload.executor, payload.contract, toBigInt(payload.ton_attached)),
+                action: 'contract_call',
+                operation: payload.operation || '',
+            };
+
+        case 'DepositStake':
+        case 'WithdrawStakeRequest':
+            return {
+                ...base('outgoing', payload.staker, payload.pool, toBigInt(payload.amount)),
+                action: action.type === 'DepositStake' ? 'stake_deposit' : 'stake_withdraw_request',
+                pool: toUserFriendlyAddress(payload.pool?.address, payload.pool?.name, network),
+                implementation: payload.implementation,
+            };
+
+        case 'WithdrawStake':
+            return {
+                ...base('incoming', payload.pool, payload.staker, toBigInt(payload.amount)),
+                action: 'stake_withdraw',
+                pool: toUserFriendlyAddress(payload.pool?.address, payload.pool?.name, network),
+                implementation: payload.implementation,
+            };
+
+        case 'ElectionsDepositStake':
+            return {
+                ...base('outgoing', payload.staker, undefined, toBigInt(payload.amount)),
+                action: 'stake_deposit',
+                pool: 'elector',
+            };
+
+        case 'ElectionsRecoverStake':
+            return {
+                ...base('incoming', undefined, payload.staker, toBigInt(payload.amount)),
+                action: 'stake_withdraw',
+                pool: 'elector',
+            };
+
+        case 'DomainRenew':
+            return {
+                ...base('outgoing', payload.renewer, { address: payload.contract_address }, 0n),
+                action: 'domain_renew',
+                domain: payload.domain || '',
+            };
+
+        case 'Subscribe':
+        case 'UnSubscribe':
+            return {
+                ...base('outgoing', payload.subscriber, payload.beneficiary, action.type === 'Subscribe' ? toBigInt(payload.amount) : 0n),
+                action: action.type === 'Subscribe' ? 'subscribe' : 'unsubscribe',
+            };
+
+        default:
+            return {
+                ...base('outgoing', undefined, undefined, 0n),
+                action: 'unknown',
+                description: action.simple_preview?.description || action.simple_preview?.name || action.type,
+            };
+    }
+}
+
+/**
+ * Jetton preview of an action
+ */
+function parseJettonPreview(jetton: any): JettonInfo {
+    return {
+        address: jetton?.address || '',
+        symbol: jetton?.symbol || 'TOKEN',
+        name: jetton?.name || 'Unknown',
+        decimals: jetton?.decimals || 9,
+        image: jetton?.image,
+        verified: jetton?.verification === 'whitelist',
+    };
+}
+
+function toBigInt(value: unknown): bigint {
+    try {
+        return value === undefined || value === null || value === '' ? 0n : BigInt(value as string | number);
+    } catch {
+        return 0n;
+    }
+}
+
+/**
+ * Hash part of a raw address (after the colon)
+ */
+function extractHash(address: string | undefined): string {
+    if (!address) return '';
+    if (address.includes(':')) {
+        return address.split(':')[1]?.toLowerCase() || '';
+    }
+    return address.toLowerCase();
+}
+
+/**
+ * Name TonAPI knows the account by, or its non-bounceable friendly address
+ */
+function toUserFriendlyAddress(rawAddress: string | undefined, nameHint: string | undefined, network: NetworkType): string {
+    if (nameHint) return nameHint;
+    if (!rawAddress) return 'Unknown';
+
+    try {
+        if (rawAddress.includes(':')) {
+            return Address.parseRaw(rawAddress).toString({ bounceable: false, testOnly: network === 'testnet' });
+        }
+    } catch {
+        // Shown as given
+    }
+    return rawAddress;
+}
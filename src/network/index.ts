@@ -6,3 +6,4 @@ export { RpcClient, RPC_ENDPOINTS, createRpcClient } from './RpcClient';
 export type { RpcClientConfig, RpcProvider } from './RpcClient';
 
 export { TonApiClient, createTonApiClient } from './TonApiClient';
+export { parseAccountEvents, parseAccountEventsPage } from './TonApiEvents';
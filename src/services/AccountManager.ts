@@ -4,10 +4,22 @@ export interface WalletAccount {
     id: string;
     name: string;
     type: string;
-    encryptedSeed: any;
-    passwordHash: string;
+    encryptedSeed?: any;    // Absent for watch-only accounts
+    passwordHash?: string;
     address: string;
+    publicKey?: string;
     color?: string;
+    // No seed: with a public key transactions are signed on a cold device over QR,
+    // address-only accounts (type may be 'unknown') can only be watched.
+    // Multisig accounts are watch-only too: their orders are signed by member accounts
+    watchOnly?: boolean;
+    hiddenNfts?: string[];  // NFT items the user hid from the gallery
+}
+
+export const MULTISIG_ACCOUNT_TYPE = 'multisig-v2';
+
+export function isMultisigAccount(account: WalletAccount | null | undefined): boolean {
+    return account?.type === MULTISIG_ACCOUNT_TYPE;
 }
 
 const STORAGE_KEY = 'wallet_accounts';
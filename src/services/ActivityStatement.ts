@@ -0,0 +1,423 @@
+/**
+ * Activity Statement
+ *
+ * Search and filters over the transaction history, and statements of the
+ * filtered history for accounting, exported as CSV or JSON.
+ *
+ * A statement has one row per asset movement: a swap is two rows (what was
+ * given and what was received) and fees are a column of the event's first
+ * row. Amounts are valued in fiat at the transaction time from TonAPI's
+ * rate charts; rows whose asset has no price (NFTs, unlisted jettons,
+ * testnet) leave the fiat columns empty.
+ */
+
+import { Address } from '@ton/core';
+import { swapService } from './SwapService';
+import { findContact } from './AddressBook';
+import type { Contact } from './AddressBook';
+import { sameTokenAddress } from './TokenRegistry';
+import type { NetworkType, TransactionAction, TransactionDirection, TransactionHistoryItem, TransactionStatus } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Filters over the history; absent fields match everything
+ */
+export interface ActivityFilter {
+    query?: string;                 // Address, contact label, comment or hash
+    asset?: string;                 // 'TON', 'NFT' or a jetton master address
+    from?: number;                  // Unix time, inclusive
+    to?: number;                    // Unix time, exclusive
+    minAmount?: string;             // In the asset's units, e.g. '1.5'
+    maxAmount?: string;
+    actions?: TransactionAction[];
+    direction?: TransactionDirection;
+}
+
+/**
+ * Historical prices of an asset (TonApiService), as [timestamp, price]
+ * points, oldest first
+ */
+export interface PriceHistory {
+    getRateChart(token: string, currency: string, startDate: number, endDate: number): Promise<[number, number][]>;
+}
+
+/**
+ * One asset movement of a statement
+ */
+export interface StatementRow {
+    date: string;                   // ISO 8601, UTC
+    timestamp: number;
+    hash: string;                   // Event id; shared by the rows of one event
+    action: TransactionAction;
+    direction: TransactionDirection;
+    status: TransactionStatus;
+    asset: string;                  // Symbol
+    assetAddress: string;           // Jetton master or NFT item; empty for TON
+    amount: string;                 // Decimal, in the asset's units
+    price: number | null;           // Fiat per unit at the transaction time
+    fiatValue: string | null;
+    fee: string;                    // TON
+    feeFiat: string | null;
+    counterparty: string;
+    counterpartyLabel: string;      // Address book label
+    comment: string;
+}
+
+/**
+ * Statement of a wallet's filtered history
+ */
+export interface ActivityStatement {
+    address: string;
+    network: NetworkType;
+    currency: string;
+    from?: number;
+    to?: number;
+    generatedAt: number;
+    rows: StatementRow[];           // Oldest first
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Rate chart window; TonAPI returns a fixed number of points per request,
+ * so long ranges are read a month at a time to keep them a few hours apart
+ */
+const CHART_WINDOW = 30 * 24 * 60 * 60;
+
+/**
+ * Farthest a chart point may be from a transaction to price it
+ */
+const PRICE_TOLERANCE = 24 * 60 * 60;
+
+const NFT_ACTIONS: TransactionAction[] = ['nft_transfer'];
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+/**
+ * Whether a history item passes the filter. The query matches the
+ * counterparty in any address format, its contact label, the comment,
+ * TonAPI's description and the event hash, case-insensitively.
+ */
+export function matchesActivity(item: TransactionHistoryItem, filter: ActivityFilter, contacts: Contact[] = []): boolean {
+    if (filter.direction && item.type !== filter.direction) return false;
+    if (filter.actions?.length && !filter.actions.includes(item.action)) return false;
+    if (filter.from !== undefined && item.timestamp < filter.from) return false;
+    if (filter.to !== undefined && item.timestamp >= filter.to) return false;
+    if (filter.asset && !legsOf(item).some(leg => isAsset(leg, filter.asset!))) return false;
+
+    if (filter.minAmount || filter.maxAmount) {
+        const inRange = legsOf(item).some(leg => {
+            if (filter.asset && !isAsset(leg, filter.asset)) return false;
+            const min = filter.minAmount ? toUnits(filter.minAmount, leg.decimals) : null;
+            const max = filter.maxAmount ? toUnits(filter.maxAmount, leg.decimals) : null;
+            if (min !== null && leg.units < min) return false;
+            if (max !== null && leg.units > max) return false;
+            return true;
+        });
+        if (!inRange) return false;
+    }
+
+    const query = filter.query?.trim().toLowerCase();
+    if (query) {
+        const counterparty = item.type === 'incoming' ? item.fromRaw || item.from : item.toRaw || item.to;
+        const haystack = [
+            item.from,
+            item.to,
+            item.fromRaw,
+            item.toRaw,
+            findContact(contacts, counterparty)?.label,
+            item.comment,
+            item.description,
+            item.hash,
+        ];
+        if (!sameAddress(filter.query!, counterparty) && !haystack.some(value => value?.toLowerCase().includes(query))) return false;
+    }
+
+    return true;
+}
+
+/**
+ * History items that pass the filter
+ */
+export function filterActivity(items: TransactionHistoryItem[], filter: ActivityFilter, contacts: Contact[] = []): TransactionHistoryItem[] {
+    return items.filter(item => matchesActivity(item, filter, contacts));
+}
+
+/**
+ * Whether a filter has no conditions
+ */
+export function isEmptyFilter(filter: ActivityFilter): boolean {
+    return !filter.query?.trim() && !filter.asset && filter.from === undefined && filter.to === undefined
+        && !filter.minAmount && !filter.maxAmount && !filter.actions?.length && !filter.direction;
+}
+
+/**
+ * Unix time range of a calendar month (1-12) in UTC, for monthly statements
+ */
+export function monthRange(year: number, month: number): { from: number; to: number } {
+    return { from: Date.UTC(year, month - 1, 1) / 1000, to: Date.UTC(year, month, 1) / 1000 };
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+/**
+ * Statement builder
+ */
+export class ActivityStatementBuilder {
+    private readonly prices: PriceHistory | null;
+
+    constructor(options: { prices?: PriceHistory } = {}) {
+        this.prices = options.prices ?? null;
+    }
+
+    /**
+     * Statement of the history items that pass the filter, valued in `currency`
+     */
+    async build(items: TransactionHistoryItem[], options: {
+        address: string;
+        network: NetworkType;
+        currency?: string;
+        filter?: ActivityFilter;
+        contacts?: Contact[];
+        now?: number;
+    }): Promise<ActivityStatement> {
+        const currency = (options.currency ?? 'usd').toLowerCase();
+        const filter = options.filter ?? {};
+        const contacts = options.contacts ?? [];
+        const selected = filterActivity(items, filter, contacts).sort((a, b) => a.timestamp - b.timestamp);
+
+        // The event's fee is on its first action, and goes on that action's first row
+        const movements = selected.flatMap(item => legsOf(item)
+            .filter(leg => !filter.asset || isAsset(leg, filter.asset))
+            .map((leg, index) => ({ item, leg, fee: index === 0 ? item.fee ?? 0n : 0n })));
+
+        const charts = options.network === 'mainnet'
+            ? await this.loadCharts(movements.map(m => m.leg), movements.some(m => m.fee > 0n), currency, selected)
+            : new Map<string, [number, number][]>();
+
+        const rows = movements.map(({ item, leg, fee }): StatementRow => {
+            const price = leg.priced ? priceAt(charts.get(chartToken(leg.assetAddress)), item.timestamp) : null;
+            const tonPrice = priceAt(charts.get('ton'), item.timestamp);
+            const counterparty = leg.direction === 'incoming' ? item.from : item.to;
+            const counterpartyRaw = leg.direction === 'incoming' ? item.fromRaw : item.toRaw;
+            const amount = leg.decimals === 0 ? leg.units.toString() : swapService.fromUnits(leg.units.toString(), leg.decimals);
+            const feeAmount = fee > 0n ? swapService.fromUnits(fee.toString(), 9) : '0';
+
+            return {
+                date: new Date(item.timestamp * 1000).toISOString(),
+                timestamp: item.timestamp,
+                hash: item.hash,
+                action: item.action,
+                direction: leg.direction,
+                status: item.status,
+                asset: leg.symbol,
+                assetAddress: leg.assetAddress === 'TON' ? '' : leg.assetAddress,
+                amount,
+                price,
+                fiatValue: price !== null ? fiat(Number(amount) * price) : null,
+                fee: feeAmount,
+                feeFiat: fee === 0n ? fiat(0) : tonPrice !== null ? fiat(Number(feeAmount) * tonPrice) : null,
+                counterparty,
+                counterpartyLabel: findContact(contacts, counterpartyRaw || counterparty)?.label ?? '',
+                comment: item.comment ?? '',
+            };
+        });
+
+        return {
+            address: options.address,
+            network: options.network,
+            currency,
+            from: filter.from,
+            to: filter.to,
+            generatedAt: options.now ?? Date.now(),
+            rows,
+        };
+    }
+
+    /**
+     * Rate charts of the priced assets (and TON, for fees) over the
+     * statement's range, keyed by chart token
+     */
+    private async loadCharts(legs: Leg[], withFees: boolean, currency: string, items: TransactionHistoryItem[]): Promise<Map<string, [number, number][]>> {
+        const charts = new Map<string, [number, number][]>();
+        if (!this.prices || items.length === 0) return charts;
+
+        const tokens = new Set(legs.filter(leg => leg.priced).map(leg => chartToken(leg.assetAddress)));
+        if (withFees) tokens.add('ton');
+
+        const start = items[0].timestamp - PRICE_TOLERANCE;
+        const end = items[items.length - 1].timestamp + PRICE_TOLERANCE;
+        for (const token of tokens) {
+            const points: [number, number][] = [];
+            for (let from = start; from < end; from += CHART_WINDOW) {
+                try {
+                    points.push(...await this.prices.getRateChart(token, currency, from, Math.min(from + CHART_WINDOW, end)));
+                } catch (error) {
+                    console.warn(`Failed to load ${token} prices:`, error);
+                }
+            }
+            charts.set(token, points.sort((a, b) => a[0] - b[0]));
+        }
+        return charts;
+    }
+}
+
+/**
+ * Statement as CSV, one row per asset movement
+ */
+export function statementToCsv(statement: ActivityStatement): string {
+    const currency = statement.currency.toUpperCase();
+    const header = [
+        'date', 'hash', 'action', 'direction', 'status', 'asset', 'asset_address', 'amount',
+        `price_${currency}`, `value_${currency}`, 'fee_TON', `fee_${currency}`, 'counterparty', 'counterparty_label', 'comment',
+    ];
+    const lines = statement.rows.map(row => [
+        row.date,
+        row.hash,
+        row.action,
+        row.direction,
+        row.status,
+        csvText(row.asset),
+        row.assetAddress,
+        row.amount,
+        row.price ?? '',
+        row.fiatValue ?? '',
+        row.fee,
+        row.feeFiat ?? '',
+        csvText(row.counterparty),
+        csvText(row.counterpartyLabel),
+        csvText(row.comment),
+    ].map(value => csvCell(String(value))).join(','));
+
+    return [header.join(','), ...lines].join('\n');
+}
+
+/**
+ * Statement as JSON
+ */
+export function statementToJson(statement: ActivityStatement): string {
+    return JSON.stringify({
+        ...statement,
+        from: statement.from !== undefined ? new Date(statement.from * 1000).toISOString() : undefined,
+        to: statement.to !== undefined ? new Date(statement.to * 1000).toISOString() : undefined,
+        generatedAt: new Date(statement.generatedAt).toISOString(),
+    }, null, 2);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface Leg {
+    direction: TransactionDirection;
+    units: bigint;
+    decimals: number;
+    symbol: string;
+    assetAddress: string;       // 'TON', a jetton master or an NFT item
+    priced: boolean;
+}
+
+/**
+ * Asset movements of a history item: a swap gives one asset and receives
+ * another, everything else moves one
+ */
+function legsOf(item: TransactionHistoryItem): Leg[] {
+    if (NFT_ACTIONS.includes(item.action)) {
+        return [{ direction: item.type, units: 1n, decimals: 0, symbol: 'NFT', assetAddress: item.nft || 'NFT', priced: false }];
+    }
+
+    const leg = (direction: TransactionDirection, units: bigint, jetton = item.jetton): Leg => ({
+        direction,
+        units,
+        decimals: jetton?.decimals ?? 9,
+        symbol: jetton?.symbol ?? 'TON',
+        assetAddress: jetton?.address || 'TON',
+        priced: true,
+    });
+
+    if (item.action === 'jetton_swap') {
+        return [leg('outgoing', item.amount), leg('incoming', item.amountOut, item.jettonOut)];
+    }
+    return [leg(item.type, item.amount)];
+}
+
+/**
+ * Whether a movement is of a filter's asset ('TON', 'NFT' or a jetton master)
+ */
+function isAsset(leg: Leg, asset: string): boolean {
+    if (asset === 'NFT') return leg.symbol === 'NFT' && !leg.priced;
+    if (asset === 'TON' || leg.assetAddress === 'TON') return leg.assetAddress === asset;
+    return leg.priced && sameTokenAddress(leg.assetAddress, asset);
+}
+
+/**
+ * Units of a decimal amount; null when it is not a number (no bound)
+ */
+function toUnits(amount: string, decimals: number): bigint | null {
+    const trimmed = amount.trim();
+    return /^\d*\.?\d*$/.test(trimmed) && /\d/.test(trimmed) ? BigInt(swapService.toUnits(trimmed, decimals)) : null;
+}
+
+/**
+ * Whether a query is the counterparty's address in another format
+ */
+function sameAddress(query: string, address: string | undefined): boolean {
+    try {
+        return !!address && Address.parse(query.trim()).equals(Address.parse(address));
+    } catch {
+        return false;
+    }
+}
+
+function chartToken(assetAddress: string): string {
+    return assetAddress === 'TON' ? 'ton' : assetAddress;
+}
+
+/**
+ * Price at the chart point nearest a time, if close enough
+ */
+function priceAt(points: [number, number][] | undefined, timestamp: number): number | null {
+    let nearest: [number, number] | null = null;
+    for (const point of points ?? []) {
+        if (!nearest || Math.abs(point[0] - timestamp) < Math.abs(nearest[0] - timestamp)) nearest = point;
+    }
+    return nearest && Math.abs(nearest[0] - timestamp) <= PRICE_TOLERANCE ? nearest[1] : null;
+}
+
+function fiat(value: number): string {
+    return value.toFixed(2);
+}
+
+function csvCell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Free text from senders (comments, names, jetton symbols) with a leading
+ * formula character escaped, so spreadsheets show it instead of evaluating it
+ */
+function csvText(value: string): string {
+    return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create statement builder
+ */
+export function createActivityStatementBuilder(options: { prices?: PriceHistory } = {}): ActivityStatementBuilder {
+    return new ActivityStatementBuilder(options);
+}
+
+export default ActivityStatementBuilder;
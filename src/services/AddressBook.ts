@@ -0,0 +1,366 @@
+/**
+ * Address Book
+ *
+ * Saved contacts per wallet account (keyed by WalletAccount id): a label,
+ * notes, the network the address belongs to, the jetton usually sent to it,
+ * and whether it needs a memo (exchanges credit deposits by the comment).
+ *
+ * Before a send, a recipient is checked against the book: a saved contact
+ * is recognised, an address never sent to before is flagged as new, one that
+ * shares the visible start and end of a contact's address but is another
+ * address is flagged as a lookalike (address poisoning), and the scam lookup
+ * (TonAPI's scam flag) is asked about it.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Address } from '@ton/core';
+import type { NetworkType } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Saved contact
+ */
+export interface Contact {
+    id: string;
+    address: string;
+    label: string;
+    notes?: string;
+    network: NetworkType;
+    defaultJetton?: string;     // Jetton master; TON when absent
+    requiresMemo: boolean;
+    createdAt: number;
+}
+
+/**
+ * Contact as entered; an id updates that contact
+ */
+export interface ContactInput {
+    id?: string;
+    address: string;
+    label: string;
+    notes?: string;
+    network?: NetworkType;
+    defaultJetton?: string;
+    requiresMemo?: boolean;
+}
+
+export type RecipientWarningKind = 'scam' | 'lookalike' | 'new';
+
+export interface RecipientWarning {
+    kind: RecipientWarningKind;
+    message: string;
+    contact?: Contact;          // The contact a lookalike imitates
+}
+
+/**
+ * What the address book knows about a recipient
+ */
+export interface RecipientCheck {
+    contact: Contact | null;
+    memoRequired: boolean;
+    warnings: RecipientWarning[];   // Most severe first
+}
+
+/**
+ * Whether an address is flagged as a scam (TonApiService account info)
+ */
+export interface ScamLookup {
+    isScam(address: string): Promise<boolean>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'address_book';
+
+/**
+ * Characters compared at each end of a friendly address, after its
+ * two-character tag, when looking for lookalikes
+ */
+const LOOKALIKE_CHARS = 4;
+
+const MAX_LABEL_LENGTH = 64;
+
+// ============================================================================
+// ADDRESS BOOK STORE
+// ============================================================================
+
+/**
+ * Address Book Store
+ */
+export class AddressBookStore {
+    private contacts: Record<string, Contact[]>;
+
+    constructor() {
+        this.contacts = this.load();
+    }
+
+    /**
+     * Load contacts from storage
+     */
+    private load(): Record<string, Contact[]> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved);
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load address book:', error);
+        }
+        return {};
+    }
+
+    /**
+     * Save contacts to storage
+     */
+    private save(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.contacts));
+            }
+        } catch (error) {
+            console.warn('Failed to save address book:', error);
+        }
+    }
+
+    /**
+     * Get all contacts of an account, by label
+     */
+    getContacts(accountId: string): Contact[] {
+        return [...(this.contacts[accountId] || [])].sort((a, b) => a.label.localeCompare(b.label));
+    }
+
+    /**
+     * Add or replace a contact
+     */
+    saveContact(accountId: string, contact: Contact): void {
+        const list = (this.contacts[accountId] || []).filter(c => c.id !== contact.id);
+        list.push(contact);
+        this.contacts[accountId] = list;
+        this.save();
+    }
+
+    /**
+     * Remove a contact
+     */
+    removeContact(accountId: string, id: string): void {
+        this.contacts[accountId] = (this.contacts[accountId] || []).filter(c => c.id !== id);
+        this.save();
+    }
+
+    /**
+     * Remove all contacts of an account
+     */
+    removeAccount(accountId: string): void {
+        delete this.contacts[accountId];
+        this.save();
+    }
+}
+
+// ============================================================================
+// ADDRESS BOOK
+// ============================================================================
+
+/**
+ * Address Book
+ */
+export class AddressBook {
+    private readonly store: AddressBookStore;
+    private readonly scams: ScamLookup | null;
+
+    constructor(options: { store?: AddressBookStore; scams?: ScamLookup } = {}) {
+        this.store = options.store ?? new AddressBookStore();
+        this.scams = options.scams ?? null;
+    }
+
+    /**
+     * Get all contacts of an account, by label
+     */
+    getContacts(accountId: string): Contact[] {
+        return this.store.getContacts(accountId);
+    }
+
+    /**
+     * Add a contact, or update the one with the input's id. An address is
+     * saved once per account and network.
+     */
+    saveContact(accountId: string, input: ContactInput): Contact {
+        const label = input.label.trim();
+        if (!label) {
+            throw new Error('Label is required');
+        }
+        if (label.length > MAX_LABEL_LENGTH) {
+            throw new Error(`Label must be at most ${MAX_LABEL_LENGTH} characters`);
+        }
+
+        const network = input.network ?? 'mainnet';
+        const entered = input.address.trim();
+        const parsed = parseAddress(entered);
+        if (!parsed) {
+            throw new Error('Invalid address');
+        }
+        if (Address.isFriendly(entered) && Address.parseFriendly(entered).isTestOnly !== (network === 'testnet')) {
+            throw new Error(`This is not a ${network} address`);
+        }
+        // Raw addresses are kept in the friendly form the send form accepts
+        const address = Address.isFriendly(entered) ? entered : parsed.toString({ testOnly: network === 'testnet' });
+
+        let defaultJetton: string | undefined;
+        if (input.defaultJetton) {
+            const master = parseAddress(input.defaultJetton);
+            if (!master) {
+                throw new Error('Invalid default jetton');
+            }
+            defaultJetton = master.toString();
+        }
+
+        const contacts = this.store.getContacts(accountId);
+        const existing = input.id ? contacts.find(c => c.id === input.id) : undefined;
+        if (input.id && !existing) {
+            throw new Error('Contact not found');
+        }
+        const duplicate = contacts.find(c => c.id !== input.id && c.network === network && parseAddress(c.address)?.equals(parsed));
+        if (duplicate) {
+            throw new Error(`This address is already saved as "${duplicate.label}"`);
+        }
+
+        const contact: Contact = {
+            id: existing?.id ?? uuidv4(),
+            address,
+            label,
+            notes: input.notes?.trim() || undefined,
+            network,
+            defaultJetton,
+            requiresMemo: input.requiresMemo ?? false,
+            createdAt: existing?.createdAt ?? Date.now(),
+        };
+        this.store.saveContact(accountId, contact);
+        return contact;
+    }
+
+    /**
+     * Remove a contact
+     */
+    removeContact(accountId: string, id: string): void {
+        this.store.removeContact(accountId, id);
+    }
+
+    /**
+     * Forget the contacts of a deleted account
+     */
+    removeAccount(accountId: string): void {
+        this.store.removeAccount(accountId);
+    }
+
+    /**
+     * Check a recipient before sending. `history` lists the addresses the
+     * account has sent to; an address in neither it nor the book is new.
+     */
+    async checkRecipient(accountId: string, address: string, network: NetworkType = 'mainnet', history: string[] = []): Promise<RecipientCheck> {
+        const parsed = parseAddress(address);
+        if (!parsed) {
+            throw new Error('Invalid address');
+        }
+
+        const contacts = this.store.getContacts(accountId).filter(c => c.network === network);
+        const contact = findContact(contacts, address) ?? null;
+        const warnings: RecipientWarning[] = [];
+
+        if (this.scams) {
+            let scam = false;
+            try {
+                scam = await this.scams.isScam(address);
+            } catch (error) {
+                console.warn('Scam lookup failed:', error);
+            }
+            if (scam) {
+                warnings.push({ kind: 'scam', message: 'This address is flagged as a scam' });
+            }
+        }
+
+        if (!contact) {
+            for (const other of contacts) {
+                const otherAddress = parseAddress(other.address);
+                if (otherAddress && looksAlike(parsed, otherAddress, network)) {
+                    warnings.push({
+                        kind: 'lookalike',
+                        message: `This address looks like your contact "${other.label}" but is a different address`,
+                        contact: other,
+                    });
+                }
+            }
+
+            if (!history.some(sent => parseAddress(sent)?.equals(parsed))) {
+                warnings.push({ kind: 'new', message: 'You have not sent to this address before' });
+            }
+        }
+
+        return { contact, memoRequired: contact?.requiresMemo ?? false, warnings };
+    }
+
+    /**
+     * Throw when the recipient is a contact that needs a memo and none is given
+     */
+    requireMemo(accountId: string, address: string, comment?: string, network: NetworkType = 'mainnet'): void {
+        const contacts = this.store.getContacts(accountId).filter(c => c.network === network);
+        const contact = findContact(contacts, address);
+        if (contact?.requiresMemo && !comment?.trim()) {
+            throw new Error(`${contact.label} requires a memo; add it as the comment`);
+        }
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Contact saved with an address, in any of its formats
+ */
+export function findContact(contacts: Contact[], address: string): Contact | undefined {
+    const parsed = parseAddress(address);
+    return parsed ? contacts.find(c => parseAddress(c.address)?.equals(parsed)) : undefined;
+}
+
+function parseAddress(address: string): Address | null {
+    try {
+        return Address.parse(address.trim());
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Different addresses whose friendly forms, bounceable or not, share the
+ * characters shown at both ends of a shortened address
+ */
+function looksAlike(a: Address, b: Address, network: NetworkType): boolean {
+    if (a.equals(b)) return false;
+
+    return [true, false].some(bounceable => {
+        const options = { bounceable, testOnly: network === 'testnet' };
+        const x = a.toString(options);
+        const y = b.toString(options);
+        return x.slice(2, 2 + LOOKALIKE_CHARS) === y.slice(2, 2 + LOOKALIKE_CHARS)
+            && x.slice(-LOOKALIKE_CHARS) === y.slice(-LOOKALIKE_CHARS);
+    });
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create address book
+ */
+export function createAddressBook(options: { store?: AddressBookStore; scams?: ScamLookup } = {}): AddressBook {
+    return new AddressBook(options);
+}
+
+export default AddressBook;
@@ -0,0 +1,607 @@
+/**
+ * Invoice Service
+ *
+ * Merchant invoices on top of TonApiService.getTransactions. An invoice asks
+ * for an amount of TON or of one jetton and carries a comment unique among
+ * the account's invoices; incoming transfers with that comment are matched
+ * to it. An invoice can be paid in several transfers: it stays underpaid
+ * until the amount is reached and turns overpaid past it. Transfers that
+ * arrive after the expiry are still recorded and marked late, so the
+ * merchant can settle or refund them.
+ *
+ * Invoices are persisted per wallet account (keyed by WalletAccount id).
+ * Listeners and an optional per-account webhook hear about every matched
+ * payment, every invoice paid in full, and every invoice that expires.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Address } from '@ton/core';
+import { buildUniversalTransferLink, parseTransferAmount } from './TransferLink';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InvoiceStatus = 'pending' | 'underpaid' | 'paid' | 'overpaid' | 'expired' | 'cancelled';
+
+/**
+ * Asset an invoice is paid in: TON without a jetton master
+ */
+export interface InvoiceAsset {
+    symbol: string;
+    decimals: number;
+    jettonMaster?: string;
+}
+
+/**
+ * Incoming transfer matched to an invoice
+ */
+export interface InvoicePayment {
+    key: string;            // Event hash and position, unique per transfer
+    hash: string;
+    from: string;
+    amount: string;         // Smallest units
+    at: number;
+    late: boolean;          // Arrived after the invoice expired
+}
+
+/**
+ * Stored invoice. Amounts are in the asset's smallest units.
+ */
+export interface Invoice {
+    id: string;
+    asset: InvoiceAsset;
+    amount: string;
+    comment: string;
+    description?: string;
+    createdAt: number;
+    expiresAt?: number;
+    status: InvoiceStatus;
+    received: string;
+    payments: InvoicePayment[];
+    paidAt?: number;
+    paidLate: boolean;      // The payment completing it arrived after the expiry
+}
+
+export interface CreateInvoiceParams {
+    asset: InvoiceAsset;
+    amount: string;             // Decimal amount, e.g. '12.5'
+    description?: string;
+    memo?: string;              // Comment the payer sends; generated when absent
+    expiresInMinutes?: number;
+}
+
+/**
+ * Transfer as returned by TonApiService.getTransactions
+ */
+export interface InvoiceTransfer {
+    hash: string;
+    action?: string;            // History item kind; only transfers pay invoices
+    type: string;               // 'incoming' | 'outgoing'
+    amount: number;
+    rawAmount?: string;
+    from: string;
+    timestamp: number;          // Seconds
+    comment?: string;
+    jettonAddress?: string;
+    nft?: unknown;
+    status?: string;            // 'pending' | 'confirmed' | 'failed'; only confirmed ones pay
+}
+
+/**
+ * Where the service reads transfers (TonApiService)
+ */
+export interface InvoiceTransferSource {
+    getTransactions(address: string, testnet?: boolean, limit?: number): Promise<InvoiceTransfer[]>;
+}
+
+export type InvoiceEventType = 'payment' | 'paid' | 'expired';
+
+/**
+ * What listeners and webhooks receive
+ */
+export interface InvoiceEvent {
+    type: InvoiceEventType;
+    accountId: string;
+    invoice: Invoice;
+    payment?: InvoicePayment;
+    at: number;
+}
+
+export type InvoiceListener = (event: InvoiceEvent) => void;
+
+/**
+ * Delivers an event to a webhook URL
+ */
+export type WebhookSender = (url: string, event: InvoiceEvent) => Promise<void>;
+
+/**
+ * Time source, replaceable in tests
+ */
+export interface Clock {
+    now(): number;
+}
+
+export interface InvoiceServiceOptions {
+    store?: InvoiceStore;
+    source?: InvoiceTransferSource;
+    clock?: Clock;
+    sendWebhook?: WebhookSender;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'merchant_invoices';
+
+/**
+ * Transfers this much older than an invoice are never its payments
+ */
+const CLOCK_SKEW = 60 * 1000;
+
+/**
+ * Transfers read per check
+ */
+export const INVOICE_CHECK_LIMIT = 50;
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+/**
+ * POST the event as JSON
+ */
+export const postWebhook: WebhookSender = async (url, event) => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+    });
+    if (!response.ok) {
+        throw new Error(`Webhook returned HTTP ${response.status}`);
+    }
+};
+
+// ============================================================================
+// INVOICE STORE
+// ============================================================================
+
+interface StoredInvoices {
+    invoices: Record<string, Invoice[]>;
+    webhooks: Record<string, string>;
+}
+
+/**
+ * Invoice Store
+ */
+export class InvoiceStore {
+    private data: StoredInvoices;
+
+    constructor() {
+        this.data = this.load();
+    }
+
+    /**
+     * Load invoices from storage
+     */
+    private load(): StoredInvoices {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved);
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load invoices:', error);
+        }
+        return { invoices: {}, webhooks: {} };
+    }
+
+    /**
+     * Save invoices to storage
+     */
+    private save(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+            }
+        } catch (error) {
+            console.warn('Failed to save invoices:', error);
+        }
+    }
+
+    /**
+     * Get all invoices of an account, newest first
+     */
+    getInvoices(accountId: string): Invoice[] {
+        return [...(this.data.invoices[accountId] || [])].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    /**
+     * Get an invoice by id
+     */
+    getInvoice(accountId: string, id: string): Invoice | undefined {
+        return (this.data.invoices[accountId] || []).find(i => i.id === id);
+    }
+
+    /**
+     * Add or replace an invoice
+     */
+    saveInvoice(accountId: string, invoice: Invoice): void {
+        const list = (this.data.invoices[accountId] || []).filter(i => i.id !== invoice.id);
+        list.push(invoice);
+        this.data.invoices[accountId] = list;
+        this.save();
+    }
+
+    /**
+     * Webhook URL of an account
+     */
+    getWebhook(accountId: string): string | null {
+        return this.data.webhooks[accountId] ?? null;
+    }
+
+    /**
+     * Set or clear the webhook URL of an account
+     */
+    setWebhook(accountId: string, url: string | null): void {
+        if (url) {
+            this.data.webhooks[accountId] = url;
+        } else {
+            delete this.data.webhooks[accountId];
+        }
+        this.save();
+    }
+
+    /**
+     * Remove all invoices and the webhook of an account
+     */
+    removeAccount(accountId: string): void {
+        delete this.data.invoices[accountId];
+        delete this.data.webhooks[accountId];
+        this.save();
+    }
+}
+
+// ============================================================================
+// INVOICE SERVICE
+// ============================================================================
+
+/**
+ * Invoice Service
+ */
+export class InvoiceService {
+    private readonly store: InvoiceStore;
+    private readonly source: InvoiceTransferSource | null;
+    private readonly clock: Clock;
+    private readonly sendWebhook: WebhookSender;
+    private listeners: Set<InvoiceListener>;
+
+    constructor(options: InvoiceServiceOptions = {}) {
+        this.store = options.store ?? new InvoiceStore();
+        this.source = options.source ?? null;
+        this.clock = options.clock ?? systemClock;
+        this.sendWebhook = options.sendWebhook ?? postWebhook;
+        this.listeners = new Set();
+    }
+
+    // ========================================================================
+    // INVOICES
+    // ========================================================================
+
+    /**
+     * Create an invoice. A memo must be unique among the account's invoices,
+     * whatever its case; without one a short code is generated.
+     */
+    createInvoice(accountId: string, params: CreateInvoiceParams): Invoice {
+        const amount = parseTransferAmount(params.amount, params.asset.decimals);
+        if (amount <= 0n) {
+            throw new Error('Amount must be greater than 0');
+        }
+        if (params.expiresInMinutes !== undefined && !(params.expiresInMinutes > 0)) {
+            throw new Error('Expiry must be greater than 0');
+        }
+
+        const taken = new Set(this.store.getInvoices(accountId).map(i => normalizeComment(i.comment)));
+        let comment = params.memo?.trim() ?? '';
+        if (comment) {
+            if (taken.has(normalizeComment(comment))) {
+                throw new Error(`Another invoice already uses the memo "${comment}"`);
+            }
+        } else {
+            do {
+                comment = `INV-${uuidv4().replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+            } while (taken.has(normalizeComment(comment)));
+        }
+
+        let jettonMaster: string | undefined;
+        if (params.asset.jettonMaster) {
+            try {
+                jettonMaster = Address.parse(params.asset.jettonMaster).toString();
+            } catch {
+                throw new Error(`Invalid jetton master: ${params.asset.jettonMaster}`);
+            }
+        }
+
+        const now = this.clock.now();
+        const invoice: Invoice = {
+            id: uuidv4(),
+            asset: { symbol: params.asset.symbol, decimals: params.asset.decimals, jettonMaster },
+            amount: amount.toString(),
+            comment,
+            description: params.description?.trim() || undefined,
+            createdAt: now,
+            expiresAt: params.expiresInMinutes ? now + params.expiresInMinutes * 60 * 1000 : undefined,
+            status: 'pending',
+            received: '0',
+            payments: [],
+            paidLate: false,
+        };
+        this.store.saveInvoice(accountId, invoice);
+        return invoice;
+    }
+
+    /**
+     * Cancel an invoice that has not been paid in full. Payments still
+     * arriving are recorded so they can be refunded.
+     */
+    cancelInvoice(accountId: string, id: string): Invoice {
+        const invoice = this.store.getInvoice(accountId, id);
+        if (!invoice) {
+            throw new Error('Invoice not found');
+        }
+        if (invoice.status === 'paid' || invoice.status === 'overpaid' || invoice.status === 'cancelled') {
+            throw new Error('Only unpaid invoices can be cancelled');
+        }
+
+        const cancelled = { ...invoice, status: 'cancelled' as const };
+        this.store.saveInvoice(accountId, cancelled);
+        return cancelled;
+    }
+
+    /**
+     * Get all invoices of an account, newest first
+     */
+    getInvoices(accountId: string): Invoice[] {
+        return this.store.getInvoices(accountId);
+    }
+
+    /**
+     * Payment link of an invoice to the merchant's address
+     */
+    getInvoiceLink(invoice: Invoice, address: string): string {
+        return buildUniversalTransferLink({
+            address,
+            amount: BigInt(invoice.amount),
+            jetton: invoice.asset.jettonMaster,
+            text: invoice.comment,
+            expiresAt: invoice.expiresAt ? Math.floor(invoice.expiresAt / 1000) : undefined,
+        });
+    }
+
+    /**
+     * Forget the invoices and webhook of a deleted account
+     */
+    removeAccount(accountId: string): void {
+        this.store.removeAccount(accountId);
+    }
+
+    // ========================================================================
+    // NOTIFICATIONS
+    // ========================================================================
+
+    /**
+     * Subscribe to invoice events; returns the unsubscribe function
+     */
+    on(listener: InvoiceListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Webhook URL events of an account are posted to
+     */
+    getWebhook(accountId: string): string | null {
+        return this.store.getWebhook(accountId);
+    }
+
+    /**
+     * Set or clear (null or empty) the webhook URL of an account
+     */
+    setWebhook(accountId: string, url: string | null): void {
+        const value = url?.trim() || null;
+        if (value) {
+            let parsed: URL;
+            try {
+                parsed = new URL(value);
+            } catch {
+                throw new Error('Invalid webhook URL');
+            }
+            if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+                throw new Error('Webhook URL must use http or https');
+            }
+        }
+        this.store.setWebhook(accountId, value);
+    }
+
+    // ========================================================================
+    // MATCHING
+    // ========================================================================
+
+    /**
+     * Read the account's latest transfers and match them to its invoices.
+     * Returns the invoices that changed.
+     */
+    async check(accountId: string, address: string, testnet: boolean = false): Promise<Invoice[]> {
+        if (!this.source) {
+            throw new Error('No transfer source configured');
+        }
+        const transfers = await this.source.getTransactions(address, testnet, INVOICE_CHECK_LIMIT);
+        return this.matchTransfers(accountId, transfers);
+    }
+
+    /**
+     * Match transfers to invoices by comment and asset, and expire the
+     * invoices past their expiry. Transfers already matched are skipped, so
+     * overlapping feeds are safe. Returns the invoices that changed.
+     */
+    matchTransfers(accountId: string, transfers: InvoiceTransfer[]): Invoice[] {
+        const now = this.clock.now();
+        const keyed = withKeys(transfers).sort((a, b) => a.transfer.timestamp - b.transfer.timestamp);
+        const changed: Invoice[] = [];
+        const events: InvoiceEvent[] = [];
+
+        for (const invoice of this.store.getInvoices(accountId)) {
+            const seen = new Set(invoice.payments.map(p => p.key));
+            const payments = keyed
+                .filter(({ key, transfer }) => !seen.has(key) && this.pays(invoice, transfer))
+                .map(({ key, transfer }): InvoicePayment => ({
+                    key,
+                    hash: transfer.hash,
+                    from: transfer.from,
+                    amount: transferUnits(transfer).toString(),
+                    at: transfer.timestamp * 1000,
+                    late: invoice.expiresAt !== undefined && transfer.timestamp * 1000 > invoice.expiresAt,
+                }));
+
+            const updated = this.settle(invoice, payments, now);
+            if (updated === invoice) continue;
+
+            this.store.saveInvoice(accountId, updated);
+            changed.push(updated);
+
+            const event = (type: InvoiceEventType, payment?: InvoicePayment) =>
+                events.push({ type, accountId, invoice: updated, payment, at: now });
+            payments.forEach(payment => event('payment', payment));
+            if (updated.paidAt !== undefined && invoice.paidAt === undefined) event('paid');
+            if (updated.status === 'expired' && invoice.status !== 'expired') event('expired');
+        }
+
+        events.forEach(event => this.emit(event));
+        return changed;
+    }
+
+    /**
+     * Whether a transfer is a payment for an invoice
+     */
+    private pays(invoice: Invoice, transfer: InvoiceTransfer): boolean {
+        if (transfer.status !== undefined && transfer.status !== 'confirmed') return false;
+        if (transfer.type !== 'incoming' || transfer.nft) return false;
+        if (transfer.action && transfer.action !== 'ton_transfer' && transfer.action !== 'jetton_transfer') return false;
+        if (normalizeComment(transfer.comment ?? '') !== normalizeComment(invoice.comment)) return false;
+        if (transfer.timestamp * 1000 < invoice.createdAt - CLOCK_SKEW) return false;
+
+        const master = invoice.asset.jettonMaster;
+        if (!master) return !transfer.jettonAddress;
+        return !!transfer.jettonAddress && sameAddress(transfer.jettonAddress, master);
+    }
+
+    /**
+     * Invoice with new payments added and its status brought up to date;
+     * the same object when nothing changed
+     */
+    private settle(invoice: Invoice, payments: InvoicePayment[], now: number): Invoice {
+        const amount = BigInt(invoice.amount);
+        let received = BigInt(invoice.received);
+        let { paidAt, paidLate } = invoice;
+
+        for (const payment of payments) {
+            received += BigInt(payment.amount);
+            if (paidAt === undefined && received >= amount) {
+                paidAt = payment.at;
+                paidLate = payment.late;
+            }
+        }
+
+        let status: InvoiceStatus;
+        if (invoice.status === 'cancelled') {
+            status = 'cancelled';
+        } else if (received >= amount) {
+            status = received > amount ? 'overpaid' : 'paid';
+        } else if (invoice.expiresAt !== undefined && now >= invoice.expiresAt) {
+            status = 'expired';
+        } else {
+            status = received > 0n ? 'underpaid' : 'pending';
+        }
+
+        if (payments.length === 0 && status === invoice.status) {
+            return invoice;
+        }
+        return {
+            ...invoice,
+            status,
+            received: received.toString(),
+            payments: [...invoice.payments, ...payments],
+            paidAt,
+            paidLate,
+        };
+    }
+
+    /**
+     * Tell listeners and the account's webhook; failures never reach the caller
+     */
+    private emit(event: InvoiceEvent): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error('[InvoiceService] Listener error:', error);
+            }
+        });
+
+        const webhook = this.store.getWebhook(event.accountId);
+        if (webhook) {
+            this.sendWebhook(webhook, event)
+                .catch(error => console.warn('[InvoiceService] Webhook failed:', error instanceof Error ? error.message : error));
+        }
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalizeComment(comment: string): string {
+    return comment.trim().toLowerCase();
+}
+
+function sameAddress(a: string, b: string): boolean {
+    try {
+        return Address.parse(a).equals(Address.parse(b));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Exact amount of a transfer; `amount` alone loses precision past 2^53
+ */
+function transferUnits(transfer: InvoiceTransfer): bigint {
+    return BigInt(transfer.rawAmount ?? Math.trunc(transfer.amount));
+}
+
+/**
+ * Key every transfer by its event hash and its position among the
+ * transfers of that event, which stays the same across reads
+ */
+function withKeys(transfers: InvoiceTransfer[]): { key: string; transfer: InvoiceTransfer }[] {
+    const counts = new Map<string, number>();
+    return transfers.map(transfer => {
+        const index = counts.get(transfer.hash) ?? 0;
+        counts.set(transfer.hash, index + 1);
+        return { key: `${transfer.hash}:${index}`, transfer };
+    });
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create invoice service
+ */
+export function createInvoiceService(options: InvoiceServiceOptions = {}): InvoiceService {
+    return new InvoiceService(options);
+}
+
+export default InvoiceService;
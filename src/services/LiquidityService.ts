@@ -0,0 +1,455 @@
+/**
+ * Liquidity Service
+ *
+ * Tracks an account's liquidity on STON.fi and DeDust, on top of SwapService:
+ * - positions: LP jettons held, with the pool tokens they redeem for
+ * - fees earned: growth of the pool invariant per LP token since the
+ *   account provided, which only swap fees cause in a constant-product pool
+ * - provisions: deposits sent but not settled yet; provided once LP tokens
+ *   arrive, refunded when the DEX sends the deposited tokens back
+ *
+ * Records are persisted per wallet account (keyed by WalletAccount id).
+ */
+
+import { Address } from '@ton/core';
+import { v4 as uuidv4 } from 'uuid';
+import type { JettonBalance, TransactionHistoryItem } from '../types';
+import { DEX_PROVIDERS, LP_DECIMALS, swapService } from './SwapService';
+import type { LiquidityQuote, PoolEdge, SwapProvider } from './SwapService';
+import { systemClock } from './SwapOrderService';
+import type { Clock } from './SwapOrderService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LiquidityProvisionStatus = 'pending' | 'provided' | 'refunded';
+
+/**
+ * Deposit sent to a pool. Amounts follow the pool's token order.
+ */
+export interface LiquidityProvision {
+    id: string;
+    provider: SwapProvider;
+    poolAddress: string;
+    tokens: [string, string];
+    amounts: [string, string];
+    lpBefore: string;        // LP balance when sent (smallest units)
+    lpReceived?: string;     // LP tokens minted, once provided (smallest units)
+    growth: number;          // Pool invariant per LP token when sent
+    sentAt: number;
+    settledAt?: number;
+    status: LiquidityProvisionStatus;
+    hash?: string;
+}
+
+/**
+ * LP tokens held in a pool, valued at its current reserves (smallest units)
+ */
+export interface LiquidityPosition {
+    pool: PoolEdge;
+    lpBalance: bigint;
+    share: number;                           // Share of the pool (0-1)
+    underlying: [bigint, bigint];            // Pool tokens the LP tokens redeem for
+    feesEarned: [bigint, bigint] | null;     // Part of underlying earned as fees; null without a recorded provision
+}
+
+/**
+ * Deposit or withdrawal, as confirmed in the UI
+ */
+export type LiquidityAction =
+    | { kind: 'provide'; pool: PoolEdge; quote: LiquidityQuote }
+    | { kind: 'remove'; pool: PoolEdge; lpAmount: string };
+
+/**
+ * LP tokens provided through the wallet, and their invariant when provided
+ */
+interface LiquidityEntry {
+    lp: string;
+    invariant: number;
+}
+
+interface AccountLiquidity {
+    provisions: LiquidityProvision[];
+    entries: Record<string, LiquidityEntry>; // By raw pool address
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'liquidity_positions';
+
+/**
+ * A transfer back from the DEX counts as a refund when it returns at least
+ * 1/REFUND_MIN_SHARE of a deposited amount; smaller ones are returned gas
+ */
+const REFUND_MIN_SHARE = 2n;
+
+// ============================================================================
+// LIQUIDITY STORE
+// ============================================================================
+
+/**
+ * Liquidity Store
+ */
+export class LiquidityStore {
+    private accounts: Record<string, AccountLiquidity>;
+
+    constructor() {
+        this.accounts = this.load();
+    }
+
+    /**
+     * Load records from storage
+     */
+    private load(): Record<string, AccountLiquidity> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved);
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load liquidity records:', error);
+        }
+        return {};
+    }
+
+    /**
+     * Save records to storage
+     */
+    private save(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.accounts));
+            }
+        } catch (error) {
+            console.warn('Failed to save liquidity records:', error);
+        }
+    }
+
+    /**
+     * Get an account's provisions, newest first
+     */
+    getProvisions(accountId: string): LiquidityProvision[] {
+        return [...(this.accounts[accountId]?.provisions || [])].sort((a, b) => b.sentAt - a.sentAt);
+    }
+
+    /**
+     * Add or replace a provision
+     */
+    saveProvision(accountId: string, provision: LiquidityProvision): void {
+        const account = this.getAccount(accountId);
+        account.provisions = account.provisions.filter(p => p.id !== provision.id);
+        account.provisions.push(provision);
+        this.save();
+    }
+
+    /**
+     * Get the entry of a pool
+     */
+    getEntry(accountId: string, poolAddress: string): LiquidityEntry | undefined {
+        return this.accounts[accountId]?.entries[rawAddress(poolAddress)];
+    }
+
+    /**
+     * Set or clear the entry of a pool
+     */
+    saveEntry(accountId: string, poolAddress: string, entry: LiquidityEntry | null): void {
+        const account = this.getAccount(accountId);
+        if (entry) {
+            account.entries[rawAddress(poolAddress)] = entry;
+        } else {
+            delete account.entries[rawAddress(poolAddress)];
+        }
+        this.save();
+    }
+
+    /**
+     * Remove all records of an account
+     */
+    removeAccount(accountId: string): void {
+        delete this.accounts[accountId];
+        this.save();
+    }
+
+    private getAccount(accountId: string): AccountLiquidity {
+        if (!this.accounts[accountId]) {
+            this.accounts[accountId] = { provisions: [], entries: {} };
+        }
+        return this.accounts[accountId];
+    }
+}
+
+// ============================================================================
+// LIQUIDITY TRACKER
+// ============================================================================
+
+/**
+ * Liquidity Tracker
+ */
+export class LiquidityTracker {
+    private store: LiquidityStore;
+    private clock: Clock;
+
+    constructor(options: { store?: LiquidityStore; clock?: Clock } = {}) {
+        this.store = options.store ?? new LiquidityStore();
+        this.clock = options.clock ?? systemClock;
+    }
+
+    /**
+     * Record a deposit that was just sent
+     *
+     * @param lpBefore - LP balance of the pool before the deposit
+     */
+    recordProvision(accountId: string, quote: LiquidityQuote, pool: PoolEdge, lpBefore: bigint, hash?: string): LiquidityProvision {
+        const provision: LiquidityProvision = {
+            id: uuidv4(),
+            provider: quote.provider,
+            poolAddress: quote.poolAddress,
+            tokens: quote.tokens,
+            amounts: quote.amounts,
+            lpBefore: lpBefore.toString(),
+            growth: getPoolGrowth(pool),
+            sentAt: this.clock.now(),
+            status: 'pending',
+            hash,
+        };
+        this.store.saveProvision(accountId, provision);
+        return provision;
+    }
+
+    /**
+     * Record LP tokens burnt; the entry shrinks pro rata
+     */
+    recordWithdrawal(accountId: string, poolAddress: string, lpBurnt: bigint): void {
+        const entry = this.store.getEntry(accountId, poolAddress);
+        if (!entry) return;
+
+        const lp = BigInt(entry.lp);
+        const left = lp > lpBurnt ? lp - lpBurnt : 0n;
+        this.store.saveEntry(accountId, poolAddress, left > 0n
+            ? { lp: left.toString(), invariant: entry.invariant * Number(left) / Number(lp) }
+            : null);
+    }
+
+    /**
+     * Get an account's provisions, newest first
+     */
+    getProvisions(accountId: string): LiquidityProvision[] {
+        return this.store.getProvisions(accountId);
+    }
+
+    /**
+     * Settle pending provisions: provided when the LP balance has grown since
+     * the deposit, refunded when the DEX has sent a deposited token back
+     *
+     * @param balances - The account's jetton balances (LP jettons included)
+     * @param history - The account's recent transfers
+     * @returns Provisions settled by this call
+     */
+    resolveProvisions(accountId: string, balances: JettonBalance[], history: TransactionHistoryItem[]): LiquidityProvision[] {
+        const settled: LiquidityProvision[] = [];
+        const pending = this.store.getProvisions(accountId)
+            .filter(p => p.status === 'pending')
+            .sort((a, b) => a.sentAt - b.sentAt);
+
+        for (const provision of pending) {
+            const lpNow = getLpBalance(balances, provision.poolAddress);
+            const lpBefore = BigInt(provision.lpBefore);
+
+            if (lpNow > lpBefore) {
+                const received = lpNow - lpBefore;
+                const entry = this.store.getEntry(accountId, provision.poolAddress);
+                this.store.saveEntry(accountId, provision.poolAddress, {
+                    lp: (BigInt(entry?.lp ?? '0') + received).toString(),
+                    invariant: (entry?.invariant ?? 0) + Number(received) * provision.growth,
+                });
+                settled.push(this.settle(accountId, provision, 'provided', received));
+            } else if (history.some(item => isRefund(provision, item))) {
+                settled.push(this.settle(accountId, provision, 'refunded'));
+            }
+        }
+
+        return settled;
+    }
+
+    /**
+     * Get an account's positions in the given pools
+     */
+    getPositions(accountId: string, pools: PoolEdge[], balances: JettonBalance[]): LiquidityPosition[] {
+        const positions: LiquidityPosition[] = [];
+
+        for (const pool of pools) {
+            const lpBalance = getLpBalance(balances, pool.address);
+            if (lpBalance <= 0n || pool.lpSupply <= 0n) continue;
+
+            const underlying: [bigint, bigint] = [
+                lpBalance * pool.reserves[0] / pool.lpSupply,
+                lpBalance * pool.reserves[1] / pool.lpSupply,
+            ];
+
+            positions.push({
+                pool,
+                lpBalance,
+                share: Number(lpBalance) / Number(pool.lpSupply),
+                underlying,
+                feesEarned: this.getFeesEarned(accountId, pool, lpBalance, underlying),
+            });
+        }
+
+        return positions;
+    }
+
+    /**
+     * Remove all records of an account
+     */
+    removeAccount(accountId: string): void {
+        this.store.removeAccount(accountId);
+    }
+
+    /**
+     * Fees earned by the LP tokens provided through the wallet: what their
+     * invariant has grown by, as a part of the position's underlying tokens
+     * at the current pool price
+     */
+    private getFeesEarned(
+        accountId: string,
+        pool: PoolEdge,
+        lpBalance: bigint,
+        underlying: [bigint, bigint]
+    ): [bigint, bigint] | null {
+        const entry = this.store.getEntry(accountId, pool.address);
+        if (!entry || BigInt(entry.lp) <= 0n) return null;
+
+        // LP tokens received from elsewhere earned nothing we know of
+        const entryLp = BigInt(entry.lp);
+        const tracked = entryLp < lpBalance ? entryLp : lpBalance;
+        const paid = entry.invariant * Number(tracked) / Number(entryLp);
+        const earned = Math.max(0, Number(tracked) * getPoolGrowth(pool) - paid);
+        const fraction = earned / (Number(lpBalance) * getPoolGrowth(pool));
+
+        const scale = 1_000_000_000n;
+        const fractionUnits = BigInt(Math.floor(fraction * Number(scale)));
+        return [underlying[0] * fractionUnits / scale, underlying[1] * fractionUnits / scale];
+    }
+
+    private settle(
+        accountId: string,
+        provision: LiquidityProvision,
+        status: LiquidityProvisionStatus,
+        lpReceived?: bigint
+    ): LiquidityProvision {
+        const updated: LiquidityProvision = {
+            ...provision,
+            status,
+            lpReceived: lpReceived?.toString(),
+            settledAt: this.clock.now(),
+        };
+        this.store.saveProvision(accountId, updated);
+        return updated;
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Pool invariant per LP token, sqrt(reserve0 * reserve1) / supply. Only
+ * swap fees grow it; deposits and withdrawals keep it.
+ */
+export function getPoolGrowth(pool: PoolEdge): number {
+    if (pool.lpSupply <= 0n) return 0;
+    return Math.sqrt(Number(pool.reserves[0]) * Number(pool.reserves[1])) / Number(pool.lpSupply);
+}
+
+/**
+ * Display symbol and name of a pool's LP jetton
+ */
+export function getLpTokenLabel(pool: PoolEdge): { symbol: string; name: string } {
+    const dex = pool.provider === 'stonfi' ? DEX_PROVIDERS.STONFI.name : DEX_PROVIDERS.DEDUST.name;
+    return {
+        symbol: `${pool.tokens[0]}-${pool.tokens[1]} LP`,
+        name: `${dex} ${pool.tokens[0]}/${pool.tokens[1]} LP`,
+    };
+}
+
+/**
+ * Price of one whole LP token from the price of either pool token: both
+ * sides of a pool hold the same value. 0 when neither token is priced.
+ */
+export function getLpTokenPrice(pool: PoolEdge, prices: Record<string, number>): number {
+    if (pool.lpSupply <= 0n) return 0;
+
+    const side = [0, 1].find(i => (prices[pool.tokens[i]] ?? 0) > 0);
+    if (side === undefined) return 0;
+
+    const decimals = swapService.getToken(pool.tokens[side])!.decimals;
+    const reserve = Number(pool.reserves[side]) / Math.pow(10, decimals);
+    const supply = Number(pool.lpSupply) / Math.pow(10, LP_DECIMALS);
+    return 2 * reserve * prices[pool.tokens[side]] / supply;
+}
+
+/**
+ * LP balance of a pool in a list of jetton balances (smallest units)
+ */
+function getLpBalance(balances: JettonBalance[], poolAddress: string): bigint {
+    const pool = rawAddress(poolAddress);
+    return balances.find(b => rawAddress(b.jetton.address) === pool)?.balance ?? 0n;
+}
+
+/**
+ * Whether a transfer is a deposited token coming back from the DEX after the
+ * provision was sent
+ */
+function isRefund(provision: LiquidityProvision, item: TransactionHistoryItem): boolean {
+    if (item.action !== 'ton_transfer' && item.action !== 'jetton_transfer') {
+        return false;
+    }
+    if (item.type !== 'incoming' || item.timestamp * 1000 < provision.sentAt || !item.fromRaw) {
+        return false;
+    }
+
+    const dex = provision.provider === 'stonfi'
+        ? [DEX_PROVIDERS.STONFI.router, DEX_PROVIDERS.STONFI.ptonWallet]
+        : [DEX_PROVIDERS.DEDUST.vault, DEX_PROVIDERS.DEDUST.factory];
+    const sender = rawAddress(item.fromRaw);
+    if (![...dex, provision.poolAddress].some(address => rawAddress(address) === sender)) {
+        return false;
+    }
+
+    return provision.tokens.some((symbol, i) => {
+        const token = swapService.getToken(symbol);
+        if (!token) return false;
+
+        const isToken = token.address === 'native'
+            ? !item.jetton
+            : !!item.jetton && rawAddress(item.jetton.address) === rawAddress(token.address);
+        const deposited = BigInt(swapService.toUnits(provision.amounts[i], token.decimals));
+        return isToken && item.amount * REFUND_MIN_SHARE >= deposited;
+    });
+}
+
+/**
+ * Raw form of an address for comparisons
+ */
+function rawAddress(address: string): string {
+    try {
+        return Address.parse(address).toRawString();
+    } catch {
+        return address;
+    }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export function createLiquidityTracker(options: { store?: LiquidityStore; clock?: Clock } = {}): LiquidityTracker {
+    return new LiquidityTracker(options);
+}
+
+export default LiquidityTracker;
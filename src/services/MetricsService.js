@@ -47,6 +47,7 @@ export class MetricsService {
         this.createCounter('transactions_sent_total', 'Total transactions sent');
         this.createCounter('transactions_confirmed', 'Confirmed transactions');
         this.createCounter('transactions_failed', 'Failed transactions');
+        this.createCounter('transactions_bounced', 'Bounced transactions (also counted as failed)');
         this.createGauge('transactions_pending', 'Currently pending transactions');
 
         // Wallet Metrics
@@ -289,6 +290,9 @@ export class MetricsService {
             this.increment('transactions_confirmed');
         } else if (status === 'failed') {
             this.increment('transactions_failed');
+        } else if (status === 'bounced') {
+            this.increment('transactions_bounced');
+            this.increment('transactions_failed');
         }
     }
 
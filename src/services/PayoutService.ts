@@ -0,0 +1,997 @@
+/**
+ * Payout Service
+ *
+ * Payroll-style payouts from a Highload V3 wallet:
+ * - import: a CSV or JSON list of recipients paid in TON or any jetton,
+ *   validated and deduplicated
+ * - plan: recipients split into chunks of up to 254 transfers, one external
+ *   message each
+ * - run: each chunk is signed under its own query ID, stored before the
+ *   message is broadcast, and confirmed with the wallet's `processed?`
+ * - report: the outcome of every imported row
+ *
+ * A chunk is never signed again while its earlier message could still land.
+ * Until the message expires (created_at + timeout) the same signed message is
+ * broadcast again. Once it has expired unprocessed, the chunk is re-signed
+ * under a new query ID, but only while the wallet would still remember having
+ * processed the old one; past that the chunk is marked unknown, for the user
+ * to check its message hash.
+ *
+ * Jobs are persisted per wallet account (keyed by WalletAccount id), so a run
+ * that stops halfway resumes where it was. Like swap orders, chunks are only
+ * signed while the user has authorised a session; confirmations and
+ * rebroadcasts need no keys.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Address, fromNano, toNano } from '@ton/core';
+import type { HighloadQueryState, SignedHighloadMessage } from '../types';
+import { DEFAULT_CONFIG, HIGHLOAD_CONSTANTS } from '../types';
+import { swapService, TON_TOKENS } from './SwapService';
+import type { TokenInfo } from './SwapService';
+import { systemClock } from './SwapOrderService';
+import type { Clock } from './SwapOrderService';
+import { sameTokenAddress } from './TokenRegistry';
+import type { JettonInfoSource } from './TokenRegistry';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Row of an imported file, before validation
+ */
+export interface PayoutRow {
+    line: number;            // CSV line, or position in the JSON list (1-based)
+    address: string;
+    amount: string;
+    token: string;           // 'TON' or empty, a token symbol or a jetton master address
+    comment?: string;
+}
+
+/**
+ * Validated recipient
+ */
+export interface PayoutRecipient {
+    line: number;
+    address: string;
+    token: string;           // 'native' for TON, else the jetton master
+    symbol: string;
+    decimals: number;
+    amount: string;
+    units: string;
+    comment?: string;
+}
+
+export interface PayoutIssue {
+    line: number;
+    error: string;
+}
+
+/**
+ * Row dropped because it repeats an earlier one
+ */
+export interface PayoutDuplicate {
+    line: number;
+    duplicateOf: number;
+}
+
+export interface PayoutTotal {
+    token: string;
+    symbol: string;
+    amount: string;
+}
+
+/**
+ * Validated import, split into external messages
+ */
+export interface PayoutPlan {
+    recipients: PayoutRecipient[];
+    issues: PayoutIssue[];
+    duplicates: PayoutDuplicate[];
+    chunks: number[][];      // Recipient indexes of each external message
+    totals: PayoutTotal[];
+    tonRequired: string;     // TON sent plus the gas of jetton transfers
+}
+
+export type PayoutChunkStatus = 'pending' | 'sent' | 'processed' | 'unknown' | 'cancelled';
+
+/**
+ * Signed external message of a chunk
+ */
+export interface PayoutAttempt {
+    queryId: string;
+    createdAt: number;       // Unix seconds; valid until createdAt + timeout
+    sentAt: number;          // First broadcast
+    broadcastAt: number;     // Latest broadcast
+    hash: string;
+    boc?: string;            // Dropped once the attempt is settled
+}
+
+export interface PayoutChunk {
+    recipients: number[];
+    status: PayoutChunkStatus;
+    attempts: PayoutAttempt[];
+    processedAt?: number;
+    error?: string;
+}
+
+/**
+ * Stored payout job
+ */
+export interface PayoutJob {
+    id: string;
+    name: string;
+    walletAddress: string;
+    recipients: PayoutRecipient[];
+    duplicates: PayoutDuplicate[];
+    chunks: PayoutChunk[];
+    createdAt: number;
+}
+
+export type PayoutJobStatus = 'running' | 'completed' | 'attention' | 'cancelled';
+
+/**
+ * Reconciliation of one imported row
+ */
+export interface PayoutReportRow {
+    line: number;
+    address: string;
+    symbol: string;
+    amount: string;
+    comment?: string;
+    status: PayoutChunkStatus | 'duplicate';
+    chunk?: number;          // 1-based
+    queryId?: string;
+    hash?: string;
+    attempts: number;
+    processedAt?: number;
+    duplicateOf?: number;
+}
+
+/**
+ * Where the engine broadcasts and confirms chunks (WalletFacade)
+ */
+export interface PayoutChain {
+    getHighloadQueryState(walletAddress: string, queryId: bigint): Promise<HighloadQueryState>;
+    sendExternalMessage(boc: string): Promise<void>;
+}
+
+/**
+ * Signs a chunk's transfers for the session's wallet under a new query ID,
+ * without sending them
+ */
+export type PayoutSigner = (recipients: PayoutRecipient[], createdAt: number) => Promise<SignedHighloadMessage>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'payout_jobs';
+
+/**
+ * Transfers per external message
+ */
+export const PAYOUT_CHUNK_SIZE = HIGHLOAD_CONSTANTS.MAX_ACTIONS;
+
+/**
+ * TON attached to each jetton transfer
+ */
+export const PAYOUT_JETTON_GAS = toNano('0.05');
+
+/**
+ * Messages are dated this far back, so a node lagging behind still accepts them
+ */
+const CREATED_AT_LAG = 60;
+
+/**
+ * Allowance for the local clock being off the chain's, in seconds
+ */
+const CLOCK_MARGIN = 60;
+
+/**
+ * How often an unconfirmed message is broadcast again
+ */
+export const PAYOUT_REBROADCAST_INTERVAL = 30 * 1000;
+
+const CSV_COLUMNS: Record<'address' | 'amount' | 'token' | 'comment', string[]> = {
+    address: ['address', 'to', 'recipient', 'wallet'],
+    amount: ['amount', 'value'],
+    token: ['token', 'jetton', 'asset', 'currency'],
+    comment: ['comment', 'memo', 'message'],
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Read the rows of a CSV or JSON recipient list. CSV columns are address,
+ * amount, token and comment, in that order unless a header row names them.
+ * JSON is a list of objects with the same fields.
+ */
+export function parsePayoutFile(text: string): PayoutRow[] {
+    const trimmed = text.trim();
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        return parseJsonRows(trimmed);
+    }
+    return parseCsvRows(text);
+}
+
+function parseJsonRows(text: string): PayoutRow[] {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Invalid JSON');
+    }
+
+    const items = Array.isArray(data) ? data : data?.recipients;
+    if (!Array.isArray(items)) {
+        throw new Error('Expected a list of recipients');
+    }
+
+    return items.map((item: any, index: number) => ({
+        line: index + 1,
+        address: String(item?.address ?? item?.to ?? '').trim(),
+        amount: String(item?.amount ?? '').trim(),
+        token: String(item?.token ?? item?.jetton ?? '').trim(),
+        comment: item?.comment ? String(item.comment).trim() : undefined,
+    }));
+}
+
+function parseCsvRows(text: string): PayoutRow[] {
+    const rows: PayoutRow[] = [];
+    let columns: Record<keyof typeof CSV_COLUMNS, number> = { address: 0, amount: 1, token: 2, comment: 3 };
+    let first = true;
+
+    text.split(/\r?\n/).forEach((content, index) => {
+        if (!content.trim() || content.trim().startsWith('#')) return;
+        const cells = splitCsvLine(content);
+
+        if (first) {
+            first = false;
+            const header = cells.map(cell => cell.toLowerCase());
+            if (header.some(cell => CSV_COLUMNS.address.includes(cell) || CSV_COLUMNS.amount.includes(cell))) {
+                const find = (names: string[]) => header.findIndex(cell => names.includes(cell));
+                columns = {
+                    address: find(CSV_COLUMNS.address),
+                    amount: find(CSV_COLUMNS.amount),
+                    token: find(CSV_COLUMNS.token),
+                    comment: find(CSV_COLUMNS.comment),
+                };
+                if (columns.address < 0 || columns.amount < 0) {
+                    throw new Error('The header must name an address and an amount column');
+                }
+                return;
+            }
+        }
+
+        const cell = (column: number) => (column >= 0 ? cells[column] ?? '' : '');
+        rows.push({
+            line: index + 1,
+            address: cell(columns.address),
+            amount: cell(columns.amount),
+            token: cell(columns.token),
+            comment: cell(columns.comment) || undefined,
+        });
+    });
+
+    return rows;
+}
+
+/**
+ * Split a CSV line on commas; quoted cells may hold commas and "" quotes
+ */
+function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    cells.push(cell.trim());
+    return cells;
+}
+
+// ============================================================================
+// JOB STORE
+// ============================================================================
+
+/**
+ * Payout Job Store
+ */
+export class PayoutJobStore {
+    private jobs: Record<string, PayoutJob[]>;
+
+    constructor() {
+        this.jobs = this.load();
+    }
+
+    /**
+     * Load jobs from storage
+     */
+    private load(): Record<string, PayoutJob[]> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved);
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load payout jobs:', error);
+        }
+        return {};
+    }
+
+    /**
+     * Save jobs to storage
+     */
+    private save(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.jobs));
+            }
+        } catch (error) {
+            console.warn('Failed to save payout jobs:', error);
+        }
+    }
+
+    /**
+     * Get all jobs of an account, newest first
+     */
+    getJobs(accountId: string): PayoutJob[] {
+        return [...(this.jobs[accountId] || [])].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    /**
+     * Get a job by id
+     */
+    getJob(accountId: string, id: string): PayoutJob | undefined {
+        return (this.jobs[accountId] || []).find(j => j.id === id);
+    }
+
+    /**
+     * Add or replace a job
+     */
+    saveJob(accountId: string, job: PayoutJob): void {
+        const list = (this.jobs[accountId] || []).filter(j => j.id !== job.id);
+        list.push(job);
+        this.jobs[accountId] = list;
+        this.save();
+    }
+
+    /**
+     * Remove a job
+     */
+    removeJob(accountId: string, id: string): void {
+        this.jobs[accountId] = (this.jobs[accountId] || []).filter(j => j.id !== id);
+        this.save();
+    }
+
+    /**
+     * Remove all jobs of an account
+     */
+    removeAccount(accountId: string): void {
+        delete this.jobs[accountId];
+        this.save();
+    }
+}
+
+// ============================================================================
+// PAYOUT ENGINE
+// ============================================================================
+
+/**
+ * Signing session of one account
+ */
+interface PayoutSession {
+    sign: PayoutSigner;
+    expiresAt: number;
+}
+
+/**
+ * Payout Engine
+ */
+export class PayoutEngine {
+    private readonly store: PayoutJobStore;
+    private readonly chain: PayoutChain | null;
+    private readonly jettons: JettonInfoSource | null;
+    private readonly clock: Clock;
+    private readonly timeout: number;
+    private sessions: Map<string, PayoutSession>;
+    private running: Set<string>;
+
+    constructor(options: {
+        store?: PayoutJobStore;
+        chain?: PayoutChain;
+        jettons?: JettonInfoSource;
+        clock?: Clock;
+        timeout?: number;
+    } = {}) {
+        this.store = options.store ?? new PayoutJobStore();
+        this.chain = options.chain ?? null;
+        this.jettons = options.jettons ?? null;
+        this.clock = options.clock ?? systemClock;
+        this.timeout = options.timeout ?? DEFAULT_CONFIG.HIGHLOAD_TIMEOUT;  // Of the paying wallet, in seconds
+        this.sessions = new Map();
+        this.running = new Set();
+    }
+
+    // ========================================================================
+    // PLANNING
+    // ========================================================================
+
+    /**
+     * Validate an imported list and split it into external messages.
+     * Tokens are looked up in `tokens` by symbol or master address; other
+     * jetton masters are read from chain. A row repeating an earlier one is
+     * dropped; one paying the same recipient the same token differently is
+     * reported as an issue.
+     */
+    async planPayout(text: string, tokens: TokenInfo[] = [TON_TOKENS.TON]): Promise<PayoutPlan> {
+        const rows = parsePayoutFile(text);
+        if (rows.length === 0) {
+            throw new Error('No recipients found');
+        }
+
+        const recipients: PayoutRecipient[] = [];
+        const issues: PayoutIssue[] = [];
+        const duplicates: PayoutDuplicate[] = [];
+        const seen = new Map<string, PayoutRecipient>();
+        const lookups = new Map<string, Promise<TokenInfo>>();
+
+        for (const row of rows) {
+            let recipient: PayoutRecipient;
+            try {
+                recipient = await this.toRecipient(row, tokens, lookups);
+            } catch (error) {
+                issues.push({ line: row.line, error: error instanceof Error ? error.message : 'Invalid row' });
+                continue;
+            }
+
+            const key = `${Address.parse(recipient.address).toRawString()}|${recipient.token}`;
+            const earlier = seen.get(key);
+            if (earlier) {
+                if (earlier.units === recipient.units && earlier.comment === recipient.comment) {
+                    duplicates.push({ line: row.line, duplicateOf: earlier.line });
+                } else {
+                    issues.push({ line: row.line, error: `Pays the recipient of line ${earlier.line} again with a different amount or comment` });
+                }
+                continue;
+            }
+
+            seen.set(key, recipient);
+            recipients.push(recipient);
+        }
+
+        const chunks: number[][] = [];
+        for (let i = 0; i < recipients.length; i += PAYOUT_CHUNK_SIZE) {
+            chunks.push(recipients.slice(i, i + PAYOUT_CHUNK_SIZE).map((_, offset) => i + offset));
+        }
+
+        return { recipients, issues, duplicates, chunks, ...summarize(recipients) };
+    }
+
+    /**
+     * Validate one row
+     */
+    private async toRecipient(row: PayoutRow, tokens: TokenInfo[], lookups: Map<string, Promise<TokenInfo>>): Promise<PayoutRecipient> {
+        const address = row.address.trim();
+        if (!isAddress(address)) {
+            throw new Error(`Invalid address: ${address || '(empty)'}`);
+        }
+
+        const token = await this.resolveToken(row.token.trim(), tokens, lookups);
+
+        const amount = row.amount.trim();
+        if (!/^\d+(\.\d+)?$/.test(amount)) {
+            throw new Error(`Invalid amount: ${amount || '(empty)'}`);
+        }
+        if ((amount.split('.')[1] || '').length > token.decimals) {
+            throw new Error(`${token.symbol} has at most ${token.decimals} decimals`);
+        }
+        const units = swapService.toUnits(amount, token.decimals);
+        if (BigInt(units) === 0n) {
+            throw new Error('Amount must be greater than 0');
+        }
+
+        return {
+            line: row.line,
+            address,
+            token: token.address,
+            symbol: token.symbol,
+            decimals: token.decimals,
+            amount: swapService.fromUnits(units, token.decimals),
+            units,
+            comment: row.comment?.trim() || undefined,
+        };
+    }
+
+    /**
+     * Token of a row: TON when empty, else by symbol or master address
+     */
+    private resolveToken(value: string, tokens: TokenInfo[], lookups: Map<string, Promise<TokenInfo>>): Promise<TokenInfo> {
+        if (!value || value.toUpperCase() === 'TON') {
+            return Promise.resolve(TON_TOKENS.TON);
+        }
+
+        if (!isAddress(value)) {
+            const token = tokens.find(t => t.symbol.toUpperCase() === value.toUpperCase());
+            return token ? Promise.resolve(token) : Promise.reject(new Error(`Unknown token: ${value}`));
+        }
+
+        const known = tokens.find(t => t.address !== 'native' && sameTokenAddress(t.address, value));
+        if (known) {
+            return Promise.resolve(known);
+        }
+
+        const key = Address.parse(value).toRawString();
+        let lookup = lookups.get(key);
+        if (!lookup) {
+            lookup = this.readJetton(value);
+            lookups.set(key, lookup);
+        }
+        return lookup;
+    }
+
+    /**
+     * Read a jetton master that is not in the token list from chain
+     */
+    private async readJetton(masterAddress: string): Promise<TokenInfo> {
+        if (!this.jettons) {
+            throw new Error(`Unknown jetton: ${masterAddress}`);
+        }
+        const address = Address.parse(masterAddress).toString();
+        const info = await this.jettons.getJettonInfo(address);
+        return { symbol: info.symbol, name: info.name, address, decimals: info.decimals, icon: info.image ?? '' };
+    }
+
+    // ========================================================================
+    // JOBS
+    // ========================================================================
+
+    /**
+     * Store a planned payout from a Highload V3 wallet. Nothing is signed
+     * until a session is authorised.
+     */
+    createJob(accountId: string, walletAddress: string, plan: PayoutPlan, name?: string): PayoutJob {
+        if (plan.issues.length > 0) {
+            throw new Error('Fix the invalid rows before starting the payout');
+        }
+        if (plan.recipients.length === 0) {
+            throw new Error('No recipients to pay');
+        }
+
+        const now = this.clock.now();
+        const job: PayoutJob = {
+            id: uuidv4(),
+            name: name?.trim() || `Payout ${new Date(now).toISOString().slice(0, 10)}`,
+            walletAddress,
+            recipients: plan.recipients,
+            duplicates: plan.duplicates,
+            chunks: plan.chunks.map(recipients => ({ recipients, status: 'pending', attempts: [] })),
+            createdAt: now,
+        };
+        this.store.saveJob(accountId, job);
+        return job;
+    }
+
+    /**
+     * Cancel the chunks not signed yet; chunks already sent are still confirmed
+     */
+    cancelJob(accountId: string, id: string): PayoutJob {
+        const job = this.store.getJob(accountId, id);
+        if (!job) {
+            throw new Error('Payout not found');
+        }
+        if (!job.chunks.some(chunk => chunk.status === 'pending')) {
+            throw new Error('Every chunk of this payout has been sent');
+        }
+
+        return this.update(accountId, {
+            ...job,
+            chunks: job.chunks.map(chunk => (chunk.status === 'pending' ? { ...chunk, status: 'cancelled' as const } : chunk)),
+        });
+    }
+
+    /**
+     * Delete a job once nothing of it is in flight
+     */
+    removeJob(accountId: string, id: string): void {
+        const job = this.store.getJob(accountId, id);
+        if (job && getPayoutStatus(job) === 'running') {
+            throw new Error('Cancel the payout and wait for sent chunks first');
+        }
+        this.store.removeJob(accountId, id);
+    }
+
+    /**
+     * Get all jobs of an account, newest first
+     */
+    getJobs(accountId: string): PayoutJob[] {
+        return this.store.getJobs(accountId);
+    }
+
+    /**
+     * Forget the jobs and session of a deleted account
+     */
+    removeAccount(accountId: string): void {
+        this.sessions.delete(accountId);
+        this.store.removeAccount(accountId);
+    }
+
+    // ========================================================================
+    // SESSIONS
+    // ========================================================================
+
+    /**
+     * Let the engine sign for an account until the session expires
+     */
+    authorize(accountId: string, sign: PayoutSigner, durationMs: number): void {
+        this.sessions.set(accountId, { sign, expiresAt: this.clock.now() + durationMs });
+    }
+
+    /**
+     * End an account's session; its signer is dropped
+     */
+    revoke(accountId: string): void {
+        this.sessions.delete(accountId);
+    }
+
+    /**
+     * End of the account's session, or null without an active one
+     */
+    getSessionExpiry(accountId: string): number | null {
+        return this.getSession(accountId)?.expiresAt ?? null;
+    }
+
+    /**
+     * Active session of an account; an expired one is dropped
+     */
+    private getSession(accountId: string): PayoutSession | null {
+        const session = this.sessions.get(accountId);
+        if (session && session.expiresAt <= this.clock.now()) {
+            this.sessions.delete(accountId);
+            return null;
+        }
+        return session ?? null;
+    }
+
+    // ========================================================================
+    // EXECUTION
+    // ========================================================================
+
+    /**
+     * Advance every running job of an account: confirm or rebroadcast the
+     * chunk in flight and, with a session, sign and send the next one.
+     * Chunks go out one at a time, in order. Returns the jobs that changed.
+     */
+    async runDue(accountId: string): Promise<PayoutJob[]> {
+        if (this.running.has(accountId)) {
+            return [];
+        }
+        this.running.add(accountId);
+
+        try {
+            const changed: PayoutJob[] = [];
+
+            for (const job of this.store.getJobs(accountId)) {
+                if (getPayoutStatus(job) !== 'running') continue;
+
+                const updated = await this.runJob(accountId, job);
+                if (updated !== job) {
+                    changed.push(updated);
+                }
+            }
+
+            return changed;
+        } finally {
+            this.running.delete(accountId);
+        }
+    }
+
+    /**
+     * Advance one job
+     */
+    private async runJob(accountId: string, job: PayoutJob): Promise<PayoutJob> {
+        const chain = this.requireChain();
+
+        for (let index = 0; index < job.chunks.length; index++) {
+            if (job.chunks[index].status === 'sent') {
+                const updates = await this.confirmChunk(chain, job, job.chunks[index]);
+                if (updates) {
+                    job = this.updateChunk(accountId, job, index, updates);
+                }
+                if (job.chunks[index].status === 'sent') break;
+            }
+
+            if (job.chunks[index].status === 'pending') {
+                const session = this.getSession(accountId);
+                if (session) {
+                    job = await this.sendChunk(chain, accountId, job, index, session);
+                }
+                break;
+            }
+        }
+
+        return job;
+    }
+
+    /**
+     * Check a sent chunk's latest message. While it is valid it is broadcast
+     * again; once expired it is re-signed only if the wallet provably never
+     * processed it. Returns the chunk's changes, if any.
+     */
+    private async confirmChunk(chain: PayoutChain, job: PayoutJob, chunk: PayoutChunk): Promise<Partial<PayoutChunk> | null> {
+        const attempt = chunk.attempts[chunk.attempts.length - 1];
+
+        let state: HighloadQueryState;
+        try {
+            state = await chain.getHighloadQueryState(job.walletAddress, BigInt(attempt.queryId));
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+
+        const now = this.clock.now();
+        if (state.processed) {
+            return { status: 'processed', processedAt: now, attempts: settle(chunk.attempts), error: undefined };
+        }
+
+        // Still valid: the same message may land, so it is the only one sent
+        if (Math.floor(now / 1000) <= attempt.createdAt + this.timeout + CLOCK_MARGIN) {
+            if (now - attempt.broadcastAt < PAYOUT_REBROADCAST_INTERVAL) {
+                return null;
+            }
+            try {
+                await chain.sendExternalMessage(attempt.boc!);
+            } catch (error) {
+                return { error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+            return { attempts: [...chunk.attempts.slice(0, -1), { ...attempt, broadcastAt: now }], error: undefined };
+        }
+
+        // Expired. A processed query is remembered for at least one timeout,
+        // and could not have been processed before it was first sent: if the
+        // wallet has not cleaned since then, it would still list it.
+        if (state.lastCleanedAt < Math.floor(attempt.sentAt / 1000) - CLOCK_MARGIN + this.timeout) {
+            return { status: 'pending', attempts: settle(chunk.attempts), error: `Query ${attempt.queryId} expired unprocessed` };
+        }
+        return {
+            status: 'unknown',
+            attempts: settle(chunk.attempts),
+            error: 'Expired while unconfirmed; the wallet no longer tells whether it was processed',
+        };
+    }
+
+    /**
+     * Sign a pending chunk and broadcast it. The attempt is stored before the
+     * broadcast, so a message that may land is never lost track of.
+     */
+    private async sendChunk(chain: PayoutChain, accountId: string, job: PayoutJob, index: number, session: PayoutSession): Promise<PayoutJob> {
+        const chunk = job.chunks[index];
+        const now = this.clock.now();
+
+        let signed: SignedHighloadMessage;
+        try {
+            const recipients = chunk.recipients.map(i => job.recipients[i]);
+            signed = await session.sign(recipients, Math.floor(now / 1000) - CREATED_AT_LAG);
+        } catch (error) {
+            return this.updateChunk(accountId, job, index, { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+
+        const attempt: PayoutAttempt = {
+            queryId: signed.queryId.toString(),
+            createdAt: signed.createdAt,
+            sentAt: now,
+            broadcastAt: now,
+            hash: signed.hash,
+            boc: signed.boc,
+        };
+        job = this.updateChunk(accountId, job, index, { status: 'sent', attempts: [...chunk.attempts, attempt], error: undefined });
+
+        try {
+            await chain.sendExternalMessage(signed.boc);
+        } catch (error) {
+            // Broadcast again on a later run while the message is valid
+            job = this.updateChunk(accountId, job, index, { error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+        return job;
+    }
+
+    private requireChain(): PayoutChain {
+        if (!this.chain) {
+            throw new Error('No chain set for payouts');
+        }
+        return this.chain;
+    }
+
+    /**
+     * Store changes to a chunk
+     */
+    private updateChunk(accountId: string, job: PayoutJob, index: number, updates: Partial<PayoutChunk>): PayoutJob {
+        const chunks = job.chunks.map((chunk, i) => (i === index ? { ...chunk, ...updates } : chunk));
+        return this.update(accountId, { ...job, chunks });
+    }
+
+    /**
+     * Store a changed job
+     */
+    private update(accountId: string, job: PayoutJob): PayoutJob {
+        this.store.saveJob(accountId, job);
+        return job;
+    }
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Overall status: running while a chunk is pending or in flight, then
+ * attention if any chunk's outcome is unknown
+ */
+export function getPayoutStatus(job: PayoutJob): PayoutJobStatus {
+    const statuses = job.chunks.map(chunk => chunk.status);
+    if (statuses.some(status => status === 'pending' || status === 'sent')) return 'running';
+    if (statuses.includes('unknown')) return 'attention';
+    if (statuses.every(status => status === 'processed')) return 'completed';
+    return 'cancelled';
+}
+
+/**
+ * Outcome of every imported row, in file order. 'processed' means the wallet
+ * accepted the chunk and sent its transfers; each row carries the message
+ * hash to look the transfers up by.
+ */
+export function getPayoutReport(job: PayoutJob): PayoutReportRow[] {
+    const rows: PayoutReportRow[] = [];
+
+    job.chunks.forEach((chunk, index) => {
+        const attempt = chunk.attempts[chunk.attempts.length - 1];
+        for (const i of chunk.recipients) {
+            const recipient = job.recipients[i];
+            rows.push({
+                line: recipient.line,
+                address: recipient.address,
+                symbol: recipient.symbol,
+                amount: recipient.amount,
+                comment: recipient.comment,
+                status: chunk.status,
+                chunk: index + 1,
+                queryId: attempt?.queryId,
+                hash: attempt?.hash,
+                attempts: chunk.attempts.length,
+                processedAt: chunk.processedAt,
+            });
+        }
+    });
+
+    for (const duplicate of job.duplicates) {
+        const original = job.recipients.find(r => r.line === duplicate.duplicateOf);
+        rows.push({
+            line: duplicate.line,
+            address: original?.address ?? '',
+            symbol: original?.symbol ?? '',
+            amount: original?.amount ?? '',
+            comment: original?.comment,
+            status: 'duplicate',
+            attempts: 0,
+            duplicateOf: duplicate.duplicateOf,
+        });
+    }
+
+    return rows.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Reconciliation report as CSV
+ */
+export function payoutReportToCsv(rows: PayoutReportRow[]): string {
+    const header = ['line', 'address', 'token', 'amount', 'comment', 'status', 'chunk', 'query_id', 'message_hash', 'attempts', 'processed_at', 'duplicate_of'];
+    const lines = rows.map(row => [
+        row.line,
+        row.address,
+        row.symbol,
+        row.amount,
+        row.comment ?? '',
+        row.status,
+        row.chunk ?? '',
+        row.queryId ?? '',
+        row.hash ?? '',
+        row.attempts,
+        row.processedAt ? new Date(row.processedAt).toISOString() : '',
+        row.duplicateOf ?? '',
+    ].map(value => csvCell(String(value))).join(','));
+
+    return [header.join(','), ...lines].join('\n');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether a string is a user-friendly or raw address (domains are not accepted)
+ */
+function isAddress(value: string): boolean {
+    if (!Address.isFriendly(value) && !Address.isRaw(value)) return false;
+    try {
+        Address.parse(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Totals per token, and the TON the wallet needs including jetton gas
+ */
+function summarize(recipients: PayoutRecipient[]): Pick<PayoutPlan, 'totals' | 'tonRequired'> {
+    const units = new Map<string, { recipient: PayoutRecipient; sum: bigint }>();
+    let ton = 0n;
+
+    for (const recipient of recipients) {
+        const total = units.get(recipient.token) ?? { recipient, sum: 0n };
+        total.sum += BigInt(recipient.units);
+        units.set(recipient.token, total);
+        ton += recipient.token === 'native' ? BigInt(recipient.units) : PAYOUT_JETTON_GAS;
+    }
+
+    const totals = Array.from(units.values()).map(({ recipient, sum }) => ({
+        token: recipient.token,
+        symbol: recipient.symbol,
+        amount: swapService.fromUnits(sum.toString(), recipient.decimals),
+    }));
+    return { totals, tonRequired: fromNano(ton) };
+}
+
+/**
+ * Attempts with the BOCs of settled messages dropped
+ */
+function settle(attempts: PayoutAttempt[]): PayoutAttempt[] {
+    return attempts.map(({ boc, ...attempt }) => attempt);
+}
+
+function csvCell(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create payout engine
+ */
+export function createPayoutEngine(options: {
+    store?: PayoutJobStore;
+    chain?: PayoutChain;
+    jettons?: JettonInfoSource;
+    clock?: Clock;
+    timeout?: number;
+} = {}): PayoutEngine {
+    return new PayoutEngine(options);
+}
+
+export default PayoutEngine;
@@ -0,0 +1,698 @@
+/**
+ * Swap Order Service
+ *
+ * Conditional swaps on top of SwapService:
+ * - limit: swap once the best quote guarantees a target rate
+ * - DCA: swap a fixed amount every N hours, for a number of runs or until cancelled
+ * - TWAP: slice a large order into equal swaps spread over a duration
+ *
+ * Orders are persisted per wallet account (keyed by WalletAccount id). The
+ * engine only signs while the user has authorised a session: the executor it
+ * is given holds the decrypted keys until the session expires or is revoked.
+ * Open orders simply wait while no session is active.
+ *
+ * A sent swap stays pending on its order until its transaction is confirmed;
+ * only then is it recorded as a fill and the order moves on, also when the
+ * order was cancelled meanwhile. Only a swap that bounced or failed on-chain,
+ * or whose message the chain never processed, counts as a failed attempt.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { TransactionResult } from '../types';
+import { swapService, BestQuoteResult, SwapQuote } from './SwapService';
+import { transactionTracker, TransactionStatus } from './TransactionTracker.js';
+import { TransactionStatusChecker } from './TransactionStatusChecker';
+import type { StatusCheckResult } from './TransactionStatusChecker';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SwapOrderKind = 'limit' | 'dca' | 'twap';
+
+export type SwapOrderStatus = 'open' | 'filled' | 'cancelled' | 'failed';
+
+/**
+ * Executed swap of an order
+ */
+export interface SwapOrderFill {
+    at: number;
+    inputAmount: string;
+    outputAmount: string;
+    provider: string;
+    hash?: string;
+}
+
+/**
+ * Stored order. DCA and TWAP orders swap `amount` every `interval`;
+ * a limit order swaps `amount` once.
+ */
+export interface SwapOrder {
+    id: string;
+    kind: SwapOrderKind;
+    fromToken: string;
+    toToken: string;
+    amount: string;          // Per swap (the whole order for limit orders)
+    targetRate?: number;     // Limit: minimum toToken received per fromToken
+    interval?: number;       // DCA/TWAP: ms between swaps
+    runs?: number;           // DCA/TWAP: swaps in total (open-ended DCA when absent)
+    expiresAt?: number;      // Limit: cancelled when not filled by then
+    nextRunAt: number;
+    status: SwapOrderStatus;
+    fills: SwapOrderFill[];
+    pending?: SwapOrderFill; // Sent swap awaiting confirmation
+    failures: number;        // Consecutive failed attempts
+    error?: string;
+    createdAt: number;
+}
+
+export interface LimitOrderParams {
+    fromToken: string;
+    toToken: string;
+    amount: string;
+    targetRate: number;
+    expiresInHours?: number;
+}
+
+export interface DcaOrderParams {
+    fromToken: string;
+    toToken: string;
+    amount: string;
+    intervalHours: number;
+    runs?: number;
+}
+
+export interface TwapOrderParams {
+    fromToken: string;
+    toToken: string;
+    totalAmount: string;
+    slices: number;
+    durationHours: number;
+}
+
+/**
+ * Order of any kind as placed from the UI
+ */
+export type SwapOrderRequest =
+    | ({ kind: 'limit' } & LimitOrderParams)
+    | ({ kind: 'dca' } & DcaOrderParams)
+    | ({ kind: 'twap' } & TwapOrderParams);
+
+/**
+ * Time source, replaceable in tests
+ */
+export interface Clock {
+    now(): number;
+}
+
+/**
+ * Where the engine gets quotes (SwapService)
+ */
+export interface SwapQuoteSource {
+    getBestQuote(fromSymbol: string, toSymbol: string, amount: string): Promise<BestQuoteResult>;
+}
+
+/**
+ * Signs and sends a quote for the session's account
+ */
+export type SwapExecutor = (quote: SwapQuote) => Promise<TransactionResult>;
+
+export type SwapSettlement = 'pending' | 'confirmed' | 'failed';
+
+/**
+ * Where the engine learns whether a sent swap went through (TrackedSwapSettlements)
+ */
+export interface SwapSettlementSource {
+    /**
+     * Outcome of a sent swap; 'pending' until it is certain
+     */
+    getSettlement(swap: SwapOrderFill): Promise<SwapSettlement>;
+
+    /**
+     * Look the swap's message up in the account's transactions;
+     * 'missing' when the chain has not processed it
+     */
+    findOnChain(swap: SwapOrderFill): Promise<SwapSettlement | 'missing'>;
+}
+
+/**
+ * Tracked sends, by tracking ID (TransactionTracker)
+ */
+export interface SwapTransactionTracker {
+    get(trackingId: string): { status: string } | undefined;
+}
+
+/**
+ * Where swap messages are looked up on-chain (TransactionStatusChecker)
+ */
+export interface SwapMessageChecker {
+    checkMessage(messageHash: string): Promise<StatusCheckResult | null>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'swap_orders';
+
+const HOUR = 3600 * 1000;
+
+/**
+ * How often a limit order re-quotes
+ */
+export const LIMIT_ORDER_POLL = 60 * 1000;
+
+/**
+ * Consecutive failures after which an order stops
+ */
+export const MAX_ORDER_FAILURES = 3;
+
+/**
+ * How long a sent swap may stay unconfirmed before the chain is asked
+ * whether its message was processed at all
+ */
+export const SWAP_CONFIRM_TIMEOUT = 30 * 60 * 1000;
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+// ============================================================================
+// SETTLEMENTS
+// ============================================================================
+
+/**
+ * Settlement of swaps sent through the app, by their message hash. The
+ * transaction tracker's confirmed and bounced outcomes are taken as they are.
+ * When the tracker gave up (expired: the indexer had not matched the message
+ * yet; failed: on-chain, or after repeated API errors) the chain is asked,
+ * and the swap stays pending until it answers.
+ */
+export class TrackedSwapSettlements implements SwapSettlementSource {
+    private readonly tracker: SwapTransactionTracker;
+    private checker: SwapMessageChecker | null;
+
+    constructor(options: { tracker?: SwapTransactionTracker; checker?: SwapMessageChecker } = {}) {
+        this.tracker = options.tracker ?? transactionTracker;
+        this.checker = options.checker ?? null;
+    }
+
+    async getSettlement(swap: SwapOrderFill): Promise<SwapSettlement> {
+        const status = swap.hash ? this.tracker.get(swap.hash)?.status : undefined;
+        if (status === TransactionStatus.CONFIRMED) return 'confirmed';
+        if (status === TransactionStatus.BOUNCED) return 'failed';
+        if (status === TransactionStatus.FAILED || status === TransactionStatus.EXPIRED) {
+            const found = await this.findOnChain(swap);
+            return found === 'missing' ? 'pending' : found;
+        }
+        return 'pending';
+    }
+
+    async findOnChain(swap: SwapOrderFill): Promise<SwapSettlement | 'missing'> {
+        if (!swap.hash) return 'missing';
+
+        // Swaps run on mainnet
+        this.checker ??= new TransactionStatusChecker('mainnet');
+        const result = await this.checker.checkMessage(swap.hash);
+        if (!result) return 'missing';
+        if (result.status === 'confirmed') return 'confirmed';
+        if (result.status === 'failed' || result.status === 'bounced') return 'failed';
+        return 'pending';
+    }
+}
+
+// ============================================================================
+// ORDER STORE
+// ============================================================================
+
+/**
+ * Swap Order Store
+ */
+export class SwapOrderStore {
+    private orders: Record<string, SwapOrder[]>;
+
+    constructor() {
+        this.orders = this.load();
+    }
+
+    /**
+     * Load orders from storage
+     */
+    private load(): Record<string, SwapOrder[]> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved);
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load swap orders:', error);
+        }
+        return {};
+    }
+
+    /**
+     * Save orders to storage
+     */
+    private save(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.orders));
+            }
+        } catch (error) {
+            console.warn('Failed to save swap orders:', error);
+        }
+    }
+
+    /**
+     * Get all orders of an account, newest first
+     */
+    getOrders(accountId: string): SwapOrder[] {
+        return [...(this.orders[accountId] || [])].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    /**
+     * Get an order by id
+     */
+    getOrder(accountId: string, id: string): SwapOrder | undefined {
+        return (this.orders[accountId] || []).find(o => o.id === id);
+    }
+
+    /**
+     * Add or replace an order
+     */
+    saveOrder(accountId: string, order: SwapOrder): void {
+        const list = (this.orders[accountId] || []).filter(o => o.id !== order.id);
+        list.push(order);
+        this.orders[accountId] = list;
+        this.save();
+    }
+
+    /**
+     * Remove all orders of an account
+     */
+    removeAccount(accountId: string): void {
+        delete this.orders[accountId];
+        this.save();
+    }
+}
+
+// ============================================================================
+// ORDER ENGINE
+// ============================================================================
+
+/**
+ * Signing session of one account
+ */
+interface OrderSession {
+    execute: SwapExecutor;
+    expiresAt: number;
+}
+
+/**
+ * Swap Order Engine
+ */
+export class SwapOrderEngine {
+    private readonly store: SwapOrderStore;
+    private readonly quotes: SwapQuoteSource;
+    private readonly clock: Clock;
+    private readonly settlements: SwapSettlementSource;
+    private sessions: Map<string, OrderSession>;
+    private running: Set<string>;
+
+    constructor(options: { store?: SwapOrderStore; quotes?: SwapQuoteSource; clock?: Clock; settlements?: SwapSettlementSource } = {}) {
+        this.store = options.store ?? new SwapOrderStore();
+        this.quotes = options.quotes ?? swapService;
+        this.clock = options.clock ?? systemClock;
+        this.settlements = options.settlements ?? new TrackedSwapSettlements();
+        this.sessions = new Map();
+        this.running = new Set();
+    }
+
+    // ========================================================================
+    // PLACING ORDERS
+    // ========================================================================
+
+    /**
+     * Place an order of any kind
+     */
+    placeOrder(accountId: string, request: SwapOrderRequest): SwapOrder {
+        switch (request.kind) {
+            case 'limit':
+                return this.placeLimitOrder(accountId, request);
+            case 'dca':
+                return this.placeDcaOrder(accountId, request);
+            case 'twap':
+                return this.placeTwapOrder(accountId, request);
+        }
+    }
+
+    /**
+     * Place a limit order. It fills once the best quote's minimum output
+     * reaches the target rate, so the order never fills below it.
+     */
+    placeLimitOrder(accountId: string, params: LimitOrderParams): SwapOrder {
+        if (!(params.targetRate > 0)) {
+            throw new Error('Target rate must be greater than 0');
+        }
+        const now = this.clock.now();
+
+        return this.place(accountId, {
+            kind: 'limit',
+            fromToken: params.fromToken,
+            toToken: params.toToken,
+            amount: params.amount,
+            targetRate: params.targetRate,
+            expiresAt: params.expiresInHours ? now + params.expiresInHours * HOUR : undefined,
+            nextRunAt: now,
+        });
+    }
+
+    /**
+     * Place a DCA plan: the first swap runs right away
+     */
+    placeDcaOrder(accountId: string, params: DcaOrderParams): SwapOrder {
+        if (!(params.intervalHours > 0)) {
+            throw new Error('Interval must be greater than 0');
+        }
+        if (params.runs !== undefined && !(params.runs >= 1)) {
+            throw new Error('A plan needs at least one swap');
+        }
+
+        return this.place(accountId, {
+            kind: 'dca',
+            fromToken: params.fromToken,
+            toToken: params.toToken,
+            amount: params.amount,
+            interval: params.intervalHours * HOUR,
+            runs: params.runs ? Math.floor(params.runs) : undefined,
+            nextRunAt: this.clock.now(),
+        });
+    }
+
+    /**
+     * Place a TWAP order: equal slices, the first right away and the last at
+     * the end of the duration. Dust below one unit stays unspent.
+     */
+    placeTwapOrder(accountId: string, params: TwapOrderParams): SwapOrder {
+        const slices = Math.floor(params.slices);
+        if (!(slices >= 2)) {
+            throw new Error('A TWAP order needs at least 2 slices');
+        }
+        if (!(params.durationHours > 0)) {
+            throw new Error('Duration must be greater than 0');
+        }
+
+        const token = swapService.getToken(params.fromToken);
+        if (!token) {
+            throw new Error(`Unknown token: ${params.fromToken}`);
+        }
+        const sliceUnits = BigInt(swapService.toUnits(params.totalAmount, token.decimals)) / BigInt(slices);
+
+        return this.place(accountId, {
+            kind: 'twap',
+            fromToken: params.fromToken,
+            toToken: params.toToken,
+            amount: swapService.fromUnits(sliceUnits.toString(), token.decimals),
+            interval: Math.floor(params.durationHours * HOUR / (slices - 1)),
+            runs: slices,
+            nextRunAt: this.clock.now(),
+        });
+    }
+
+    /**
+     * Cancel an open order. A swap it already sent is still settled and,
+     * once confirmed, recorded as a fill.
+     */
+    cancelOrder(accountId: string, id: string): SwapOrder {
+        const order = this.store.getOrder(accountId, id);
+        if (!order) {
+            throw new Error('Order not found');
+        }
+        if (order.status !== 'open') {
+            throw new Error('Only open orders can be cancelled');
+        }
+
+        const cancelled = { ...order, status: 'cancelled' as const };
+        this.store.saveOrder(accountId, cancelled);
+        return cancelled;
+    }
+
+    /**
+     * Get all orders of an account, newest first
+     */
+    getOrders(accountId: string): SwapOrder[] {
+        return this.store.getOrders(accountId);
+    }
+
+    /**
+     * Forget the orders and session of a deleted account
+     */
+    removeAccount(accountId: string): void {
+        this.sessions.delete(accountId);
+        this.store.removeAccount(accountId);
+    }
+
+    // ========================================================================
+    // SESSIONS
+    // ========================================================================
+
+    /**
+     * Let the engine sign for an account until the session expires
+     */
+    authorize(accountId: string, execute: SwapExecutor, durationMs: number): void {
+        this.sessions.set(accountId, { execute, expiresAt: this.clock.now() + durationMs });
+    }
+
+    /**
+     * End an account's session; its executor is dropped
+     */
+    revoke(accountId: string): void {
+        this.sessions.delete(accountId);
+    }
+
+    /**
+     * End of the account's session, or null without an active one
+     */
+    getSessionExpiry(accountId: string): number | null {
+        return this.getSession(accountId)?.expiresAt ?? null;
+    }
+
+    /**
+     * Active session of an account; an expired one is dropped
+     */
+    private getSession(accountId: string): OrderSession | null {
+        const session = this.sessions.get(accountId);
+        if (session && session.expiresAt <= this.clock.now()) {
+            this.sessions.delete(accountId);
+            return null;
+        }
+        return session ?? null;
+    }
+
+    // ========================================================================
+    // EXECUTION
+    // ========================================================================
+
+    /**
+     * Run every due order of an account: settle sent swaps, expire stale limit
+     * orders, re-quote, and swap the ones whose condition holds. Orders wait
+     * without a session. Returns the orders that changed.
+     */
+    async runDue(accountId: string): Promise<SwapOrder[]> {
+        if (this.running.has(accountId)) {
+            return [];
+        }
+        this.running.add(accountId);
+
+        try {
+            const changed: SwapOrder[] = [];
+
+            for (let order of this.store.getOrders(accountId)) {
+                if (order.pending) {
+                    const settled = await this.settle(accountId, order);
+                    if (settled === order) continue;
+                    changed.push(settled);
+                    order = settled;
+                }
+                if (order.status !== 'open') continue;
+
+                const now = this.clock.now();
+                if (order.expiresAt !== undefined && order.expiresAt <= now) {
+                    changed.push(this.update(accountId, order, { status: 'cancelled', error: 'Expired' }));
+                    continue;
+                }
+                if (order.nextRunAt > now) continue;
+
+                const session = this.getSession(accountId);
+                if (!session) continue;
+
+                changed.push(await this.runOrder(accountId, order, session));
+            }
+
+            return changed;
+        } finally {
+            this.running.delete(accountId);
+        }
+    }
+
+    /**
+     * Quote and, if the order's condition holds, execute one swap
+     */
+    private async runOrder(accountId: string, order: SwapOrder, session: OrderSession): Promise<SwapOrder> {
+        let quote: SwapQuote;
+        try {
+            quote = (await this.quotes.getBestQuote(order.fromToken, order.toToken, order.amount)).bestQuote;
+        } catch (error) {
+            // No quote is not a failed swap: try again shortly
+            return this.update(accountId, order, {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                nextRunAt: this.clock.now() + LIMIT_ORDER_POLL,
+            });
+        }
+
+        if (order.kind === 'limit') {
+            const guaranteedRate = parseFloat(quote.minOutputAmount) / parseFloat(quote.inputAmount);
+            if (!(guaranteedRate >= order.targetRate!)) {
+                return this.update(accountId, order, { nextRunAt: this.clock.now() + LIMIT_ORDER_POLL });
+            }
+        }
+
+        let result: TransactionResult;
+        try {
+            result = await session.execute(quote);
+        } catch (error) {
+            return this.fail(accountId, order, error);
+        }
+        if (!result.success) {
+            return this.fail(accountId, order, new Error(result.error || 'Swap failed'));
+        }
+
+        const sent = this.update(accountId, order, {
+            pending: {
+                at: this.clock.now(),
+                inputAmount: quote.inputAmount,
+                outputAmount: quote.outputAmount,
+                provider: quote.providerName,
+                hash: result.hash,
+            },
+        });
+        return this.settle(accountId, sent);
+    }
+
+    /**
+     * Record the order's sent swap as a fill once it is confirmed; a swap
+     * that failed on-chain, or whose message the chain still has not
+     * processed after SWAP_CONFIRM_TIMEOUT, is a failed attempt. A cancelled
+     * order only records the outcome. Returns the order unchanged while the
+     * swap is still pending.
+     */
+    private async settle(accountId: string, order: SwapOrder): Promise<SwapOrder> {
+        const swap = order.pending!;
+        let settlement: SwapSettlement | 'missing';
+        try {
+            settlement = await this.settlements.getSettlement(swap);
+            if (settlement === 'pending' && this.clock.now() - swap.at >= SWAP_CONFIRM_TIMEOUT) {
+                settlement = await this.settlements.findOnChain(swap);
+            }
+        } catch (error) {
+            console.warn('Failed to check swap order settlement:', error);
+            settlement = 'pending';
+        }
+
+        if (settlement === 'pending') {
+            return order;
+        }
+        if (settlement !== 'confirmed') {
+            const error = new Error(settlement === 'missing' ? 'Swap never reached the chain' : 'Swap transaction failed');
+            return order.status === 'open'
+                ? this.fail(accountId, order, error)
+                : this.update(accountId, order, { pending: undefined, error: error.message });
+        }
+
+        const fills = [...order.fills, swap];
+        if (order.status !== 'open') {
+            return this.update(accountId, order, { fills, pending: undefined });
+        }
+
+        const done = order.kind === 'limit' || (order.runs !== undefined && fills.length >= order.runs);
+        return this.update(accountId, order, {
+            fills,
+            pending: undefined,
+            failures: 0,
+            error: undefined,
+            status: done ? 'filled' : 'open',
+            nextRunAt: done ? order.nextRunAt : this.nextSlot(order, swap.at),
+        });
+    }
+
+    /**
+     * Next scheduled time after now; runs missed while no session was active are skipped
+     */
+    private nextSlot(order: SwapOrder, now: number): number {
+        let next = order.nextRunAt + order.interval!;
+        while (next <= now) {
+            next += order.interval!;
+        }
+        return next;
+    }
+
+    /**
+     * Record a failed swap; retried at the next slot until MAX_ORDER_FAILURES
+     */
+    private fail(accountId: string, order: SwapOrder, error: unknown): SwapOrder {
+        const failures = order.failures + 1;
+        const now = this.clock.now();
+
+        return this.update(accountId, order, {
+            pending: undefined,
+            failures,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            status: failures >= MAX_ORDER_FAILURES ? 'failed' : 'open',
+            nextRunAt: order.kind === 'limit' ? now + LIMIT_ORDER_POLL : this.nextSlot(order, now),
+        });
+    }
+
+    /**
+     * Validate and store a new open order
+     */
+    private place(accountId: string, fields: Omit<SwapOrder, 'id' | 'status' | 'fills' | 'failures' | 'createdAt'>): SwapOrder {
+        if (fields.fromToken === fields.toToken) {
+            throw new Error('Choose two different tokens');
+        }
+        if (!swapService.getToken(fields.fromToken) || !swapService.getToken(fields.toToken)) {
+            throw new Error(`Invalid token pair: ${fields.fromToken}/${fields.toToken}`);
+        }
+        if (!(parseFloat(fields.amount) > 0)) {
+            throw new Error('Amount must be greater than 0');
+        }
+
+        const order: SwapOrder = {
+            ...fields,
+            id: uuidv4(),
+            status: 'open',
+            fills: [],
+            failures: 0,
+            createdAt: this.clock.now(),
+        };
+        this.store.saveOrder(accountId, order);
+        return order;
+    }
+
+    /**
+     * Store changes to an order
+     */
+    private update(accountId: string, order: SwapOrder, updates: Partial<SwapOrder>): SwapOrder {
+        const updated = { ...order, ...updates };
+        this.store.saveOrder(accountId, updated);
+        return updated;
+    }
+}
+
+/**
+ * Create swap order engine
+ */
+export function createSwapOrderEngine(options: { store?: SwapOrderStore; quotes?: SwapQuoteSource; clock?: Clock; settlements?: SwapSettlementSource } = {}): SwapOrderEngine {
+    return new SwapOrderEngine(options);
+}
+
+export default SwapOrderEngine;
@@ -41,9 +41,30 @@
  * 3. Slippage Protection:
  *    - Default slippage is 1% (configurable via setSlippage())
  *    - minOutputAmount is already calculated in the quote
+ *
+ * 4. Routing:
+ *    - `getBestQuote()` routes through a pool graph built from both DEXes:
+ *      direct pools, two hops through TON or USDT, and splits of one order
+ *      across venues when that gives a better output
+ *    - `quote.route` holds every leg with its own amounts and min-out;
+ *      `buildRouteTransactions()` turns the legs into per-stage transactions
+ *
+ * 5. Liquidity:
+ *    - `getLiquidityPools()` lists the same pools with their LP supply;
+ *      the pool address is also the master of its LP jetton on both DEXes
+ *    - `quoteProvideLiquidity()` balances a deposit at the pool price and
+ *      estimates LP tokens and pool share; `buildProvideLiquidityTransactions()`
+ *      sends both sides together, `buildRemoveLiquidityTransaction()` burns LP
+ *
+ * 6. Tokens:
+ *    - `TON_TOKENS` is only the bundled list; the token registry calls
+ *      `setTokens()` with bundled, held and imported jettons
+ *    - DeDust jetton vaults are read from the factory, which needs a client
+ *      set with `setClient()`
  */
 
-import { Address, beginCell, toNano, Cell } from '@ton/core';
+import { Address, beginCell, toNano, Builder, Cell } from '@ton/core';
+import type { TonClient } from '@ton/ton';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -57,8 +78,25 @@ export interface TokenInfo {
     icon: string;
 }
 
+export type SwapProvider = 'stonfi' | 'dedust';
+
+/**
+ * One pool swap inside a route. Stage 0 spends the input token; stage 1
+ * spends what stage 0 delivered, so it is sent once that has arrived.
+ */
+export interface SwapLeg {
+    provider: SwapProvider;
+    fromToken: string;
+    toToken: string;
+    inputAmount: string;
+    outputAmount: string;
+    minOutputAmount: string;
+    poolAddress?: string;
+    stage: number;
+}
+
 export interface SwapQuote {
-    provider: 'stonfi' | 'dedust';
+    provider: SwapProvider;
     providerName: string;
     fromToken: string;
     toToken: string;
@@ -69,7 +107,7 @@ export interface SwapQuote {
     fee: string;
     feeAmount?: string;
     rate: string;
-    route?: string[];
+    route?: SwapLeg[];
     poolAddress?: string;
     validUntil: number;
     isEstimate?: boolean;
@@ -91,7 +129,7 @@ export interface SwapTransaction {
     stateInit?: Cell;
     mode?: number;
     // Transaction type discriminator
-    type?: 'ton_transfer' | 'jetton_transfer';
+    type?: 'ton_transfer' | 'jetton_transfer' | 'jetton_burn';
     // For Jetton transfers
     jettonMaster?: string;
     destination?: string;
@@ -101,12 +139,38 @@ export interface SwapTransaction {
     gasAmount?: string;
 }
 
+/**
+ * Constant-product pool, with assets as token symbols. The pool address is
+ * the master of its LP jetton; lpSupply is 0 when the API does not report it.
+ */
+export interface PoolEdge {
+    provider: SwapProvider;
+    address: string;
+    tokens: [string, string];
+    reserves: [bigint, bigint];
+    feeBps: number;
+    lpSupply: bigint;
+}
+
+/**
+ * Balanced deposit into a pool. Amounts follow the pool's token order.
+ */
+export interface LiquidityQuote {
+    provider: SwapProvider;
+    poolAddress: string;
+    tokens: [string, string];
+    amounts: [string, string];
+    lpAmount: string;       // Expected LP tokens
+    minLpAmount: string;    // LP tokens guaranteed after slippage
+    share: number;          // Share of the pool after the deposit (0-1)
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 /**
- * Supported tokens on TON mainnet
+ * Tokens bundled with the wallet on TON mainnet
  * Native TON uses 'native' as address
  */
 export const TON_TOKENS: Record<string, TokenInfo> = {
@@ -179,6 +243,24 @@ const STONFI_PTON_WALLET = 'EQBB_dTiG6u4IIbDT80yirqwmLpwRp7cDGkdrmvQ3Xs_39xM';
  */
 const STONFI_SWAP_OP_V2 = 0x6664de2a; // V2 swap operation code
 const STONFI_SWAP_OP_V1 = 0x25938561; // V1 swap operation code (legacy)
+const STONFI_PROVIDE_LP_OP_V2 = 0x37c096df; // V2 provide liquidity operation code
+const PTON_TON_TRANSFER_OP = 0x01f3835d; // pTON v2: wrap attached TON and forward it
+
+/**
+ * DeDust liquidity deposit operation codes
+ */
+const DEDUST_DEPOSIT_LIQUIDITY_NATIVE_OP = 0xd55e4686; // Message body to the native vault
+const DEDUST_DEPOSIT_LIQUIDITY_JETTON_OP = 0x40e108d6; // Forward payload to a jetton vault
+
+/**
+ * TEP-74 burn, sent to the owner's LP jetton wallet to withdraw liquidity
+ */
+const JETTON_BURN_OP = 0x595f07bc;
+
+/**
+ * LP jettons of both DEXes have 9 decimals
+ */
+export const LP_DECIMALS = 9;
 
 const DEDUST_FACTORY = 'EQBfBWT7X2BHg9tXAxzhz2aKiNTU1tpt5NsiK0uSDW_YAJ67';
 const DEDUST_NATIVE_VAULT = 'EQDa4VOnTYlLvDJ0gZjNYm5PXfSmmtL6Vs6A_CZEtXCNICq_';
@@ -201,8 +283,36 @@ const GAS_FEES = {
     DEDUST_TON_SWAP: toNano('0.1'),
     DEDUST_JETTON_SWAP: toNano('0.15'),
     DEDUST_FORWARD_GAS: toNano('0.08'),
+    // Liquidity: per deposited side, and for the LP burn that withdraws it
+    STONFI_PROVIDE_TON: toNano('0.3'),
+    STONFI_PROVIDE_JETTON: toNano('0.3'),
+    STONFI_PROVIDE_FORWARD_GAS: toNano('0.24'),
+    DEDUST_DEPOSIT_TON: toNano('0.15'),
+    DEDUST_DEPOSIT_JETTON: toNano('0.5'),
+    DEDUST_DEPOSIT_FORWARD_GAS: toNano('0.4'),
+    LIQUIDITY_BURN: toNano('0.5'),
 };
 
+/**
+ * Tokens a two-hop route may pass through
+ */
+const ROUTE_INTERMEDIATES = ['TON', 'USDT'];
+
+/**
+ * Split ratios tried between two routes: 1/10 of the input at a time
+ */
+const SPLIT_STEPS = 10;
+
+/**
+ * Best routes paired up when looking for a split
+ */
+const SPLIT_CANDIDATES = 4;
+
+/**
+ * Pool fee when the API reports none (basis points)
+ */
+const DEFAULT_POOL_FEE_BPS = 30;
+
 /**
  * DEX Provider info
  */
@@ -211,6 +321,7 @@ export const DEX_PROVIDERS = {
         id: 'stonfi' as const,
         name: 'STON.fi',
         router: STONFI_ROUTER_V2,
+        ptonWallet: STONFI_PTON_WALLET,
         apiUrl: 'https://api.ston.fi',
         fee: '0.3%',
     },
@@ -224,6 +335,29 @@ export const DEX_PROVIDERS = {
     },
 };
 
+/**
+ * Swap through one pool of a route (amounts in smallest units)
+ */
+interface RouteHop {
+    pool: PoolEdge;
+    from: string;
+    to: string;
+    amountIn: bigint;
+    amountOut: bigint;
+    minOut: bigint;
+}
+
+/**
+ * Route evaluated for one input amount
+ */
+interface RoutePath {
+    hops: RouteHop[];
+    amountIn: bigint;
+    amountOut: bigint;
+    minOut: bigint;
+    idealOut: number; // Output at the pools' mid prices after fees, for price impact
+}
+
 // ============================================================================
 // SWAP SERVICE CLASS
 // ============================================================================
@@ -233,12 +367,18 @@ export class SwapService {
     private slippageTolerance: number; // 0.01 = 1%
     private cachedPools: Map<string, { data: any; timestamp: number }>;
     private cacheExpiry: number;
+    private symbolsByAddress: Map<string, string>;
+    private client: TonClient | null;
+    private dedustVaults: Map<string, string>;
 
     constructor() {
         this.tokens = TON_TOKENS;
         this.slippageTolerance = 0.01; // Default 1% slippage
         this.cachedPools = new Map();
         this.cacheExpiry = 60000; // 1 minute cache
+        this.symbolsByAddress = buildSymbolIndex(this.tokens);
+        this.client = null;
+        this.dedustVaults = new Map();
     }
 
     // ========================================================================
@@ -263,6 +403,27 @@ export class SwapService {
         return this.slippageTolerance;
     }
 
+    /**
+     * Replace the tradable tokens (the registry's list). Symbols are the
+     * lookup keys, so they must be unique; TON is always kept.
+     */
+    setTokens(tokens: TokenInfo[]): void {
+        const next: Record<string, TokenInfo> = { TON: TON_TOKENS.TON };
+        for (const token of tokens) {
+            if (token.address === 'native') continue;
+            next[token.symbol.toUpperCase()] = token;
+        }
+        this.tokens = next;
+        this.symbolsByAddress = buildSymbolIndex(next);
+    }
+
+    /**
+     * Set the client used for on-chain lookups (DeDust vault addresses)
+     */
+    setClient(client: TonClient): void {
+        this.client = client;
+    }
+
     /**
      * Get available tokens
      */
@@ -282,7 +443,9 @@ export class SwapService {
     // ========================================================================
 
     /**
-     * Get the best quote by querying both STON.fi and DeDust in parallel
+     * Get the best quote: the route found over both DEXes' pools (direct,
+     * two-hop or split) against STON.fi's own simulation of the direct swap.
+     * Estimates from made-up prices are never returned here.
      * 
      * @param fromSymbol - Source token symbol (e.g., 'TON', 'USDT')
      * @param toSymbol - Target token symbol
@@ -305,20 +468,18 @@ export class SwapService {
             throw new Error('Invalid amount');
         }
 
-        // Query both DEXes in parallel
-        const [stonfiQuote, dedustQuote] = await Promise.allSettled([
+        // Route over the pool graph and simulate on STON.fi in parallel
+        const results = await Promise.allSettled([
+            this.getRoutedQuote(fromSymbol, toSymbol, amount),
             this.getStonfiQuote(fromToken, toToken, amount),
-            this.getDedustQuote(fromToken, toToken, amount),
         ]);
 
         const quotes: SwapQuote[] = [];
 
-        if (stonfiQuote.status === 'fulfilled' && !stonfiQuote.value.error) {
-            quotes.push(stonfiQuote.value);
-        }
-
-        if (dedustQuote.status === 'fulfilled' && !dedustQuote.value.error) {
-            quotes.push(dedustQuote.value);
+        for (const result of results) {
+            if (result.status === 'fulfilled' && !result.value.error && !result.value.isEstimate) {
+                quotes.push(result.value);
+            }
         }
 
         if (quotes.length === 0) {
@@ -424,7 +585,15 @@ export class SwapService {
                 fee: '0.3%',
                 feeAmount: data.fee_units ? this.fromUnits(data.fee_units, fromToken.decimals) : undefined,
                 rate: `1 ${fromToken.symbol} ≈ ${rate} ${toToken.symbol}`,
-                route: data.route || [fromToken.symbol, toToken.symbol],
+                route: [{
+                    provider: 'stonfi',
+                    fromToken: fromToken.symbol,
+                    toToken: toToken.symbol,
+                    inputAmount,
+                    outputAmount,
+                    minOutputAmount: minOutput,
+                    stage: 0,
+                }],
                 validUntil: Date.now() + 30000, // Valid for 30 seconds
                 rawData: data,
             };
@@ -446,21 +615,7 @@ export class SwapService {
         try {
             const amountUnits = this.toUnits(amount, fromToken.decimals);
 
-            // Check cache first
-            const cacheKey = 'dedust_pools';
-            let pools: any[];
-
-            const cached = this.cachedPools.get(cacheKey);
-            if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
-                pools = cached.data;
-            } else {
-                const response = await fetch('https://api.dedust.io/v2/pools');
-                if (!response.ok) {
-                    throw new Error(`DeDust API error: ${response.status}`);
-                }
-                pools = await response.json();
-                this.cachedPools.set(cacheKey, { data: pools, timestamp: Date.now() });
-            }
+            const pools = await this.fetchDedustPools();
 
             // Find the pool for this pair
             const fromAddr = fromToken.address === 'native' ? 'native' : fromToken.address;
@@ -517,7 +672,16 @@ export class SwapService {
                 priceImpact: `${priceImpact}%`,
                 fee: '0.3%',
                 rate: `1 ${fromToken.symbol} ≈ ${rate} ${toToken.symbol}`,
-                route: [fromToken.symbol, toToken.symbol],
+                route: [{
+                    provider: 'dedust',
+                    fromToken: fromToken.symbol,
+                    toToken: toToken.symbol,
+                    inputAmount,
+                    outputAmount,
+                    minOutputAmount: minOutput,
+                    poolAddress: pool.address,
+                    stage: 0,
+                }],
                 poolAddress: pool.address,
                 validUntil: Date.now() + 30000,
                 rawData: pool,
@@ -587,6 +751,316 @@ export class SwapService {
         };
     }
 
+    // ========================================================================
+    // ROUTING
+    // ========================================================================
+
+    /**
+     * Get the best quote over the pool graph of both DEXes: direct pools,
+     * two hops through TON or USDT, and the input split across two routes.
+     * The second hop spends the first hop's minimum output, so it never runs
+     * short of the intermediate token; anything above that stays in the wallet.
+     */
+    async getRoutedQuote(
+        fromSymbol: string,
+        toSymbol: string,
+        amount: string
+    ): Promise<SwapQuote> {
+        const fromToken = this.getToken(fromSymbol);
+        const toToken = this.getToken(toSymbol);
+
+        if (!fromToken || !toToken) {
+            throw new Error(`Invalid token pair: ${fromSymbol}/${toSymbol}`);
+        }
+
+        const amountIn = BigInt(this.toUnits(amount, fromToken.decimals));
+        if (amountIn <= 0n) {
+            throw new Error('Invalid amount');
+        }
+
+        const graph = await this.getPoolGraph();
+        const paths = this.findBestRoute(graph, fromToken.symbol, toToken.symbol, amountIn);
+
+        if (!paths) {
+            throw new Error(`No pool route for ${fromToken.symbol}/${toToken.symbol}`);
+        }
+
+        return this.toRoutedQuote(fromToken, toToken, amountIn, paths);
+    }
+
+    /**
+     * Get the pools of both DEXes between supported tokens.
+     * A DEX whose API fails is left out of the graph.
+     */
+    async getPoolGraph(): Promise<PoolEdge[]> {
+        const [stonfi, dedust] = await Promise.allSettled([
+            this.fetchStonfiPools(),
+            this.fetchDedustPools(),
+        ]);
+
+        const edges: PoolEdge[] = [];
+
+        if (stonfi.status === 'fulfilled') {
+            for (const pool of stonfi.value) {
+                // Transactions are built for the V2 router, so only its pools can be routed through
+                if (pool.deprecated || !sameAddress(pool.router_address, STONFI_ROUTER_V2)) continue;
+                const edge = this.toPoolEdge('stonfi', pool.address, [pool.token0_address, pool.token1_address], [pool.reserve0, pool.reserve1],
+                    Number(pool.lp_fee || 0) + Number(pool.protocol_fee || 0), pool.lp_total_supply);
+                if (edge) edges.push(edge);
+            }
+        } else {
+            console.warn('[SwapService] STON.fi pools unavailable:', stonfi.reason);
+        }
+
+        if (dedust.status === 'fulfilled') {
+            for (const pool of dedust.value) {
+                // Stable pools follow a different curve than x * y = k
+                if (!pool.assets || pool.assets.length < 2 || pool.type === 'stable') continue;
+                const edge = this.toPoolEdge('dedust', pool.address, pool.assets.map((a: any) => a.address || 'native'), pool.reserves || [],
+                    DEFAULT_POOL_FEE_BPS, pool.totalSupply);
+                if (edge) edges.push(edge);
+            }
+        } else {
+            console.warn('[SwapService] DeDust pools unavailable:', dedust.reason);
+        }
+
+        return edges;
+    }
+
+    /**
+     * Find the route with the highest output: the best single route, or the
+     * input split between two routes that share no pool
+     */
+    private findBestRoute(
+        graph: PoolEdge[],
+        from: string,
+        to: string,
+        amountIn: bigint
+    ): RoutePath[] | null {
+        const candidates = this.findPaths(graph, from, to)
+            .map(path => this.evaluatePath(path, from, amountIn))
+            .filter(path => path.amountOut > 0n)
+            .sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0));
+
+        if (candidates.length === 0) {
+            return null;
+        }
+
+        let best: RoutePath[] = [candidates[0]];
+        let bestOut = candidates[0].amountOut;
+
+        const top = candidates.slice(0, SPLIT_CANDIDATES);
+        for (let i = 0; i < top.length; i++) {
+            for (let j = i + 1; j < top.length; j++) {
+                const first = top[i].hops.map(hop => hop.pool);
+                const second = top[j].hops.map(hop => hop.pool);
+                if (first.some(pool => second.includes(pool))) continue;
+
+                for (let step = 1; step < SPLIT_STEPS; step++) {
+                    const share = amountIn * BigInt(step) / BigInt(SPLIT_STEPS);
+                    const split = [
+                        this.evaluatePath(first, from, share),
+                        this.evaluatePath(second, from, amountIn - share),
+                    ];
+                    const output = split[0].amountOut + split[1].amountOut;
+                    if (output > bestOut) {
+                        best = split;
+                        bestOut = output;
+                    }
+                }
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Pool sequences from one token to another: every direct pool, and every
+     * pair of pools through an intermediate token
+     */
+    private findPaths(graph: PoolEdge[], from: string, to: string): PoolEdge[][] {
+        const between = (a: string, b: string) =>
+            graph.filter(pool => pool.tokens.includes(a) && pool.tokens.includes(b));
+
+        const paths: PoolEdge[][] = between(from, to).map(pool => [pool]);
+
+        for (const middle of ROUTE_INTERMEDIATES) {
+            if (middle === from || middle === to) continue;
+            for (const first of between(from, middle)) {
+                for (const second of between(middle, to)) {
+                    paths.push([first, second]);
+                }
+            }
+        }
+
+        return paths;
+    }
+
+    /**
+     * Run an amount through a pool sequence. Each hop after the first spends
+     * the previous hop's minimum output.
+     */
+    private evaluatePath(pools: PoolEdge[], from: string, amountIn: bigint): RoutePath {
+        const hops: RouteHop[] = [];
+        let token = from;
+        let amount = amountIn;
+        let idealRate = 1;
+
+        for (const pool of pools) {
+            const inIndex = pool.tokens[0] === token ? 0 : 1;
+            const outIndex = 1 - inIndex;
+            const amountOut = getAmountOut(amount, pool.reserves[inIndex], pool.reserves[outIndex], pool.feeBps);
+            const minOut = this.applySlippage(amountOut);
+
+            hops.push({ pool, from: token, to: pool.tokens[outIndex], amountIn: amount, amountOut, minOut });
+
+            idealRate *= (Number(pool.reserves[outIndex]) / Number(pool.reserves[inIndex])) * (1 - pool.feeBps / 10000);
+            token = pool.tokens[outIndex];
+            amount = minOut;
+        }
+
+        const last = hops[hops.length - 1];
+        return {
+            hops,
+            amountIn,
+            amountOut: last.amountOut,
+            minOut: last.minOut,
+            idealOut: Number(amountIn) * idealRate,
+        };
+    }
+
+    /**
+     * Turn routed paths into a quote with one leg per hop
+     */
+    private toRoutedQuote(
+        fromToken: TokenInfo,
+        toToken: TokenInfo,
+        amountIn: bigint,
+        paths: RoutePath[]
+    ): SwapQuote {
+        const decimalsOf = (symbol: string) => this.getToken(symbol)!.decimals;
+
+        const route: SwapLeg[] = paths.flatMap(path => path.hops.map((hop, index) => ({
+            provider: hop.pool.provider,
+            fromToken: hop.from,
+            toToken: hop.to,
+            inputAmount: this.fromUnits(hop.amountIn.toString(), decimalsOf(hop.from)),
+            outputAmount: this.fromUnits(hop.amountOut.toString(), decimalsOf(hop.to)),
+            minOutputAmount: this.fromUnits(hop.minOut.toString(), decimalsOf(hop.to)),
+            poolAddress: hop.pool.address,
+            stage: index,
+        })));
+
+        const outputUnits = paths.reduce((sum, path) => sum + path.amountOut, 0n);
+        const minOutputUnits = paths.reduce((sum, path) => sum + path.minOut, 0n);
+        const idealOut = paths.reduce((sum, path) => sum + path.idealOut, 0);
+        const impact = idealOut > 0 ? Math.max(0, 1 - Number(outputUnits) / idealOut) * 100 : 0;
+
+        // The route carrying most of the input names the quote
+        const main = paths.reduce((a, b) => (b.amountIn > a.amountIn ? b : a));
+        const providers = Array.from(new Set(route.map(leg => leg.provider)));
+        const providerNames = providers.map(id => (id === 'stonfi' ? DEX_PROVIDERS.STONFI : DEX_PROVIDERS.DEDUST).name);
+
+        const inputAmount = this.fromUnits(amountIn.toString(), fromToken.decimals);
+        const outputAmount = this.fromUnits(outputUnits.toString(), toToken.decimals);
+        const inputNum = parseFloat(inputAmount);
+        const rate = inputNum > 0 ? (parseFloat(outputAmount) / inputNum).toFixed(6) : '0';
+        const feeBps = Math.max(...main.hops.map(hop => hop.pool.feeBps));
+
+        return {
+            provider: main.hops[0].pool.provider,
+            providerName: providerNames.join(' + '),
+            fromToken: fromToken.symbol,
+            toToken: toToken.symbol,
+            inputAmount,
+            outputAmount,
+            minOutputAmount: this.fromUnits(minOutputUnits.toString(), toToken.decimals),
+            priceImpact: `${impact.toFixed(2)}%`,
+            fee: `${feeBps / 100}%${route.length > 1 ? ' per leg' : ''}`,
+            rate: `1 ${fromToken.symbol} ≈ ${rate} ${toToken.symbol}`,
+            route,
+            poolAddress: route.length === 1 ? route[0].poolAddress : undefined,
+            validUntil: Date.now() + 30000,
+        };
+    }
+
+    /**
+     * Map a DEX pool to a graph edge; pools with an unsupported token or
+     * empty reserves are skipped
+     */
+    private toPoolEdge(
+        provider: SwapProvider,
+        address: string,
+        assets: string[],
+        reserves: Array<string | number>,
+        feeBps: number,
+        lpSupply?: string | number
+    ): PoolEdge | null {
+        const tokens = assets.map(asset => this.symbolsByAddress.get(normalizeAddress(asset)) ?? null);
+        if (!address || tokens.length < 2 || !tokens[0] || !tokens[1] || tokens[0] === tokens[1]) {
+            return null;
+        }
+
+        const reserve0 = BigInt(reserves[0] ?? 0);
+        const reserve1 = BigInt(reserves[1] ?? 0);
+        if (reserve0 <= 0n || reserve1 <= 0n) {
+            return null;
+        }
+
+        return {
+            provider,
+            address,
+            tokens: [tokens[0], tokens[1]],
+            reserves: [reserve0, reserve1],
+            feeBps: feeBps > 0 ? feeBps : DEFAULT_POOL_FEE_BPS,
+            lpSupply: BigInt(lpSupply ?? 0),
+        };
+    }
+
+    /**
+     * Get STON.fi pools (cached)
+     */
+    private async fetchStonfiPools(): Promise<any[]> {
+        const cached = this.cachedPools.get('stonfi_pools');
+        if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
+            return cached.data;
+        }
+
+        const response = await fetch('https://api.ston.fi/v1/pools');
+        if (!response.ok) {
+            throw new Error(`STON.fi API error: ${response.status}`);
+        }
+        const pools = (await response.json()).pool_list || [];
+        this.cachedPools.set('stonfi_pools', { data: pools, timestamp: Date.now() });
+        return pools;
+    }
+
+    /**
+     * Get DeDust pools (cached)
+     */
+    private async fetchDedustPools(): Promise<any[]> {
+        const cached = this.cachedPools.get('dedust_pools');
+        if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
+            return cached.data;
+        }
+
+        const response = await fetch('https://api.dedust.io/v2/pools');
+        if (!response.ok) {
+            throw new Error(`DeDust API error: ${response.status}`);
+        }
+        const pools = await response.json();
+        this.cachedPools.set('dedust_pools', { data: pools, timestamp: Date.now() });
+        return pools;
+    }
+
+    /**
+     * Minimum output after slippage (smallest units)
+     */
+    private applySlippage(amount: bigint): bigint {
+        const keepBps = BigInt(Math.round((1 - this.slippageTolerance) * 10000));
+        return amount * keepBps / 10000n;
+    }
+
     // ========================================================================
     // TRANSACTION BUILDING
     // ========================================================================
@@ -608,6 +1082,10 @@ export class SwapService {
             throw new Error('User wallet address is required');
         }
 
+        if (quoteData.route && quoteData.route.length > 1) {
+            throw new Error('This quote has several legs; build it with buildRouteTransactions');
+        }
+
         const fromToken = this.getToken(quoteData.fromToken);
         const toToken = this.getToken(quoteData.toToken);
 
@@ -638,6 +1116,54 @@ export class SwapService {
         }
     }
 
+    /**
+     * Build the transactions of a quote's route, one per leg and grouped by
+     * stage. Legs of one stage can be sent together; a later stage spends
+     * what the previous one delivered, so it is sent once that has arrived.
+     * Every leg is built exactly like a direct swap on its DEX.
+     */
+    async buildRouteTransactions(
+        quoteData: SwapQuote,
+        userWalletAddress: string
+    ): Promise<SwapTransaction[][]> {
+        if (!userWalletAddress) {
+            throw new Error('User wallet address is required');
+        }
+
+        const legs: SwapLeg[] = quoteData.route?.length ? quoteData.route : [{
+            provider: quoteData.provider,
+            fromToken: quoteData.fromToken,
+            toToken: quoteData.toToken,
+            inputAmount: quoteData.inputAmount,
+            outputAmount: quoteData.outputAmount,
+            minOutputAmount: quoteData.minOutputAmount,
+            poolAddress: quoteData.poolAddress,
+            stage: 0,
+        }];
+
+        const stages: SwapTransaction[][] = [];
+
+        for (const leg of legs) {
+            const fromToken = this.getToken(leg.fromToken);
+            const toToken = this.getToken(leg.toToken);
+
+            if (!fromToken || !toToken) {
+                throw new Error('Invalid token pair in quote data');
+            }
+
+            const transaction = leg.provider === 'stonfi'
+                ? await this.buildStonfiSwapTransaction(userWalletAddress, fromToken, toToken, leg.inputAmount, leg.minOutputAmount)
+                : await this.buildDedustSwapTransaction(userWalletAddress, fromToken, toToken, leg.inputAmount, leg.minOutputAmount, leg.poolAddress);
+
+            if (!stages[leg.stage]) {
+                stages[leg.stage] = [];
+            }
+            stages[leg.stage].push(transaction);
+        }
+
+        return stages;
+    }
+
     /**
      * Build STON.fi swap transaction
      */
@@ -922,6 +1448,7 @@ export class SwapService {
             return this.buildDedustJettonSwap(
                 senderAddress,
                 fromToken.address,
+                await this.getDedustJettonVault(fromToken.address),
                 poolAddress || '',
                 amountUnits,
                 minOutputUnits
@@ -984,6 +1511,7 @@ export class SwapService {
     private buildDedustJettonSwap(
         senderAddress: string,
         jettonAddress: string,
+        jettonVault: string,
         poolAddress: string,
         amountUnits: string,
         minOutputUnits: string
@@ -1011,9 +1539,6 @@ export class SwapService {
             .storeRef(swapParams)
             .endCell();
 
-        // Get jetton vault address (in production, query from factory)
-        const jettonVault = this.getDedustJettonVault(jettonAddress);
-
         return {
             type: 'jetton_transfer',
             jettonMaster: jettonAddress,
@@ -1026,12 +1551,312 @@ export class SwapService {
     }
 
     /**
-     * Get DeDust jetton vault address
-     * In production, this should query the DeDust factory contract
+     * Get the DeDust vault of a jetton from the factory (get_vault_address).
+     * Vault addresses never change, so they are cached.
      */
-    private getDedustJettonVault(jettonAddress: string): string {
-        // Simplified - in production, query factory.getVault(jettonAddress)
-        return DEDUST_FACTORY;
+    private async getDedustJettonVault(jettonAddress: string): Promise<string> {
+        const key = normalizeAddress(jettonAddress);
+        const cached = this.dedustVaults.get(key);
+        if (cached) return cached;
+
+        if (!this.client) {
+            throw new Error('No client set for DeDust vault lookup');
+        }
+
+        const result = await this.client.runMethod(Address.parse(DEDUST_FACTORY), 'get_vault_address', [
+            { type: 'slice', cell: dedustAsset(jettonAddress).endCell() },
+        ]);
+        const vault = result.stack.readAddress().toString();
+        this.dedustVaults.set(key, vault);
+        return vault;
+    }
+
+    // ========================================================================
+    // LIQUIDITY
+    // ========================================================================
+
+    /**
+     * Get the pools liquidity can be provided to: the routing pools whose
+     * LP supply is known
+     */
+    async getLiquidityPools(): Promise<PoolEdge[]> {
+        return (await this.getPoolGraph()).filter(pool => pool.lpSupply > 0n);
+    }
+
+    /**
+     * Quote a deposit of one pool token matched with the other at the pool
+     * price. LP tokens follow the pools' minting rule: the smaller of both
+     * sides' share of the reserves, times the LP supply.
+     */
+    quoteProvideLiquidity(pool: PoolEdge, symbol: string, amount: string): LiquidityQuote {
+        const index = pool.tokens.indexOf(symbol);
+        if (index < 0) {
+            throw new Error(`${symbol} is not in this pool`);
+        }
+        if (pool.lpSupply <= 0n) {
+            throw new Error('Pool LP supply is unknown');
+        }
+
+        const decimalsOf = (token: string) => this.getToken(token)!.decimals;
+        const other = 1 - index;
+        const units: [bigint, bigint] = [0n, 0n];
+        units[index] = BigInt(this.toUnits(amount, decimalsOf(symbol)));
+        if (units[index] <= 0n) {
+            throw new Error('Invalid amount');
+        }
+        // Rounded up so the matched side never limits the LP minted
+        units[other] = (units[index] * pool.reserves[other] + pool.reserves[index] - 1n) / pool.reserves[index];
+
+        const lpByToken = units.map((unit, i) => unit * pool.lpSupply / pool.reserves[i]);
+        const lpUnits = lpByToken[0] < lpByToken[1] ? lpByToken[0] : lpByToken[1];
+
+        return {
+            provider: pool.provider,
+            poolAddress: pool.address,
+            tokens: pool.tokens,
+            amounts: [
+                this.fromUnits(units[0].toString(), decimalsOf(pool.tokens[0])),
+                this.fromUnits(units[1].toString(), decimalsOf(pool.tokens[1])),
+            ],
+            lpAmount: this.fromUnits(lpUnits.toString(), LP_DECIMALS),
+            minLpAmount: this.fromUnits(this.applySlippage(lpUnits).toString(), LP_DECIMALS),
+            share: Number(lpUnits) / Number(pool.lpSupply + lpUnits),
+        };
+    }
+
+    /**
+     * Pool tokens paid out for burning an amount of LP tokens, in pool order
+     */
+    quoteRemoveLiquidity(pool: PoolEdge, lpAmount: string): [string, string] {
+        if (pool.lpSupply <= 0n) {
+            throw new Error('Pool LP supply is unknown');
+        }
+
+        const lpUnits = BigInt(this.toUnits(lpAmount, LP_DECIMALS));
+        const out = (i: number) => this.fromUnits((lpUnits * pool.reserves[i] / pool.lpSupply).toString(), this.getToken(pool.tokens[i])!.decimals);
+        return [out(0), out(1)];
+    }
+
+    /**
+     * Build both sides of a liquidity deposit. They are sent together: the
+     * DEX mints LP tokens once both have arrived, and refunds a side whose
+     * deposit fails.
+     */
+    async buildProvideLiquidityTransactions(
+        quote: LiquidityQuote,
+        userWalletAddress: string
+    ): Promise<SwapTransaction[]> {
+        if (!userWalletAddress) {
+            throw new Error('User wallet address is required');
+        }
+
+        const tokens = quote.tokens.map(symbol => this.getToken(symbol));
+        if (!tokens[0] || !tokens[1]) {
+            throw new Error('Invalid token pair in liquidity quote');
+        }
+        const pair: [TokenInfo, TokenInfo] = [tokens[0], tokens[1]];
+
+        const units: [string, string] = [
+            this.toUnits(quote.amounts[0], pair[0].decimals),
+            this.toUnits(quote.amounts[1], pair[1].decimals),
+        ];
+        const minLpUnits = this.toUnits(quote.minLpAmount, LP_DECIMALS);
+
+        console.log('[SwapService] Building liquidity deposit:', {
+            provider: quote.provider,
+            pool: quote.poolAddress,
+            tokens: quote.tokens,
+            amounts: units,
+            minLp: minLpUnits
+        });
+
+        if (quote.provider === 'stonfi') {
+            return [0, 1].map(i => this.buildStonfiProvideLiquidity(userWalletAddress, pair[i], pair[1 - i], units[i], minLpUnits));
+        }
+        const vaults = await Promise.all(pair.map(token =>
+            token.address === 'native' ? DEDUST_NATIVE_VAULT : this.getDedustJettonVault(token.address)));
+        return [0, 1].map(i => this.buildDedustDepositLiquidity(pair, i, vaults[i], units, minLpUnits));
+    }
+
+    /**
+     * Build the burn of LP tokens that withdraws liquidity. It goes to the
+     * owner's LP jetton wallet; the pool pays out both tokens to the owner.
+     */
+    buildRemoveLiquidityTransaction(
+        poolAddress: string,
+        lpAmount: string,
+        userWalletAddress: string
+    ): SwapTransaction {
+        if (!userWalletAddress) {
+            throw new Error('User wallet address is required');
+        }
+
+        const lpUnits = BigInt(this.toUnits(lpAmount, LP_DECIMALS));
+        if (lpUnits <= 0n) {
+            throw new Error('Invalid amount');
+        }
+
+        const body = beginCell()
+            .storeUint(JETTON_BURN_OP, 32)
+            .storeUint(0, 64)                               // query_id
+            .storeCoins(lpUnits)                            // amount
+            .storeAddress(Address.parse(userWalletAddress)) // response_destination - receives excess gas
+            .storeMaybeRef(null)                            // custom_payload
+            .endCell();
+
+        return {
+            type: 'jetton_burn',
+            jettonMaster: poolAddress,
+            amount: lpUnits.toString(),
+            body,
+            gasAmount: GAS_FEES.LIQUIDITY_BURN.toString(),
+        };
+    }
+
+    /**
+     * Build one side of a STON.fi liquidity deposit (V2 Protocol)
+     *
+     * Jettons go to the router with a provide_lp payload; TON is wrapped by
+     * the pTON wallet, which forwards the same payload. The pool holds the
+     * first side in the user's LP account until the other side arrives.
+     *
+     * @param senderAddress - User's wallet address (receives LP tokens and refunds)
+     * @param token - Token deposited by this message
+     * @param otherToken - The pool's other token
+     * @param units - Amount deposited (in smallest units)
+     * @param minLpUnits - Minimum LP tokens to mint (slippage protection)
+     */
+    private buildStonfiProvideLiquidity(
+        senderAddress: string,
+        token: TokenInfo,
+        otherToken: TokenInfo,
+        units: string,
+        minLpUnits: string
+    ): SwapTransaction {
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + 300);
+        const userAddress = Address.parse(senderAddress);
+        const otherTokenWallet = Address.parse(otherToken.address === 'native' ? STONFI_PTON_WALLET : otherToken.address);
+
+        const additionalData = beginCell()
+            .storeCoins(BigInt(minLpUnits)) // minLpOut
+            .storeAddress(userAddress)       // toAddress - receives the LP tokens
+            .storeUint(1, 1)                 // bothPositive - mint only once both sides have arrived
+            .storeCoins(0n)                  // fwdAmount
+            .storeMaybeRef(null)             // customPayload
+            .endCell();
+
+        const provideLpPayload = beginCell()
+            .storeUint(STONFI_PROVIDE_LP_OP_V2, 32) // V2 provide_lp operation code: 0x37c096df
+            .storeAddress(otherTokenWallet)         // otherTokenWallet - the pool's other token
+            .storeAddress(userAddress)              // refundAddress
+            .storeAddress(userAddress)              // excessesAddress
+            .storeUint(deadline, 64)                // deadline
+            .storeRef(additionalData)
+            .endCell();
+
+        if (token.address === 'native') {
+            const amount = BigInt(units);
+            const body = beginCell()
+                .storeUint(PTON_TON_TRANSFER_OP, 32)
+                .storeUint(0, 64)            // query_id
+                .storeCoins(amount)          // ton_amount - wrapped into pTON
+                .storeAddress(userAddress)   // refund_address
+                .storeBit(1)                 // forward_payload in a reference
+                .storeRef(provideLpPayload)
+                .endCell();
+
+            return {
+                type: 'ton_transfer',
+                to: STONFI_PTON_WALLET,
+                value: (amount + GAS_FEES.STONFI_PROVIDE_TON).toString(),
+                body,
+                mode: 3,
+            };
+        }
+
+        return {
+            type: 'jetton_transfer',
+            jettonMaster: token.address,
+            destination: STONFI_ROUTER_V2,
+            amount: units,
+            forwardAmount: GAS_FEES.STONFI_PROVIDE_FORWARD_GAS.toString(),
+            forwardPayload: provideLpPayload.toBoc().toString('base64'),
+            gasAmount: GAS_FEES.STONFI_PROVIDE_JETTON.toString(),
+        };
+    }
+
+    /**
+     * Build one side of a DeDust liquidity deposit
+     *
+     * TON goes to the native vault, jettons to their vault. Each side names
+     * the pool and the target balances of both assets; the deposit contract
+     * mints LP tokens once both targets are reached.
+     *
+     * @param tokens - The pool's tokens, in pool order
+     * @param index - Side deposited by this message
+     * @param vault - Vault of that side's token
+     * @param units - Amounts of both sides (in smallest units)
+     * @param minLpUnits - Minimum LP tokens to mint (slippage protection)
+     */
+    private buildDedustDepositLiquidity(
+        tokens: [TokenInfo, TokenInfo],
+        index: number,
+        vault: string,
+        units: [string, string],
+        minLpUnits: string
+    ): SwapTransaction {
+        const token = tokens[index];
+        const amount = BigInt(units[index]);
+
+        const targets = beginCell()
+            .storeCoins(BigInt(minLpUnits)) // minimal_lp_amount
+            .storeCoins(BigInt(units[0]))   // asset0_target_balance
+            .storeCoins(BigInt(units[1]))   // asset1_target_balance
+            .endCell();
+
+        // PoolParams: pool type (0 = volatile) and both assets in pool order
+        const poolParams = beginCell()
+            .storeUint(0, 1)
+            .storeBuilder(dedustAsset(tokens[0].address))
+            .storeBuilder(dedustAsset(tokens[1].address));
+
+        if (token.address === 'native') {
+            const body = beginCell()
+                .storeUint(DEDUST_DEPOSIT_LIQUIDITY_NATIVE_OP, 32)
+                .storeUint(0, 64)        // query_id
+                .storeCoins(amount)
+                .storeBuilder(poolParams)
+                .storeRef(targets)
+                .storeMaybeRef(null)     // fulfill payload
+                .storeMaybeRef(null)     // reject payload
+                .endCell();
+
+            return {
+                type: 'ton_transfer',
+                to: vault,
+                value: (amount + GAS_FEES.DEDUST_DEPOSIT_TON).toString(),
+                body,
+                mode: 3,
+            };
+        }
+
+        const forwardPayload = beginCell()
+            .storeUint(DEDUST_DEPOSIT_LIQUIDITY_JETTON_OP, 32)
+            .storeBuilder(poolParams)
+            .storeRef(targets)
+            .storeMaybeRef(null)
+            .storeMaybeRef(null)
+            .endCell();
+
+        return {
+            type: 'jetton_transfer',
+            jettonMaster: token.address,
+            destination: vault,
+            amount: units[index],
+            forwardAmount: GAS_FEES.DEDUST_DEPOSIT_FORWARD_GAS.toString(),
+            forwardPayload: forwardPayload.toBoc().toString('base64'),
+            gasAmount: GAS_FEES.DEDUST_DEPOSIT_JETTON.toString(),
+        };
     }
 
     // ========================================================================
@@ -1042,7 +1867,7 @@ export class SwapService {
      * Convert human-readable amount to smallest units
      * e.g., "1.5" TON (9 decimals) -> "1500000000"
      */
-    private toUnits(amount: string, decimals: number): string {
+    toUnits(amount: string, decimals: number): string {
         if (!amount || amount === '' || amount === '0') {
             return '0';
         }
@@ -1068,7 +1893,7 @@ export class SwapService {
      * Convert smallest units to human-readable amount
      * e.g., "1500000000" -> "1.5" (9 decimals)
      */
-    private fromUnits(units: string, decimals: number): string {
+    fromUnits(units: string, decimals: number): string {
         if (!units || units === '0') return '0';
 
         const str = units.toString().padStart(decimals + 1, '0');
@@ -1091,6 +1916,63 @@ export class SwapService {
     }
 }
 
+// ============================================================================
+// ROUTING HELPERS
+// ============================================================================
+
+/**
+ * Constant-product output with the pool fee taken from the input
+ */
+function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number): bigint {
+    if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+    const amountInWithFee = amountIn * BigInt(10000 - feeBps);
+    return (amountInWithFee * reserveOut) / (reserveIn * 10000n + amountInWithFee);
+}
+
+/**
+ * Raw form of an address for lookups ('native' stays as is)
+ */
+function normalizeAddress(address: string): string {
+    if (!address || address === 'native') return 'native';
+    try {
+        return Address.parse(address).toRawString();
+    } catch {
+        return address;
+    }
+}
+
+/**
+ * Compare two addresses in any format
+ */
+function sameAddress(a: string, b: string): boolean {
+    return !!a && !!b && normalizeAddress(a) === normalizeAddress(b);
+}
+
+/**
+ * DeDust Asset: native$0000, or jetton$0001 with the master's workchain and hash
+ */
+function dedustAsset(address: string): Builder {
+    if (address === 'native') {
+        return beginCell().storeUint(0, 4);
+    }
+    const master = Address.parse(address);
+    return beginCell().storeUint(1, 4).storeInt(master.workChain, 8).storeBuffer(master.hash);
+}
+
+/**
+ * Token symbol by address, with the DEXes' TON stand-ins mapped to TON
+ */
+function buildSymbolIndex(tokens: Record<string, TokenInfo>): Map<string, string> {
+    const index = new Map<string, string>();
+    for (const token of Object.values(tokens)) {
+        index.set(normalizeAddress(token.address), token.symbol);
+    }
+    for (const ton of [PTON_V1_ADDRESS, PTON_V2_MASTER, STONFI_NATIVE_TON, STONFI_PTON_WALLET]) {
+        index.set(normalizeAddress(ton), 'TON');
+    }
+    return index;
+}
+
 // ============================================================================
 // SINGLETON EXPORT
 // ============================================================================
@@ -0,0 +1,358 @@
+/**
+ * Token Registry
+ *
+ * The tokens the wallet knows about, per network, merged from three sources:
+ * - bundled: the wallet's built-in list (TON_TOKENS on mainnet, TON elsewhere)
+ * - held: jettons the account holds, as listed by the indexer
+ * - imported: jetton masters the user added by address, validated by reading
+ *   get_jetton_data and the metadata from chain
+ *
+ * Each token carries a verification flag. Bundled tokens are verified; the
+ * others take the indexer's whitelist flag, which is stored per network so
+ * imported tokens keep it while not held. Symbols are made unique, as swaps
+ * look tokens up by symbol.
+ */
+
+import { Address } from '@ton/core';
+import type { JettonMasterInfo, NetworkType } from '../types';
+import { TON_TOKENS } from './SwapService';
+import type { TokenInfo } from './SwapService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TokenSource = 'bundled' | 'held' | 'imported';
+
+/**
+ * Token in the merged list
+ */
+export interface RegistryToken extends TokenInfo {
+    source: TokenSource;
+    verified: boolean;
+}
+
+/**
+ * Jetton balance as listed by the indexer (TonApiService.getJettons)
+ */
+export interface HeldJetton {
+    jetton: {
+        address: string;
+        symbol?: string;
+        name?: string;
+        decimals?: number;
+        image?: string;
+        verification?: string;  // 'whitelist', 'blacklist' or 'none'
+    };
+}
+
+/**
+ * Reads jetton masters from chain (WalletFacade.getJettonInfo)
+ */
+export interface JettonInfoSource {
+    getJettonInfo(masterAddress: string): Promise<JettonMasterInfo>;
+}
+
+interface NetworkTokens {
+    imported: TokenInfo[];
+    verified: Record<string, boolean>; // By raw master address
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'token_registry';
+
+/**
+ * Built-in tokens; the bundled jetton addresses are mainnet ones
+ */
+const BUNDLED_TOKENS: Record<NetworkType, TokenInfo[]> = {
+    mainnet: Object.values(TON_TOKENS),
+    testnet: [TON_TOKENS.TON],
+};
+
+// ============================================================================
+// TOKEN REGISTRY STORE
+// ============================================================================
+
+/**
+ * Token Registry Store
+ */
+export class TokenRegistryStore {
+    private networks: Partial<Record<NetworkType, NetworkTokens>>;
+
+    constructor() {
+        this.networks = this.load();
+    }
+
+    /**
+     * Load imports and flags from storage
+     */
+    private load(): Partial<Record<NetworkType, NetworkTokens>> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved);
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load token registry:', error);
+        }
+        return {};
+    }
+
+    /**
+     * Save imports and flags to storage
+     */
+    private save(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.networks));
+            }
+        } catch (error) {
+            console.warn('Failed to save token registry:', error);
+        }
+    }
+
+    /**
+     * Get (and create) a network's record
+     */
+    private entry(network: NetworkType): NetworkTokens {
+        return this.networks[network] ??= { imported: [], verified: {} };
+    }
+
+    /**
+     * Get the jettons imported on a network, oldest first
+     */
+    getImported(network: NetworkType): TokenInfo[] {
+        return [...(this.networks[network]?.imported || [])];
+    }
+
+    /**
+     * Add an imported jetton, replacing an earlier import of the same master
+     */
+    addImported(network: NetworkType, token: TokenInfo): void {
+        const entry = this.entry(network);
+        entry.imported = entry.imported.filter(t => rawAddress(t.address) !== rawAddress(token.address));
+        entry.imported.push(token);
+        this.save();
+    }
+
+    /**
+     * Remove an imported jetton
+     */
+    removeImported(network: NetworkType, address: string): void {
+        const entry = this.entry(network);
+        entry.imported = entry.imported.filter(t => rawAddress(t.address) !== rawAddress(address));
+        this.save();
+    }
+
+    /**
+     * Get a network's verification flags by raw master address
+     */
+    getVerified(network: NetworkType): Record<string, boolean> {
+        return { ...(this.networks[network]?.verified || {}) };
+    }
+
+    /**
+     * Merge verification flags; saves only when one changed
+     */
+    setVerified(network: NetworkType, flags: Record<string, boolean>): void {
+        const entry = this.entry(network);
+        const changed = Object.entries(flags).filter(([address, verified]) => entry.verified[address] !== verified);
+        if (changed.length === 0) return;
+
+        for (const [address, verified] of changed) {
+            entry.verified[address] = verified;
+        }
+        this.save();
+    }
+}
+
+// ============================================================================
+// TOKEN REGISTRY
+// ============================================================================
+
+/**
+ * Token Registry
+ */
+export class TokenRegistry {
+    private readonly store: TokenRegistryStore;
+    private readonly sources: Partial<Record<NetworkType, JettonInfoSource>>;
+    private held: Partial<Record<NetworkType, TokenInfo[]>>;
+
+    constructor(options: { store?: TokenRegistryStore; sources?: Partial<Record<NetworkType, JettonInfoSource>> } = {}) {
+        this.store = options.store ?? new TokenRegistryStore();
+        this.sources = options.sources ?? {};
+        this.held = {};
+    }
+
+    /**
+     * Replace the held jettons of a network from the indexer's balances.
+     * Jettons it flags as scams are left out.
+     */
+    setHeldJettons(network: NetworkType, jettons: HeldJetton[]): void {
+        const flags: Record<string, boolean> = {};
+        const held: TokenInfo[] = [];
+
+        for (const { jetton } of jettons) {
+            if (!jetton?.address || jetton.verification === 'blacklist') continue;
+
+            const address = friendlyAddress(jetton.address, network);
+            const symbol = jetton.symbol?.trim() || 'TOKEN';
+            flags[rawAddress(address)] = jetton.verification === 'whitelist';
+            held.push({
+                symbol,
+                name: jetton.name?.trim() || symbol,
+                address,
+                decimals: jetton.decimals ?? 9,
+                icon: jetton.image ?? '',
+            });
+        }
+
+        this.held[network] = held;
+        this.store.setVerified(network, flags);
+    }
+
+    /**
+     * Get the merged list: bundled, then held, then imported. A master listed
+     * by several sources appears once, from the first.
+     */
+    getTokens(network: NetworkType): RegistryToken[] {
+        const flags = this.store.getVerified(network);
+        const seen = new Set<string>();
+        const symbols = new Set<string>();
+        const tokens: RegistryToken[] = [];
+
+        const add = (token: TokenInfo, source: TokenSource) => {
+            const key = rawAddress(token.address);
+            if (seen.has(key)) return;
+            seen.add(key);
+
+            const symbol = uniqueSymbol(token, symbols);
+            symbols.add(symbol.toUpperCase());
+            tokens.push({
+                ...token,
+                symbol,
+                source,
+                verified: source === 'bundled' || flags[key] === true,
+            });
+        };
+
+        BUNDLED_TOKENS[network].forEach(token => add(token, 'bundled'));
+        (this.held[network] || []).forEach(token => add(token, 'held'));
+        this.store.getImported(network).forEach(token => add(token, 'imported'));
+        return tokens;
+    }
+
+    /**
+     * Find a token by master address (any format; 'native' for TON)
+     */
+    findToken(network: NetworkType, address: string): RegistryToken | null {
+        const key = rawAddress(address);
+        return this.getTokens(network).find(token => rawAddress(token.address) === key) ?? null;
+    }
+
+    /**
+     * Read a jetton master from chain and return it as it would be imported,
+     * without saving it
+     */
+    async validateJetton(network: NetworkType, masterAddress: string): Promise<RegistryToken> {
+        const source = this.sources[network];
+        if (!source) {
+            throw new Error(`Jetton import is not available on ${network}`);
+        }
+
+        let address: string;
+        try {
+            address = friendlyAddress(masterAddress.trim(), network);
+        } catch {
+            throw new Error('Invalid jetton master address');
+        }
+
+        const existing = this.findToken(network, address);
+        if (existing && existing.source !== 'held') {
+            throw new Error(`${existing.symbol} is already in your token list`);
+        }
+
+        const info = await source.getJettonInfo(address);
+        return {
+            symbol: info.symbol,
+            name: info.name,
+            address,
+            decimals: info.decimals,
+            icon: info.image ?? '',
+            source: 'imported',
+            verified: this.store.getVerified(network)[rawAddress(address)] === true,
+        };
+    }
+
+    /**
+     * Validate a jetton master from chain and add it to the network's list
+     */
+    async importJetton(network: NetworkType, masterAddress: string): Promise<RegistryToken> {
+        const token = await this.validateJetton(network, masterAddress);
+        const { source, verified, ...info } = token;
+        this.store.addImported(network, info);
+        return this.findToken(network, token.address) ?? token;
+    }
+
+    /**
+     * Remove an imported jetton; bundled and held ones cannot be removed
+     */
+    removeImported(network: NetworkType, address: string): void {
+        this.store.removeImported(network, address);
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Raw form of a master address for lookups ('native' and unparsable
+ * addresses stay as they are)
+ */
+function rawAddress(address: string): string {
+    if (address === 'native') return address;
+    try {
+        return Address.parse(address).toRawString();
+    } catch {
+        return address;
+    }
+}
+
+/**
+ * Whether two master addresses, in any format, are the same token
+ */
+export function sameTokenAddress(a: string, b: string): boolean {
+    return rawAddress(a) === rawAddress(b);
+}
+
+/**
+ * User-friendly bounceable form of a master address on a network
+ */
+function friendlyAddress(address: string, network: NetworkType): string {
+    return Address.parse(address).toString({ bounceable: true, testOnly: network === 'testnet' });
+}
+
+/**
+ * The token's symbol, suffixed with the end of its address when another
+ * token already uses it (symbols are compared case-insensitively)
+ */
+function uniqueSymbol(token: TokenInfo, taken: Set<string>): string {
+    if (!taken.has(token.symbol.toUpperCase())) return token.symbol;
+    return `${token.symbol}-${token.address.slice(-4)}`;
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export function createTokenRegistry(options: { store?: TokenRegistryStore; sources?: Partial<Record<NetworkType, JettonInfoSource>> } = {}): TokenRegistry {
+    return new TokenRegistry(options);
+}
+
+export default TokenRegistry;
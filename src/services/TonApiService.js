@@ -10,10 +10,21 @@
  * - Structured error handling
  */
 
-import { Address } from '@ton/core';
 import { retryService } from './ApiRequestManager.js';
 import { metrics } from './MetricsService.js';
 import { errorHandler } from './ErrorHandler.js';
+import { parseAccountEvents, parseAccountEventsPage } from '../network/TonApiEvents';
+
+/**
+ * TonAPI contract interfaces of the wallet versions this app supports
+ */
+const WALLET_INTERFACES = {
+    wallet_v3r1: 'v3r1',
+    wallet_v3r2: 'v3r2',
+    wallet_v4r2: 'v4r2',
+    wallet_v5r1: 'v5r1',
+    wallet_highload_v3r1: 'highload-v3',
+};
 
 export class TonApiService {
     constructor() {
@@ -110,6 +121,29 @@ export class TonApiService {
         }
     }
 
+    /**
+     * Fetch historical prices of TON ('ton') or a jetton (its master address)
+     * between two Unix times, as [timestamp, price] points, oldest first
+     */
+    async getRateChart(token, currency = 'usd', startDate, endDate) {
+        try {
+            const endpoint = this.getEndpoint(false); // Rates are on mainnet only
+            const response = await this._fetch(
+                `${endpoint}/rates/chart?token=${encodeURIComponent(token)}&currency=${encodeURIComponent(currency)}` +
+                `&start_date=${startDate}&end_date=${endDate}&points_count=200`
+            );
+            if (!response.ok) return [];
+
+            const data = await response.json();
+            return (data.points || [])
+                .map(([timestamp, price]) => [Number(timestamp), Number(price)])
+                .sort((a, b) => a[0] - b[0]);
+        } catch (error) {
+            console.error('Error fetching rate chart:', error);
+            return [];
+        }
+    }
+
     /**
      * Fetch rates for TON and USDT
      */
@@ -183,38 +217,14 @@ export class TonApiService {
     }
 
     /**
-     * Fetch transactions for address
+     * Fetch transactions for address, optionally before a logical time.
+     * Items are plain objects (amounts as numbers, jetton as its symbol);
+     * getTransactionPage returns the typed history items.
      */
-    async getTransactions(address, testnet = false, limit = 20) {
+    async getTransactions(address, testnet = false, limit = 20, beforeLt = undefined) {
         try {
-            const endpoint = this.getEndpoint(testnet);
-
-            // First, get the raw address from account info
-            const accountResponse = await this._fetch(`${endpoint}/accounts/${encodeURIComponent(address)}`);
-            let myRawAddress = null;
-
-            if (accountResponse.ok) {
-                const accountData = await accountResponse.json();
-                myRawAddress = accountData.address; // This is in raw format 0:xxx
-            }
-
-            // Fetch events
-            const response = await this._fetch(
-                `${endpoint}/accounts/${encodeURIComponent(address)}/events?limit=${limit}`
-            );
-
-            if (!response.ok) {
-                if (response.status === 404) {
-                    return [];
-                }
-                throw new Error(`HTTP ${response.status}`);
-            }
-
-            const data = await response.json();
-
-            // Parse events into transactions using raw address for comparison
-            return this._parseEvents(data.events || [], myRawAddress || address, testnet);
-
+            const page = await this.getTransactionPage(address, testnet, limit, beforeLt);
+            return this._toLegacyItems(page.items);
         } catch (error) {
             console.error('Error fetching transactions:', error);
             return [];
@@ -222,152 +232,73 @@ export class TonApiService {
     }
 
     /**
-     * Extract the hash part of a raw address (after the colon)
+     * Fetch a page of typed history items, newest first, before a logical time.
+     * `nextBeforeLt` reads the next (older) page and is null at the start of history.
      */
-    _extractHash(address) {
-        if (!address) return '';
-
-        // If it's raw format like "0:abc123def..."
-        if (address.includes(':')) {
-            return address.split(':')[1]?.toLowerCase() || '';
-        }
+    async getTransactionPage(address, testnet = false, limit = 20, beforeLt = undefined) {
+        const endpoint = this.getEndpoint(testnet);
 
-        return address.toLowerCase();
-    }
+        // First, get the raw address from account info
+        const accountResponse = await this._fetch(`${endpoint}/accounts/${encodeURIComponent(address)}`);
+        let myRawAddress = null;
 
-    /**
-     * Convert raw address (0:xxx) to user-friendly format using @ton/core
-     */
-    _toUserFriendlyAddress(rawAddress, nameHint = null, testnet = false) {
-        // If we have a domain name, use it
-        if (nameHint) {
-            return nameHint;
+        if (accountResponse.ok) {
+            const accountData = await accountResponse.json();
+            myRawAddress = accountData.address; // This is in raw format 0:xxx
         }
 
-        if (!rawAddress) return 'Unknown';
+        // Fetch events
+        const cursor = beforeLt ? `&before_lt=${encodeURIComponent(beforeLt)}` : '';
+        const response = await this._fetch(
+            `${endpoint}/accounts/${encodeURIComponent(address)}/events?limit=${limit}${cursor}`
+        );
 
-        // If already in friendly format
-        if (rawAddress.startsWith('UQ') || rawAddress.startsWith('EQ') ||
-            rawAddress.startsWith('kQ') || rawAddress.startsWith('0Q')) {
-            return rawAddress;
-        }
-
-        try {
-            // Parse raw address and convert to user-friendly format
-            // Raw format is "0:hexstring" or "-1:hexstring"
-            if (rawAddress.includes(':')) {
-                const address = Address.parseRaw(rawAddress);
-                // Convert to user-friendly format (non-bounceable for wallets)
-                return address.toString({ bounceable: false, testOnly: testnet });
+        if (!response.ok) {
+            if (response.status === 404) {
+                return { items: [], nextBeforeLt: null };
             }
-        } catch (e) {
-            console.warn('Could not convert address:', rawAddress, e);
+            throw new Error(`HTTP ${response.status}`);
         }
 
-        // Fallback: show shortened hex
-        if (rawAddress.includes(':')) {
-            const hash = rawAddress.split(':')[1] || '';
-            if (hash.length > 12) {
-                return `${hash.slice(0, 6)}...${hash.slice(-6)}`;
-            }
-        }
+        const data = await response.json();
 
-        return rawAddress;
+        // Parse events using the raw address for direction
+        return parseAccountEventsPage(data, myRawAddress || address, testnet ? 'testnet' : 'mainnet');
     }
 
     /**
      * Parse TonAPI events into transaction objects
      */
     _parseEvents(events, myRawAddress, testnet = false) {
-        const transactions = [];
-        const myHash = this._extractHash(myRawAddress);
-
-        console.log('Parsing events for raw address:', myRawAddress);
-        console.log('My address hash:', myHash);
-
-        for (const event of events) {
-            const actions = event.actions || [];
-
-            for (const action of actions) {
-                if (action.type === 'TonTransfer') {
-                    const transfer = action.TonTransfer;
-
-                    // Get raw addresses for comparison
-                    const senderRaw = transfer.sender?.address;
-                    const recipientRaw = transfer.recipient?.address;
-
-                    // Get domain names if available
-                    const senderName = transfer.sender?.name;
-                    const recipientName = transfer.recipient?.name;
-
-                    // Extract hashes for comparison
-                    const senderHash = this._extractHash(senderRaw);
-                    const recipientHash = this._extractHash(recipientRaw);
-
-                    // Determine direction by comparing hashes
-                    const senderIsMe = senderHash === myHash;
-                    const recipientIsMe = recipientHash === myHash;
-
-                    let type = 'outgoing';
-                    if (recipientIsMe && !senderIsMe) {
-                        type = 'incoming';
-                    } else if (senderIsMe && !recipientIsMe) {
-                        type = 'outgoing';
-                    } else if (senderIsMe && recipientIsMe) {
-                        type = 'outgoing'; // Self transfer
-                    }
-
-                    // Convert to user-friendly display addresses
-                    const fromDisplay = this._toUserFriendlyAddress(senderRaw, senderName, testnet);
-                    const toDisplay = this._toUserFriendlyAddress(recipientRaw, recipientName, testnet);
-
-                    console.log(`Transaction: ${type} | From: ${fromDisplay} | To: ${toDisplay}`);
-
-                    transactions.push({
-                        hash: event.event_id,
-                        type,
-                        amount: parseInt(transfer.amount) || 0,
-                        from: fromDisplay,
-                        to: toDisplay,
-                        fromRaw: senderRaw,
-                        toRaw: recipientRaw,
-                        timestamp: event.timestamp,
-                        comment: transfer.comment || '',
-                    });
-                }
-
-                if (action.type === 'JettonTransfer') {
-                    const transfer = action.JettonTransfer;
-
-                    const senderRaw = transfer.sender?.address;
-                    const recipientRaw = transfer.recipient?.address;
-                    const senderName = transfer.sender?.name;
-                    const recipientName = transfer.recipient?.name;
-
-                    const recipientHash = this._extractHash(recipientRaw);
-                    const recipientIsMe = recipientHash === myHash;
-
-                    const fromDisplay = this._toUserFriendlyAddress(senderRaw, senderName, testnet);
-                    const toDisplay = this._toUserFriendlyAddress(recipientRaw, recipientName, testnet);
-
-                    transactions.push({
-                        hash: event.event_id,
-                        type: recipientIsMe ? 'incoming' : 'outgoing',
-                        amount: parseInt(transfer.amount) || 0,
-                        from: fromDisplay,
-                        to: toDisplay,
-                        fromRaw: senderRaw,
-                        toRaw: recipientRaw,
-                        timestamp: event.timestamp,
-                        jetton: transfer.jetton?.symbol || 'Token',
-                        decimals: transfer.jetton?.decimals || 9,
-                        comment: transfer.comment || '',
-                    });
-                }
-            }
-        }
+        return this._toLegacyItems(parseAccountEvents(events, myRawAddress, testnet ? 'testnet' : 'mainnet'));
+    }
 
-        return transactions;
+    /**
+     * Plain transaction objects of typed history items
+     */
+    _toLegacyItems(items) {
+        return items.map(item => ({
+            hash: item.hash,
+            lt: item.lt,
+            action: item.action,
+            type: item.type,
+            amount: Number(item.amount),
+            rawAmount: item.amount.toString(), // Exact nanotons or jetton units
+            from: item.from,
+            to: item.to,
+            fromRaw: item.fromRaw,
+            toRaw: item.toRaw,
+            timestamp: item.timestamp,
+            comment: item.comment || '',
+            description: item.description,
+            status: item.status,
+            ...(item.jetton ? {
+                jetton: item.jetton.symbol,
+                jettonAddress: item.jetton.address,
+                decimals: item.jetton.decimals,
+            } : {}),
+            ...(item.action === 'nft_transfer' ? { jetton: 'NFT', decimals: 0, nft: item.nft } : {}),
+        }));
     }
 
     /**
@@ -390,6 +321,40 @@ export class TonApiService {
         }
     }
 
+    /**
+     * Get wallet version and public key of an account, for watch-only import.
+     * Fields are null when the account is not a known wallet or not deployed.
+     */
+    async getWalletDetails(address, testnet = false) {
+        const details = { status: 'nonexist', version: null, publicKey: null };
+        try {
+            const endpoint = this.getEndpoint(testnet);
+            const response = await this._fetch(`${endpoint}/accounts/${encodeURIComponent(address)}`);
+            if (!response.ok) {
+                return details;
+            }
+
+            const account = await response.json();
+            details.status = account.status || 'nonexist';
+            details.version = (account.interfaces || [])
+                .map(name => WALLET_INTERFACES[name])
+                .find(Boolean) || null;
+
+            if (details.status === 'active') {
+                const keyResponse = await this._fetch(`${endpoint}/accounts/${encodeURIComponent(address)}/publickey`);
+                if (keyResponse.ok) {
+                    const data = await keyResponse.json();
+                    details.publicKey = /^[0-9a-f]{64}$/i.test(data.public_key || '') ? data.public_key.toLowerCase() : null;
+                }
+            }
+
+            return details;
+        } catch (error) {
+            console.error('Error fetching wallet details:', error);
+            return details;
+        }
+    }
+
     /**
      * Get jetton balances
      */
@@ -0,0 +1,304 @@
+/**
+ * Transaction History
+ *
+ * Full account history read page by page from TonAPI (`before_lt` cursors)
+ * and cached per account and network in IndexedDB, so the activity list
+ * opens from the cache and only new events are fetched.
+ *
+ * A refresh reads the newest pages until it reaches an event already cached
+ * and merges them in front; events are replaced whole by their id, so one
+ * that was still in progress is updated. When more events arrived than a
+ * refresh reads, the older cached tail is dropped and paging resumes after
+ * the new pages. Loading more appends the page before the oldest cached
+ * event until the start of the account's history.
+ */
+
+import type { NetworkType, TransactionHistoryItem, TransactionHistoryPage } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Where pages are read (TonApiService)
+ */
+export interface TransactionHistorySource {
+    getTransactionPage(address: string, testnet?: boolean, limit?: number, beforeLt?: string): Promise<TransactionHistoryPage>;
+}
+
+/**
+ * Cached history of one account on one network
+ */
+export interface HistoryCacheEntry {
+    items: TransactionHistoryItem[];    // Newest first
+    nextBeforeLt: string | null;        // Cursor of the next older page; null when complete
+}
+
+/**
+ * Where history is cached, keyed by `accountId:network`
+ */
+export interface HistoryCache {
+    load(key: string): Promise<HistoryCacheEntry | null>;
+    save(key: string, entry: HistoryCacheEntry): Promise<void>;
+    removeAccount(accountId: string): Promise<void>;
+}
+
+/**
+ * History as shown
+ */
+export interface HistoryView {
+    items: TransactionHistoryItem[];
+    hasMore: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DB_NAME = 'ton_wallet_history';
+const DB_VERSION = 1;
+const DB_STORE = 'histories';
+
+/**
+ * Events per TonAPI page
+ */
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Pages a refresh reads looking for the newest cached event
+ */
+const MAX_REFRESH_PAGES = 4;
+
+// ============================================================================
+// CACHES
+// ============================================================================
+
+/**
+ * History cache in IndexedDB. Entries are stored as JSON with bigints tagged
+ * as { $bigint: '<decimal>' }; a failing database is treated as empty.
+ */
+export class IndexedDbHistoryCache implements HistoryCache {
+    private db: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Open the database once
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    if (!request.result.objectStoreNames.contains(DB_STORE)) {
+                        request.result.createObjectStore(DB_STORE);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            this.db.catch(() => { this.db = null; });
+        }
+        return this.db;
+    }
+
+    /**
+     * Run a request against the store
+     */
+    private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = operation(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async load(key: string): Promise<HistoryCacheEntry | null> {
+        try {
+            const saved = await this.run<string | undefined>('readonly', store => store.get(key));
+            return saved ? decodeEntry(saved) : null;
+        } catch (error) {
+            console.warn('Failed to load transaction history:', error);
+            return null;
+        }
+    }
+
+    async save(key: string, entry: HistoryCacheEntry): Promise<void> {
+        try {
+            await this.run('readwrite', store => store.put(encodeEntry(entry), key));
+        } catch (error) {
+            console.warn('Failed to save transaction history:', error);
+        }
+    }
+
+    async removeAccount(accountId: string): Promise<void> {
+        try {
+            await this.run('readwrite', store => store.delete(IDBKeyRange.bound(`${accountId}:`, `${accountId}:\uffff`)));
+        } catch (error) {
+            console.warn('Failed to remove transaction history:', error);
+        }
+    }
+}
+
+/**
+ * History cache in memory, where IndexedDB is unavailable
+ */
+export class MemoryHistoryCache implements HistoryCache {
+    private readonly entries = new Map<string, string>();
+
+    async load(key: string): Promise<HistoryCacheEntry | null> {
+        const saved = this.entries.get(key);
+        return saved ? decodeEntry(saved) : null;
+    }
+
+    async save(key: string, entry: HistoryCacheEntry): Promise<void> {
+        this.entries.set(key, encodeEntry(entry));
+    }
+
+    async removeAccount(accountId: string): Promise<void> {
+        for (const key of [...this.entries.keys()]) {
+            if (key.startsWith(`${accountId}:`)) this.entries.delete(key);
+        }
+    }
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+/**
+ * Transaction History
+ */
+export class TransactionHistory {
+    private readonly source: TransactionHistorySource;
+    private readonly cache: HistoryCache;
+    private readonly pageSize: number;
+
+    constructor(options: { source: TransactionHistorySource; cache?: HistoryCache; pageSize?: number }) {
+        this.source = options.source;
+        this.cache = options.cache ?? (typeof indexedDB !== 'undefined' ? new IndexedDbHistoryCache() : new MemoryHistoryCache());
+        this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+    }
+
+    /**
+     * Cached history, without reading TonAPI
+     */
+    async getCached(accountId: string, network: NetworkType): Promise<HistoryView> {
+        return toView(await this.cache.load(cacheKey(accountId, network)));
+    }
+
+    /**
+     * Read new events and merge them in front of the cached history
+     */
+    async refresh(accountId: string, address: string, network: NetworkType): Promise<HistoryView> {
+        const key = cacheKey(accountId, network);
+        const cached = await this.cache.load(key);
+        const newest = cached?.items.find(item => item.lt !== undefined)?.lt;
+
+        const fetched: TransactionHistoryItem[] = [];
+        let cursor: string | null = null;
+        let reachedCache = false;
+        for (let page = 0; page < MAX_REFRESH_PAGES; page++) {
+            const result = await this.source.getTransactionPage(address, network === 'testnet', this.pageSize, cursor ?? undefined);
+            fetched.push(...result.items);
+            cursor = result.nextBeforeLt;
+            reachedCache = newest !== undefined && result.items.some(item => item.lt !== undefined && BigInt(item.lt) <= BigInt(newest));
+            if (!cached || reachedCache || !cursor) break;
+        }
+
+        const entry: HistoryCacheEntry = cached && (reachedCache || !cursor)
+            ? { items: mergeItems(fetched, cached.items), nextBeforeLt: cursor ? cached.nextBeforeLt : null }
+            : { items: fetched, nextBeforeLt: cursor };
+        await this.cache.save(key, entry);
+        return toView(entry);
+    }
+
+    /**
+     * Read the page before the oldest cached event
+     */
+    async loadMore(accountId: string, address: string, network: NetworkType): Promise<HistoryView> {
+        const key = cacheKey(accountId, network);
+        const cached = await this.cache.load(key);
+        if (!cached) return this.refresh(accountId, address, network);
+        if (!cached.nextBeforeLt) return toView(cached);
+
+        const page = await this.source.getTransactionPage(address, network === 'testnet', this.pageSize, cached.nextBeforeLt);
+        const entry: HistoryCacheEntry = { items: mergeItems(cached.items, page.items), nextBeforeLt: page.nextBeforeLt };
+        await this.cache.save(key, entry);
+        return toView(entry);
+    }
+
+    /**
+     * Read older pages until the history reaches back to a Unix time (a
+     * statement's start) or to the start of the account's history
+     */
+    async loadSince(accountId: string, address: string, network: NetworkType, since: number): Promise<HistoryView> {
+        let view = await this.getCached(accountId, network);
+        if (view.items.length === 0) view = await this.refresh(accountId, address, network);
+        while (view.hasMore && view.items.length > 0 && view.items[view.items.length - 1].timestamp >= since) {
+            view = await this.loadMore(accountId, address, network);
+        }
+        return view;
+    }
+
+    /**
+     * Forget the cached history of a deleted account
+     */
+    async removeAccount(accountId: string): Promise<void> {
+        await this.cache.removeAccount(accountId);
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function cacheKey(accountId: string, network: NetworkType): string {
+    return `${accountId}:${network}`;
+}
+
+function toView(entry: HistoryCacheEntry | null): HistoryView {
+    return { items: entry?.items ?? [], hasMore: entry ? entry.nextBeforeLt !== null : true };
+}
+
+/**
+ * Merge two runs of history, newest first; events in `newer` replace the
+ * same events in `older`
+ */
+function mergeItems(newer: TransactionHistoryItem[], older: TransactionHistoryItem[]): TransactionHistoryItem[] {
+    const replaced = new Set(newer.map(item => item.hash));
+    return [...newer, ...older.filter(item => !replaced.has(item.hash))]
+        .sort((a, b) => b.timestamp - a.timestamp || compareLt(b.lt, a.lt));
+}
+
+function compareLt(a?: string, b?: string): number {
+    if (a === undefined || b === undefined) return 0;
+    const diff = BigInt(a) - BigInt(b);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+}
+
+function encodeEntry(entry: HistoryCacheEntry): string {
+    return JSON.stringify(entry, (_key, value) =>
+        typeof value === 'bigint' ? { $bigint: value.toString() } : value
+    );
+}
+
+function decodeEntry(saved: string): HistoryCacheEntry {
+    return JSON.parse(saved, (_key, value) =>
+        value && typeof value === 'object' && typeof value.$bigint === 'string'
+            ? BigInt(value.$bigint)
+            : value
+    );
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Create transaction history
+ */
+export function createTransactionHistory(options: { source: TransactionHistorySource; cache?: HistoryCache; pageSize?: number }): TransactionHistory {
+    return new TransactionHistory(options);
+}
+
+export default TransactionHistory;
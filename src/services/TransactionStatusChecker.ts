@@ -0,0 +1,230 @@
+/**
+ * Transaction Status Checker
+ *
+ * Resolves the on-chain outcome of a sent transaction.
+ * Standard wallets are matched by the hash of the external message,
+ * Highload V3 wallets by `processed?(query_id)` first, since the
+ * contract knows about a query before the indexer does.
+ */
+
+import { Address } from '@ton/core';
+import type {
+    ChainTrace,
+    ChainTransaction,
+    NetworkType,
+    WalletVersion
+} from '../types';
+import { DEFAULT_CONFIG } from '../types';
+import { RpcClient, TonApiClient } from '../network';
+import { HighloadWalletV3, HighloadQueryId } from '../wallets/highload-v3';
+
+/**
+ * Time after which an external message that never landed is considered dropped
+ */
+const EXTERNAL_MESSAGE_TTL = 10 * 60 * 1000;
+
+/**
+ * Status of a tracked transaction
+ */
+export type TrackedStatus = 'pending' | 'confirming' | 'confirmed' | 'bounced' | 'failed' | 'expired';
+
+/**
+ * Tracked send to check
+ */
+export interface TrackedSend {
+    hash?: string;
+    queryId?: string;
+    walletAddress?: string;
+    walletVersion?: WalletVersion;
+    createdAt: number;
+}
+
+/**
+ * Result of a status check
+ */
+export interface StatusCheckResult {
+    status: TrackedStatus;
+    txHash?: string;
+    lt?: string;
+    computeExitCode?: number;
+    actionResultCode?: number;
+    error?: string;
+}
+
+/**
+ * Status checker configuration
+ */
+export interface TransactionStatusCheckerConfig {
+    rpcClient?: RpcClient;
+    tonApiClient?: TonApiClient;
+    highloadTimeout?: number;
+}
+
+/**
+ * Transaction Status Checker
+ */
+export class TransactionStatusChecker {
+    private readonly rpcClient: RpcClient;
+    private readonly tonApiClient: TonApiClient;
+    private readonly highloadTimeout: number;
+
+    constructor(network: NetworkType = 'mainnet', config: TransactionStatusCheckerConfig = {}) {
+        this.rpcClient = config.rpcClient ?? new RpcClient({ network });
+        this.tonApiClient = config.tonApiClient ?? new TonApiClient(network);
+        this.highloadTimeout = config.highloadTimeout ?? DEFAULT_CONFIG.HIGHLOAD_TIMEOUT;
+    }
+
+    /**
+     * Check the current on-chain status of a tracked send
+     */
+    async check(tx: TrackedSend): Promise<StatusCheckResult> {
+        const age = Date.now() - tx.createdAt;
+
+        if (tx.walletVersion === 'highload-v3' && tx.queryId !== undefined && tx.walletAddress) {
+            const processed = await this.isQueryProcessed(tx.walletAddress, BigInt(tx.queryId));
+            if (!processed) {
+                return { status: age > this.highloadTimeout * 1000 ? 'expired' : 'pending' };
+            }
+            if (!tx.hash) {
+                return { status: 'confirmed' };
+            }
+            return (await this.checkMessage(tx.hash)) ?? { status: 'confirming' };
+        }
+
+        if (tx.hash) {
+            const result = await this.checkMessage(tx.hash);
+            if (result) {
+                return result;
+            }
+        }
+
+        return { status: age > EXTERNAL_MESSAGE_TTL ? 'expired' : 'pending' };
+    }
+
+    /**
+     * Check the transaction created by an external message.
+     * Returns null while the message has not been processed.
+     */
+    async checkMessage(messageHash: string): Promise<StatusCheckResult | null> {
+        const transaction = await this.tonApiClient.getTransactionByMessageHash(messageHash);
+        if (!transaction) {
+            return null;
+        }
+
+        if (isFailed(transaction)) {
+            return toResult('failed', transaction);
+        }
+
+        const trace = await this.tonApiClient.getTrace(transaction.hash);
+        if (!trace) {
+            return toResult('confirming', transaction);
+        }
+
+        return evaluateTrace(trace);
+    }
+
+    /**
+     * Check if a Highload V3 query ID has been processed
+     */
+    async isQueryProcessed(walletAddress: string, queryId: bigint): Promise<boolean> {
+        try {
+            const client = this.rpcClient.getClient();
+            const wallet = HighloadWalletV3.createFromAddress(Address.parse(walletAddress));
+            return await wallet.getProcessed(
+                client.provider(wallet.address),
+                HighloadQueryId.fromQueryId(queryId),
+                false
+            );
+        } catch {
+            return false;
+        }
+    }
+}
+
+/**
+ * Evaluate the wallet transaction and the deliveries of its out messages
+ */
+function evaluateTrace(trace: ChainTrace): StatusCheckResult {
+    const root = trace.transaction;
+
+    // Highload V3 performs its actions in an internal_transfer to itself
+    let node = trace;
+    const self = trace.children.find(child => child.transaction.account === root.account);
+    if (self) {
+        if (isFailed(self.transaction)) {
+            return toResult('failed', root, self.transaction);
+        }
+        node = self;
+    }
+
+    for (const message of node.transaction.outMessages) {
+        // External out messages (logs) have no destination transaction
+        if (!message.destination) continue;
+
+        const delivery = node.children.find(child => child.transaction.inMessage?.hash === message.hash);
+        if (!delivery) {
+            return toResult('confirming', root);
+        }
+        if (message.bounce && isFailed(delivery.transaction)) {
+            return toResult('bounced', root, delivery.transaction);
+        }
+    }
+
+    return toResult('confirmed', root);
+}
+
+/**
+ * Check if a transaction failed in the compute or action phase
+ */
+function isFailed(transaction: ChainTransaction): boolean {
+    return !transaction.success || transaction.aborted;
+}
+
+/**
+ * Build a check result for the wallet transaction, with the exit codes
+ * of the transaction that decided the outcome
+ */
+function toResult(
+    status: TrackedStatus,
+    root: ChainTransaction,
+    source: ChainTransaction = root
+): StatusCheckResult {
+    const result: StatusCheckResult = {
+        status,
+        txHash: root.hash,
+        lt: root.lt,
+        computeExitCode: source.computeExitCode,
+        actionResultCode: source.actionResultCode,
+    };
+
+    if (status === 'failed' || status === 'bounced') {
+        result.error = describeFailure(source);
+    }
+
+    return result;
+}
+
+/**
+ * Describe which phase of a transaction failed
+ */
+function describeFailure(transaction: ChainTransaction): string {
+    if (transaction.computeExitCode !== undefined && transaction.computeExitCode !== 0 && transaction.computeExitCode !== 1) {
+        return `Compute phase failed with exit code ${transaction.computeExitCode}`;
+    }
+    if (transaction.actionResultCode !== undefined && transaction.actionResultCode !== 0) {
+        return `Action phase failed with result code ${transaction.actionResultCode}`;
+    }
+    return 'Transaction aborted';
+}
+
+/**
+ * Create transaction status checker
+ */
+export function createTransactionStatusChecker(
+    network: NetworkType = 'mainnet',
+    config: TransactionStatusCheckerConfig = {}
+): TransactionStatusChecker {
+    return new TransactionStatusChecker(network, config);
+}
+
+export default TransactionStatusChecker;
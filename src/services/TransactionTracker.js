@@ -11,8 +11,14 @@
  * - Emit events for UI updates (callback-style)
  * - Persistent storage to survive page refresh
  * - Automatic cleanup of old transactions
+ * - On-chain outcome (confirmed / bounced / failed) with exit codes
  */
 
+import { TransactionStatusChecker } from './TransactionStatusChecker.ts';
+import { RpcClient } from '../network/RpcClient.ts';
+import { TonApiClient } from '../network/TonApiClient.ts';
+import { metrics } from './MetricsService.js';
+
 /**
  * Transaction status enum
  */
@@ -20,6 +26,7 @@ export const TransactionStatus = {
     PENDING: 'pending',
     CONFIRMING: 'confirming',
     CONFIRMED: 'confirmed',
+    BOUNCED: 'bounced',
     FAILED: 'failed',
     EXPIRED: 'expired',
 };
@@ -45,6 +52,8 @@ export class TransactionTracker {
         this.maxAge = options.maxAge || 24 * 60 * 60 * 1000; // 24 hours
         this.confirmationBlocks = options.confirmationBlocks || 1;
         this.storageKey = 'ton_wallet_pending_txs';
+        this.createChecker = options.createChecker || createDefaultChecker;
+        this.checkers = new Map();
 
         // Load persisted transactions
         this._loadFromStorage();
@@ -61,12 +70,14 @@ export class TransactionTracker {
      * @returns {string} - Transaction tracking ID
      */
     track(tx) {
-        const trackingId = tx.hash || tx.queryId || this._generateId();
+        // Query IDs are bigint on the typed side, stored as string for JSON
+        const queryId = tx.queryId !== undefined && tx.queryId !== null ? tx.queryId.toString() : undefined;
+        const trackingId = tx.hash || queryId || this._generateId();
 
         const trackedTx = {
             id: trackingId,
             hash: tx.hash,
-            queryId: tx.queryId,
+            queryId,
             type: tx.type || 'transfer',
             amount: tx.amount,
             recipient: tx.recipient,
@@ -76,6 +87,7 @@ export class TransactionTracker {
             updatedAt: Date.now(),
             confirmations: 0,
             walletAddress: tx.walletAddress,
+            walletVersion: tx.walletVersion,
             network: tx.network || 'mainnet',
             retryCount: 0,
             error: null,
@@ -84,6 +96,7 @@ export class TransactionTracker {
         this.transactions.set(trackingId, trackedTx);
         this._saveToStorage();
         this._startPolling();
+        metrics.setPendingTransactions(this.getPending().length);
 
         console.log(`[TransactionTracker] Tracking transaction: ${trackingId}`);
 
@@ -167,11 +180,16 @@ export class TransactionTracker {
 
             if (status === TransactionStatus.CONFIRMED) {
                 this._emit(TransactionEvent.CONFIRMED, tx);
-            } else if (status === TransactionStatus.FAILED) {
+            } else if (status === TransactionStatus.FAILED || status === TransactionStatus.BOUNCED) {
                 this._emit(TransactionEvent.FAILED, tx);
             } else if (status === TransactionStatus.EXPIRED) {
                 this._emit(TransactionEvent.EXPIRED, tx);
             }
+
+            if (isFinal(status) && !isFinal(oldStatus)) {
+                metrics.recordTransaction(status);
+            }
+            metrics.setPendingTransactions(this.getPending().length);
         }
 
         console.log(`[TransactionTracker] Status updated: ${trackingId} -> ${status}`);
@@ -179,24 +197,21 @@ export class TransactionTracker {
 
     /**
      * Check transaction status on blockchain
-     * This is a placeholder - implement with actual TonAPI calls
+     * Standard wallets are matched by external message hash,
+     * Highload V3 by processed query ID.
      */
     async checkTransactionStatus(tx) {
-        // This would typically call TonAPI to check transaction status
-        // For now, we simulate confirmation after some time
-        const age = Date.now() - tx.createdAt;
+        return this._getChecker(tx.network).check(tx);
+    }
 
-        // Expire after 10 minutes of pending
-        if (age > 10 * 60 * 1000 && tx.status === TransactionStatus.PENDING) {
-            return { status: TransactionStatus.EXPIRED };
+    /**
+     * Get status checker for network
+     */
+    _getChecker(network = 'mainnet') {
+        if (!this.checkers.has(network)) {
+            this.checkers.set(network, this.createChecker(network));
         }
-
-        // In real implementation, check blockchain
-        // const tonApi = new TonApiService();
-        // const confirmed = await tonApi.getTransaction(tx.hash);
-        // if (confirmed) return { status: TransactionStatus.CONFIRMED };
-
-        return { status: tx.status };
+        return this.checkers.get(network);
     }
 
     /**
@@ -210,6 +225,10 @@ export class TransactionTracker {
             return;
         }
 
+        // Skip the tick if the previous poll is still waiting on the network
+        if (this.polling) return;
+        this.polling = true;
+
         for (const tx of pending) {
             try {
                 const result = await this.checkTransactionStatus(tx);
@@ -227,6 +246,8 @@ export class TransactionTracker {
             }
         }
 
+        this.polling = false;
+
         // Cleanup old transactions
         this._cleanup();
     }
@@ -270,6 +291,7 @@ export class TransactionTracker {
      * Save to localStorage
      */
     _saveToStorage() {
+        if (typeof localStorage === 'undefined') return;
         try {
             const data = Array.from(this.transactions.entries());
             localStorage.setItem(this.storageKey, JSON.stringify(data));
@@ -282,6 +304,7 @@ export class TransactionTracker {
      * Load from localStorage
      */
     _loadFromStorage() {
+        if (typeof localStorage === 'undefined') return;
         try {
             const data = localStorage.getItem(this.storageKey);
             if (data) {
@@ -340,6 +363,31 @@ export class TransactionTracker {
     }
 }
 
+/**
+ * Check if a status is final (no more polling)
+ */
+function isFinal(status) {
+    return status === TransactionStatus.CONFIRMED ||
+        status === TransactionStatus.BOUNCED ||
+        status === TransactionStatus.FAILED ||
+        status === TransactionStatus.EXPIRED;
+}
+
+/**
+ * Default status checker (API keys from .env)
+ */
+function createDefaultChecker(network) {
+    return new TransactionStatusChecker(network, {
+        rpcClient: new RpcClient({
+            network,
+            apiKey: network === 'testnet' ? undefined : (import.meta.env.VITE_TONCENTER_API_KEY || undefined),
+        }),
+        tonApiClient: new TonApiClient(network, {
+            apiKey: import.meta.env.VITE_TONAPI_KEY || undefined,
+        }),
+    });
+}
+
 // Export singleton instance
 export const transactionTracker = new TransactionTracker();
 
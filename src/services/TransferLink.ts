@@ -0,0 +1,223 @@
+/**
+ * Transfer Links
+ *
+ * Builds and parses payment requests as `ton://transfer/<address>` deep
+ * links and as Tonkeeper universal links
+ * (https://app.tonkeeper.com/transfer/<address>). Query parameters:
+ * `amount` in the asset's smallest units (nanotons, or jetton units when
+ * `jetton` names the jetton master), `text` comment, `bin` message body
+ * as a base64url BOC, and `exp` expiry as a unix time in seconds.
+ */
+
+import { Buffer } from 'buffer';
+import { Address, Cell } from '@ton/core';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Payment request carried by a transfer link
+ */
+export interface TransferRequest {
+    address: string;
+    amount?: bigint;        // Smallest units of the asset
+    jetton?: string;        // Jetton master; TON when absent
+    text?: string;
+    bin?: Cell;             // Message body, instead of a text comment
+    expiresAt?: number;     // Unix time in seconds
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Base of Tonkeeper-compatible universal transfer links
+ */
+export const UNIVERSAL_TRANSFER_URL = 'https://app.tonkeeper.com/transfer/';
+
+/**
+ * Hosts whose https links use the ton://transfer parameters
+ */
+const UNIVERSAL_TRANSFER_HOSTS = ['app.tonkeeper.com', 'tonhub.com'];
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Build a `ton://transfer` deep link
+ */
+export function buildTransferLink(request: TransferRequest): string {
+    return `ton://transfer/${request.address}${buildQuery(request)}`;
+}
+
+/**
+ * Build a universal link that opens Tonkeeper, or the browser without it
+ */
+export function buildUniversalTransferLink(request: TransferRequest): string {
+    return `${UNIVERSAL_TRANSFER_URL}${request.address}${buildQuery(request)}`;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Check whether a string looks like a transfer link, expired or not
+ */
+export function isTransferLink(link: string): boolean {
+    try {
+        return transferPath(new URL(link.trim())) !== null;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse a `ton://transfer`, `tonkeeper://transfer` or universal transfer
+ * link. Raw recipient addresses come back in the friendly form.
+ */
+export function parseTransferLink(link: string, now: number = Date.now()): TransferRequest {
+    let url: URL;
+    try {
+        url = new URL(link.trim());
+    } catch {
+        throw new Error('Not a payment link');
+    }
+
+    const path = transferPath(url);
+    if (path === null) {
+        throw new Error('Not a payment link');
+    }
+
+    const request: TransferRequest = { address: parseRecipient(decodeURIComponent(path)) };
+    const params = url.searchParams;
+
+    const amount = params.get('amount');
+    if (amount !== null) {
+        if (!/^\d+$/.test(amount)) throw new Error('Invalid amount in payment link');
+        request.amount = BigInt(amount);
+    }
+
+    const jetton = params.get('jetton');
+    if (jetton !== null) {
+        try {
+            request.jetton = Address.parse(jetton).toString();
+        } catch {
+            throw new Error('Invalid jetton in payment link');
+        }
+    }
+
+    const text = params.get('text');
+    const bin = params.get('bin');
+    if (text !== null && bin !== null) {
+        throw new Error('A payment link cannot have both text and bin');
+    }
+    if (text !== null) request.text = text;
+    if (bin !== null) request.bin = parseBin(bin);
+
+    const exp = params.get('exp');
+    if (exp !== null) {
+        if (!/^\d+$/.test(exp)) throw new Error('Invalid expiry in payment link');
+        request.expiresAt = Number(exp);
+        if (request.expiresAt * 1000 <= now) throw new Error('Payment link expired');
+    }
+
+    return request;
+}
+
+/**
+ * Comment of a request: its text, or the text comment (op 0) in its body.
+ * Null when the body is some other contract call.
+ */
+export function getTransferComment(request: TransferRequest): string | null {
+    if (!request.bin) return request.text ?? '';
+    try {
+        const body = request.bin.beginParse();
+        if (body.remainingBits < 32 || body.loadUint(32) !== 0) return null;
+        return body.loadStringTail();
+    } catch {
+        return null;
+    }
+}
+
+// ============================================================================
+// AMOUNTS
+// ============================================================================
+
+/**
+ * Decimal amount of smallest units, e.g. 1500000000n with 9 decimals is '1.5'
+ */
+export function formatTransferAmount(amount: bigint, decimals: number): string {
+    const divisor = 10n ** BigInt(decimals);
+    const fraction = (amount % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return fraction ? `${amount / divisor}.${fraction}` : (amount / divisor).toString();
+}
+
+/**
+ * Smallest units of a decimal amount
+ */
+export function parseTransferAmount(amount: string, decimals: number): bigint {
+    const value = amount.trim();
+    if (!/^\d+(\.\d+)?$/.test(value)) throw new Error('Invalid amount');
+
+    const [whole, fraction = ''] = value.split('.');
+    if (fraction.length > decimals) throw new Error(`At most ${decimals} decimals`);
+    return BigInt(whole + fraction.padEnd(decimals, '0'));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function buildQuery(request: TransferRequest): string {
+    if (request.text !== undefined && request.bin) {
+        throw new Error('A payment link cannot have both text and bin');
+    }
+
+    const params: [string, string][] = [];
+    if (request.amount !== undefined) params.push(['amount', request.amount.toString()]);
+    if (request.jetton) params.push(['jetton', request.jetton]);
+    if (request.text) params.push(['text', request.text]);
+    if (request.bin) params.push(['bin', toBase64Url(request.bin.toBoc())]);
+    if (request.expiresAt !== undefined) params.push(['exp', request.expiresAt.toString()]);
+
+    return params.length > 0
+        ? `?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`
+        : '';
+}
+
+/**
+ * Recipient part of a transfer link's path, or null for other links.
+ * Custom schemes parse `transfer` as the host; https links carry it in the path.
+ */
+function transferPath(url: URL): string | null {
+    if (url.protocol === 'ton:' || url.protocol === 'tonkeeper:') {
+        return url.hostname === 'transfer' ? url.pathname.replace(/^\//, '') : null;
+    }
+    if (url.protocol === 'https:' && UNIVERSAL_TRANSFER_HOSTS.includes(url.hostname)) {
+        const match = url.pathname.match(/^\/transfer\/([^/]+)$/);
+        return match ? match[1] : null;
+    }
+    return null;
+}
+
+function parseRecipient(address: string): string {
+    if (Address.isFriendly(address)) return address;
+    if (Address.isRaw(address)) return Address.parseRaw(address).toString();
+    throw new Error('Invalid address in payment link');
+}
+
+function parseBin(bin: string): Cell {
+    try {
+        return Cell.fromBoc(Buffer.from(bin.replace(/-/g, '+').replace(/_/g, '/'), 'base64'))[0];
+    } catch {
+        throw new Error('Invalid bin in payment link');
+    }
+}
+
+function toBase64Url(data: Buffer): string {
+    return data.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,116 @@
+/**
+ * Watch-Only Service
+ *
+ * Resolves what the user typed into a watch-only account: a friendly
+ * address, a raw address, or a public key plus wallet version.
+ * Addresses are looked up through TonApiService for the wallet version
+ * and public key. An account keeps its public key only when the key and
+ * version derive exactly its address, which is what lets the cold signer
+ * sign for it; address-only accounts can be watched but never sign.
+ */
+
+import { Buffer } from 'buffer';
+import { Address } from '@ton/core';
+import type { WalletVersion } from '../types';
+import type { WalletFacade } from '../wallets';
+import type { WalletAccount } from './AccountManager';
+
+/**
+ * Wallet details from TonApiService.getWalletDetails
+ */
+export interface WalletDetails {
+    status: string;
+    version: WalletVersion | null;
+    publicKey: string | null;
+}
+
+/**
+ * Lookup used to identify wallets by address (TonApiService)
+ */
+export interface WalletDetailsLookup {
+    getWalletDetails(address: string): Promise<WalletDetails>;
+}
+
+/**
+ * Account data of a resolved watch-only wallet
+ */
+export interface WatchOnlyTarget {
+    address: string;
+    type: WalletVersion | 'unknown';
+    publicKey?: string;
+}
+
+/**
+ * Watch-Only Service
+ */
+export class WatchOnlyService {
+    private readonly walletFacade: WalletFacade;
+    private readonly lookup: WalletDetailsLookup;
+
+    constructor(walletFacade: WalletFacade, lookup: WalletDetailsLookup) {
+        this.walletFacade = walletFacade;
+        this.lookup = lookup;
+    }
+
+    /**
+     * Resolve an address or public key. The version is required for a
+     * public key; for an address it overrides the detected one.
+     */
+    async resolve(input: string, version?: WalletVersion): Promise<WatchOnlyTarget> {
+        const value = input.trim();
+
+        if (/^[0-9a-f]{64}$/i.test(value)) {
+            if (!version) {
+                throw new Error('Choose the wallet version for this public key');
+            }
+            const publicKey = value.toLowerCase();
+            return {
+                address: this.walletFacade.getAddress(Buffer.from(publicKey, 'hex'), version),
+                type: version,
+                publicKey,
+            };
+        }
+
+        if (!Address.isFriendly(value) && !Address.isRaw(value)) {
+            throw new Error('Enter a wallet address or a 64-character public key');
+        }
+
+        const parsed = Address.parse(value);
+        const address = parsed.toString({ bounceable: false });
+        const details = await this.lookup.getWalletDetails(address);
+        const type = version ?? details.version ?? 'unknown';
+
+        return {
+            address,
+            type,
+            publicKey: type !== 'unknown' && details.publicKey && this.derivesAddress(details.publicKey, type, parsed)
+                ? details.publicKey
+                : undefined,
+        };
+    }
+
+    /**
+     * Check if a public key and version derive an address (default subwallet)
+     */
+    private derivesAddress(publicKey: string, version: WalletVersion, address: Address): boolean {
+        const derived = this.walletFacade.getAddress(Buffer.from(publicKey, 'hex'), version);
+        return Address.parse(derived).equals(address);
+    }
+}
+
+/**
+ * Check if an account can sign: seed accounts locally, watch-only accounts
+ * through the cold signer once their public key is known
+ */
+export function canSign(account: WalletAccount): boolean {
+    return !account.watchOnly || !!account.publicKey;
+}
+
+/**
+ * Create watch-only service
+ */
+export function createWatchOnlyService(walletFacade: WalletFacade, lookup: WalletDetailsLookup): WatchOnlyService {
+    return new WatchOnlyService(walletFacade, lookup);
+}
+
+export default WatchOnlyService;
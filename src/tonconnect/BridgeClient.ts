@@ -0,0 +1,231 @@
+/**
+ * TON Connect HTTP Bridge Client
+ *
+ * Talks to a TON Connect HTTP bridge:
+ * - POST /message  to deliver an encrypted message to the dApp
+ * - GET  /events   Server-Sent Events stream with messages addressed to our sessions
+ *
+ * The SSE stream is consumed through fetch so the same client works in the
+ * browser and in Node (tests use a local bridge stub).
+ */
+
+import { Buffer } from 'buffer';
+
+/**
+ * Default public bridge
+ */
+export const DEFAULT_BRIDGE_URL = 'https://bridge.tonapi.io/bridge';
+
+/**
+ * Default message TTL on the bridge (seconds)
+ */
+export const DEFAULT_BRIDGE_TTL = 300;
+
+/**
+ * Message received from the bridge
+ */
+export interface BridgeIncomingMessage {
+    eventId: string | null;
+    from: string;
+    message: Uint8Array;
+}
+
+/**
+ * Bridge listener options
+ */
+export interface BridgeListenOptions {
+    lastEventId?: string | null;
+    onMessage: (message: BridgeIncomingMessage) => void;
+    onError?: (error: Error) => void;
+}
+
+/**
+ * Bridge client configuration
+ */
+export interface BridgeClientConfig {
+    reconnectDelay?: number;
+}
+
+/**
+ * HTTP Bridge Client
+ */
+export class BridgeClient {
+    private readonly bridgeUrl: string;
+    private readonly reconnectDelay: number;
+
+    constructor(bridgeUrl: string = DEFAULT_BRIDGE_URL, config?: BridgeClientConfig) {
+        this.bridgeUrl = bridgeUrl.replace(/\/+$/, '');
+        this.reconnectDelay = config?.reconnectDelay ?? 2000;
+    }
+
+    /**
+     * Get bridge URL
+     */
+    getUrl(): string {
+        return this.bridgeUrl;
+    }
+
+    /**
+     * Send an encrypted message to a dApp client
+     */
+    async send(
+        message: Uint8Array,
+        fromSessionId: string,
+        to: string,
+        ttl: number = DEFAULT_BRIDGE_TTL,
+        topic?: string
+    ): Promise<void> {
+        const params = new URLSearchParams({
+            client_id: fromSessionId,
+            to,
+            ttl: ttl.toString(),
+        });
+        if (topic) {
+            params.set('topic', topic);
+        }
+
+        const response = await fetch(`${this.bridgeUrl}/message?${params.toString()}`, {
+            method: 'POST',
+            body: Buffer.from(message).toString('base64'),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Bridge send failed: HTTP ${response.status}`);
+        }
+    }
+
+    /**
+     * Listen for messages addressed to the given session ids.
+     * Reconnects automatically, resuming from the last received event id.
+     * Returns a function that stops listening.
+     */
+    listen(sessionIds: string[], options: BridgeListenOptions): () => void {
+        const controller = new AbortController();
+        let lastEventId = options.lastEventId ?? null;
+
+        const run = async () => {
+            while (!controller.signal.aborted) {
+                try {
+                    await this.consume(sessionIds, lastEventId, controller.signal, (message) => {
+                        if (message.eventId) {
+                            lastEventId = message.eventId;
+                        }
+                        options.onMessage(message);
+                    });
+                } catch (error) {
+                    if (controller.signal.aborted) {
+                        return;
+                    }
+                    options.onError?.(error instanceof Error ? error : new Error('Unknown error'));
+                }
+
+                if (!controller.signal.aborted) {
+                    await this.sleep(this.reconnectDelay, controller.signal);
+                }
+            }
+        };
+
+        void run();
+
+        return () => controller.abort();
+    }
+
+    /**
+     * Open the SSE stream and dispatch messages until it closes
+     */
+    private async consume(
+        sessionIds: string[],
+        lastEventId: string | null,
+        signal: AbortSignal,
+        onMessage: (message: BridgeIncomingMessage) => void
+    ): Promise<void> {
+        const params = new URLSearchParams({ client_id: sessionIds.join(',') });
+        if (lastEventId) {
+            params.set('last_event_id', lastEventId);
+        }
+
+        const response = await fetch(`${this.bridgeUrl}/events?${params.toString()}`, {
+            headers: { Accept: 'text/event-stream' },
+            signal,
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error(`Bridge listen failed: HTTP ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                return;
+            }
+
+            buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+            let separator = buffer.indexOf('\n\n');
+            while (separator !== -1) {
+                const frame = buffer.slice(0, separator);
+                buffer = buffer.slice(separator + 2);
+
+                const message = this.parseFrame(frame);
+                if (message) {
+                    onMessage(message);
+                }
+
+                separator = buffer.indexOf('\n\n');
+            }
+        }
+    }
+
+    /**
+     * Parse a single SSE frame; heartbeats and malformed frames are ignored
+     */
+    private parseFrame(frame: string): BridgeIncomingMessage | null {
+        let eventId: string | null = null;
+        let eventType = 'message';
+        const data: string[] = [];
+
+        for (const line of frame.split('\n')) {
+            if (line.startsWith('id:')) {
+                eventId = line.slice(3).trim();
+            } else if (line.startsWith('event:')) {
+                eventType = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+                data.push(line.slice(5).trim());
+            }
+        }
+
+        if (eventType !== 'message' || data.length === 0) {
+            return null;
+        }
+
+        try {
+            const payload = JSON.parse(data.join('\n')) as { from: string; message: string };
+            return {
+                eventId,
+                from: payload.from,
+                message: new Uint8Array(Buffer.from(payload.message, 'base64')),
+            };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Abortable sleep helper
+     */
+    private sleep(ms: number, signal: AbortSignal): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(resolve, ms);
+            signal.addEventListener('abort', () => {
+                clearTimeout(timer);
+                resolve();
+            }, { once: true });
+        });
+    }
+}
+
+export default BridgeClient;
@@ -0,0 +1,130 @@
+/**
+ * TON Connect Link Parser
+ *
+ * Parses TON Connect 2.0 connect requests delivered as `tc://` deep links
+ * or as wallet universal links (e.g. https://app.tonkeeper.com/ton-connect?...).
+ */
+
+/**
+ * TON Connect protocol version supported by this wallet
+ */
+export const TON_CONNECT_PROTOCOL_VERSION = 2;
+
+/**
+ * Connect request item: wallet address
+ */
+export interface TonAddressItem {
+    name: 'ton_addr';
+}
+
+/**
+ * Connect request item: ownership proof
+ */
+export interface TonProofItem {
+    name: 'ton_proof';
+    payload: string;
+}
+
+/**
+ * Connect request item
+ */
+export type ConnectItem = TonAddressItem | TonProofItem;
+
+/**
+ * Connect request sent by the dApp inside the `r` parameter
+ */
+export interface ConnectRequest {
+    manifestUrl: string;
+    items: ConnectItem[];
+}
+
+/**
+ * Return strategy after the user handles a request
+ */
+export type ReturnStrategy = 'back' | 'none' | string;
+
+/**
+ * Parsed connect link
+ */
+export interface ParsedConnectLink {
+    version: number;
+    clientId: string;
+    request: ConnectRequest;
+    returnStrategy: ReturnStrategy;
+}
+
+/**
+ * Check whether a string looks like a TON Connect link
+ */
+export function isConnectLink(link: string): boolean {
+    try {
+        parseConnectLink(link);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse a `tc://` or universal connect link
+ */
+export function parseConnectLink(link: string): ParsedConnectLink {
+    const trimmed = link.trim();
+
+    let url: URL;
+    try {
+        url = new URL(trimmed);
+    } catch {
+        throw new Error('Invalid TON Connect link');
+    }
+
+    if (url.protocol !== 'tc:' && url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error(`Unsupported TON Connect link scheme: ${url.protocol}`);
+    }
+
+    const params = url.searchParams;
+    const version = Number(params.get('v'));
+    if (version !== TON_CONNECT_PROTOCOL_VERSION) {
+        throw new Error(`Unsupported TON Connect protocol version: ${params.get('v')}`);
+    }
+
+    const clientId = (params.get('id') || '').toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(clientId)) {
+        throw new Error('Invalid TON Connect client id');
+    }
+
+    const rawRequest = params.get('r');
+    if (!rawRequest) {
+        throw new Error('Missing TON Connect request');
+    }
+
+    let request: ConnectRequest;
+    try {
+        request = JSON.parse(rawRequest);
+    } catch {
+        throw new Error('Malformed TON Connect request');
+    }
+
+    if (typeof request.manifestUrl !== 'string' || !Array.isArray(request.items)) {
+        throw new Error('Malformed TON Connect request');
+    }
+
+    if (!request.items.some(item => item.name === 'ton_addr')) {
+        throw new Error('TON Connect request must ask for ton_addr');
+    }
+
+    return {
+        version,
+        clientId,
+        request,
+        returnStrategy: params.get('ret') || 'back',
+    };
+}
+
+/**
+ * Get the ton_proof payload from a connect request, if requested
+ */
+export function getTonProofPayload(request: ConnectRequest): string | null {
+    const item = request.items.find((i): i is TonProofItem => i.name === 'ton_proof');
+    return item ? item.payload : null;
+}
@@ -0,0 +1,135 @@
+/**
+ * TON Connect Connection Store
+ *
+ * Persists connected dApps per wallet account (keyed by WalletAccount id).
+ * Each connection keeps its own session key pair so it survives reloads.
+ */
+
+import type { NetworkType } from '../types';
+import type { SessionKeyPair } from './SessionCrypto';
+
+/**
+ * dApp manifest (tonconnect-manifest.json)
+ */
+export interface DAppManifest {
+    url: string;
+    name: string;
+    iconUrl: string;
+    termsOfUseUrl?: string;
+    privacyPolicyUrl?: string;
+}
+
+/**
+ * Connected dApp record
+ */
+export interface ConnectedDApp {
+    clientId: string;
+    sessionKeyPair: SessionKeyPair;
+    bridgeUrl: string;
+    manifest: DAppManifest;
+    walletAddress: string;
+    network: NetworkType;
+    connectedAt: number;
+    lastEventId: string | null;
+    nextEventId: number;
+}
+
+const STORAGE_KEY = 'tonconnect_connections';
+
+/**
+ * Connection Store
+ */
+export class ConnectionStore {
+    private connections: Record<string, ConnectedDApp[]>;
+
+    constructor() {
+        this.connections = this.load();
+    }
+
+    /**
+     * Load connections from storage
+     */
+    private load(): Record<string, ConnectedDApp[]> {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                const saved = localStorage.getItem(STORAGE_KEY);
+                if (saved) {
+                    return JSON.parse(saved);
+                }
+            }
+        } catch (error) {
+            console.warn('Failed to load TON Connect connections:', error);
+        }
+        return {};
+    }
+
+    /**
+     * Save connections to storage
+     */
+    private save(): void {
+        try {
+            if (typeof localStorage !== 'undefined') {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(this.connections));
+            }
+        } catch (error) {
+            console.warn('Failed to save TON Connect connections:', error);
+        }
+    }
+
+    /**
+     * Get all connections of an account
+     */
+    getConnections(accountId: string): ConnectedDApp[] {
+        return [...(this.connections[accountId] || [])];
+    }
+
+    /**
+     * Get a connection by dApp client id
+     */
+    getConnection(accountId: string, clientId: string): ConnectedDApp | undefined {
+        return this.getConnections(accountId).find(c => c.clientId === clientId);
+    }
+
+    /**
+     * Add a connection. An existing connection to the same dApp is replaced.
+     */
+    addConnection(accountId: string, connection: ConnectedDApp): void {
+        const list = this.getConnections(accountId).filter(
+            c => c.clientId !== connection.clientId && c.manifest.url !== connection.manifest.url
+        );
+        list.push(connection);
+        this.connections[accountId] = list;
+        this.save();
+    }
+
+    /**
+     * Update a connection
+     */
+    updateConnection(accountId: string, clientId: string, updates: Partial<ConnectedDApp>): void {
+        const list = this.getConnections(accountId);
+        const index = list.findIndex(c => c.clientId === clientId);
+        if (index !== -1) {
+            list[index] = { ...list[index], ...updates };
+            this.connections[accountId] = list;
+            this.save();
+        }
+    }
+
+    /**
+     * Remove a connection
+     */
+    removeConnection(accountId: string, clientId: string): void {
+        this.connections[accountId] = this.getConnections(accountId).filter(c => c.clientId !== clientId);
+        this.save();
+    }
+
+    /**
+     * Remove all connections of an account
+     */
+    removeAccount(accountId: string): void {
+        delete this.connections[accountId];
+        this.save();
+    }
+}
+
+export default ConnectionStore;
@@ -0,0 +1,91 @@
+/**
+ * TON Connect Session Crypto
+ *
+ * Implements the end-to-end encryption used between wallet and dApp over the bridge:
+ * X25519 key exchange + XSalsa20-Poly1305 (NaCl `crypto_box`).
+ * Wire format: nonce (24 bytes) || ciphertext.
+ */
+
+import { Buffer } from 'buffer';
+import nacl from 'tweetnacl';
+
+/**
+ * Serializable session key pair (hex encoded)
+ */
+export interface SessionKeyPair {
+    publicKey: string;
+    secretKey: string;
+}
+
+/**
+ * Session crypto for a single wallet <-> dApp session
+ */
+export class SessionCrypto {
+    private readonly keyPair: nacl.BoxKeyPair;
+
+    /**
+     * Session id is the hex encoded public key
+     */
+    readonly sessionId: string;
+
+    constructor(keyPair?: SessionKeyPair) {
+        this.keyPair = keyPair
+            ? {
+                publicKey: new Uint8Array(Buffer.from(keyPair.publicKey, 'hex')),
+                secretKey: new Uint8Array(Buffer.from(keyPair.secretKey, 'hex')),
+            }
+            : nacl.box.keyPair();
+        this.sessionId = Buffer.from(this.keyPair.publicKey).toString('hex');
+    }
+
+    /**
+     * Encrypt a message for the receiver public key (hex)
+     */
+    encrypt(message: string, receiverPublicKey: string): Uint8Array {
+        const nonce = nacl.randomBytes(nacl.box.nonceLength);
+        const encrypted = nacl.box(
+            new Uint8Array(Buffer.from(message, 'utf-8')),
+            nonce,
+            new Uint8Array(Buffer.from(receiverPublicKey, 'hex')),
+            this.keyPair.secretKey
+        );
+
+        const result = new Uint8Array(nonce.length + encrypted.length);
+        result.set(nonce);
+        result.set(encrypted, nonce.length);
+        return result;
+    }
+
+    /**
+     * Decrypt a message from the sender public key (hex)
+     */
+    decrypt(message: Uint8Array, senderPublicKey: string): string {
+        const nonce = message.slice(0, nacl.box.nonceLength);
+        const ciphertext = message.slice(nacl.box.nonceLength);
+
+        const decrypted = nacl.box.open(
+            ciphertext,
+            nonce,
+            new Uint8Array(Buffer.from(senderPublicKey, 'hex')),
+            this.keyPair.secretKey
+        );
+
+        if (!decrypted) {
+            throw new Error('Failed to decrypt TON Connect message');
+        }
+
+        return Buffer.from(decrypted).toString('utf-8');
+    }
+
+    /**
+     * Export key pair for persistence
+     */
+    stringifyKeypair(): SessionKeyPair {
+        return {
+            publicKey: this.sessionId,
+            secretKey: Buffer.from(this.keyPair.secretKey).toString('hex'),
+        };
+    }
+}
+
+export default SessionCrypto;
@@ -0,0 +1,516 @@
+/**
+ * TON Connect Service
+ *
+ * Wallet-side implementation of the TON Connect 2.0 protocol:
+ * - Connect handshake (connect / connect_error events) over the HTTP bridge
+ * - Incoming RPC requests: sendTransaction, signData, disconnect
+ * - Connected dApps per wallet account
+ *
+ * Requests are surfaced to the UI as PendingRequest objects; the UI approves them
+ * (after the user confirms with their password) or rejects them.
+ */
+
+import { TonClient } from '@ton/ton';
+import { Address, beginCell, storeStateInit } from '@ton/core';
+import type { NetworkType, TransactionResult, WalletInfo, KeyPair } from '../types';
+import { BridgeClient, DEFAULT_BRIDGE_URL } from './BridgeClient';
+import type { BridgeIncomingMessage } from './BridgeClient';
+import { ConnectionStore } from './ConnectionStore';
+import type { ConnectedDApp, DAppManifest } from './ConnectionStore';
+import { SessionCrypto } from './SessionCrypto';
+import { getTonProofPayload, TON_CONNECT_PROTOCOL_VERSION } from './ConnectLink';
+import type { ParsedConnectLink } from './ConnectLink';
+import {
+    TonConnectSigner,
+    TonConnectError,
+    TON_CONNECT_CHAIN,
+    TON_CONNECT_ERROR_CODES
+} from './TonConnectSigner';
+import type {
+    SendTransactionRequest,
+    SignDataPayload,
+    SignDataResult,
+    TonProofItemReply
+} from './TonConnectSigner';
+
+/**
+ * Wallet device info sent in the connect event
+ */
+export interface DeviceInfo {
+    platform: string;
+    appName: string;
+    appVersion: string;
+    maxProtocolVersion: number;
+    features: Array<string | { name: string; [key: string]: unknown }>;
+}
+
+/**
+ * RPC request received from a dApp
+ */
+export interface AppRequest {
+    method: string;
+    params: string[];
+    id: string;
+}
+
+/**
+ * Pending request awaiting user approval
+ */
+export type PendingRequest = {
+    accountId: string;
+    connection: ConnectedDApp;
+    id: string;
+} & (
+    | { method: 'sendTransaction'; params: SendTransactionRequest }
+    | { method: 'signData'; params: SignDataPayload }
+);
+
+/**
+ * TON Connect service configuration
+ */
+export interface TonConnectServiceConfig {
+    bridgeUrl?: string;
+    store?: ConnectionStore;
+    appName?: string;
+    appVersion?: string;
+    platform?: string;
+}
+
+/**
+ * TON Connect Service
+ */
+export class TonConnectService {
+    private readonly network: NetworkType;
+    private readonly bridgeUrl: string;
+    private readonly store: ConnectionStore;
+    private readonly signer: TonConnectSigner;
+    private readonly appName: string;
+    private readonly appVersion: string;
+    private readonly platform: string;
+    private readonly answered: Set<string>;
+
+    constructor(network: NetworkType = 'mainnet', config?: TonConnectServiceConfig) {
+        this.network = network;
+        this.bridgeUrl = config?.bridgeUrl ?? DEFAULT_BRIDGE_URL;
+        this.store = config?.store ?? new ConnectionStore();
+        this.signer = new TonConnectSigner(network);
+        this.appName = config?.appName ?? 'ton-universal-wallet';
+        this.appVersion = config?.appVersion ?? '2.0.0';
+        this.platform = config?.platform ?? 'browser';
+        this.answered = new Set();
+    }
+
+    /**
+     * Fetch and validate the dApp manifest
+     */
+    async fetchManifest(manifestUrl: string): Promise<DAppManifest> {
+        let response: Response;
+        try {
+            response = await fetch(manifestUrl);
+        } catch {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.MANIFEST_NOT_FOUND, 'Manifest not found');
+        }
+
+        if (!response.ok) {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.MANIFEST_NOT_FOUND, 'Manifest not found');
+        }
+
+        let manifest: DAppManifest;
+        try {
+            manifest = await response.json();
+        } catch {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.MANIFEST_CONTENT_ERROR, 'Manifest is not valid JSON');
+        }
+
+        if (!manifest || typeof manifest.url !== 'string' || typeof manifest.name !== 'string') {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.MANIFEST_CONTENT_ERROR, 'Manifest is missing url or name');
+        }
+
+        return {
+            url: manifest.url,
+            name: manifest.name,
+            iconUrl: manifest.iconUrl || '',
+            termsOfUseUrl: manifest.termsOfUseUrl,
+            privacyPolicyUrl: manifest.privacyPolicyUrl,
+        };
+    }
+
+    /**
+     * Get connected dApps for an account
+     */
+    getConnections(accountId: string): ConnectedDApp[] {
+        return this.store.getConnections(accountId);
+    }
+
+    /**
+     * Approve a connect request: reply with the wallet address (and ton_proof if requested)
+     */
+    async approveConnect(
+        accountId: string,
+        link: ParsedConnectLink,
+        manifest: DAppManifest,
+        wallet: WalletInfo
+    ): Promise<ConnectedDApp> {
+        const session = new SessionCrypto();
+        const address = Address.parse(wallet.rawAddress);
+
+        const items: Array<Record<string, unknown> | TonProofItemReply> = [{
+            name: 'ton_addr',
+            address: address.toRawString(),
+            network: TON_CONNECT_CHAIN[this.network],
+            publicKey: wallet.publicKey,
+            walletStateInit: wallet.init
+                ? beginCell().store(storeStateInit(wallet.init)).endCell().toBoc().toString('base64')
+                : '',
+        }];
+
+        const proofPayload = getTonProofPayload(link.request);
+        if (proofPayload !== null) {
+            items.push(this.signer.createTonProof(
+                wallet.keyPair,
+                address,
+                this.getDomain(manifest.url),
+                proofPayload
+            ));
+        }
+
+        const connection: ConnectedDApp = {
+            clientId: link.clientId,
+            sessionKeyPair: session.stringifyKeypair(),
+            bridgeUrl: this.bridgeUrl,
+            manifest,
+            walletAddress: address.toRawString(),
+            network: this.network,
+            connectedAt: Date.now(),
+            lastEventId: null,
+            nextEventId: 1,
+        };
+
+        await this.sendToDApp(connection, {
+            event: 'connect',
+            id: connection.nextEventId++,
+            payload: {
+                items,
+                device: this.getDeviceInfo(wallet.version),
+            },
+        });
+
+        this.store.addConnection(accountId, connection);
+        return connection;
+    }
+
+    /**
+     * Reject a connect request
+     */
+    async rejectConnect(
+        link: ParsedConnectLink,
+        code: number = TON_CONNECT_ERROR_CODES.USER_DECLINED,
+        message: string = 'User declined the connection'
+    ): Promise<void> {
+        const session = new SessionCrypto();
+        const bridge = new BridgeClient(this.bridgeUrl);
+
+        await bridge.send(
+            session.encrypt(JSON.stringify({
+                event: 'connect_error',
+                id: Date.now(),
+                payload: { code, message },
+            }), link.clientId),
+            session.sessionId,
+            link.clientId
+        );
+    }
+
+    /**
+     * Listen for requests from all dApps connected to an account.
+     * Returns a function that stops listening.
+     */
+    listen(
+        accountId: string,
+        onRequest: (request: PendingRequest) => void,
+        onError?: (error: Error) => void
+    ): () => void {
+        const connections = this.store.getConnections(accountId);
+        const byBridge = new Map<string, ConnectedDApp[]>();
+
+        for (const connection of connections) {
+            const list = byBridge.get(connection.bridgeUrl) || [];
+            list.push(connection);
+            byBridge.set(connection.bridgeUrl, list);
+        }
+
+        const stops: Array<() => void> = [];
+
+        byBridge.forEach((list, bridgeUrl) => {
+            const bridge = new BridgeClient(bridgeUrl);
+            const lastEventId = list
+                .map(c => c.lastEventId)
+                .filter((id): id is string => id !== null)
+                .sort((a, b) => Number(b) - Number(a))[0] ?? null;
+
+            stops.push(bridge.listen(
+                list.map(c => c.sessionKeyPair.publicKey),
+                {
+                    lastEventId,
+                    onMessage: (message) => {
+                        this.handleBridgeMessage(accountId, message, onRequest).catch(error => {
+                            onError?.(error instanceof Error ? error : new Error('Unknown error'));
+                        });
+                    },
+                    onError,
+                }
+            ));
+        });
+
+        return () => stops.forEach(stop => stop());
+    }
+
+    /**
+     * Approve a sendTransaction request: sign, broadcast, reply with the signed BOC.
+     * Any failure before the broadcast is replied to as an error so the dApp is
+     * not left waiting; once broadcast, the result is returned even when the
+     * reply cannot be delivered. Either way the request is answered and cannot
+     * be approved (and sent) again.
+     */
+    async approveSendTransaction(
+        request: PendingRequest,
+        client: TonClient,
+        wallet: WalletInfo
+    ): Promise<TransactionResult> {
+        if (request.method !== 'sendTransaction') {
+            throw new Error('Not a sendTransaction request');
+        }
+        this.markAnswered(request);
+
+        let result: TransactionResult;
+        try {
+            this.signer.validateTransaction(request.params, Address.parse(wallet.rawAddress), wallet.version);
+            result = await this.signer.sendTransaction(client, wallet.keyPair, wallet.version, request.params);
+        } catch (error) {
+            const code = error instanceof TonConnectError ? error.code : TON_CONNECT_ERROR_CODES.UNKNOWN;
+            const message = error instanceof Error ? error.message : 'Transaction failed';
+            await this.respondError(request, code, message).catch(replyError => {
+                console.warn('Failed to notify dApp about the failed transaction:', replyError);
+            });
+            throw error;
+        }
+
+        if (!result.success) {
+            await this.respondError(request, TON_CONNECT_ERROR_CODES.UNKNOWN, result.error || 'Transaction failed').catch(replyError => {
+                console.warn('Failed to notify dApp about the failed transaction:', replyError);
+            });
+            return result;
+        }
+
+        try {
+            await this.sendToDApp(request.connection, { result: result.boc || '', id: request.id });
+        } catch (error) {
+            console.warn('Transaction was sent but the dApp could not be notified:', error);
+        }
+        return result;
+    }
+
+    /**
+     * Approve a signData request
+     */
+    async approveSignData(request: PendingRequest, keyPair: KeyPair): Promise<SignDataResult> {
+        if (request.method !== 'signData') {
+            throw new Error('Not a signData request');
+        }
+        this.markAnswered(request);
+
+        let result: SignDataResult;
+        try {
+            result = this.signer.signData(
+                keyPair,
+                Address.parse(request.connection.walletAddress),
+                this.getDomain(request.connection.manifest.url),
+                request.params
+            );
+        } catch (error) {
+            const code = error instanceof TonConnectError ? error.code : TON_CONNECT_ERROR_CODES.UNKNOWN;
+            await this.respondError(request, code, error instanceof Error ? error.message : 'Signing failed').catch(replyError => {
+                console.warn('Failed to notify dApp about the failed signature:', replyError);
+            });
+            throw error;
+        }
+
+        await this.sendToDApp(request.connection, { result, id: request.id });
+        return result;
+    }
+
+    /**
+     * Reject a pending request
+     */
+    async rejectRequest(
+        request: PendingRequest,
+        code: number = TON_CONNECT_ERROR_CODES.USER_DECLINED,
+        message: string = 'User declined the request'
+    ): Promise<void> {
+        this.markAnswered(request);
+        await this.respondError(request, code, message);
+    }
+
+    /**
+     * Disconnect a dApp (wallet initiated)
+     */
+    async disconnect(accountId: string, clientId: string): Promise<void> {
+        const connection = this.store.getConnection(accountId, clientId);
+        if (!connection) {
+            return;
+        }
+
+        this.store.removeConnection(accountId, clientId);
+
+        try {
+            await this.sendToDApp(connection, {
+                event: 'disconnect',
+                id: this.nextEventId(accountId, connection),
+                payload: {},
+            });
+        } catch (error) {
+            console.warn('Failed to notify dApp about disconnect:', error);
+        }
+    }
+
+    /**
+     * Forget all connections of a deleted account
+     */
+    removeAccount(accountId: string): void {
+        this.store.removeAccount(accountId);
+    }
+
+    /**
+     * Decrypt and dispatch a bridge message
+     */
+    private async handleBridgeMessage(
+        accountId: string,
+        message: BridgeIncomingMessage,
+        onRequest: (request: PendingRequest) => void
+    ): Promise<void> {
+        const connection = this.store.getConnection(accountId, message.from);
+        if (!connection) {
+            return;
+        }
+
+        if (message.eventId) {
+            this.store.updateConnection(accountId, connection.clientId, { lastEventId: message.eventId });
+        }
+
+        const session = new SessionCrypto(connection.sessionKeyPair);
+        const request = JSON.parse(session.decrypt(message.message, connection.clientId)) as AppRequest;
+
+        switch (request.method) {
+            case 'sendTransaction':
+            case 'signData': {
+                let params;
+                try {
+                    params = JSON.parse(request.params[0]);
+                } catch {
+                    await this.sendToDApp(connection, {
+                        error: { code: TON_CONNECT_ERROR_CODES.BAD_REQUEST, message: 'Malformed params' },
+                        id: request.id,
+                    });
+                    return;
+                }
+                onRequest({ accountId, connection, id: request.id, method: request.method, params });
+                return;
+            }
+            case 'disconnect':
+                this.store.removeConnection(accountId, connection.clientId);
+                await this.sendToDApp(connection, { result: {}, id: request.id });
+                return;
+            default:
+                await this.sendToDApp(connection, {
+                    error: {
+                        code: TON_CONNECT_ERROR_CODES.METHOD_NOT_SUPPORTED,
+                        message: `Method ${request.method} is not supported`,
+                    },
+                    id: request.id,
+                });
+        }
+    }
+
+    /**
+     * Record that a request is being answered; each request is answered once
+     */
+    private markAnswered(request: PendingRequest): void {
+        const key = `${request.accountId}:${request.connection.clientId}:${request.id}`;
+        if (this.answered.has(key)) {
+            throw new Error('This request was already answered');
+        }
+        this.answered.add(key);
+    }
+
+    /**
+     * Reply with an error to a pending request
+     */
+    private async respondError(request: PendingRequest, code: number, message: string): Promise<void> {
+        await this.sendToDApp(request.connection, { error: { code, message }, id: request.id });
+    }
+
+    /**
+     * Encrypt and deliver a message to a dApp through its bridge
+     */
+    private async sendToDApp(connection: ConnectedDApp, payload: Record<string, unknown>): Promise<void> {
+        const session = new SessionCrypto(connection.sessionKeyPair);
+        const bridge = new BridgeClient(connection.bridgeUrl);
+
+        await bridge.send(
+            session.encrypt(JSON.stringify(payload), connection.clientId),
+            session.sessionId,
+            connection.clientId
+        );
+    }
+
+    /**
+     * Allocate the next wallet event id for a connection
+     */
+    private nextEventId(accountId: string, connection: ConnectedDApp): number {
+        const id = connection.nextEventId;
+        this.store.updateConnection(accountId, connection.clientId, { nextEventId: id + 1 });
+        return id;
+    }
+
+    /**
+     * Device info advertised to dApps
+     */
+    private getDeviceInfo(version: WalletInfo['version']): DeviceInfo {
+        const maxMessages = this.signer.getMaxMessages(version);
+
+        return {
+            platform: this.platform,
+            appName: this.appName,
+            appVersion: this.appVersion,
+            maxProtocolVersion: TON_CONNECT_PROTOCOL_VERSION,
+            features: [
+                'SendTransaction',
+                { name: 'SendTransaction', maxMessages },
+                { name: 'SignData', types: ['text', 'binary', 'cell'] },
+            ],
+        };
+    }
+
+    /**
+     * Extract the host used as ton_proof / signData domain
+     */
+    private getDomain(url: string): string {
+        try {
+            return new URL(url).host;
+        } catch {
+            return url;
+        }
+    }
+}
+
+/**
+ * Create TON Connect service
+ */
+export function createTonConnectService(
+    network: NetworkType = 'mainnet',
+    config?: TonConnectServiceConfig
+): TonConnectService {
+    return new TonConnectService(network, config);
+}
+
+export default TonConnectService;
@@ -0,0 +1,389 @@
+/**
+ * TON Connect Signer
+ *
+ * Wallet-side signing for TON Connect requests:
+ * - ton_proof (connect handshake)
+ * - sendTransaction (signed and broadcast via StandardWalletService / HighloadWalletV3Service)
+ * - signData (text, binary and cell payloads)
+ */
+
+import { Buffer } from 'buffer';
+import { TonClient } from '@ton/ton';
+import {
+    Address,
+    beginCell,
+    Cell,
+    internal,
+    loadStateInit,
+    MessageRelaxed
+} from '@ton/core';
+import { sha256_sync, sign } from '@ton/crypto';
+import type {
+    KeyPair,
+    NetworkType,
+    TransactionResult,
+    WalletVersion
+} from '../types';
+import { HIGHLOAD_CONSTANTS, V5_CONSTANTS } from '../types';
+import { StandardWalletService } from '../wallets/StandardWallet';
+import type { StandardWalletVersion } from '../wallets/StandardWallet';
+import { HighloadWalletV3Service } from '../wallets/highload-v3';
+
+/**
+ * TON Connect chain ids
+ */
+export const TON_CONNECT_CHAIN = {
+    mainnet: '-239',
+    testnet: '-3',
+} as const;
+
+/**
+ * TON Connect error codes
+ */
+export const TON_CONNECT_ERROR_CODES = {
+    UNKNOWN: 0,
+    BAD_REQUEST: 1,
+    MANIFEST_NOT_FOUND: 2,
+    MANIFEST_CONTENT_ERROR: 3,
+    UNKNOWN_APP: 100,
+    USER_DECLINED: 300,
+    METHOD_NOT_SUPPORTED: 400,
+} as const;
+
+/**
+ * Error carrying a TON Connect error code
+ */
+export class TonConnectError extends Error {
+    readonly code: number;
+
+    constructor(code: number, message: string) {
+        super(message);
+        this.name = 'TonConnectError';
+        this.code = code;
+    }
+}
+
+/**
+ * Message inside a sendTransaction request
+ */
+export interface SendTransactionMessage {
+    address: string;
+    amount: string;
+    payload?: string;
+    stateInit?: string;
+}
+
+/**
+ * sendTransaction request params
+ */
+export interface SendTransactionRequest {
+    valid_until?: number;
+    network?: string;
+    from?: string;
+    messages: SendTransactionMessage[];
+}
+
+/**
+ * signData request params
+ */
+export type SignDataPayload =
+    | { type: 'text'; text: string; network?: string; from?: string }
+    | { type: 'binary'; bytes: string; network?: string; from?: string }
+    | { type: 'cell'; schema: string; cell: string; network?: string; from?: string };
+
+/**
+ * signData result
+ */
+export interface SignDataResult {
+    signature: string;
+    address: string;
+    timestamp: number;
+    domain: string;
+    payload: SignDataPayload;
+}
+
+/**
+ * ton_proof reply item
+ */
+export interface TonProofItemReply {
+    name: 'ton_proof';
+    proof: {
+        timestamp: number;
+        domain: {
+            lengthBytes: number;
+            value: string;
+        };
+        signature: string;
+        payload: string;
+    };
+}
+
+/**
+ * TON Connect Signer
+ */
+export class TonConnectSigner {
+    private readonly network: NetworkType;
+    private readonly standardService: StandardWalletService;
+    private readonly highloadService: HighloadWalletV3Service;
+
+    constructor(network: NetworkType = 'mainnet') {
+        this.network = network;
+        this.standardService = new StandardWalletService(network);
+        this.highloadService = new HighloadWalletV3Service(network);
+    }
+
+    /**
+     * Maximum messages per sendTransaction for a wallet version
+     */
+    getMaxMessages(version: WalletVersion): number {
+        switch (version) {
+            case 'highload-v3':
+                return HIGHLOAD_CONSTANTS.MAX_ACTIONS;
+            case 'v5r1':
+                return V5_CONSTANTS.MAX_ACTIONS;
+            default:
+                return 4;
+        }
+    }
+
+    /**
+     * Validate a sendTransaction request against the wallet
+     */
+    validateTransaction(
+        request: SendTransactionRequest,
+        walletAddress: Address,
+        version: WalletVersion,
+        now: number = Date.now()
+    ): void {
+        if (!request || !Array.isArray(request.messages) || request.messages.length === 0) {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.BAD_REQUEST, 'Request has no messages');
+        }
+
+        if (request.messages.length > this.getMaxMessages(version)) {
+            throw new TonConnectError(
+                TON_CONNECT_ERROR_CODES.BAD_REQUEST,
+                `Wallet ${version} supports at most ${this.getMaxMessages(version)} messages`
+            );
+        }
+
+        if (request.valid_until !== undefined && request.valid_until < Math.floor(now / 1000)) {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.BAD_REQUEST, 'Request expired');
+        }
+
+        if (request.network !== undefined && request.network !== TON_CONNECT_CHAIN[this.network]) {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.BAD_REQUEST, 'Request is for another network');
+        }
+
+        if (request.from !== undefined && !this.parseAddress(request.from).equals(walletAddress)) {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.BAD_REQUEST, 'Request is for another wallet');
+        }
+    }
+
+    /**
+     * Convert request messages to internal messages
+     */
+    buildMessages(request: SendTransactionRequest): MessageRelaxed[] {
+        return request.messages.map(message => {
+            let bounce = true;
+            if (Address.isFriendly(message.address)) {
+                bounce = Address.parseFriendly(message.address).isBounceable;
+            }
+
+            if (!/^\d+$/.test(message.amount)) {
+                throw new TonConnectError(TON_CONNECT_ERROR_CODES.BAD_REQUEST, `Invalid amount: ${message.amount}`);
+            }
+
+            try {
+                return internal({
+                    to: this.parseAddress(message.address),
+                    value: BigInt(message.amount),
+                    bounce,
+                    body: message.payload ? Cell.fromBase64(message.payload) : undefined,
+                    init: message.stateInit
+                        ? loadStateInit(Cell.fromBase64(message.stateInit).beginParse())
+                        : undefined,
+                });
+            } catch (error) {
+                throw new TonConnectError(
+                    TON_CONNECT_ERROR_CODES.BAD_REQUEST,
+                    error instanceof Error ? error.message : 'Invalid message'
+                );
+            }
+        });
+    }
+
+    /**
+     * Sign and broadcast a sendTransaction request
+     */
+    async sendTransaction(
+        client: TonClient,
+        keyPair: KeyPair,
+        version: WalletVersion,
+        request: SendTransactionRequest
+    ): Promise<TransactionResult> {
+        const messages = this.buildMessages(request);
+
+        if (version === 'highload-v3') {
+            return this.highloadService.sendMessages(client, keyPair, messages);
+        }
+
+        return this.standardService.sendMessages(
+            client,
+            keyPair,
+            version as StandardWalletVersion,
+            messages
+        );
+    }
+
+    /**
+     * Create ton_proof reply for the connect handshake
+     */
+    createTonProof(
+        keyPair: KeyPair,
+        walletAddress: Address,
+        domain: string,
+        payload: string,
+        timestamp: number = Math.floor(Date.now() / 1000)
+    ): TonProofItemReply {
+        const domainBytes = Buffer.from(domain, 'utf-8');
+
+        const workchain = Buffer.alloc(4);
+        workchain.writeInt32BE(walletAddress.workChain);
+
+        const domainLength = Buffer.alloc(4);
+        domainLength.writeUInt32LE(domainBytes.length);
+
+        const ts = Buffer.alloc(8);
+        ts.writeBigUInt64LE(BigInt(timestamp));
+
+        const message = Buffer.concat([
+            Buffer.from('ton-proof-item-v2/', 'utf-8'),
+            workchain,
+            walletAddress.hash,
+            domainLength,
+            domainBytes,
+            ts,
+            Buffer.from(payload, 'utf-8'),
+        ]);
+
+        const fullMessage = Buffer.concat([
+            Buffer.from([0xff, 0xff]),
+            Buffer.from('ton-connect', 'utf-8'),
+            sha256_sync(message),
+        ]);
+
+        return {
+            name: 'ton_proof',
+            proof: {
+                timestamp,
+                domain: {
+                    lengthBytes: domainBytes.length,
+                    value: domain,
+                },
+                signature: sign(sha256_sync(fullMessage), keyPair.secretKey).toString('base64'),
+                payload,
+            },
+        };
+    }
+
+    /**
+     * Sign a signData request
+     */
+    signData(
+        keyPair: KeyPair,
+        walletAddress: Address,
+        domain: string,
+        payload: SignDataPayload,
+        timestamp: number = Math.floor(Date.now() / 1000)
+    ): SignDataResult {
+        let signature: Buffer;
+
+        if (payload.type === 'cell') {
+            const message = beginCell()
+                .storeUint(0x75569022, 32)
+                .storeUint(crc32(Buffer.from(payload.schema, 'utf-8')), 32)
+                .storeUint(timestamp, 64)
+                .storeAddress(walletAddress)
+                .storeRef(beginCell().storeBuffer(encodeDomainDnsLike(domain)).endCell())
+                .storeRef(Cell.fromBase64(payload.cell))
+                .endCell();
+
+            signature = sign(message.hash(), keyPair.secretKey);
+        } else {
+            const data = payload.type === 'text'
+                ? Buffer.from(payload.text, 'utf-8')
+                : Buffer.from(payload.bytes, 'base64');
+            const domainBytes = Buffer.from(domain, 'utf-8');
+
+            const workchain = Buffer.alloc(4);
+            workchain.writeInt32BE(walletAddress.workChain);
+
+            const domainLength = Buffer.alloc(4);
+            domainLength.writeUInt32BE(domainBytes.length);
+
+            const ts = Buffer.alloc(8);
+            ts.writeBigUInt64BE(BigInt(timestamp));
+
+            const dataLength = Buffer.alloc(4);
+            dataLength.writeUInt32BE(data.length);
+
+            const message = Buffer.concat([
+                Buffer.from([0xff, 0xff]),
+                Buffer.from('ton-connect/sign-data/', 'utf-8'),
+                workchain,
+                walletAddress.hash,
+                domainLength,
+                domainBytes,
+                ts,
+                Buffer.from(payload.type === 'text' ? 'txt' : 'bin', 'utf-8'),
+                dataLength,
+                data,
+            ]);
+
+            signature = sign(sha256_sync(message), keyPair.secretKey);
+        }
+
+        return {
+            signature: signature.toString('base64'),
+            address: walletAddress.toRawString(),
+            timestamp,
+            domain,
+            payload,
+        };
+    }
+
+    /**
+     * Parse raw or friendly address, mapping failures to a protocol error
+     */
+    private parseAddress(address: string): Address {
+        try {
+            return Address.parse(address);
+        } catch {
+            throw new TonConnectError(TON_CONNECT_ERROR_CODES.BAD_REQUEST, `Invalid address: ${address}`);
+        }
+    }
+}
+
+/**
+ * Encode a domain in DNS-like form: labels reversed, each terminated by \0
+ */
+function encodeDomainDnsLike(domain: string): Buffer {
+    const labels = domain.split('.').filter(Boolean).reverse();
+    return Buffer.concat(labels.map(label => Buffer.concat([Buffer.from(label, 'utf-8'), Buffer.from([0])])));
+}
+
+/**
+ * CRC32 (IEEE) checksum
+ */
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc ^= byte;
+        for (let i = 0; i < 8; i++) {
+            crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+        }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export default TonConnectSigner;
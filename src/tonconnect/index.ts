@@ -0,0 +1,44 @@
+/**
+ * TON Connect Module Exports
+ */
+
+export {
+    parseConnectLink,
+    isConnectLink,
+    getTonProofPayload,
+    TON_CONNECT_PROTOCOL_VERSION
+} from './ConnectLink';
+export type {
+    ConnectItem,
+    ConnectRequest,
+    ParsedConnectLink,
+    ReturnStrategy,
+    TonAddressItem,
+    TonProofItem
+} from './ConnectLink';
+
+export { SessionCrypto } from './SessionCrypto';
+export type { SessionKeyPair } from './SessionCrypto';
+
+export { BridgeClient, DEFAULT_BRIDGE_URL, DEFAULT_BRIDGE_TTL } from './BridgeClient';
+export type { BridgeIncomingMessage, BridgeListenOptions, BridgeClientConfig } from './BridgeClient';
+
+export { ConnectionStore } from './ConnectionStore';
+export type { ConnectedDApp, DAppManifest } from './ConnectionStore';
+
+export {
+    TonConnectSigner,
+    TonConnectError,
+    TON_CONNECT_CHAIN,
+    TON_CONNECT_ERROR_CODES
+} from './TonConnectSigner';
+export type {
+    SendTransactionMessage,
+    SendTransactionRequest,
+    SignDataPayload,
+    SignDataResult,
+    TonProofItemReply
+} from './TonConnectSigner';
+
+export { TonConnectService, createTonConnectService } from './TonConnectService';
+export type { AppRequest, DeviceInfo, PendingRequest, TonConnectServiceConfig } from './TonConnectService';
@@ -93,6 +93,18 @@ export interface JettonTransferParams extends TransactionParams {
     responseDestination?: string;
     forwardAmount?: bigint;
     forwardPayload?: Cell;
+    gasAmount?: bigint;       // TON attached for the transfer (default 0.05)
+}
+
+/**
+ * NFT transfer parameters (TEP-62)
+ */
+export interface NftTransferParams {
+    nftAddress: string;
+    to: string;
+    responseDestination?: string;
+    forwardAmount?: bigint;
+    comment?: string;
 }
 
 /**
@@ -105,6 +117,23 @@ export interface BatchTransaction {
     bounce?: boolean;
 }
 
+/**
+ * Item of a mixed-asset Highload V3 batch. Jetton items name the master;
+ * the sender's jetton wallet is looked up once per master.
+ */
+export type HighloadBatchItem =
+    | ({ type: 'ton' } & TransactionParams)
+    | ({ type: 'jetton'; jettonMaster: string } & Omit<JettonTransferParams, 'jettonWalletAddress'>)
+    | ({ type: 'nft' } & NftTransferParams)
+    | {
+        type: 'raw';
+        to: string;
+        amount: bigint;
+        body?: Cell;
+        init?: { code: Cell; data: Cell };
+        bounce?: boolean;
+    };
+
 /**
  * Transaction result
  */
@@ -113,14 +142,129 @@ export interface TransactionResult {
     hash?: string;
     seqno?: number | bigint;
     queryId?: bigint;
+    boc?: string;
     error?: string;
 }
 
 /**
- * Transaction history item
+ * On-chain transaction outcome (as returned by the indexer)
+ */
+export interface ChainTransaction {
+    hash: string;
+    lt: string;
+    account: string;
+    success: boolean;
+    aborted: boolean;
+    computeExitCode?: number;
+    actionResultCode?: number;
+    totalFees?: bigint;
+    inMessage?: ChainMessage;
+    outMessages: ChainMessage[];
+}
+
+/**
+ * Message of an on-chain transaction
  */
-export interface TransactionHistoryItem {
+export interface ChainMessage {
     hash: string;
+    source?: string;
+    destination?: string;
+    value?: bigint;
+    bounce: boolean;
+    bounced: boolean;
+}
+
+/**
+ * Transaction with the transactions its out messages caused
+ */
+export interface ChainTrace {
+    transaction: ChainTransaction;
+    children: ChainTrace[];
+}
+
+/**
+ * Jetton movement reported by the indexer (transfers and swap legs)
+ */
+export interface ChainJettonTransfer {
+    jetton: JettonInfo;
+    sender?: string;
+    recipient?: string;
+    amount: bigint;
+}
+
+/**
+ * Emulated trace of an external message
+ */
+export interface ChainEmulation {
+    trace: ChainTrace;
+    jettonTransfers: ChainJettonTransfer[];
+}
+
+/**
+ * Outcome of one message sent by the wallet in an emulation
+ */
+export interface EmulatedMessage {
+    destination: string;
+    value: bigint;
+    bounce: boolean;
+    success: boolean;
+    bounced: boolean;
+    computeExitCode?: number;
+    actionResultCode?: number;
+}
+
+/**
+ * Jetton balance change of the wallet owner (negative when sent)
+ */
+export interface JettonBalanceDelta {
+    jetton: JettonInfo;
+    amount: bigint;
+}
+
+/**
+ * Emulation preview of a signed external message
+ */
+export interface EmulationResult {
+    success: boolean;
+    totalFee: bigint;
+    messages: EmulatedMessage[];
+    jettonDeltas: JettonBalanceDelta[];
+    bounced: boolean;
+    exitCode?: number;
+    actionResultCode?: number;
+    error?: string;
+}
+
+/**
+ * Kind of a history item, one per TonAPI action type
+ */
+export type TransactionAction =
+    | 'ton_transfer'
+    | 'jetton_transfer'
+    | 'nft_transfer'
+    | 'jetton_swap'
+    | 'jetton_mint'
+    | 'jetton_burn'
+    | 'nft_purchase'
+    | 'auction_bid'
+    | 'contract_deploy'
+    | 'contract_call'
+    | 'stake_deposit'
+    | 'stake_withdraw_request'
+    | 'stake_withdraw'
+    | 'domain_renew'
+    | 'subscribe'
+    | 'unsubscribe'
+    | 'bounce'
+    | 'unknown';
+
+/**
+ * Fields every history item has. `amount` is in the units of `jetton`, or
+ * nanotons when there is none; 0 when the action moves no value.
+ */
+interface TransactionHistoryBase {
+    hash: string;           // Event id; every action of an event shares it
+    lt?: string;            // Logical time of the event, the pagination cursor
     type: TransactionDirection;
     amount: bigint;
     from: string;
@@ -130,9 +274,122 @@ export interface TransactionHistoryItem {
     timestamp: number;
     comment?: string;
     jetton?: JettonInfo;
+    nft?: string;           // NFT item address
+    description?: string;   // TonAPI's one-line summary of the action
+    fee?: bigint;           // TON the account paid for the event, on its first action
     status: TransactionStatus;
 }
 
+export interface TonTransferHistoryItem extends TransactionHistoryBase {
+    action: 'ton_transfer';
+}
+
+export interface JettonTransferHistoryItem extends TransactionHistoryBase {
+    action: 'jetton_transfer';
+    jetton: JettonInfo;
+}
+
+export interface NftTransferHistoryItem extends TransactionHistoryBase {
+    action: 'nft_transfer';
+    nft: string;
+}
+
+/**
+ * DEX swap; `amount`/`jetton` are what was sold (TON without a jetton)
+ */
+export interface SwapHistoryItem extends TransactionHistoryBase {
+    action: 'jetton_swap';
+    dex: string;
+    amountOut: bigint;
+    jettonOut?: JettonInfo;
+}
+
+export interface JettonMintHistoryItem extends TransactionHistoryBase {
+    action: 'jetton_mint' | 'jetton_burn';
+    jetton: JettonInfo;
+}
+
+/**
+ * NFT bought or sold, or bid on at an auction; `amount` is the price in TON
+ */
+export interface NftTradeHistoryItem extends TransactionHistoryBase {
+    action: 'nft_purchase' | 'auction_bid';
+}
+
+export interface ContractDeployHistoryItem extends TransactionHistoryBase {
+    action: 'contract_deploy';
+    interfaces: string[];
+}
+
+/**
+ * Contract call; `amount` is the TON attached
+ */
+export interface ContractCallHistoryItem extends TransactionHistoryBase {
+    action: 'contract_call';
+    operation: string;
+}
+
+/**
+ * Staking pool deposit, withdrawal request or withdrawal (the elector for
+ * validator stakes)
+ */
+export interface StakeHistoryItem extends TransactionHistoryBase {
+    action: 'stake_deposit' | 'stake_withdraw_request' | 'stake_withdraw';
+    pool: string;
+    implementation?: string;
+}
+
+export interface DomainRenewHistoryItem extends TransactionHistoryBase {
+    action: 'domain_renew';
+    domain: string;
+}
+
+export interface SubscriptionHistoryItem extends TransactionHistoryBase {
+    action: 'subscribe' | 'unsubscribe';
+}
+
+/**
+ * Transfer that failed and came back to the sender
+ */
+export interface BounceHistoryItem extends TransactionHistoryBase {
+    action: 'bounce';
+    bounced: 'ton_transfer' | 'jetton_transfer';
+}
+
+/**
+ * Action TonAPI could not classify; `description` says what it saw
+ */
+export interface UnknownHistoryItem extends TransactionHistoryBase {
+    action: 'unknown';
+}
+
+/**
+ * Transaction history item
+ */
+export type TransactionHistoryItem =
+    | TonTransferHistoryItem
+    | JettonTransferHistoryItem
+    | NftTransferHistoryItem
+    | SwapHistoryItem
+    | JettonMintHistoryItem
+    | NftTradeHistoryItem
+    | ContractDeployHistoryItem
+    | ContractCallHistoryItem
+    | StakeHistoryItem
+    | DomainRenewHistoryItem
+    | SubscriptionHistoryItem
+    | BounceHistoryItem
+    | UnknownHistoryItem;
+
+/**
+ * Page of history, newest first; `nextBeforeLt` reads the page before it,
+ * null at the start of the account's history
+ */
+export interface TransactionHistoryPage {
+    items: TransactionHistoryItem[];
+    nextBeforeLt: string | null;
+}
+
 // =============================================================================
 // JETTON TYPES
 // =============================================================================
@@ -158,8 +415,198 @@ export interface JettonBalance {
     balance: bigint;
     balanceFormatted: string;
     usdValue?: number;
+    tonRate?: number;       // TON per whole token, when priced by the indexer
+}
+
+/**
+ * Jetton master read from chain (TEP-74 get_jetton_data) with its TEP-64 metadata
+ */
+export interface JettonMasterInfo extends JettonInfo {
+    totalSupply: bigint;
+    mintable: boolean;
+    admin: string | null;   // Null once admin rights are revoked
+    description?: string;
+}
+
+// =============================================================================
+// STAKING TYPES
+// =============================================================================
+
+/**
+ * Staking pool implementation; each has its own deposit and withdraw messages
+ */
+export type StakingPoolKind = 'nominator' | 'whales' | 'tonstakers' | 'bemo' | 'hipo';
+
+/**
+ * Validator, nominator or liquid staking pool
+ */
+export interface StakingPool {
+    address: string;
+    name: string;
+    kind: StakingPoolKind;
+    apy: number | null;         // Percent a year; null when unknown
+    minStake: bigint;           // Nanotons
+    totalStaked?: bigint;       // Nanotons
+    liquidJetton?: string;      // Jetton master of the liquid token (liquid pools)
+    liquidSymbol?: string;      // tsTON, stTON, hTON
+    cycleEnd?: number;          // Unix seconds; end of the current validation round
+    verified: boolean;
+}
+
+/**
+ * Stake held in a pool, the staking counterpart of a jetton balance (nanotons)
+ */
+export interface StakingPosition {
+    poolAddress: string;
+    amount: bigint;             // Staked; liquid tokens valued in TON
+    pendingDeposit: bigint;     // Joins the pool at the next round
+    pendingWithdraw: bigint;    // Requested back, released at the end of the round
+    readyWithdraw: bigint;      // Released and ready to collect
+    liquidBalance?: bigint;     // Liquid tokens held (liquid pools)
+}
+
+/**
+ * Staking action: deposit TON into a pool
+ */
+export interface StakingDeposit {
+    type: 'deposit';
+    pool: StakingPool;
+    amount: bigint;
+}
+
+/**
+ * Staking action: withdraw from a pool. Liquid pools burn `amount` liquid
+ * tokens; Whales pools withdraw `amount` TON, or everything without one;
+ * nominator pools always withdraw everything.
+ */
+export interface StakingWithdrawal {
+    type: 'withdraw';
+    pool: StakingPool;
+    amount?: bigint;
+    waitTillRoundEnd?: boolean; // Tonstakers: wait for the round instead of paying out from the buffer
 }
 
+/**
+ * Any message a staker sends to a pool
+ */
+export type StakingAction = StakingDeposit | StakingWithdrawal;
+
+// =============================================================================
+// NFT TYPES
+// =============================================================================
+
+/**
+ * NFT attribute (trait) from TEP-64 metadata
+ */
+export interface NftAttribute {
+    traitType: string;
+    value: string;
+}
+
+/**
+ * TEP-64 metadata of an NFT item or collection
+ */
+export interface NftMetadata {
+    name?: string;
+    description?: string;
+    image?: string;
+    attributes?: NftAttribute[];
+    contentUrl?: string;
+    externalUrl?: string;
+    uri?: string;           // Off-chain JSON the metadata was (partly) read from
+}
+
+/**
+ * Indexer trust level of an item; 'blacklist' marks spam
+ */
+export type NftTrust = 'whitelist' | 'graylist' | 'blacklist' | 'none';
+
+/**
+ * NFT collection
+ */
+export interface NftCollectionInfo {
+    address: string;
+    name: string;
+    description?: string;
+    image?: string;
+}
+
+/**
+ * NFT item owned by a wallet
+ */
+export interface NftItem {
+    address: string;
+    index: bigint;
+    owner: string;
+    collection: NftCollectionInfo | null;
+    metadata: NftMetadata;
+    trust: NftTrust;
+    preview?: string;       // Small image from the indexer
+    onSale?: boolean;       // Listed on a marketplace (held by the sale contract)
+    dns?: string;           // Domain name when the item is a TON DNS domain
+}
+
+/**
+ * Which NFTs a gallery shows
+ */
+export interface NftFilter {
+    hidden?: string[];      // Addresses hidden by the user
+    showHidden?: boolean;
+    showSpam?: boolean;
+    collection?: string;    // Collection address
+}
+
+// =============================================================================
+// DNS TYPES
+// =============================================================================
+
+/**
+ * TON DNS record a domain owner can edit (TEP-81)
+ */
+export type DnsRecordKind = 'wallet' | 'site' | 'storage';
+
+/**
+ * What a domain resolves to
+ */
+export interface DnsResolution {
+    domain: string;
+    wallet: string | null;  // User-friendly, non-bounceable
+    site?: string;          // ADNL address (hex)
+    storage?: string;       // TON Storage bag ID (hex)
+}
+
+/**
+ * Domain owned by a wallet (the domain is an NFT item)
+ */
+export interface DnsDomain {
+    name: string;
+    address: string;            // DNS item contract
+    expiresAt: number | null;   // Unix seconds; null when unknown or the domain does not expire (.t.me)
+}
+
+/**
+ * DNS update: set a record, or delete it when value is empty
+ */
+export interface DnsRecordUpdate {
+    type: 'record';
+    domainAddress: string;
+    record: DnsRecordKind;
+    value?: string;         // Address for 'wallet', hex for 'site' and 'storage'
+}
+
+/**
+ * DNS update: renew a domain for another year
+ */
+export interface DnsRenewal {
+    type: 'renew';
+    domainAddress: string;
+}
+
+/**
+ * Any change_dns_record message a domain owner sends
+ */
+export type DnsUpdate = DnsRecordUpdate | DnsRenewal;
+
 // =============================================================================
 // HIGHLOAD WALLET SPECIFIC TYPES
 // =============================================================================
@@ -195,6 +642,49 @@ export interface HighloadExternalMessageOptions {
     timeout: number;
 }
 
+/**
+ * Highload external message signed for later (re)broadcast
+ */
+export interface SignedHighloadMessage {
+    queryId: bigint;
+    createdAt: number;      // Unix seconds; valid until createdAt + timeout
+    hash: string;
+    boc: string;            // Base64
+}
+
+/**
+ * Whether a wallet processed a query ID, and when it last cleaned its
+ * processed lists (a query is remembered for at least one timeout after
+ * it was processed)
+ */
+export interface HighloadQueryState {
+    processed: boolean;
+    lastCleanedAt: number;
+}
+
+/**
+ * Highload V3 address of a key for one subwallet ID and timeout
+ */
+export interface HighloadVariant {
+    subwalletId: number;
+    timeout: number;
+    address: string;
+}
+
+/**
+ * Highload V3 wallet as read from chain, next to this device's query ID store
+ */
+export interface HighloadWalletState extends HighloadVariant {
+    status: 'active' | 'uninitialized' | 'frozen';
+    balance: bigint;
+    lastCleanedAt: number | null;         // Null until deployed
+    processedCount: number;               // Query IDs the wallet remembers
+    lastProcessedQueryId: bigint | null;
+    nextQueryId: bigint;                  // Next one this device signs with
+    remainingQueryIds: number;
+    warnings: string[];
+}
+
 // =============================================================================
 // SECURITY TYPES
 // =============================================================================
@@ -289,20 +779,166 @@ export interface AppState {
 // =============================================================================
 
 /**
- * V5 Extension configuration
+ * Extension installed on a V5 wallet.
+ * W5 keeps no per-extension permissions: an extension may request any action.
  */
 export interface V5Extension {
     address: Address;
-    permissions: number;
+    rawAddress: string;
+}
+
+/**
+ * V5 action: send an internal message
+ */
+export interface V5SendMsgAction {
+    type: 'sendMsg';
+    mode: number;
+    outMsg: MessageRelaxed;
+}
+
+/**
+ * V5 extended action: install an extension
+ */
+export interface V5AddExtensionAction {
+    type: 'addExtension';
+    address: Address;
+}
+
+/**
+ * V5 extended action: uninstall an extension
+ */
+export interface V5RemoveExtensionAction {
+    type: 'removeExtension';
+    address: Address;
+}
+
+/**
+ * V5 extended action: allow or forbid signature authentication
+ */
+export interface V5SetSignatureAuthAction {
+    type: 'setIsPublicKeyEnabled';
+    isEnabled: boolean;
 }
 
 /**
- * V5 Gasless transaction configuration
+ * Any action of a V5 request
  */
-export interface GaslessTransactionConfig {
+export type V5Action =
+    | V5SendMsgAction
+    | V5AddExtensionAction
+    | V5RemoveExtensionAction
+    | V5SetSignatureAuthAction;
+
+/**
+ * How a V5 request is authenticated:
+ * signed external (`sign`), signed internal (`sint`) or sent by an extension (`extn`)
+ */
+export type V5AuthType = 'external' | 'internal' | 'extension';
+
+// =============================================================================
+// MULTISIG TYPES
+// =============================================================================
+
+/**
+ * Multisig v2 order action: send an internal message from the multisig
+ */
+export interface MultisigTransferAction {
+    type: 'transfer';
+    sendMode: number;
     message: MessageRelaxed;
-    relayerAddress: string;
-    sponsorAddress?: string;
+}
+
+/**
+ * Multisig v2 order action: replace the signers, proposers and threshold
+ */
+export interface MultisigUpdateAction {
+    type: 'update';
+    threshold: number;
+    signers: Address[];
+    proposers: Address[];
+}
+
+/**
+ * Any action of a multisig v2 order
+ */
+export type MultisigAction = MultisigTransferAction | MultisigUpdateAction;
+
+/**
+ * On-chain state of a multisig v2 wallet (get_multisig_data)
+ */
+export interface MultisigData {
+    nextOrderSeqno: bigint;
+    threshold: number;
+    signers: Address[];
+    proposers: Address[];
+}
+
+/**
+ * Multisig order status: waiting for approvals, executed, or expired unexecuted
+ */
+export type MultisigOrderStatus = 'pending' | 'executed' | 'expired';
+
+/**
+ * Multisig v2 order with its approval state (get_order_data)
+ */
+export interface MultisigOrderInfo {
+    seqno: bigint;
+    address: Address;
+    status: MultisigOrderStatus;
+    threshold: number;
+    signers: Address[];
+    approvals: boolean[];  // By signer index
+    approvalsNum: number;
+    expiresAt: number;     // Unix time
+    actions: MultisigAction[];
+}
+
+/**
+ * Result of creating a multisig order: the order to follow until it executes
+ */
+export interface MultisigOrderResult extends TransactionResult {
+    orderSeqno?: bigint;
+    orderAddress?: string;
+}
+
+// =============================================================================
+// GASLESS TYPES
+// =============================================================================
+
+/**
+ * Gasless relayer configuration
+ */
+export interface GaslessConfig {
+    relayAddress: string;
+    gasJettons: string[];  // Jetton masters accepted as fee payment
+}
+
+/**
+ * Request for a relayer quote on wallet messages
+ */
+export interface GaslessEstimateRequest {
+    jettonMaster: string;
+    walletAddress: string;
+    walletPublicKey: string;
+    messages: Cell[];      // Internal messages (MessageRelaxed cells)
+}
+
+/**
+ * Relayer quote: the messages to sign, including the fee payment
+ */
+export interface GaslessQuote {
+    jettonMaster: string;
+    relayAddress: string;
+    commission: bigint;    // Relayer fee in jetton units
+    validUntil: number;    // Unix time the signed request must expire by
+    messages: MessageRelaxed[];
+}
+
+/**
+ * Jetton transfer paid for in the same jetton
+ */
+export interface GaslessJettonParams extends JettonTransferParams {
+    jettonMaster: string;
 }
 
 // =============================================================================
@@ -330,6 +966,48 @@ export const JETTON_OP_CODES = {
     TRANSFER_NOTIFICATION: 0x7362d09c,
 } as const;
 
+/**
+ * NFT constants
+ */
+export const NFT_OP_CODES = {
+    TRANSFER: 0x5fcc3d14,
+    OWNERSHIP_ASSIGNED: 0x05138d91,
+    EXCESSES: 0xd53276db,
+} as const;
+
+/**
+ * Staking pool op codes (nominator pools take text comments instead)
+ */
+export const STAKING_OP_CODES = {
+    WHALES_DEPOSIT: 0x7bcd1fef,
+    WHALES_WITHDRAW: 0xda803efd,
+    TONSTAKERS_DEPOSIT: 0x47d54391,
+    HIPO_DEPOSIT: 0x3d3761a6,
+} as const;
+
+/**
+ * TEP-64 content layout prefixes
+ */
+export const NFT_CONTENT_PREFIX = {
+    ONCHAIN: 0x00,
+    OFFCHAIN: 0x01,
+    SNAKE: 0x00,
+    CHUNKS: 0x01,
+} as const;
+
+/**
+ * TON DNS (TEP-81) op codes and record prefixes
+ */
+export const DNS_OP_CODES = {
+    CHANGE_RECORD: 0x4eb1f0f9,
+} as const;
+
+export const DNS_RECORD_PREFIX = {
+    SMC_ADDRESS: 0x9fd3,
+    ADNL_ADDRESS: 0xad01,
+    STORAGE_ADDRESS: 0x7473,
+} as const;
+
 /**
  * Highload wallet constants
  */
@@ -340,6 +1018,38 @@ export const HIGHLOAD_CONSTANTS = {
     QUERY_ID_SHIFT_MAX: 8191,
     QUERY_ID_BIT_MAX: 1022,
     OP_INTERNAL_TRANSFER: 0xae42e5a4,
+    MAX_EXT_MSG_DEPTH: 512,     // Config param 43
+    MAX_EXT_MSG_SIZE: 65535,    // Bytes of the external message BOC
+    MAX_MSG_CELLS: 8192,        // Cells of the internal transfer carrying the actions
+} as const;
+
+/**
+ * Wallet V5R1 constants
+ */
+export const V5_CONSTANTS = {
+    MAX_ACTIONS: 255,
+    OP_SIGNED_EXTERNAL: 0x7369676e,
+    OP_SIGNED_INTERNAL: 0x73696e74,
+    OP_EXTENSION: 0x6578746e,
+    DEFAULT_TIMEOUT: 60,
+} as const;
+
+/**
+ * Multisig v2 constants
+ */
+export const MULTISIG_CONSTANTS = {
+    OP_NEW_ORDER: 0xf718510f,
+    OP_EXECUTE: 0x75097f5d,
+    OP_APPROVE: 0xa762230f,
+    OP_APPROVED: 0x82609bf6,
+    OP_APPROVE_REJECTED: 0xafaf283e,
+    ACTION_SEND_MESSAGE: 0xf1381e5b,
+    ACTION_UPDATE_PARAMS: 0x1d0cfbd3,
+    ORDER_SEQNO_SIZE: 256,
+    SIGNER_INDEX_SIZE: 8,
+    TIME_SIZE: 48,
+    MAX_SIGNERS: 255,
+    MAX_ACTIONS: 255,
 } as const;
 
 /**
@@ -6,7 +6,15 @@
  */
 
 import { TonClient } from '@ton/ton';
-import { toNano } from '@ton/core';
+import {
+    beginCell,
+    Cell,
+    external,
+    toNano,
+    MessageRelaxed,
+    SendMode,
+    storeMessage
+} from '@ton/core';
 import type {
     WalletVersion,
     WalletInfo,
@@ -15,6 +23,7 @@ import type {
     TransactionResult,
     NetworkType
 } from '../types';
+import { V5_CONSTANTS } from '../types';
 
 import { V3R1WalletService } from './v3r1';
 import { V3R2WalletService } from './v3r2';
@@ -85,6 +94,18 @@ export class StandardWalletService {
         }
     }
 
+    /**
+     * Get wallet address (non-bounceable) for a public key
+     */
+    getAddress(publicKey: Buffer, version: StandardWalletVersion, subwalletId?: number): string {
+        const contract = this.createContract(publicKey, version, subwalletId);
+
+        return contract.address.toString({
+            bounceable: false,
+            testOnly: this.network === 'testnet',
+        });
+    }
+
     /**
      * Get all wallet addresses for a mnemonic
      */
@@ -127,6 +148,126 @@ export class StandardWalletService {
         }
     }
 
+    /**
+     * Send raw internal messages in a single external message (up to 4, 255 for V5R1).
+     * Returns the signed external message BOC so callers (e.g. TON Connect) can hand it back.
+     */
+    async sendMessages(
+        client: TonClient,
+        keyPair: KeyPair,
+        version: StandardWalletVersion,
+        messages: MessageRelaxed[],
+        sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS
+    ): Promise<TransactionResult> {
+        try {
+            const { message: externalMessage, seqno } = await this.createExternalMessage(
+                client,
+                keyPair,
+                version,
+                messages,
+                sendMode
+            );
+
+            await client.sendFile(externalMessage.toBoc());
+
+            return {
+                success: true,
+                seqno,
+                hash: externalMessage.hash().toString('hex'),
+                boc: externalMessage.toBoc().toString('base64'),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Build the signed external message for raw internal messages without sending it.
+     * Includes the state init while the wallet is not deployed (seqno 0).
+     */
+    async createExternalMessage(
+        client: TonClient,
+        keyPair: KeyPair,
+        version: StandardWalletVersion,
+        messages: MessageRelaxed[],
+        sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS
+    ): Promise<{ message: Cell; seqno: number }> {
+        if (messages.length === 0) {
+            throw new Error('No messages to send');
+        }
+
+        const maxMessages = version === 'v5r1' ? V5_CONSTANTS.MAX_ACTIONS : 4;
+        if (messages.length > maxMessages) {
+            throw new Error(`${version} wallet can only send up to ${maxMessages} messages per transaction`);
+        }
+
+        const seqno = await this.getSeqno(client, keyPair, version);
+        const args = {
+            secretKey: keyPair.secretKey,
+            seqno,
+            messages,
+            sendMode,
+        };
+
+        let contract;
+        let transfer: Cell;
+        switch (version) {
+            case 'v3r1':
+                contract = this.v3r1.createContract(keyPair.publicKey);
+                transfer = contract.createTransfer(args);
+                break;
+            case 'v3r2':
+                contract = this.v3r2.createContract(keyPair.publicKey);
+                transfer = contract.createTransfer(args);
+                break;
+            case 'v4r2':
+                contract = this.v4r2.createContract(keyPair.publicKey);
+                transfer = contract.createTransfer(args);
+                break;
+            case 'v5r1':
+                contract = this.v5r1.createContract(keyPair.publicKey);
+                transfer = contract.createTransfer(args);
+                break;
+            default:
+                throw new Error(`Unsupported wallet version for multi-message send: ${version}`);
+        }
+
+        const message = beginCell()
+            .store(storeMessage(external({
+                to: contract.address,
+                init: seqno === 0 ? contract.init : undefined,
+                body: transfer,
+            })))
+            .endCell();
+
+        return { message, seqno };
+    }
+
+    /**
+     * Wrap a body signed elsewhere (offline signer) into an external message.
+     * Includes the state init while the wallet is not deployed (seqno 0).
+     */
+    createSignedExternalMessage(
+        publicKey: Buffer,
+        version: StandardWalletVersion,
+        signedBody: Cell,
+        seqno: number,
+        subwalletId?: number
+    ): Cell {
+        const contract = this.createContract(publicKey, version, subwalletId);
+
+        return beginCell()
+            .store(storeMessage(external({
+                to: contract.address,
+                init: seqno === 0 ? contract.init : undefined,
+                body: signedBody,
+            })))
+            .endCell();
+    }
+
     /**
      * Send TON with simpler interface
      */
@@ -154,15 +295,18 @@ export class StandardWalletService {
     async getSeqno(
         client: TonClient,
         keyPair: KeyPair,
-        version: StandardWalletVersion
+        version: StandardWalletVersion,
+        subwalletId?: number
     ): Promise<number> {
         switch (version) {
             case 'v3r1':
-                return this.v3r1.getSeqno(client, keyPair);
+                return this.v3r1.getSeqno(client, keyPair, subwalletId);
             case 'v3r2':
-                return this.v3r2.getSeqno(client, keyPair);
+                return this.v3r2.getSeqno(client, keyPair, subwalletId);
             case 'v4r2':
-                return this.v4r2.getSeqno(client, keyPair);
+                return this.v4r2.getSeqno(client, keyPair, subwalletId);
+            case 'v5r1':
+                return this.v5r1.getSeqno(client, this.v5r1.createContract(keyPair.publicKey, subwalletId).address);
             default:
                 throw new Error(`Unsupported wallet version for seqno: ${version}`);
         }
@@ -175,6 +319,24 @@ export class StandardWalletService {
         return this.network;
     }
 
+    /**
+     * Create wallet contract for a version
+     */
+    private createContract(publicKey: Buffer, version: StandardWalletVersion, subwalletId?: number) {
+        switch (version) {
+            case 'v3r1':
+                return this.v3r1.createContract(publicKey, subwalletId);
+            case 'v3r2':
+                return this.v3r2.createContract(publicKey, subwalletId);
+            case 'v4r2':
+                return this.v4r2.createContract(publicKey, subwalletId);
+            case 'v5r1':
+                return this.v5r1.createContract(publicKey, subwalletId);
+            default:
+                throw new Error(`Unsupported wallet version: ${version}`);
+        }
+    }
+
     /**
      * Create service for different network
      */
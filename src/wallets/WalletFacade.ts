@@ -0,0 +1,1652 @@
+/**
+ * Wallet Facade
+ *
+ * Single entry point used by the app for every wallet version:
+ * import, TON send, payload send, jetton send, NFT send and highload batch send
+ * (TON, jettons, NFTs and raw messages mixed in one batch),
+ * plus W5 extension management, gasless jetton transfers, TON DNS
+ * (resolution, reverse lookup, record edits and renewal of owned domains),
+ * staking (nominator, Whales and liquid pools) and Highload V3 inspection
+ * (addresses per subwallet ID and timeout, and their query ID state).
+ * Standard wallets go through StandardWalletService, Highload V3 through
+ * HighloadWalletV3Service, so the UI and batch tooling share one code path
+ * for retries and DNS resolution.
+ *
+ * Every send has a matching preview that runs the same external message,
+ * signed with a placeholder key, through an emulation backend.
+ *
+ * Multisig v2 wallets act through orders: every deploy, order and approval
+ * is a message sent from one of the member's own wallets.
+ *
+ * Watch-only accounts send through a cold signer: the transfer is prepared
+ * with the public key only, signed on the air-gapped device and broadcast
+ * back here once the signature checks out.
+ */
+
+import { Buffer } from 'buffer';
+import { TonClient, internal } from '@ton/ton';
+import {
+    Address,
+    beginCell,
+    Cell,
+    MessageRelaxed,
+    SendMode,
+    storeMessageRelaxed,
+    toNano
+} from '@ton/core';
+import type {
+    WalletVersion,
+    WalletInfo,
+    KeyPair,
+    JettonTransferParams,
+    JettonBalance,
+    JettonMasterInfo,
+    BatchTransaction,
+    HighloadBatchItem,
+    TransactionHistoryItem,
+    TransactionResult,
+    EmulationResult,
+    NetworkType,
+    V5Action,
+    V5Extension,
+    GaslessJettonParams,
+    GaslessQuote,
+    NftTransferParams,
+    NftItem,
+    NftCollectionInfo,
+    NftMetadata,
+    DnsDomain,
+    DnsResolution,
+    DnsUpdate,
+    StakingAction,
+    StakingPool,
+    StakingPosition,
+    MultisigAction,
+    MultisigData,
+    MultisigOrderInfo,
+    MultisigOrderResult,
+    SignedHighloadMessage,
+    HighloadQueryState,
+    HighloadVariant,
+    HighloadWalletState
+} from '../types';
+import { DEFAULT_CONFIG, HIGHLOAD_CONSTANTS } from '../types';
+import { StandardWalletService } from './StandardWallet';
+import type { StandardWalletVersion } from './StandardWallet';
+import {
+    HighloadWalletV3Service,
+    HighloadWalletV3,
+    HighloadQueryId,
+    packHighloadMessages,
+    highloadWalletV3DataFromCell,
+    getQueryIdWarnings
+} from './highload-v3';
+import { V5R1WalletService } from './v5r1';
+import { V3R1JettonService } from './v3r1';
+import { NftService, NFT_TRANSFER_GAS } from './nft';
+import { DnsService, DNS_UPDATE_GAS, isDnsDomain } from './dns';
+import { StakingService, LIQUID_STAKING_POOLS, isLiquidStaking, liquidPosition } from './staking';
+import { MultisigV2Service, findMultisigMember } from './multisig-v2';
+import type { MultisigV2Config } from './multisig-v2';
+import { MnemonicService, OfflineSigningService } from '../crypto';
+import type { ColdSignerAccount, OfflineMessage, SignedTransaction, UnsignedTransaction } from '../crypto';
+import { RpcClient, TonApiClient } from '../network';
+import { TonApiEmulator } from '../emulation';
+import type { EmulationBackend } from '../emulation';
+import { TonApiGaslessRelayer, isGasJetton, validateGaslessQuote } from '../gasless';
+import type { GaslessRelayer } from '../gasless';
+
+/**
+ * TON attached to a jetton transfer to pay for jetton wallet gas
+ */
+const JETTON_TRANSFER_GAS = toNano('0.05');
+
+/**
+ * TON attached to a W5 request delivered by another wallet (sint, extn)
+ */
+const V5_REQUEST_VALUE = toNano('0.05');
+
+/**
+ * Wallet facade configuration
+ */
+export interface WalletFacadeConfig {
+    rpcClient?: RpcClient;
+    tonApiClient?: TonApiClient;
+    emulator?: EmulationBackend;
+    gaslessRelayer?: GaslessRelayer;
+    multisigCode?: Cell;   // Multisig v2 contract code for deployments
+}
+
+/**
+ * Options for a transfer prepared for a cold signer
+ */
+export interface OfflineTransferOptions {
+    subwalletId?: number;  // Wallet ID of the account when not the default
+    timeout?: number;      // Highload V3 timeout when not the default
+    sendMode?: SendMode;
+    validFor?: number;     // Seconds the signer has to sign (standard wallets)
+}
+
+/**
+ * Wallet Facade
+ */
+export class WalletFacade {
+    private readonly network: NetworkType;
+    private readonly rpcClient: RpcClient;
+    private readonly tonApiClient: TonApiClient;
+    private readonly mnemonicService: MnemonicService;
+    private readonly standardService: StandardWalletService;
+    private readonly highloadService: HighloadWalletV3Service;
+    private readonly highloadVariants: Map<string, HighloadWalletV3Service>;
+    private readonly v5r1Service: V5R1WalletService;
+    private readonly jettonService: V3R1JettonService;
+    private readonly nftService: NftService;
+    private readonly dnsService: DnsService;
+    private readonly stakingService: StakingService;
+    private readonly multisigService: MultisigV2Service;
+    private readonly emulator: EmulationBackend;
+    private readonly gaslessRelayer: GaslessRelayer;
+    private readonly offlineSigningService: OfflineSigningService;
+
+    constructor(network: NetworkType = 'mainnet', config: WalletFacadeConfig = {}) {
+        this.network = network;
+        this.rpcClient = config.rpcClient ?? new RpcClient({ network });
+        this.tonApiClient = config.tonApiClient ?? new TonApiClient(network);
+        this.mnemonicService = new MnemonicService();
+        this.standardService = new StandardWalletService(network);
+        this.highloadService = new HighloadWalletV3Service(network);
+        this.highloadVariants = new Map();
+        this.v5r1Service = new V5R1WalletService(network);
+        this.jettonService = new V3R1JettonService(network);
+        this.nftService = new NftService(network);
+        this.dnsService = new DnsService(network);
+        this.stakingService = new StakingService(network);
+        this.multisigService = new MultisigV2Service(network, config.multisigCode);
+        this.emulator = config.emulator ?? new TonApiEmulator(network, this.tonApiClient);
+        this.gaslessRelayer = config.gaslessRelayer ?? new TonApiGaslessRelayer(network, this.tonApiClient);
+        this.offlineSigningService = new OfflineSigningService();
+    }
+
+    /**
+     * Get TonClient
+     */
+    getClient(): TonClient {
+        return this.rpcClient.getClient();
+    }
+
+    /**
+     * Generate new mnemonic
+     */
+    async generateMnemonic(wordCount: 12 | 24 = 24): Promise<string[]> {
+        return this.mnemonicService.generateMnemonic(wordCount);
+    }
+
+    /**
+     * Get private key (hex) from mnemonic
+     */
+    async getPrivateKey(mnemonic: string[]): Promise<string> {
+        if (!mnemonic || mnemonic.length === 0) {
+            throw new Error('Mnemonic required');
+        }
+        const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+        return keyPair.secretKey.toString('hex');
+    }
+
+    /**
+     * Import wallet of any version from mnemonic
+     */
+    async importWallet(mnemonic: string[], version: WalletVersion = 'v4r2'): Promise<WalletInfo> {
+        if (version === 'highload-v3') {
+            return this.highloadService.createFromMnemonic(mnemonic);
+        }
+        return this.standardService.createFromMnemonic(mnemonic, version);
+    }
+
+    /**
+     * Resolve an address or a TON DNS domain (.ton, .t.me)
+     */
+    async resolveAddress(input: string): Promise<Address> {
+        const value = input?.trim();
+        if (!value) {
+            throw new Error('Address required');
+        }
+
+        if (isDnsDomain(value)) {
+            const resolved = await this.tonApiClient.resolveDomain(value);
+            if (!resolved) {
+                throw new Error(`Could not resolve domain: ${value}`);
+            }
+            return Address.parse(resolved);
+        }
+
+        return Address.parse(value);
+    }
+
+    /**
+     * Send TON with optional comment
+     */
+    async sendTon(
+        mnemonic: string[],
+        version: WalletVersion,
+        recipient: string,
+        amount: bigint,
+        comment?: string
+    ): Promise<TransactionResult> {
+        return this.sendWithPayload(mnemonic, version, recipient, amount, commentBody(comment));
+    }
+
+    /**
+     * Send TON with a custom body (DEX swaps, contract calls)
+     */
+    async sendWithPayload(
+        mnemonic: string[],
+        version: WalletVersion,
+        recipient: string,
+        amount: bigint,
+        body?: Cell
+    ): Promise<TransactionResult> {
+        try {
+            const message = await this.buildTransferMessage(recipient, amount, body);
+            return await this.sendMessages(mnemonic, version, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Send jetton transfer (TEP-74). Amount is in jetton units.
+     * Excess TON returns to the sender unless responseDestination is set.
+     */
+    async sendJetton(
+        mnemonic: string[],
+        version: WalletVersion,
+        params: JettonTransferParams
+    ): Promise<TransactionResult> {
+        try {
+            const wallet = await this.importWallet(mnemonic, version);
+            const message = await this.buildJettonMessage(wallet.address, params);
+            return await this.sendMessagesWithKeyPair(wallet.keyPair, version, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Send an NFT item (TEP-62) from any wallet version.
+     * Excess TON returns to the sender unless responseDestination is set.
+     */
+    async sendNft(
+        mnemonic: string[],
+        version: WalletVersion,
+        params: NftTransferParams
+    ): Promise<TransactionResult> {
+        try {
+            const wallet = await this.importWallet(mnemonic, version);
+            const message = await this.buildNftMessage(wallet.address, params);
+            return await this.sendMessagesWithKeyPair(wallet.keyPair, version, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Send a change_dns_record to a domain the wallet owns: set or delete
+     * its wallet, site or storage record, or renew it for another year
+     */
+    async sendDnsUpdate(
+        mnemonic: string[],
+        version: WalletVersion,
+        update: DnsUpdate
+    ): Promise<TransactionResult> {
+        try {
+            const message = await this.buildDnsMessage(update);
+            return await this.sendMessages(mnemonic, version, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Deposit into or withdraw from a staking pool
+     */
+    async sendStaking(
+        mnemonic: string[],
+        version: WalletVersion,
+        action: StakingAction
+    ): Promise<TransactionResult> {
+        try {
+            const wallet = await this.importWallet(mnemonic, version);
+            const message = await this.buildStakingMessage(wallet.address, action);
+            return await this.sendMessagesWithKeyPair(wallet.keyPair, version, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Send a batch of TON transfers from a Highload V3 wallet (up to 254)
+     */
+    async sendBatch(
+        mnemonic: string[],
+        transactions: BatchTransaction[]
+    ): Promise<TransactionResult> {
+        try {
+            const messages: MessageRelaxed[] = [];
+            for (const tx of transactions) {
+                messages.push(internal({
+                    to: await this.resolveAddress(tx.to),
+                    value: tx.amount,
+                    body: commentBody(tx.comment),
+                    bounce: tx.bounce ?? isBounceable(tx.to),
+                }));
+            }
+
+            return await this.sendMessages(mnemonic, 'highload-v3', messages);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Send a batch of NFT items from a Highload V3 wallet (up to 254)
+     */
+    async sendNftBatch(
+        mnemonic: string[],
+        transfers: NftTransferParams[]
+    ): Promise<TransactionResult> {
+        try {
+            const wallet = await this.importWallet(mnemonic, 'highload-v3');
+            const messages: MessageRelaxed[] = [];
+            for (const transfer of transfers) {
+                messages.push(await this.buildNftMessage(wallet.address, transfer));
+            }
+
+            return await this.sendMessagesWithKeyPair(wallet.keyPair, 'highload-v3', messages);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Send a mixed-asset batch from a Highload V3 wallet in as few external
+     * messages as the highload limits allow, each under its own query ID.
+     * Returns one result per external message; the others are still sent
+     * when one fails.
+     */
+    async sendHighloadBatch(
+        mnemonic: string[],
+        items: HighloadBatchItem[]
+    ): Promise<TransactionResult[]> {
+        try {
+            const wallet = await this.importWallet(mnemonic, 'highload-v3');
+            const groups = packHighloadMessages(await this.buildHighloadBatch(wallet.address, items));
+
+            const results: TransactionResult[] = [];
+            for (const messages of groups) {
+                results.push(await this.sendMessagesWithKeyPair(wallet.keyPair, 'highload-v3', messages));
+            }
+            return results;
+        } catch (error) {
+            return [{
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            }];
+        }
+    }
+
+    /**
+     * Build the internal messages of a mixed-asset highload batch, in item
+     * order. The owner's jetton wallet is looked up once per master.
+     */
+    async buildHighloadBatch(ownerAddress: string, items: HighloadBatchItem[]): Promise<MessageRelaxed[]> {
+        const jettonWallets = new Map<string, string>();
+        const messages: MessageRelaxed[] = [];
+
+        for (const item of items) {
+            switch (item.type) {
+                case 'ton':
+                    messages.push(internal({
+                        to: await this.resolveAddress(item.to),
+                        value: item.amount,
+                        body: commentBody(item.comment),
+                        bounce: item.bounce ?? isBounceable(item.to),
+                    }));
+                    break;
+
+                case 'jetton': {
+                    const { type, jettonMaster, ...params } = item;
+                    const key = Address.parse(jettonMaster).toRawString();
+                    let jettonWalletAddress = jettonWallets.get(key);
+                    if (!jettonWalletAddress) {
+                        jettonWalletAddress = await this.getJettonWalletAddress(ownerAddress, jettonMaster) ?? undefined;
+                        if (!jettonWalletAddress) {
+                            throw new Error(`No jetton wallet for ${jettonMaster}`);
+                        }
+                        jettonWallets.set(key, jettonWalletAddress);
+                    }
+                    messages.push(await this.buildJettonMessage(ownerAddress, { ...params, jettonWalletAddress }));
+                    break;
+                }
+
+                case 'nft': {
+                    const { type, ...params } = item;
+                    messages.push(await this.buildNftMessage(ownerAddress, params));
+                    break;
+                }
+
+                case 'raw':
+                    messages.push(internal({
+                        to: await this.resolveAddress(item.to),
+                        value: item.amount,
+                        body: item.body,
+                        init: item.init,
+                        bounce: item.bounce ?? isBounceable(item.to),
+                    }));
+                    break;
+            }
+        }
+
+        return messages;
+    }
+
+    /**
+     * Send raw internal messages from any wallet version
+     */
+    async sendMessages(
+        mnemonic: string[],
+        version: WalletVersion,
+        messages: MessageRelaxed[],
+        sendMode?: SendMode
+    ): Promise<TransactionResult> {
+        const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+        return this.sendMessagesWithKeyPair(keyPair, version, messages, sendMode);
+    }
+
+    /**
+     * Send raw internal messages with an already derived key pair.
+     * Rate-limited attempts are retried with backoff.
+     */
+    async sendMessagesWithKeyPair(
+        keyPair: KeyPair,
+        version: WalletVersion,
+        messages: MessageRelaxed[],
+        sendMode?: SendMode
+    ): Promise<TransactionResult> {
+        const client = this.getClient();
+
+        return this.withSendRetry(() => version === 'highload-v3'
+            ? this.highloadService.sendMessages(client, keyPair, messages, sendMode)
+            : this.standardService.sendMessages(
+                client,
+                keyPair,
+                version as StandardWalletVersion,
+                messages,
+                sendMode
+            ));
+    }
+
+    /**
+     * Sign raw internal messages from a Highload V3 wallet without sending
+     * them, under a freshly reserved query ID. The same message can be
+     * broadcast again until it expires; it is processed at most once.
+     */
+    signHighloadMessages(
+        keyPair: KeyPair,
+        messages: MessageRelaxed[],
+        createdAt: number = Math.floor(Date.now() / 1000) - 60,
+        sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY
+    ): SignedHighloadMessage {
+        const queryId = this.highloadService.reserveQueryId(keyPair.publicKey);
+        const message = this.highloadService.createExternalMessage(keyPair, messages, queryId, sendMode, createdAt);
+        return {
+            queryId: queryId.getQueryId(),
+            createdAt,
+            hash: message.hash().toString('hex'),
+            boc: message.toBoc().toString('base64'),
+        };
+    }
+
+    /**
+     * Broadcast a signed external message (base64 BOC)
+     */
+    async sendExternalMessage(boc: string): Promise<void> {
+        await this.rpcClient.withRetry(() => this.getClient().sendFile(Buffer.from(boc, 'base64')));
+    }
+
+    /**
+     * Read whether a Highload V3 wallet processed a query ID. The processed
+     * lists are read as stored (no simulated clean), and before the clean
+     * time, so a clean in between can only make the answer more cautious.
+     * Throws when the wallet cannot be read.
+     */
+    async getHighloadQueryState(walletAddress: string, queryId: bigint): Promise<HighloadQueryState> {
+        return this.rpcClient.withRetry(async () => {
+            const wallet = HighloadWalletV3.createFromAddress(Address.parse(walletAddress));
+            const provider = this.getClient().provider(wallet.address);
+            const processed = await wallet.getProcessed(provider, HighloadQueryId.fromQueryId(queryId), false);
+            const lastCleanedAt = await wallet.getLastCleaned(provider);
+            return { processed, lastCleanedAt };
+        });
+    }
+
+    /**
+     * Derive the Highload V3 addresses of a key for every pair of subwallet
+     * ID and timeout
+     */
+    getHighloadVariants(publicKey: Buffer, subwalletIds: number[], timeouts: number[]): HighloadVariant[] {
+        const variants: HighloadVariant[] = [];
+
+        for (const subwalletId of subwalletIds) {
+            if (!Number.isInteger(subwalletId) || subwalletId < 0 || subwalletId > 0xffffffff) {
+                throw new Error(`Invalid subwallet ID: ${subwalletId}`);
+            }
+            for (const timeout of timeouts) {
+                if (!Number.isInteger(timeout) || timeout <= 0 || timeout >= 2 ** HIGHLOAD_CONSTANTS.TIMEOUT_SIZE) {
+                    throw new Error(`Invalid timeout: ${timeout}`);
+                }
+                variants.push({
+                    subwalletId,
+                    timeout,
+                    address: this.getAddress(publicKey, 'highload-v3', subwalletId, timeout),
+                });
+            }
+        }
+
+        return variants;
+    }
+
+    /**
+     * Read the Highload V3 wallet of a key from chain: status, balance,
+     * clean time and the query IDs it remembers, next to this device's
+     * query ID store and its warnings
+     */
+    async getHighloadWalletState(publicKey: Buffer, subwalletId?: number, timeout?: number): Promise<HighloadWalletState> {
+        const service = this.getHighloadService(subwalletId, timeout);
+        const address = service.getWalletAddress(publicKey);
+        const state = await this.rpcClient.withRetry(() => this.getClient().getContractState(Address.parse(address)));
+
+        const data = state.state === 'active' && state.data
+            ? highloadWalletV3DataFromCell(Cell.fromBoc(state.data)[0])
+            : null;
+        const processed = data?.processed ?? [];
+        const lastProcessedQueryId = processed.length > 0 ? processed[processed.length - 1] : null;
+        const next = service.peekQueryId(publicKey);
+
+        return {
+            subwalletId: service.getSubwalletId(),
+            timeout: service.getTimeout(),
+            address,
+            status: state.state,
+            balance: state.balance,
+            lastCleanedAt: data?.lastCleanedAt ?? null,
+            processedCount: processed.length,
+            lastProcessedQueryId,
+            nextQueryId: next.getQueryId(),
+            remainingQueryIds: next.getRemainingCount(),
+            warnings: getQueryIdWarnings(next, lastProcessedQueryId),
+        };
+    }
+
+    /**
+     * Read every Highload V3 wallet of a key over the given subwallet IDs
+     * and timeouts
+     */
+    async discoverHighloadWallets(publicKey: Buffer, subwalletIds: number[], timeouts: number[]): Promise<HighloadWalletState[]> {
+        const states: HighloadWalletState[] = [];
+        for (const variant of this.getHighloadVariants(publicKey, subwalletIds, timeouts)) {
+            states.push(await this.getHighloadWalletState(publicKey, variant.subwalletId, variant.timeout));
+        }
+        return states;
+    }
+
+    /**
+     * Move this device's query ID store past every query ID the wallet
+     * remembers, after another app sent from it
+     */
+    async syncHighloadQueryIds(publicKey: Buffer, subwalletId?: number, timeout?: number): Promise<HighloadWalletState> {
+        const state = await this.getHighloadWalletState(publicKey, subwalletId, timeout);
+        if (state.lastProcessedQueryId === null || state.lastProcessedQueryId < state.nextQueryId) {
+            return state;
+        }
+
+        const next = this.getHighloadService(subwalletId, timeout).skipQueryIds(publicKey, state.lastProcessedQueryId);
+        return {
+            ...state,
+            nextQueryId: next.getQueryId(),
+            remainingQueryIds: next.getRemainingCount(),
+            warnings: getQueryIdWarnings(next, state.lastProcessedQueryId),
+        };
+    }
+
+    /**
+     * Sign and send any W5 actions (out messages and extended actions)
+     */
+    async sendV5Actions(mnemonic: string[], actions: V5Action[]): Promise<TransactionResult> {
+        const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+        const client = this.getClient();
+        return this.withSendRetry(() => this.v5r1Service.sendActions(client, keyPair, actions));
+    }
+
+    /**
+     * Install an extension on a W5 wallet
+     */
+    async addExtension(mnemonic: string[], extensionAddress: string): Promise<TransactionResult> {
+        try {
+            const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+            const extension = await this.resolveAddress(extensionAddress);
+            const client = this.getClient();
+            return await this.withSendRetry(() => this.v5r1Service.addExtension(client, keyPair, extension));
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Uninstall an extension from a W5 wallet
+     */
+    async removeExtension(mnemonic: string[], extensionAddress: string): Promise<TransactionResult> {
+        try {
+            const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+            const extension = await this.resolveAddress(extensionAddress);
+            const client = this.getClient();
+            return await this.withSendRetry(() => this.v5r1Service.removeExtension(client, keyPair, extension));
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Allow or forbid signature authentication on a W5 wallet
+     */
+    async setSignatureAuthAllowed(mnemonic: string[], allowed: boolean): Promise<TransactionResult> {
+        const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+        const client = this.getClient();
+        return this.withSendRetry(() => this.v5r1Service.setSignatureAuthAllowed(client, keyPair, allowed));
+    }
+
+    /**
+     * Sign W5 actions as an internal request (op "sint") and have another
+     * wallet deliver it, paying the gas
+     */
+    async sendSignedInternal(
+        mnemonic: string[],
+        actions: V5Action[],
+        carrierMnemonic: string[],
+        carrierVersion: WalletVersion,
+        value: bigint = V5_REQUEST_VALUE
+    ): Promise<TransactionResult> {
+        try {
+            const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+            const walletAddress = this.v5r1Service.createContract(keyPair.publicKey).address;
+            const seqno = await this.v5r1Service.getSeqno(this.getClient(), walletAddress);
+            const message = this.v5r1Service.createInternalSignedMessage(keyPair, actions, seqno, value);
+            return await this.sendMessages(carrierMnemonic, carrierVersion, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Request W5 actions from a wallet installed as an extension (op "extn")
+     */
+    async sendFromExtension(
+        extensionMnemonic: string[],
+        extensionVersion: WalletVersion,
+        walletAddress: string,
+        actions: V5Action[],
+        value: bigint = V5_REQUEST_VALUE
+    ): Promise<TransactionResult> {
+        try {
+            const message = this.v5r1Service.createExtensionMessage(
+                await this.resolveAddress(walletAddress),
+                actions,
+                value
+            );
+            return await this.sendMessages(extensionMnemonic, extensionVersion, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Quote a W5 jetton transfer whose fee is paid in the same jetton.
+     * Excess TON goes to the relay, which covers the gas.
+     */
+    async quoteGaslessJetton(publicKey: Buffer, params: GaslessJettonParams): Promise<GaslessQuote> {
+        const config = await this.gaslessRelayer.getConfig();
+        if (!isGasJetton(config, params.jettonMaster)) {
+            throw new Error('This token cannot be used to pay the network fee');
+        }
+
+        const walletAddress = this.getAddress(publicKey, 'v5r1');
+        const message = await this.buildJettonMessage(walletAddress, {
+            ...params,
+            responseDestination: config.relayAddress,
+            forwardAmount: params.forwardAmount ?? 1n,
+        });
+
+        const quote = await this.gaslessRelayer.estimate({
+            jettonMaster: params.jettonMaster,
+            walletAddress,
+            walletPublicKey: publicKey.toString('hex'),
+            messages: [beginCell().store(storeMessageRelaxed(message)).endCell()],
+        });
+
+        validateGaslessQuote(quote, params, config.relayAddress);
+        return quote;
+    }
+
+    /**
+     * Sign a gasless quote from a W5 wallet and submit it to the relayer.
+     * The quote is checked again against the transfer it was quoted for.
+     */
+    async sendGaslessJetton(
+        mnemonic: string[],
+        quote: GaslessQuote,
+        params: GaslessJettonParams
+    ): Promise<TransactionResult> {
+        try {
+            const config = await this.gaslessRelayer.getConfig();
+            validateGaslessQuote(quote, params, config.relayAddress);
+
+            const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+            const walletAddress = this.v5r1Service.createContract(keyPair.publicKey).address;
+            const seqno = await this.v5r1Service.getSeqno(this.getClient(), walletAddress);
+            const message = this.v5r1Service.buildGaslessTransaction(keyPair, quote, seqno);
+
+            await this.gaslessRelayer.send(keyPair.publicKey, message);
+
+            return {
+                success: true,
+                seqno,
+                hash: message.hash().toString('hex'),
+                boc: message.toBoc().toString('base64'),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Get extensions installed on a W5 wallet
+     */
+    async getExtensions(walletAddress: string): Promise<V5Extension[]> {
+        return this.v5r1Service.getExtensions(this.getClient(), Address.parse(walletAddress));
+    }
+
+    /**
+     * Check if a W5 wallet accepts signed requests
+     */
+    async isSignatureAuthAllowed(walletAddress: string): Promise<boolean> {
+        return this.v5r1Service.isSignatureAuthAllowed(this.getClient(), Address.parse(walletAddress));
+    }
+
+    /**
+     * Get the address a multisig configuration deploys to.
+     * Without configured code, codeSource names a deployed multisig v2 to copy it from.
+     */
+    async getMultisigAddress(config: MultisigV2Config, codeSource?: string): Promise<string> {
+        await this.loadMultisigCode(codeSource);
+        return this.multisigService.getAddress(config);
+    }
+
+    /**
+     * Deploy a multisig v2 from one of the caller's wallets; value funds the multisig
+     */
+    async deployMultisig(
+        mnemonic: string[],
+        version: WalletVersion,
+        config: MultisigV2Config,
+        value: bigint,
+        codeSource?: string
+    ): Promise<TransactionResult> {
+        try {
+            await this.loadMultisigCode(codeSource);
+            const message = this.multisigService.createDeployMessage(config, value);
+            return await this.sendMessages(mnemonic, version, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Get signers, proposers and threshold of a multisig v2
+     */
+    async getMultisigData(multisigAddress: string): Promise<MultisigData> {
+        return this.multisigService.getMultisigData(this.getClient(), Address.parse(multisigAddress));
+    }
+
+    /**
+     * Get the latest orders of a multisig v2 with their approvals, newest first
+     */
+    async getMultisigOrders(multisigAddress: string, limit?: number): Promise<MultisigOrderInfo[]> {
+        return this.multisigService.getOrders(this.getClient(), Address.parse(multisigAddress), limit);
+    }
+
+    /**
+     * Propose a TON transfer from a multisig; a signer's order counts as its approval
+     */
+    async proposeMultisigTransfer(
+        mnemonic: string[],
+        version: WalletVersion,
+        multisigAddress: string,
+        recipient: string,
+        amount: bigint,
+        comment: string | undefined,
+        expiresAt: number
+    ): Promise<MultisigOrderResult> {
+        try {
+            const message = await this.buildTransferMessage(recipient, amount, commentBody(comment));
+            return await this.createMultisigOrder(mnemonic, version, multisigAddress, [
+                { type: 'transfer', sendMode: SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS, message },
+            ], expiresAt);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Create a multisig order with any actions from a signer's or proposer's wallet
+     */
+    async createMultisigOrder(
+        mnemonic: string[],
+        version: WalletVersion,
+        multisigAddress: string,
+        actions: MultisigAction[],
+        expiresAt: number
+    ): Promise<MultisigOrderResult> {
+        try {
+            const wallet = await this.importWallet(mnemonic, version);
+            const client = this.getClient();
+            const multisig = Address.parse(multisigAddress);
+
+            const member = findMultisigMember(
+                await this.multisigService.getMultisigData(client, multisig),
+                Address.parse(wallet.address)
+            );
+            if (!member) {
+                throw new Error('This wallet is not a signer or proposer of the multisig');
+            }
+
+            const { message, orderSeqno, orderAddress } = await this.multisigService.createNewOrderMessage(
+                client,
+                multisig,
+                member,
+                actions,
+                expiresAt
+            );
+            const result = await this.sendMessagesWithKeyPair(wallet.keyPair, version, [message]);
+
+            return {
+                ...result,
+                orderSeqno,
+                orderAddress: this.multisigService.formatAddress(orderAddress),
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Approve a pending multisig order as one of its signers
+     */
+    async approveMultisigOrder(mnemonic: string[], version: WalletVersion, orderAddress: string): Promise<TransactionResult> {
+        try {
+            const wallet = await this.importWallet(mnemonic, version);
+            const order = await this.multisigService.getOrder(this.getClient(), Address.parse(orderAddress));
+            if (!order) {
+                throw new Error('Order not found');
+            }
+            if (order.status !== 'pending') {
+                throw new Error(`Order is already ${order.status}`);
+            }
+
+            const signerIndex = order.signers.findIndex(signer => signer.equals(Address.parse(wallet.address)));
+            if (signerIndex === -1) {
+                throw new Error('This wallet is not a signer of the order');
+            }
+            if (order.approvals[signerIndex]) {
+                throw new Error('This wallet has already approved the order');
+            }
+
+            const message = this.multisigService.createApproveMessage(order.address, signerIndex);
+            return await this.sendMessagesWithKeyPair(wallet.keyPair, version, [message]);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Follow a multisig order until it executes or expires
+     */
+    async waitForMultisigOrder(orderAddress: string, timeoutMs?: number): Promise<MultisigOrderInfo | null> {
+        return this.multisigService.waitForExecution(this.getClient(), Address.parse(orderAddress), timeoutMs);
+    }
+
+    /**
+     * Make sure multisig code is available, copying it from codeSource if needed
+     */
+    private async loadMultisigCode(codeSource?: string): Promise<void> {
+        if (this.multisigService.getCode()) {
+            return;
+        }
+        if (!codeSource) {
+            throw new Error('Multisig contract code is not configured, name a deployed multisig v2 to copy it from');
+        }
+        await this.multisigService.loadCode(this.getClient(), await this.resolveAddress(codeSource));
+    }
+
+    /**
+     * Pairing data a cold signer shares with its watch-only counterpart
+     */
+    async getColdSignerAccount(mnemonic: string[], version: WalletVersion): Promise<ColdSignerAccount> {
+        const wallet = await this.importWallet(mnemonic, version);
+        return {
+            publicKey: wallet.publicKey,
+            walletVersion: version,
+            address: wallet.address,
+        };
+    }
+
+    /**
+     * Prepare a TON transfer for a cold signer, using the public key only
+     */
+    async prepareOfflineTransfer(
+        publicKey: Buffer,
+        version: WalletVersion,
+        recipient: string,
+        amount: bigint,
+        comment?: string,
+        options: OfflineTransferOptions = {}
+    ): Promise<UnsignedTransaction> {
+        const message = await this.buildTransferMessage(recipient, amount, commentBody(comment));
+        return this.prepareOfflineMessages(publicKey, version, [message], options);
+    }
+
+    /**
+     * Prepare a jetton transfer for a cold signer
+     */
+    async prepareOfflineJetton(
+        publicKey: Buffer,
+        version: WalletVersion,
+        params: JettonTransferParams,
+        options: OfflineTransferOptions = {}
+    ): Promise<UnsignedTransaction> {
+        const ownerAddress = this.getAddress(publicKey, version, options.subwalletId, options.timeout);
+        const message = await this.buildJettonMessage(ownerAddress, params);
+        return this.prepareOfflineMessages(publicKey, version, [message], options);
+    }
+
+    /**
+     * Prepare an NFT transfer for a cold signer
+     */
+    async prepareOfflineNft(
+        publicKey: Buffer,
+        version: WalletVersion,
+        params: NftTransferParams,
+        options: OfflineTransferOptions = {}
+    ): Promise<UnsignedTransaction> {
+        const ownerAddress = this.getAddress(publicKey, version, options.subwalletId, options.timeout);
+        const message = await this.buildNftMessage(ownerAddress, params);
+        return this.prepareOfflineMessages(publicKey, version, [message], options);
+    }
+
+    /**
+     * Prepare a DNS record change or renewal for a cold signer
+     */
+    async prepareOfflineDnsUpdate(
+        publicKey: Buffer,
+        version: WalletVersion,
+        update: DnsUpdate,
+        options: OfflineTransferOptions = {}
+    ): Promise<UnsignedTransaction> {
+        const message = await this.buildDnsMessage(update);
+        return this.prepareOfflineMessages(publicKey, version, [message], options);
+    }
+
+    /**
+     * Prepare a staking deposit or withdrawal for a cold signer
+     */
+    async prepareOfflineStaking(
+        publicKey: Buffer,
+        version: WalletVersion,
+        action: StakingAction,
+        options: OfflineTransferOptions = {}
+    ): Promise<UnsignedTransaction> {
+        const ownerAddress = this.getAddress(publicKey, version, options.subwalletId, options.timeout);
+        const message = await this.buildStakingMessage(ownerAddress, action);
+        return this.prepareOfflineMessages(publicKey, version, [message], options);
+    }
+
+    /**
+     * Prepare raw internal messages for a cold signer. Standard wallets are
+     * prepared against the current seqno; highload wallets consume a query ID
+     * here, so a discarded transfer never shares one with a later send.
+     */
+    async prepareOfflineMessages(
+        publicKey: Buffer,
+        version: WalletVersion,
+        messages: MessageRelaxed[],
+        options: OfflineTransferOptions = {}
+    ): Promise<UnsignedTransaction> {
+        const offlineMessages = messages.map(message => toOfflineMessage(message));
+        const walletAddress = this.getAddress(publicKey, version, options.subwalletId, options.timeout);
+
+        if (version === 'highload-v3') {
+            const queryId = this.getHighloadService(options.subwalletId, options.timeout).reserveQueryId(publicKey);
+            return this.offlineSigningService.prepareForSigning(offlineMessages, {
+                walletAddress,
+                walletVersion: version,
+                seqno: 0,
+                subwalletId: options.subwalletId,
+                queryId: queryId.getQueryId(),
+                timeout: options.timeout,
+            }, options.sendMode);
+        }
+
+        const keyPair: KeyPair = { publicKey, secretKey: Buffer.alloc(64) };
+        const seqno = await this.standardService.getSeqno(this.getClient(), keyPair, version, options.subwalletId);
+
+        return this.offlineSigningService.prepareForSigning(offlineMessages, {
+            walletAddress,
+            walletVersion: version,
+            seqno,
+            subwalletId: options.subwalletId,
+        }, options.sendMode, options.validFor);
+    }
+
+    /**
+     * Sign a transfer on the cold signer. Refuses transfers prepared for
+     * another wallet or already expired.
+     */
+    async signOfflineTransaction(mnemonic: string[], unsigned: UnsignedTransaction): Promise<SignedTransaction> {
+        const keyPair = await this.mnemonicService.mnemonicToKeyPair(mnemonic);
+
+        const walletAddress = Address.parse(this.getAddress(
+            keyPair.publicKey,
+            unsigned.walletVersion,
+            unsigned.subwalletId,
+            unsigned.timeout
+        ));
+        if (!walletAddress.equals(Address.parse(unsigned.walletAddress))) {
+            throw new Error('Transaction was prepared for a different wallet');
+        }
+        if (unsigned.validUntil <= Math.floor(Date.now() / 1000)) {
+            throw new Error('Transaction has expired');
+        }
+
+        return this.offlineSigningService.createSignedTransaction(unsigned, keyPair.secretKey);
+    }
+
+    /**
+     * Broadcast a transfer signed by the cold signer. The signature must
+     * verify against the watch-only public key and cover exactly the
+     * transfer that was prepared.
+     */
+    async broadcastOfflineTransaction(
+        publicKey: Buffer,
+        unsigned: UnsignedTransaction,
+        signed: SignedTransaction
+    ): Promise<TransactionResult> {
+        try {
+            const prepared = this.offlineSigningService.createUnsignedBody(unsigned);
+            const received = this.offlineSigningService.createUnsignedBody(signed.unsigned);
+            if (!prepared.equals(received)) {
+                throw new Error('Signed transaction does not match the prepared transfer');
+            }
+            if (!this.offlineSigningService.verifySignedTransaction(signed, publicKey)) {
+                throw new Error('Invalid signature');
+            }
+
+            const signedBody = this.offlineSigningService.parseSignedTransaction(signed.signedBody);
+            const message = unsigned.walletVersion === 'highload-v3'
+                ? this.getHighloadService(unsigned.subwalletId, unsigned.timeout)
+                    .createSignedExternalMessage(publicKey, signedBody)
+                : this.standardService.createSignedExternalMessage(
+                    publicKey,
+                    unsigned.walletVersion,
+                    signedBody,
+                    unsigned.seqno,
+                    unsigned.subwalletId
+                );
+
+            return await this.withSendRetry(async () => {
+                await this.getClient().sendFile(message.toBoc());
+                return {
+                    success: true,
+                    ...(unsigned.walletVersion === 'highload-v3'
+                        ? { queryId: unsigned.queryId }
+                        : { seqno: unsigned.seqno }),
+                    hash: message.hash().toString('hex'),
+                    boc: message.toBoc().toString('base64'),
+                };
+            });
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Run a send, retrying rate-limited attempts with backoff
+     */
+    private async withSendRetry(send: () => Promise<TransactionResult>): Promise<TransactionResult> {
+        try {
+            return await this.rpcClient.withRetry(async () => {
+                const result = await send();
+
+                // Surface rate limiting to withRetry so the attempt is repeated
+                if (!result.success && isRateLimited(result.error)) {
+                    throw new Error(result.error);
+                }
+
+                return result;
+            });
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Preview a TON transfer (fee, outcome) before it is signed
+     */
+    async previewTon(
+        publicKey: Buffer,
+        version: WalletVersion,
+        recipient: string,
+        amount: bigint,
+        comment?: string
+    ): Promise<EmulationResult> {
+        return this.previewWithPayload(publicKey, version, recipient, amount, commentBody(comment));
+    }
+
+    /**
+     * Preview a TON transfer with a custom body (DEX swaps, contract calls)
+     */
+    async previewWithPayload(
+        publicKey: Buffer,
+        version: WalletVersion,
+        recipient: string,
+        amount: bigint,
+        body?: Cell
+    ): Promise<EmulationResult> {
+        const message = await this.buildTransferMessage(recipient, amount, body);
+        return this.previewMessages(publicKey, version, [message]);
+    }
+
+    /**
+     * Preview a jetton transfer, including the jetton balance change
+     */
+    async previewJetton(
+        publicKey: Buffer,
+        version: WalletVersion,
+        params: JettonTransferParams
+    ): Promise<EmulationResult> {
+        const message = await this.buildJettonMessage(this.getAddress(publicKey, version), params);
+        return this.previewMessages(publicKey, version, [message]);
+    }
+
+    /**
+     * Preview an NFT transfer
+     */
+    async previewNft(
+        publicKey: Buffer,
+        version: WalletVersion,
+        params: NftTransferParams
+    ): Promise<EmulationResult> {
+        const message = await this.buildNftMessage(this.getAddress(publicKey, version), params);
+        return this.previewMessages(publicKey, version, [message]);
+    }
+
+    /**
+     * Preview a DNS record change or renewal
+     */
+    async previewDnsUpdate(
+        publicKey: Buffer,
+        version: WalletVersion,
+        update: DnsUpdate
+    ): Promise<EmulationResult> {
+        const message = await this.buildDnsMessage(update);
+        return this.previewMessages(publicKey, version, [message]);
+    }
+
+    /**
+     * Preview a staking deposit or withdrawal
+     */
+    async previewStaking(
+        publicKey: Buffer,
+        version: WalletVersion,
+        action: StakingAction
+    ): Promise<EmulationResult> {
+        const message = await this.buildStakingMessage(this.getAddress(publicKey, version), action);
+        return this.previewMessages(publicKey, version, [message]);
+    }
+
+    /**
+     * Preview raw internal messages. The external message is built exactly
+     * as for sending (seqno, state init, query ID) but signed with a
+     * placeholder key; highload query IDs are not consumed.
+     */
+    async previewMessages(
+        publicKey: Buffer,
+        version: WalletVersion,
+        messages: MessageRelaxed[],
+        sendMode?: SendMode
+    ): Promise<EmulationResult> {
+        const keyPair: KeyPair = { publicKey, secretKey: Buffer.alloc(64) };
+
+        const externalMessage = version === 'highload-v3'
+            ? this.highloadService.createExternalMessage(
+                keyPair,
+                messages,
+                this.highloadService.peekQueryId(publicKey),
+                sendMode
+            )
+            : (await this.standardService.createExternalMessage(
+                this.getClient(),
+                keyPair,
+                version as StandardWalletVersion,
+                messages,
+                sendMode
+            )).message;
+
+        return this.previewExternalMessage(externalMessage);
+    }
+
+    /**
+     * Emulate a signed external message from any wallet service
+     */
+    async previewExternalMessage(externalMessage: Cell): Promise<EmulationResult> {
+        return this.emulator.emulate(externalMessage);
+    }
+
+    /**
+     * Get wallet address of any version for a public key.
+     * Subwallet ID and (highload) timeout default to the standard values.
+     */
+    getAddress(publicKey: Buffer, version: WalletVersion, subwalletId?: number, timeout?: number): string {
+        if (version === 'highload-v3') {
+            return this.getHighloadService(subwalletId, timeout).getWalletAddress(publicKey);
+        }
+        return this.standardService.getAddress(publicKey, version, subwalletId);
+    }
+
+    /**
+     * Highload service for a subwallet ID and timeout, the shared one for the defaults
+     */
+    private getHighloadService(subwalletId?: number, timeout?: number): HighloadWalletV3Service {
+        if ((subwalletId ?? DEFAULT_CONFIG.SUBWALLET_ID) === DEFAULT_CONFIG.SUBWALLET_ID
+            && (timeout ?? DEFAULT_CONFIG.HIGHLOAD_TIMEOUT) === DEFAULT_CONFIG.HIGHLOAD_TIMEOUT) {
+            return this.highloadService;
+        }
+
+        // Kept per variant so its query ID stores are shared between calls
+        const key = `${subwalletId ?? DEFAULT_CONFIG.SUBWALLET_ID}:${timeout ?? DEFAULT_CONFIG.HIGHLOAD_TIMEOUT}`;
+        let service = this.highloadVariants.get(key);
+        if (!service) {
+            service = new HighloadWalletV3Service(
+                this.network,
+                subwalletId ?? DEFAULT_CONFIG.SUBWALLET_ID,
+                timeout ?? DEFAULT_CONFIG.HIGHLOAD_TIMEOUT
+            );
+            this.highloadVariants.set(key, service);
+        }
+        return service;
+    }
+
+    /**
+     * Build internal TON transfer; bounce follows the recipient address
+     */
+    async buildTransferMessage(recipient: string, amount: bigint, body?: Cell): Promise<MessageRelaxed> {
+        return internal({
+            to: await this.resolveAddress(recipient),
+            value: amount,
+            body,
+            bounce: isBounceable(recipient),
+        });
+    }
+
+    /**
+     * Build internal message to the owner's jetton wallet
+     */
+    async buildJettonMessage(ownerAddress: string, params: JettonTransferParams): Promise<MessageRelaxed> {
+        const recipient = await this.resolveAddress(params.to);
+
+        const body = this.jettonService.buildTransferBody({
+            ...params,
+            to: recipient.toString(),
+            responseDestination: params.responseDestination ?? ownerAddress,
+        });
+
+        return internal({
+            to: Address.parse(params.jettonWalletAddress),
+            value: params.gasAmount ?? JETTON_TRANSFER_GAS,
+            body,
+            bounce: true,
+        });
+    }
+
+    /**
+     * Build internal message to an NFT item owned by the wallet
+     */
+    private async buildNftMessage(ownerAddress: string, params: NftTransferParams): Promise<MessageRelaxed> {
+        const recipient = await this.resolveAddress(params.to);
+
+        const body = this.nftService.buildTransferBody({
+            ...params,
+            to: recipient.toString(),
+            responseDestination: params.responseDestination ?? ownerAddress,
+        });
+
+        return internal({
+            to: Address.parse(params.nftAddress),
+            value: NFT_TRANSFER_GAS,
+            body,
+            bounce: true,
+        });
+    }
+
+    /**
+     * Get the NFT items of an owner. Items the indexer has no metadata for
+     * are resolved from chain; those that fail to resolve are kept as they are.
+     */
+    async getNfts(ownerAddress: string, limit?: number): Promise<NftItem[]> {
+        const items = await this.tonApiClient.getNftItems(ownerAddress, limit);
+
+        for (const item of items) {
+            if (item.metadata.name || item.metadata.image) continue;
+            try {
+                item.metadata = await this.resolveNftMetadata(item.address);
+            } catch {
+                // Dead metadata links are common, the item still lists with its address
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Resolve the TEP-64 metadata of an NFT item from chain
+     */
+    async resolveNftMetadata(nftAddress: string): Promise<NftMetadata> {
+        return this.nftService.resolveItemMetadata(this.getClient(), Address.parse(nftAddress));
+    }
+
+    /**
+     * Get an NFT collection with its TEP-64 metadata from chain
+     */
+    async getNftCollection(collectionAddress: string): Promise<NftCollectionInfo> {
+        return this.nftService.getCollection(this.getClient(), Address.parse(collectionAddress));
+    }
+
+    /**
+     * Build internal message to a DNS item owned by the wallet.
+     * A wallet record may be given as a domain; it is stored resolved.
+     */
+    private async buildDnsMessage(update: DnsUpdate): Promise<MessageRelaxed> {
+        const resolved = update.type === 'record' && update.record === 'wallet' && update.value?.trim()
+            ? { ...update, value: (await this.resolveAddress(update.value)).toString() }
+            : update;
+
+        return internal({
+            to: Address.parse(update.domainAddress),
+            value: DNS_UPDATE_GAS,
+            body: this.dnsService.buildUpdateBody(resolved),
+            bounce: true,
+        });
+    }
+
+    /**
+     * Resolve the wallet, site and storage records of a domain
+     */
+    async resolveDns(domain: string): Promise<DnsResolution> {
+        const resolution = await this.tonApiClient.resolveDns(domain);
+        if (!resolution) {
+            throw new Error(`Could not resolve domain: ${domain.trim()}`);
+        }
+        return resolution;
+    }
+
+    /**
+     * Reverse-resolve an address to its domain (null when it has none)
+     */
+    async reverseResolve(address: string): Promise<string | null> {
+        return this.tonApiClient.reverseResolve(address);
+    }
+
+    /**
+     * Get the domains an owner holds. Expiry of .ton domains is read from
+     * chain; it stays unknown when the read fails.
+     */
+    async getDomains(ownerAddress: string): Promise<DnsDomain[]> {
+        const items = await this.tonApiClient.getNftItems(ownerAddress, 1000);
+        const domains: DnsDomain[] = [];
+
+        for (const item of items) {
+            if (!item.dns) continue;
+
+            let expiresAt: number | null = null;
+            if (item.dns.endsWith('.ton')) {
+                try {
+                    expiresAt = await this.dnsService.getExpiry(this.getClient(), Address.parse(item.address));
+                } catch {
+                    // Listed without an expiry rather than left out
+                }
+            }
+
+            domains.push({ name: item.dns, address: item.address, expiresAt });
+        }
+
+        return domains;
+    }
+
+    /**
+     * Build internal message for a staking action. Liquid withdrawals burn
+     * from the owner's liquid jetton wallet, looked up here.
+     */
+    private async buildStakingMessage(ownerAddress: string, action: StakingAction): Promise<MessageRelaxed> {
+        let liquidWallet: Address | undefined;
+        if (action.type === 'withdraw' && isLiquidStaking(action.pool.kind) && action.pool.liquidJetton) {
+            const walletAddress = await this.tonApiClient.getJettonWalletAddress(ownerAddress, action.pool.liquidJetton);
+            liquidWallet = walletAddress ? Address.parse(walletAddress) : undefined;
+        }
+
+        return this.stakingService.buildMessage(action, Address.parse(ownerAddress), liquidWallet);
+    }
+
+    /**
+     * Get staking pools, highest APY first (unknown APY last)
+     */
+    async getStakingPools(availableFor?: string): Promise<StakingPool[]> {
+        const pools = await this.tonApiClient.getStakingPools(availableFor);
+        return [...pools, ...LIQUID_STAKING_POOLS[this.network]]
+            .sort((a, b) => (b.apy ?? -1) - (a.apy ?? -1));
+    }
+
+    /**
+     * Get an owner's staking positions: stakes indexed by TonAPI, plus the
+     * liquid tokens held for every liquid pool
+     */
+    async getStakingPositions(ownerAddress: string, pools?: StakingPool[]): Promise<StakingPosition[]> {
+        const stakingPools = pools ?? await this.getStakingPools();
+        const positions = await this.tonApiClient.getStakingPositions(ownerAddress);
+
+        for (const pool of stakingPools) {
+            if (!pool.liquidJetton) continue;
+
+            const liquid = await this.tonApiClient.getJettonBalance(ownerAddress, pool.liquidJetton);
+            if (!liquid || liquid.balance === 0n) continue;
+
+            const poolAddress = Address.parse(pool.address);
+            const indexed = positions.find(position => Address.parse(position.poolAddress).equals(poolAddress));
+            if (indexed) {
+                indexed.liquidBalance = liquid.balance;
+            } else {
+                positions.push(liquidPosition(pool.address, liquid.balance, liquid.tonRate));
+            }
+        }
+
+        return positions;
+    }
+
+    /**
+     * Get jetton wallet address of an owner
+     */
+    async getJettonWalletAddress(ownerAddress: string, jettonMasterAddress: string): Promise<string | null> {
+        return this.tonApiClient.getJettonWalletAddress(ownerAddress, jettonMasterAddress);
+    }
+
+    /**
+     * Get an owner's balance of one jetton
+     */
+    async getJettonBalance(ownerAddress: string, jettonMasterAddress: string): Promise<JettonBalance | null> {
+        return this.tonApiClient.getJettonBalance(ownerAddress, jettonMasterAddress);
+    }
+
+    /**
+     * Get all jetton balances of an owner
+     */
+    async getJettonBalances(ownerAddress: string): Promise<JettonBalance[]> {
+        return this.tonApiClient.getJettonBalances(ownerAddress);
+    }
+
+    /**
+     * Read a jetton master from chain with its metadata; throws when the
+     * address is not a jetton master or its metadata has no usable symbol
+     */
+    async getJettonInfo(masterAddress: string): Promise<JettonMasterInfo> {
+        return this.jettonService.resolveJettonInfo(this.getClient(), Address.parse(masterAddress.trim()));
+    }
+
+    /**
+     * Get an account's recent history, newest first, optionally before a logical time
+     */
+    async getTransactions(address: string, limit?: number, beforeLt?: string): Promise<TransactionHistoryItem[]> {
+        return this.tonApiClient.getTransactions(address, limit, beforeLt);
+    }
+
+    /**
+     * Convert a decimal amount string to jetton units
+     */
+    parseJettonAmount(amount: string, decimals: number): bigint {
+        return this.jettonService.parseJettonAmount(amount, decimals);
+    }
+
+    /**
+     * Get network
+     */
+    getNetwork(): NetworkType {
+        return this.network;
+    }
+}
+
+/**
+ * Text comment body (op 0), if any
+ */
+function commentBody(comment?: string): Cell | undefined {
+    if (!comment) {
+        return undefined;
+    }
+    return beginCell()
+        .storeUint(0, 32)
+        .storeStringTail(comment)
+        .endCell();
+}
+
+/**
+ * Plain data of an internal message for the cold signer; the body travels as a BOC
+ */
+function toOfflineMessage(message: MessageRelaxed): OfflineMessage {
+    if (message.info.type !== 'internal' || message.init) {
+        throw new Error('Only internal messages without state init can be signed offline');
+    }
+
+    return {
+        to: message.info.dest.toString(),
+        amount: message.info.value.coins,
+        bounce: message.info.bounce,
+        payload: message.body.equals(Cell.EMPTY) ? undefined : message.body.toBoc().toString('base64'),
+    };
+}
+
+/**
+ * Bounce flag for a recipient: taken from the friendly address,
+ * non-bounceable for raw addresses and domains
+ */
+function isBounceable(input: string): boolean {
+    const value = input.trim();
+    if (!isDnsDomain(value) && Address.isFriendly(value)) {
+        return Address.parseFriendly(value).isBounceable;
+    }
+    return false;
+}
+
+/**
+ * Check if an error message indicates rate limiting
+ */
+function isRateLimited(message: string | undefined): boolean {
+    const value = (message || '').toLowerCase();
+    return value.includes('429') || value.includes('rate') || value.includes('too many');
+}
+
+/**
+ * Create wallet facade
+ */
+export function createWalletFacade(network: NetworkType = 'mainnet', config: WalletFacadeConfig = {}): WalletFacade {
+    return new WalletFacade(network, config);
+}
+
+export default WalletFacade;
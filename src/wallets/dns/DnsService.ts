@@ -0,0 +1,170 @@
+/**
+ * DNS Service
+ *
+ * Builds TON DNS (TEP-81) change_dns_record messages for domains the wallet
+ * owns: the wallet, site (ADNL) and storage (bag ID) records, plus renewal.
+ * A domain is an NFT item, so like NFT transfers these are internal messages
+ * from the owner's wallet and work with every wallet version.
+ *
+ * .ton domains expire one year after their last change_dns_record; reading
+ * the expiry and picking the domains due for renewal lives here too.
+ */
+
+import { TonClient } from '@ton/ton';
+import { Address, beginCell, Cell, toNano } from '@ton/core';
+import { sha256_sync } from '@ton/crypto';
+import type { DnsDomain, DnsRecordKind, DnsUpdate, NetworkType } from '../../types';
+import { DNS_OP_CODES, DNS_RECORD_PREFIX } from '../../types';
+
+/**
+ * TON attached to a change_dns_record to pay for the item's gas
+ */
+export const DNS_UPDATE_GAS = toNano('0.02');
+
+/**
+ * A .ton domain stays registered this long after its last change (seconds)
+ */
+export const DNS_DOMAIN_LIFETIME = 365 * 24 * 3600;
+
+/**
+ * Renewal reminders start this long before expiry (seconds)
+ */
+export const DNS_RENEWAL_WINDOW = 30 * 24 * 3600;
+
+/**
+ * DNS Service
+ */
+export class DnsService {
+    private readonly network: NetworkType;
+
+    constructor(network: NetworkType = 'mainnet') {
+        this.network = network;
+    }
+
+    /**
+     * Build a change_dns_record body. Records are keyed by the sha256 of their
+     * name; an update without a value deletes the record.
+     */
+    buildUpdateBody(update: DnsUpdate): Cell {
+        if (update.type === 'renew') {
+            return this.buildChangeRecordBody(0n);
+        }
+
+        const value = update.value?.trim();
+        return this.buildChangeRecordBody(
+            getDnsRecordKey(update.record),
+            value ? this.encodeRecord(update.record, value) : undefined
+        );
+    }
+
+    /**
+     * Encode a record value: a smart contract address for 'wallet',
+     * an ADNL address for 'site' and a bag ID for 'storage'
+     */
+    encodeRecord(record: DnsRecordKind, value: string): Cell {
+        switch (record) {
+            case 'wallet':
+                return beginCell()
+                    .storeUint(DNS_RECORD_PREFIX.SMC_ADDRESS, 16)
+                    .storeAddress(Address.parse(value))
+                    .storeUint(0, 8)                     // flags: no capability list
+                    .endCell();
+            case 'site':
+                return beginCell()
+                    .storeUint(DNS_RECORD_PREFIX.ADNL_ADDRESS, 16)
+                    .storeUint(parseHash(value, 'ADNL address'), 256)
+                    .storeUint(0, 8)                     // flags: no protocol list
+                    .endCell();
+            case 'storage':
+                return beginCell()
+                    .storeUint(DNS_RECORD_PREFIX.STORAGE_ADDRESS, 16)
+                    .storeUint(parseHash(value, 'Bag ID'), 256)
+                    .endCell();
+        }
+    }
+
+    /**
+     * Get when a .ton domain expires (Unix seconds)
+     */
+    async getExpiry(client: TonClient, domainAddress: Address): Promise<number> {
+        let result;
+        try {
+            result = await client.runMethod(domainAddress, 'get_last_fill_up_time');
+        } catch {
+            throw new Error('Not a .ton domain or not deployed yet');
+        }
+
+        return result.stack.readNumber() + DNS_DOMAIN_LIFETIME;
+    }
+
+    /**
+     * Get network
+     */
+    getNetwork(): NetworkType {
+        return this.network;
+    }
+
+    /**
+     * Build change_dns_record#4eb1f0f9 query_id:uint64 key:uint256 value:^DNSRecord?
+     */
+    private buildChangeRecordBody(key: bigint, value?: Cell): Cell {
+        const body = beginCell()
+            .storeUint(DNS_OP_CODES.CHANGE_RECORD, 32)   // op::change_dns_record
+            .storeUint(0, 64)                            // query_id
+            .storeUint(key, 256);                        // record key
+
+        // The item reads the value from the first ref when there is one
+        if (value) {
+            body.storeRef(value);
+        }
+
+        return body.endCell();
+    }
+}
+
+/**
+ * Dictionary key of a DNS record (sha256 of its name)
+ */
+export function getDnsRecordKey(record: DnsRecordKind): bigint {
+    return BigInt('0x' + sha256_sync(record).toString('hex'));
+}
+
+/**
+ * Check if input is a TON DNS domain (.ton, .t.me)
+ */
+export function isDnsDomain(input: string): boolean {
+    const value = input.trim().toLowerCase();
+    return value.endsWith('.ton') || value.endsWith('.t.me');
+}
+
+/**
+ * Domains to remind about: expired or expiring within the window, soonest first
+ */
+export function getRenewalReminders(
+    domains: DnsDomain[],
+    now: number = Math.floor(Date.now() / 1000),
+    window: number = DNS_RENEWAL_WINDOW
+): DnsDomain[] {
+    return domains
+        .filter(domain => domain.expiresAt !== null && domain.expiresAt - now <= window)
+        .sort((a, b) => a.expiresAt! - b.expiresAt!);
+}
+
+/**
+ * Parse a 32-byte hex value (ADNL address, bag ID)
+ */
+function parseHash(value: string, name: string): bigint {
+    if (!/^[0-9a-fA-F]{64}$/.test(value)) {
+        throw new Error(`${name} must be 64 hex characters`);
+    }
+    return BigInt('0x' + value);
+}
+
+/**
+ * Create DNS service
+ */
+export function createDnsService(network: NetworkType = 'mainnet'): DnsService {
+    return new DnsService(network);
+}
+
+export default DnsService;
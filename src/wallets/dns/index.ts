@@ -0,0 +1,14 @@
+/**
+ * DNS Module Exports
+ */
+
+export {
+    DnsService,
+    createDnsService,
+    DNS_UPDATE_GAS,
+    DNS_DOMAIN_LIFETIME,
+    DNS_RENEWAL_WINDOW,
+    getDnsRecordKey,
+    isDnsDomain,
+    getRenewalReminders
+} from './DnsService';
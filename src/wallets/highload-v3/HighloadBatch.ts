@@ -0,0 +1,141 @@
+/**
+ * Highload V3 Batch Packing
+ *
+ * Splits internal messages into groups that each fit one Highload V3
+ * external message. A group's messages become the out actions of one
+ * internal transfer, so a group holds at most 254 of them; the signed
+ * external message has to stay within the external message depth and size
+ * limits, and the internal transfer within the message cell limit.
+ *
+ * Sizes are counted per message without deduplicating cells shared between
+ * messages, so the estimate errs on the safe side.
+ */
+
+import { beginCell, Cell, MessageRelaxed, storeMessageRelaxed } from '@ton/core';
+import { HIGHLOAD_CONSTANTS } from '../../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Serialized footprint of a message
+ */
+interface MessageStats {
+    depth: number;
+    cells: number;
+    size: number;
+}
+
+interface Group {
+    messages: MessageRelaxed[];
+    depth: number;      // Of the out action list
+    cells: number;
+    size: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Cells above the out action list: external message, signed body, signed
+ * inner part, internal transfer message and its body
+ */
+const ENVELOPE_DEPTH = 5;
+
+/**
+ * Bytes of the external message outside the actions (BOC header, signature,
+ * inner part and internal transfer), rounded up
+ */
+const ENVELOPE_SIZE = 512;
+
+/**
+ * Cells of the internal transfer outside the actions: message, body and
+ * the empty list the actions start from
+ */
+const ENVELOPE_CELLS = 3;
+
+/**
+ * BOC bytes of one out action cell: descriptors, op and mode, two refs
+ */
+const ACTION_SIZE = 2 + 5 + 2 * 2;
+
+// ============================================================================
+// PACKING
+// ============================================================================
+
+/**
+ * Group messages into as few highload external messages as the limits
+ * allow. Each message goes to the first group it fits, so order is kept
+ * within a group while a later message may join an earlier group.
+ * Throws when a message does not fit even on its own.
+ */
+export function packHighloadMessages(messages: MessageRelaxed[]): MessageRelaxed[][] {
+    const groups: Group[] = [];
+
+    messages.forEach((message, index) => {
+        const stats = messageStats(message);
+        let group = groups.find(g => fits(g, stats));
+
+        if (!group) {
+            group = { messages: [], depth: 0, cells: 0, size: 0 };
+            if (!fits(group, stats)) {
+                throw new Error(`Message ${index + 1} does not fit in a highload external message`);
+            }
+            groups.push(group);
+        }
+
+        group.messages.push(message);
+        group.depth = 1 + Math.max(group.depth, stats.depth);
+        group.cells += stats.cells + 1;
+        group.size += stats.size + ACTION_SIZE;
+    });
+
+    return groups.map(group => group.messages);
+}
+
+/**
+ * Whether messages fit one highload external message
+ */
+export function fitsHighloadMessage(messages: MessageRelaxed[]): boolean {
+    return messages.length > 0 && packHighloadMessages(messages).length === 1;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether a message can be appended to a group. The newest action is the
+ * root of the out list, so the list grows one level per action.
+ */
+function fits(group: Group, stats: MessageStats): boolean {
+    return group.messages.length < HIGHLOAD_CONSTANTS.MAX_ACTIONS
+        && 1 + Math.max(group.depth, stats.depth) + ENVELOPE_DEPTH <= HIGHLOAD_CONSTANTS.MAX_EXT_MSG_DEPTH
+        && group.cells + stats.cells + 1 + ENVELOPE_CELLS <= HIGHLOAD_CONSTANTS.MAX_MSG_CELLS
+        && group.size + stats.size + ACTION_SIZE + ENVELOPE_SIZE <= HIGHLOAD_CONSTANTS.MAX_EXT_MSG_SIZE;
+}
+
+/**
+ * Depth, distinct cells and BOC bytes of a message
+ */
+function messageStats(message: MessageRelaxed): MessageStats {
+    const root = beginCell().store(storeMessageRelaxed(message)).endCell();
+    const seen = new Set<string>();
+    let cells = 0;
+    let size = 0;
+
+    const visit = (cell: Cell) => {
+        const hash = cell.hash().toString('hex');
+        if (seen.has(hash)) return;
+        seen.add(hash);
+
+        cells++;
+        size += 2 + Math.ceil(cell.bits.length / 8) + 2 * cell.refs.length;
+        cell.refs.forEach(visit);
+    };
+    visit(root);
+
+    return { depth: root.depth(), cells, size };
+}
@@ -43,6 +43,16 @@ export class HighloadQueryId {
         return new HighloadQueryId({ shift, bitNumber });
     }
 
+    /**
+     * Create from a full query ID ((shift << 10) + bitNumber)
+     */
+    static fromQueryId(queryId: bigint): HighloadQueryId {
+        return HighloadQueryId.fromShiftAndBitNumber(
+            Number(queryId >> 10n),
+            Number(queryId & 1023n)
+        );
+    }
+
     /**
      * Create from current timestamp (time-based initialization)
      */
@@ -216,6 +226,23 @@ export class QueryIdStore {
         return this.queryId.clone();
     }
 
+    /**
+     * Move past a query ID; never moves back
+     */
+    advancePast(queryId: bigint): void {
+        if (queryId < this.queryId.getQueryId()) {
+            return;
+        }
+
+        const next = HighloadQueryId.fromQueryId(queryId);
+        if (!next.hasNext()) {
+            throw new Error('No query IDs left after this one');
+        }
+        next.getNext();
+        this.queryId = next;
+        this.save();
+    }
+
     /**
      * Reset the store
      */
@@ -232,4 +259,31 @@ export class QueryIdStore {
     }
 }
 
+/**
+ * Query IDs left below which the store warns
+ */
+export const QUERY_ID_LOW_REMAINING = 64 * (HIGHLOAD_CONSTANTS.QUERY_ID_BIT_MAX + 1);
+
+/**
+ * Warnings about a local query ID store: running low, or behind the chain
+ * (the wallet remembers a query ID at or after the next local one, so
+ * another signer uses the wallet and the next sends may be dropped)
+ */
+export function getQueryIdWarnings(next: HighloadQueryId, lastProcessed: bigint | null): string[] {
+    const warnings: string[] = [];
+    const remaining = next.getRemainingCount();
+
+    if (remaining <= 0) {
+        warnings.push('No query IDs left on this device; use another subwallet ID');
+    } else if (remaining < QUERY_ID_LOW_REMAINING) {
+        warnings.push(`Only ${remaining} query IDs left on this device; use another subwallet ID before they run out`);
+    }
+
+    if (lastProcessed !== null && lastProcessed >= next.getQueryId()) {
+        warnings.push(`The wallet already processed query ID ${lastProcessed}, at or after this device's next one (${next.getQueryId()}); another app may be sending from it`);
+    }
+
+    return warnings;
+}
+
 export default HighloadQueryId;
@@ -12,8 +12,12 @@ import {
     beginCell,
     toNano,
     Cell,
+    external,
+    MessageRelaxed,
     SendMode,
-    OutActionSendMsg
+    OpenedContract,
+    OutActionSendMsg,
+    storeMessage
 } from '@ton/core';
 import { mnemonicToPrivateKey } from '@ton/crypto';
 import type {
@@ -27,6 +31,7 @@ import type {
 import { TON_CONSTANTS, DEFAULT_CONFIG, HIGHLOAD_CONSTANTS } from '../../types';
 import { HighloadWalletV3 } from './HighloadWalletV3';
 import { HighloadQueryId, QueryIdStore } from './HighloadQueryId';
+import { fitsHighloadMessage } from './HighloadBatch';
 
 /**
  * Official Highload Wallet V3 contract code (BOC)
@@ -48,7 +53,7 @@ export class HighloadWalletV3Service {
     private readonly workchain: number;
     private readonly subwalletId: number;
     private readonly timeout: number;
-    private queryIdStore: QueryIdStore | null = null;
+    private readonly queryIdStores = new Map<string, QueryIdStore>();
 
     constructor(
         network: NetworkType = 'mainnet',
@@ -83,7 +88,7 @@ export class HighloadWalletV3Service {
         });
 
         // Initialize query ID store for this wallet
-        this.queryIdStore = new QueryIdStore(address);
+        this.getQueryIdStore(address);
 
         return {
             version: 'highload-v3',
@@ -97,19 +102,21 @@ export class HighloadWalletV3Service {
     }
 
     /**
-     * Get or create query ID store
+     * Get or create query ID store (one per wallet address)
      */
     private getQueryIdStore(walletAddress: string): QueryIdStore {
-        if (!this.queryIdStore) {
-            this.queryIdStore = new QueryIdStore(walletAddress);
+        let store = this.queryIdStores.get(walletAddress);
+        if (!store) {
+            store = new QueryIdStore(walletAddress);
+            this.queryIdStores.set(walletAddress, store);
         }
-        return this.queryIdStore;
+        return store;
     }
 
     /**
      * Get opened contract
      */
-    getOpenedContract(client: TonClient, keyPair: KeyPair): HighloadWalletV3 {
+    getOpenedContract(client: TonClient, keyPair: KeyPair): OpenedContract<HighloadWalletV3> {
         const wallet = HighloadWalletV3.createFromConfig(
             {
                 publicKey: keyPair.publicKey,
@@ -119,7 +126,7 @@ export class HighloadWalletV3Service {
             HIGHLOAD_WALLET_V3_CODE,
             this.workchain
         );
-        return client.open(wallet) as unknown as HighloadWalletV3;
+        return client.open(wallet);
     }
 
     /**
@@ -169,9 +176,7 @@ export class HighloadWalletV3Service {
                 const createdAt = Math.floor(Date.now() / 1000) - offset;
 
                 try {
-                    const openedWallet = client.open(wallet) as unknown as HighloadWalletV3;
-
-                    await openedWallet.sendExternalMessage(
+                    await wallet.sendExternalMessage(
                         client.provider(wallet.address),
                         keyPair.secretKey,
                         {
@@ -212,30 +217,8 @@ export class HighloadWalletV3Service {
         transactions: BatchTransaction[]
     ): Promise<TransactionResult> {
         try {
-            if (transactions.length === 0) {
-                throw new Error('No transactions to send');
-            }
-
-            if (transactions.length > HIGHLOAD_CONSTANTS.MAX_ACTIONS) {
-                throw new Error(`Maximum ${HIGHLOAD_CONSTANTS.MAX_ACTIONS} transactions per batch`);
-            }
-
-            const wallet = HighloadWalletV3.createFromConfig({
-                publicKey: keyPair.publicKey,
-                subwalletId: this.subwalletId,
-                timeout: this.timeout,
-            }, HIGHLOAD_WALLET_V3_CODE, this.workchain);
-
-            const walletAddress = wallet.address.toString({
-                bounceable: false,
-                testOnly: this.network === 'testnet',
-            });
-
-            const queryIdStore = this.getQueryIdStore(walletAddress);
-            const queryId = queryIdStore.getNext();
-
             // Build batch messages
-            const messages: OutActionSendMsg[] = transactions.map(tx => {
+            const messages = transactions.map(tx => {
                 let body: Cell | undefined;
                 if (tx.comment) {
                     body = beginCell()
@@ -244,34 +227,45 @@ export class HighloadWalletV3Service {
                         .endCell();
                 }
 
-                return {
-                    type: 'sendMsg' as const,
-                    mode: SendMode.PAY_GAS_SEPARATELY,
-                    outMsg: internal({
-                        to: Address.parse(tx.to),
-                        value: tx.amount,
-                        body,
-                        bounce: tx.bounce ?? false,
-                    }),
-                };
+                return internal({
+                    to: Address.parse(tx.to),
+                    value: tx.amount,
+                    body,
+                    bounce: tx.bounce ?? false,
+                });
             });
 
-            const createdAt = Math.floor(Date.now() / 1000) - 60;
-            const openedWallet = client.open(wallet) as unknown as HighloadWalletV3;
+            return await this.sendMessages(client, keyPair, messages);
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
+        }
+    }
+
+    /**
+     * Send raw internal messages in a single external message (up to 254).
+     * Returns the signed external message BOC alongside the query ID.
+     */
+    async sendMessages(
+        client: TonClient,
+        keyPair: KeyPair,
+        messages: MessageRelaxed[],
+        sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY
+    ): Promise<TransactionResult> {
+        try {
+            const walletAddress = this.getWalletAddress(keyPair.publicKey);
+            const queryId = this.getQueryIdStore(walletAddress).getNext();
+            const externalMessage = this.createExternalMessage(keyPair, messages, queryId, sendMode);
 
-            await openedWallet.sendBatch(
-                client.provider(wallet.address),
-                keyPair.secretKey,
-                messages,
-                this.subwalletId,
-                queryId,
-                this.timeout,
-                createdAt
-            );
+            await client.sendFile(externalMessage.toBoc());
 
             return {
                 success: true,
                 queryId: queryId.getQueryId(),
+                hash: externalMessage.hash().toString('hex'),
+                boc: externalMessage.toBoc().toString('base64'),
             };
         } catch (error) {
             return {
@@ -281,6 +275,130 @@ export class HighloadWalletV3Service {
         }
     }
 
+    /**
+     * Build the signed external message for raw internal messages without sending it.
+     * The message is valid from `createdAt` until `createdAt + timeout`.
+     */
+    createExternalMessage(
+        keyPair: KeyPair,
+        messages: MessageRelaxed[],
+        queryId: HighloadQueryId,
+        sendMode: SendMode = SendMode.PAY_GAS_SEPARATELY,
+        createdAt: number = Math.floor(Date.now() / 1000) - 60
+    ): Cell {
+        if (messages.length === 0) {
+            throw new Error('No transactions to send');
+        }
+
+        if (messages.length > HIGHLOAD_CONSTANTS.MAX_ACTIONS) {
+            throw new Error(`Maximum ${HIGHLOAD_CONSTANTS.MAX_ACTIONS} transactions per batch`);
+        }
+
+        if (!fitsHighloadMessage(messages)) {
+            throw new Error('The messages are too large for one external message');
+        }
+
+        const wallet = HighloadWalletV3.createFromConfig({
+            publicKey: keyPair.publicKey,
+            subwalletId: this.subwalletId,
+            timeout: this.timeout,
+        }, HIGHLOAD_WALLET_V3_CODE, this.workchain);
+
+        const actions: OutActionSendMsg[] = messages.map(outMsg => ({
+            type: 'sendMsg' as const,
+            mode: sendMode,
+            outMsg,
+        }));
+
+        const signedBody = wallet.createBatchBody(
+            keyPair.secretKey,
+            actions,
+            this.subwalletId,
+            queryId,
+            this.timeout,
+            createdAt
+        );
+
+        return beginCell()
+            .store(storeMessage(external({
+                to: wallet.address,
+                body: signedBody,
+            })))
+            .endCell();
+    }
+
+    /**
+     * Get the next query ID of a wallet without consuming it
+     */
+    peekQueryId(publicKey: Buffer): HighloadQueryId {
+        return this.getQueryIdStore(this.getWalletAddress(publicKey)).getCurrent();
+    }
+
+    /**
+     * Consume the next query ID of a wallet for a message signed elsewhere (offline signer)
+     */
+    reserveQueryId(publicKey: Buffer): HighloadQueryId {
+        return this.getQueryIdStore(this.getWalletAddress(publicKey)).getNext();
+    }
+
+    /**
+     * Move a wallet's query ID store past a query ID used elsewhere;
+     * returns the next query ID
+     */
+    skipQueryIds(publicKey: Buffer, queryId: bigint): HighloadQueryId {
+        const store = this.getQueryIdStore(this.getWalletAddress(publicKey));
+        store.advancePast(queryId);
+        return store.getCurrent();
+    }
+
+    /**
+     * Get the subwallet ID
+     */
+    getSubwalletId(): number {
+        return this.subwalletId;
+    }
+
+    /**
+     * Get the timeout in seconds
+     */
+    getTimeout(): number {
+        return this.timeout;
+    }
+
+    /**
+     * Wrap a body signed elsewhere (offline signer) into an external message
+     */
+    createSignedExternalMessage(publicKey: Buffer, signedBody: Cell): Cell {
+        const wallet = HighloadWalletV3.createFromConfig({
+            publicKey,
+            subwalletId: this.subwalletId,
+            timeout: this.timeout,
+        }, HIGHLOAD_WALLET_V3_CODE, this.workchain);
+
+        return beginCell()
+            .store(storeMessage(external({
+                to: wallet.address,
+                body: signedBody,
+            })))
+            .endCell();
+    }
+
+    /**
+     * Get wallet address (non-bounceable) for a public key
+     */
+    getWalletAddress(publicKey: Buffer): string {
+        const wallet = HighloadWalletV3.createFromConfig({
+            publicKey,
+            subwalletId: this.subwalletId,
+            timeout: this.timeout,
+        }, HIGHLOAD_WALLET_V3_CODE, this.workchain);
+
+        return wallet.address.toString({
+            bounceable: false,
+            testOnly: this.network === 'testnet',
+        });
+    }
+
     /**
      * Send batch with multiple external messages (for > 254 transactions)
      */
@@ -321,9 +439,7 @@ export class HighloadWalletV3Service {
                 subwalletId: this.subwalletId,
                 timeout: this.timeout,
             }, HIGHLOAD_WALLET_V3_CODE, this.workchain);
-
-            const openedWallet = client.open(wallet) as unknown as HighloadWalletV3;
-            return await openedWallet.getProcessed(
+            return await wallet.getProcessed(
                 client.provider(wallet.address),
                 queryId
             );
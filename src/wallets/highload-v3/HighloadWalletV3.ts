@@ -10,6 +10,7 @@ import {
     Contract,
     contractAddress,
     ContractProvider,
+    Dictionary,
     internal as internal_relaxed,
     MessageRelaxed,
     OutAction,
@@ -29,6 +30,11 @@ export type HighloadWalletV3Config = {
     timeout: number;
 };
 
+export type HighloadWalletV3Data = HighloadWalletV3Config & {
+    lastCleanedAt: number;
+    processed: bigint[];     // Query IDs of the current and previous windows, ascending
+};
+
 // Constants from official implementation
 export const TIMESTAMP_SIZE = 64;
 export const TIMEOUT_SIZE = 22;
@@ -45,6 +51,37 @@ export function highloadWalletV3ConfigToCell(config: HighloadWalletV3Config): Ce
         .endCell();
 }
 
+/**
+ * Read the wallet's persistent data as stored, without the clean that
+ * processed? simulates. Processed query IDs are 1023-bit bitmap cells
+ * keyed by shift, one bit per bit number.
+ */
+export function highloadWalletV3DataFromCell(data: Cell): HighloadWalletV3Data {
+    const slice = data.beginParse();
+    const publicKey = slice.loadBuffer(32);
+    const subwalletId = slice.loadUint(32);
+    const queryDict = () => slice.loadDict(Dictionary.Keys.Uint(13), Dictionary.Values.Cell());
+    const oldQueries = queryDict();
+    const queries = queryDict();
+    const lastCleanedAt = slice.loadUint(TIMESTAMP_SIZE);
+    const timeout = slice.loadUint(TIMEOUT_SIZE);
+
+    const processed: bigint[] = [];
+    for (const dict of [oldQueries, queries]) {
+        for (const [shift, cell] of dict) {
+            const bits = cell.bits;
+            for (let bitNumber = 0; bitNumber < bits.length; bitNumber++) {
+                if (bits.at(bitNumber)) {
+                    processed.push(BigInt((shift << 10) + bitNumber));
+                }
+            }
+        }
+    }
+    processed.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    return { publicKey, subwalletId, timeout, lastCleanedAt, processed };
+}
+
 export class HighloadWalletV3 implements Contract {
     constructor(
         readonly address: Address,
@@ -90,6 +127,27 @@ export class HighloadWalletV3 implements Contract {
             timeout: number;
         }
     ) {
+        const signedBody = this.createExternalMessageBody(secretKey, opts);
+
+        await provider.external(signedBody);
+
+        return signedBody;
+    }
+
+    /**
+     * Build the signed external message body without sending it
+     */
+    createExternalMessageBody(
+        secretKey: Buffer,
+        opts: {
+            message: MessageRelaxed | Cell;
+            mode: number;
+            query_id: bigint | HighloadQueryId;
+            createdAt: number;
+            subwalletId: number;
+            timeout: number;
+        }
+    ): Cell {
         let messageCell: Cell;
 
         if (opts.message instanceof Cell) {
@@ -115,12 +173,10 @@ export class HighloadWalletV3 implements Contract {
             .endCell();
 
         // Sign and wrap - messageInner stored as REFERENCE
-        await provider.external(
-            beginCell()
-                .storeBuffer(sign(messageInner.hash(), secretKey))
-                .storeRef(messageInner)      // Inner message stored as REFERENCE
-                .endCell()
-        );
+        return beginCell()
+            .storeBuffer(sign(messageInner.hash(), secretKey))
+            .storeRef(messageInner)      // Inner message stored as REFERENCE
+            .endCell();
     }
 
     static createInternalTransferBody(opts: {
@@ -190,10 +246,31 @@ export class HighloadWalletV3 implements Contract {
         createdAt?: number,
         value: bigint = 0n
     ) {
+        const signedBody = this.createBatchBody(
+            secretKey, messages, subwallet, query_id, timeout, createdAt, value
+        );
+
+        await provider.external(signedBody);
+
+        return signedBody;
+    }
+
+    /**
+     * Build the signed batch body without sending it
+     */
+    createBatchBody(
+        secretKey: Buffer,
+        messages: OutActionSendMsg[],
+        subwallet: number,
+        query_id: HighloadQueryId,
+        timeout: number,
+        createdAt?: number,
+        value: bigint = 0n
+    ): Cell {
         if (createdAt === undefined) {
             createdAt = Math.floor(Date.now() / 1000);
         }
-        return await this.sendExternalMessage(provider, secretKey, {
+        return this.createExternalMessageBody(secretKey, {
             message: this.packActions(messages, value, query_id),
             mode: value > 0n ? SendMode.PAY_GAS_SEPARATELY : SendMode.CARRY_ALL_REMAINING_BALANCE,
             query_id: query_id,
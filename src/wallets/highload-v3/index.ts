@@ -2,10 +2,11 @@
  * Highload V3 Wallet Module Exports
  */
 
-export { HighloadQueryId, QueryIdStore } from './HighloadQueryId';
-export { HighloadWalletV3, highloadWalletV3ConfigToCell } from './HighloadWalletV3';
-export type { HighloadWalletV3Config } from './HighloadWalletV3';
+export { HighloadQueryId, QueryIdStore, QUERY_ID_LOW_REMAINING, getQueryIdWarnings } from './HighloadQueryId';
+export { HighloadWalletV3, highloadWalletV3ConfigToCell, highloadWalletV3DataFromCell } from './HighloadWalletV3';
+export type { HighloadWalletV3Config, HighloadWalletV3Data } from './HighloadWalletV3';
 export { HighloadWalletV3Service } from './HighloadService';
+export { packHighloadMessages, fitsHighloadMessage } from './HighloadBatch';
 export { HighloadV3JettonService } from './jettons/JettonService';
 export { HighloadV3UsdtService, USDT_MASTER_ADDRESS } from './jettons/usdt/UsdtService';
 export type { UsdtTransferParams } from './jettons/usdt/UsdtService';
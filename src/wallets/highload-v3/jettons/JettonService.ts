@@ -124,9 +124,8 @@ export class HighloadV3JettonService {
             });
 
             const createdAt = Math.floor(Date.now() / 1000) - 60;
-            const openedWallet = client.open(wallet) as unknown as HighloadWalletV3;
 
-            await openedWallet.sendExternalMessage(
+            await wallet.sendExternalMessage(
                 client.provider(wallet.address),
                 keyPair.secretKey,
                 {
@@ -199,9 +198,8 @@ export class HighloadV3JettonService {
             });
 
             const createdAt = Math.floor(Date.now() / 1000) - 60;
-            const openedWallet = client.open(wallet) as unknown as HighloadWalletV3;
 
-            await openedWallet.sendBatch(
+            await wallet.sendBatch(
                 client.provider(wallet.address),
                 keyPair.secretKey,
                 messages,
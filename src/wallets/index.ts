@@ -10,7 +10,7 @@ export type { StandardWalletVersion } from './StandardWallet';
 
 // V3R1
 export { V3R1WalletService, V3R1JettonService, V3R1UsdtService, V3R1NotcoinService } from './v3r1';
-export { USDT_MASTER_ADDRESS, NOTCOIN_MASTER_ADDRESS } from './v3r1';
+export { USDT_MASTER_ADDRESS, NOTCOIN_MASTER_ADDRESS, parseJettonContent, parseJettonMetadataJson } from './v3r1';
 
 // V3R2
 export { V3R2WalletService, V3R2JettonService, V3R2UsdtService, V3R2NotcoinService } from './v3r2';
@@ -20,15 +20,79 @@ export { V4R2WalletService, V4R2JettonService, V4R2UsdtService, V4R2NotcoinServi
 
 // V5R1
 export { V5R1WalletService, V5R1JettonService, V5R1UsdtService, V5R1NotcoinService } from './v5r1';
+export {
+    sendMsgAction,
+    addExtensionAction,
+    removeExtensionAction,
+    setSignatureAuthAction
+} from './v5r1';
+export type { V5RequestOptions } from './v5r1';
 
 // Highload V3
 export {
     HighloadQueryId,
     QueryIdStore,
+    getQueryIdWarnings,
     HighloadWalletV3,
     highloadWalletV3ConfigToCell,
+    highloadWalletV3DataFromCell,
     HighloadWalletV3Service,
     HighloadV3JettonService,
-    HighloadV3UsdtService
+    HighloadV3UsdtService,
+    packHighloadMessages,
+    fitsHighloadMessage
 } from './highload-v3';
-export type { HighloadWalletV3Config, UsdtTransferParams } from './highload-v3';
+export type { HighloadWalletV3Config, HighloadWalletV3Data, UsdtTransferParams } from './highload-v3';
+
+// Multisig V2
+export {
+    MultisigV2,
+    multisigV2ConfigToCell,
+    MultisigOrder,
+    MultisigV2Service,
+    createMultisigV2Service,
+    findMultisigMember
+} from './multisig-v2';
+export type { MultisigV2Config, MultisigOrderData, MultisigMember } from './multisig-v2';
+
+// NFT (TEP-62 transfers, any wallet version; TEP-64 metadata)
+export {
+    NftService,
+    createNftService,
+    NFT_TRANSFER_GAS,
+    parseNftContent,
+    loadOnchainContent,
+    parseNftMetadataJson,
+    resolveMetadataUrl,
+    filterNfts,
+    groupNftsByCollection
+} from './nft';
+export type { NftItemData } from './nft';
+
+// DNS (TEP-81 records and renewal of owned domains, any wallet version)
+export {
+    DnsService,
+    createDnsService,
+    DNS_UPDATE_GAS,
+    DNS_DOMAIN_LIFETIME,
+    DNS_RENEWAL_WINDOW,
+    getDnsRecordKey,
+    isDnsDomain,
+    getRenewalReminders
+} from './dns';
+
+// Staking (nominator, Whales and liquid pools, any wallet version)
+export {
+    StakingService,
+    createStakingService,
+    STAKING_FEES,
+    WHALES_GAS_LIMIT,
+    LIQUID_STAKING_POOLS,
+    isLiquidStaking,
+    getStakingValue,
+    liquidPosition
+} from './staking';
+
+// Wallet Facade (app entry point for all versions)
+export { WalletFacade, createWalletFacade } from './WalletFacade';
+export type { WalletFacadeConfig } from './WalletFacade';
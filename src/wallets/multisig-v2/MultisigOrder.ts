@@ -0,0 +1,72 @@
+/**
+ * MultisigOrder - Official Multisig V2 order wrapper
+ * Based on: https://github.com/ton-blockchain/multisig-contract-v2
+ *
+ * Orders are deployed by the multisig itself, so their address comes
+ * from the multisig's get_order_address getter.
+ */
+import { Address, beginCell, Cell, Contract, TupleReader } from '@ton/core';
+import type { MultisigAction } from '../../types';
+import { MULTISIG_CONSTANTS } from '../../types';
+import { fromAddressDict, MultisigV2 } from './MultisigV2';
+
+/**
+ * Raw order state from get_order_data (threshold is null until the order is initialised)
+ */
+export type MultisigOrderData = {
+    multisig: Address;
+    orderSeqno: bigint;
+    threshold: number | null;
+    executed: boolean;
+    signers: Address[];
+    approvals: boolean[];
+    approvalsNum: number;
+    expiresAt: number;
+    actions: MultisigAction[];
+};
+
+export class MultisigOrder implements Contract {
+    constructor(readonly address: Address) { }
+
+    static createFromAddress(address: Address): MultisigOrder {
+        return new MultisigOrder(address);
+    }
+
+    /**
+     * Body of a signer's approval
+     */
+    static createApproveBody(signerIndex: number, queryId: bigint = 0n): Cell {
+        return beginCell()
+            .storeUint(MULTISIG_CONSTANTS.OP_APPROVE, 32)
+            .storeUint(queryId, 64)
+            .storeUint(signerIndex, MULTISIG_CONSTANTS.SIGNER_INDEX_SIZE)
+            .endCell();
+    }
+
+    /**
+     * Parse the get_order_data stack
+     */
+    static parseOrderData(stack: TupleReader): MultisigOrderData {
+        const multisig = stack.readAddress();
+        const orderSeqno = stack.readBigNumber();
+        const threshold = stack.readNumberOpt();
+        const executed = stack.readBooleanOpt() ?? false;
+        const signers = fromAddressDict(stack.readCellOpt());
+        const approvalsMask = stack.readBigNumberOpt() ?? 0n;
+        const approvalsNum = stack.readNumberOpt() ?? 0;
+        const expiresAt = stack.readNumberOpt() ?? 0;
+        const order = stack.readCellOpt();
+
+        return {
+            multisig,
+            orderSeqno,
+            threshold,
+            executed,
+            signers,
+            approvals: signers.map((_, index) => ((approvalsMask >> BigInt(index)) & 1n) === 1n),
+            approvalsNum,
+            expiresAt,
+            actions: order ? MultisigV2.unpackOrder(order) : [],
+        };
+    }
+}
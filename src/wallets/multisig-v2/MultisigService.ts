@@ -0,0 +1,304 @@
+/**
+ * Multisig V2 Service
+ *
+ * High-level service for the official TON multisig v2: deploy, read the
+ * signers and orders, build new-order and approval messages, and follow an
+ * order until it executes. Every message is sent by one of the member's
+ * own wallets, so this service only builds them.
+ *
+ * The official contract code is not bundled: pass it in, or copy it from a
+ * multisig v2 that is already deployed with loadCode().
+ */
+
+import { TonClient, internal } from '@ton/ton';
+import { Address, Cell, MessageRelaxed, toNano } from '@ton/core';
+import type {
+    MultisigAction,
+    MultisigData,
+    MultisigOrderInfo,
+    NetworkType
+} from '../../types';
+import { TON_CONSTANTS } from '../../types';
+import { fromAddressDict, MultisigV2 } from './MultisigV2';
+import type { MultisigV2Config } from './MultisigV2';
+import { MultisigOrder } from './MultisigOrder';
+
+/**
+ * TON attached to an approval; the order returns what it does not spend
+ */
+export const MULTISIG_APPROVE_VALUE = toNano('0.05');
+
+/**
+ * TON added on top of get_order_estimate for a new order
+ */
+const NEW_ORDER_MARGIN = toNano('0.02');
+
+/**
+ * Position of a wallet in the multisig: signers approve, proposers only create orders
+ */
+export interface MultisigMember {
+    isSigner: boolean;
+    index: number;
+}
+
+/**
+ * Multisig V2 Service
+ */
+export class MultisigV2Service {
+    private readonly network: NetworkType;
+    private readonly workchain: number;
+    private code: Cell | null;
+
+    constructor(network: NetworkType = 'mainnet', code?: Cell) {
+        this.network = network;
+        this.workchain = TON_CONSTANTS.WORKCHAIN;
+        this.code = code ?? null;
+    }
+
+    /**
+     * Get the multisig contract code, if known
+     */
+    getCode(): Cell | null {
+        return this.code;
+    }
+
+    /**
+     * Copy the contract code of a deployed multisig v2 for new deployments
+     */
+    async loadCode(client: TonClient, sourceAddress: Address): Promise<Cell> {
+        // Only accept code that answers the multisig getters
+        await this.getMultisigData(client, sourceAddress);
+
+        const state = await client.getContractState(sourceAddress);
+        if (!state.code) {
+            throw new Error('Source multisig has no code');
+        }
+
+        this.code = Cell.fromBoc(state.code)[0];
+        return this.code;
+    }
+
+    /**
+     * Get the multisig contract for a configuration
+     */
+    createContract(config: MultisigV2Config): MultisigV2 {
+        if (!this.code) {
+            throw new Error('Multisig contract code is not loaded');
+        }
+        return MultisigV2.createFromConfig(config, this.code, this.workchain);
+    }
+
+    /**
+     * Get the address a configuration deploys to
+     */
+    getAddress(config: MultisigV2Config): string {
+        return this.formatAddress(this.createContract(config).address);
+    }
+
+    /**
+     * Build the deploy message; value stays on the multisig as its balance
+     */
+    createDeployMessage(config: MultisigV2Config, value: bigint): MessageRelaxed {
+        const contract = this.createContract(config);
+        return internal({
+            to: contract.address,
+            value,
+            bounce: false,
+            init: contract.init,
+            body: MultisigV2.createDeployBody(),
+        });
+    }
+
+    /**
+     * Get signers, proposers, threshold and the next order seqno
+     */
+    async getMultisigData(client: TonClient, multisigAddress: Address): Promise<MultisigData> {
+        let result;
+        try {
+            result = await client.runMethod(multisigAddress, 'get_multisig_data');
+        } catch {
+            throw new Error('Not a multisig v2 wallet or not deployed yet');
+        }
+
+        const nextOrderSeqno = result.stack.readBigNumber();
+        const threshold = result.stack.readNumber();
+        const signers = fromAddressDict(result.stack.readCellOpt());
+        const proposers = fromAddressDict(result.stack.readCellOpt());
+
+        return { nextOrderSeqno, threshold, signers, proposers };
+    }
+
+    /**
+     * Get the address of an order by seqno
+     */
+    async getOrderAddress(client: TonClient, multisigAddress: Address, orderSeqno: bigint): Promise<Address> {
+        const result = await client.runMethod(multisigAddress, 'get_order_address', [
+            { type: 'int', value: orderSeqno },
+        ]);
+        return result.stack.readAddress();
+    }
+
+    /**
+     * Get the TON an order needs to be deployed and kept until it expires
+     */
+    async getOrderEstimate(
+        client: TonClient,
+        multisigAddress: Address,
+        actions: MultisigAction[],
+        expiresAt: number
+    ): Promise<bigint> {
+        const result = await client.runMethod(multisigAddress, 'get_order_estimate', [
+            { type: 'cell', cell: MultisigV2.packOrder(actions) },
+            { type: 'int', value: BigInt(expiresAt) },
+        ]);
+        return result.stack.readBigNumber();
+    }
+
+    /**
+     * Get an order with its approval state (null if it was never deployed)
+     */
+    async getOrder(client: TonClient, orderAddress: Address): Promise<MultisigOrderInfo | null> {
+        let result;
+        try {
+            result = await client.runMethod(orderAddress, 'get_order_data');
+        } catch {
+            return null;
+        }
+
+        const data = MultisigOrder.parseOrderData(result.stack);
+        if (data.threshold === null) {
+            return null;
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        return {
+            seqno: data.orderSeqno,
+            address: orderAddress,
+            status: data.executed ? 'executed' : data.expiresAt <= now ? 'expired' : 'pending',
+            threshold: data.threshold,
+            signers: data.signers,
+            approvals: data.approvals,
+            approvalsNum: data.approvalsNum,
+            expiresAt: data.expiresAt,
+            actions: data.actions,
+        };
+    }
+
+    /**
+     * Get the latest orders, newest first
+     */
+    async getOrders(client: TonClient, multisigAddress: Address, limit: number = 10): Promise<MultisigOrderInfo[]> {
+        const { nextOrderSeqno } = await this.getMultisigData(client, multisigAddress);
+        const orders: MultisigOrderInfo[] = [];
+
+        for (let seqno = nextOrderSeqno - 1n; seqno >= 0n && orders.length < limit; seqno--) {
+            const orderAddress = await this.getOrderAddress(client, multisigAddress, seqno);
+            const order = await this.getOrder(client, orderAddress);
+            if (order) {
+                orders.push(order);
+            }
+        }
+
+        return orders;
+    }
+
+    /**
+     * Build the message deploying a new order, funded with the contract's estimate.
+     * Resolves the order's seqno now so it can be followed afterwards.
+     */
+    async createNewOrderMessage(
+        client: TonClient,
+        multisigAddress: Address,
+        member: MultisigMember,
+        actions: MultisigAction[],
+        expiresAt: number
+    ): Promise<{ message: MessageRelaxed; orderSeqno: bigint; orderAddress: Address }> {
+        if (expiresAt <= Math.floor(Date.now() / 1000)) {
+            throw new Error('Order expiration must be in the future');
+        }
+
+        const { nextOrderSeqno } = await this.getMultisigData(client, multisigAddress);
+        const estimate = await this.getOrderEstimate(client, multisigAddress, actions, expiresAt);
+        const orderAddress = await this.getOrderAddress(client, multisigAddress, nextOrderSeqno);
+
+        const message = internal({
+            to: multisigAddress,
+            value: estimate + NEW_ORDER_MARGIN,
+            bounce: true,
+            body: MultisigV2.createNewOrderBody({
+                actions,
+                expiresAt,
+                isSigner: member.isSigner,
+                index: member.index,
+                orderSeqno: nextOrderSeqno,
+            }),
+        });
+
+        return { message, orderSeqno: nextOrderSeqno, orderAddress };
+    }
+
+    /**
+     * Build a signer's approval of an order
+     */
+    createApproveMessage(orderAddress: Address, signerIndex: number): MessageRelaxed {
+        return internal({
+            to: orderAddress,
+            value: MULTISIG_APPROVE_VALUE,
+            bounce: true,
+            body: MultisigOrder.createApproveBody(signerIndex),
+        });
+    }
+
+    /**
+     * Poll an order until it executes or expires; returns its last known state
+     */
+    async waitForExecution(
+        client: TonClient,
+        orderAddress: Address,
+        timeoutMs: number = 120000,
+        intervalMs: number = 5000
+    ): Promise<MultisigOrderInfo | null> {
+        const deadline = Date.now() + timeoutMs;
+        let order = await this.getOrder(client, orderAddress);
+
+        while ((!order || order.status === 'pending') && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, intervalMs));
+            order = await this.getOrder(client, orderAddress);
+        }
+
+        return order;
+    }
+
+    /**
+     * Format a multisig or order address for display (bounceable, it is a contract)
+     */
+    formatAddress(address: Address): string {
+        return address.toString({ bounceable: true, testOnly: this.network === 'testnet' });
+    }
+}
+
+/**
+ * Find a wallet among the signers (preferred) or proposers of a multisig
+ */
+export function findMultisigMember(data: MultisigData, address: Address): MultisigMember | null {
+    const signerIndex = data.signers.findIndex(signer => signer.equals(address));
+    if (signerIndex !== -1) {
+        return { isSigner: true, index: signerIndex };
+    }
+
+    const proposerIndex = data.proposers.findIndex(proposer => proposer.equals(address));
+    if (proposerIndex !== -1) {
+        return { isSigner: false, index: proposerIndex };
+    }
+
+    return null;
+}
+
+/**
+ * Create multisig v2 service
+ */
+export function createMultisigV2Service(network: NetworkType = 'mainnet', code?: Cell): MultisigV2Service {
+    return new MultisigV2Service(network, code);
+}
+
+export default MultisigV2Service;
@@ -0,0 +1,206 @@
+/**
+ * MultisigV2 - Official Multisig V2 wrapper
+ * Based on: https://github.com/ton-blockchain/multisig-contract-v2
+ *
+ * The multisig holds the funds; every transfer is an order. An order is a
+ * separate contract deployed by a signer or proposer (new_order) that
+ * collects approvals from signers and, once the threshold is reached,
+ * asks the multisig to execute its actions.
+ */
+import {
+    Address,
+    beginCell,
+    Builder,
+    Cell,
+    Contract,
+    contractAddress,
+    Dictionary,
+    loadMessageRelaxed,
+    Slice,
+    storeMessageRelaxed
+} from '@ton/core';
+import type { MultisigAction } from '../../types';
+import { MULTISIG_CONSTANTS } from '../../types';
+
+export type MultisigV2Config = {
+    threshold: number;
+    signers: Address[];
+    proposers: Address[];
+    allowArbitrarySeqno?: boolean;
+};
+
+// Order seqno asking the multisig to use its next_order_seqno
+export const NEXT_ORDER_SEQNO = (1n << 256n) - 1n;
+
+export function multisigV2ConfigToCell(config: MultisigV2Config): Cell {
+    return beginCell()
+        .storeUint(0, MULTISIG_CONSTANTS.ORDER_SEQNO_SIZE)              // next_order_seqno
+        .storeUint(config.threshold, MULTISIG_CONSTANTS.SIGNER_INDEX_SIZE)
+        .storeRef(beginCell().storeDictDirect(toAddressDict(config.signers)))
+        .storeUint(config.signers.length, MULTISIG_CONSTANTS.SIGNER_INDEX_SIZE)
+        .storeDict(toAddressDict(config.proposers))
+        .storeBit(config.allowArbitrarySeqno ?? false)
+        .endCell();
+}
+
+export class MultisigV2 implements Contract {
+    constructor(
+        readonly address: Address,
+        readonly init?: { code: Cell; data: Cell }
+    ) { }
+
+    static createFromAddress(address: Address): MultisigV2 {
+        return new MultisigV2(address);
+    }
+
+    static createFromConfig(
+        config: MultisigV2Config,
+        code: Cell,
+        workchain = 0
+    ): MultisigV2 {
+        validateConfig(config);
+        const data = multisigV2ConfigToCell(config);
+        const init = { code, data };
+        return new MultisigV2(contractAddress(workchain, init), init);
+    }
+
+    /**
+     * Body of the deploy message (op 0, query ID 0)
+     */
+    static createDeployBody(): Cell {
+        return beginCell()
+            .storeUint(0, 32)
+            .storeUint(0, 64)
+            .endCell();
+    }
+
+    /**
+     * Body asking the multisig to deploy a new order.
+     * A signer's new order carries the signer's approval.
+     */
+    static createNewOrderBody(opts: {
+        actions: MultisigAction[] | Cell;
+        expiresAt: number;
+        isSigner: boolean;
+        index: number;           // Index in signers (isSigner) or proposers
+        orderSeqno?: bigint;     // Defaults to the multisig's next seqno
+        queryId?: bigint;
+    }): Cell {
+        const order = opts.actions instanceof Cell ? opts.actions : MultisigV2.packOrder(opts.actions);
+
+        return beginCell()
+            .storeUint(MULTISIG_CONSTANTS.OP_NEW_ORDER, 32)
+            .storeUint(opts.queryId ?? 0n, 64)
+            .storeUint(opts.orderSeqno ?? NEXT_ORDER_SEQNO, MULTISIG_CONSTANTS.ORDER_SEQNO_SIZE)
+            .storeBit(opts.isSigner)
+            .storeUint(opts.index, MULTISIG_CONSTANTS.SIGNER_INDEX_SIZE)
+            .storeUint(opts.expiresAt, MULTISIG_CONSTANTS.TIME_SIZE)
+            .storeRef(order)
+            .endCell();
+    }
+
+    /**
+     * Pack order actions into the order dictionary (action index -> action)
+     */
+    static packOrder(actions: MultisigAction[]): Cell {
+        if (actions.length === 0) {
+            throw new Error('Order has no actions');
+        }
+        if (actions.length > MULTISIG_CONSTANTS.MAX_ACTIONS) {
+            throw new Error(`An order can hold up to ${MULTISIG_CONSTANTS.MAX_ACTIONS} actions`);
+        }
+
+        const dict = Dictionary.empty(Dictionary.Keys.Uint(8), Dictionary.Values.Cell());
+        actions.forEach((action, index) => dict.set(index, beginCell().store(storeMultisigAction(action)).endCell()));
+        return beginCell().storeDictDirect(dict).endCell();
+    }
+
+    /**
+     * Read order actions back from the order dictionary
+     */
+    static unpackOrder(order: Cell): MultisigAction[] {
+        const dict = Dictionary.loadDirect(Dictionary.Keys.Uint(8), Dictionary.Values.Cell(), order);
+        return dict.keys()
+            .sort((a, b) => a - b)
+            .map(index => loadMultisigAction(dict.get(index)!.beginParse()));
+    }
+}
+
+/**
+ * Store one order action
+ */
+export function storeMultisigAction(action: MultisigAction) {
+    return (builder: Builder) => {
+        if (action.type === 'transfer') {
+            builder
+                .storeUint(MULTISIG_CONSTANTS.ACTION_SEND_MESSAGE, 32)
+                .storeUint(action.sendMode, 8)
+                .storeRef(beginCell().store(storeMessageRelaxed(action.message)));
+        } else {
+            validateConfig(action);
+            builder
+                .storeUint(MULTISIG_CONSTANTS.ACTION_UPDATE_PARAMS, 32)
+                .storeUint(action.threshold, MULTISIG_CONSTANTS.SIGNER_INDEX_SIZE)
+                .storeRef(beginCell().storeDictDirect(toAddressDict(action.signers)))
+                .storeDict(toAddressDict(action.proposers));
+        }
+    };
+}
+
+/**
+ * Load one order action
+ */
+export function loadMultisigAction(slice: Slice): MultisigAction {
+    const op = slice.loadUint(32);
+
+    if (op === MULTISIG_CONSTANTS.ACTION_SEND_MESSAGE) {
+        const sendMode = slice.loadUint(8);
+        return { type: 'transfer', sendMode, message: loadMessageRelaxed(slice.loadRef().beginParse()) };
+    }
+
+    if (op === MULTISIG_CONSTANTS.ACTION_UPDATE_PARAMS) {
+        const threshold = slice.loadUint(MULTISIG_CONSTANTS.SIGNER_INDEX_SIZE);
+        const signers = fromAddressDict(slice.loadRef());
+        const proposers = fromAddressDict(slice.loadMaybeRef());
+        return { type: 'update', threshold, signers, proposers };
+    }
+
+    throw new Error(`Unknown multisig action 0x${op.toString(16)}`);
+}
+
+/**
+ * Addresses as a dictionary keyed by index (signers, proposers)
+ */
+function toAddressDict(addresses: Address[]): Dictionary<number, Address> {
+    const dict = Dictionary.empty(Dictionary.Keys.Uint(8), Dictionary.Values.Address());
+    addresses.forEach((address, index) => dict.set(index, address));
+    return dict;
+}
+
+/**
+ * Addresses of an index-keyed dictionary, in index order
+ */
+export function fromAddressDict(cell: Cell | null): Address[] {
+    if (!cell) {
+        return [];
+    }
+    const dict = Dictionary.loadDirect(Dictionary.Keys.Uint(8), Dictionary.Values.Address(), cell);
+    return dict.keys()
+        .sort((a, b) => a - b)
+        .map(index => dict.get(index)!);
+}
+
+/**
+ * Check signers, proposers and threshold the way the contract does
+ */
+function validateConfig(config: { threshold: number; signers: Address[]; proposers: Address[] }) {
+    if (config.signers.length === 0) {
+        throw new Error('A multisig needs at least one signer');
+    }
+    if (config.signers.length > MULTISIG_CONSTANTS.MAX_SIGNERS || config.proposers.length > MULTISIG_CONSTANTS.MAX_SIGNERS) {
+        throw new Error(`A multisig can have up to ${MULTISIG_CONSTANTS.MAX_SIGNERS} signers and proposers`);
+    }
+    if (!Number.isInteger(config.threshold) || config.threshold < 1 || config.threshold > config.signers.length) {
+        throw new Error(`Threshold must be between 1 and ${config.signers.length}`);
+    }
+}
@@ -0,0 +1,15 @@
+/**
+ * Multisig V2 Module Exports
+ */
+
+export { MultisigV2, multisigV2ConfigToCell, NEXT_ORDER_SEQNO } from './MultisigV2';
+export type { MultisigV2Config } from './MultisigV2';
+export { MultisigOrder } from './MultisigOrder';
+export type { MultisigOrderData } from './MultisigOrder';
+export {
+    MultisigV2Service,
+    createMultisigV2Service,
+    findMultisigMember,
+    MULTISIG_APPROVE_VALUE
+} from './MultisigService';
+export type { MultisigMember } from './MultisigService';
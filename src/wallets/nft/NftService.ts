@@ -0,0 +1,351 @@
+/**
+ * NFT Service
+ *
+ * Builds NFT item transfers (TEP-62). The transfer is an internal message
+ * from the owner's wallet to the NFT item, so it works with every wallet version.
+ *
+ * Also reads items and collections from chain and resolves their TEP-64
+ * metadata: on-chain (snake or chunked dictionary values), off-chain (a JSON
+ * URI) and semi-chain (an on-chain dictionary with a "uri" key, on-chain
+ * fields win).
+ */
+
+import { Buffer } from 'buffer';
+import { TonClient } from '@ton/ton';
+import { Address, beginCell, Cell, Dictionary, Slice, toNano } from '@ton/core';
+import { sha256_sync } from '@ton/crypto';
+import type {
+    NftCollectionInfo,
+    NftFilter,
+    NftItem,
+    NftMetadata,
+    NftTransferParams,
+    NetworkType
+} from '../../types';
+import { NFT_CONTENT_PREFIX, NFT_OP_CODES } from '../../types';
+
+/**
+ * TON attached to an NFT transfer to pay for the item's gas
+ */
+export const NFT_TRANSFER_GAS = toNano('0.05');
+
+/**
+ * Gateway used for ipfs:// metadata and images
+ */
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+/**
+ * TEP-64 keys read from on-chain NFT content
+ */
+const ONCHAIN_KEYS = ['name', 'description', 'image', 'image_data', 'uri', 'content_url', 'external_url'];
+
+/**
+ * Item state from get_nft_data
+ */
+export type NftItemData = {
+    initialized: boolean;
+    index: bigint;
+    collection: Address | null;
+    owner: Address | null;
+    individualContent: Cell;
+};
+
+/**
+ * NFT Service
+ */
+export class NftService {
+    private readonly network: NetworkType;
+
+    constructor(network: NetworkType = 'mainnet') {
+        this.network = network;
+    }
+
+    /**
+     * Build NFT transfer body according to TEP-62
+     */
+    buildTransferBody(params: NftTransferParams): Cell {
+        const {
+            to,
+            responseDestination,
+            forwardAmount = 1n,
+            comment
+        } = params;
+
+        // Build forward payload if comment exists
+        let forwardPayload = beginCell().endCell();
+        if (comment) {
+            forwardPayload = beginCell()
+                .storeUint(0, 32) // Text comment op code
+                .storeStringTail(comment)
+                .endCell();
+        }
+
+        return beginCell()
+            .storeUint(NFT_OP_CODES.TRANSFER, 32)       // op::transfer
+            .storeUint(0, 64)                            // query_id
+            .storeAddress(Address.parse(to))             // new_owner
+            .storeAddress(
+                responseDestination
+                    ? Address.parse(responseDestination)
+                    : Address.parse(to)
+            )                                            // response_destination
+            .storeBit(0)                                 // no custom payload
+            .storeCoins(forwardAmount)                   // forward_amount
+            .storeBit(1)                                 // store forward payload as ref
+            .storeRef(forwardPayload)
+            .endCell();
+    }
+
+    /**
+     * Get index, collection, owner and content of an item
+     */
+    async getNftData(client: TonClient, nftAddress: Address): Promise<NftItemData> {
+        let result;
+        try {
+            result = await client.runMethod(nftAddress, 'get_nft_data');
+        } catch {
+            throw new Error('Not an NFT item or not deployed yet');
+        }
+
+        return {
+            initialized: result.stack.readBoolean(),
+            index: result.stack.readBigNumber(),
+            collection: result.stack.readAddressOpt(),
+            owner: result.stack.readAddressOpt(),
+            individualContent: result.stack.readCell(),
+        };
+    }
+
+    /**
+     * Get the full content of a collection item from its individual content
+     */
+    async getNftContent(client: TonClient, collectionAddress: Address, index: bigint, individualContent: Cell): Promise<Cell> {
+        const result = await client.runMethod(collectionAddress, 'get_nft_content', [
+            { type: 'int', value: index },
+            { type: 'cell', cell: individualContent },
+        ]);
+        return result.stack.readCell();
+    }
+
+    /**
+     * Resolve the metadata of an item from chain (and its off-chain JSON)
+     */
+    async resolveItemMetadata(client: TonClient, nftAddress: Address): Promise<NftMetadata> {
+        const data = await this.getNftData(client, nftAddress);
+        const content = data.collection
+            ? await this.getNftContent(client, data.collection, data.index, data.individualContent)
+            : data.individualContent;
+        return this.resolveContent(content);
+    }
+
+    /**
+     * Get a collection with its resolved metadata
+     */
+    async getCollection(client: TonClient, collectionAddress: Address): Promise<NftCollectionInfo> {
+        let result;
+        try {
+            result = await client.runMethod(collectionAddress, 'get_collection_data');
+        } catch {
+            throw new Error('Not an NFT collection or not deployed yet');
+        }
+
+        result.stack.readBigNumber(); // next_item_index
+        const metadata = await this.resolveContent(result.stack.readCell());
+
+        return {
+            address: collectionAddress.toString({ bounceable: true, testOnly: this.network === 'testnet' }),
+            name: metadata.name ?? 'Unknown collection',
+            description: metadata.description,
+            image: metadata.image,
+        };
+    }
+
+    /**
+     * Resolve TEP-64 content: on-chain fields, completed from the off-chain JSON if it has a URI
+     */
+    async resolveContent(content: Cell): Promise<NftMetadata> {
+        const onchain = parseNftContent(content);
+        if (!onchain.uri) {
+            return onchain;
+        }
+
+        const offchain = await this.fetchMetadata(onchain.uri);
+        return { ...offchain, ...onchain };
+    }
+
+    /**
+     * Load off-chain metadata JSON
+     */
+    async fetchMetadata(uri: string): Promise<NftMetadata> {
+        const response = await fetch(resolveMetadataUrl(uri));
+        if (!response.ok) {
+            throw new Error(`Failed to load NFT metadata: HTTP ${response.status}`);
+        }
+
+        return { ...parseNftMetadataJson(await response.json()), uri };
+    }
+
+    /**
+     * Get network
+     */
+    getNetwork(): NetworkType {
+        return this.network;
+    }
+}
+
+/**
+ * Parse a TEP-64 content cell. Off-chain content only yields its URI;
+ * fields missing from on-chain content are left out.
+ */
+export function parseNftContent(content: Cell): NftMetadata {
+    const slice = content.beginParse();
+    if (slice.remainingBits < 8) {
+        return {};
+    }
+
+    const prefix = slice.loadUint(8);
+    if (prefix === NFT_CONTENT_PREFIX.OFFCHAIN) {
+        return { uri: slice.loadStringTail() };
+    }
+    if (prefix !== NFT_CONTENT_PREFIX.ONCHAIN) {
+        throw new Error(`Unknown NFT content layout 0x${prefix.toString(16)}`);
+    }
+
+    const fields = loadOnchainContent(slice, ONCHAIN_KEYS);
+    const metadata: NftMetadata = {};
+    if (fields.name) metadata.name = fields.name.toString('utf-8');
+    if (fields.description) metadata.description = fields.description.toString('utf-8');
+    if (fields.image) metadata.image = resolveMetadataUrl(fields.image.toString('utf-8'));
+    else if (fields.image_data) metadata.image = toImageDataUrl(fields.image_data);
+    if (fields.content_url) metadata.contentUrl = resolveMetadataUrl(fields.content_url.toString('utf-8'));
+    if (fields.external_url) metadata.externalUrl = fields.external_url.toString('utf-8');
+    if (fields.uri) metadata.uri = fields.uri.toString('utf-8');
+    return metadata;
+}
+
+/**
+ * Read the given keys of an on-chain content dictionary (after its prefix
+ * byte); keys without a value are left out
+ */
+export function loadOnchainContent(slice: Slice, keys: readonly string[]): Record<string, Buffer> {
+    const dict = slice.loadDict(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+    const fields: Record<string, Buffer> = {};
+    for (const key of keys) {
+        const value = dict.get(BigInt('0x' + sha256_sync(key).toString('hex')));
+        if (value) {
+            fields[key] = loadContentData(value.beginParse());
+        }
+    }
+    return fields;
+}
+
+/**
+ * Map TEP-64 metadata JSON (off-chain or from an indexer)
+ */
+export function parseNftMetadataJson(json: any): NftMetadata {
+    const metadata: NftMetadata = {};
+    if (typeof json?.name === 'string') metadata.name = json.name;
+    if (typeof json?.description === 'string') metadata.description = json.description;
+    if (typeof json?.image === 'string') metadata.image = resolveMetadataUrl(json.image);
+    else if (typeof json?.image_data === 'string') metadata.image = toImageDataUrl(Buffer.from(json.image_data, 'base64'));
+    if (typeof json?.content_url === 'string') metadata.contentUrl = resolveMetadataUrl(json.content_url);
+    if (typeof json?.external_url === 'string') metadata.externalUrl = json.external_url;
+    if (Array.isArray(json?.attributes)) {
+        metadata.attributes = json.attributes
+            .filter((attribute: any) => attribute && attribute.trait_type !== undefined)
+            .map((attribute: any) => ({ traitType: String(attribute.trait_type), value: String(attribute.value ?? '') }));
+    }
+    return metadata;
+}
+
+/**
+ * HTTP URL for a metadata or image link (ipfs:// goes through a gateway)
+ */
+export function resolveMetadataUrl(uri: string): string {
+    return uri.startsWith('ipfs://') ? IPFS_GATEWAY + uri.slice('ipfs://'.length) : uri;
+}
+
+/**
+ * Items a gallery shows: spam and user-hidden items are left out unless asked for
+ */
+export function filterNfts(items: NftItem[], filter: NftFilter = {}): NftItem[] {
+    const hidden = new Set((filter.hidden ?? []).map(address => Address.parse(address).toRawString()));
+    const collection = filter.collection ? Address.parse(filter.collection) : null;
+
+    return items.filter(item => {
+        if (collection && !(item.collection && Address.parse(item.collection.address).equals(collection))) return false;
+        if (!filter.showSpam && item.trust === 'blacklist') return false;
+        if (!filter.showHidden && hidden.has(Address.parse(item.address).toRawString())) return false;
+        return true;
+    });
+}
+
+/**
+ * Group items by collection, in order of first appearance; items without a collection come last
+ */
+export function groupNftsByCollection(items: NftItem[]): { collection: NftCollectionInfo | null; items: NftItem[] }[] {
+    const groups = new Map<string, { collection: NftCollectionInfo | null; items: NftItem[] }>();
+
+    for (const item of items) {
+        const key = item.collection ? Address.parse(item.collection.address).toRawString() : '';
+        const group = groups.get(key) ?? { collection: item.collection, items: [] };
+        group.items.push(item);
+        groups.set(key, group);
+    }
+
+    const standalone = groups.get('');
+    groups.delete('');
+    return standalone ? [...groups.values(), standalone] : [...groups.values()];
+}
+
+/**
+ * Read an on-chain content value (snake or chunked)
+ */
+function loadContentData(slice: Slice): Buffer {
+    const layout = slice.loadUint(8);
+
+    if (layout === NFT_CONTENT_PREFIX.SNAKE) {
+        return loadSnakeBuffer(slice);
+    }
+    if (layout === NFT_CONTENT_PREFIX.CHUNKS) {
+        const chunks = slice.loadDict(Dictionary.Keys.Uint(32), Dictionary.Values.Cell());
+        return Buffer.concat(chunks.keys()
+            .sort((a, b) => a - b)
+            .map(index => loadSnakeBuffer(chunks.get(index)!.beginParse())));
+    }
+
+    throw new Error(`Unknown NFT content data layout 0x${layout.toString(16)}`);
+}
+
+/**
+ * Read snake data: the bytes of a cell followed by those of its first ref, recursively
+ */
+function loadSnakeBuffer(slice: Slice): Buffer {
+    const parts: Buffer[] = [];
+    let current: Slice | null = slice;
+
+    while (current) {
+        parts.push(current.loadBuffer(Math.floor(current.remainingBits / 8)));
+        current = current.remainingRefs > 0 ? current.loadRef().beginParse() : null;
+    }
+
+    return Buffer.concat(parts);
+}
+
+/**
+ * Data URL for raw image bytes (TEP-64 image_data); SVG is told apart by its markup
+ */
+function toImageDataUrl(data: Buffer): string {
+    const text = data.subarray(0, 64).toString('utf-8').trimStart();
+    const mime = text.startsWith('<svg') || text.startsWith('<?xml') ? 'image/svg+xml' : 'image/png';
+    return `data:${mime};base64,${data.toString('base64')}`;
+}
+
+/**
+ * Create NFT service
+ */
+export function createNftService(network: NetworkType = 'mainnet'): NftService {
+    return new NftService(network);
+}
+
+export default NftService;
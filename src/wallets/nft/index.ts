@@ -0,0 +1,16 @@
+/**
+ * NFT Module Exports
+ */
+
+export {
+    NftService,
+    createNftService,
+    NFT_TRANSFER_GAS,
+    parseNftContent,
+    loadOnchainContent,
+    parseNftMetadataJson,
+    resolveMetadataUrl,
+    filterNfts,
+    groupNftsByCollection
+} from './NftService';
+export type { NftItemData } from './NftService';
@@ -0,0 +1,251 @@
+/**
+ * Staking Service
+ *
+ * Builds deposit and withdraw messages for native TON staking pools:
+ * - nominator pools (TON Foundation): text comments "d" and "w"
+ * - Whales nominator pools: stake_deposit / stake_withdraw with a gas limit
+ * - liquid pools, Tonstakers (tsTON), bemo (stTON) and Hipo (hTON): a deposit
+ *   to the pool mints liquid tokens; withdrawing burns them from the owner's
+ *   jetton wallet
+ *
+ * Like jetton and NFT transfers these are internal messages from the owner's
+ * wallet, so staking works with every wallet version.
+ */
+
+import { internal } from '@ton/ton';
+import { Address, beginCell, Cell, fromNano, MessageRelaxed, toNano } from '@ton/core';
+import type { NetworkType, StakingAction, StakingPool, StakingPoolKind, StakingPosition } from '../../types';
+import { JETTON_OP_CODES, STAKING_OP_CODES } from '../../types';
+
+/**
+ * TON attached on top of a deposit, and to a withdrawal, per pool kind.
+ * Whatever the pool does not spend comes back as excess.
+ */
+export const STAKING_FEES: Record<StakingPoolKind, { deposit: bigint; withdraw: bigint }> = {
+    nominator: { deposit: toNano('1'), withdraw: toNano('1') },
+    whales: { deposit: toNano('0.1'), withdraw: toNano('0.2') },
+    tonstakers: { deposit: toNano('1'), withdraw: toNano('1.05') },
+    bemo: { deposit: toNano('0.1'), withdraw: toNano('0.1') },
+    hipo: { deposit: toNano('0.1'), withdraw: toNano('0.1') },
+};
+
+/**
+ * Gas limit Whales pools run a stake request with
+ */
+export const WHALES_GAS_LIMIT = 100000n;
+
+/**
+ * Liquid pools TonAPI does not index; listed with an unknown APY
+ */
+export const LIQUID_STAKING_POOLS: Record<NetworkType, StakingPool[]> = {
+    mainnet: [
+        {
+            address: 'EQDNhy-nxYFgUqzfUzImBEP67JqsyMIcyk2S5_RwNNEYku0k',
+            name: 'bemo',
+            kind: 'bemo',
+            apy: null,
+            minStake: toNano('1'),
+            liquidJetton: 'EQDNhy-nxYFgUqzfUzImBEP67JqsyMIcyk2S5_RwNNEYku0k',
+            liquidSymbol: 'stTON',
+            verified: true,
+        },
+        {
+            address: 'EQCLyZHP4Xe8fpchQz76O-_RmUhaVc_9BAoGyJrwJrcbz2eZ',
+            name: 'Hipo',
+            kind: 'hipo',
+            apy: null,
+            minStake: toNano('1'),
+            liquidJetton: 'EQDPdq8xjAhytYqfGSX8KcFWIReCufsB9Wdg0pLlYSO_h76w',
+            liquidSymbol: 'hTON',
+            verified: true,
+        },
+    ],
+    testnet: [],
+};
+
+/**
+ * Staking Service
+ */
+export class StakingService {
+    private readonly network: NetworkType;
+
+    constructor(network: NetworkType = 'mainnet') {
+        this.network = network;
+    }
+
+    /**
+     * Build the internal message for a staking action. Liquid withdrawals go
+     * to the owner's liquid jetton wallet, everything else to the pool.
+     */
+    buildMessage(action: StakingAction, ownerAddress: Address, liquidWalletAddress?: Address): MessageRelaxed {
+        const { pool } = action;
+        const value = getStakingValue(action);
+
+        if (action.type === 'deposit') {
+            if (action.amount < pool.minStake) {
+                throw new Error(`Minimum stake in ${pool.name} is ${fromNano(pool.minStake)} TON`);
+            }
+            return internal({
+                to: Address.parse(pool.address),
+                value,
+                body: this.buildDepositBody(pool.kind, action.amount, ownerAddress),
+                bounce: true,
+            });
+        }
+
+        if (isLiquidStaking(pool.kind)) {
+            if (!liquidWalletAddress) {
+                throw new Error(`No ${pool.liquidSymbol ?? 'liquid tokens'} to unstake`);
+            }
+            if (!action.amount || action.amount <= 0n) {
+                throw new Error('Withdrawal amount must be greater than 0');
+            }
+            return internal({
+                to: liquidWalletAddress,
+                value,
+                body: this.buildBurnBody(pool.kind, action.amount, ownerAddress, action.waitTillRoundEnd),
+                bounce: true,
+            });
+        }
+
+        return internal({
+            to: Address.parse(pool.address),
+            value,
+            body: this.buildWithdrawBody(pool.kind, action.amount ?? 0n),
+            bounce: true,
+        });
+    }
+
+    /**
+     * Build the deposit body a pool expects
+     */
+    buildDepositBody(kind: StakingPoolKind, amount: bigint, ownerAddress: Address): Cell {
+        switch (kind) {
+            case 'nominator':
+                return commentCell('d');
+            case 'whales':
+                return beginCell()
+                    .storeUint(STAKING_OP_CODES.WHALES_DEPOSIT, 32)  // op::stake_deposit
+                    .storeUint(0, 64)                               // query_id
+                    .storeCoins(WHALES_GAS_LIMIT)                   // gas_limit
+                    .endCell();
+            case 'tonstakers':
+                return beginCell()
+                    .storeUint(STAKING_OP_CODES.TONSTAKERS_DEPOSIT, 32)  // op::deposit
+                    .storeUint(0, 64)                                   // query_id
+                    .endCell();
+            case 'bemo':
+                // The financial contract mints stTON for a plain transfer
+                return Cell.EMPTY;
+            case 'hipo':
+                return beginCell()
+                    .storeUint(STAKING_OP_CODES.HIPO_DEPOSIT, 32)   // op::deposit_coins
+                    .storeUint(0, 64)                              // query_id
+                    .storeAddress(ownerAddress)                    // owner
+                    .storeCoins(amount)                            // coins
+                    .storeCoins(0)                                 // ownership_assigned_amount
+                    .storeAddress(null)                            // referrer
+                    .endCell();
+        }
+    }
+
+    /**
+     * Build a withdrawal request to a nominator or Whales pool.
+     * An amount of 0 withdraws everything.
+     */
+    buildWithdrawBody(kind: StakingPoolKind, amount: bigint): Cell {
+        switch (kind) {
+            case 'nominator':
+                return commentCell('w');
+            case 'whales':
+                return beginCell()
+                    .storeUint(STAKING_OP_CODES.WHALES_WITHDRAW, 32)  // op::stake_withdraw
+                    .storeUint(0, 64)                                // query_id
+                    .storeCoins(WHALES_GAS_LIMIT)                    // gas_limit
+                    .storeCoins(amount)                              // amount
+                    .endCell();
+            default:
+                throw new Error('Liquid pools withdraw by burning their tokens');
+        }
+    }
+
+    /**
+     * Build burn#595f07bc query_id:uint64 amount:Coins response_destination:MsgAddress
+     * custom_payload:(Maybe ^Cell). Tonstakers reads its payout options from
+     * the custom payload: wait_till_round_end:Bool fill_or_kill:Bool.
+     */
+    buildBurnBody(kind: StakingPoolKind, amount: bigint, ownerAddress: Address, waitTillRoundEnd: boolean = false): Cell {
+        const customPayload = kind === 'tonstakers'
+            ? beginCell().storeBit(waitTillRoundEnd).storeBit(false).endCell()
+            : null;
+
+        return beginCell()
+            .storeUint(JETTON_OP_CODES.BURN, 32)   // op::burn
+            .storeUint(0, 64)                      // query_id
+            .storeCoins(amount)                    // amount
+            .storeAddress(ownerAddress)            // response_destination
+            .storeMaybeRef(customPayload)          // custom_payload
+            .endCell();
+    }
+
+    /**
+     * Get network
+     */
+    getNetwork(): NetworkType {
+        return this.network;
+    }
+}
+
+/**
+ * Check if a pool kind issues liquid tokens
+ */
+export function isLiquidStaking(kind: StakingPoolKind): boolean {
+    return kind === 'tonstakers' || kind === 'bemo' || kind === 'hipo';
+}
+
+/**
+ * TON a staking action attaches: the deposit plus the pool's fee,
+ * or the fee alone for a withdrawal
+ */
+export function getStakingValue(action: StakingAction): bigint {
+    const fees = STAKING_FEES[action.pool.kind];
+    return action.type === 'deposit' ? action.amount + fees.deposit : fees.withdraw;
+}
+
+/**
+ * Position of a liquid token balance, valued in TON at the indexer's rate
+ * (1:1 when it has none)
+ */
+export function liquidPosition(poolAddress: string, balance: bigint, tonRate?: number): StakingPosition {
+    const amount = tonRate
+        ? balance * BigInt(Math.round(tonRate * 1e9)) / 1_000_000_000n
+        : balance;
+
+    return {
+        poolAddress,
+        amount,
+        pendingDeposit: 0n,
+        pendingWithdraw: 0n,
+        readyWithdraw: 0n,
+        liquidBalance: balance,
+    };
+}
+
+/**
+ * Text comment cell (op 0)
+ */
+function commentCell(comment: string): Cell {
+    return beginCell()
+        .storeUint(0, 32)
+        .storeStringTail(comment)
+        .endCell();
+}
+
+/**
+ * Create staking service
+ */
+export function createStakingService(network: NetworkType = 'mainnet'): StakingService {
+    return new StakingService(network);
+}
+
+export default StakingService;
@@ -0,0 +1,14 @@
+/**
+ * Staking Module Exports
+ */
+
+export {
+    StakingService,
+    createStakingService,
+    STAKING_FEES,
+    WHALES_GAS_LIMIT,
+    LIQUID_STAKING_POOLS,
+    isLiquidStaking,
+    getStakingValue,
+    liquidPosition
+} from './StakingService';
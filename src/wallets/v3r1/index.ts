@@ -3,6 +3,7 @@
  */
 
 export { V3R1WalletService } from './V3R1WalletService';
-export { V3R1JettonService } from './jettons/JettonService';
+export { V3R1JettonService, parseJettonContent, parseJettonMetadataJson } from './jettons/JettonService';
+export type { JettonMasterData, JettonContent } from './jettons/JettonService';
 export { V3R1UsdtService, USDT_MASTER_ADDRESS } from './jettons/usdt/UsdtService';
 export { V3R1NotcoinService, NOTCOIN_MASTER_ADDRESS } from './jettons/notcoin/NotcoinService';
@@ -3,6 +3,9 @@
  * 
  * Handles Jetton (token) transfers for V3R1 wallets.
  * Supports USDT, NOT, and other standard TEP-74 tokens.
+ *
+ * Also reads jetton masters from chain (get_jetton_data) and resolves their
+ * TEP-64 metadata, which is how user-imported tokens are validated.
  */
 
 import { TonClient, internal } from '@ton/ton';
@@ -17,10 +20,45 @@ import type {
     JettonTransferParams,
     TransactionResult,
     JettonBalance,
+    JettonMasterInfo,
     NetworkType
 } from '../../../types';
-import { JETTON_OP_CODES } from '../../../types';
+import { JETTON_OP_CODES, NFT_CONTENT_PREFIX } from '../../../types';
 import { V3R1WalletService } from '../V3R1WalletService';
+import { loadOnchainContent, resolveMetadataUrl } from '../../nft';
+
+/**
+ * TEP-64 keys read from on-chain jetton content
+ */
+const JETTON_CONTENT_KEYS = ['name', 'description', 'image', 'symbol', 'decimals', 'uri'];
+
+/**
+ * Decimals of a jetton whose metadata leaves them out (TEP-64 default)
+ */
+const DEFAULT_JETTON_DECIMALS = 9;
+
+/**
+ * Master state from get_jetton_data
+ */
+export type JettonMasterData = {
+    totalSupply: bigint;
+    mintable: boolean;
+    admin: Address | null;
+    content: Cell;
+    walletCode: Cell;
+};
+
+/**
+ * Jetton metadata fields as stored (decimals stay a string until validated)
+ */
+export type JettonContent = {
+    name?: string;
+    symbol?: string;
+    description?: string;
+    image?: string;
+    decimals?: string;
+    uri?: string;
+};
 
 /**
  * Base Jetton Service for V3R1 wallets
@@ -187,6 +225,73 @@ export class V3R1JettonService {
         }
     }
 
+    /**
+     * Get supply, admin, content and wallet code of a jetton master
+     */
+    async getJettonData(client: TonClient, masterAddress: Address): Promise<JettonMasterData> {
+        let result;
+        try {
+            result = await client.runMethod(masterAddress, 'get_jetton_data');
+        } catch {
+            throw new Error('Not a jetton master or not deployed yet');
+        }
+
+        return {
+            totalSupply: result.stack.readBigNumber(),
+            mintable: result.stack.readBoolean(),
+            admin: result.stack.readAddressOpt(),
+            content: result.stack.readCell(),
+            walletCode: result.stack.readCell(),
+        };
+    }
+
+    /**
+     * Read a jetton master and its metadata; throws unless it has a symbol and valid decimals
+     */
+    async resolveJettonInfo(client: TonClient, masterAddress: Address): Promise<JettonMasterInfo> {
+        const data = await this.getJettonData(client, masterAddress);
+        const content = await this.resolveContent(data.content);
+
+        const symbol = content.symbol?.trim();
+        if (!symbol) {
+            throw new Error('Jetton metadata has no symbol');
+        }
+
+        const decimals = content.decimals === undefined ? DEFAULT_JETTON_DECIMALS : Number(content.decimals);
+        if (!/^\d+$/.test(content.decimals ?? '0') || decimals > 255) {
+            throw new Error(`Invalid jetton decimals: ${content.decimals}`);
+        }
+
+        const testOnly = this.network === 'testnet';
+        return {
+            address: masterAddress.toString({ bounceable: true, testOnly }),
+            symbol,
+            name: content.name?.trim() || symbol,
+            decimals,
+            image: content.image,
+            description: content.description,
+            totalSupply: data.totalSupply,
+            mintable: data.mintable,
+            admin: data.admin ? data.admin.toString({ bounceable: true, testOnly }) : null,
+        };
+    }
+
+    /**
+     * Resolve jetton content: on-chain fields, completed from the off-chain JSON if it has a URI
+     */
+    async resolveContent(content: Cell): Promise<JettonContent> {
+        const onchain = parseJettonContent(content);
+        if (!onchain.uri) {
+            return onchain;
+        }
+
+        const response = await fetch(resolveMetadataUrl(onchain.uri));
+        if (!response.ok) {
+            throw new Error(`Failed to load jetton metadata: HTTP ${response.status}`);
+        }
+        return { ...parseJettonMetadataJson(await response.json()), ...onchain };
+    }
+
     /**
      * Format jetton amount with decimals
      */
@@ -215,4 +320,46 @@ export class V3R1JettonService {
     }
 }
 
+/**
+ * Parse a TEP-64 jetton content cell. Off-chain content only yields its URI.
+ */
+export function parseJettonContent(content: Cell): JettonContent {
+    const slice = content.beginParse();
+    if (slice.remainingBits < 8) {
+        return {};
+    }
+
+    const prefix = slice.loadUint(8);
+    if (prefix === NFT_CONTENT_PREFIX.OFFCHAIN) {
+        return { uri: slice.loadStringTail() };
+    }
+    if (prefix !== NFT_CONTENT_PREFIX.ONCHAIN) {
+        throw new Error(`Unknown jetton content layout 0x${prefix.toString(16)}`);
+    }
+
+    const fields = loadOnchainContent(slice, JETTON_CONTENT_KEYS);
+    const text = (key: string) => fields[key]?.toString('utf-8');
+    const result: JettonContent = {};
+    if (fields.name) result.name = text('name');
+    if (fields.symbol) result.symbol = text('symbol');
+    if (fields.description) result.description = text('description');
+    if (fields.image) result.image = resolveMetadataUrl(text('image')!);
+    if (fields.decimals) result.decimals = text('decimals');
+    if (fields.uri) result.uri = text('uri');
+    return result;
+}
+
+/**
+ * Map off-chain jetton metadata JSON; decimals may be a string or a number
+ */
+export function parseJettonMetadataJson(json: any): JettonContent {
+    const result: JettonContent = {};
+    if (typeof json?.name === 'string') result.name = json.name;
+    if (typeof json?.symbol === 'string') result.symbol = json.symbol;
+    if (typeof json?.description === 'string') result.description = json.description;
+    if (typeof json?.image === 'string') result.image = resolveMetadataUrl(json.image);
+    if (typeof json?.decimals === 'string' || typeof json?.decimals === 'number') result.decimals = String(json.decimals);
+    return result;
+}
+
 export default V3R1JettonService;
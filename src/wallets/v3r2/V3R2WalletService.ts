@@ -66,28 +66,30 @@ export class V3R2WalletService {
     }
 
     /**
-     * Create wallet contract instance
+     * Create wallet contract instance.
+     * The subwallet ID defaults to 698983191 + workchain.
      */
-    createContract(publicKey: Buffer): WalletContractV3R2 {
+    createContract(publicKey: Buffer, subwalletId?: number): WalletContractV3R2 {
         return WalletContractV3R2.create({
             publicKey,
             workchain: this.workchain,
+            walletId: subwalletId,
         });
     }
 
     /**
      * Get opened wallet contract from client
      */
-    getOpenedContract(client: TonClient, keyPair: KeyPair) {
-        const wallet = this.createContract(keyPair.publicKey);
+    getOpenedContract(client: TonClient, keyPair: KeyPair, subwalletId?: number) {
+        const wallet = this.createContract(keyPair.publicKey, subwalletId);
         return client.open(wallet);
     }
 
     /**
      * Get current seqno
      */
-    async getSeqno(client: TonClient, keyPair: KeyPair): Promise<number> {
-        const wallet = this.getOpenedContract(client, keyPair);
+    async getSeqno(client: TonClient, keyPair: KeyPair, subwalletId?: number): Promise<number> {
+        const wallet = this.getOpenedContract(client, keyPair, subwalletId);
         try {
             return await wallet.getSeqno();
         } catch {
@@ -66,28 +66,30 @@ export class V4R2WalletService {
     }
 
     /**
-     * Create wallet contract instance
+     * Create wallet contract instance.
+     * The subwallet ID defaults to 698983191 + workchain.
      */
-    createContract(publicKey: Buffer): WalletContractV4 {
+    createContract(publicKey: Buffer, subwalletId?: number): WalletContractV4 {
         return WalletContractV4.create({
             publicKey,
             workchain: this.workchain,
+            walletId: subwalletId,
         });
     }
 
     /**
      * Get opened wallet contract from client
      */
-    getOpenedContract(client: TonClient, keyPair: KeyPair) {
-        const wallet = this.createContract(keyPair.publicKey);
+    getOpenedContract(client: TonClient, keyPair: KeyPair, subwalletId?: number) {
+        const wallet = this.createContract(keyPair.publicKey, subwalletId);
         return client.open(wallet);
     }
 
     /**
      * Get current seqno
      */
-    async getSeqno(client: TonClient, keyPair: KeyPair): Promise<number> {
-        const wallet = this.getOpenedContract(client, keyPair);
+    async getSeqno(client: TonClient, keyPair: KeyPair, subwalletId?: number): Promise<number> {
+        const wallet = this.getOpenedContract(client, keyPair, subwalletId);
         try {
             return await wallet.getSeqno();
         } catch {
@@ -0,0 +1,62 @@
+/**
+ * V5R1 Action Builders
+ *
+ * Typed builders for the W5 action list: out messages (send_msg) and the
+ * extended actions add_extension, remove_extension and
+ * set_signature_auth_allowed. A single request carries up to 255 actions.
+ */
+
+import { Address, MessageRelaxed, SendMode } from '@ton/core';
+import type {
+    V5Action,
+    V5SendMsgAction,
+    V5AddExtensionAction,
+    V5RemoveExtensionAction,
+    V5SetSignatureAuthAction
+} from '../../types';
+import { V5_CONSTANTS } from '../../types';
+
+/**
+ * Send an internal message
+ */
+export function sendMsgAction(
+    message: MessageRelaxed,
+    mode: SendMode = SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS
+): V5SendMsgAction {
+    return { type: 'sendMsg', mode, outMsg: message };
+}
+
+/**
+ * Install an extension (it must be in the wallet's workchain)
+ */
+export function addExtensionAction(address: Address): V5AddExtensionAction {
+    return { type: 'addExtension', address };
+}
+
+/**
+ * Uninstall an extension
+ */
+export function removeExtensionAction(address: Address): V5RemoveExtensionAction {
+    return { type: 'removeExtension', address };
+}
+
+/**
+ * Allow or forbid signature authentication.
+ * Forbidding it leaves the wallet controllable only by its extensions.
+ */
+export function setSignatureAuthAction(allowed: boolean): V5SetSignatureAuthAction {
+    return { type: 'setIsPublicKeyEnabled', isEnabled: allowed };
+}
+
+/**
+ * Check that an action list fits into a single W5 request
+ */
+export function validateActions(actions: V5Action[]): void {
+    if (actions.length === 0) {
+        throw new Error('No actions to send');
+    }
+
+    if (actions.length > V5_CONSTANTS.MAX_ACTIONS) {
+        throw new Error(`W5 wallet can only perform up to ${V5_CONSTANTS.MAX_ACTIONS} actions per request`);
+    }
+}
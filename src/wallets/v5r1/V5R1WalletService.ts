@@ -3,35 +3,61 @@
  * 
  * Implements the Wallet V5R1 (W5) contract with gasless transaction support.
  * V5 is the modern standard with extension support and gasless features.
+ * Requests reach the wallet signed in an external message (op "sign"),
+ * signed in an internal message (op "sint") or from an installed extension (op "extn").
  */
 
 import { Buffer } from 'buffer';
-import { TonClient, internal } from '@ton/ton';
+import { TonClient, WalletContractV5R1, internal } from '@ton/ton';
 import {
     Address,
     beginCell,
-    toNano,
+    Builder,
     Cell,
     contractAddress,
+    Dictionary,
+    external,
+    MessageRelaxed,
     SendMode,
-    storeMessageRelaxed
+    storeMessage,
+    storeOutList
 } from '@ton/core';
-import { mnemonicToPrivateKey, sign } from '@ton/crypto';
+import { mnemonicToPrivateKey } from '@ton/crypto';
 import type {
     WalletInfo,
     KeyPair,
     TransactionParams,
     TransactionResult,
     NetworkType,
-    GaslessTransactionConfig
+    GaslessQuote,
+    V5Action,
+    V5AuthType,
+    V5Extension,
+    V5SendMsgAction
 } from '../../types';
-import { TON_CONSTANTS, DEFAULT_CONFIG } from '../../types';
+import { TON_CONSTANTS, DEFAULT_CONFIG, V5_CONSTANTS } from '../../types';
+import {
+    sendMsgAction,
+    addExtensionAction,
+    removeExtensionAction,
+    setSignatureAuthAction,
+    validateActions
+} from './V5R1Actions';
 
 /**
  * V5R1 Contract Code (Official from ton-blockchain/wallet-contract-v5)
  */
 const V5R1_CODE_HEX = 'b5ee9c7241021401000281000114ff00f4a413f4bcf2c80b01020120020d020148030402dcd020d749c120915b8f6320d70b1f2082106578746ebd21821073696e74bdb0925f03e082106578746eba8eb48020d72101d074d721fa4030fa44f828fa443058bd915be0ed44d0810141d721f4058307f40e6fa1319130e18040d721707fdb3ce03120d749810280b99130e070e2100f020120050c020120060902016e07080019adce76a2684020eb90eb85ffc00019af1df6a2684010eb90eb858fc00201480a0b0017b325fb51341c75c875c2c7e00011b262fb513435c280200019be5f0f6a2684080a0eb90fa02c0102f20e011e20d70b1f82107369676ebaf2e08a7f0f01e68ef0eda2edfb218308d722028308d723208020d721d31fd31fd31fed44d0d200d31f20d31fd3ffd70a000af90140ccf9109a28945f0adb31e1f2c087df02b35007b0f2d0845125baf2e0855036baf2e086f823bbf2d0882292f800de01a47fc8ca00cb1f01cf16c9ed542092f80fde70db3cd81003f6eda2edfb02f404216e926c218e4c0221d73930709421c700b38e2d01d72820761e436c20d749c008f2e09320d74ac002f2e09320d71d06c712c2005230b0f2d089d74cd7393001a4e86c128407bbf2e093d74ac000f2e093ed55e2d20001c000915be0ebd72c08142091709601d72c081c12e25210b1e30f20d74a111213009601fa4001fa44f828fa443058baf2e091ed44d0810141d718f405049d7fc8ca0040048307f453f2e08b8e14038307f45bf2e08c22d70a00216e01b3b0f2d090e2c85003cf1612f400c9ed54007230d72c08248e2d21f2e092d200ed44d0d2005113baf2d08f54503091319c01810140d721d70a00f2e08ee2c8ca0058cf16c9ed5493f2c08de20010935bdb31e1d74cd0b4d6c35e';
 
+/**
+ * Options for a signed V5 request
+ */
+export interface V5RequestOptions {
+    authType?: Exclude<V5AuthType, 'extension'>;
+    timeout?: number;
+    subwalletId?: number;
+}
+
 /**
  * V5R1 Wallet Service with Gasless Support
  */
@@ -102,6 +128,28 @@ export class V5R1WalletService {
             .endCell();
     }
 
+    /**
+     * Create wallet contract instance.
+     * The wallet id is stored as-is (network id 0), matching buildInitData.
+     */
+    createContract(publicKey: Buffer, subwalletId?: number): WalletContractV5R1 {
+        return WalletContractV5R1.create({
+            publicKey,
+            workchain: this.workchain,
+            walletId: {
+                networkGlobalId: 0,
+                context: subwalletId ?? DEFAULT_CONFIG.SUBWALLET_ID,
+            },
+        });
+    }
+
+    /**
+     * Get opened wallet contract from client
+     */
+    getOpenedContract(client: TonClient, keyPair: KeyPair, subwalletId?: number) {
+        return client.open(this.createContract(keyPair.publicKey, subwalletId));
+    }
+
     /**
      * Send TON transaction (standard, with gas)
      */
@@ -111,66 +159,44 @@ export class V5R1WalletService {
         params: TransactionParams,
         subwalletId?: number
     ): Promise<TransactionResult> {
-        try {
-            const walletId = subwalletId ?? DEFAULT_CONFIG.SUBWALLET_ID;
-            const data = this.buildInitData(keyPair.publicKey, walletId);
-            const init = { code: this.code, data };
-            const walletAddress = contractAddress(this.workchain, init);
-
-            // Get current seqno
-            let seqno = 0;
-            try {
-                const result = await client.runMethod(walletAddress, 'seqno');
-                seqno = result.stack.readNumber();
-            } catch {
-                seqno = 0;
-            }
-
-            // Build message body
-            let body: Cell | undefined;
-            if (params.comment) {
-                body = beginCell()
-                    .storeUint(0, 32)
-                    .storeStringTail(params.comment)
-                    .endCell();
-            }
-
-            // Build internal message
-            const internalMessage = internal({
+        // Build message body
+        let body: Cell | undefined;
+        if (params.comment) {
+            body = beginCell()
+                .storeUint(0, 32)
+                .storeStringTail(params.comment)
+                .endCell();
+        }
+
+        return this.sendActions(client, keyPair, [
+            sendMsgAction(internal({
                 to: Address.parse(params.to),
                 value: params.amount,
                 body,
                 bounce: params.bounce ?? false,
-            });
-
-            // Build V5 transfer
-            const validUntil = Math.floor(Date.now() / 1000) + 3600;
-
-            const transferBody = beginCell()
-                .storeUint(0x73696e74, 32) // op: sint (signed internal)
-                .storeUint(walletId, 32)
-                .storeUint(validUntil, 32)
-                .storeUint(seqno, 32)
-                .storeRef(beginCell()
-                    .store(storeMessageRelaxed(internalMessage))
-                    .endCell())
-                .endCell();
-
-            // Sign
-            const signature = sign(transferBody.hash(), keyPair.secretKey);
+            })),
+        ], subwalletId);
+    }
 
-            const signedBody = beginCell()
-                .storeBuffer(signature)
-                .storeSlice(transferBody.beginParse())
-                .endCell();
+    /**
+     * Sign and send a request with any W5 actions (op "sign")
+     */
+    async sendActions(
+        client: TonClient,
+        keyPair: KeyPair,
+        actions: V5Action[],
+        subwalletId?: number
+    ): Promise<TransactionResult> {
+        try {
+            const { message, seqno } = await this.createExternalMessage(client, keyPair, actions, subwalletId);
 
-            // Send external message using provider
-            const provider = client.provider(walletAddress);
-            await provider.external(signedBody);
+            await client.sendFile(message.toBoc());
 
             return {
                 success: true,
                 seqno,
+                hash: message.hash().toString('hex'),
+                boc: message.toBoc().toString('base64'),
             };
         } catch (error) {
             return {
@@ -181,35 +207,200 @@ export class V5R1WalletService {
     }
 
     /**
-     * Build gasless transaction (for relay)
-     * This prepares a transaction that can be sent by a relayer who pays gas
+     * Build the signed external message for W5 actions without sending it.
+     * Includes the state init while the wallet is not deployed (seqno 0).
+     */
+    async createExternalMessage(
+        client: TonClient,
+        keyPair: KeyPair,
+        actions: V5Action[],
+        subwalletId?: number
+    ): Promise<{ message: Cell; seqno: number }> {
+        const contract = this.createContract(keyPair.publicKey, subwalletId);
+        const seqno = await this.getSeqno(client, contract.address);
+
+        if (seqno > 0 && !(await this.isSignatureAuthAllowed(client, contract.address))) {
+            throw new Error('Signature authentication is disabled for this wallet; use an extension');
+        }
+
+        const request = this.createRequest(keyPair, actions, seqno, { subwalletId });
+
+        const message = beginCell()
+            .store(storeMessage(external({
+                to: contract.address,
+                init: seqno === 0 ? contract.init : undefined,
+                body: request,
+            })))
+            .endCell();
+
+        return { message, seqno };
+    }
+
+    /**
+     * Create a signed request body.
+     * External requests (op "sign") always get IGNORE_ERRORS on their send modes,
+     * internal ones (op "sint") keep the modes as given.
+     */
+    createRequest(
+        keyPair: KeyPair,
+        actions: V5Action[],
+        seqno: number,
+        options: V5RequestOptions = {}
+    ): Cell {
+        validateActions(actions);
+
+        return this.createContract(keyPair.publicKey, options.subwalletId).createRequest({
+            secretKey: keyPair.secretKey,
+            seqno,
+            actions,
+            authType: options.authType ?? 'external',
+            timeout: options.timeout,
+        });
+    }
+
+    /**
+     * Create an internal message carrying a signed request (op "sint").
+     * Any wallet (or a relayer) can deliver it; the W5 wallet checks the signature.
      */
-    async buildGaslessTransaction(
+    createInternalSignedMessage(
         keyPair: KeyPair,
-        config: GaslessTransactionConfig,
+        actions: V5Action[],
         seqno: number,
+        value: bigint,
         subwalletId?: number
-    ): Promise<Cell> {
-        const walletId = subwalletId ?? DEFAULT_CONFIG.SUBWALLET_ID;
-        const validUntil = Math.floor(Date.now() / 1000) + 3600;
+    ): MessageRelaxed {
+        const contract = this.createContract(keyPair.publicKey, subwalletId);
 
-        // Build transfer body for relayer
-        const transferBody = beginCell()
-            .storeUint(0x73696e74, 32) // op: sint
-            .storeUint(walletId, 32)
-            .storeUint(validUntil, 32)
-            .storeUint(seqno, 32)
-            .storeRef(beginCell()
-                .store(storeMessageRelaxed(config.message))
-                .endCell())
+        return internal({
+            to: contract.address,
+            value,
+            init: seqno === 0 ? contract.init : undefined,
+            bounce: seqno > 0,
+            body: this.createRequest(keyPair, actions, seqno, { subwalletId, authType: 'internal' }),
+        });
+    }
+
+    /**
+     * Create an extension request body (op "extn").
+     * It is not signed: the wallet accepts it only from an installed extension.
+     */
+    createExtensionRequest(actions: V5Action[], queryId: bigint = 0n): Cell {
+        validateActions(actions);
+
+        return beginCell()
+            .storeUint(V5_CONSTANTS.OP_EXTENSION, 32)
+            .storeUint(queryId, 64)
+            .store(storeOutListExtended(actions))
             .endCell();
+    }
+
+    /**
+     * Create the internal message an installed extension sends to the wallet
+     */
+    createExtensionMessage(
+        walletAddress: Address,
+        actions: V5Action[],
+        value: bigint,
+        queryId?: bigint
+    ): MessageRelaxed {
+        return internal({
+            to: walletAddress,
+            value,
+            bounce: true,
+            body: this.createExtensionRequest(actions, queryId),
+        });
+    }
+
+    /**
+     * Install an extension
+     */
+    async addExtension(
+        client: TonClient,
+        keyPair: KeyPair,
+        extensionAddress: Address,
+        subwalletId?: number
+    ): Promise<TransactionResult> {
+        const walletAddress = this.createContract(keyPair.publicKey, subwalletId).address;
+        if (extensionAddress.workChain !== walletAddress.workChain) {
+            return { success: false, error: 'Extension must be in the wallet workchain' };
+        }
+
+        return this.sendActions(client, keyPair, [addExtensionAction(extensionAddress)], subwalletId);
+    }
+
+    /**
+     * Uninstall an extension
+     */
+    async removeExtension(
+        client: TonClient,
+        keyPair: KeyPair,
+        extensionAddress: Address,
+        subwalletId?: number
+    ): Promise<TransactionResult> {
+        const walletAddress = this.createContract(keyPair.publicKey, subwalletId).address;
+        const extensions = await this.getExtensions(client, walletAddress);
+        if (!extensions.some(extension => extension.address.equals(extensionAddress))) {
+            return { success: false, error: 'Extension is not installed' };
+        }
+
+        return this.sendActions(client, keyPair, [removeExtensionAction(extensionAddress)], subwalletId);
+    }
+
+    /**
+     * Allow or forbid signature authentication.
+     * The contract refuses to forbid it while no extension is installed,
+     * since the wallet would be locked forever.
+     */
+    async setSignatureAuthAllowed(
+        client: TonClient,
+        keyPair: KeyPair,
+        allowed: boolean,
+        subwalletId?: number
+    ): Promise<TransactionResult> {
+        const walletAddress = this.createContract(keyPair.publicKey, subwalletId).address;
+
+        if (allowed) {
+            // A signed request can only run while signature auth is still allowed
+            return { success: false, error: 'Signature authentication can only be re-enabled by an extension' };
+        }
+
+        const extensions = await this.getExtensions(client, walletAddress);
+        if (extensions.length === 0) {
+            return { success: false, error: 'Install an extension before disabling signature authentication' };
+        }
+
+        return this.sendActions(client, keyPair, [setSignatureAuthAction(false)], subwalletId);
+    }
 
-        // Sign the message
-        const signature = sign(transferBody.hash(), keyPair.secretKey);
+    /**
+     * Build gasless transaction (for relay)
+     * Signs the quoted messages as an internal request (op "sint") expiring
+     * at the quote's validUntil, wrapped in an external message the relayer
+     * unpacks and delivers to the wallet, paying the gas.
+     */
+    buildGaslessTransaction(
+        keyPair: KeyPair,
+        quote: GaslessQuote,
+        seqno: number,
+        subwalletId?: number
+    ): Cell {
+        const contract = this.createContract(keyPair.publicKey, subwalletId);
+        const actions = quote.messages.map(message =>
+            sendMsgAction(message, SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS)
+        );
+
+        const request = this.createRequest(keyPair, actions, seqno, {
+            subwalletId,
+            authType: 'internal',
+            timeout: quote.validUntil,
+        });
 
         return beginCell()
-            .storeBuffer(signature)
-            .storeSlice(transferBody.beginParse())
+            .store(storeMessage(external({
+                to: contract.address,
+                init: seqno === 0 ? contract.init : undefined,
+                body: request,
+            })))
             .endCell();
     }
 
@@ -224,6 +415,103 @@ export class V5R1WalletService {
             return 0;
         }
     }
+
+    /**
+     * Get installed extensions (none for an undeployed wallet)
+     */
+    async getExtensions(client: TonClient, walletAddress: Address): Promise<V5Extension[]> {
+        let extensions: Cell | null;
+        try {
+            const result = await client.runMethod(walletAddress, 'get_extensions');
+            extensions = result.stack.readCellOpt();
+        } catch {
+            return [];
+        }
+
+        if (!extensions) {
+            return [];
+        }
+
+        // Keys are account ids of extensions in the wallet's workchain
+        const dict = Dictionary.loadDirect(Dictionary.Keys.BigUint(256), Dictionary.Values.BigInt(1), extensions);
+        return dict.keys().map(accountId => {
+            const address = Address.parseRaw(
+                `${walletAddress.workChain}:${accountId.toString(16).padStart(64, '0')}`
+            );
+            return { address, rawAddress: address.toRawString() };
+        });
+    }
+
+    /**
+     * Check if signature authentication is allowed (always for an undeployed wallet)
+     */
+    async isSignatureAuthAllowed(client: TonClient, walletAddress: Address): Promise<boolean> {
+        try {
+            const result = await client.runMethod(walletAddress, 'is_signature_allowed');
+            return result.stack.readBoolean();
+        } catch {
+            return true;
+        }
+    }
+}
+
+/**
+ * Serialize W5 actions: out messages as a ref to the out list (in reverse order),
+ * then a maybe chain of extended actions linked through refs
+ */
+function storeOutListExtended(actions: V5Action[]) {
+    const basic = actions.filter((action): action is V5SendMsgAction => action.type === 'sendMsg');
+    const extended = actions.filter(action => action.type !== 'sendMsg');
+
+    return (builder: Builder) => {
+        builder.storeMaybeRef(basic.length
+            ? beginCell().store(storeOutList(basic.slice().reverse())).endCell()
+            : null);
+
+        if (extended.length === 0) {
+            builder.storeBit(false);
+            return;
+        }
+
+        const [first, ...rest] = extended;
+        builder.storeBit(true).store(storeExtendedAction(first));
+        if (rest.length > 0) {
+            builder.storeRef(packExtendedActions(rest));
+        }
+    };
+}
+
+/**
+ * Extended actions after the first one, each in its own cell
+ */
+function packExtendedActions(actions: V5Action[]): Cell {
+    const [first, ...rest] = actions;
+    const builder = beginCell().store(storeExtendedAction(first));
+    if (rest.length > 0) {
+        builder.storeRef(packExtendedActions(rest));
+    }
+    return builder.endCell();
+}
+
+/**
+ * Serialize a single extended action
+ */
+function storeExtendedAction(action: V5Action) {
+    return (builder: Builder) => {
+        switch (action.type) {
+            case 'addExtension':
+                builder.storeUint(0x02, 8).storeAddress(action.address);
+                break;
+            case 'removeExtension':
+                builder.storeUint(0x03, 8).storeAddress(action.address);
+                break;
+            case 'setIsPublicKeyEnabled':
+                builder.storeUint(0x04, 8).storeBit(action.isEnabled);
+                break;
+            default:
+                throw new Error(`Not an extended action: ${action.type}`);
+        }
+    };
 }
 
 export default V5R1WalletService;
@@ -3,6 +3,14 @@
  */
 
 export { V5R1WalletService } from './V5R1WalletService';
+export type { V5RequestOptions } from './V5R1WalletService';
+export {
+    sendMsgAction,
+    addExtensionAction,
+    removeExtensionAction,
+    setSignatureAuthAction,
+    validateActions
+} from './V5R1Actions';
 
 // V5R1 uses the same jetton service pattern
 export { V3R1JettonService as V5R1JettonService } from '../v3r1/jettons/JettonService';
@@ -0,0 +1,193 @@
+/**
+ * Activity Statement Test Suite
+ *
+ * Tests history search and filters, statements with swap legs, fees and
+ * fiat values at the transaction time, CSV/JSON output with formulas
+ * escaped, and loading the history back to a statement's start.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address } from '@ton/core';
+import { parseAccountEvents } from '../src/network';
+import { ActivityStatementBuilder, filterActivity, isEmptyFilter, monthRange, statementToCsv, statementToJson } from '../src/services/ActivityStatement';
+import type { PriceHistory } from '../src/services/ActivityStatement';
+import { TransactionHistory, MemoryHistoryCache } from '../src/services/TransactionHistory';
+import type { Contact } from '../src/services/AddressBook';
+import type { TransactionHistoryItem, TransactionHistoryPage } from '../src/types';
+
+const ME = `0:${'a1'.repeat(32)}`;
+const ALICE = `0:${'b2'.repeat(32)}`;
+const SHOP = `0:${'c3'.repeat(32)}`;
+const USDT = { address: `0:${'d4'.repeat(32)}`, symbol: 'USDT', name: 'Tether USD', decimals: 6, verified: true };
+const { from: MAY, to: JUNE } = monthRange(2026, 5);
+const DAY = 24 * 60 * 60;
+
+const CONTACTS: Contact[] = [
+    { id: 'c1', address: Address.parseRaw(ALICE).toString(), label: 'Alice', network: 'mainnet', requiresMemo: false, createdAt: 0 },
+];
+
+function history(): TransactionHistoryItem[] {
+    const base = { from: 'Unknown', to: 'Unknown', status: 'confirmed' as const };
+    return [
+        { ...base, hash: 'e1', action: 'ton_transfer', type: 'incoming', amount: 2_000_000_000n, from: 'EQAlice', fromRaw: ALICE, timestamp: MAY + DAY, comment: 'Invoice 7, May' },
+        { ...base, hash: 'e2', action: 'jetton_transfer', type: 'outgoing', amount: 15_000_000n, to: 'shop.ton', toRaw: SHOP, timestamp: MAY + 2 * DAY, jetton: USDT, fee: 40_000_000n },
+        { ...base, hash: 'e3', action: 'jetton_swap', type: 'outgoing', amount: 1_000_000_000n, timestamp: MAY + 3 * DAY, dex: 'stonfi', amountOut: 5_000_000n, jettonOut: USDT, fee: 100_000_000n },
+        { ...base, hash: 'e3', action: 'contract_call', type: 'outgoing', amount: 0n, timestamp: MAY + 3 * DAY, operation: 'Excess' },
+        { ...base, hash: 'e4', action: 'nft_transfer', type: 'incoming', amount: 1n, timestamp: MAY + 4 * DAY, nft: SHOP },
+        { ...base, hash: 'e5', action: 'ton_transfer', type: 'outgoing', amount: 500_000_000n, to: 'EQAlice', toRaw: ALICE, timestamp: JUNE + DAY },
+    ];
+}
+
+/**
+ * Daily prices: TON is 3 + the day of the month / 10, USDT 1
+ */
+class FakePrices implements PriceHistory {
+    readonly requests: string[] = [];
+
+    async getRateChart(token: string, _currency: string, startDate: number, endDate: number): Promise<[number, number][]> {
+        this.requests.push(token);
+        if (token !== 'ton' && token !== USDT.address) return [];
+        const points: [number, number][] = [];
+        for (let time = startDate - (startDate % DAY); time <= endDate; time += DAY) {
+            points.push([time, token === 'ton' ? 3 + new Date(time * 1000).getUTCDate() / 10 : 1]);
+        }
+        return points;
+    }
+}
+
+describe('Activity filters', () => {
+    it('searches counterparties, labels, comments and hashes', () => {
+        const items = history();
+        const search = (query: string) => filterActivity(items, { query }, CONTACTS).map(item => item.hash);
+
+        expect(search('alice')).toEqual(['e1', 'e5']);
+        expect(search(Address.parseRaw(ALICE).toString({ bounceable: false }))).toEqual(['e1', 'e5']);
+        expect(search('SHOP.TON')).toEqual(['e2']);
+        expect(search('invoice 7')).toEqual(['e1']);
+        expect(search('e4')).toEqual(['e4']);
+        expect(search('nothing')).toEqual([]);
+    });
+
+    it('filters by asset, date, amount, action and direction', () => {
+        const items = history();
+        const hashes = (filter: Parameters<typeof filterActivity>[1]) => filterActivity(items, filter).map(item => `${item.hash}:${item.action}`);
+
+        expect(hashes({ asset: Address.parseRaw(USDT.address).toString() })).toEqual(['e2:jetton_transfer', 'e3:jetton_swap']);
+        expect(hashes({ asset: 'NFT' })).toEqual(['e4:nft_transfer']);
+        expect(hashes({ asset: 'TON', from: MAY, to: JUNE })).toEqual(['e1:ton_transfer', 'e3:jetton_swap', 'e3:contract_call']);
+        expect(hashes({ asset: 'TON', minAmount: '1', maxAmount: '2' })).toEqual(['e1:ton_transfer', 'e3:jetton_swap']);
+        expect(hashes({ minAmount: '10', asset: USDT.address })).toEqual(['e2:jetton_transfer']);
+        expect(hashes({ actions: ['jetton_swap', 'nft_transfer'], direction: 'incoming' })).toEqual(['e4:nft_transfer']);
+        expect(hashes({ minAmount: 'abc' })).toHaveLength(items.length);
+
+        expect(isEmptyFilter({ query: '  ', actions: [] })).toBe(true);
+        expect(isEmptyFilter({ direction: 'outgoing' })).toBe(false);
+    });
+});
+
+describe('Activity statements', () => {
+    it('lists asset movements with fiat values and fees at the transaction time', async () => {
+        const prices = new FakePrices();
+        const builder = new ActivityStatementBuilder({ prices });
+        const statement = await builder.build(history().sort((a, b) => b.timestamp - a.timestamp), {
+            address: 'EQWallet',
+            network: 'mainnet',
+            currency: 'USD',
+            filter: { from: MAY, to: JUNE },
+            contacts: CONTACTS,
+            now: Date.UTC(2026, 5, 2),
+        });
+
+        expect(statement).toMatchObject({ currency: 'usd', from: MAY, to: JUNE });
+        expect(statement.rows.map(row => [row.hash, row.action, row.direction, row.asset, row.amount, row.fiatValue, row.fee, row.feeFiat])).toEqual([
+            ['e1', 'ton_transfer', 'incoming', 'TON', '2', '6.40', '0', '0.00'],
+            ['e2', 'jetton_transfer', 'outgoing', 'USDT', '15', '15.00', '0.04', '0.13'],
+            ['e3', 'jetton_swap', 'outgoing', 'TON', '1', '3.40', '0.1', '0.34'],
+            ['e3', 'jetton_swap', 'incoming', 'USDT', '5', '5.00', '0', '0.00'],
+            ['e3', 'contract_call', 'outgoing', 'TON', '0', '0.00', '0', '0.00'],
+            ['e4', 'nft_transfer', 'incoming', 'NFT', '1', null, '0', '0.00'],
+        ]);
+        expect(statement.rows[0]).toMatchObject({ date: '2026-05-02T00:00:00.000Z', counterparty: 'EQAlice', counterpartyLabel: 'Alice', price: 3.2 });
+        expect(new Set(prices.requests)).toEqual(new Set(['ton', USDT.address]));
+    });
+
+    it('leaves fiat values empty without prices and writes CSV and JSON', async () => {
+        const statement = await new ActivityStatementBuilder().build(history(), { address: 'EQWallet', network: 'mainnet', filter: { query: 'invoice' }, now: 0 });
+        expect(statement.rows).toHaveLength(1);
+        expect(statement.rows[0]).toMatchObject({ price: null, fiatValue: null });
+
+        const csv = statementToCsv(statement).split('\n');
+        expect(csv[0]).toBe('date,hash,action,direction,status,asset,asset_address,amount,price_USD,value_USD,fee_TON,fee_USD,counterparty,counterparty_label,comment');
+        expect(csv[1]).toBe('2026-05-02T00:00:00.000Z,e1,ton_transfer,incoming,confirmed,TON,,2,,,0,0.00,EQAlice,,"Invoice 7, May"');
+
+        const json = JSON.parse(statementToJson(statement));
+        expect(json).toMatchObject({ address: 'EQWallet', generatedAt: '1970-01-01T00:00:00.000Z', rows: [{ hash: 'e1', amount: '2' }] });
+        expect(json.from).toBeUndefined();
+
+        const testnet = await new ActivityStatementBuilder({ prices: new FakePrices() }).build(history(), { address: 'kQWallet', network: 'testnet' });
+        expect(testnet.rows.every(row => row.fiatValue === null)).toBe(true);
+    });
+
+    it('escapes formulas in CSV text fields and keeps amounts numeric', async () => {
+        const base = { action: 'ton_transfer', type: 'incoming', amount: 1_000_000_000n, to: 'Unknown', timestamp: MAY, status: 'confirmed' } as const;
+        const statement = await new ActivityStatementBuilder().build([
+            { ...base, hash: 'e1', from: '=cmd|calc', comment: '@SUM(A1:A9)' },
+            { ...base, hash: 'e2', from: '+1 555', comment: '-2+3, "x"' },
+            { ...base, hash: 'e3', from: 'EQAlice', comment: '\tpad\r' },
+        ], { address: 'EQWallet', network: 'mainnet', now: 0 });
+
+        expect(statementToCsv(statement).split('\n').slice(1).map(line => line.slice(line.indexOf(',1,')))).toEqual([
+            ",1,,,0,0.00,'=cmd|calc,,'@SUM(A1:A9)",
+            `,1,,,0,0.00,'+1 555,,"'-2+3, ""x"""`,
+            `,1,,,0,0.00,EQAlice,,"'\tpad\r"`,
+        ]);
+
+        const spam = { ...USDT, symbol: '=HYPERLINK("http://spam.example","Claim")' };
+        const jetton = await new ActivityStatementBuilder().build([
+            { ...base, hash: 'e4', action: 'jetton_transfer', amount: 1_000_000n, from: 'EQAlice', jetton: spam },
+        ], { address: 'EQWallet', network: 'mainnet', now: 0 });
+        expect(statementToCsv(jetton).split('\n')[1]).toBe(
+            `2026-05-01T00:00:00.000Z,e4,jetton_transfer,incoming,confirmed,"'=HYPERLINK(""http://spam.example"",""Claim"")",${USDT.address},1,,,0,0.00,EQAlice,,`
+        );
+    });
+
+    it('takes fees from TonAPI events once per event', () => {
+        const transfer = (amount: number) => ({
+            type: 'TonTransfer',
+            status: 'ok',
+            TonTransfer: { sender: { address: ME }, recipient: { address: ALICE }, amount },
+        });
+        const items = parseAccountEvents([
+            { event_id: 'e1', lt: 5, timestamp: MAY, extra: -7_000_000, actions: [transfer(1), transfer(2)] },
+            { event_id: 'e2', lt: 4, timestamp: MAY, extra: 3, actions: [transfer(3)] },
+        ], ME);
+
+        expect(items.map(item => item.fee)).toEqual([7_000_000n, undefined, undefined]);
+    });
+});
+
+describe('Statement history range', () => {
+    it('loads older pages until the history reaches the statement start', async () => {
+        const events: TransactionHistoryItem[] = Array.from({ length: 10 }, (_, i) => ({
+            hash: `e${10 - i}`, lt: String(10 - i), action: 'ton_transfer', type: 'incoming', amount: 1n,
+            from: 'a', to: 'b', timestamp: MAY + (10 - i) * DAY, status: 'confirmed',
+        }));
+        const cursors: (string | undefined)[] = [];
+        const source = {
+            async getTransactionPage(_address: string, _testnet?: boolean, limit = 25, beforeLt?: string): Promise<TransactionHistoryPage> {
+                cursors.push(beforeLt);
+                const older = events.filter(item => beforeLt === undefined || Number(item.lt) < Number(beforeLt));
+                const items = older.slice(0, limit);
+                return { items, nextBeforeLt: older.length > limit ? items[items.length - 1].lt! : null };
+            },
+        };
+        const transactions = new TransactionHistory({ source, cache: new MemoryHistoryCache(), pageSize: 2 });
+
+        const view = await transactions.loadSince('account-1', ME, 'mainnet', MAY + 6 * DAY);
+        expect(view.items.map(item => item.hash)).toEqual(['e10', 'e9', 'e8', 'e7', 'e6', 'e5']);
+        expect(cursors).toEqual([undefined, '9', '7']);
+
+        await transactions.loadSince('account-1', ME, 'mainnet', MAY);
+        expect((await transactions.getCached('account-1', 'mainnet')).hasMore).toBe(false);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Address Book Test Suite
+ *
+ * Tests saving contacts per account, recognising recipients in any address
+ * format, warnings for new, lookalike and scam-flagged recipients, and the
+ * memo requirement of exchange contacts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address } from '@ton/core';
+import { AddressBook, AddressBookStore, findContact } from '../src/services/AddressBook';
+import type { ScamLookup } from '../src/services/AddressBook';
+
+const ACCOUNT = 'account-1';
+const EXCHANGE_RAW = `0:${'ab'.repeat(32)}`;
+const EXCHANGE = Address.parseRaw(EXCHANGE_RAW).toString();
+const FRIEND = Address.parseRaw(`0:${'cd'.repeat(32)}`).toString({ bounceable: false });
+const STRANGER = Address.parseRaw(`0:${'ef'.repeat(32)}`).toString();
+const USDT = Address.parseRaw(`0:${'12'.repeat(32)}`).toString();
+
+/**
+ * Address that differs from the given one only in the middle, so its
+ * shortened friendly form looks the same
+ */
+function lookalikeOf(address: string): string {
+    const target = Address.parse(address).toString();
+    const hash = Buffer.from(Address.parse(address).hash);
+    hash[10] ^= 0xff;
+    // The checksum is in the last characters; search the middle for one that keeps them
+    for (let i = 0; i < 1 << 20; i++) {
+        hash.writeUIntBE(i, 11, 3);
+        const candidate = new Address(0, hash).toString();
+        if (candidate.slice(-4) === target.slice(-4)) return candidate;
+    }
+    throw new Error('No lookalike found');
+}
+
+class FakeScamList implements ScamLookup {
+    constructor(private readonly flagged: string[], private readonly fail = false) {}
+
+    async isScam(address: string): Promise<boolean> {
+        if (this.fail) throw new Error('TonAPI unavailable');
+        return this.flagged.some(a => Address.parse(a).equals(Address.parse(address)));
+    }
+}
+
+function setup(scams?: ScamLookup) {
+    const book = new AddressBook({ store: new AddressBookStore(), scams });
+    const exchange = book.saveContact(ACCOUNT, { address: EXCHANGE_RAW, label: 'Exchange', requiresMemo: true, defaultJetton: USDT });
+    const friend = book.saveContact(ACCOUNT, { address: FRIEND, label: 'Alice', notes: ' lunch ' });
+    return { book, exchange, friend };
+}
+
+describe('Address book', () => {
+    it('saves contacts per account and finds them in any address format', () => {
+        const { book, exchange, friend } = setup();
+
+        expect(exchange).toMatchObject({ address: EXCHANGE, network: 'mainnet', requiresMemo: true, defaultJetton: USDT });
+        expect(friend.notes).toBe('lunch');
+        expect(book.getContacts(ACCOUNT).map(c => c.label)).toEqual(['Alice', 'Exchange']);
+        expect(book.getContacts('account-2')).toEqual([]);
+
+        const contacts = book.getContacts(ACCOUNT);
+        expect(findContact(contacts, EXCHANGE_RAW)?.id).toBe(exchange.id);
+        expect(findContact(contacts, Address.parse(EXCHANGE).toString({ bounceable: false }))?.id).toBe(exchange.id);
+        expect(findContact(contacts, STRANGER)).toBeUndefined();
+
+        const renamed = book.saveContact(ACCOUNT, { id: friend.id, address: FRIEND, label: 'Alice B' });
+        expect(renamed).toMatchObject({ id: friend.id, createdAt: friend.createdAt, label: 'Alice B' });
+        expect(book.getContacts(ACCOUNT)).toHaveLength(2);
+
+        book.removeContact(ACCOUNT, friend.id);
+        expect(book.getContacts(ACCOUNT).map(c => c.label)).toEqual(['Exchange']);
+    });
+
+    it('rejects invalid and duplicate contacts', () => {
+        const { book } = setup();
+
+        expect(() => book.saveContact(ACCOUNT, { address: STRANGER, label: '  ' })).toThrow('Label is required');
+        expect(() => book.saveContact(ACCOUNT, { address: 'nope', label: 'Bob' })).toThrow('Invalid address');
+        expect(() => book.saveContact(ACCOUNT, { address: EXCHANGE, label: 'Again' })).toThrow('This address is already saved as "Exchange"');
+        expect(() => book.saveContact(ACCOUNT, { address: STRANGER, label: 'Bob', defaultJetton: 'usdt' })).toThrow('Invalid default jetton');
+        expect(() => book.saveContact(ACCOUNT, { address: Address.parse(STRANGER).toString({ testOnly: true }), label: 'Bob' }))
+            .toThrow('This is not a mainnet address');
+        expect(() => book.saveContact(ACCOUNT, { id: 'missing', address: STRANGER, label: 'Bob' })).toThrow('Contact not found');
+    });
+
+    it('warns about new, lookalike and scam-flagged recipients', async () => {
+        const lookalike = lookalikeOf(EXCHANGE);
+        const { book, exchange } = setup(new FakeScamList([lookalike]));
+
+        const known = await book.checkRecipient(ACCOUNT, EXCHANGE);
+        expect(known).toMatchObject({ contact: { id: exchange.id }, memoRequired: true, warnings: [] });
+
+        const stranger = await book.checkRecipient(ACCOUNT, STRANGER);
+        expect(stranger.warnings.map(w => w.kind)).toEqual(['new']);
+        expect((await book.checkRecipient(ACCOUNT, STRANGER, 'mainnet', [`0:${'ef'.repeat(32)}`])).warnings).toEqual([]);
+
+        const poisoned = await book.checkRecipient(ACCOUNT, lookalike);
+        expect(poisoned.contact).toBeNull();
+        expect(poisoned.warnings.map(w => w.kind)).toEqual(['scam', 'lookalike', 'new']);
+        expect(poisoned.warnings[1].message).toBe('This address looks like your contact "Exchange" but is a different address');
+    });
+
+    it('treats a failed scam lookup as not flagged and requires memos for exchange contacts', async () => {
+        const { book } = setup(new FakeScamList([], true));
+
+        expect((await book.checkRecipient(ACCOUNT, STRANGER)).warnings.map(w => w.kind)).toEqual(['new']);
+        await expect(book.checkRecipient(ACCOUNT, 'nope')).rejects.toThrow('Invalid address');
+
+        expect(() => book.requireMemo(ACCOUNT, EXCHANGE, '  ')).toThrow('Exchange requires a memo; add it as the comment');
+        expect(() => book.requireMemo(ACCOUNT, EXCHANGE, '12345')).not.toThrow();
+        expect(() => book.requireMemo(ACCOUNT, FRIEND)).not.toThrow();
+
+        book.removeAccount(ACCOUNT);
+        expect(() => book.requireMemo(ACCOUNT, EXCHANGE)).not.toThrow();
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * DNS Test Suite
+ *
+ * Tests TEP-81 change_dns_record bodies, renewal reminders, and
+ * resolution, reverse lookup, owned domains and record sends through the facade.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Address, Cell, loadMessage, loadMessageRelaxed, TonClient, TupleItem, TupleReader } from '@ton/ton';
+import { mnemonicNew } from '@ton/crypto';
+import { DnsService, DNS_DOMAIN_LIFETIME, DNS_UPDATE_GAS, getDnsRecordKey, getRenewalReminders, isDnsDomain } from '../src/wallets';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient, TonApiClient } from '../src/network';
+import { DNS_OP_CODES, DNS_RECORD_PREFIX } from '../src/types';
+import type { DnsDomain } from '../src/types';
+
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`);
+const DOMAIN_ITEM = addr('d1');
+const ALICE = addr('a1');
+const ADNL = 'ab'.repeat(32);
+
+/**
+ * In-memory TonClient: deployed senders at seqno 5, DNS items last renewed at 1000
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor() {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(address: Address, name: string, _args: TupleItem[] = []) {
+        if (name === 'seqno') {
+            return { gas_used: 0, stack: new TupleReader([{ type: 'int', value: 5n }]) };
+        }
+        if (name === 'get_last_fill_up_time' && address.equals(DOMAIN_ITEM)) {
+            return { gas_used: 0, stack: new TupleReader([{ type: 'int', value: 1000n }]) };
+        }
+        throw new Error('Unable to execute get method');
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+function createFacade(client: FakeClient): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient, tonApiClient: new TonApiClient('mainnet') });
+}
+
+function stubJson(responses: Record<string, unknown>) {
+    vi.stubGlobal('fetch', async (url: string) => url in responses
+        ? new Response(JSON.stringify(responses[url]))
+        : new Response('', { status: 404 }));
+}
+
+/**
+ * Read a change_dns_record body: record key and value (if any)
+ */
+function readUpdate(body: Cell) {
+    const slice = body.beginParse();
+    expect(slice.loadUint(32)).toBe(DNS_OP_CODES.CHANGE_RECORD);
+    expect(slice.loadUintBig(64)).toBe(0n);
+    const key = slice.loadUintBig(256);
+    return { key, value: slice.remainingRefs > 0 ? slice.loadRef().beginParse() : null };
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('DNS records', () => {
+    const service = new DnsService();
+
+    it('encodes wallet, site and storage records under their sha256 keys', () => {
+        const wallet = readUpdate(service.buildUpdateBody({ type: 'record', domainAddress: DOMAIN_ITEM.toString(), record: 'wallet', value: ALICE.toString() }));
+        expect(wallet.key).toBe(getDnsRecordKey('wallet'));
+        expect(wallet.value!.loadUint(16)).toBe(DNS_RECORD_PREFIX.SMC_ADDRESS);
+        expect(wallet.value!.loadAddress().equals(ALICE)).toBe(true);
+        expect(wallet.value!.loadUint(8)).toBe(0);
+
+        const site = readUpdate(service.buildUpdateBody({ type: 'record', domainAddress: DOMAIN_ITEM.toString(), record: 'site', value: ADNL }));
+        expect(site.key).toBe(getDnsRecordKey('site'));
+        expect(site.value!.loadUint(16)).toBe(DNS_RECORD_PREFIX.ADNL_ADDRESS);
+        expect(site.value!.loadUintBig(256).toString(16)).toBe(ADNL);
+
+        const storage = readUpdate(service.buildUpdateBody({ type: 'record', domainAddress: DOMAIN_ITEM.toString(), record: 'storage', value: ADNL.toUpperCase() }));
+        expect(storage.value!.loadUint(16)).toBe(DNS_RECORD_PREFIX.STORAGE_ADDRESS);
+        expect(storage.value!.loadUintBig(256).toString(16)).toBe(ADNL);
+        expect(storage.value!.remainingBits).toBe(0);
+
+        expect(() => service.buildUpdateBody({ type: 'record', domainAddress: DOMAIN_ITEM.toString(), record: 'site', value: 'abc' }))
+            .toThrow('ADNL address must be 64 hex characters');
+    });
+
+    it('deletes a record without a value and renews with key 0', () => {
+        const deletion = readUpdate(service.buildUpdateBody({ type: 'record', domainAddress: DOMAIN_ITEM.toString(), record: 'storage', value: ' ' }));
+        expect(deletion.key).toBe(getDnsRecordKey('storage'));
+        expect(deletion.value).toBeNull();
+
+        const renewal = readUpdate(service.buildUpdateBody({ type: 'renew', domainAddress: DOMAIN_ITEM.toString() }));
+        expect(renewal.key).toBe(0n);
+        expect(renewal.value).toBeNull();
+    });
+
+    it('reminds about expired and soon expiring domains, soonest first', () => {
+        const day = 24 * 3600;
+        const domain = (name: string, expiresAt: number | null): DnsDomain => ({ name, address: DOMAIN_ITEM.toString(), expiresAt });
+        const domains = [
+            domain('later.ton', 100 * day),
+            domain('soon.ton', 20 * day),
+            domain('username.t.me', null),
+            domain('expired.ton', -day),
+        ];
+
+        expect(getRenewalReminders(domains, 0).map(d => d.name)).toEqual(['expired.ton', 'soon.ton']);
+        expect(getRenewalReminders(domains, 0, 7 * day).map(d => d.name)).toEqual(['expired.ton']);
+        expect(isDnsDomain(' Alice.TON ')).toBe(true);
+        expect(isDnsDomain('alice.t.me')).toBe(true);
+        expect(isDnsDomain(ALICE.toString())).toBe(false);
+    });
+});
+
+describe('DNS through the facade', () => {
+    it('resolves, reverse-resolves and lists owned domains with their expiry', async () => {
+        stubJson({
+            'https://tonapi.io/v2/dns/alice.ton/resolve': { wallet: { address: ALICE.toRawString() }, sites: [ADNL] },
+            'https://tonapi.io/v2/dns/nobody.ton/resolve': {},
+            [`https://tonapi.io/v2/accounts/${ALICE.toString()}/dns/backresolve`]: { domains: ['alice.ton', 'alias.ton'] },
+            'https://tonapi.io/v2/accounts/owner/nfts?limit=1000&offset=0&indirect_ownership=true': {
+                nft_items: [
+                    { address: DOMAIN_ITEM.toRawString(), index: 1, dns: 'alice.ton', metadata: {} },
+                    { address: addr('d2').toRawString(), index: 2, dns: 'alice.t.me', metadata: {} },
+                    { address: addr('d3').toRawString(), index: 3, dns: 'broken.ton', metadata: {} },
+                    { address: addr('e1').toRawString(), index: 4, metadata: { name: 'Not a domain' } },
+                ],
+            },
+        });
+        const facade = createFacade(new FakeClient());
+
+        expect(await facade.resolveDns(' Alice.ton ')).toEqual({
+            domain: 'alice.ton',
+            wallet: ALICE.toString({ bounceable: false }),
+            site: ADNL,
+            storage: undefined,
+        });
+        expect((await facade.resolveDns('nobody.ton')).wallet).toBeNull();
+        await expect(facade.resolveDns('missing.ton')).rejects.toThrow('Could not resolve domain: missing.ton');
+
+        expect(await facade.reverseResolve(ALICE.toString())).toBe('alice.ton');
+        expect(await facade.reverseResolve(addr('b1').toString())).toBeNull();
+
+        expect(await facade.getDomains('owner')).toEqual([
+            { name: 'alice.ton', address: DOMAIN_ITEM.toString(), expiresAt: 1000 + DNS_DOMAIN_LIFETIME },
+            { name: 'alice.t.me', address: addr('d2').toString(), expiresAt: null },
+            { name: 'broken.ton', address: addr('d3').toString(), expiresAt: null },
+        ]);
+    });
+
+    it('sends a wallet record given as a domain, stored as the resolved address', async () => {
+        stubJson({
+            'https://tonapi.io/v2/dns/alice.ton/resolve': { wallet: { address: ALICE.toRawString() } },
+        });
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        const facade = createFacade(client);
+
+        const result = await facade.sendDnsUpdate(mnemonic, 'v4r2', {
+            type: 'record',
+            domainAddress: DOMAIN_ITEM.toString(),
+            record: 'wallet',
+            value: 'alice.ton',
+        });
+        expect(result.success).toBe(true);
+
+        // v4r2 body: signature, wallet ID, valid until, seqno, op, then mode + message ref
+        const body = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse()).body.beginParse();
+        body.skip(512 + 32 + 32 + 32 + 8 + 8);
+        const message = loadMessageRelaxed(body.loadRef().beginParse());
+        if (message.info.type !== 'internal') throw new Error('Expected internal message');
+
+        expect(message.info.dest.equals(DOMAIN_ITEM)).toBe(true);
+        expect(message.info.value.coins).toBe(DNS_UPDATE_GAS);
+        expect(message.info.bounce).toBe(true);
+
+        const update = readUpdate(message.body);
+        expect(update.key).toBe(getDnsRecordKey('wallet'));
+        update.value!.skip(16);
+        expect(update.value!.loadAddress().equals(ALICE)).toBe(true);
+    });
+
+    it('reports a record that fails to resolve instead of sending it', async () => {
+        stubJson({});
+        const client = new FakeClient();
+        const facade = createFacade(client);
+
+        const result = await facade.sendDnsUpdate(await mnemonicNew(24), 'v4r2', {
+            type: 'record',
+            domainAddress: DOMAIN_ITEM.toString(),
+            record: 'wallet',
+            value: 'nobody.ton',
+        });
+
+        expect(result).toEqual({ success: false, error: 'Could not resolve domain: nobody.ton' });
+        expect(client.sent).toHaveLength(0);
+    });
+});
@@ -0,0 +1,248 @@
+/**
+ * Emulation Test Suite
+ *
+ * Tests the trace summary used by emulation backends and the
+ * WalletFacade previews against an in-memory emulator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell, Cell, loadMessage, toNano, TonClient } from '@ton/ton';
+import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
+import { summarizeEmulation, TonApiEmulator } from '../src/emulation';
+import type { EmulationBackend } from '../src/emulation';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient, TonApiClient } from '../src/network';
+import type { ChainEmulation, ChainTrace, ChainTransaction, EmulationResult, JettonInfo } from '../src/types';
+
+const WALLET = `0:${'11'.repeat(32)}`;
+const RECIPIENT = `0:${'22'.repeat(32)}`;
+const POOL = `0:${'33'.repeat(32)}`;
+
+const USDT: JettonInfo = { address: `0:${'44'.repeat(32)}`, symbol: 'USDT', name: 'Tether USD', decimals: 6 };
+const NOT: JettonInfo = { address: `0:${'55'.repeat(32)}`, symbol: 'NOT', name: 'Notcoin', decimals: 9 };
+
+function tx(account: string, overrides: Partial<ChainTransaction> = {}): ChainTransaction {
+    return {
+        hash: `${account}-tx`,
+        lt: '1',
+        account,
+        success: true,
+        aborted: false,
+        computeExitCode: 0,
+        totalFees: 1_000_000n,
+        outMessages: [],
+        ...overrides,
+    };
+}
+
+function node(transaction: ChainTransaction, children: ChainTrace[] = []): ChainTrace {
+    return { transaction, children };
+}
+
+/**
+ * Wallet tx sending one message to `destination` and the tx it caused
+ */
+function transferTrace(destination: string, delivery: Partial<ChainTransaction>, bounce = true): ChainTrace {
+    const message = { hash: 'out-1', source: WALLET, destination, value: toNano('1'), bounce, bounced: false };
+    return node(tx(WALLET, { outMessages: [message] }), [
+        node(tx(destination, { inMessage: message, ...delivery })),
+    ]);
+}
+
+/**
+ * In-memory TonClient: no deployed contracts
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor() {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(): Promise<never> {
+        throw new Error('Contract not deployed');
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+/**
+ * Emulator recording the external messages it was asked to run
+ */
+class RecordingEmulator implements EmulationBackend {
+    messages: Cell[] = [];
+
+    async emulate(externalMessage: Cell): Promise<EmulationResult> {
+        this.messages.push(externalMessage);
+        return { success: true, totalFee: 5_000_000n, messages: [], jettonDeltas: [], bounced: false };
+    }
+}
+
+function createFacade(client: FakeClient, emulator: EmulationBackend): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+
+    return new WalletFacade('mainnet', { rpcClient, emulator });
+}
+
+describe('summarizeEmulation', () => {
+    it('sums fees across the trace and reports delivered messages', () => {
+        const result = summarizeEmulation(Address.parseRaw(WALLET), {
+            trace: transferTrace(RECIPIENT, {}),
+            jettonTransfers: [],
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.bounced).toBe(false);
+        expect(result.totalFee).toBe(2_000_000n);
+        expect(result.messages).toEqual([{
+            destination: RECIPIENT,
+            value: toNano('1'),
+            bounce: true,
+            success: true,
+            bounced: false,
+            computeExitCode: 0,
+            actionResultCode: undefined,
+        }]);
+    });
+
+    it('reports a bounce with the exit code of the failed delivery', () => {
+        const result = summarizeEmulation(Address.parseRaw(WALLET), {
+            trace: transferTrace(RECIPIENT, { success: false, computeExitCode: 65535 }),
+            jettonTransfers: [],
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.bounced).toBe(true);
+        expect(result.exitCode).toBe(65535);
+        expect(result.messages[0].bounced).toBe(true);
+        expect(result.error).toContain('65535');
+    });
+
+    it('reports a failed wallet transaction without deliveries', () => {
+        const result = summarizeEmulation(Address.parseRaw(WALLET), {
+            trace: node(tx(WALLET, { success: false, computeExitCode: 33 })),
+            jettonTransfers: [],
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.bounced).toBe(false);
+        expect(result.exitCode).toBe(33);
+        expect(result.messages).toHaveLength(0);
+    });
+
+    it('follows the highload internal transfer to the actual deliveries', () => {
+        const selfMessage = { hash: 'self', source: WALLET, destination: WALLET, value: 0n, bounce: true, bounced: false };
+        const inner = transferTrace(RECIPIENT, { success: false, computeExitCode: 9 }, false);
+        inner.transaction.inMessage = selfMessage;
+
+        const result = summarizeEmulation(Address.parseRaw(WALLET), {
+            trace: node(tx(WALLET, { outMessages: [selfMessage] }), [inner]),
+            jettonTransfers: [],
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.bounced).toBe(false);
+        expect(result.exitCode).toBe(9);
+        expect(result.messages).toHaveLength(1);
+        expect(result.messages[0].destination).toBe(RECIPIENT);
+        expect(result.totalFee).toBe(3_000_000n);
+    });
+
+    it('nets jetton transfers and swap legs per jetton for the wallet', () => {
+        const emulation: ChainEmulation = {
+            trace: transferTrace(POOL, {}),
+            jettonTransfers: [
+                { jetton: USDT, sender: WALLET, recipient: POOL, amount: 10_000_000n },
+                { jetton: NOT, sender: POOL, recipient: WALLET, amount: 2_500_000_000n },
+                { jetton: USDT, sender: POOL, recipient: WALLET, amount: 1_000_000n },
+                { jetton: NOT, sender: POOL, recipient: RECIPIENT, amount: 7n },
+            ],
+        };
+
+        const result = summarizeEmulation(Address.parseRaw(WALLET), emulation);
+        expect(result.jettonDeltas).toEqual([
+            { jetton: USDT, amount: -9_000_000n },
+            { jetton: NOT, amount: 2_500_000_000n },
+        ]);
+    });
+});
+
+describe('TonApiEmulator', () => {
+    it('emulates the external message BOC and summarizes it for the destination wallet', async () => {
+        const tonApiClient = new TonApiClient('mainnet');
+        const bocs: string[] = [];
+        tonApiClient.emulateMessage = async (boc: string) => {
+            bocs.push(boc);
+            return { trace: transferTrace(RECIPIENT, {}), jettonTransfers: [] };
+        };
+
+        const external = beginCell()
+            .storeUint(0b10, 2) // ext_in_msg_info
+            .storeAddress(null)
+            .storeAddress(Address.parseRaw(WALLET))
+            .storeCoins(0)
+            .storeBit(false) // no state init
+            .storeBit(false) // inline body
+            .endCell();
+
+        const result = await new TonApiEmulator('mainnet', tonApiClient).emulate(external);
+        expect(bocs).toEqual([external.toBoc().toString('base64')]);
+        expect(result.success).toBe(true);
+        expect(result.totalFee).toBe(2_000_000n);
+    });
+});
+
+describe('WalletFacade previews', () => {
+    it('emulates the same external message a W5 send would broadcast', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const emulator = new RecordingEmulator();
+        const client = new FakeClient();
+        const facade = createFacade(client, emulator);
+        const address = facade.getAddress(keyPair.publicKey, 'v5r1');
+
+        const preview = await facade.previewTon(keyPair.publicKey, 'v5r1', RECIPIENT, toNano('0.1'), 'hello');
+        expect(preview.totalFee).toBe(5_000_000n);
+        expect(client.sent).toHaveLength(0);
+
+        const message = loadMessage(emulator.messages[0].beginParse());
+        expect(message.info.dest?.toString()).toBe(Address.parse(address).toString());
+        expect(message.init).toBeTruthy();
+        expect(message.body.beginParse().loadUint(32)).toBe(0x7369676e); // op "sign"
+
+        await facade.sendTon(mnemonic, 'v5r1', RECIPIENT, toNano('0.1'), 'hello');
+        const sent = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(sent.info.dest?.toString()).toBe(message.info.dest?.toString());
+    });
+
+    it('previews a highload batch without consuming its query id', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const emulator = new RecordingEmulator();
+        const client = new FakeClient();
+        const facade = createFacade(client, emulator);
+
+        await facade.previewTon(keyPair.publicKey, 'highload-v3', RECIPIENT, toNano('0.1'));
+        await facade.previewTon(keyPair.publicKey, 'highload-v3', RECIPIENT, toNano('0.1'));
+        expect(emulator.messages).toHaveLength(2);
+
+        const queryIdOf = (external: Cell) => {
+            const body = loadMessage(external.beginParse()).body.beginParse();
+            body.skip(512); // signature
+            const request = body.loadRef().beginParse();
+            request.skip(32 + 8); // subwallet id, send mode (message to send is a ref)
+            return request.loadUintBig(23);
+        };
+
+        const previewed = queryIdOf(emulator.messages[0]);
+        expect(queryIdOf(emulator.messages[1])).toBe(previewed);
+
+        // The next send uses the query id that was previewed
+        const result = await facade.sendBatch(mnemonic, [{ to: RECIPIENT, amount: toNano('0.1') }]);
+        expect(result.queryId).toBe(previewed);
+        expect(queryIdOf(Cell.fromBoc(client.sent[0])[0])).toBe(previewed);
+    });
+});
@@ -0,0 +1,284 @@
+/**
+ * Gasless Test Suite
+ *
+ * Tests the W5 gasless jetton flow (quote, validate, sign, submit)
+ * against the in-memory relayer, and the TonAPI relayer's parsing.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    Address,
+    beginCell,
+    Cell,
+    internal,
+    loadMessage,
+    storeMessageRelaxed,
+    toNano,
+    TonClient,
+    TupleReader
+} from '@ton/ton';
+import { mnemonicNew, mnemonicToPrivateKey, signVerify } from '@ton/crypto';
+import { loadOutListExtendedV5R1 } from '@ton/ton/dist/wallets/v5r1/WalletV5R1Actions';
+import { InMemoryGaslessRelayer, MAX_GASLESS_MESSAGE_VALUE, TonApiGaslessRelayer, validateGaslessQuote } from '../src/gasless';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { V3R1JettonService } from '../src/wallets/v3r1';
+import { RpcClient, TonApiClient } from '../src/network';
+import { JETTON_OP_CODES, V5_CONSTANTS } from '../src/types';
+import type { GaslessQuote } from '../src/types';
+
+const USDT_MASTER = Address.parseRaw(`0:${'aa'.repeat(32)}`).toString();
+const JETTON_WALLET = Address.parseRaw(`0:${'bb'.repeat(32)}`).toString();
+const RELAY = Address.parseRaw(`0:${'cc'.repeat(32)}`).toString();
+const RECIPIENT = Address.parseRaw(`0:${'dd'.repeat(32)}`).toString({ bounceable: false });
+const NOW = 1_800_000_000;
+
+/**
+ * In-memory TonClient reporting a deployed wallet at a fixed seqno
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor(private readonly seqno: number) {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(_address: Address, name: string) {
+        if (name !== 'seqno' || this.seqno === 0) {
+            throw new Error('Contract not deployed');
+        }
+        return { gas_used: 0, stack: new TupleReader([{ type: 'int', value: BigInt(this.seqno) }]) };
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+function createRelayer(now = () => Math.floor(Date.now() / 1000)): InMemoryGaslessRelayer {
+    return new InMemoryGaslessRelayer({
+        relayAddress: RELAY,
+        gasJettons: [USDT_MASTER],
+        commission: 150_000n,
+        now,
+    });
+}
+
+function createFacade(client: FakeClient, relayer: InMemoryGaslessRelayer): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient, gaslessRelayer: relayer });
+}
+
+const transfer = {
+    jettonMaster: USDT_MASTER,
+    jettonWalletAddress: JETTON_WALLET,
+    to: RECIPIENT,
+    amount: 5_000_000n,
+    comment: 'rent',
+};
+
+describe('Gasless jetton transfers', () => {
+    it('quotes the transfer with excess going to the relay plus the relayer fee', async () => {
+        const relayer = createRelayer();
+        const facade = createFacade(new FakeClient(3), relayer);
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+
+        const quote = await facade.quoteGaslessJetton(keyPair.publicKey, transfer);
+        expect(quote.commission).toBe(150_000n);
+        expect(quote.messages).toHaveLength(2);
+        expect(relayer.estimates[0].walletAddress).toBe(facade.getAddress(keyPair.publicKey, 'v5r1'));
+
+        const body = quote.messages[0].body.beginParse();
+        expect(body.loadUint(32)).toBe(JETTON_OP_CODES.TRANSFER);
+        body.loadUintBig(64);
+        expect(body.loadCoins()).toBe(5_000_000n);
+        expect(body.loadAddress().equals(Address.parse(RECIPIENT))).toBe(true);
+        expect(body.loadAddress().equals(Address.parse(RELAY))).toBe(true);
+    });
+
+    it('signs the quote as an internal request valid until the quote expires and submits it', async () => {
+        const relayer = createRelayer();
+        const facade = createFacade(new FakeClient(3), relayer);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+
+        const quote = await facade.quoteGaslessJetton(keyPair.publicKey, transfer);
+        const result = await facade.sendGaslessJetton(mnemonic, quote, transfer);
+        expect(result.success).toBe(true);
+        expect(result.seqno).toBe(3);
+        expect(relayer.submitted).toHaveLength(1);
+        expect(relayer.submitted[0].walletPublicKey).toBe(keyPair.publicKey.toString('hex'));
+
+        const external = loadMessage(relayer.submitted[0].externalMessage.beginParse());
+        expect(external.info.dest?.toString()).toBe(Address.parse(facade.getAddress(keyPair.publicKey, 'v5r1')).toString());
+        expect(external.init).toBeFalsy();
+
+        // Signed part, then the 512-bit signature at the tail
+        const request = external.body.beginParse();
+        const signed = beginCell().storeBits(request.loadBits(request.remainingBits - 512));
+        while (request.remainingRefs > 0) signed.storeRef(request.loadRef());
+        const signedCell = signed.endCell();
+        expect(signVerify(signedCell.hash(), request.loadBuffer(64), keyPair.publicKey)).toBe(true);
+
+        const slice = signedCell.beginParse();
+        expect(slice.loadUint(32)).toBe(V5_CONSTANTS.OP_SIGNED_INTERNAL);
+        slice.skip(32); // wallet id
+        expect(slice.loadUint(32)).toBe(quote.validUntil);
+        expect(slice.loadUint(32)).toBe(3);
+        expect(loadOutListExtendedV5R1(slice)).toHaveLength(2);
+    });
+
+    it('rejects jettons the relayer does not accept', async () => {
+        const facade = createFacade(new FakeClient(3), createRelayer());
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+
+        await expect(facade.quoteGaslessJetton(keyPair.publicKey, { ...transfer, jettonMaster: RELAY }))
+            .rejects.toThrow('cannot be used to pay the network fee');
+    });
+
+    it('refuses quotes that move funds elsewhere or have expired', async () => {
+        const relayer = createRelayer(() => NOW);
+        const facade = createFacade(new FakeClient(3), relayer);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const quote = await facade.quoteGaslessJetton(keyPair.publicKey, transfer);
+
+        const tampered: GaslessQuote = {
+            ...quote,
+            messages: [...quote.messages, internal({ to: Address.parse(RELAY), value: toNano('1') })],
+        };
+        const stolen = await facade.sendGaslessJetton(mnemonic, tampered, transfer);
+        expect(stolen.success).toBe(false);
+        expect(stolen.error).toContain('unexpected address');
+
+        expect(() => validateGaslessQuote(quote, transfer, RELAY, NOW)).not.toThrow();
+        expect(() => validateGaslessQuote(quote, transfer, RELAY, quote.validUntil)).toThrow('expired');
+        expect(relayer.submitted).toHaveLength(0);
+    });
+
+    it('refuses quotes whose transfer bodies differ from the transfer and its fee', async () => {
+        const relayer = createRelayer(() => NOW);
+        const facade = createFacade(new FakeClient(3), relayer);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const quote = await facade.quoteGaslessJetton(keyPair.publicKey, transfer);
+        const jettons = new V3R1JettonService();
+
+        // Same jetton wallet, different body
+        const withBody = (index: number, body: Cell): GaslessQuote => ({
+            ...quote,
+            messages: quote.messages.map((message, i) => i === index
+                ? internal({ to: Address.parse(JETTON_WALLET), value: toNano('0.05'), body })
+                : message),
+        });
+        const transferBody = (params: Partial<typeof transfer>) => jettons.buildTransferBody({ ...transfer, responseDestination: RELAY, ...params });
+
+        const inflated = withBody(0, transferBody({ amount: 1_000_000_000n }));
+        const redirected = withBody(0, transferBody({ to: RELAY }));
+        const recommented = withBody(0, transferBody({ comment: 'other' }));
+        const greedyFee = withBody(1, transferBody({ to: RELAY, amount: 10_000_000n, comment: '' }));
+        const unknownOp = withBody(1, beginCell().storeUint(0x595f07bc, 32).storeUint(0, 64).storeCoins(5_000_000n).endCell());
+        const extra: GaslessQuote = { ...quote, messages: [...quote.messages, quote.messages[1]] };
+
+        for (const tampered of [inflated, redirected, recommented, greedyFee]) {
+            expect(() => validateGaslessQuote(tampered, transfer, RELAY, NOW)).toThrow('does not match the transfer and its fee');
+        }
+        expect(() => validateGaslessQuote(unknownOp, transfer, RELAY, NOW)).toThrow('not a jetton transfer');
+        expect(() => validateGaslessQuote(extra, transfer, RELAY, NOW)).toThrow('only the transfer and its fee');
+        expect(() => validateGaslessQuote({ ...quote, relayAddress: JETTON_WALLET }, transfer, RELAY, NOW)).toThrow('unexpected relay');
+        expect(() => validateGaslessQuote({ ...quote, commission: 10_000_000n }, transfer, RELAY, NOW)).toThrow('does not match');
+
+        const result = await facade.sendGaslessJetton(mnemonic, inflated, transfer);
+        expect(result.success).toBe(false);
+        expect(relayer.submitted).toHaveLength(0);
+    });
+
+    it('refuses quotes that attach more TON than forwarding a jetton transfer needs', async () => {
+        const relayer = createRelayer(() => NOW);
+        const facade = createFacade(new FakeClient(3), relayer);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const quote = await facade.quoteGaslessJetton(keyPair.publicKey, transfer);
+
+        // Same transfer and fee bodies, more TON attached
+        const withValue = (index: number, value: bigint): GaslessQuote => ({
+            ...quote,
+            messages: quote.messages.map((message, i) => i === index
+                ? internal({ to: Address.parse(JETTON_WALLET), value, body: message.body })
+                : message),
+        });
+
+        expect(() => validateGaslessQuote(withValue(0, MAX_GASLESS_MESSAGE_VALUE), transfer, RELAY, NOW)).not.toThrow();
+        for (const drained of [withValue(0, toNano('5')), withValue(1, MAX_GASLESS_MESSAGE_VALUE + 1n)]) {
+            expect(() => validateGaslessQuote(drained, transfer, RELAY, NOW)).toThrow('attaches more TON');
+        }
+
+        const result = await facade.sendGaslessJetton(mnemonic, withValue(0, toNano('5')), transfer);
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('attaches more TON');
+        expect(relayer.submitted).toHaveLength(0);
+    });
+
+    it('includes the state init for an undeployed wallet', async () => {
+        const relayer = createRelayer();
+        const facade = createFacade(new FakeClient(0), relayer);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+
+        const quote = await facade.quoteGaslessJetton(keyPair.publicKey, transfer);
+        expect((await facade.sendGaslessJetton(mnemonic, quote, transfer)).success).toBe(true);
+        expect(loadMessage(relayer.submitted[0].externalMessage.beginParse()).init).toBeTruthy();
+    });
+});
+
+describe('TonApiGaslessRelayer', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('parses config and estimate responses and submits the signed BOC', async () => {
+        const payload = beginCell().storeUint(JETTON_OP_CODES.TRANSFER, 32).endCell();
+        const calls: { url: string; body?: any }[] = [];
+        vi.stubGlobal('fetch', async (url: string, init?: RequestInit) => {
+            calls.push({ url, body: init?.body ? JSON.parse(init.body as string) : undefined });
+            const respond = (data: unknown) => new Response(data === undefined ? '' : JSON.stringify(data), { status: 200 });
+
+            if (url.endsWith('/gasless/config')) {
+                return respond({ relay_address: RELAY, gas_jettons: [{ master_id: USDT_MASTER }] });
+            }
+            if (url.includes('/gasless/estimate/')) {
+                return respond({
+                    relay_address: RELAY,
+                    commission: '120000',
+                    valid_until: NOW,
+                    messages: [{ address: JETTON_WALLET, amount: '50000000', payload: payload.toBoc().toString('hex') }],
+                });
+            }
+            return respond(undefined);
+        });
+
+        const relayer = new TonApiGaslessRelayer('mainnet', new TonApiClient('mainnet'));
+        expect(await relayer.getConfig()).toEqual({ relayAddress: RELAY, gasJettons: [USDT_MASTER] });
+
+        const message = beginCell().store(storeMessageRelaxed(internal({ to: Address.parse(JETTON_WALLET), value: 1n }))).endCell();
+        const quote = await relayer.estimate({
+            jettonMaster: USDT_MASTER,
+            walletAddress: RECIPIENT,
+            walletPublicKey: 'ab',
+            messages: [message],
+        });
+        expect(quote.commission).toBe(120_000n);
+        expect(quote.validUntil).toBe(NOW);
+        expect(quote.messages[0].body.equals(payload)).toBe(true);
+        expect(quote.messages[0].info.type === 'internal' && quote.messages[0].info.value.coins).toBe(50_000_000n);
+        expect(calls[1].body.messages[0].boc).toBe(message.toBoc().toString('base64'));
+
+        const signed = Cell.EMPTY;
+        await relayer.send(Buffer.alloc(32, 1), signed);
+        expect(calls[2].url.endsWith('/gasless/send')).toBe(true);
+        expect(calls[2].body).toEqual({
+            wallet_public_key: Buffer.alloc(32, 1).toString('hex'),
+            boc: signed.toBoc().toString('base64'),
+        });
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * Highload Admin Test Suite
+ *
+ * Tests reading Highload V3 contract data (processed query bitmaps, clean
+ * time), the query ID store warnings and sync, and the facade's subwallet
+ * and timeout variants with their chain state.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Address, beginCell, Cell, Dictionary, TonClient } from '@ton/ton';
+import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import {
+    HighloadQueryId,
+    HighloadWalletV3Service,
+    QUERY_ID_LOW_REMAINING,
+    QueryIdStore,
+    getQueryIdWarnings,
+    highloadWalletV3ConfigToCell,
+    highloadWalletV3DataFromCell,
+} from '../src/wallets/highload-v3';
+import { RpcClient } from '../src/network';
+import { DEFAULT_CONFIG } from '../src/types';
+
+/**
+ * 1023-bit processed bitmap with the given bit numbers set
+ */
+function bitmap(bitNumbers: number[]): Cell {
+    const builder = beginCell();
+    for (let i = 0; i < 1023; i++) builder.storeBit(bitNumbers.includes(i));
+    return builder.endCell();
+}
+
+/**
+ * Highload V3 data with processed query IDs split over both windows
+ */
+function walletData(publicKey: Buffer, oldIds: bigint[], ids: bigint[], lastCleanedAt: number): Cell {
+    const dict = (queryIds: bigint[]) => {
+        const shifts = new Map<number, number[]>();
+        for (const id of queryIds) {
+            const shift = Number(id >> 10n);
+            shifts.set(shift, [...(shifts.get(shift) ?? []), Number(id & 1023n)]);
+        }
+        const result = Dictionary.empty(Dictionary.Keys.Uint(13), Dictionary.Values.Cell());
+        shifts.forEach((bits, shift) => result.set(shift, bitmap(bits)));
+        return result;
+    };
+
+    return beginCell()
+        .storeBuffer(publicKey)
+        .storeUint(DEFAULT_CONFIG.SUBWALLET_ID, 32)
+        .storeDict(dict(oldIds))
+        .storeDict(dict(ids))
+        .storeUint(lastCleanedAt, 64)
+        .storeUint(DEFAULT_CONFIG.HIGHLOAD_TIMEOUT, 22)
+        .endCell();
+}
+
+describe('Highload contract data', () => {
+    it('reads processed query IDs from both windows in order', () => {
+        const publicKey = Buffer.alloc(32, 7);
+        const data = highloadWalletV3DataFromCell(walletData(publicKey, [2053n, 2048n], [4094n], 1_700_000_000));
+
+        expect(data.publicKey.equals(publicKey)).toBe(true);
+        expect(data.subwalletId).toBe(DEFAULT_CONFIG.SUBWALLET_ID);
+        expect(data.timeout).toBe(DEFAULT_CONFIG.HIGHLOAD_TIMEOUT);
+        expect(data.lastCleanedAt).toBe(1_700_000_000);
+        expect(data.processed).toEqual([2048n, 2053n, 4094n]);
+    });
+
+    it('reads the data of a freshly deployed wallet', () => {
+        const publicKey = Buffer.alloc(32, 1);
+        const data = highloadWalletV3DataFromCell(highloadWalletV3ConfigToCell({ publicKey, subwalletId: 5, timeout: 120 }));
+
+        expect(data).toMatchObject({ subwalletId: 5, timeout: 120, lastCleanedAt: 0, processed: [] });
+    });
+});
+
+describe('Query ID store checks', () => {
+    it('warns when query IDs run low or out', () => {
+        expect(getQueryIdWarnings(HighloadQueryId.fromShiftAndBitNumber(0, 0), null)).toEqual([]);
+
+        const low = HighloadQueryId.fromShiftAndBitNumber(8191 - 10, 0);
+        expect(low.getRemainingCount()).toBeLessThan(QUERY_ID_LOW_REMAINING);
+        expect(getQueryIdWarnings(low, null)[0]).toMatch(/^Only \d+ query IDs left on this device/);
+
+        expect(getQueryIdWarnings(HighloadQueryId.fromShiftAndBitNumber(8191, 1022), null))
+            .toEqual(['No query IDs left on this device; use another subwallet ID']);
+    });
+
+    it('warns when the wallet processed the next local query ID or a later one', () => {
+        const next = HighloadQueryId.fromShiftAndBitNumber(2, 0);
+
+        expect(getQueryIdWarnings(next, 2047n)).toEqual([]);
+        expect(getQueryIdWarnings(next, 2048n)).toEqual([
+            "The wallet already processed query ID 2048, at or after this device's next one (2048); another app may be sending from it",
+        ]);
+    });
+
+    it('moves the store past a used query ID but never back', () => {
+        const store = new QueryIdStore('advance-test');
+        const start = store.getCurrent().getQueryId();
+
+        store.advancePast(start - 1n);
+        expect(store.getCurrent().getQueryId()).toBe(start);
+
+        store.advancePast(start + 1022n);
+        expect(store.getCurrent().getQueryId()).toBe(start + 1023n);
+
+        expect(() => store.advancePast(HighloadQueryId.fromShiftAndBitNumber(8191, 1022).getQueryId()))
+            .toThrow('No query IDs left after this one');
+    });
+});
+
+describe('Highload wallet variants', () => {
+    type ContractState = Awaited<ReturnType<TonClient['getContractState']>>;
+
+    /**
+     * TonClient answering getContractState from a map of addresses
+     */
+    class FakeClient extends TonClient {
+        states = new Map<string, Partial<ContractState>>();
+
+        constructor() {
+            super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+        }
+
+        async getContractState(address: Address): Promise<ContractState> {
+            const state = this.states.get(address.toRawString());
+            return { balance: 0n, state: 'uninitialized', code: null, data: null, ...state } as ContractState;
+        }
+    }
+
+    function createFacade(client: FakeClient): WalletFacade {
+        const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+        rpcClient.getClient = () => client;
+        return new WalletFacade('mainnet', { rpcClient });
+    }
+
+    it('derives an address for every subwallet ID and timeout', async () => {
+        const facade = createFacade(new FakeClient());
+        const { publicKey } = await mnemonicToPrivateKey(await mnemonicNew(24));
+
+        const variants = facade.getHighloadVariants(publicKey, [DEFAULT_CONFIG.SUBWALLET_ID, 1], [3600, 60]);
+
+        expect(variants.map(v => [v.subwalletId, v.timeout])).toEqual([[DEFAULT_CONFIG.SUBWALLET_ID, 3600], [DEFAULT_CONFIG.SUBWALLET_ID, 60], [1, 3600], [1, 60]]);
+        expect(new Set(variants.map(v => v.address)).size).toBe(4);
+        expect(variants[0].address).toBe(facade.getAddress(publicKey, 'highload-v3'));
+        expect(variants[3].address).toBe(new HighloadWalletV3Service('mainnet', 1, 60).getWalletAddress(publicKey));
+
+        expect(() => facade.getHighloadVariants(publicKey, [-1], [3600])).toThrow('Invalid subwallet ID: -1');
+        expect(() => facade.getHighloadVariants(publicKey, [1], [NaN])).toThrow('Invalid timeout: NaN');
+    });
+
+    it('reads each wallet from chain next to the local query ID store, and syncs a store left behind', async () => {
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const { publicKey } = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const [main, other] = facade.getHighloadVariants(publicKey, [DEFAULT_CONFIG.SUBWALLET_ID, 7], [3600]);
+
+        // Stores start from the clock; pin it well inside the query ID space
+        const now = vi.spyOn(Date, 'now').mockReturnValue((8192 * 200_000 + 100) * 1000);
+        const before = await facade.getHighloadWalletState(publicKey);
+        now.mockRestore();
+        const next = before.nextQueryId;
+        expect(before).toMatchObject({ status: 'uninitialized', lastCleanedAt: null, processedCount: 0, lastProcessedQueryId: null });
+
+        // Another app has sent five messages ahead of this device
+        client.states.set(Address.parse(main.address).toRawString(), {
+            state: 'active',
+            balance: 2_000_000_000n,
+            data: walletData(publicKey, [next - 3n], [next, next + 4n], 1_700_000_000).toBoc(),
+        });
+
+        const [state, fresh] = await facade.discoverHighloadWallets(publicKey, [DEFAULT_CONFIG.SUBWALLET_ID, 7], [3600]);
+        expect(state).toMatchObject({
+            address: main.address,
+            status: 'active',
+            balance: 2_000_000_000n,
+            lastCleanedAt: 1_700_000_000,
+            processedCount: 3,
+            lastProcessedQueryId: next + 4n,
+            nextQueryId: next,
+        });
+        expect(state.warnings).toHaveLength(1);
+        expect(fresh).toMatchObject({ address: other.address, subwalletId: 7, status: 'uninitialized' });
+
+        const synced = await facade.syncHighloadQueryIds(publicKey);
+        expect(synced.nextQueryId).toBe(next + 5n);
+        expect(synced.warnings).toEqual([]);
+
+        // The store stays moved
+        expect((await facade.getHighloadWalletState(publicKey)).nextQueryId).toBe(next + 5n);
+    });
+});
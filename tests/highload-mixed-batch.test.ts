@@ -0,0 +1,206 @@
+/**
+ * Highload Mixed Batch Test Suite
+ *
+ * Tests packing messages into highload external messages (action count,
+ * depth and size limits, checked against the signed messages) and the
+ * facade's mixed-asset batch: TON, jettons across masters, NFTs and raw
+ * messages with state init.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell, Cell, loadMessage, toNano, TonClient } from '@ton/ton';
+import { internal, MessageRelaxed } from '@ton/core';
+import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { HighloadWalletV3Service, HighloadQueryId, packHighloadMessages, fitsHighloadMessage } from '../src/wallets/highload-v3';
+import { RpcClient, TonApiClient } from '../src/network';
+import { HIGHLOAD_CONSTANTS, JETTON_OP_CODES, NFT_OP_CODES } from '../src/types';
+
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`);
+const RECIPIENT = addr('ab').toString({ bounceable: false });
+
+/**
+ * Chain of cells `depth` levels deep
+ */
+function deepCell(depth: number): Cell {
+    let cell = beginCell().storeUint(depth, 16).endCell();
+    for (let i = 0; i < depth; i++) {
+        cell = beginCell().storeUint(i, 16).storeRef(cell).endCell();
+    }
+    return cell;
+}
+
+/**
+ * Body of about `cells` full cells, distinct per seed
+ */
+function bulkyCell(seed: number, cells: number): Cell {
+    let cell = beginCell().endCell();
+    for (let i = 0; i < cells; i++) {
+        const builder = beginCell().storeUint(seed, 32).storeUint(i, 32);
+        while (builder.availableBits >= 64) builder.storeUint(0xdeadbeefn * BigInt(i + 1), 64);
+        cell = builder.storeRef(cell).endCell();
+    }
+    return cell;
+}
+
+function tonMessage(body?: Cell): MessageRelaxed {
+    return internal({ to: addr('ab'), value: toNano('0.01'), body, bounce: false });
+}
+
+describe('Highload batch packing', () => {
+    it('fills groups up to 254 actions', () => {
+        const groups = packHighloadMessages(Array.from({ length: 600 }, () => tonMessage()));
+        expect(groups.map(group => group.length)).toEqual([254, 254, 92]);
+        expect(packHighloadMessages([])).toEqual([]);
+    });
+
+    it('keeps each signed message within the depth and size limits', async () => {
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const service = new HighloadWalletV3Service('mainnet');
+
+        // A deep body takes out action levels from the rest of its group
+        const deep = [tonMessage(deepCell(400)), ...Array.from({ length: 200 }, () => tonMessage())];
+        const deepGroups = packHighloadMessages(deep);
+        expect(deepGroups).toHaveLength(2);
+
+        // Bulky bodies split by size well before 254 actions
+        const bulky = Array.from({ length: 60 }, (_, i) => tonMessage(bulkyCell(i, 10)));
+        const bulkyGroups = packHighloadMessages(bulky);
+        expect(bulkyGroups.length).toBeGreaterThan(1);
+        expect(bulkyGroups.flat()).toHaveLength(60);
+
+        for (const group of [...deepGroups, ...bulkyGroups]) {
+            const external = service.createExternalMessage(keyPair, group, HighloadQueryId.fromQueryId(1n));
+            expect(external.depth()).toBeLessThanOrEqual(HIGHLOAD_CONSTANTS.MAX_EXT_MSG_DEPTH);
+            expect(external.toBoc().length).toBeLessThanOrEqual(HIGHLOAD_CONSTANTS.MAX_EXT_MSG_SIZE);
+        }
+    });
+
+    it('fills a later message into an earlier group with room, and rejects a message too large on its own', () => {
+        // About 39 KB each: two do not fit one 64 KB external message
+        const big = tonMessage(bulkyCell(1, 300));
+        const other = tonMessage(bulkyCell(2, 300));
+        const small = tonMessage();
+        const groups = packHighloadMessages([big, other, small]);
+
+        expect(groups.map(group => group.length)).toEqual([2, 1]);
+        expect(groups[0][1]).toBe(small);
+        expect(fitsHighloadMessage([big, other])).toBe(false);
+
+        expect(() => packHighloadMessages([small, tonMessage(deepCell(600))]))
+            .toThrow('Message 2 does not fit in a highload external message');
+        expect(() => new HighloadWalletV3Service('mainnet').createExternalMessage(
+            { publicKey: Buffer.alloc(32), secretKey: Buffer.alloc(64) },
+            [big, other],
+            HighloadQueryId.fromQueryId(1n)
+        )).toThrow('The messages are too large for one external message');
+    });
+});
+
+describe('Mixed-asset highload batch', () => {
+    /**
+     * In-memory TonClient: records sent BOCs
+     */
+    class FakeClient extends TonClient {
+        sent: Buffer[] = [];
+
+        constructor() {
+            super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+        }
+
+        async runMethod(): Promise<never> {
+            throw new Error('Contract not deployed');
+        }
+
+        async sendFile(boc: Buffer): Promise<void> {
+            this.sent.push(boc);
+        }
+    }
+
+    const MASTER_A = addr('a1');
+    const MASTER_B = addr('b1');
+    const JETTON_WALLETS: Record<string, string> = {
+        [MASTER_A.toRawString()]: addr('a2').toString(),
+        [MASTER_B.toRawString()]: addr('b2').toString(),
+    };
+
+    function createFacade(client: FakeClient, lookups: string[]): WalletFacade {
+        const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+        rpcClient.getClient = () => client;
+
+        const tonApiClient = new TonApiClient('mainnet');
+        tonApiClient.getJettonWalletAddress = async (_owner: string, master: string) => {
+            lookups.push(master);
+            return JETTON_WALLETS[Address.parse(master).toRawString()] ?? null;
+        };
+        return new WalletFacade('mainnet', { rpcClient, tonApiClient });
+    }
+
+    it('builds TON, jetton, NFT and raw messages in item order', async () => {
+        const lookups: string[] = [];
+        const facade = createFacade(new FakeClient(), lookups);
+        const owner = addr('ee').toString();
+        const init = { code: beginCell().storeUint(1, 8).endCell(), data: beginCell().storeUint(2, 8).endCell() };
+
+        const messages = await facade.buildHighloadBatch(owner, [
+            { type: 'ton', to: RECIPIENT, amount: toNano('1'), comment: 'hi' },
+            { type: 'jetton', jettonMaster: MASTER_A.toString(), to: RECIPIENT, amount: 5n },
+            { type: 'jetton', jettonMaster: MASTER_B.toRawString(), to: RECIPIENT, amount: 6n },
+            { type: 'jetton', jettonMaster: MASTER_A.toRawString(), to: RECIPIENT, amount: 7n },
+            { type: 'nft', nftAddress: addr('c1').toString(), to: RECIPIENT },
+            { type: 'raw', to: addr('d1').toString(), amount: toNano('0.2'), body: beginCell().storeUint(42, 32).endCell(), init },
+        ]);
+
+        // One lookup per master, whatever address form the items use
+        expect(lookups).toHaveLength(2);
+        expect(messages.map(m => m.info.dest?.toString())).toEqual([
+            Address.parse(RECIPIENT).toString(),
+            addr('a2').toString(),
+            addr('b2').toString(),
+            addr('a2').toString(),
+            addr('c1').toString(),
+            addr('d1').toString(),
+        ]);
+
+        const comment = messages[0].body.beginParse();
+        expect(comment.loadUint(32)).toBe(0);
+        expect(comment.loadStringTail()).toBe('hi');
+
+        const jetton = messages[3].body.beginParse();
+        expect(jetton.loadUint(32)).toBe(JETTON_OP_CODES.TRANSFER);
+        jetton.loadUintBig(64);
+        expect(jetton.loadCoins()).toBe(7n);
+        expect(messages[4].body.beginParse().loadUint(32)).toBe(NFT_OP_CODES.TRANSFER);
+
+        expect(messages[5].init?.code?.equals(init.code)).toBe(true);
+        expect(messages[5].body.beginParse().loadUint(32)).toBe(42);
+        expect(messages[5].info.type === 'internal' && messages[5].info.bounce).toBe(true);
+    });
+
+    it('fails when the owner has no wallet for a jetton', async () => {
+        const facade = createFacade(new FakeClient(), []);
+        const master = addr('f1').toString();
+
+        await expect(facade.buildHighloadBatch(RECIPIENT, [{ type: 'jetton', jettonMaster: master, to: RECIPIENT, amount: 1n }]))
+            .rejects.toThrow(`No jetton wallet for ${master}`);
+    });
+
+    it('sends a large mixed batch in the fewest external messages, each under its own query ID', async () => {
+        const client = new FakeClient();
+        const facade = createFacade(client, []);
+        const mnemonic = await mnemonicNew(24);
+
+        const items = Array.from({ length: 300 }, (_, i) => i % 2
+            ? { type: 'ton' as const, to: RECIPIENT, amount: toNano('0.01') }
+            : { type: 'jetton' as const, jettonMaster: MASTER_A.toString(), to: RECIPIENT, amount: BigInt(i + 1) });
+        const results = await facade.sendHighloadBatch(mnemonic, items);
+
+        expect(results.map(r => r.success)).toEqual([true, true]);
+        expect(new Set(results.map(r => r.queryId)).size).toBe(2);
+        expect(client.sent).toHaveLength(2);
+        const wallet = await facade.importWallet(mnemonic, 'highload-v3');
+        for (const boc of client.sent) {
+            expect(loadMessage(Cell.fromBoc(boc)[0].beginParse()).info.dest?.toString()).toBe(Address.parse(wallet.address).toString());
+        }
+    });
+});
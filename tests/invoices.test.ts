@@ -0,0 +1,201 @@
+/**
+ * Invoices Test Suite
+ *
+ * Tests merchant invoices against a fake TonAPI event feed read through
+ * TonApiService: matching by comment and asset, partial, over- and late
+ * payments, pending transfers, expiry, repeated reads, events and webhooks.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Address } from '@ton/core';
+import { InvoiceService, InvoiceStore } from '../src/services/InvoiceService';
+import type { Clock, InvoiceEvent } from '../src/services/InvoiceService';
+import { parseTransferLink } from '../src/services/TransferLink';
+import { TonApiService } from '../src/services/TonApiService';
+
+const MINUTE = 60 * 1000;
+const ACCOUNT = 'account-1';
+const MERCHANT = `0:${'11'.repeat(32)}`;
+const PAYER = `0:${'22'.repeat(32)}`;
+const USDT = `0:${'33'.repeat(32)}`;
+const OTHER_JETTON = `0:${'44'.repeat(32)}`;
+
+class FakeClock implements Clock {
+    time = 1_700_000_000_000;
+
+    now(): number {
+        return this.time;
+    }
+
+    advance(ms: number): void {
+        this.time += ms;
+    }
+}
+
+/**
+ * TonAPI account events, newest first, served to TonApiService through fetch
+ */
+class FakeEventFeed {
+    events: any[] = [];
+    private count = 0;
+
+    ton(clock: FakeClock, amount: number, comment: string): void {
+        this.push(clock, { type: 'TonTransfer', TonTransfer: { sender: { address: PAYER }, recipient: { address: MERCHANT }, amount, comment } });
+    }
+
+    jetton(clock: FakeClock, master: string, amount: string, comment: string): void {
+        this.push(clock, {
+            type: 'JettonTransfer',
+            JettonTransfer: { sender: { address: PAYER }, recipient: { address: MERCHANT }, amount, comment, jetton: { address: master, symbol: 'USDT', decimals: 6 } },
+        });
+    }
+
+    outgoing(clock: FakeClock, amount: number, comment: string): void {
+        this.push(clock, { type: 'TonTransfer', TonTransfer: { sender: { address: MERCHANT }, recipient: { address: PAYER }, amount, comment } });
+    }
+
+    private push(clock: FakeClock, action: any): void {
+        this.events.unshift({ event_id: `event-${++this.count}`, timestamp: Math.floor(clock.now() / 1000), actions: [action] });
+    }
+
+    install(): void {
+        vi.stubGlobal('fetch', async (url: string) => new Response(
+            JSON.stringify(url.includes('/events') ? { events: this.events } : { address: MERCHANT }),
+            { status: 200 }
+        ));
+    }
+}
+
+function setup() {
+    const clock = new FakeClock();
+    const feed = new FakeEventFeed();
+    feed.install();
+    const webhooks: { url: string; event: InvoiceEvent }[] = [];
+    const service = new InvoiceService({
+        store: new InvoiceStore(),
+        source: new TonApiService(),
+        clock,
+        sendWebhook: async (url, event) => { webhooks.push({ url, event }); },
+    });
+    const events: InvoiceEvent[] = [];
+    service.on(event => events.push(event));
+    const address = Address.parseRaw(MERCHANT).toString();
+    return { clock, feed, service, events, webhooks, address };
+}
+
+describe('Invoices', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('creates invoices with unique comments and payment links', () => {
+        const { service, address } = setup();
+
+        const generated = service.createInvoice(ACCOUNT, { asset: { symbol: 'TON', decimals: 9 }, amount: '2.5', expiresInMinutes: 30 });
+        expect(generated.comment).toMatch(/^INV-[0-9A-F]{8}$/);
+        expect(generated).toMatchObject({ amount: '2500000000', status: 'pending', received: '0' });
+
+        const memo = service.createInvoice(ACCOUNT, { asset: { symbol: 'USDT', decimals: 6, jettonMaster: USDT }, amount: '10', memo: 'Order 17' });
+        expect(() => service.createInvoice(ACCOUNT, { asset: { symbol: 'TON', decimals: 9 }, amount: '1', memo: ' order 17 ' }))
+            .toThrow('Another invoice already uses the memo "order 17"');
+        expect(() => service.createInvoice(ACCOUNT, { asset: { symbol: 'TON', decimals: 9 }, amount: '0' }))
+            .toThrow('Amount must be greater than 0');
+
+        const link = parseTransferLink(service.getInvoiceLink(memo, address), 0);
+        expect(link).toMatchObject({ amount: 10_000_000n, jetton: Address.parseRaw(USDT).toString(), text: 'Order 17' });
+        expect(parseTransferLink(service.getInvoiceLink(generated, address), 0).expiresAt).toBe(Math.floor(generated.expiresAt! / 1000));
+    });
+
+    it('matches TON and jetton payments by comment and asset, once per transfer', async () => {
+        const { clock, feed, service, events, webhooks, address } = setup();
+        const ton = service.createInvoice(ACCOUNT, { asset: { symbol: 'TON', decimals: 9 }, amount: '1', memo: 'ton-1' });
+        const usdt = service.createInvoice(ACCOUNT, { asset: { symbol: 'USDT', decimals: 6, jettonMaster: Address.parseRaw(USDT).toString() }, amount: '5', memo: 'usdt-1' });
+        service.setWebhook(ACCOUNT, 'https://merchant.example/hook');
+
+        clock.advance(MINUTE);
+        feed.ton(clock, 1_000_000_000, 'TON-1');           // Comment case does not matter
+        feed.jetton(clock, OTHER_JETTON, '5000000', 'usdt-1');  // Wrong jetton
+        feed.outgoing(clock, 1_000_000_000, 'usdt-1');       // Not incoming
+        feed.jetton(clock, USDT, '5000000', 'usdt-1');
+
+        const changed = await service.check(ACCOUNT, address);
+        expect(changed.map(i => i.id).sort()).toEqual([ton.id, usdt.id].sort());
+
+        const paidTon = service.getInvoices(ACCOUNT).find(i => i.id === ton.id)!;
+        const paidUsdt = service.getInvoices(ACCOUNT).find(i => i.id === usdt.id)!;
+        expect(paidTon).toMatchObject({ status: 'paid', received: '1000000000', paidAt: clock.now() - (clock.now() % 1000), paidLate: false });
+        expect(paidUsdt).toMatchObject({ status: 'paid', received: '5000000' });
+        expect(paidUsdt.payments).toHaveLength(1);
+
+        expect(events.map(e => `${e.type}:${e.invoice.comment}`).sort()).toEqual(['paid:ton-1', 'paid:usdt-1', 'payment:ton-1', 'payment:usdt-1']);
+        expect(webhooks).toHaveLength(4);
+        expect(webhooks[0].url).toBe('https://merchant.example/hook');
+
+        // Reading the same feed again changes nothing
+        expect(await service.check(ACCOUNT, address)).toEqual([]);
+        expect(events).toHaveLength(4);
+    });
+
+    it('tracks underpayment, overpayment and payments after the expiry', async () => {
+        const { clock, feed, service, events, address } = setup();
+        const invoice = service.createInvoice(ACCOUNT, { asset: { symbol: 'TON', decimals: 9 }, amount: '3', memo: 'inv', expiresInMinutes: 10 });
+
+        clock.advance(MINUTE);
+        feed.ton(clock, 1_000_000_000, 'inv');
+        await service.check(ACCOUNT, address);
+        expect(service.getInvoices(ACCOUNT)[0]).toMatchObject({ status: 'underpaid', received: '1000000000' });
+
+        // Expires with a third paid
+        clock.advance(10 * MINUTE);
+        await service.check(ACCOUNT, address);
+        expect(service.getInvoices(ACCOUNT)[0].status).toBe('expired');
+        expect(events.map(e => e.type)).toEqual(['payment', 'expired']);
+
+        // The rest arrives late, with too much
+        clock.advance(MINUTE);
+        feed.ton(clock, 2_500_000_000, 'inv');
+        const [late] = await service.check(ACCOUNT, address);
+        expect(late).toMatchObject({ id: invoice.id, status: 'overpaid', received: '3500000000', paidLate: true });
+        expect(late.payments.map(p => p.late)).toEqual([false, true]);
+        expect(events.map(e => e.type)).toEqual(['payment', 'expired', 'payment', 'paid']);
+    });
+
+    it('waits for pending transfers to be confirmed before crediting them', async () => {
+        const { clock, feed, service, events, webhooks, address } = setup();
+        service.createInvoice(ACCOUNT, { asset: { symbol: 'TON', decimals: 9 }, amount: '1', memo: 'inv' });
+        service.setWebhook(ACCOUNT, 'https://merchant.example/hook');
+
+        clock.advance(MINUTE);
+        feed.ton(clock, 1_000_000_000, 'inv');
+        feed.events[0].in_progress = true;
+        expect(await service.check(ACCOUNT, address)).toEqual([]);
+        expect(service.getInvoices(ACCOUNT)[0]).toMatchObject({ status: 'pending', received: '0' });
+        expect(webhooks).toHaveLength(0);
+
+        feed.events[0].in_progress = false;
+        await service.check(ACCOUNT, address);
+        await service.check(ACCOUNT, address);
+        expect(service.getInvoices(ACCOUNT)[0]).toMatchObject({ status: 'paid', received: '1000000000' });
+        expect(service.getInvoices(ACCOUNT)[0].payments).toHaveLength(1);
+        expect(events.map(e => e.type)).toEqual(['payment', 'paid']);
+    });
+
+    it('ignores transfers older than the invoice and records payments to cancelled invoices', async () => {
+        const { clock, feed, service, address } = setup();
+        feed.ton(clock, 1_000_000_000, 'old');
+        clock.advance(10 * MINUTE);
+
+        const invoice = service.createInvoice(ACCOUNT, { asset: { symbol: 'TON', decimals: 9 }, amount: '1', memo: 'old' });
+        await service.check(ACCOUNT, address);
+        expect(service.getInvoices(ACCOUNT)[0].status).toBe('pending');
+
+        service.cancelInvoice(ACCOUNT, invoice.id);
+        clock.advance(MINUTE);
+        feed.ton(clock, 1_000_000_000, 'old');
+        await service.check(ACCOUNT, address);
+
+        expect(service.getInvoices(ACCOUNT)[0]).toMatchObject({ status: 'cancelled', received: '1000000000' });
+        expect(() => service.cancelInvoice(ACCOUNT, invoice.id)).toThrow('Only unpaid invoices can be cancelled');
+        expect(() => service.setWebhook(ACCOUNT, 'ftp://merchant.example')).toThrow('Webhook URL must use http or https');
+    });
+});
@@ -0,0 +1,253 @@
+/**
+ * Liquidity Test Suite
+ *
+ * Tests pool LP supply from both DEXes, balanced deposit quotes, STON.fi and
+ * DeDust provide-liquidity messages, LP burns, and the tracker's positions,
+ * fee estimates and provided/refunded detection.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Address, beginCell, Cell, TupleReader } from '@ton/core';
+import type { TonClient } from '@ton/ton';
+import { SwapService, TON_TOKENS } from '../src/services/SwapService';
+import type { PoolEdge } from '../src/services/SwapService';
+import { LiquidityStore, LiquidityTracker, getLpTokenPrice } from '../src/services/LiquidityService';
+import type { Clock } from '../src/services/SwapOrderService';
+import type { JettonBalance, TransactionHistoryItem } from '../src/types';
+
+const STONFI_ROUTER_V2 = 'EQBCtlN7Zy96qx-3yH0Yi4V0SNtQ-8RbhYaNs65MC4Hwfq31';
+const STONFI_PTON_WALLET = 'EQBB_dTiG6u4IIbDT80yirqwmLpwRp7cDGkdrmvQ3Xs_39xM';
+const DEDUST_NATIVE_VAULT = 'EQDa4VOnTYlLvDJ0gZjNYm5PXfSmmtL6Vs6A_CZEtXCNICq_';
+const USDT = TON_TOKENS.USDT.address;
+const NOT = TON_TOKENS.NOT.address;
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`).toString();
+const WALLET = addr('a1');
+const POOL = addr('b2');
+const USDT_VAULT = addr('d4');
+const ACCOUNT = 'account-1';
+
+const TON = (amount: number) => BigInt(amount) * 10n ** 9n;
+const USD = (amount: number) => BigInt(amount) * 10n ** 6n;
+
+function tonUsdtPool(provider: 'stonfi' | 'dedust', reserves: [bigint, bigint] = [TON(1_000), USD(5_000)], lpSupply: bigint = TON(2_000)): PoolEdge {
+    return { provider, address: POOL, tokens: ['TON', 'USDT'], reserves, feeBps: 30, lpSupply };
+}
+
+function lpBalance(balance: bigint): JettonBalance[] {
+    return [{
+        jetton: { address: Address.parse(POOL).toRawString(), symbol: 'LP', name: 'LP', decimals: 9, verified: false },
+        walletAddress: addr('c3'),
+        balance,
+        balanceFormatted: '',
+    }];
+}
+
+function incoming(from: string, amount: bigint, timestamp: number, jetton?: string): TransactionHistoryItem {
+    const transfer = {
+        hash: `event-${timestamp}-${amount}`,
+        type: 'incoming' as const,
+        amount,
+        from,
+        to: WALLET,
+        fromRaw: Address.parse(from).toRawString(),
+        toRaw: Address.parse(WALLET).toRawString(),
+        timestamp,
+        status: 'confirmed' as const,
+    };
+    return jetton
+        ? { ...transfer, action: 'jetton_transfer', jetton: { address: Address.parse(jetton).toRawString(), symbol: 'USD₮', name: 'Tether', decimals: 6, verified: true } }
+        : { ...transfer, action: 'ton_transfer' };
+}
+
+class FakeClock implements Clock {
+    time = 1_700_000_000_000;
+
+    now(): number {
+        return this.time;
+    }
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('Liquidity quotes and messages', () => {
+    it('reads the LP supply of STON.fi and DeDust pools', async () => {
+        const responses: Record<string, unknown> = {
+            'https://api.ston.fi/v1/pools': { pool_list: [{
+                address: 'EQ-stonfi', router_address: STONFI_ROUTER_V2, token0_address: USDT, token1_address: NOT,
+                reserve0: '1000', reserve1: '2000', lp_fee: '20', protocol_fee: '10', lp_total_supply: '1400', deprecated: false,
+            }] },
+            'https://api.dedust.io/v2/pools': [
+                { address: 'EQ-dedust', type: 'volatile', assets: [{ type: 'native' }, { type: 'jetton', address: USDT }], reserves: ['10', '50'], totalSupply: '22' },
+                { address: 'EQ-no-supply', type: 'volatile', assets: [{ type: 'native' }, { type: 'jetton', address: NOT }], reserves: ['10', '50'] },
+            ],
+        };
+        vi.stubGlobal('fetch', async (url: string) => new Response(JSON.stringify(responses[url])));
+
+        const pools = await new SwapService().getLiquidityPools();
+
+        expect(pools.map(pool => [pool.address, pool.lpSupply])).toEqual([['EQ-stonfi', 1400n], ['EQ-dedust', 22n]]);
+    });
+
+    it('balances a deposit at the pool price and estimates LP tokens and share', () => {
+        const service = new SwapService();
+        const pool = tonUsdtPool('stonfi');
+
+        const quote = service.quoteProvideLiquidity(pool, 'USDT', '50');
+
+        expect(quote).toMatchObject({ provider: 'stonfi', poolAddress: POOL, tokens: ['TON', 'USDT'], amounts: ['10', '50'], lpAmount: '20', minLpAmount: '19.8' });
+        expect(quote.share).toBeCloseTo(20 / 2020, 10);
+        expect(service.quoteRemoveLiquidity(pool, '20')).toEqual(['10', '50']);
+
+        expect(() => service.quoteProvideLiquidity(pool, 'NOT', '1')).toThrow('NOT is not in this pool');
+        expect(() => service.quoteProvideLiquidity({ ...pool, lpSupply: 0n }, 'TON', '1')).toThrow('Pool LP supply is unknown');
+    });
+
+    it('builds both STON.fi sides: TON wrapped by pTON, jettons through the router', async () => {
+        const service = new SwapService();
+        const quote = service.quoteProvideLiquidity(tonUsdtPool('stonfi'), 'TON', '10');
+
+        const [tonSide, jettonSide] = await service.buildProvideLiquidityTransactions(quote, WALLET);
+
+        expect(tonSide).toMatchObject({ type: 'ton_transfer', to: STONFI_PTON_WALLET });
+        expect(BigInt(tonSide.value!)).toBeGreaterThan(TON(10));
+        const wrap = tonSide.body!.beginParse();
+        expect(wrap.loadUint(32)).toBe(0x01f3835d);
+        wrap.loadUint(64);
+        expect(wrap.loadCoins()).toBe(TON(10));
+        expect(wrap.loadAddress().equals(Address.parse(WALLET))).toBe(true);
+        expect(wrap.loadBit()).toBe(true);
+        const tonProvide = wrap.loadRef().beginParse();
+        expect(tonProvide.loadUint(32)).toBe(0x37c096df);
+        expect(tonProvide.loadAddress().equals(Address.parse(USDT))).toBe(true);
+
+        expect(jettonSide).toMatchObject({ type: 'jetton_transfer', jettonMaster: USDT, destination: STONFI_ROUTER_V2, amount: USD(50).toString() });
+        const provide = Cell.fromBase64(jettonSide.forwardPayload!).beginParse();
+        expect(provide.loadUint(32)).toBe(0x37c096df);
+        expect(provide.loadAddress().equals(Address.parse(STONFI_PTON_WALLET))).toBe(true);
+        const additional = provide.loadRef().beginParse();
+        expect(additional.loadCoins()).toBe(TON(20) * 99n / 100n);
+        expect(additional.loadAddress().equals(Address.parse(WALLET))).toBe(true);
+        expect(additional.loadUint(1)).toBe(1);
+    });
+
+    it('builds DeDust deposits with the pool assets and both target balances', async () => {
+        const service = new SwapService();
+        const quote = service.quoteProvideLiquidity(tonUsdtPool('dedust'), 'TON', '10');
+
+        // The factory's get_vault_address answers with the jetton vault
+        const lookups: Cell[] = [];
+        service.setClient({
+            runMethod: async (_address: Address, method: string, args: any[]) => {
+                expect(method).toBe('get_vault_address');
+                lookups.push(args[0].cell);
+                return { stack: new TupleReader([{ type: 'slice', cell: beginCell().storeAddress(Address.parse(USDT_VAULT)).endCell() }]) };
+            },
+        } as unknown as TonClient);
+
+        const [tonSide, jettonSide] = await service.buildProvideLiquidityTransactions(quote, WALLET);
+        await service.buildProvideLiquidityTransactions(quote, WALLET);
+        expect(lookups).toHaveLength(1);
+        const asset = lookups[0].beginParse();
+        expect(asset.loadUint(4)).toBe(1);
+        asset.loadInt(8);
+        expect(asset.loadBuffer(32).equals(Address.parse(USDT).hash)).toBe(true);
+
+        expect(tonSide).toMatchObject({ type: 'ton_transfer', to: DEDUST_NATIVE_VAULT });
+        const body = tonSide.body!.beginParse();
+        expect(body.loadUint(32)).toBe(0xd55e4686);
+        body.loadUint(64);
+        expect(body.loadCoins()).toBe(TON(10));
+        expect(body.loadUint(1)).toBe(0);
+        expect(body.loadUint(4)).toBe(0);
+        expect(body.loadUint(4)).toBe(1);
+        expect(body.loadInt(8)).toBe(0);
+        expect(body.loadBuffer(32).equals(Address.parse(USDT).hash)).toBe(true);
+        const targets = body.loadRef().beginParse();
+        expect([targets.loadCoins(), targets.loadCoins(), targets.loadCoins()]).toEqual([TON(20) * 99n / 100n, TON(10), USD(50)]);
+
+        expect(jettonSide).toMatchObject({ type: 'jetton_transfer', jettonMaster: USDT, destination: USDT_VAULT, amount: USD(50).toString() });
+        expect(Cell.fromBase64(jettonSide.forwardPayload!).beginParse().loadUint(32)).toBe(0x40e108d6);
+    });
+
+    it('withdraws by burning LP tokens at the owner\'s LP wallet', () => {
+        const tx = new SwapService().buildRemoveLiquidityTransaction(POOL, '1.5', WALLET);
+
+        expect(tx).toMatchObject({ type: 'jetton_burn', jettonMaster: POOL, amount: '1500000000' });
+        const burn = tx.body!.beginParse();
+        expect(burn.loadUint(32)).toBe(0x595f07bc);
+        burn.loadUint(64);
+        expect(burn.loadCoins()).toBe(1_500_000_000n);
+        expect(burn.loadAddress().equals(Address.parse(WALLET))).toBe(true);
+    });
+});
+
+describe('Liquidity tracking', () => {
+    function setup() {
+        const clock = new FakeClock();
+        const tracker = new LiquidityTracker({ store: new LiquidityStore(), clock });
+        const quote = new SwapService().quoteProvideLiquidity(tonUsdtPool('stonfi'), 'TON', '10');
+        return { clock, tracker, quote };
+    }
+
+    it('marks a provision provided once LP tokens arrive and estimates fees from pool growth', () => {
+        const { tracker, quote } = setup();
+        const pool = tonUsdtPool('stonfi');
+        tracker.recordProvision(ACCOUNT, quote, pool, 0n, 'hash');
+
+        expect(tracker.resolveProvisions(ACCOUNT, [], [])).toEqual([]);
+        const [settled] = tracker.resolveProvisions(ACCOUNT, lpBalance(TON(20)), []);
+        expect(settled).toMatchObject({ status: 'provided', lpReceived: TON(20).toString(), hash: 'hash' });
+
+        // The deposit made the pool 1010 TON / 5050 USDT for 2020 LP; swap fees then grew both reserves by 1%
+        const grown = tonUsdtPool('stonfi', [TON(10_201) / 10n, USD(51_005) / 10n], TON(2_020));
+        const [position] = tracker.getPositions(ACCOUNT, [grown], lpBalance(TON(20)));
+
+        expect(position.underlying).toEqual([TON(101) / 10n, USD(505) / 10n]);
+        expect(position.share).toBeCloseTo(20 / 2020, 10);
+        expect(Number(position.feesEarned![0]) / 1e9).toBeCloseTo(0.1, 6);
+        expect(Number(position.feesEarned![1]) / 1e6).toBeCloseTo(0.5, 5);
+
+        // Half withdrawn: fees follow the remaining tokens
+        tracker.recordWithdrawal(ACCOUNT, POOL, TON(10));
+        const [half] = tracker.getPositions(ACCOUNT, [grown], lpBalance(TON(10)));
+        expect(Number(half.feesEarned![0]) / 1e9).toBeCloseTo(0.05, 6);
+    });
+
+    it('detects refunds from the DEX and ignores returned gas and older transfers', () => {
+        const { clock, tracker, quote } = setup();
+        tracker.recordProvision(ACCOUNT, quote, tonUsdtPool('stonfi'), 0n);
+        const sentAt = clock.now() / 1000;
+
+        const noise = [
+            incoming(STONFI_ROUTER_V2, TON(1) / 10n, sentAt + 5),         // Excess gas
+            incoming(addr('e5'), TON(10), sentAt + 5),                    // Someone else
+            incoming(STONFI_ROUTER_V2, USD(50), sentAt - 60, USDT),       // Before the deposit
+        ];
+        expect(tracker.resolveProvisions(ACCOUNT, [], noise)).toEqual([]);
+        expect(tracker.getProvisions(ACCOUNT)[0].status).toBe('pending');
+
+        const refund = incoming(STONFI_ROUTER_V2, USD(50), sentAt + 30, USDT);
+        const [settled] = tracker.resolveProvisions(ACCOUNT, [], [...noise, refund]);
+        expect(settled.status).toBe('refunded');
+        expect(tracker.resolveProvisions(ACCOUNT, [], [refund])).toEqual([]);
+    });
+
+    it('shows LP tokens held without a recorded provision, priced from a pool token', () => {
+        const { tracker } = setup();
+        const pool = tonUsdtPool('dedust');
+
+        const [position] = tracker.getPositions(ACCOUNT, [pool], lpBalance(TON(200)));
+        expect(position.feesEarned).toBeNull();
+        expect(position.underlying).toEqual([TON(100), USD(500)]);
+
+        // 1000 TON at $5 on each side of 2000 LP tokens
+        expect(getLpTokenPrice(pool, { TON: 5, USDT: 1 })).toBeCloseTo(5, 10);
+        expect(getLpTokenPrice(pool, { USDT: 1 })).toBeCloseTo(5, 10);
+        expect(getLpTokenPrice(pool, {})).toBe(0);
+
+        tracker.removeAccount(ACCOUNT);
+        expect(tracker.getProvisions(ACCOUNT)).toEqual([]);
+    });
+});
@@ -0,0 +1,293 @@
+/**
+ * Multisig V2 Test Suite
+ *
+ * Tests the multisig v2 message layouts (data, orders, new_order, approve),
+ * the order getters, and deploy / propose / approve through the facade.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    Address,
+    beginCell,
+    Cell,
+    contractAddress,
+    Dictionary,
+    internal,
+    loadMessage,
+    loadMessageRelaxed,
+    MessageRelaxed,
+    SendMode,
+    toNano,
+    TonClient,
+    TupleItem,
+    TupleReader
+} from '@ton/ton';
+import { mnemonicNew } from '@ton/crypto';
+import {
+    MultisigOrder,
+    MultisigV2,
+    MultisigV2Service,
+    findMultisigMember,
+    multisigV2ConfigToCell
+} from '../src/wallets';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient } from '../src/network';
+import { MULTISIG_CONSTANTS } from '../src/types';
+import type { MultisigAction } from '../src/types';
+
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`);
+const SIGNERS = [addr('a1'), addr('a2'), addr('a3')];
+const PROPOSER = addr('b1');
+const MULTISIG = addr('c1');
+const CODE = beginCell().storeUint(0xc0de, 16).endCell();
+const HOUR = 3600;
+
+type MethodHandler = (address: Address, name: string, args: TupleItem[]) => TupleItem[];
+
+/**
+ * In-memory TonClient: a deployed v4r2 sender at seqno 5 plus scripted getters
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor(private readonly methods: MethodHandler) {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async getContractState(address: Address): Promise<any> {
+        return { balance: 0n, state: 'active', code: address.equals(MULTISIG) ? CODE.toBoc() : null, lastTransaction: null };
+    }
+
+    async runMethod(address: Address, name: string, args: TupleItem[] = []) {
+        const stack = name === 'seqno' ? [{ type: 'int', value: 5n } as TupleItem] : this.methods(address, name, args);
+        return { gas_used: 0, stack: new TupleReader(stack) };
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+
+    /**
+     * The single internal message of a v4r2 external (signature, wallet ID, valid until, seqno, op)
+     */
+    sentMessage(index = 0): MessageRelaxed {
+        const body = loadMessage(Cell.fromBoc(this.sent[index])[0].beginParse()).body.beginParse();
+        body.skip(512 + 32 + 32 + 32 + 8);
+        expect(body.loadUint(8)).toBe(SendMode.PAY_GAS_SEPARATELY + SendMode.IGNORE_ERRORS);
+        return loadMessageRelaxed(body.loadRef().beginParse());
+    }
+}
+
+function createFacade(client: FakeClient): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient });
+}
+
+/**
+ * Index-keyed address dictionary (signers, proposers)
+ */
+function addressDict(addresses: Address[]): Cell {
+    const dict = Dictionary.empty(Dictionary.Keys.Uint(8), Dictionary.Values.Address());
+    addresses.forEach((address, index) => dict.set(index, address));
+    return beginCell().storeDictDirect(dict).endCell();
+}
+
+const slice = (address: Address): TupleItem => ({ type: 'slice', cell: beginCell().storeAddress(address).endCell() });
+
+/**
+ * get_multisig_data stack
+ */
+function multisigData(nextOrderSeqno: bigint, threshold: number, signers: Address[], proposers: Address[] = []): TupleItem[] {
+    return [
+        { type: 'int', value: nextOrderSeqno },
+        { type: 'int', value: BigInt(threshold) },
+        { type: 'cell', cell: addressDict(signers) },
+        proposers.length ? { type: 'cell', cell: addressDict(proposers) } : { type: 'null' },
+    ];
+}
+
+/**
+ * get_order_data stack
+ */
+function orderData(opts: {
+    seqno: bigint;
+    executed?: boolean;
+    signers?: Address[];
+    approvals: number[];
+    expiresAt: number;
+    actions: MultisigAction[];
+}): TupleItem[] {
+    const mask = opts.approvals.reduce((total, index) => total | (1n << BigInt(index)), 0n);
+    return [
+        slice(MULTISIG),
+        { type: 'int', value: opts.seqno },
+        { type: 'int', value: 2n },
+        { type: 'int', value: opts.executed ? -1n : 0n },
+        { type: 'cell', cell: addressDict(opts.signers ?? SIGNERS) },
+        { type: 'int', value: mask },
+        { type: 'int', value: BigInt(opts.approvals.length) },
+        { type: 'int', value: BigInt(opts.expiresAt) },
+        { type: 'cell', cell: MultisigV2.packOrder(opts.actions) },
+    ];
+}
+
+const orderAddress = (seqno: bigint) => addr((0xd0 + Number(seqno)).toString(16));
+const transfer = (value: bigint): MultisigAction => ({
+    type: 'transfer',
+    sendMode: SendMode.PAY_GAS_SEPARATELY,
+    message: internal({ to: addr('ee'), value, body: 'rent' }),
+});
+
+describe('Multisig v2 layouts', () => {
+    it('stores the configuration the way the contract reads it', () => {
+        const data = multisigV2ConfigToCell({ threshold: 2, signers: SIGNERS, proposers: [PROPOSER] }).beginParse();
+
+        expect(data.loadUintBig(256)).toBe(0n);
+        expect(data.loadUint(8)).toBe(2);
+        expect(data.loadRef().hash()).toEqual(addressDict(SIGNERS).hash());
+        expect(data.loadUint(8)).toBe(3);
+        expect(data.loadMaybeRef()).not.toBeNull();
+        expect(data.loadBit()).toBe(false);
+        expect(data.remainingBits).toBe(0);
+
+        const contract = MultisigV2.createFromConfig({ threshold: 2, signers: SIGNERS, proposers: [] }, CODE);
+        expect(contract.address.equals(contractAddress(0, contract.init!))).toBe(true);
+        expect(() => MultisigV2.createFromConfig({ threshold: 4, signers: SIGNERS, proposers: [] }, CODE))
+            .toThrow('Threshold must be between 1 and 3');
+    });
+
+    it('packs orders with transfers and parameter updates and reads them back', () => {
+        const actions: MultisigAction[] = [
+            transfer(toNano('12')),
+            { type: 'update', threshold: 1, signers: SIGNERS.slice(0, 2), proposers: [PROPOSER] },
+        ];
+
+        const body = MultisigV2.createNewOrderBody({ actions, expiresAt: 1_900_000_000, isSigner: false, index: 0 }).beginParse();
+        expect(body.loadUint(32)).toBe(MULTISIG_CONSTANTS.OP_NEW_ORDER);
+        expect(body.loadUintBig(64)).toBe(0n);
+        expect(body.loadUintBig(256)).toBe((1n << 256n) - 1n);
+        expect(body.loadBit()).toBe(false);
+        expect(body.loadUint(8)).toBe(0);
+        expect(body.loadUint(48)).toBe(1_900_000_000);
+
+        const [sent, update] = MultisigV2.unpackOrder(body.loadRef());
+        expect(sent.type === 'transfer' && sent.sendMode).toBe(SendMode.PAY_GAS_SEPARATELY);
+        expect(sent.type === 'transfer' && sent.message.info.type === 'internal' && sent.message.info.value.coins).toBe(toNano('12'));
+        expect(update.type === 'update' && update.threshold).toBe(1);
+        expect(update.type === 'update' && update.signers.map(String)).toEqual(SIGNERS.slice(0, 2).map(String));
+        expect(update.type === 'update' && update.proposers.map(String)).toEqual([PROPOSER.toString()]);
+
+        expect(() => MultisigV2.packOrder([])).toThrow('no actions');
+
+        const approve = MultisigOrder.createApproveBody(2).beginParse();
+        expect(approve.loadUint(32)).toBe(MULTISIG_CONSTANTS.OP_APPROVE);
+        expect(approve.loadUintBig(64)).toBe(0n);
+        expect(approve.loadUint(8)).toBe(2);
+    });
+
+    it('finds signers before proposers', () => {
+        const data = { nextOrderSeqno: 0n, threshold: 2, signers: SIGNERS, proposers: [PROPOSER, SIGNERS[0]] };
+        expect(findMultisigMember(data, SIGNERS[0])).toEqual({ isSigner: true, index: 0 });
+        expect(findMultisigMember(data, PROPOSER)).toEqual({ isSigner: false, index: 0 });
+        expect(findMultisigMember(data, MULTISIG)).toBeNull();
+    });
+});
+
+describe('Multisig v2 orders', () => {
+    it('lists orders newest first with approvals and status, skipping missing ones', async () => {
+        const now = Math.floor(Date.now() / 1000);
+        const client = new FakeClient((address, name, args) => {
+            if (name === 'get_multisig_data') return multisigData(4n, 2, SIGNERS);
+            if (name === 'get_order_address') return [slice(orderAddress((args[0] as any).value))];
+            if (address.equals(orderAddress(3n))) return orderData({ seqno: 3n, approvals: [0], expiresAt: now + HOUR, actions: [transfer(1n)] });
+            if (address.equals(orderAddress(2n))) throw new Error('exit code -13');
+            if (address.equals(orderAddress(1n))) return orderData({ seqno: 1n, executed: true, approvals: [0, 2], expiresAt: now + HOUR, actions: [transfer(2n)] });
+            return orderData({ seqno: 0n, approvals: [1], expiresAt: now - HOUR, actions: [transfer(3n)] });
+        });
+
+        const orders = await new MultisigV2Service().getOrders(client, MULTISIG);
+        expect(orders.map(order => [order.seqno, order.status])).toEqual([[3n, 'pending'], [1n, 'executed'], [0n, 'expired']]);
+        expect(orders[0].approvals).toEqual([true, false, false]);
+        expect(orders[1].approvalsNum).toBe(2);
+        expect(orders[0].address.equals(orderAddress(3n))).toBe(true);
+
+        const latest = await new MultisigV2Service().getOrders(client, MULTISIG, 1);
+        expect(latest).toHaveLength(1);
+    });
+});
+
+describe('Multisig v2 through the facade', () => {
+    it('deploys with code copied from a deployed multisig', async () => {
+        const client = new FakeClient((_address, name) => {
+            if (name === 'get_multisig_data') return multisigData(0n, 1, SIGNERS);
+            throw new Error(`unexpected ${name}`);
+        });
+        const facade = createFacade(client);
+        const mnemonic = await mnemonicNew(24);
+        const config = { threshold: 2, signers: SIGNERS, proposers: [] };
+
+        await expect(facade.getMultisigAddress(config)).rejects.toThrow('code is not configured');
+        const address = await facade.getMultisigAddress(config, MULTISIG.toString());
+        expect(address).toBe(MultisigV2.createFromConfig(config, CODE).address.toString());
+
+        const result = await facade.deployMultisig(mnemonic, 'v4r2', config, toNano('1'));
+        expect(result.success).toBe(true);
+
+        const message = client.sentMessage();
+        expect(message.info.dest?.toString()).toBe(address);
+        expect(message.init?.code?.equals(CODE)).toBe(true);
+        expect(message.body.beginParse().loadUint(32)).toBe(0);
+    });
+
+    it('proposes a transfer as a signer with the estimated value and approves as another', async () => {
+        const mnemonics = [await mnemonicNew(24), await mnemonicNew(24)];
+        const wallets = await Promise.all(mnemonics.map(m => new WalletFacade('mainnet').importWallet(m, 'v4r2')));
+        const signers = [SIGNERS[0], Address.parse(wallets[0].address), Address.parse(wallets[1].address)];
+        const expiresAt = Math.floor(Date.now() / 1000) + HOUR;
+        let approvals = [1];
+
+        const client = new FakeClient((address, name) => {
+            if (name === 'get_multisig_data') return multisigData(7n, 2, signers);
+            if (name === 'get_order_estimate') return [{ type: 'int', value: toNano('0.1') }];
+            if (name === 'get_order_address') return [slice(orderAddress(7n))];
+            if (name === 'get_order_data' && address.equals(orderAddress(7n))) {
+                return orderData({ seqno: 7n, signers, approvals, expiresAt, actions: [transfer(1n)] });
+            }
+            throw new Error(`unexpected ${name}`);
+        });
+        const facade = createFacade(client);
+
+        const proposed = await facade.proposeMultisigTransfer(mnemonics[0], 'v4r2', MULTISIG.toString(), addr('ee').toString(), toNano('5'), 'rent', expiresAt);
+        expect(proposed.success).toBe(true);
+        expect(proposed.orderSeqno).toBe(7n);
+        expect(proposed.orderAddress).toBe(orderAddress(7n).toString());
+
+        const order = client.sentMessage(0);
+        expect(order.info.type === 'internal' && order.info.value.coins).toBe(toNano('0.12'));
+        const body = order.body.beginParse();
+        expect(body.loadUint(32)).toBe(MULTISIG_CONSTANTS.OP_NEW_ORDER);
+        body.loadUintBig(64);
+        expect(body.loadUintBig(256)).toBe(7n);
+        expect(body.loadBit()).toBe(true);
+        expect(body.loadUint(8)).toBe(1);
+        expect(body.loadUint(48)).toBe(expiresAt);
+        const [action] = MultisigV2.unpackOrder(body.loadRef());
+        expect(action.type === 'transfer' && action.message.info.type === 'internal' && action.message.info.value.coins).toBe(toNano('5'));
+
+        // The proposer already approved with its order
+        expect((await facade.approveMultisigOrder(mnemonics[0], 'v4r2', orderAddress(7n).toString())).error)
+            .toBe('This wallet has already approved the order');
+
+        const approved = await facade.approveMultisigOrder(mnemonics[1], 'v4r2', orderAddress(7n).toString());
+        expect(approved.success).toBe(true);
+        const approve = client.sentMessage(1).body.beginParse();
+        expect(approve.loadUint(32)).toBe(MULTISIG_CONSTANTS.OP_APPROVE);
+        approve.loadUintBig(64);
+        expect(approve.loadUint(8)).toBe(2);
+
+        approvals = [1, 2];
+        const outsider = await facade.proposeMultisigTransfer(await mnemonicNew(24), 'v4r2', MULTISIG.toString(), addr('ee').toString(), 1n, undefined, expiresAt);
+        expect(outsider.error).toBe('This wallet is not a signer or proposer of the multisig');
+    });
+});
@@ -0,0 +1,275 @@
+/**
+ * NFT Test Suite
+ *
+ * Tests TEP-64 metadata resolution (on-chain, off-chain, semi-chain),
+ * gallery filtering, and TEP-62 sends through the facade.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+    Address,
+    beginCell,
+    Cell,
+    Dictionary,
+    loadMessage,
+    loadMessageRelaxed,
+    loadOutList,
+    SendMode,
+    TonClient,
+    TupleItem,
+    TupleReader
+} from '@ton/ton';
+import { mnemonicNew, sha256_sync } from '@ton/crypto';
+import { NftService, filterNfts, groupNftsByCollection, parseNftContent } from '../src/wallets';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient, TonApiClient } from '../src/network';
+import { NFT_OP_CODES } from '../src/types';
+import type { NftItem } from '../src/types';
+
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`);
+const ITEM = addr('a1');
+const COLLECTION = addr('c1');
+const RECIPIENT = addr('b1').toString({ bounceable: false });
+
+type MethodHandler = (address: Address, name: string, args: TupleItem[]) => TupleItem[];
+
+/**
+ * In-memory TonClient: deployed senders at seqno 5 plus scripted getters
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor(private readonly methods: MethodHandler = () => { throw new Error('Contract not deployed'); }) {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(address: Address, name: string, args: TupleItem[] = []) {
+        const stack = name === 'seqno' ? [{ type: 'int', value: 5n } as TupleItem] : this.methods(address, name, args);
+        return { gas_used: 0, stack: new TupleReader(stack) };
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+function createFacade(client: FakeClient): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient, tonApiClient: new TonApiClient('mainnet') });
+}
+
+const snake = (text: string) => beginCell().storeUint(0, 8).storeStringTail(text).endCell();
+
+/**
+ * On-chain TEP-64 content; values are snake cells unless given as cells
+ */
+function onchainContent(fields: Record<string, string | Cell>): Cell {
+    const dict = Dictionary.empty(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+    for (const [key, value] of Object.entries(fields)) {
+        dict.set(BigInt('0x' + sha256_sync(key).toString('hex')), typeof value === 'string' ? snake(value) : value);
+    }
+    return beginCell().storeUint(0, 8).storeDict(dict).endCell();
+}
+
+const offchainContent = (uri: string) => beginCell().storeUint(1, 8).storeStringTail(uri).endCell();
+
+function stubJson(responses: Record<string, unknown>) {
+    vi.stubGlobal('fetch', async (url: string) => url in responses
+        ? new Response(JSON.stringify(responses[url]))
+        : new Response('', { status: 404 }));
+}
+
+function item(address: Address, overrides: Partial<NftItem> = {}): NftItem {
+    return {
+        address: address.toString(),
+        index: 0n,
+        owner: RECIPIENT,
+        collection: { address: COLLECTION.toString(), name: 'Punks' },
+        metadata: { name: 'Item' },
+        trust: 'none',
+        ...overrides,
+    };
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('NFT metadata', () => {
+    it('parses on-chain snake and chunked values and off-chain URIs', () => {
+        const chunks = Dictionary.empty(Dictionary.Keys.Uint(32), Dictionary.Values.Cell());
+        chunks.set(1, beginCell().storeBuffer(Buffer.from(' world')).endCell());
+        chunks.set(0, beginCell().storeBuffer(Buffer.from('hello')).endCell());
+        const chunked = beginCell().storeUint(1, 8).storeDict(chunks).endCell();
+        const longName = 'n'.repeat(200);
+
+        expect(parseNftContent(onchainContent({
+            name: longName,
+            description: chunked,
+            image: 'ipfs://Qm123/1.png',
+        }))).toEqual({
+            name: longName,
+            description: 'hello world',
+            image: 'https://ipfs.io/ipfs/Qm123/1.png',
+        });
+
+        expect(parseNftContent(offchainContent('https://example.com/1.json'))).toEqual({ uri: 'https://example.com/1.json' });
+        expect(parseNftContent(Cell.EMPTY)).toEqual({});
+        expect(() => parseNftContent(beginCell().storeUint(7, 8).endCell())).toThrow('Unknown NFT content layout 0x7');
+    });
+
+    it('completes semi-chain content from its JSON, on-chain fields first', async () => {
+        stubJson({
+            'https://example.com/1.json': {
+                name: 'Off-chain name',
+                description: 'Off-chain description',
+                image: 'ipfs://Qm123/1.png',
+                attributes: [{ trait_type: 'Eyes', value: 'Laser' }, { trait_type: 'Level', value: 3 }],
+            },
+        });
+
+        const metadata = await new NftService().resolveContent(onchainContent({
+            name: 'On-chain name',
+            uri: 'https://example.com/1.json',
+        }));
+
+        expect(metadata).toEqual({
+            name: 'On-chain name',
+            description: 'Off-chain description',
+            image: 'https://ipfs.io/ipfs/Qm123/1.png',
+            attributes: [{ traitType: 'Eyes', value: 'Laser' }, { traitType: 'Level', value: '3' }],
+            uri: 'https://example.com/1.json',
+        });
+    });
+
+    it('resolves a collection item through get_nft_content and fills indexer gaps', async () => {
+        stubJson({
+            'https://tonapi.io/v2/accounts/owner/nfts?limit=100&offset=0&indirect_ownership=true': {
+                nft_items: [
+                    { address: ITEM.toRawString(), index: 7, owner: { address: addr('b1').toRawString() }, collection: { address: COLLECTION.toRawString(), name: 'Punks' }, metadata: {}, trust: 'none' },
+                    { address: addr('a2').toRawString(), index: 8, metadata: { name: 'Indexed' }, trust: 'blacklist', sale: {}, previews: [{ resolution: '100x100', url: 'small' }, { resolution: '500x500', url: 'medium' }] },
+                ],
+            },
+            'https://meta.example.com/items/7.json': { name: 'Punk #7', image: 'https://meta.example.com/7.png' },
+        });
+
+        const calls: string[] = [];
+        const facade = createFacade(new FakeClient((address, name, args) => {
+            calls.push(name);
+            if (name === 'get_nft_data' && address.equals(ITEM)) {
+                return [
+                    { type: 'int', value: -1n },
+                    { type: 'int', value: 7n },
+                    { type: 'slice', cell: beginCell().storeAddress(COLLECTION).endCell() },
+                    { type: 'slice', cell: beginCell().storeAddress(addr('b1')).endCell() },
+                    { type: 'cell', cell: beginCell().storeStringTail('7.json').endCell() },
+                ];
+            }
+            if (name === 'get_nft_content' && address.equals(COLLECTION)) {
+                expect(args[0]).toEqual({ type: 'int', value: 7n });
+                const suffix = (args[1] as { cell: Cell }).cell.beginParse().loadStringTail();
+                return [{ type: 'cell', cell: offchainContent(`https://meta.example.com/items/${suffix}`) }];
+            }
+            throw new Error(`Unexpected ${name}`);
+        }));
+
+        const items = await facade.getNfts('owner');
+        expect(calls).toEqual(['get_nft_data', 'get_nft_content']);
+        expect(items).toHaveLength(2);
+        expect(items[0].address).toBe(ITEM.toString());
+        expect(items[0].index).toBe(7n);
+        expect(items[0].collection?.address).toBe(COLLECTION.toString());
+        expect(items[0].metadata).toEqual({
+            name: 'Punk #7',
+            image: 'https://meta.example.com/7.png',
+            uri: 'https://meta.example.com/items/7.json',
+        });
+        expect(items[1]).toMatchObject({ collection: null, trust: 'blacklist', onSale: true, preview: 'medium' });
+        expect(items[1].metadata.name).toBe('Indexed');
+    });
+});
+
+describe('NFT gallery', () => {
+    const standalone = item(addr('a4'), { collection: null });
+    const items = [
+        item(addr('a1')),
+        standalone,
+        item(addr('a2'), { trust: 'blacklist' }),
+        item(addr('a3'), { collection: { address: addr('c2').toString(), name: 'Apes' } }),
+    ];
+
+    it('leaves out spam and hidden items unless asked for', () => {
+        const hidden = [addr('a3').toRawString()];
+        const shown = (filter = {}) => filterNfts(items, { hidden, ...filter }).map(nft => nft.address);
+
+        expect(shown()).toEqual([items[0].address, standalone.address]);
+        expect(shown({ showSpam: true })).toEqual([items[0].address, standalone.address, items[2].address]);
+        expect(shown({ showHidden: true, showSpam: true, collection: addr('c2').toRawString() })).toEqual([items[3].address]);
+    });
+
+    it('groups items by collection with standalone items last', () => {
+        const groups = groupNftsByCollection(items);
+        expect(groups.map(group => group.collection?.name ?? null)).toEqual(['Punks', 'Apes', null]);
+        expect(groups[0].items).toHaveLength(2);
+        expect(groups[2].items).toEqual([standalone]);
+    });
+});
+
+describe('NFT transfers', () => {
+    function expectTransfer(message: ReturnType<typeof loadMessageRelaxed>, nft: Address, owner: string, comment: string) {
+        expect(message.info.dest?.toString()).toBe(nft.toString());
+        const body = message.body.beginParse();
+        expect(body.loadUint(32)).toBe(NFT_OP_CODES.TRANSFER);
+        body.loadUintBig(64);
+        expect(body.loadAddress().equals(Address.parse(RECIPIENT))).toBe(true);
+        expect(body.loadAddress().equals(Address.parse(owner))).toBe(true);
+        expect(body.loadBit()).toBe(false);
+        expect(body.loadCoins()).toBe(1n);
+        const payload = body.loadRef().beginParse();
+        expect(payload.loadUint(32)).toBe(0);
+        expect(payload.loadStringTail()).toBe(comment);
+    }
+
+    it('sends a TEP-62 transfer from a standard wallet', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const wallet = await facade.importWallet(mnemonic, 'v4r2');
+
+        const result = await facade.sendNft(mnemonic, 'v4r2', { nftAddress: ITEM.toString(), to: RECIPIENT, comment: 'gift' });
+        expect(result.success).toBe(true);
+
+        // v4r2 body: signature, wallet ID, valid until, seqno, op, then mode + message ref
+        const body = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse()).body.beginParse();
+        body.skip(512 + 32 + 32 + 32 + 8 + 8);
+        expectTransfer(loadMessageRelaxed(body.loadRef().beginParse()), ITEM, wallet.address, 'gift');
+    });
+
+    it('sends several items in one highload batch', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const wallet = await facade.importWallet(mnemonic, 'highload-v3');
+
+        const result = await facade.sendNftBatch(mnemonic, [
+            { nftAddress: addr('a1').toString(), to: RECIPIENT, comment: 'first' },
+            { nftAddress: addr('a2').toString(), to: RECIPIENT, comment: 'second' },
+        ]);
+        expect(result.success).toBe(true);
+
+        // Highload body: signature + inner ref (subwallet, internal_transfer to itself carrying the out list)
+        const inner = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse()).body.beginParse().loadRef().beginParse();
+        inner.skip(32);
+        const transfer = loadMessageRelaxed(inner.loadRef().beginParse()).body.beginParse();
+        transfer.skip(32 + 64);
+        const actions = loadOutList(transfer.loadRef().beginParse());
+
+        expect(actions).toHaveLength(2);
+        actions.forEach((action, index) => {
+            if (action.type !== 'sendMsg') throw new Error('Expected sendMsg');
+            expect(action.mode & SendMode.PAY_GAS_SEPARATELY).toBe(SendMode.PAY_GAS_SEPARATELY);
+            expectTransfer(action.outMsg as any, index === 0 ? addr('a1') : addr('a2'), wallet.address, index === 0 ? 'first' : 'second');
+        });
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * Offline QR Test Suite
+ *
+ * Full watch-only + cold signer round trip in memory: frames are rendered
+ * to QR matrices and decoded back from pixels, as a camera would.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, Cell, loadMessage, toNano, TonClient, TupleReader } from '@ton/ton';
+import { mnemonicNew, mnemonicToPrivateKey, signVerify } from '@ton/crypto';
+import QRCode from 'qrcode';
+import jsQR from 'jsqr';
+import { OfflineQrProtocol, OfflineSigningService, parseQrFrame } from '../src/crypto';
+import type { OfflinePayloadKind, OfflinePayloadMap } from '../src/crypto';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient } from '../src/network';
+
+const RECIPIENT = Address.parseRaw(`0:${'dd'.repeat(32)}`).toString();
+
+/**
+ * In-memory TonClient reporting a deployed wallet at a fixed seqno
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor(private readonly seqno: number) {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async getContractState(_address: Address): Promise<any> {
+        return { balance: 0n, state: this.seqno === 0 ? 'uninitialized' : 'active', lastTransaction: null };
+    }
+
+    async runMethod(_address: Address, name: string) {
+        if (name !== 'seqno' || this.seqno === 0) {
+            throw new Error('Contract not deployed');
+        }
+        return { gas_used: 0, stack: new TupleReader([{ type: 'int', value: BigInt(this.seqno) }]) };
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+function createFacade(client: FakeClient): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient });
+}
+
+/**
+ * Render a frame as a QR code and read it back from the pixels
+ */
+function scanQr(text: string): string {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'L' });
+    const scale = 3;
+    const margin = 4;
+    const size = (modules.size + margin * 2) * scale;
+    const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+
+    for (let row = 0; row < modules.size; row++) {
+        for (let col = 0; col < modules.size; col++) {
+            if (!modules.get(row, col)) continue;
+            for (let y = 0; y < scale; y++) {
+                for (let x = 0; x < scale; x++) {
+                    const offset = (((row + margin) * scale + y) * size + (col + margin) * scale + x) * 4;
+                    pixels[offset] = pixels[offset + 1] = pixels[offset + 2] = 0;
+                }
+            }
+        }
+    }
+
+    const code = jsQR(pixels, size, size);
+    if (!code) throw new Error('QR code not readable');
+    return code.data;
+}
+
+/**
+ * Show frames on one device and scan them on the other, out of order and with repeats
+ */
+function transfer<K extends OfflinePayloadKind>(protocol: OfflineQrProtocol, kind: K, payload: OfflinePayloadMap[K]): OfflinePayloadMap[K] {
+    const frames = protocol.encode(kind, payload);
+    const assembler = protocol.createAssembler(kind);
+    const order = [...frames].reverse().concat(frames);
+
+    for (const frame of order) {
+        if (assembler.add(scanQr(frame)).complete) break;
+    }
+    return protocol.decode(kind, assembler.getPayload());
+}
+
+describe('Offline signing over QR', () => {
+    it('pairs, prepares on the watch-only side, signs on the cold signer and broadcasts', async () => {
+        const protocol = new OfflineQrProtocol(120);
+        const client = new FakeClient(5);
+        const laptop = createFacade(client);
+        const phone = createFacade(new FakeClient(5));
+        const mnemonic = await mnemonicNew(24);
+
+        // Phone shares its public key, laptop keeps only that
+        const account = transfer(protocol, 'account', await phone.getColdSignerAccount(mnemonic, 'v4r2'));
+        const publicKey = Buffer.from(account.publicKey, 'hex');
+        expect(laptop.getAddress(publicKey, 'v4r2')).toBe(account.address);
+
+        // Laptop builds, phone signs
+        const unsigned = await laptop.prepareOfflineTransfer(publicKey, 'v4r2', RECIPIENT, toNano('1.5'), 'cold storage payout');
+        expect(protocol.encode('unsigned', unsigned).length).toBeGreaterThan(1);
+
+        const scanned = transfer(protocol, 'unsigned', unsigned);
+        expect(scanned).toEqual(unsigned);
+        expect(scanned.messages[0].amount).toBe(toNano('1.5'));
+        expect(scanned.seqno).toBe(5);
+
+        const signed = transfer(protocol, 'signed', await phone.signOfflineTransaction(mnemonic, scanned));
+
+        // Laptop verifies and broadcasts
+        const result = await laptop.broadcastOfflineTransaction(publicKey, unsigned, signed);
+        expect(result.success).toBe(true);
+        expect(client.sent).toHaveLength(1);
+
+        const external = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(external.info.dest?.toString()).toBe(Address.parse(account.address).toString());
+        expect(external.init).toBeFalsy();
+
+        const body = external.body.beginParse();
+        const signature = body.loadBuffer(64);
+        const service = new OfflineSigningService();
+        expect(signVerify(service.createUnsignedBody(unsigned).hash(), signature, publicKey)).toBe(true);
+    });
+
+    it('includes the state init when the watch-only wallet is not deployed', async () => {
+        const client = new FakeClient(0);
+        const laptop = createFacade(client);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+
+        const unsigned = await laptop.prepareOfflineTransfer(keyPair.publicKey, 'v4r2', RECIPIENT, toNano('0.1'));
+        const signed = await laptop.signOfflineTransaction(mnemonic, unsigned);
+        expect((await laptop.broadcastOfflineTransaction(keyPair.publicKey, unsigned, signed)).success).toBe(true);
+
+        expect(loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse()).init).toBeTruthy();
+    });
+
+    it('refuses signatures for another transfer or from another key', async () => {
+        const client = new FakeClient(5);
+        const laptop = createFacade(client);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const unsigned = await laptop.prepareOfflineTransfer(keyPair.publicKey, 'v4r2', RECIPIENT, toNano('1'));
+        const signed = await laptop.signOfflineTransaction(mnemonic, unsigned);
+
+        const swapped = await laptop.broadcastOfflineTransaction(keyPair.publicKey, {
+            ...unsigned,
+            messages: [{ ...unsigned.messages[0], amount: toNano('2') }],
+        }, signed);
+        expect(swapped.error).toContain('does not match');
+
+        const other = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const forged = await laptop.broadcastOfflineTransaction(other.publicKey, unsigned, signed);
+        expect(forged.error).toContain('Invalid signature');
+        expect(client.sent).toHaveLength(0);
+
+        await expect(laptop.signOfflineTransaction(await mnemonicNew(24), unsigned))
+            .rejects.toThrow('different wallet');
+    });
+});
+
+describe('QR frames', () => {
+    const protocol = new OfflineQrProtocol(40);
+    const payload = {
+        publicKey: 'ab'.repeat(32),
+        walletVersion: 'v5r1' as const,
+        address: RECIPIENT,
+    };
+
+    it('carries a sequence header and a checksum on every frame', () => {
+        const frames = protocol.encode('account', payload);
+        expect(frames.length).toBeGreaterThan(2);
+
+        frames.forEach((frame, i) => {
+            const parsed = parseQrFrame(frame);
+            expect(parsed.kind).toBe('account');
+            expect(parsed.index).toBe(i + 1);
+            expect(parsed.total).toBe(frames.length);
+        });
+
+        const parts = frames[0].split(':');
+        parts[5] = parts[5].split('').reverse().join('');
+        expect(() => parseQrFrame(parts.join(':'))).toThrow('checksum');
+        expect(() => parseQrFrame('https://example.com')).toThrow('Not an offline signing QR code');
+    });
+
+    it('rejects frames of another kind and restarts on a new message', () => {
+        const assembler = protocol.createAssembler('account');
+        const first = protocol.encode('account', payload);
+        const second = protocol.encode('account', { ...payload, publicKey: 'cd'.repeat(32) });
+
+        assembler.add(first[0]);
+        assembler.add(first[0]);
+        expect(assembler.getProgress()?.received).toBe(1);
+
+        expect(assembler.add(second[1]).received).toBe(1);
+        second.forEach(frame => assembler.add(frame));
+        expect(protocol.decode('account', assembler.getPayload()).publicKey).toBe('cd'.repeat(32));
+
+        const unsigned = new OfflineQrProtocol().encode('unsigned', {
+            messages: [{ to: RECIPIENT, amount: 1n }],
+            sendMode: 3,
+            walletAddress: RECIPIENT,
+            walletVersion: 'v4r2',
+            seqno: 1,
+            validUntil: 1,
+            createdAt: 0,
+        });
+        expect(() => assembler.add(unsigned[0])).toThrow('Expected account QR code, got unsigned');
+        expect(() => protocol.createAssembler().getPayload()).toThrow('incomplete');
+    });
+});
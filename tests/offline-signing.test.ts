@@ -0,0 +1,269 @@
+/**
+ * Offline Signing Test Suite
+ *
+ * Bodies signed offline must match what the online wallet services sign,
+ * byte for byte, for every wallet version: multiple messages, custom send
+ * modes, custom subwallet IDs and jetton/NFT payloads.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell, Cell, internal, loadMessage, MessageRelaxed, SendMode, toNano, TonClient, TupleReader } from '@ton/ton';
+import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
+import { OfflineSigningService } from '../src/crypto';
+import type { OfflineMessage, UnsignedTransaction } from '../src/crypto';
+import {
+    HighloadQueryId,
+    HighloadWalletV3,
+    HighloadWalletV3Service,
+    NftService,
+    sendMsgAction,
+    V3R1JettonService,
+    V3R1WalletService,
+    V3R2WalletService,
+    V4R2WalletService,
+    V5R1WalletService
+} from '../src/wallets';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient } from '../src/network';
+import { HIGHLOAD_CONSTANTS, NFT_OP_CODES } from '../src/types';
+import type { KeyPair } from '../src/types';
+
+const RECIPIENT = Address.parseRaw(`0:${'dd'.repeat(32)}`).toString();
+const JETTON_WALLET = Address.parseRaw(`0:${'bb'.repeat(32)}`).toString();
+const NFT_ITEM = Address.parseRaw(`0:${'ee'.repeat(32)}`).toString();
+const VALID_UNTIL = 1_900_000_000;
+
+/**
+ * In-memory TonClient reporting a deployed wallet at a fixed seqno
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor(private readonly seqno: number) {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async getContractState(_address: Address): Promise<any> {
+        return { balance: 0n, state: this.seqno === 0 ? 'uninitialized' : 'active', lastTransaction: null };
+    }
+
+    async runMethod(_address: Address, name: string) {
+        if (name !== 'seqno' || this.seqno === 0) {
+            throw new Error('Contract not deployed');
+        }
+        return { gas_used: 0, stack: new TupleReader([{ type: 'int', value: BigInt(this.seqno) }]) };
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+function createFacade(client: FakeClient): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient });
+}
+
+/**
+ * A TON transfer with a comment, a jetton transfer and an NFT transfer,
+ * both as internal messages (online) and as offline message data
+ */
+function createMessages(owner: string): { online: MessageRelaxed[]; offline: OfflineMessage[] } {
+    const jettonBody = new V3R1JettonService().buildTransferBody({
+        jettonWalletAddress: JETTON_WALLET,
+        to: RECIPIENT,
+        amount: 25_000_000n,
+        responseDestination: owner,
+        comment: 'invoice 42',
+    });
+    const nftBody = new NftService().buildTransferBody({
+        nftAddress: NFT_ITEM,
+        to: RECIPIENT,
+        responseDestination: owner,
+    });
+
+    return {
+        online: [
+            internal({ to: Address.parse(RECIPIENT), value: toNano('1.25'), bounce: false, body: 'payout' }),
+            internal({ to: Address.parse(JETTON_WALLET), value: toNano('0.05'), bounce: true, body: jettonBody }),
+            internal({ to: Address.parse(NFT_ITEM), value: toNano('0.05'), bounce: true, body: nftBody }),
+        ],
+        offline: [
+            { to: RECIPIENT, amount: toNano('1.25'), bounce: false, comment: 'payout' },
+            { to: JETTON_WALLET, amount: toNano('0.05'), bounce: true, payload: jettonBody.toBoc().toString('base64') },
+            { to: NFT_ITEM, amount: toNano('0.05'), bounce: true, payload: nftBody.toBoc().toString('base64') },
+        ],
+    };
+}
+
+function signOffline(tx: UnsignedTransaction, keyPair: KeyPair): Cell {
+    const signed = new OfflineSigningService().createSignedTransaction(tx, keyPair.secretKey);
+    return Cell.fromBoc(Buffer.from(signed.signedBody, 'base64'))[0];
+}
+
+describe('Offline bodies match the online wallet services', () => {
+    const services = {
+        v3r1: new V3R1WalletService(),
+        v3r2: new V3R2WalletService(),
+        v4r2: new V4R2WalletService(),
+    };
+
+    for (const version of ['v3r1', 'v3r2', 'v4r2'] as const) {
+        it(`${version}: several messages, custom send mode and subwallet, before and after deployment`, async () => {
+            const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+
+            for (const { seqno, subwalletId } of [{ seqno: 7, subwalletId: 42 }, { seqno: 0, subwalletId: undefined }]) {
+                const contract = services[version].createContract(keyPair.publicKey, subwalletId);
+                const { online, offline } = createMessages(contract.address.toString());
+
+                const expected = contract.createTransfer({
+                    secretKey: keyPair.secretKey,
+                    seqno,
+                    messages: online,
+                    sendMode: SendMode.PAY_GAS_SEPARATELY,
+                    timeout: VALID_UNTIL,
+                });
+
+                const tx = new OfflineSigningService().prepareForSigning(offline, {
+                    walletAddress: contract.address.toString(),
+                    walletVersion: version,
+                    seqno,
+                    subwalletId,
+                }, SendMode.PAY_GAS_SEPARATELY);
+
+                expect(signOffline({ ...tx, validUntil: VALID_UNTIL }, keyPair).equals(expected)).toBe(true);
+            }
+        });
+    }
+
+    it('v5r1: signature at the tail, IGNORE_ERRORS on every action, custom subwallet', async () => {
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const service = new V5R1WalletService();
+
+        for (const { seqno, subwalletId } of [{ seqno: 3, subwalletId: 7 }, { seqno: 0, subwalletId: undefined }]) {
+            const address = service.createContract(keyPair.publicKey, subwalletId).address.toString();
+            const { online, offline } = createMessages(address);
+
+            const expected = service.createRequest(
+                keyPair,
+                online.map(message => sendMsgAction(message, SendMode.PAY_GAS_SEPARATELY)),
+                seqno,
+                { timeout: VALID_UNTIL, subwalletId }
+            );
+
+            const tx = new OfflineSigningService().prepareForSigning(offline, {
+                walletAddress: address,
+                walletVersion: 'v5r1',
+                seqno,
+                subwalletId,
+            }, SendMode.PAY_GAS_SEPARATELY);
+
+            expect(signOffline({ ...tx, validUntil: VALID_UNTIL }, keyPair).equals(expected)).toBe(true);
+        }
+    });
+
+    it('highload-v3: query ID, created_at and timeout of a custom subwallet', async () => {
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const subwalletId = 1001;
+        const timeout = 600;
+        const address = new HighloadWalletV3Service('mainnet', subwalletId, timeout).getWalletAddress(keyPair.publicKey);
+        const { online, offline } = createMessages(address);
+        const queryId = HighloadQueryId.fromShiftAndBitNumber(12, 345);
+
+        const tx = new OfflineSigningService().prepareForSigning(offline, {
+            walletAddress: address,
+            walletVersion: 'highload-v3',
+            seqno: 0,
+            subwalletId,
+            queryId: queryId.getQueryId(),
+            timeout,
+        });
+        expect(tx.validUntil).toBe(tx.createdAt + timeout);
+
+        const expected = HighloadWalletV3.createFromAddress(Address.parse(address)).createBatchBody(
+            keyPair.secretKey,
+            online.map(outMsg => ({ type: 'sendMsg' as const, mode: SendMode.PAY_GAS_SEPARATELY, outMsg })),
+            subwalletId,
+            queryId,
+            timeout,
+            tx.createdAt
+        );
+
+        expect(signOffline(tx, keyPair).equals(expected)).toBe(true);
+    });
+
+    it('enforces the message limit of each version', () => {
+        const service = new OfflineSigningService();
+        const message = { to: RECIPIENT, amount: 1n };
+        const wallet = { walletAddress: RECIPIENT, seqno: 1 };
+
+        expect(() => service.prepareForSigning(Array(5).fill(message), { ...wallet, walletVersion: 'v4r2' }))
+            .toThrow('up to 4 messages');
+        expect(() => service.prepareForSigning(Array(5).fill(message), { ...wallet, walletVersion: 'v5r1' }))
+            .not.toThrow();
+        expect(() => service.prepareForSigning(
+            Array(HIGHLOAD_CONSTANTS.MAX_ACTIONS + 1).fill(message),
+            { ...wallet, walletVersion: 'highload-v3', queryId: 1n }
+        )).toThrow(`up to ${HIGHLOAD_CONSTANTS.MAX_ACTIONS} messages`);
+        expect(() => service.prepareForSigning([message], { ...wallet, walletVersion: 'highload-v3' }))
+            .toThrow('query ID');
+        expect(() => service.prepareForSigning([], { ...wallet, walletVersion: 'v3r2' }))
+            .toThrow('No messages');
+    });
+});
+
+describe('Offline transfers through the facade', () => {
+    it('sends an NFT from a custom W5 subwallet', async () => {
+        const client = new FakeClient(4);
+        const facade = createFacade(client);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const options = { subwalletId: 5, sendMode: SendMode.PAY_GAS_SEPARATELY };
+
+        const unsigned = await facade.prepareOfflineNft(keyPair.publicKey, 'v5r1', { nftAddress: NFT_ITEM, to: RECIPIENT }, options);
+        expect(unsigned.walletAddress).toBe(facade.getAddress(keyPair.publicKey, 'v5r1', 5));
+        expect(unsigned.walletAddress).not.toBe(facade.getAddress(keyPair.publicKey, 'v5r1'));
+        expect(unsigned.seqno).toBe(4);
+
+        const body = Cell.fromBoc(Buffer.from(unsigned.messages[0].payload!, 'base64'))[0].beginParse();
+        expect(body.loadUint(32)).toBe(NFT_OP_CODES.TRANSFER);
+
+        const signed = await facade.signOfflineTransaction(mnemonic, unsigned);
+        const result = await facade.broadcastOfflineTransaction(keyPair.publicKey, unsigned, signed);
+        expect(result.success).toBe(true);
+        expect(result.seqno).toBe(4);
+
+        const external = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(external.info.dest?.toString()).toBe(Address.parse(unsigned.walletAddress).toString());
+    });
+
+    it('prepares highload transfers with a fresh query ID each time and broadcasts them', async () => {
+        const client = new FakeClient(0);
+        const facade = createFacade(client);
+        const mnemonic = await mnemonicNew(24);
+        const keyPair = await mnemonicToPrivateKey(mnemonic);
+        const options = { subwalletId: 77, timeout: 900 };
+        const messages = [
+            internal({ to: Address.parse(RECIPIENT), value: toNano('0.5'), body: 'a' }),
+            internal({ to: Address.parse(JETTON_WALLET), value: toNano('0.5'), body: beginCell().storeUint(1, 32).endCell() }),
+        ];
+
+        const first = await facade.prepareOfflineMessages(keyPair.publicKey, 'highload-v3', messages, options);
+        const second = await facade.prepareOfflineMessages(keyPair.publicKey, 'highload-v3', messages, options);
+        expect(first.queryId).not.toBe(second.queryId);
+        expect(first.walletAddress).toBe(facade.getAddress(keyPair.publicKey, 'highload-v3', 77, 900));
+
+        const signed = await facade.signOfflineTransaction(mnemonic, first);
+        const result = await facade.broadcastOfflineTransaction(keyPair.publicKey, first, signed);
+        expect(result.success).toBe(true);
+        expect(result.queryId).toBe(first.queryId);
+
+        const external = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(external.info.dest?.toString()).toBe(Address.parse(first.walletAddress).toString());
+
+        // A signature of the second transfer does not cover the first
+        const other = await facade.signOfflineTransaction(mnemonic, second);
+        expect((await facade.broadcastOfflineTransaction(keyPair.publicKey, first, other)).success).toBe(false);
+    });
+});
@@ -0,0 +1,395 @@
+/**
+ * Payout Jobs Test Suite
+ *
+ * Tests recipient import (CSV and JSON, validation, dedupe, chunking), the
+ * payout engine on a fake clock and a fake chain (query IDs stored before
+ * broadcast, confirmation, rebroadcast while valid, re-signing once expired
+ * unprocessed, unknown outcomes, resuming from the store), the
+ * reconciliation report, and the facade's highload signing and query reads.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, Cell, loadMessage, toNano, TonClient, TupleItem, TupleReader } from '@ton/ton';
+import { internal } from '@ton/core';
+import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient } from '../src/network';
+import { TON_TOKENS } from '../src/services/SwapService';
+import {
+    PAYOUT_CHUNK_SIZE,
+    PAYOUT_REBROADCAST_INTERVAL,
+    PayoutEngine,
+    PayoutJobStore,
+    getPayoutReport,
+    getPayoutStatus,
+    parsePayoutFile,
+    payoutReportToCsv,
+} from '../src/services/PayoutService';
+import type { PayoutChain, PayoutRecipient, PayoutSigner } from '../src/services/PayoutService';
+import type { Clock } from '../src/services/SwapOrderService';
+import type { HighloadQueryState, JettonMasterInfo } from '../src/types';
+
+const ACCOUNT = 'account-1';
+const TIMEOUT = 3600;
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`);
+const WALLET = addr('aa').toString({ bounceable: false });
+const ALICE = addr('a1').toString({ bounceable: false });
+const BOB = addr('b1').toString({ bounceable: false });
+const MASTER = addr('c1');
+
+class FakeClock implements Clock {
+    time = 1_700_000_000_000;
+
+    now(): number {
+        return this.time;
+    }
+
+    advance(ms: number): void {
+        this.time += ms;
+    }
+}
+
+/**
+ * Chain that processes the query IDs it is told to; records what the store
+ * held at each broadcast
+ */
+class FakeChain implements PayoutChain {
+    processed = new Set<string>();
+    lastCleanedAt = 0;
+    broadcasts: { boc: string; stored: boolean }[] = [];
+    fail = false;
+
+    constructor(private readonly store: PayoutJobStore) {}
+
+    async getHighloadQueryState(walletAddress: string, queryId: bigint): Promise<HighloadQueryState> {
+        expect(walletAddress).toBe(WALLET);
+        if (this.fail) throw new Error('Rate limited');
+        return { processed: this.processed.has(queryId.toString()), lastCleanedAt: this.lastCleanedAt };
+    }
+
+    async sendExternalMessage(boc: string): Promise<void> {
+        const stored = this.store.getJobs(ACCOUNT).some(job =>
+            job.chunks.some(chunk => chunk.attempts.some(attempt => attempt.boc === boc)));
+        this.broadcasts.push({ boc, stored });
+    }
+}
+
+/**
+ * Signer handing out sequential query IDs
+ */
+function signer(): PayoutSigner & { calls: PayoutRecipient[][] } {
+    let next = 100n;
+    const calls: PayoutRecipient[][] = [];
+    const sign = async (recipients: PayoutRecipient[], createdAt: number) => {
+        calls.push(recipients);
+        const queryId = next++;
+        return { queryId, createdAt, hash: `hash-${queryId}`, boc: `boc-${queryId}` };
+    };
+    return Object.assign(sign, { calls });
+}
+
+function csv(count: number): string {
+    const lines = ['address,amount,comment'];
+    for (let i = 0; i < count; i++) {
+        lines.push(`${Address.parseRaw(`0:${i.toString(16).padStart(64, '0')}`).toString()},0.1,Salary ${i}`);
+    }
+    return lines.join('\n');
+}
+
+function setup() {
+    const clock = new FakeClock();
+    const store = new PayoutJobStore();
+    const chain = new FakeChain(store);
+    const jettons = {
+        calls: 0,
+        async getJettonInfo(masterAddress: string): Promise<JettonMasterInfo> {
+            this.calls++;
+            return { address: masterAddress, symbol: 'KOTE', name: 'Kote', decimals: 4, totalSupply: 1n, mintable: false, admin: null };
+        },
+    };
+    const engine = new PayoutEngine({ store, chain, jettons, clock, timeout: TIMEOUT });
+    return { clock, store, chain, jettons, engine };
+}
+
+describe('Payout import', () => {
+    it('reads CSV with or without a header, quoted cells, and JSON', () => {
+        expect(parsePayoutFile(`# payroll\nmemo,to,value\n"Rent, March",${ALICE},5\n`)).toEqual([
+            { line: 3, address: ALICE, amount: '5', token: '', comment: 'Rent, March' },
+        ]);
+        expect(parsePayoutFile(`${ALICE},1.5,USDT,"say ""hi"""\n\n${BOB},2`)).toEqual([
+            { line: 1, address: ALICE, amount: '1.5', token: 'USDT', comment: 'say "hi"' },
+            { line: 3, address: BOB, amount: '2', token: '', comment: undefined },
+        ]);
+        expect(parsePayoutFile(JSON.stringify({ recipients: [{ to: ALICE, amount: 3, jetton: 'NOT' }] }))).toEqual([
+            { line: 1, address: ALICE, amount: '3', token: 'NOT', comment: undefined },
+        ]);
+        expect(() => parsePayoutFile('[1, 2')).toThrow('Invalid JSON');
+        expect(() => parsePayoutFile('address,comment\nx,y')).toThrow('The header must name an address and an amount column');
+    });
+
+    it('validates rows, drops repeats and reports conflicting ones', async () => {
+        const { engine, jettons } = setup();
+
+        const plan = await engine.planPayout([
+            `${ALICE},1.25,TON,hi`,
+            `${ALICE},1.25,,hi`,
+            `${ALICE},2,TON,hi`,
+            `${BOB},10,usdt`,
+            `${MASTER.toString()},1.5,${MASTER.toRawString()}`,
+            `${BOB},3,${MASTER.toString()}`,
+            `alice.ton,1`,
+            `${BOB},-1`,
+            `${BOB},0.0000000001`,
+            `${BOB},0`,
+            `${BOB},1,DOGE`,
+            `${BOB},1.12345,${MASTER.toString()}`,
+        ].join('\n'), [TON_TOKENS.TON, TON_TOKENS.USDT]);
+
+        expect(plan.recipients.map(r => [r.line, r.symbol, r.amount, r.units])).toEqual([
+            [1, 'TON', '1.25', '1250000000'],
+            [4, 'USDT', '10', '10000000'],
+            [5, 'KOTE', '1.5', '15000'],
+            [6, 'KOTE', '3', '30000'],
+        ]);
+        expect(plan.duplicates).toEqual([{ line: 2, duplicateOf: 1 }]);
+        expect(plan.issues).toEqual([
+            { line: 3, error: 'Pays the recipient of line 1 again with a different amount or comment' },
+            { line: 7, error: 'Invalid address: alice.ton' },
+            { line: 8, error: 'Invalid amount: -1' },
+            { line: 9, error: 'TON has at most 9 decimals' },
+            { line: 10, error: 'Amount must be greater than 0' },
+            { line: 11, error: 'Unknown token: DOGE' },
+            { line: 12, error: 'KOTE has at most 4 decimals' },
+        ]);
+        // Masters outside the token list are read from chain once
+        expect(jettons.calls).toBe(1);
+        expect(plan.totals).toEqual([
+            { token: 'native', symbol: 'TON', amount: '1.25' },
+            { token: TON_TOKENS.USDT.address, symbol: 'USDT', amount: '10' },
+            { token: MASTER.toString(), symbol: 'KOTE', amount: '4.5' },
+        ]);
+        expect(plan.tonRequired).toBe('1.4');
+
+        expect(() => engine.createJob(ACCOUNT, WALLET, plan)).toThrow('Fix the invalid rows before starting the payout');
+    });
+
+    it('splits recipients into chunks of at most 254 transfers', async () => {
+        const { engine } = setup();
+
+        const plan = await engine.planPayout(csv(300));
+
+        expect(plan.chunks.map(chunk => chunk.length)).toEqual([PAYOUT_CHUNK_SIZE, 300 - PAYOUT_CHUNK_SIZE]);
+        expect(plan.chunks[1][0]).toBe(PAYOUT_CHUNK_SIZE);
+        expect(plan.tonRequired).toBe('30');
+    });
+});
+
+describe('Payout engine', () => {
+    it('signs chunks one at a time with a session and stores each query ID before broadcasting', async () => {
+        const { engine, chain, store, clock } = setup();
+        const job = engine.createJob(ACCOUNT, WALLET, await engine.planPayout(csv(300)), 'March payroll');
+
+        // Without a session nothing is signed
+        expect(await engine.runDue(ACCOUNT)).toEqual([]);
+        expect(chain.broadcasts).toEqual([]);
+
+        const sign = signer();
+        engine.authorize(ACCOUNT, sign, 3600 * 1000);
+        await engine.runDue(ACCOUNT);
+
+        expect(sign.calls.map(call => call.length)).toEqual([PAYOUT_CHUNK_SIZE]);
+        expect(chain.broadcasts).toEqual([{ boc: 'boc-100', stored: true }]);
+        const sent = store.getJob(ACCOUNT, job.id)!;
+        expect(sent.chunks[0]).toMatchObject({ status: 'sent', attempts: [{ queryId: '100', createdAt: clock.now() / 1000 - 60, hash: 'hash-100' }] });
+        expect(sent.chunks[1].status).toBe('pending');
+
+        // Not processed yet: the next chunk waits
+        clock.advance(10_000);
+        await engine.runDue(ACCOUNT);
+        expect(sign.calls).toHaveLength(1);
+
+        chain.processed.add('100');
+        await engine.runDue(ACCOUNT);
+        chain.processed.add('101');
+        const [done] = await engine.runDue(ACCOUNT);
+
+        expect(done.chunks.map(chunk => chunk.status)).toEqual(['processed', 'processed']);
+        expect(done.chunks[0].attempts[0].boc).toBeUndefined();
+        expect(getPayoutStatus(done)).toBe('completed');
+        expect(done.name).toBe('March payroll');
+    });
+
+    it('rebroadcasts the same message while it is valid, then re-signs it once expired unprocessed', async () => {
+        const { engine, chain, clock } = setup();
+        const job = engine.createJob(ACCOUNT, WALLET, await engine.planPayout(csv(2)));
+        const sign = signer();
+        engine.authorize(ACCOUNT, sign, 3 * 3600 * 1000);
+        await engine.runDue(ACCOUNT);
+
+        clock.advance(PAYOUT_REBROADCAST_INTERVAL);
+        await engine.runDue(ACCOUNT);
+        clock.advance(PAYOUT_REBROADCAST_INTERVAL / 2);
+        await engine.runDue(ACCOUNT);
+        expect(chain.broadcasts.map(b => b.boc)).toEqual(['boc-100', 'boc-100']);
+
+        // A failed read decides nothing
+        clock.advance(2 * TIMEOUT * 1000);
+        chain.fail = true;
+        let [updated] = await engine.runDue(ACCOUNT);
+        expect(updated.chunks[0]).toMatchObject({ status: 'sent', error: 'Rate limited' });
+
+        // Expired, and the wallet has not cleaned since it was sent: never processed
+        chain.fail = false;
+        [updated] = await engine.runDue(ACCOUNT);
+        expect(sign.calls).toHaveLength(2);
+        expect(updated.chunks[0].status).toBe('sent');
+        expect(updated.chunks[0].attempts.map(a => [a.queryId, a.boc])).toEqual([['100', undefined], ['101', 'boc-101']]);
+        expect(chain.broadcasts.map(b => b.boc)).toEqual(['boc-100', 'boc-100', 'boc-101']);
+
+        chain.processed.add('101');
+        [updated] = await engine.runDue(ACCOUNT);
+        expect(updated.chunks[0].status).toBe('processed');
+        expect(getPayoutReport(updated)[0]).toMatchObject({ status: 'processed', queryId: '101', hash: 'hash-101', attempts: 2 });
+        expect(job.id).toBe(updated.id);
+    });
+
+    it('marks a chunk unknown once the wallet may have forgotten its query ID', async () => {
+        const { engine, chain, clock } = setup();
+        engine.createJob(ACCOUNT, WALLET, await engine.planPayout(csv(2)));
+        const sign = signer();
+        engine.authorize(ACCOUNT, sign, 10 * 3600 * 1000);
+        await engine.runDue(ACCOUNT);
+
+        // The app was closed until long after expiry; the wallet cleaned meanwhile
+        clock.advance(3 * TIMEOUT * 1000);
+        chain.lastCleanedAt = clock.now() / 1000 - 10;
+        const [updated] = await engine.runDue(ACCOUNT);
+
+        expect(sign.calls).toHaveLength(1);
+        expect(updated.chunks[0].status).toBe('unknown');
+        expect(getPayoutStatus(updated)).toBe('attention');
+        expect(getPayoutReport(updated).map(row => row.status)).toEqual(['unknown', 'unknown']);
+    });
+
+    it('resumes from the store and confirms without a session', async () => {
+        const first = setup();
+        first.engine.createJob(ACCOUNT, WALLET, await first.engine.planPayout(csv(2)));
+        first.engine.authorize(ACCOUNT, signer(), 3600 * 1000);
+        await first.engine.runDue(ACCOUNT);
+
+        // A new engine on the same store, after a restart
+        const engine = new PayoutEngine({ store: first.store, chain: first.chain, clock: first.clock, timeout: TIMEOUT });
+        first.chain.processed.add('100');
+        const [updated] = await engine.runDue(ACCOUNT);
+
+        expect(updated.chunks[0].status).toBe('processed');
+        expect(engine.getSessionExpiry(ACCOUNT)).toBeNull();
+    });
+
+    it('cancels pending chunks and keeps confirming sent ones', async () => {
+        const { engine, chain } = setup();
+        const job = engine.createJob(ACCOUNT, WALLET, await engine.planPayout(csv(300)));
+        engine.authorize(ACCOUNT, signer(), 3600 * 1000);
+        await engine.runDue(ACCOUNT);
+
+        const cancelled = engine.cancelJob(ACCOUNT, job.id);
+        expect(cancelled.chunks.map(chunk => chunk.status)).toEqual(['sent', 'cancelled']);
+        expect(() => engine.cancelJob(ACCOUNT, job.id)).toThrow('Every chunk of this payout has been sent');
+        expect(() => engine.removeJob(ACCOUNT, job.id)).toThrow('Cancel the payout and wait for sent chunks first');
+
+        chain.processed.add('100');
+        const [updated] = await engine.runDue(ACCOUNT);
+        expect(getPayoutStatus(updated)).toBe('cancelled');
+
+        engine.removeJob(ACCOUNT, job.id);
+        expect(engine.getJobs(ACCOUNT)).toEqual([]);
+    });
+});
+
+describe('Payout report', () => {
+    it('lists every imported row with its outcome, in file order', async () => {
+        const { engine, chain, clock } = setup();
+        const plan = await engine.planPayout(`${ALICE},1,TON,"a, b"\n${BOB},2\n${ALICE},1,TON,"a, b"`);
+        const job = engine.createJob(ACCOUNT, WALLET, plan);
+        engine.authorize(ACCOUNT, signer(), 3600 * 1000);
+        await engine.runDue(ACCOUNT);
+        chain.processed.add('100');
+        const [done] = await engine.runDue(ACCOUNT);
+
+        const rows = getPayoutReport(done);
+        expect(rows.map(row => [row.line, row.status, row.chunk, row.duplicateOf])).toEqual([
+            [1, 'processed', 1, undefined],
+            [2, 'processed', 1, undefined],
+            [3, 'duplicate', undefined, 1],
+        ]);
+
+        const lines = payoutReportToCsv(rows).split('\n');
+        expect(lines[0]).toBe('line,address,token,amount,comment,status,chunk,query_id,message_hash,attempts,processed_at,duplicate_of');
+        expect(lines[1]).toBe(`1,${ALICE},TON,1,"a, b",processed,1,100,hash-100,1,${new Date(clock.now()).toISOString()},`);
+        expect(lines[3]).toBe(`3,${ALICE},TON,1,"a, b",duplicate,,,,0,,1`);
+        expect(job.duplicates).toEqual([{ line: 3, duplicateOf: 1 }]);
+    });
+});
+
+describe('Highload signing for payouts', () => {
+    /**
+     * TonClient answering the highload wallet's processed? and clean time
+     */
+    class FakeClient extends TonClient {
+        sent: Buffer[] = [];
+        calls: { name: string; args: TupleItem[] }[] = [];
+
+        constructor() {
+            super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+        }
+
+        async runMethod(_address: Address, name: string, args: TupleItem[] = []) {
+            this.calls.push({ name, args });
+            const value = name === 'processed?' ? -1n : 1_700_000_000n;
+            return { gas_used: 0, stack: new TupleReader([{ type: 'int', value }]) };
+        }
+
+        async sendFile(boc: Buffer): Promise<void> {
+            this.sent.push(boc);
+        }
+    }
+
+    function createFacade(client: FakeClient): WalletFacade {
+        const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+        rpcClient.getClient = () => client;
+        return new WalletFacade('mainnet', { rpcClient });
+    }
+
+    it('signs under a fresh query ID and the given creation time, and broadcasts the same message', async () => {
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const messages = [internal({ to: addr('a1'), value: toNano('1'), bounce: false })];
+
+        const first = facade.signHighloadMessages(keyPair, messages, 1_700_000_000);
+        const second = facade.signHighloadMessages(keyPair, messages, 1_700_000_000);
+        expect(second.queryId).not.toBe(first.queryId);
+
+        const inner = loadMessage(Cell.fromBase64(first.boc).beginParse()).body.beginParse().loadRef().beginParse();
+        inner.loadUint(32);
+        inner.loadRef();
+        inner.loadUint(8);
+        expect(BigInt(inner.loadUint(23))).toBe(first.queryId);
+        expect(inner.loadUint(64)).toBe(1_700_000_000);
+
+        await facade.sendExternalMessage(first.boc);
+        await facade.sendExternalMessage(first.boc);
+        expect(client.sent.map(boc => Cell.fromBoc(boc)[0].hash().toString('hex'))).toEqual([first.hash, first.hash]);
+    });
+
+    it('reads processed? without a simulated clean, then the clean time', async () => {
+        const client = new FakeClient();
+        const facade = createFacade(client);
+
+        const state = await facade.getHighloadQueryState(WALLET, 1025n);
+
+        expect(state).toEqual({ processed: true, lastCleanedAt: 1_700_000_000 });
+        expect(client.calls.map(call => call.name)).toEqual(['processed?', 'get_last_clean_time']);
+        expect(client.calls[0].args).toEqual([{ type: 'int', value: 1025n }, { type: 'int', value: 0n }]);
+    });
+});
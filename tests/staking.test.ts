@@ -0,0 +1,269 @@
+/**
+ * Staking Test Suite
+ *
+ * Tests deposit and withdraw layouts for every pool kind, and pool listing,
+ * position tracking and liquid unstaking through the facade.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Address, Cell, loadMessage, loadMessageRelaxed, toNano, TonClient, TupleItem, TupleReader } from '@ton/ton';
+import type { MessageRelaxed, Slice } from '@ton/core';
+import { mnemonicNew } from '@ton/crypto';
+import { LIQUID_STAKING_POOLS, STAKING_FEES, StakingService, WHALES_GAS_LIMIT } from '../src/wallets';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient, TonApiClient } from '../src/network';
+import { JETTON_OP_CODES, STAKING_OP_CODES } from '../src/types';
+import type { StakingPool, StakingPoolKind } from '../src/types';
+
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`);
+const OWNER = addr('a1');
+const POOL = addr('c0');
+const LIQUID_WALLET = addr('b2');
+const TSTON = addr('75');
+const HIPO = LIQUID_STAKING_POOLS.mainnet.find(pool => pool.kind === 'hipo')!;
+
+const pool = (kind: StakingPoolKind, overrides: Partial<StakingPool> = {}): StakingPool => ({
+    address: POOL.toString(),
+    name: kind,
+    kind,
+    apy: 4,
+    minStake: toNano('1'),
+    verified: true,
+    ...overrides,
+});
+
+/**
+ * In-memory TonClient: deployed senders at seqno 5
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor() {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(_address: Address, name: string, _args: TupleItem[] = []) {
+        if (name === 'seqno') {
+            return { gas_used: 0, stack: new TupleReader([{ type: 'int', value: 5n }]) };
+        }
+        throw new Error('Unable to execute get method');
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+function createFacade(client: FakeClient): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient, tonApiClient: new TonApiClient('mainnet') });
+}
+
+function stubJson(responses: Record<string, unknown>) {
+    vi.stubGlobal('fetch', async (url: string) => url in responses
+        ? new Response(JSON.stringify(responses[url]))
+        : new Response('', { status: 404 }));
+}
+
+/**
+ * Internal message parts: destination, value and body slice
+ */
+function readMessage(message: MessageRelaxed) {
+    if (message.info.type !== 'internal') throw new Error('Expected internal message');
+    return { to: message.info.dest, value: message.info.value.coins, bounce: message.info.bounce, body: message.body.beginParse() };
+}
+
+/**
+ * Read a text comment body
+ */
+function readComment(body: Slice): string {
+    expect(body.loadUint(32)).toBe(0);
+    return body.loadStringTail();
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('Staking messages', () => {
+    const service = new StakingService();
+    const amount = toNano('10');
+
+    it('deposits into and withdraws from nominator pools with text comments', () => {
+        const deposit = readMessage(service.buildMessage({ type: 'deposit', pool: pool('nominator'), amount }, OWNER));
+        expect(deposit.to.equals(POOL)).toBe(true);
+        expect(deposit.value).toBe(amount + STAKING_FEES.nominator.deposit);
+        expect(deposit.bounce).toBe(true);
+        expect(readComment(deposit.body)).toBe('d');
+
+        // Nominator pools always return the whole stake
+        const withdraw = readMessage(service.buildMessage({ type: 'withdraw', pool: pool('nominator'), amount }, OWNER));
+        expect(withdraw.value).toBe(STAKING_FEES.nominator.withdraw);
+        expect(readComment(withdraw.body)).toBe('w');
+    });
+
+    it('sends Whales stake_deposit and stake_withdraw with a gas limit', () => {
+        const deposit = readMessage(service.buildMessage({ type: 'deposit', pool: pool('whales'), amount }, OWNER));
+        expect(deposit.value).toBe(amount + STAKING_FEES.whales.deposit);
+        expect(deposit.body.loadUint(32)).toBe(STAKING_OP_CODES.WHALES_DEPOSIT);
+        expect(deposit.body.loadUintBig(64)).toBe(0n);
+        expect(deposit.body.loadCoins()).toBe(WHALES_GAS_LIMIT);
+        expect(deposit.body.remainingBits).toBe(0);
+
+        const partial = readMessage(service.buildMessage({ type: 'withdraw', pool: pool('whales'), amount: toNano('3') }, OWNER));
+        expect(partial.to.equals(POOL)).toBe(true);
+        expect(partial.value).toBe(STAKING_FEES.whales.withdraw);
+        expect(partial.body.loadUint(32)).toBe(STAKING_OP_CODES.WHALES_WITHDRAW);
+        partial.body.skip(64);
+        expect(partial.body.loadCoins()).toBe(WHALES_GAS_LIMIT);
+        expect(partial.body.loadCoins()).toBe(toNano('3'));
+
+        // No amount withdraws everything
+        const all = readMessage(service.buildMessage({ type: 'withdraw', pool: pool('whales') }, OWNER));
+        all.body.skip(32 + 64);
+        all.body.loadCoins();
+        expect(all.body.loadCoins()).toBe(0n);
+    });
+
+    it('deposits into liquid pools with each pool\'s layout', () => {
+        const tonstakers = readMessage(service.buildMessage({ type: 'deposit', pool: pool('tonstakers'), amount }, OWNER));
+        expect(tonstakers.value).toBe(amount + STAKING_FEES.tonstakers.deposit);
+        expect(tonstakers.body.loadUint(32)).toBe(STAKING_OP_CODES.TONSTAKERS_DEPOSIT);
+        expect(tonstakers.body.loadUintBig(64)).toBe(0n);
+        expect(tonstakers.body.remainingBits).toBe(0);
+
+        const hipo = readMessage(service.buildMessage({ type: 'deposit', pool: HIPO, amount }, OWNER));
+        expect(hipo.to.equals(Address.parse(HIPO.address))).toBe(true);
+        expect(hipo.body.loadUint(32)).toBe(STAKING_OP_CODES.HIPO_DEPOSIT);
+        hipo.body.skip(64);
+        expect(hipo.body.loadAddress().equals(OWNER)).toBe(true);
+        expect(hipo.body.loadCoins()).toBe(amount);
+        expect(hipo.body.loadCoins()).toBe(0n);
+        expect(hipo.body.loadMaybeAddress()).toBeNull();
+
+        // bemo mints stTON for a plain transfer
+        const bemo = readMessage(service.buildMessage({ type: 'deposit', pool: pool('bemo'), amount }, OWNER));
+        expect(bemo.body.remainingBits).toBe(0);
+        expect(bemo.value).toBe(amount + STAKING_FEES.bemo.deposit);
+    });
+
+    it('unstakes liquid tokens by burning them from the owner\'s jetton wallet', () => {
+        const tonstakers = readMessage(service.buildMessage(
+            { type: 'withdraw', pool: pool('tonstakers'), amount: toNano('5'), waitTillRoundEnd: true },
+            OWNER,
+            LIQUID_WALLET
+        ));
+        expect(tonstakers.to.equals(LIQUID_WALLET)).toBe(true);
+        expect(tonstakers.value).toBe(STAKING_FEES.tonstakers.withdraw);
+        expect(tonstakers.body.loadUint(32)).toBe(JETTON_OP_CODES.BURN);
+        tonstakers.body.skip(64);
+        expect(tonstakers.body.loadCoins()).toBe(toNano('5'));
+        expect(tonstakers.body.loadAddress().equals(OWNER)).toBe(true);
+        const payload = tonstakers.body.loadMaybeRef()!.beginParse();
+        expect(payload.loadBit()).toBe(true);    // wait_till_round_end
+        expect(payload.loadBit()).toBe(false);   // fill_or_kill
+
+        const hipo = readMessage(service.buildMessage({ type: 'withdraw', pool: HIPO, amount: toNano('5') }, OWNER, LIQUID_WALLET));
+        hipo.body.skip(32 + 64);
+        hipo.body.loadCoins();
+        hipo.body.loadAddress();
+        expect(hipo.body.loadMaybeRef()).toBeNull();
+    });
+
+    it('rejects deposits under the minimum and liquid withdrawals without tokens', () => {
+        expect(() => service.buildMessage({ type: 'deposit', pool: pool('nominator', { minStake: toNano('10000') }), amount }, OWNER))
+            .toThrow('Minimum stake in nominator is 10000 TON');
+        expect(() => service.buildMessage({ type: 'withdraw', pool: pool('tonstakers', { liquidSymbol: 'tsTON' }), amount }, OWNER))
+            .toThrow('No tsTON to unstake');
+        expect(() => service.buildMessage({ type: 'withdraw', pool: pool('tonstakers') }, OWNER, LIQUID_WALLET))
+            .toThrow('Withdrawal amount must be greater than 0');
+    });
+});
+
+describe('Staking through the facade', () => {
+    const TONAPI = 'https://tonapi.io/v2';
+
+    it('lists pools by APY and tracks stakes, pending withdrawals and liquid tokens', async () => {
+        stubJson({
+            [`${TONAPI}/staking/pools?include_unverified=false`]: {
+                pools: [
+                    { address: addr('c1').toRawString(), name: 'Whales', implementation: 'whales', apy: 4.1, min_stake: 50000000000, total_amount: 1, verified: true },
+                    { address: addr('c2').toRawString(), name: 'Tonstakers', implementation: 'liquidTF', apy: 4.5, min_stake: 1000000000, liquid_jetton_master: TSTON.toRawString(), cycle_end: 1700000000 },
+                    { address: addr('c3').toRawString(), name: 'Nominators', implementation: 'tf', apy: 3.9, min_stake: 10000000000000 },
+                    { address: addr('c4').toRawString(), name: 'Unknown', implementation: 'other', apy: 9 },
+                ],
+            },
+            [`${TONAPI}/staking/nominator/owner/pools`]: {
+                pools: [
+                    { pool: addr('c1').toRawString(), amount: 60000000000, pending_deposit: 0, pending_withdraw: 10000000000, ready_withdraw: 0 },
+                    { pool: addr('c2').toRawString(), amount: 21000000000, pending_deposit: 0, pending_withdraw: 0, ready_withdraw: 2000000000 },
+                ],
+            },
+            [`${TONAPI}/accounts/owner/jettons/${TSTON.toString()}?currencies=ton`]: { balance: '20000000000' },
+            [`${TONAPI}/accounts/owner/jettons/${HIPO.liquidJetton}?currencies=ton`]: { balance: '2000000000', price: { prices: { TON: 1.5 } } },
+        });
+        const facade = createFacade(new FakeClient());
+
+        const pools = await facade.getStakingPools();
+        expect(pools.map(p => [p.name, p.kind, p.apy])).toEqual([
+            ['Tonstakers', 'tonstakers', 4.5],
+            ['Whales', 'whales', 4.1],
+            ['Nominators', 'nominator', 3.9],
+            ['bemo', 'bemo', null],
+            ['Hipo', 'hipo', null],
+        ]);
+        expect(pools[0]).toMatchObject({ liquidSymbol: 'tsTON', liquidJetton: TSTON.toString(), minStake: toNano('1'), cycleEnd: 1700000000 });
+        expect(pools[2].minStake).toBe(toNano('10000'));
+
+        const positions = await facade.getStakingPositions('owner', pools);
+        expect(positions).toEqual([
+            { poolAddress: addr('c1').toString(), amount: toNano('60'), pendingDeposit: 0n, pendingWithdraw: toNano('10'), readyWithdraw: 0n },
+            { poolAddress: addr('c2').toString(), amount: toNano('21'), pendingDeposit: 0n, pendingWithdraw: 0n, readyWithdraw: toNano('2'), liquidBalance: toNano('20') },
+            { poolAddress: HIPO.address, amount: toNano('3'), pendingDeposit: 0n, pendingWithdraw: 0n, readyWithdraw: 0n, liquidBalance: toNano('2') },
+        ]);
+    });
+
+    it('burns tsTON from the wallet\'s own jetton wallet', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const { address } = await facade.importWallet(mnemonic, 'v4r2');
+        stubJson({
+            [`${TONAPI}/accounts/${address}/jettons/${TSTON.toString()}`]: { wallet_address: { address: LIQUID_WALLET.toRawString() } },
+        });
+
+        const result = await facade.sendStaking(mnemonic, 'v4r2', {
+            type: 'withdraw',
+            pool: pool('tonstakers', { liquidJetton: TSTON.toString(), liquidSymbol: 'tsTON' }),
+            amount: toNano('5'),
+        });
+        expect(result.success).toBe(true);
+
+        // v4r2 body: signature, wallet ID, valid until, seqno, op, then mode + message ref
+        const body = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse()).body.beginParse();
+        body.skip(512 + 32 + 32 + 32 + 8 + 8);
+        const burn = readMessage(loadMessageRelaxed(body.loadRef().beginParse()));
+
+        expect(burn.to.equals(LIQUID_WALLET)).toBe(true);
+        expect(burn.body.loadUint(32)).toBe(JETTON_OP_CODES.BURN);
+        burn.body.skip(64);
+        expect(burn.body.loadCoins()).toBe(toNano('5'));
+        expect(burn.body.loadAddress().equals(Address.parse(address))).toBe(true);
+    });
+
+    it('reports a liquid withdrawal without a jetton wallet instead of sending it', async () => {
+        stubJson({});
+        const client = new FakeClient();
+        const facade = createFacade(client);
+
+        const result = await facade.sendStaking(await mnemonicNew(24), 'v4r2', {
+            type: 'withdraw',
+            pool: HIPO,
+            amount: toNano('1'),
+        });
+
+        expect(result).toEqual({ success: false, error: 'No hTON to unstake' });
+        expect(client.sent).toHaveLength(0);
+    });
+});
@@ -0,0 +1,373 @@
+/**
+ * Swap Orders Test Suite
+ *
+ * Tests limit, DCA and TWAP orders on a fake clock and a fake quote source:
+ * conditions, schedules, sessions, expiry, failures, confirmation of sent
+ * swaps and per-account storage.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    LIMIT_ORDER_POLL,
+    MAX_ORDER_FAILURES,
+    SWAP_CONFIRM_TIMEOUT,
+    SwapOrderEngine,
+    SwapOrderStore,
+    TrackedSwapSettlements,
+} from '../src/services/SwapOrderService';
+import type { Clock, SwapOrderFill, SwapQuoteSource, SwapSettlement, SwapSettlementSource } from '../src/services/SwapOrderService';
+import type { StatusCheckResult } from '../src/services/TransactionStatusChecker';
+import type { BestQuoteResult, SwapQuote } from '../src/services/SwapService';
+import type { TransactionResult } from '../src/types';
+
+const HOUR = 3600 * 1000;
+const ACCOUNT = 'account-1';
+
+class FakeClock implements Clock {
+    time = 1_000_000;
+
+    now(): number {
+        return this.time;
+    }
+
+    advance(ms: number): void {
+        this.time += ms;
+    }
+}
+
+/**
+ * Quotes at a settable rate; the minimum output is 1% below
+ */
+class FakeQuotes implements SwapQuoteSource {
+    rate = 5;
+    failing = false;
+    requests: string[] = [];
+
+    async getBestQuote(fromSymbol: string, toSymbol: string, amount: string): Promise<BestQuoteResult> {
+        this.requests.push(amount);
+        if (this.failing) throw new Error('No quotes available from any DEX');
+
+        const output = parseFloat(amount) * this.rate;
+        const quote: SwapQuote = {
+            provider: 'stonfi',
+            providerName: 'STON.fi',
+            fromToken: fromSymbol,
+            toToken: toSymbol,
+            inputAmount: amount,
+            outputAmount: output.toString(),
+            minOutputAmount: (output * 0.99).toString(),
+            priceImpact: '0.1%',
+            fee: '0.3%',
+            rate: `1 ${fromSymbol} ≈ ${this.rate} ${toSymbol}`,
+            validUntil: 0,
+        };
+        return { bestQuote: quote, allQuotes: [quote], timestamp: 0 };
+    }
+}
+
+/**
+ * Sent swaps settle with a settable outcome; confirmed by default
+ */
+class FakeSettlements implements SwapSettlementSource {
+    settlement: SwapSettlement = 'confirmed';
+    onChain: SwapSettlement | 'missing' = 'missing';
+    checked: (string | undefined)[] = [];
+    lookups = 0;
+
+    async getSettlement(swap: SwapOrderFill): Promise<SwapSettlement> {
+        this.checked.push(swap.hash);
+        return this.settlement;
+    }
+
+    async findOnChain(): Promise<SwapSettlement | 'missing'> {
+        this.lookups++;
+        return this.onChain;
+    }
+}
+
+function setup() {
+    const clock = new FakeClock();
+    const quotes = new FakeQuotes();
+    const settlements = new FakeSettlements();
+    const engine = new SwapOrderEngine({ store: new SwapOrderStore(), quotes, clock, settlements });
+    const executed: SwapQuote[] = [];
+    let result: TransactionResult = { success: true, hash: 'hash' };
+
+    const authorize = (hours: number = 24) => engine.authorize(ACCOUNT, async (quote: SwapQuote) => {
+        executed.push(quote);
+        return result;
+    }, hours * HOUR);
+
+    return { clock, quotes, settlements, engine, executed, authorize, setResult: (r: TransactionResult) => { result = r; } };
+}
+
+describe('Swap orders', () => {
+    it('fills a limit order once the guaranteed rate reaches the target', async () => {
+        const { clock, quotes, engine, executed, authorize } = setup();
+        authorize();
+        const order = engine.placeLimitOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '10', targetRate: 5.5 });
+
+        // At rate 5 the guaranteed 4.95 is below the target: re-quote later
+        await engine.runDue(ACCOUNT);
+        expect(executed).toHaveLength(0);
+        expect(engine.getOrders(ACCOUNT)[0]).toMatchObject({ status: 'open', nextRunAt: clock.now() + LIMIT_ORDER_POLL });
+
+        // Not due again until the poll interval has passed
+        quotes.rate = 6;
+        await engine.runDue(ACCOUNT);
+        expect(quotes.requests).toHaveLength(1);
+
+        clock.advance(LIMIT_ORDER_POLL);
+        await engine.runDue(ACCOUNT);
+
+        expect(executed).toHaveLength(1);
+        const filled = engine.getOrders(ACCOUNT)[0];
+        expect(filled.id).toBe(order.id);
+        expect(filled.status).toBe('filled');
+        expect(filled.fills).toEqual([{ at: clock.now(), inputAmount: '10', outputAmount: '60', provider: 'STON.fi', hash: 'hash' }]);
+    });
+
+    it('runs a DCA plan every interval and finishes after its runs', async () => {
+        const { clock, engine, executed, authorize } = setup();
+        authorize(24 * 7);
+        engine.placeDcaOrder(ACCOUNT, { fromToken: 'USDT', toToken: 'TON', amount: '25', intervalHours: 8, runs: 3 });
+
+        await engine.runDue(ACCOUNT);
+        clock.advance(4 * HOUR);
+        await engine.runDue(ACCOUNT);
+        expect(executed).toHaveLength(1);
+
+        clock.advance(4 * HOUR);
+        await engine.runDue(ACCOUNT);
+        clock.advance(8 * HOUR);
+        await engine.runDue(ACCOUNT);
+
+        expect(executed.map(q => q.inputAmount)).toEqual(['25', '25', '25']);
+        const order = engine.getOrders(ACCOUNT)[0];
+        expect(order.status).toBe('filled');
+        expect(order.fills.map(f => f.at - order.createdAt)).toEqual([0, 8 * HOUR, 16 * HOUR]);
+    });
+
+    it('slices a TWAP order evenly over its duration', async () => {
+        const { clock, engine, executed, authorize } = setup();
+        authorize();
+        const order = engine.placeTwapOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', totalAmount: '1000', slices: 4, durationHours: 3 });
+
+        expect(order).toMatchObject({ kind: 'twap', amount: '250', runs: 4, interval: HOUR });
+
+        for (let i = 0; i < 4; i++) {
+            await engine.runDue(ACCOUNT);
+            clock.advance(HOUR);
+        }
+
+        expect(executed.map(q => q.inputAmount)).toEqual(['250', '250', '250', '250']);
+        expect(engine.getOrders(ACCOUNT)[0].status).toBe('filled');
+    });
+
+    it('waits without a session, skips missed slots and stops when the session expires', async () => {
+        const { clock, engine, executed, authorize } = setup();
+        engine.placeDcaOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '1', intervalHours: 1 });
+
+        await engine.runDue(ACCOUNT);
+        expect(executed).toHaveLength(0);
+        expect(engine.getSessionExpiry(ACCOUNT)).toBeNull();
+
+        // Three hours later the plan resumes once, not three times
+        clock.advance(3 * HOUR);
+        authorize(2);
+        await engine.runDue(ACCOUNT);
+        expect(executed).toHaveLength(1);
+        expect(engine.getOrders(ACCOUNT)[0].nextRunAt).toBe(clock.now() + HOUR);
+
+        clock.advance(2 * HOUR);
+        expect(engine.getSessionExpiry(ACCOUNT)).toBeNull();
+        await engine.runDue(ACCOUNT);
+        expect(executed).toHaveLength(1);
+
+        authorize();
+        engine.revoke(ACCOUNT);
+        await engine.runDue(ACCOUNT);
+        expect(executed).toHaveLength(1);
+    });
+
+    it('expires limit orders and cancels only open ones', async () => {
+        const { clock, engine } = setup();
+        const limit = engine.placeLimitOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '1', targetRate: 100, expiresInHours: 1 });
+        const dca = engine.placeDcaOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '1', intervalHours: 1 });
+
+        clock.advance(HOUR);
+        const changed = await engine.runDue(ACCOUNT);
+        expect(changed).toEqual([expect.objectContaining({ id: limit.id, status: 'cancelled', error: 'Expired' })]);
+
+        expect(engine.cancelOrder(ACCOUNT, dca.id).status).toBe('cancelled');
+        expect(() => engine.cancelOrder(ACCOUNT, dca.id)).toThrow('Only open orders can be cancelled');
+        expect(() => engine.cancelOrder('other-account', limit.id)).toThrow('Order not found');
+    });
+
+    it('retries failed swaps and gives up after repeated failures; quote outages do not count', async () => {
+        const { clock, quotes, engine, executed, authorize, setResult } = setup();
+        authorize();
+        engine.placeDcaOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '1', intervalHours: 1 });
+
+        quotes.failing = true;
+        await engine.runDue(ACCOUNT);
+        expect(engine.getOrders(ACCOUNT)[0]).toMatchObject({ status: 'open', failures: 0, error: 'No quotes available from any DEX' });
+
+        quotes.failing = false;
+        setResult({ success: false, error: 'Insufficient balance' });
+        for (let i = 0; i < MAX_ORDER_FAILURES; i++) {
+            clock.advance(HOUR);
+            await engine.runDue(ACCOUNT);
+        }
+
+        expect(executed).toHaveLength(MAX_ORDER_FAILURES);
+        expect(engine.getOrders(ACCOUNT)[0]).toMatchObject({ status: 'failed', failures: MAX_ORDER_FAILURES, error: 'Insufficient balance' });
+    });
+
+    it('records a fill only once the sent swap is confirmed', async () => {
+        const { clock, settlements, engine, executed, authorize } = setup();
+        authorize();
+        engine.placeLimitOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '10', targetRate: 4, expiresInHours: 0.25 });
+
+        settlements.settlement = 'pending';
+        await engine.runDue(ACCOUNT);
+        expect(engine.getOrders(ACCOUNT)[0]).toMatchObject({ status: 'open', fills: [], pending: { outputAmount: '50', hash: 'hash' } });
+
+        // Still pending after the limit order's expiry: not swapped again, not cancelled
+        clock.advance(SWAP_CONFIRM_TIMEOUT - 1);
+        expect(await engine.runDue(ACCOUNT)).toEqual([]);
+        expect(executed).toHaveLength(1);
+
+        settlements.settlement = 'confirmed';
+        const [filled] = await engine.runDue(ACCOUNT);
+        expect(filled).toMatchObject({ status: 'filled', fills: [{ at: clock.now() - SWAP_CONFIRM_TIMEOUT + 1, outputAmount: '50' }] });
+        expect(filled.pending).toBeUndefined();
+        expect(settlements.checked).toEqual(['hash', 'hash', 'hash']);
+    });
+
+    it('retries swaps that fail on-chain or never reach it', async () => {
+        const { clock, settlements, engine, executed, authorize } = setup();
+        authorize();
+        engine.placeDcaOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '1', intervalHours: 1, runs: 2 });
+
+        settlements.settlement = 'failed';
+        await engine.runDue(ACCOUNT);
+        expect(engine.getOrders(ACCOUNT)[0]).toMatchObject({ status: 'open', fills: [], failures: 1, error: 'Swap transaction failed', nextRunAt: clock.now() + HOUR });
+
+        // Unconfirmed past the timeout: the chain is asked, and the swap waits while it is still being processed
+        settlements.settlement = 'pending';
+        settlements.onChain = 'pending';
+        clock.advance(HOUR);
+        await engine.runDue(ACCOUNT);
+        expect(settlements.lookups).toBe(0);
+        clock.advance(SWAP_CONFIRM_TIMEOUT);
+        expect(await engine.runDue(ACCOUNT)).toEqual([]);
+        expect(settlements.lookups).toBe(1);
+
+        settlements.onChain = 'missing';
+        await engine.runDue(ACCOUNT);
+        expect(executed).toHaveLength(2);
+        expect(engine.getOrders(ACCOUNT)[0]).toMatchObject({ status: 'open', fills: [], failures: 2, error: 'Swap never reached the chain' });
+
+        // The next slot swaps again and the confirmed swap is filled
+        settlements.settlement = 'confirmed';
+        clock.advance(HOUR);
+        await engine.runDue(ACCOUNT);
+        expect(engine.getOrders(ACCOUNT)[0]).toMatchObject({ status: 'open', failures: 0, fills: [{ inputAmount: '1' }] });
+    });
+
+    it('fills a long-unconfirmed swap that the chain processed', async () => {
+        const { clock, settlements, engine, executed, authorize } = setup();
+        authorize();
+        engine.placeLimitOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '10', targetRate: 4 });
+
+        settlements.settlement = 'pending';
+        settlements.onChain = 'confirmed';
+        await engine.runDue(ACCOUNT);
+        clock.advance(SWAP_CONFIRM_TIMEOUT);
+        const [filled] = await engine.runDue(ACCOUNT);
+
+        expect(executed).toHaveLength(1);
+        expect(filled).toMatchObject({ status: 'filled', failures: 0, fills: [{ outputAmount: '50' }] });
+    });
+
+    it('settles the sent swap of a cancelled order', async () => {
+        const { settlements, engine, executed, authorize } = setup();
+        authorize();
+        const order = engine.placeDcaOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '1', intervalHours: 1 });
+
+        settlements.settlement = 'pending';
+        await engine.runDue(ACCOUNT);
+        expect(engine.cancelOrder(ACCOUNT, order.id).pending).toBeDefined();
+
+        settlements.settlement = 'confirmed';
+        const [settled] = await engine.runDue(ACCOUNT);
+        expect(settled).toMatchObject({ status: 'cancelled', fills: [{ inputAmount: '1', hash: 'hash' }] });
+        expect(settled.pending).toBeUndefined();
+        expect(await engine.runDue(ACCOUNT)).toEqual([]);
+        expect(executed).toHaveLength(1);
+    });
+
+    it('validates orders and keeps them per account', () => {
+        const { engine } = setup();
+
+        expect(() => engine.placeLimitOrder(ACCOUNT, { fromToken: 'TON', toToken: 'TON', amount: '1', targetRate: 1 })).toThrow('Choose two different tokens');
+        expect(() => engine.placeLimitOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '0', targetRate: 1 })).toThrow('Amount must be greater than 0');
+        expect(() => engine.placeLimitOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', amount: '1', targetRate: 0 })).toThrow('Target rate must be greater than 0');
+        expect(() => engine.placeTwapOrder(ACCOUNT, { fromToken: 'TON', toToken: 'USDT', totalAmount: '1', slices: 1, durationHours: 1 })).toThrow('at least 2 slices');
+
+        engine.placeOrder(ACCOUNT, { kind: 'dca', fromToken: 'TON', toToken: 'USDT', amount: '1', intervalHours: 24 });
+        expect(engine.getOrders(ACCOUNT)).toHaveLength(1);
+        expect(engine.getOrders('account-2')).toEqual([]);
+
+        engine.removeAccount(ACCOUNT);
+        expect(engine.getOrders(ACCOUNT)).toEqual([]);
+    });
+});
+
+describe('Tracked swap settlements', () => {
+    const swap: SwapOrderFill = { at: 0, inputAmount: '1', outputAmount: '5', provider: 'STON.fi', hash: 'hash' };
+
+    function settlementsWith(status: string, extra: Record<string, unknown> = {}) {
+        const checker = {
+            result: null as StatusCheckResult | null,
+            lookups: 0,
+            async checkMessage(): Promise<StatusCheckResult | null> {
+                this.lookups++;
+                return this.result;
+            },
+        };
+        const tracker = { get: (id: string) => (id === 'hash' ? { status, ...extra } : undefined) };
+        return { checker, settlements: new TrackedSwapSettlements({ tracker, checker }) };
+    }
+
+    it('takes confirmed and bounced outcomes from the tracker', async () => {
+        const confirmed = settlementsWith('confirmed');
+        expect(await confirmed.settlements.getSettlement(swap)).toBe('confirmed');
+        expect(await settlementsWith('bounced').settlements.getSettlement(swap)).toBe('failed');
+        expect(await settlementsWith('pending').settlements.getSettlement(swap)).toBe('pending');
+        expect(confirmed.checker.lookups).toBe(0);
+    });
+
+    it('keeps a swap the tracker expired pending until the chain has it', async () => {
+        const { checker, settlements } = settlementsWith('expired');
+        expect(await settlements.getSettlement(swap)).toBe('pending');
+        expect(await settlements.findOnChain(swap)).toBe('missing');
+
+        checker.result = { status: 'confirmed', txHash: 'tx' };
+        expect(await settlements.getSettlement(swap)).toBe('confirmed');
+        expect(checker.lookups).toBe(3);
+    });
+
+    it('checks the chain when the tracker failed on API errors', async () => {
+        const { checker, settlements } = settlementsWith('failed', { error: 'Max retries exceeded' });
+        expect(await settlements.getSettlement(swap)).toBe('pending');
+
+        checker.result = { status: 'confirming', txHash: 'tx' };
+        expect(await settlements.getSettlement(swap)).toBe('pending');
+        checker.result = { status: 'confirmed', txHash: 'tx' };
+        expect(await settlements.getSettlement(swap)).toBe('confirmed');
+        checker.result = { status: 'failed', txHash: 'tx', error: 'Compute phase failed with exit code 9' };
+        expect(await settlements.getSettlement(swap)).toBe('failed');
+    });
+});
@@ -0,0 +1,146 @@
+/**
+ * Swap Routing Test Suite
+ *
+ * Tests the pool graph built from STON.fi and DeDust, two-hop routes through
+ * TON/USDT, splits across venues, per-leg min-outs, and route transactions.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Address } from '@ton/core';
+import { SwapService, TON_TOKENS } from '../src/services/SwapService';
+
+const STONFI_ROUTER_V2 = 'EQBCtlN7Zy96qx-3yH0Yi4V0SNtQ-8RbhYaNs65MC4Hwfq31';
+const PTON_V2_MASTER = 'EQBnGWMCf3-FZZq1W4IWcWiGAc3PHuZ0_H-7sad2oY00o83S';
+const USDT = TON_TOKENS.USDT.address;
+const NOT = TON_TOKENS.NOT.address;
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`).toString();
+const WALLET = addr('a1');
+
+const TON = (amount: number) => (BigInt(amount) * 10n ** 9n).toString();
+const USD = (amount: number) => (BigInt(amount) * 10n ** 6n).toString();
+
+function stonfiPool(address: string, token0: string, token1: string, reserve0: string, reserve1: string) {
+    return {
+        address,
+        router_address: STONFI_ROUTER_V2,
+        token0_address: token0,
+        token1_address: token1,
+        reserve0,
+        reserve1,
+        lp_fee: '20',
+        protocol_fee: '10',
+        deprecated: false,
+    };
+}
+
+function dedustPool(address: string, jetton: string, tonReserve: string, jettonReserve: string) {
+    return {
+        address,
+        type: 'volatile',
+        assets: [{ type: 'native' }, { type: 'jetton', address: jetton }],
+        reserves: [tonReserve, jettonReserve],
+    };
+}
+
+function stubPools(stonfi: unknown[], dedust: unknown[]) {
+    const responses: Record<string, unknown> = {
+        'https://api.ston.fi/v1/pools': { pool_list: stonfi },
+        'https://api.dedust.io/v2/pools': dedust,
+    };
+    vi.stubGlobal('fetch', async (url: string) => url in responses
+        ? new Response(JSON.stringify(responses[url]))
+        : new Response('', { status: 404 }));
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('Swap routing', () => {
+    it('routes through an intermediate token when there is no direct pool', async () => {
+        stubPools(
+            [stonfiPool('EQ-usdt-not', USDT, NOT, USD(1_000_000), (10n ** 17n).toString())],
+            [dedustPool('EQ-ton-usdt', USDT, TON(1_000_000), USD(5_000_000))]
+        );
+
+        const quote = await new SwapService().getRoutedQuote('TON', 'NOT', '100');
+
+        expect(quote.route).toHaveLength(2);
+        const [first, second] = quote.route!;
+        expect(first).toMatchObject({ provider: 'dedust', fromToken: 'TON', toToken: 'USDT', inputAmount: '100', poolAddress: 'EQ-ton-usdt', stage: 0 });
+        expect(second).toMatchObject({ provider: 'stonfi', fromToken: 'USDT', toToken: 'NOT', poolAddress: 'EQ-usdt-not', stage: 1 });
+
+        // The second hop spends only what the first one guarantees
+        expect(second.inputAmount).toBe(first.minOutputAmount);
+        expect(parseFloat(first.minOutputAmount)).toBeCloseTo(parseFloat(first.outputAmount) * 0.99, 4);
+        expect(quote.outputAmount).toBe(second.outputAmount);
+        expect(quote.minOutputAmount).toBe(second.minOutputAmount);
+        expect(quote.providerName).toBe('DeDust + STON.fi');
+        expect(quote.poolAddress).toBeUndefined();
+    });
+
+    it('splits a large order across venues when that gives more output', async () => {
+        stubPools(
+            [stonfiPool('EQ-stonfi', PTON_V2_MASTER, USDT, TON(10_000), USD(50_000))],
+            [dedustPool('EQ-dedust', USDT, TON(10_000), USD(50_000))]
+        );
+        const service = new SwapService();
+
+        const quote = await service.getRoutedQuote('TON', 'USDT', '2000');
+
+        expect(quote.route).toHaveLength(2);
+        expect(quote.route!.map(leg => leg.stage)).toEqual([0, 0]);
+        expect(new Set(quote.route!.map(leg => leg.provider))).toEqual(new Set(['stonfi', 'dedust']));
+        expect(quote.route!.reduce((sum, leg) => sum + parseFloat(leg.inputAmount), 0)).toBeCloseTo(2000, 6);
+        expect(quote.providerName).toContain(' + ');
+
+        // A single pool of the same depth would give noticeably less
+        const singlePool = 10_000 * 50_000 * 0.997 * 2000 / (10_000 + 2000 * 0.997) / 10_000;
+        expect(parseFloat(quote.outputAmount)).toBeGreaterThan(singlePool * 1.05);
+        expect(parseFloat(quote.priceImpact)).toBeLessThan(15);
+    });
+
+    it('skips deprecated, foreign-router and stable pools, and reports no route', async () => {
+        stubPools(
+            [
+                { ...stonfiPool('EQ-old', PTON_V2_MASTER, USDT, TON(10), USD(50)), deprecated: true },
+                { ...stonfiPool('EQ-v1', PTON_V2_MASTER, USDT, TON(10), USD(50)), router_address: 'EQB3ncyBUTjZUA5EnFKR5_EnOMI9V1tTEAAPaiU71gc4TiUt' },
+            ],
+            [{ ...dedustPool('EQ-stable', USDT, TON(10), USD(50)), type: 'stable' }]
+        );
+        const service = new SwapService();
+
+        expect(await service.getPoolGraph()).toEqual([]);
+        await expect(service.getRoutedQuote('TON', 'USDT', '1')).rejects.toThrow('No pool route for TON/USDT');
+    });
+
+    it('builds route transactions per stage through the DEX builders', async () => {
+        stubPools(
+            [stonfiPool('EQ-usdt-not', USDT, NOT, USD(1_000_000), (10n ** 17n).toString())],
+            [dedustPool(addr('d1'), USDT, TON(1_000_000), USD(5_000_000))]
+        );
+        const service = new SwapService();
+        const quote = await service.getRoutedQuote('TON', 'NOT', '100');
+
+        const stages = await service.buildRouteTransactions(quote, WALLET);
+
+        expect(stages).toHaveLength(2);
+        expect(stages[0]).toHaveLength(1);
+        expect(stages[0][0].type).toBe('ton_transfer');
+        expect(BigInt(stages[0][0].value!)).toBeGreaterThan(BigInt(TON(100)));
+
+        expect(stages[1]).toHaveLength(1);
+        expect(stages[1][0]).toMatchObject({ type: 'jetton_transfer', jettonMaster: USDT });
+        const usdtIn = parseFloat(quote.route![1].inputAmount) * 1e6;
+        expect(Number(stages[1][0].amount)).toBeCloseTo(usdtIn, 0);
+
+        await expect(service.buildSwapTransaction('dedust', quote, WALLET))
+            .rejects.toThrow('build it with buildRouteTransactions');
+    });
+
+    it('never falls back to estimated prices', async () => {
+        vi.stubGlobal('fetch', async () => new Response('', { status: 500 }));
+
+        await expect(new SwapService().getBestQuote('TON', 'USDT', '1')).rejects.toThrow('No quotes available from any DEX');
+    });
+});
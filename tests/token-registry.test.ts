@@ -0,0 +1,197 @@
+/**
+ * Token Registry Test Suite
+ *
+ * Tests jetton master validation from chain (get_jetton_data with on-chain,
+ * off-chain and semi-chain metadata), the registry's merge of bundled, held
+ * and imported tokens with per-network verification flags, and the swap
+ * service trading the registry's list.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Address, beginCell, Cell, Dictionary, TonClient, TupleItem, TupleReader } from '@ton/ton';
+import { sha256_sync } from '@ton/crypto';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient, TonApiClient } from '../src/network';
+import { SwapService, TON_TOKENS } from '../src/services/SwapService';
+import { TokenRegistry, TokenRegistryStore } from '../src/services/TokenRegistry';
+import type { HeldJetton, JettonInfoSource } from '../src/services/TokenRegistry';
+import type { JettonMasterInfo } from '../src/types';
+
+const addr = (byte: string) => Address.parseRaw(`0:${byte.repeat(32)}`);
+const MASTER = addr('a1');
+const ADMIN = addr('b1');
+const USDT_RAW = Address.parse(TON_TOKENS.USDT.address).toRawString();
+
+/**
+ * TonClient answering get_jetton_data for MASTER only
+ */
+class FakeClient extends TonClient {
+    constructor(private readonly content: Cell, private readonly admin: Address | null = ADMIN) {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(address: Address, name: string) {
+        if (!address.equals(MASTER) || name !== 'get_jetton_data') {
+            throw new Error('Contract not deployed');
+        }
+        const stack: TupleItem[] = [
+            { type: 'int', value: 1_000_000n },
+            { type: 'int', value: -1n },
+            { type: 'slice', cell: beginCell().storeAddress(this.admin).endCell() },
+            { type: 'cell', cell: this.content },
+            { type: 'cell', cell: beginCell().endCell() },
+        ];
+        return { gas_used: 0, stack: new TupleReader(stack) };
+    }
+}
+
+function createFacade(client: TonClient): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+    return new WalletFacade('mainnet', { rpcClient, tonApiClient: new TonApiClient('mainnet') });
+}
+
+/**
+ * On-chain TEP-64 content with snake values
+ */
+function onchainContent(fields: Record<string, string>): Cell {
+    const dict = Dictionary.empty(Dictionary.Keys.BigUint(256), Dictionary.Values.Cell());
+    for (const [key, value] of Object.entries(fields)) {
+        dict.set(BigInt('0x' + sha256_sync(key).toString('hex')), beginCell().storeUint(0, 8).storeStringTail(value).endCell());
+    }
+    return beginCell().storeUint(0, 8).storeDict(dict).endCell();
+}
+
+const offchainContent = (uri: string) => beginCell().storeUint(1, 8).storeStringTail(uri).endCell();
+
+function held(address: string, symbol: string, verification: string = 'none'): HeldJetton {
+    return { jetton: { address, symbol, name: `${symbol} token`, decimals: 9, image: `https://img/${symbol}.png`, verification } };
+}
+
+/**
+ * Source returning a fixed master for any address
+ */
+function source(info: Partial<JettonMasterInfo> = {}): JettonInfoSource & { calls: string[] } {
+    const calls: string[] = [];
+    return {
+        calls,
+        async getJettonInfo(masterAddress: string) {
+            calls.push(masterAddress);
+            return { address: masterAddress, symbol: 'KOTE', name: 'Kote', decimals: 9, totalSupply: 1n, mintable: false, admin: null, ...info };
+        },
+    };
+}
+
+describe('Jetton master validation', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('reads supply, admin and on-chain metadata', async () => {
+        const facade = createFacade(new FakeClient(onchainContent({ name: 'Kote Coin', symbol: 'KOTE', decimals: '6', image: 'ipfs://Qm1' })));
+
+        const info = await facade.getJettonInfo(MASTER.toString());
+
+        expect(info).toMatchObject({
+            address: MASTER.toString({ bounceable: true }),
+            symbol: 'KOTE',
+            name: 'Kote Coin',
+            decimals: 6,
+            image: 'https://ipfs.io/ipfs/Qm1',
+            totalSupply: 1_000_000n,
+            mintable: true,
+            admin: ADMIN.toString({ bounceable: true }),
+        });
+    });
+
+    it('completes semi-chain metadata from the off-chain JSON, on-chain fields first', async () => {
+        vi.stubGlobal('fetch', async (url: string) => url === 'https://meta/kote.json'
+            ? new Response(JSON.stringify({ name: 'Off-chain name', symbol: 'KOTE', decimals: 4, image: 'https://img/kote.png' }))
+            : new Response('', { status: 404 }));
+
+        const semi = await createFacade(new FakeClient(onchainContent({ name: 'Kote', uri: 'https://meta/kote.json' }))).getJettonInfo(MASTER.toString());
+        expect(semi).toMatchObject({ name: 'Kote', symbol: 'KOTE', decimals: 4, image: 'https://img/kote.png' });
+
+        const offchain = await createFacade(new FakeClient(offchainContent('https://meta/kote.json'), null)).getJettonInfo(MASTER.toString());
+        expect(offchain).toMatchObject({ name: 'Off-chain name', admin: null });
+    });
+
+    it('rejects addresses that are not jetton masters or have unusable metadata', async () => {
+        await expect(createFacade(new FakeClient(onchainContent({ symbol: 'X' }))).getJettonInfo(addr('c1').toString()))
+            .rejects.toThrow('Not a jetton master or not deployed yet');
+        await expect(createFacade(new FakeClient(onchainContent({ name: 'Nameless' }))).getJettonInfo(MASTER.toString()))
+            .rejects.toThrow('Jetton metadata has no symbol');
+        await expect(createFacade(new FakeClient(onchainContent({ symbol: 'X', decimals: '1.5' }))).getJettonInfo(MASTER.toString()))
+            .rejects.toThrow('Invalid jetton decimals: 1.5');
+        await expect(createFacade(new FakeClient(onchainContent({ symbol: 'X', decimals: '300' }))).getJettonInfo(MASTER.toString()))
+            .rejects.toThrow('Invalid jetton decimals: 300');
+    });
+});
+
+describe('Token registry', () => {
+    it('merges bundled, held and imported tokens with unique symbols', async () => {
+        const registry = new TokenRegistry({ store: new TokenRegistryStore(), sources: { mainnet: source({ symbol: 'usdt' }) } });
+
+        registry.setHeldJettons('mainnet', [
+            held(USDT_RAW, 'USD₮', 'whitelist'),
+            held(addr('d1').toRawString(), 'FISH', 'whitelist'),
+            held(addr('d2').toRawString(), 'SCAM', 'blacklist'),
+        ]);
+        await registry.importJetton('mainnet', addr('e1').toString());
+
+        const tokens = registry.getTokens('mainnet');
+        expect(tokens.map(t => [t.symbol, t.source, t.verified])).toEqual([
+            ['TON', 'bundled', true],
+            ['USDT', 'bundled', true],
+            ['USDC', 'bundled', true],
+            ['NOT', 'bundled', true],
+            ['DOGS', 'bundled', true],
+            ['FISH', 'held', true],
+            [`usdt-${addr('e1').toString().slice(-4)}`, 'imported', false],
+        ]);
+        expect(registry.findToken('mainnet', addr('d1').toRawString())?.address).toBe(addr('d1').toString({ bounceable: true }));
+        expect(registry.getTokens('testnet').map(t => t.symbol)).toEqual(['TON']);
+    });
+
+    it('validates imports from chain and keeps them and their flags per network', async () => {
+        const mainnet = source();
+        const store = new TokenRegistryStore();
+        const registry = new TokenRegistry({ store, sources: { mainnet } });
+
+        await expect(registry.importJetton('mainnet', 'not an address')).rejects.toThrow('Invalid jetton master address');
+        await expect(registry.importJetton('mainnet', TON_TOKENS.NOT.address)).rejects.toThrow('NOT is already in your token list');
+        await expect(registry.importJetton('testnet', MASTER.toString())).rejects.toThrow('Jetton import is not available on testnet');
+        expect(mainnet.calls).toEqual([]);
+
+        // Validation alone does not list the token
+        const candidate = await registry.validateJetton('mainnet', MASTER.toRawString());
+        expect(candidate).toMatchObject({ symbol: 'KOTE', source: 'imported', verified: false, address: MASTER.toString({ bounceable: true }) });
+        expect(registry.findToken('mainnet', MASTER.toString())).toBeNull();
+
+        await registry.importJetton('mainnet', MASTER.toString());
+        await expect(registry.importJetton('mainnet', MASTER.toString())).rejects.toThrow('KOTE is already in your token list');
+
+        // The indexer's flag is remembered once the jetton is no longer held
+        registry.setHeldJettons('mainnet', [held(MASTER.toRawString(), 'KOTE', 'whitelist')]);
+        expect(registry.findToken('mainnet', MASTER.toString())).toMatchObject({ source: 'held', verified: true });
+        registry.setHeldJettons('mainnet', []);
+        expect(registry.findToken('mainnet', MASTER.toString())).toMatchObject({ source: 'imported', verified: true });
+        expect(store.getVerified('testnet')).toEqual({});
+
+        registry.removeImported('mainnet', MASTER.toRawString());
+        expect(registry.findToken('mainnet', MASTER.toString())).toBeNull();
+    });
+
+    it('lets the swap service trade the registry list', async () => {
+        const registry = new TokenRegistry({ store: new TokenRegistryStore(), sources: { mainnet: source({ symbol: 'jKote', decimals: 5 }) } });
+        await registry.importJetton('mainnet', MASTER.toString());
+
+        const service = new SwapService();
+        service.setTokens(registry.getTokens('mainnet').filter(t => t.symbol !== 'DOGS'));
+
+        expect(service.getToken('JKOTE')).toMatchObject({ symbol: 'jKote', decimals: 5 });
+        expect(service.getToken('TON')).toEqual(TON_TOKENS.TON);
+        expect(service.getToken('DOGS')).toBeNull();
+        expect(service.getAvailableTokens()).toHaveLength(5);
+    });
+});
@@ -0,0 +1,490 @@
+/**
+ * TON Connect Test Suite
+ *
+ * Exercises the wallet-side TON Connect protocol against a local
+ * HTTP bridge stub (POST /message, GET /events as Server-Sent Events).
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { Buffer } from 'buffer';
+import { Address, beginCell, toNano, TupleReader } from '@ton/core';
+import type { TupleItem } from '@ton/core';
+import { TonClient, WalletContractV4 } from '@ton/ton';
+import { keyPairFromSeed, getSecureRandomBytes, sha256_sync, signVerify } from '@ton/crypto';
+import type { WalletInfo } from '../src/types';
+import {
+    BridgeClient,
+    ConnectionStore,
+    SessionCrypto,
+    TonConnectService,
+    TonConnectSigner,
+    TonConnectError,
+    TON_CONNECT_ERROR_CODES,
+    parseConnectLink
+} from '../src/tonconnect';
+import type { BridgeIncomingMessage, PendingRequest } from '../src/tonconnect';
+
+// =============================================================================
+// LOCAL BRIDGE STUB
+// =============================================================================
+
+interface StoredMessage {
+    id: number;
+    to: string;
+    from: string;
+    message: string;
+}
+
+function startBridgeStub(): Promise<{ server: Server; url: string }> {
+    const messages: StoredMessage[] = [];
+    const listeners: Array<{ clients: string[]; res: ServerResponse }> = [];
+    let nextId = 1;
+
+    const write = (res: ServerResponse, msg: StoredMessage) => {
+        res.write(`id: ${msg.id}\ndata: ${JSON.stringify({ from: msg.from, message: msg.message })}\n\n`);
+    };
+
+    const server = createServer((req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+
+        if (req.method === 'POST' && url.pathname === '/bridge/message') {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                const msg: StoredMessage = {
+                    id: nextId++,
+                    to: url.searchParams.get('to') || '',
+                    from: url.searchParams.get('client_id') || '',
+                    message: body,
+                };
+                messages.push(msg);
+                listeners
+                    .filter(l => l.clients.includes(msg.to))
+                    .forEach(l => write(l.res, msg));
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ message: 'OK', statusCode: 200 }));
+            });
+            return;
+        }
+
+        if (req.method === 'GET' && url.pathname === '/bridge/events') {
+            const clients = (url.searchParams.get('client_id') || '').split(',');
+            const lastEventId = Number(url.searchParams.get('last_event_id') || 0);
+
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+            res.write('event: heartbeat\ndata: \n\n');
+            messages
+                .filter(m => m.id > lastEventId && clients.includes(m.to))
+                .forEach(m => write(res, m));
+
+            const listener = { clients, res };
+            listeners.push(listener);
+            req.on('close', () => listeners.splice(listeners.indexOf(listener), 1));
+            return;
+        }
+
+        res.writeHead(404);
+        res.end();
+    });
+
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({ server, url: `http://127.0.0.1:${port}/bridge` });
+        });
+    });
+}
+
+/**
+ * Minimal dApp side of the protocol
+ */
+class DAppStub {
+    readonly session = new SessionCrypto();
+    private readonly bridge: BridgeClient;
+    private readonly inbox: Array<{ from: string; payload: any }> = [];
+    private waiters: Array<() => void> = [];
+    private stop: (() => void) | null = null;
+
+    constructor(bridgeUrl: string) {
+        this.bridge = new BridgeClient(bridgeUrl, { reconnectDelay: 50 });
+    }
+
+    start(): void {
+        this.stop = this.bridge.listen([this.session.sessionId], {
+            onMessage: (message: BridgeIncomingMessage) => {
+                this.inbox.push({
+                    from: message.from,
+                    payload: JSON.parse(this.session.decrypt(message.message, message.from)),
+                });
+                this.waiters.splice(0).forEach(w => w());
+            },
+        });
+    }
+
+    close(): void {
+        this.stop?.();
+    }
+
+    async next(): Promise<{ from: string; payload: any }> {
+        while (this.inbox.length === 0) {
+            await new Promise<void>(resolve => this.waiters.push(resolve));
+        }
+        return this.inbox.shift()!;
+    }
+
+    async request(walletSessionId: string, method: string, params: unknown[], id: string): Promise<void> {
+        await this.bridge.send(
+            this.session.encrypt(
+                JSON.stringify({ method, params: params.map(p => JSON.stringify(p)), id }),
+                walletSessionId
+            ),
+            this.session.sessionId,
+            walletSessionId
+        );
+    }
+
+    connectLink(items: unknown[]): string {
+        const request = JSON.stringify({ manifestUrl: 'https://dapp.example/tonconnect-manifest.json', items });
+        return `tc://?v=2&id=${this.session.sessionId}&r=${encodeURIComponent(request)}&ret=none`;
+    }
+}
+
+async function createTestWallet(): Promise<WalletInfo> {
+    const keyPair = keyPairFromSeed(await getSecureRandomBytes(32));
+    const contract = WalletContractV4.create({ publicKey: keyPair.publicKey, workchain: 0 });
+
+    return {
+        version: 'v4r2',
+        address: contract.address.toString({ bounceable: false }),
+        rawAddress: contract.address.toRawString(),
+        publicKey: keyPair.publicKey.toString('hex'),
+        keyPair,
+        isDeployed: false,
+        init: contract.init,
+    };
+}
+
+/**
+ * RPC client that records broadcasts instead of sending them
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+
+    constructor() {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(_address: Address, name: string, _args: TupleItem[] = []) {
+        if (name === 'seqno') {
+            return { gas_used: 0, stack: new TupleReader([{ type: 'int', value: 1n }]) };
+        }
+        throw new Error('Unable to execute get method');
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+}
+
+const MANIFEST = {
+    url: 'https://dapp.example',
+    name: 'Example dApp',
+    iconUrl: 'https://dapp.example/icon.png',
+};
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('Connect link parsing', () => {
+    const clientId = 'a'.repeat(64);
+    const request = encodeURIComponent(JSON.stringify({
+        manifestUrl: 'https://dapp.example/tonconnect-manifest.json',
+        items: [{ name: 'ton_addr' }],
+    }));
+
+    it('should parse tc:// links', () => {
+        const link = parseConnectLink(`tc://?v=2&id=${clientId}&r=${request}&ret=back`);
+        expect(link.clientId).toBe(clientId);
+        expect(link.request.manifestUrl).toBe('https://dapp.example/tonconnect-manifest.json');
+        expect(link.returnStrategy).toBe('back');
+    });
+
+    it('should parse universal links', () => {
+        const link = parseConnectLink(`https://app.tonkeeper.com/ton-connect?v=2&id=${clientId}&r=${request}`);
+        expect(link.clientId).toBe(clientId);
+        expect(link.returnStrategy).toBe('back');
+    });
+
+    it('should reject unsupported versions and bad client ids', () => {
+        expect(() => parseConnectLink(`tc://?v=1&id=${clientId}&r=${request}`)).toThrow();
+        expect(() => parseConnectLink(`tc://?v=2&id=xyz&r=${request}`)).toThrow();
+        expect(() => parseConnectLink('not a link')).toThrow();
+    });
+});
+
+describe('Session crypto', () => {
+    it('should round-trip messages between two sessions', () => {
+        const wallet = new SessionCrypto();
+        const dapp = new SessionCrypto();
+
+        const encrypted = wallet.encrypt('hello', dapp.sessionId);
+        expect(dapp.decrypt(encrypted, wallet.sessionId)).toBe('hello');
+    });
+
+    it('should restore from a stored key pair', () => {
+        const original = new SessionCrypto();
+        const restored = new SessionCrypto(original.stringifyKeypair());
+        const peer = new SessionCrypto();
+
+        expect(restored.sessionId).toBe(original.sessionId);
+        expect(restored.decrypt(peer.encrypt('x', original.sessionId), peer.sessionId)).toBe('x');
+    });
+});
+
+describe('TonConnectSigner', () => {
+    const signer = new TonConnectSigner('mainnet');
+
+    it('should reject expired and foreign requests', async () => {
+        const wallet = await createTestWallet();
+        const address = Address.parse(wallet.rawAddress);
+        const message = { address: wallet.address, amount: '1000' };
+
+        const expectCode = (fn: () => void, code: number) => {
+            try {
+                fn();
+                throw new Error('expected failure');
+            } catch (error) {
+                expect(error).toBeInstanceOf(TonConnectError);
+                expect((error as TonConnectError).code).toBe(code);
+            }
+        };
+
+        expectCode(() => signer.validateTransaction(
+            { valid_until: 1, messages: [message] }, address, 'v4r2'
+        ), TON_CONNECT_ERROR_CODES.BAD_REQUEST);
+
+        expectCode(() => signer.validateTransaction(
+            { network: '-3', messages: [message] }, address, 'v4r2'
+        ), TON_CONNECT_ERROR_CODES.BAD_REQUEST);
+
+        expectCode(() => signer.validateTransaction(
+            { messages: [message, message, message, message, message] }, address, 'v4r2'
+        ), TON_CONNECT_ERROR_CODES.BAD_REQUEST);
+
+        expect(() => signer.validateTransaction(
+            { messages: [message, message, message, message, message] }, address, 'highload-v3'
+        )).not.toThrow();
+    });
+
+    it('should build internal messages with payload and bounce flag', () => {
+        const payload = beginCell().storeUint(0, 32).storeStringTail('hi').endCell();
+        const [message] = signer.buildMessages({
+            messages: [{
+                address: 'EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs',
+                amount: toNano('0.05').toString(),
+                payload: payload.toBoc().toString('base64'),
+            }],
+        });
+
+        expect(message.info.type).toBe('internal');
+        if (message.info.type === 'internal') {
+            expect(message.info.bounce).toBe(true);
+            expect(message.info.value.coins).toBe(toNano('0.05'));
+        }
+        expect(message.body.equals(payload)).toBe(true);
+    });
+});
+
+describe('TON Connect bridge protocol', () => {
+    let server: Server;
+    let bridgeUrl: string;
+
+    beforeAll(async () => {
+        ({ server, url: bridgeUrl } = await startBridgeStub());
+    });
+
+    afterAll(() => {
+        server.closeAllConnections();
+        server.close();
+    });
+
+    it('should connect, sign data, reject a transaction and disconnect', async () => {
+        const accountId = 'account-1';
+        const wallet = await createTestWallet();
+        const store = new ConnectionStore();
+        const service = new TonConnectService('mainnet', { bridgeUrl, store });
+        const dapp = new DAppStub(bridgeUrl);
+        dapp.start();
+
+        try {
+            // --- connect handshake ---
+            const link = parseConnectLink(dapp.connectLink([
+                { name: 'ton_addr' },
+                { name: 'ton_proof', payload: 'nonce-123' },
+            ]));
+            const connection = await service.approveConnect(accountId, link, MANIFEST, wallet);
+
+            const connectEvent = await dapp.next();
+            expect(connectEvent.from).toBe(connection.sessionKeyPair.publicKey);
+            expect(connectEvent.payload.event).toBe('connect');
+
+            const [addrItem, proofItem] = connectEvent.payload.payload.items;
+            expect(addrItem.address).toBe(wallet.rawAddress);
+            expect(addrItem.network).toBe('-239');
+            expect(proofItem.proof.domain.value).toBe('dapp.example');
+            expect(proofItem.proof.payload).toBe('nonce-123');
+
+            // verify ton_proof signature
+            const address = Address.parse(wallet.rawAddress);
+            const wc = Buffer.alloc(4); wc.writeInt32BE(address.workChain);
+            const dl = Buffer.alloc(4); dl.writeUInt32LE(proofItem.proof.domain.lengthBytes);
+            const ts = Buffer.alloc(8); ts.writeBigUInt64LE(BigInt(proofItem.proof.timestamp));
+            const proofMessage = Buffer.concat([
+                Buffer.from('ton-proof-item-v2/'), wc, address.hash, dl,
+                Buffer.from('dapp.example'), ts, Buffer.from('nonce-123'),
+            ]);
+            const proofHash = sha256_sync(Buffer.concat([
+                Buffer.from([0xff, 0xff]), Buffer.from('ton-connect'), sha256_sync(proofMessage),
+            ]));
+            expect(signVerify(proofHash, Buffer.from(proofItem.proof.signature, 'base64'), wallet.keyPair.publicKey)).toBe(true);
+
+            expect(service.getConnections(accountId)).toHaveLength(1);
+
+            // --- requests from the dApp ---
+            const requests: PendingRequest[] = [];
+            let notify: (() => void) | null = null;
+            const stop = service.listen(accountId, request => {
+                requests.push(request);
+                notify?.();
+            });
+            const nextRequest = async () => {
+                while (requests.length === 0) {
+                    await new Promise<void>(resolve => { notify = resolve; });
+                }
+                return requests.shift()!;
+            };
+
+            try {
+                await dapp.request(connection.sessionKeyPair.publicKey, 'signData', [{ type: 'text', text: 'Hello' }], '1');
+                const signRequest = await nextRequest();
+                expect(signRequest.method).toBe('signData');
+
+                const signed = await service.approveSignData(signRequest, wallet.keyPair);
+                const signResponse = await dapp.next();
+                expect(signResponse.payload.id).toBe('1');
+                expect(signResponse.payload.result.signature).toBe(signed.signature);
+                expect(signResponse.payload.result.address).toBe(wallet.rawAddress);
+
+                await dapp.request(connection.sessionKeyPair.publicKey, 'sendTransaction', [{
+                    valid_until: Math.floor(Date.now() / 1000) + 300,
+                    messages: [{ address: wallet.address, amount: '1000' }],
+                }], '2');
+                const txRequest = await nextRequest();
+                expect(txRequest.method).toBe('sendTransaction');
+
+                await service.rejectRequest(txRequest);
+                const txResponse = await dapp.next();
+                expect(txResponse.payload.id).toBe('2');
+                expect(txResponse.payload.error.code).toBe(TON_CONNECT_ERROR_CODES.USER_DECLINED);
+
+                await dapp.request(connection.sessionKeyPair.publicKey, 'unknownMethod', [], '3');
+                const unsupported = await dapp.next();
+                expect(unsupported.payload.error.code).toBe(TON_CONNECT_ERROR_CODES.METHOD_NOT_SUPPORTED);
+
+                await dapp.request(connection.sessionKeyPair.publicKey, 'disconnect', [], '4');
+                const disconnected = await dapp.next();
+                expect(disconnected.payload.id).toBe('4');
+                expect(service.getConnections(accountId)).toHaveLength(0);
+            } finally {
+                stop();
+            }
+        } finally {
+            dapp.close();
+        }
+    });
+
+    it('should reply to a transaction that fails before broadcast and never approve a request twice', async () => {
+        const wallet = await createTestWallet();
+        const service = new TonConnectService('mainnet', { bridgeUrl, store: new ConnectionStore() });
+        const dapp = new DAppStub(bridgeUrl);
+        dapp.start();
+
+        try {
+            const connection = await service.approveConnect('account-3', parseConnectLink(dapp.connectLink([{ name: 'ton_addr' }])), MANIFEST, wallet);
+            await dapp.next();
+
+            const request = (id: string, bridge = connection.bridgeUrl): PendingRequest => ({
+                accountId: 'account-3',
+                connection: { ...connection, bridgeUrl: bridge },
+                id,
+                method: 'sendTransaction',
+                params: {
+                    valid_until: Math.floor(Date.now() / 1000) + 300,
+                    messages: [{ address: wallet.address, amount: '1000' }],
+                },
+            });
+
+            // A plain error (not a TonConnectError) still reaches the dApp
+            const client = new FakeClient();
+            await expect(service.approveSendTransaction(request('5'), client, { ...wallet, rawAddress: 'not-an-address' })).rejects.toThrow();
+            const failed = await dapp.next();
+            expect(failed.payload.id).toBe('5');
+            expect(failed.payload.error.code).toBe(TON_CONNECT_ERROR_CODES.UNKNOWN);
+            expect(client.sent).toHaveLength(0);
+
+            // The failed request is answered: approving it again signs nothing
+            await expect(service.approveSendTransaction(request('5'), client, wallet)).rejects.toThrow('already answered');
+            await expect(service.rejectRequest(request('5'))).rejects.toThrow('already answered');
+            expect(client.sent).toHaveLength(0);
+
+            // Once broadcast, an undeliverable reply still returns the result
+            const result = await service.approveSendTransaction(request('6', 'http://127.0.0.1:1/bridge'), client, wallet);
+            expect(result.success).toBe(true);
+            expect(client.sent).toHaveLength(1);
+            await expect(service.approveSendTransaction(request('6', 'http://127.0.0.1:1/bridge'), client, wallet)).rejects.toThrow('already answered');
+            expect(client.sent).toHaveLength(1);
+        } finally {
+            dapp.close();
+        }
+    });
+
+    it('should send connect_error when the user declines', async () => {
+        const service = new TonConnectService('mainnet', { bridgeUrl, store: new ConnectionStore() });
+        const dapp = new DAppStub(bridgeUrl);
+        dapp.start();
+
+        try {
+            await service.rejectConnect(parseConnectLink(dapp.connectLink([{ name: 'ton_addr' }])));
+            const event = await dapp.next();
+            expect(event.payload.event).toBe('connect_error');
+            expect(event.payload.payload.code).toBe(TON_CONNECT_ERROR_CODES.USER_DECLINED);
+        } finally {
+            dapp.close();
+        }
+    });
+
+    it('should deliver a wallet-initiated disconnect event', async () => {
+        const accountId = 'account-2';
+        const wallet = await createTestWallet();
+        const service = new TonConnectService('mainnet', { bridgeUrl, store: new ConnectionStore() });
+        const dapp = new DAppStub(bridgeUrl);
+        dapp.start();
+
+        try {
+            const link = parseConnectLink(dapp.connectLink([{ name: 'ton_addr' }]));
+            const connection = await service.approveConnect(accountId, link, MANIFEST, wallet);
+            const connectEvent = await dapp.next();
+
+            await service.disconnect(accountId, connection.clientId);
+            const event = await dapp.next();
+            expect(event.payload.event).toBe('disconnect');
+            expect(event.payload.id).toBeGreaterThan(connectEvent.payload.id);
+            expect(service.getConnections(accountId)).toHaveLength(0);
+        } finally {
+            dapp.close();
+        }
+    });
+});
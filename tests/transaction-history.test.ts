@@ -0,0 +1,167 @@
+/**
+ * Transaction History Test Suite
+ *
+ * Tests parsing TonAPI account events of every action type, bounced and
+ * in-progress events, `next_from` cursors, and the cached history's
+ * refresh, incremental merge and load-more paging.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseAccountEvents, parseAccountEventsPage } from '../src/network';
+import { TransactionHistory, MemoryHistoryCache } from '../src/services/TransactionHistory';
+import type { TransactionHistorySource } from '../src/services/TransactionHistory';
+import type { TransactionHistoryItem, TransactionHistoryPage } from '../src/types';
+
+const ME = `0:${'a1'.repeat(32)}`;
+const OTHER = `0:${'b2'.repeat(32)}`;
+const POOL = `0:${'c3'.repeat(32)}`;
+const ACCOUNT = 'account-1';
+const JETTON = { address: `0:${'d4'.repeat(32)}`, symbol: 'USDT', name: 'Tether USD', decimals: 6, verification: 'whitelist' };
+
+function event(id: string, lt: number, actions: any[], extra: Record<string, unknown> = {}) {
+    return { event_id: id, lt, timestamp: lt, in_progress: false, actions, ...extra };
+}
+
+function action(type: string, payload: Record<string, unknown>, status = 'ok') {
+    return { type, status, [type]: payload, simple_preview: { name: type, description: `${type} preview` } };
+}
+
+describe('TonAPI event parsing', () => {
+    it('parses transfers, bounces and pending events', () => {
+        const items = parseAccountEvents([
+            event('e1', 10, [action('TonTransfer', { sender: { address: OTHER }, recipient: { address: ME }, amount: 5_000_000_000, comment: 'hi' })]),
+            event('e2', 9, [action('JettonTransfer', { sender: { address: ME }, recipient: { address: OTHER, name: 'shop.ton' }, amount: '2500000', jetton: JETTON })]),
+            event('e3', 8, [action('TonTransfer', { sender: { address: ME }, recipient: { address: OTHER }, amount: 1 }, 'failed')]),
+            event('e4', 7, [action('TonTransfer', { sender: { address: ME }, recipient: { address: OTHER }, amount: 2 })], { in_progress: true }),
+        ], ME);
+
+        expect(items[0]).toMatchObject({ hash: 'e1', lt: '10', action: 'ton_transfer', type: 'incoming', amount: 5_000_000_000n, comment: 'hi', status: 'confirmed', fromRaw: OTHER });
+        expect(items[0].from).toMatch(/^UQ/);
+        expect(items[1]).toMatchObject({ action: 'jetton_transfer', type: 'outgoing', amount: 2_500_000n, to: 'shop.ton', jetton: { symbol: 'USDT', decimals: 6, verified: true } });
+        expect(items[2]).toMatchObject({ action: 'bounce', bounced: 'ton_transfer', status: 'failed' });
+        expect(items[3]).toMatchObject({ action: 'ton_transfer', status: 'pending' });
+    });
+
+    it('parses every other action type, one item per action', () => {
+        const items = parseAccountEvents([
+            event('e1', 10, [
+                action('NftItemTransfer', { sender: { address: OTHER }, recipient: { address: ME }, nft: `0:${'e5'.repeat(32)}` }),
+                action('JettonSwap', { dex: 'stonfi', user_wallet: { address: ME }, router: { address: POOL }, ton_in: 1_000, amount_out: '2000', jetton_master_out: JETTON }),
+                action('JettonMint', { recipient: { address: ME }, amount: '7', jetton: JETTON }),
+                action('JettonBurn', { sender: { address: ME }, amount: '3', jetton: JETTON }),
+                action('NftPurchase', { buyer: { address: ME }, seller: { address: OTHER }, amount: { value: '900' }, nft: { address: OTHER } }),
+                action('AuctionBid', { bidder: { address: ME }, auction: { address: OTHER }, amount: { value: '50' }, nft: { address: OTHER } }),
+                action('ContractDeploy', { address: ME, interfaces: ['wallet_v5r1'] }),
+                action('SmartContractExec', { executor: { address: ME }, contract: { address: OTHER }, ton_attached: 40, operation: 'Transfer' }),
+                action('DepositStake', { staker: { address: ME }, pool: { address: POOL, name: 'Tonstakers' }, amount: 100, implementation: 'liquidTF' }),
+                action('WithdrawStakeRequest', { staker: { address: ME }, pool: { address: POOL } }),
+                action('WithdrawStake', { staker: { address: ME }, pool: { address: POOL }, amount: 101 }),
+                action('ElectionsDepositStake', { staker: { address: ME }, amount: 10 }),
+                action('DomainRenew', { renewer: { address: ME }, contract_address: OTHER, domain: 'me.ton' }),
+                action('Subscribe', { subscriber: { address: ME }, beneficiary: { address: OTHER }, amount: 30 }),
+                action('UnSubscribe', { subscriber: { address: ME }, beneficiary: { address: OTHER } }),
+                action('Purchase', {}),
+            ]),
+        ], ME);
+
+        expect(items.map(item => item.action)).toEqual([
+            'nft_transfer', 'jetton_swap', 'jetton_mint', 'jetton_burn', 'nft_purchase', 'auction_bid', 'contract_deploy', 'contract_call',
+            'stake_deposit', 'stake_withdraw_request', 'stake_withdraw', 'stake_deposit', 'domain_renew', 'subscribe', 'unsubscribe', 'unknown',
+        ]);
+        expect(items[0]).toMatchObject({ type: 'incoming', nft: `0:${'e5'.repeat(32)}` });
+        expect(items[1]).toMatchObject({ dex: 'stonfi', amount: 1_000n, amountOut: 2_000n, jettonOut: { symbol: 'USDT' } });
+        expect(items[4]).toMatchObject({ type: 'outgoing', amount: 900n });
+        expect(items[6]).toMatchObject({ interfaces: ['wallet_v5r1'], amount: 0n });
+        expect(items[7]).toMatchObject({ operation: 'Transfer', amount: 40n });
+        expect(items[8]).toMatchObject({ pool: 'Tonstakers', implementation: 'liquidTF', amount: 100n });
+        expect(items[11]).toMatchObject({ pool: 'elector' });
+        expect(items[12]).toMatchObject({ domain: 'me.ton' });
+        expect(items[15]).toMatchObject({ description: 'Purchase preview', amount: 0n });
+    });
+
+    it('reads the next page cursor', () => {
+        expect(parseAccountEventsPage({ events: [], next_from: 41 }, ME).nextBeforeLt).toBe('41');
+        expect(parseAccountEventsPage({ events: [], next_from: 0 }, ME).nextBeforeLt).toBeNull();
+        expect(parseAccountEventsPage({}, ME)).toEqual({ items: [], nextBeforeLt: null });
+    });
+});
+
+/**
+ * Account history of `count` events with lt 1..count, served newest first
+ * in pages before a cursor
+ */
+class FakeHistory implements TransactionHistorySource {
+    readonly cursors: (string | undefined)[] = [];
+    events: TransactionHistoryItem[] = [];
+
+    constructor(count: number) {
+        for (let lt = 1; lt <= count; lt++) this.add(lt);
+    }
+
+    add(lt: number, status: 'pending' | 'confirmed' = 'confirmed'): void {
+        this.events = [
+            { hash: `e${lt}`, lt: String(lt), action: 'ton_transfer', type: 'incoming', amount: BigInt(lt), from: 'a', to: 'b', timestamp: lt, status } as TransactionHistoryItem,
+            ...this.events.filter(item => item.hash !== `e${lt}`),
+        ];
+    }
+
+    async getTransactionPage(_address: string, _testnet?: boolean, limit = 25, beforeLt?: string): Promise<TransactionHistoryPage> {
+        this.cursors.push(beforeLt);
+        const older = this.events.filter(item => beforeLt === undefined || Number(item.lt) < Number(beforeLt));
+        const items = older.slice(0, limit);
+        const more = older.length > limit;
+        return { items, nextBeforeLt: more ? items[items.length - 1].lt! : null };
+    }
+}
+
+const lts = (items: TransactionHistoryItem[]) => items.map(item => Number(item.lt));
+
+describe('Transaction history', () => {
+    it('pages back through history from the cache', async () => {
+        const source = new FakeHistory(7);
+        const history = new TransactionHistory({ source, cache: new MemoryHistoryCache(), pageSize: 3 });
+
+        expect(await history.getCached(ACCOUNT, 'mainnet')).toEqual({ items: [], hasMore: true });
+        expect(lts((await history.refresh(ACCOUNT, ME, 'mainnet')).items)).toEqual([7, 6, 5]);
+
+        await history.loadMore(ACCOUNT, ME, 'mainnet');
+        const all = await history.loadMore(ACCOUNT, ME, 'mainnet');
+        expect(lts(all.items)).toEqual([7, 6, 5, 4, 3, 2, 1]);
+        expect(all.hasMore).toBe(false);
+        expect(source.cursors).toEqual([undefined, '5', '2']);
+
+        expect(await history.loadMore(ACCOUNT, ME, 'mainnet')).toEqual(all);
+        expect(source.cursors).toHaveLength(3);
+        expect((await history.getCached(ACCOUNT, 'testnet')).items).toEqual([]);
+    });
+
+    it('merges new events in front and updates pending ones', async () => {
+        const source = new FakeHistory(5);
+        source.add(6, 'pending');
+        const history = new TransactionHistory({ source, cache: new MemoryHistoryCache(), pageSize: 3 });
+        await history.refresh(ACCOUNT, ME, 'mainnet');
+        await history.loadMore(ACCOUNT, ME, 'mainnet');
+
+        source.add(6);
+        source.add(7);
+        const refreshed = await history.refresh(ACCOUNT, ME, 'mainnet');
+        expect(lts(refreshed.items)).toEqual([7, 6, 5, 4, 3, 2, 1]);
+        expect(refreshed.items[1].status).toBe('confirmed');
+        expect(refreshed.hasMore).toBe(false);
+    });
+
+    it('drops the cached tail when more events arrived than a refresh reads', async () => {
+        const source = new FakeHistory(2);
+        const history = new TransactionHistory({ source, cache: new MemoryHistoryCache(), pageSize: 1 });
+        await history.refresh(ACCOUNT, ME, 'mainnet');
+        for (let lt = 3; lt <= 10; lt++) source.add(lt);
+
+        const refreshed = await history.refresh(ACCOUNT, ME, 'mainnet');
+        expect(lts(refreshed.items)).toEqual([10, 9, 8, 7]);
+        expect(refreshed.hasMore).toBe(true);
+        expect(lts((await history.loadMore(ACCOUNT, ME, 'mainnet')).items)).toEqual([10, 9, 8, 7, 6]);
+
+        await history.removeAccount(ACCOUNT);
+        expect((await history.getCached(ACCOUNT, 'mainnet')).items).toEqual([]);
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Transaction Tracker Test Suite
+ *
+ * Tests on-chain confirmation of tracked sends against an in-memory
+ * indexer and client: confirmed, bounced, failed, highload query IDs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, TonClient, TupleReader } from '@ton/ton';
+import { TransactionStatusChecker } from '../src/services/TransactionStatusChecker';
+import { TransactionTracker, TransactionStatus, TransactionEvent } from '../src/services/TransactionTracker.js';
+import { metrics } from '../src/services/MetricsService.js';
+import { RpcClient, TonApiClient } from '../src/network';
+import type { ChainTrace, ChainTransaction } from '../src/types';
+
+const WALLET = `0:${'aa'.repeat(32)}`;
+const RECIPIENT = `0:${'bb'.repeat(32)}`;
+const HIGHLOAD = Address.parseRaw(`0:${'cc'.repeat(32)}`).toString();
+
+/**
+ * Chain transaction with defaults for a successful one
+ */
+function chainTx(hash: string, account: string, extra: Partial<ChainTransaction> = {}): ChainTransaction {
+    return {
+        hash,
+        lt: '1',
+        account,
+        success: true,
+        aborted: false,
+        computeExitCode: 0,
+        actionResultCode: 0,
+        outMessages: [],
+        ...extra,
+    };
+}
+
+/**
+ * Wallet transaction sending one bounceable message, with its delivery
+ */
+function transferTrace(delivery?: Partial<ChainTransaction>): ChainTrace {
+    const out = { hash: 'out-msg', source: WALLET, destination: RECIPIENT, bounce: true, bounced: false };
+    const wallet = chainTx('wallet-tx', WALLET, { outMessages: [out] });
+
+    return {
+        transaction: wallet,
+        children: delivery ? [{
+            transaction: chainTx('delivery-tx', RECIPIENT, { inMessage: out, ...delivery }),
+            children: [],
+        }] : [],
+    };
+}
+
+/**
+ * In-memory TonClient answering `processed?` for a highload wallet
+ */
+class FakeClient extends TonClient {
+    processed = false;
+
+    constructor() {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(): Promise<any> {
+        return {
+            gas_used: 0,
+            stack: new TupleReader([{ type: 'int', value: this.processed ? -1n : 0n }]),
+        };
+    }
+}
+
+function createChecker(
+    messages: Record<string, ChainTransaction>,
+    traces: Record<string, ChainTrace>,
+    client: FakeClient = new FakeClient()
+): TransactionStatusChecker {
+    const rpcClient = new RpcClient({ network: 'mainnet' });
+    rpcClient.getClient = () => client;
+
+    const tonApiClient = new TonApiClient('mainnet');
+    tonApiClient.getTransactionByMessageHash = async (hash: string) => messages[hash] ?? null;
+    tonApiClient.getTrace = async (hash: string) => traces[hash] ?? null;
+
+    return new TransactionStatusChecker('mainnet', { rpcClient, tonApiClient });
+}
+
+function createTracker(checker: TransactionStatusChecker): TransactionTracker {
+    return new TransactionTracker({ createChecker: () => checker, pollInterval: 60_000 });
+}
+
+describe('TransactionStatusChecker', () => {
+    it('keeps an unknown external message pending, then expires it', async () => {
+        const checker = createChecker({}, {});
+
+        expect((await checker.check({ hash: 'ext', createdAt: Date.now() })).status).toBe('pending');
+        expect((await checker.check({ hash: 'ext', createdAt: Date.now() - 11 * 60 * 1000 })).status).toBe('expired');
+    });
+
+    it('confirms a delivered transfer with the wallet transaction hash', async () => {
+        const trace = transferTrace({});
+        const checker = createChecker({ ext: trace.transaction }, { 'wallet-tx': trace });
+
+        const result = await checker.check({ hash: 'ext', createdAt: Date.now() });
+        expect(result.status).toBe('confirmed');
+        expect(result.txHash).toBe('wallet-tx');
+        expect(result.computeExitCode).toBe(0);
+    });
+
+    it('waits for the delivery before confirming', async () => {
+        const trace = transferTrace();
+        const checker = createChecker({ ext: trace.transaction }, { 'wallet-tx': trace });
+
+        expect((await checker.check({ hash: 'ext', createdAt: Date.now() })).status).toBe('confirming');
+    });
+
+    it('reports a failed bounceable delivery as bounced with its exit code', async () => {
+        const trace = transferTrace({ success: false, computeExitCode: 65535 });
+        const checker = createChecker({ ext: trace.transaction }, { 'wallet-tx': trace });
+
+        const result = await checker.check({ hash: 'ext', createdAt: Date.now() });
+        expect(result.status).toBe('bounced');
+        expect(result.txHash).toBe('wallet-tx');
+        expect(result.computeExitCode).toBe(65535);
+        expect(result.error).toContain('65535');
+    });
+
+    it('reports a wallet action phase failure', async () => {
+        const wallet = chainTx('wallet-tx', WALLET, { success: false, actionResultCode: 37 });
+        const checker = createChecker({ ext: wallet }, {});
+
+        const result = await checker.check({ hash: 'ext', createdAt: Date.now() });
+        expect(result.status).toBe('failed');
+        expect(result.actionResultCode).toBe(37);
+        expect(result.error).toBe('Action phase failed with result code 37');
+    });
+
+    it('checks highload sends by query id before looking up the message', async () => {
+        const client = new FakeClient();
+        const trace = transferTrace({});
+        const checker = createChecker({ ext: trace.transaction }, { 'wallet-tx': trace }, client);
+        const tx = {
+            hash: 'ext',
+            queryId: ((5n << 10n) + 7n).toString(),
+            walletAddress: HIGHLOAD,
+            walletVersion: 'highload-v3' as const,
+            createdAt: Date.now(),
+        };
+
+        expect((await checker.check(tx)).status).toBe('pending');
+        expect((await checker.check({ ...tx, createdAt: Date.now() - 3601 * 1000 })).status).toBe('expired');
+
+        client.processed = true;
+        expect((await checker.check(tx)).status).toBe('confirmed');
+    });
+});
+
+describe('TransactionTracker', () => {
+    it('emits confirm and records the metric', async () => {
+        const trace = transferTrace({});
+        const tracker = createTracker(createChecker({ ext: trace.transaction }, { 'wallet-tx': trace }));
+        const confirmed: any[] = [];
+        tracker.on(TransactionEvent.CONFIRMED, (tx: any) => confirmed.push(tx));
+        const before = metrics.get('transactions_confirmed');
+
+        const id = tracker.track({ hash: 'ext', amount: '1', recipient: RECIPIENT, walletAddress: WALLET });
+        await tracker._poll();
+
+        expect(tracker.get(id).status).toBe(TransactionStatus.CONFIRMED);
+        expect(tracker.get(id).txHash).toBe('wallet-tx');
+        expect(confirmed).toHaveLength(1);
+        expect(metrics.get('transactions_confirmed')).toBe(before + 1);
+        expect(metrics.get('transactions_pending')).toBe(0);
+        tracker.clear();
+    });
+
+    it('emits fail for a bounce and counts it as failed', async () => {
+        const trace = transferTrace({ success: false, computeExitCode: 9 });
+        const tracker = createTracker(createChecker({ ext: trace.transaction }, { 'wallet-tx': trace }));
+        const failed: any[] = [];
+        tracker.on(TransactionEvent.FAILED, (tx: any) => failed.push(tx));
+        const bounced = metrics.get('transactions_bounced');
+        const failures = metrics.get('transactions_failed');
+
+        const id = tracker.track({ hash: 'ext', queryId: 42n });
+        await tracker._poll();
+
+        expect(tracker.get(id).queryId).toBe('42');
+        expect(tracker.get(id).status).toBe(TransactionStatus.BOUNCED);
+        expect(tracker.get(id).computeExitCode).toBe(9);
+        expect(failed).toHaveLength(1);
+        expect(metrics.get('transactions_bounced')).toBe(bounced + 1);
+        expect(metrics.get('transactions_failed')).toBe(failures + 1);
+        tracker.clear();
+    });
+});
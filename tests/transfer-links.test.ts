@@ -0,0 +1,85 @@
+/**
+ * Transfer Links Test Suite
+ *
+ * Tests building `ton://transfer` and universal payment links and parsing
+ * them back: amounts, jettons, comments, binary bodies and expiry.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, beginCell } from '@ton/core';
+import {
+    buildTransferLink,
+    buildUniversalTransferLink,
+    formatTransferAmount,
+    getTransferComment,
+    isTransferLink,
+    parseTransferAmount,
+    parseTransferLink,
+} from '../src/services/TransferLink';
+
+const RECIPIENT = Address.parseRaw(`0:${'ab'.repeat(32)}`).toString({ bounceable: false });
+const JETTON = Address.parseRaw(`0:${'cd'.repeat(32)}`).toString();
+const NOW = 1_700_000_000_000;
+
+describe('Transfer links', () => {
+    it('builds deep and universal links that parse back to the request', () => {
+        const request = { address: RECIPIENT, amount: 1_500_000_000n, text: 'Invoice #42 & co', expiresAt: NOW / 1000 + 3600 };
+
+        const link = buildTransferLink(request);
+        expect(link).toBe(`ton://transfer/${RECIPIENT}?amount=1500000000&text=Invoice%20%2342%20%26%20co&exp=${request.expiresAt}`);
+
+        const universal = buildUniversalTransferLink(request);
+        expect(universal.startsWith(`https://app.tonkeeper.com/transfer/${RECIPIENT}?`)).toBe(true);
+
+        expect(parseTransferLink(link, NOW)).toEqual(request);
+        expect(parseTransferLink(universal, NOW)).toEqual(request);
+        expect(buildTransferLink({ address: RECIPIENT })).toBe(`ton://transfer/${RECIPIENT}`);
+    });
+
+    it('carries a jetton amount and a binary body', () => {
+        const body = beginCell().storeUint(0, 32).storeStringTail('order 7').endCell();
+        const link = buildTransferLink({ address: RECIPIENT, amount: 2_000_000n, jetton: JETTON, bin: body });
+
+        const parsed = parseTransferLink(link, NOW);
+        expect(parsed.jetton).toBe(JETTON);
+        expect(parsed.amount).toBe(2_000_000n);
+        expect(parsed.bin?.equals(body)).toBe(true);
+        expect(getTransferComment(parsed)).toBe('order 7');
+
+        const call = parseTransferLink(buildTransferLink({ address: RECIPIENT, bin: beginCell().storeUint(0x0f8a7ea5, 32).endCell() }), NOW);
+        expect(getTransferComment(call)).toBeNull();
+    });
+
+    it('accepts raw addresses and other wallet schemes', () => {
+        const raw = `0:${'ab'.repeat(32)}`;
+
+        expect(parseTransferLink(`ton://transfer/${raw}`).address).toBe(Address.parseRaw(raw).toString());
+        expect(parseTransferLink(`tonkeeper://transfer/${RECIPIENT}?amount=1`).amount).toBe(1n);
+        expect(parseTransferLink(`https://tonhub.com/transfer/${RECIPIENT}`).address).toBe(RECIPIENT);
+        expect(isTransferLink(`  ton://transfer/${RECIPIENT}  `)).toBe(true);
+    });
+
+    it('rejects expired and malformed links', () => {
+        expect(() => parseTransferLink(`ton://transfer/${RECIPIENT}?exp=${NOW / 1000}`, NOW)).toThrow('Payment link expired');
+        expect(isTransferLink(`ton://transfer/${RECIPIENT}?exp=1`)).toBe(true);
+
+        expect(() => parseTransferLink(RECIPIENT)).toThrow('Not a payment link');
+        expect(() => parseTransferLink('https://example.com/transfer/x')).toThrow('Not a payment link');
+        expect(() => parseTransferLink('ton://transfer/nope')).toThrow('Invalid address in payment link');
+        expect(() => parseTransferLink(`ton://transfer/${RECIPIENT}?amount=1.5`)).toThrow('Invalid amount in payment link');
+        expect(() => parseTransferLink(`ton://transfer/${RECIPIENT}?jetton=usdt`)).toThrow('Invalid jetton in payment link');
+        expect(() => parseTransferLink(`ton://transfer/${RECIPIENT}?bin=zz`)).toThrow('Invalid bin in payment link');
+        expect(() => parseTransferLink(`ton://transfer/${RECIPIENT}?text=a&bin=b`)).toThrow('A payment link cannot have both text and bin');
+        expect(isTransferLink('tc://?v=2')).toBe(false);
+    });
+
+    it('converts decimal amounts to smallest units and back', () => {
+        expect(parseTransferAmount('1.5', 9)).toBe(1_500_000_000n);
+        expect(parseTransferAmount('12', 6)).toBe(12_000_000n);
+        expect(formatTransferAmount(1_500_000_000n, 9)).toBe('1.5');
+        expect(formatTransferAmount(12_000_000n, 6)).toBe('12');
+
+        expect(() => parseTransferAmount('1.0000001', 6)).toThrow('At most 6 decimals');
+        expect(() => parseTransferAmount('-1', 9)).toThrow('Invalid amount');
+    });
+});
@@ -0,0 +1,296 @@
+/**
+ * V5R1 Actions Test Suite
+ *
+ * Tests W5 request building (sign, sint, extn), extended actions,
+ * extension getters and the signature-auth guards against an in-memory client.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    Address,
+    beginCell,
+    Cell,
+    Dictionary,
+    internal,
+    loadMessage,
+    loadMessageRelaxed,
+    SendMode,
+    toNano,
+    TonClient,
+    TupleItem,
+    TupleReader,
+    WalletContractV5R1
+} from '@ton/ton';
+import { mnemonicNew, mnemonicToPrivateKey, signVerify } from '@ton/crypto';
+import { loadOutListExtendedV5R1 } from '@ton/ton/dist/wallets/v5r1/WalletV5R1Actions';
+import {
+    V5R1WalletService,
+    sendMsgAction,
+    addExtensionAction,
+    removeExtensionAction,
+    setSignatureAuthAction
+} from '../src/wallets/v5r1';
+import { StandardWalletService } from '../src/wallets/StandardWallet';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { RpcClient } from '../src/network';
+import { V5_CONSTANTS } from '../src/types';
+import type { KeyPair, V5Action } from '../src/types';
+
+const RECIPIENT = Address.parseRaw(`0:${'ab'.repeat(32)}`);
+const PLUGIN = Address.parseRaw(`0:${'cd'.repeat(32)}`);
+
+/**
+ * In-memory TonClient with configurable get methods, records sent BOCs
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+    getters: Record<string, TupleItem[]> = {};
+
+    constructor() {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(_address: Address, name: string) {
+        const stack = this.getters[name];
+        if (!stack) {
+            throw new Error('Contract not deployed');
+        }
+        return { gas_used: 0, stack: new TupleReader(stack) };
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        this.sent.push(boc);
+    }
+
+    /**
+     * Pretend the wallet is deployed with the given state
+     */
+    deploy(seqno: number, extensions: Address[] = [], signatureAllowed = true): void {
+        const dict = Dictionary.empty(Dictionary.Keys.BigUint(256), Dictionary.Values.BigInt(1));
+        for (const extension of extensions) {
+            dict.set(BigInt(`0x${extension.hash.toString('hex')}`), -1n);
+        }
+
+        this.getters.seqno = [{ type: 'int', value: BigInt(seqno) }];
+        this.getters.get_extensions = extensions.length
+            ? [{ type: 'cell', cell: beginCell().storeDictDirect(dict).endCell() }]
+            : [{ type: 'null' }];
+        this.getters.is_signature_allowed = [{ type: 'int', value: signatureAllowed ? -1n : 0n }];
+    }
+}
+
+async function createKeyPair(): Promise<KeyPair> {
+    return mnemonicToPrivateKey(await mnemonicNew(24));
+}
+
+/**
+ * Split a signed W5 request into its signed part and tail signature
+ */
+function splitSignature(request: Cell): { signed: Cell; signature: Buffer } {
+    const slice = request.beginParse();
+    const bits = slice.remainingBits - 512;
+    const signed = beginCell().storeBits(slice.loadBits(bits));
+    while (slice.remainingRefs > 0) {
+        signed.storeRef(slice.loadRef());
+    }
+    return { signed: signed.endCell(), signature: slice.loadBuffer(64) };
+}
+
+describe('V5R1WalletService', () => {
+    const service = new V5R1WalletService('mainnet');
+
+    it('signs a request with several out messages and extended actions', async () => {
+        const keyPair = await createKeyPair();
+        const actions: V5Action[] = [
+            sendMsgAction(internal({ to: RECIPIENT, value: toNano('1') })),
+            sendMsgAction(internal({ to: PLUGIN, value: toNano('0.5') }), SendMode.PAY_GAS_SEPARATELY),
+            addExtensionAction(PLUGIN),
+            setSignatureAuthAction(false),
+        ];
+
+        const request = service.createRequest(keyPair, actions, 3, { timeout: 1_900_000_000 });
+        const { signed, signature } = splitSignature(request);
+        expect(signVerify(signed.hash(), signature, keyPair.publicKey)).toBe(true);
+
+        const slice = signed.beginParse();
+        expect(slice.loadUint(32)).toBe(V5_CONSTANTS.OP_SIGNED_EXTERNAL);
+        slice.skip(32); // wallet id
+        expect(slice.loadUint(32)).toBe(1_900_000_000);
+        expect(slice.loadUint(32)).toBe(3);
+
+        const loaded = loadOutListExtendedV5R1(slice);
+        expect(loaded.map(action => action.type)).toEqual(['sendMsg', 'sendMsg', 'addExtension', 'setIsPublicKeyEnabled']);
+        // External requests always ignore errors
+        expect(loaded.every(action => action.type !== 'sendMsg' || (action.mode & SendMode.IGNORE_ERRORS) !== 0)).toBe(true);
+    });
+
+    it('rejects empty and oversized action lists', async () => {
+        const keyPair = await createKeyPair();
+        const message = sendMsgAction(internal({ to: RECIPIENT, value: 1n }));
+
+        expect(() => service.createRequest(keyPair, [], 0)).toThrow('No actions');
+        expect(() => service.createRequest(keyPair, new Array(256).fill(message), 0)).toThrow('up to 255');
+        expect(() => service.createRequest(keyPair, new Array(255).fill(message), 0)).not.toThrow();
+    });
+
+    it('builds extension requests byte-for-byte like the W5 reference serializer', async () => {
+        const keyPair = await createKeyPair();
+        const actions: V5Action[] = [
+            sendMsgAction(internal({ to: RECIPIENT, value: toNano('1'), body: 'first' }), SendMode.PAY_GAS_SEPARATELY),
+            sendMsgAction(internal({ to: PLUGIN, value: toNano('2') }), SendMode.NONE),
+            removeExtensionAction(PLUGIN),
+            addExtensionAction(RECIPIENT),
+            setSignatureAuthAction(true),
+        ];
+
+        const reference = WalletContractV5R1.create({ workchain: 0, publicKey: keyPair.publicKey })
+            .createRequest({ authType: 'extension', seqno: 0, queryId: 42n, actions });
+        expect(service.createExtensionRequest(actions, 42n).equals(reference)).toBe(true);
+    });
+
+    it('wraps a signed internal request for delivery by another wallet', async () => {
+        const keyPair = await createKeyPair();
+        const contract = service.createContract(keyPair.publicKey);
+        const actions = [sendMsgAction(internal({ to: RECIPIENT, value: toNano('1') }), SendMode.NONE)];
+
+        const fresh = service.createInternalSignedMessage(keyPair, actions, 0, toNano('0.05'));
+        expect(fresh.info.dest?.toString()).toBe(contract.address.toString());
+        expect(fresh.init).toBeTruthy();
+        expect(fresh.info.type === 'internal' && fresh.info.bounce).toBe(false);
+
+        const deployed = service.createInternalSignedMessage(keyPair, actions, 5, toNano('0.05'));
+        expect(deployed.init).toBeFalsy();
+
+        const { signed, signature } = splitSignature(deployed.body);
+        expect(signVerify(signed.hash(), signature, keyPair.publicKey)).toBe(true);
+
+        const slice = signed.beginParse();
+        expect(slice.loadUint(32)).toBe(V5_CONSTANTS.OP_SIGNED_INTERNAL);
+        slice.skip(32 + 32);
+        expect(slice.loadUint(32)).toBe(5);
+        // Internal requests keep the send mode as given
+        const [action] = loadOutListExtendedV5R1(slice);
+        expect(action.type === 'sendMsg' && action.mode).toBe(SendMode.NONE);
+    });
+
+    it('reads installed extensions and the signature-auth flag', async () => {
+        const keyPair = await createKeyPair();
+        const address = service.createContract(keyPair.publicKey).address;
+        const client = new FakeClient();
+
+        expect(await service.getExtensions(client, address)).toEqual([]);
+        expect(await service.isSignatureAuthAllowed(client, address)).toBe(true);
+
+        client.deploy(7, [PLUGIN, RECIPIENT], false);
+        const extensions = await service.getExtensions(client, address);
+        expect(extensions.map(extension => extension.rawAddress).sort())
+            .toEqual([PLUGIN.toRawString(), RECIPIENT.toRawString()].sort());
+        expect(await service.isSignatureAuthAllowed(client, address)).toBe(false);
+    });
+
+    it('sends an extension install in a signed external message', async () => {
+        const keyPair = await createKeyPair();
+        const client = new FakeClient();
+        client.deploy(4);
+
+        const result = await service.addExtension(client, keyPair, PLUGIN);
+        expect(result.success).toBe(true);
+        expect(result.seqno).toBe(4);
+
+        const message = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(message.init).toBeFalsy();
+        const { signed } = splitSignature(message.body);
+        const slice = signed.beginParse();
+        slice.skip(32 * 4);
+        const [action] = loadOutListExtendedV5R1(slice);
+        expect(action.type === 'addExtension' && action.address.equals(PLUGIN)).toBe(true);
+    });
+
+    it('refuses to lock the wallet or act without signature auth', async () => {
+        const keyPair = await createKeyPair();
+        const client = new FakeClient();
+        client.deploy(2);
+
+        const lock = await service.setSignatureAuthAllowed(client, keyPair, false);
+        expect(lock.success).toBe(false);
+        expect(lock.error).toContain('Install an extension');
+
+        const remove = await service.removeExtension(client, keyPair, PLUGIN);
+        expect(remove.error).toBe('Extension is not installed');
+
+        client.deploy(2, [PLUGIN]);
+        expect((await service.setSignatureAuthAllowed(client, keyPair, false)).success).toBe(true);
+
+        client.deploy(3, [PLUGIN], false);
+        const send = await service.sendTransaction(client, keyPair, { to: RECIPIENT.toString(), amount: 1n });
+        expect(send.success).toBe(false);
+        expect(send.error).toContain('Signature authentication is disabled');
+        expect((await service.setSignatureAuthAllowed(client, keyPair, true)).success).toBe(false);
+        expect(client.sent).toHaveLength(1);
+    });
+
+    it('lets standard V5R1 sends carry more than four messages', async () => {
+        const keyPair = await createKeyPair();
+        const client = new FakeClient();
+        const standard = new StandardWalletService('mainnet');
+        const messages = Array.from({ length: 10 }, () => internal({ to: RECIPIENT, value: toNano('0.01') }));
+
+        expect((await standard.sendMessages(client, keyPair, 'v5r1', messages)).success).toBe(true);
+        const v4 = await standard.sendMessages(client, keyPair, 'v4r2', messages);
+        expect(v4.error).toContain('up to 4 messages');
+    });
+});
+
+describe('WalletFacade W5 extension paths', () => {
+    function createFacade(client: FakeClient): WalletFacade {
+        const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+        rpcClient.getClient = () => client;
+        return new WalletFacade('mainnet', { rpcClient });
+    }
+
+    it('sends actions from a wallet installed as an extension', async () => {
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const extensionMnemonic = await mnemonicNew(24);
+        const extension = await facade.importWallet(extensionMnemonic, 'v4r2');
+        const target = new V5R1WalletService('mainnet').createContract((await createKeyPair()).publicKey).address;
+
+        const actions = [sendMsgAction(internal({ to: RECIPIENT, value: toNano('1') }))];
+        const result = await facade.sendFromExtension(extensionMnemonic, 'v4r2', target.toString(), actions);
+        expect(result.success).toBe(true);
+
+        // v4r2 external: signature, subwallet, valid until, seqno, op, then (mode, message ref)
+        const external = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(external.info.dest?.toString()).toBe(Address.parse(extension.address).toString());
+        const body = external.body.beginParse();
+        body.skip(512 + 32 + 32 + 32 + 8 + 8);
+        const request = loadMessageRelaxed(body.loadRef().beginParse());
+        expect(request.info.dest?.toString()).toBe(target.toString());
+        expect(request.body.beginParse().loadUint(32)).toBe(V5_CONSTANTS.OP_EXTENSION);
+    });
+
+    it('delivers a signed internal request through a carrier wallet', async () => {
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const ownerMnemonic = await mnemonicNew(24);
+        const carrierMnemonic = await mnemonicNew(24);
+        const owner = await facade.importWallet(ownerMnemonic, 'v5r1');
+
+        const result = await facade.sendSignedInternal(
+            ownerMnemonic,
+            [sendMsgAction(internal({ to: RECIPIENT, value: toNano('1') }))],
+            carrierMnemonic,
+            'v4r2'
+        );
+        expect(result.success).toBe(true);
+        expect(client.sent).toHaveLength(1);
+
+        const external = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        const body = external.body.beginParse();
+        body.skip(512 + 32 + 32 + 32 + 8 + 8);
+        const carried = loadMessageRelaxed(body.loadRef().beginParse());
+        expect(carried.info.dest?.toString()).toBe(Address.parse(owner.address).toString());
+        expect(carried.init).toBeTruthy();
+        expect(carried.body.beginParse().loadUint(32)).toBe(V5_CONSTANTS.OP_SIGNED_INTERNAL);
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * Wallet Facade Test Suite
+ *
+ * Tests wallet import, DNS resolution, retry and the W5 send path
+ * of the WalletFacade against an in-memory client.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Address, Cell, loadMessage, loadMessageRelaxed, toNano, TonClient, WalletContractV5R1 } from '@ton/ton';
+import { mnemonicNew, signVerify } from '@ton/crypto';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+import { StandardWalletService } from '../src/wallets/StandardWallet';
+import { HighloadWalletV3Service } from '../src/wallets/highload-v3';
+import { V5R1WalletService } from '../src/wallets/v5r1';
+import { RpcClient, TonApiClient } from '../src/network';
+import { JETTON_OP_CODES } from '../src/types';
+import type { WalletVersion } from '../src/types';
+
+const RECIPIENT = Address.parseRaw(`0:${'ab'.repeat(32)}`).toString({ bounceable: false });
+const JETTON_WALLET = Address.parseRaw(`0:${'cd'.repeat(32)}`).toString();
+
+/**
+ * In-memory TonClient: no deployed contracts, records sent BOCs
+ */
+class FakeClient extends TonClient {
+    sent: Buffer[] = [];
+    failures: string[] = [];
+
+    constructor() {
+        super({ endpoint: 'http://127.0.0.1:1/jsonRPC' });
+    }
+
+    async runMethod(): Promise<never> {
+        throw new Error('Contract not deployed');
+    }
+
+    async sendFile(boc: Buffer): Promise<void> {
+        const failure = this.failures.shift();
+        if (failure) {
+            throw new Error(failure);
+        }
+        this.sent.push(boc);
+    }
+}
+
+function createFacade(client: FakeClient, domains: Record<string, string> = {}): WalletFacade {
+    const rpcClient = new RpcClient({ network: 'mainnet', retryDelay: 1 });
+    rpcClient.getClient = () => client;
+
+    const tonApiClient = new TonApiClient('mainnet');
+    tonApiClient.resolveDomain = async (domain: string) => domains[domain] ?? null;
+
+    return new WalletFacade('mainnet', { rpcClient, tonApiClient });
+}
+
+describe('WalletFacade', () => {
+    it('imports every wallet version with the same address as the version services', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const facade = createFacade(new FakeClient());
+        const standard = new StandardWalletService('mainnet');
+
+        for (const version of ['v3r1', 'v3r2', 'v4r2', 'v5r1'] as const) {
+            const wallet = await facade.importWallet(mnemonic, version);
+            const expected = await standard.createFromMnemonic(mnemonic, version);
+            expect(wallet.version).toBe(version);
+            expect(wallet.address).toBe(expected.address);
+        }
+
+        const highload = await facade.importWallet(mnemonic, 'highload-v3');
+        const expected = await new HighloadWalletV3Service('mainnet').createFromMnemonic(mnemonic);
+        expect(highload.address).toBe(expected.address);
+    });
+
+    it('keeps the stored W5 address for the contract used to sign', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const service = new V5R1WalletService('mainnet');
+        const wallet = await service.createFromMnemonic(mnemonic);
+
+        expect(service.createContract(wallet.keyPair.publicKey).address.toRawString()).toBe(wallet.rawAddress);
+    });
+
+    it('resolves .ton domains and rejects unknown ones', async () => {
+        const raw = Address.parse(RECIPIENT).toRawString();
+        const facade = createFacade(new FakeClient(), { 'alice.ton': raw });
+
+        expect((await facade.resolveAddress('alice.ton')).toRawString()).toBe(raw);
+        expect((await facade.resolveAddress(RECIPIENT)).toRawString()).toBe(raw);
+        await expect(facade.resolveAddress('nobody.ton')).rejects.toThrow('Could not resolve domain');
+    });
+
+    it('sends from a fresh W5 wallet with state init and a signed request', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const wallet = await facade.importWallet(mnemonic, 'v5r1');
+
+        const result = await facade.sendTon(mnemonic, 'v5r1', RECIPIENT, toNano('0.1'), 'hello');
+        expect(result.success).toBe(true);
+        expect(result.seqno).toBe(0);
+        expect(client.sent).toHaveLength(1);
+
+        const message = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(message.info.dest?.toString()).toBe(Address.parse(wallet.address).toString());
+        expect(message.init).toBeTruthy();
+        expect(message.body.beginParse().loadUint(32)).toBe(0x7369676e); // op "sign"
+        expect(result.hash).toBe(Cell.fromBoc(client.sent[0])[0].hash().toString('hex'));
+    });
+
+    it('retries a rate-limited send', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        client.failures.push('Request failed with status code 429');
+        const facade = createFacade(client);
+
+        const result = await facade.sendTon(mnemonic, 'v5r1', RECIPIENT, toNano('0.1'));
+        expect(result.success).toBe(true);
+        expect(client.sent).toHaveLength(1);
+    });
+
+    it('does not retry other errors', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        client.failures.push('Invalid external message');
+        const facade = createFacade(client);
+
+        const result = await facade.sendTon(mnemonic, 'v5r1', RECIPIENT, toNano('0.1'));
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Invalid external message');
+        expect(client.sent).toHaveLength(0);
+    });
+
+    it('sends jettons with excess returned to the sender', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const version: WalletVersion = 'v5r1';
+        const wallet = await facade.importWallet(mnemonic, version);
+
+        const result = await facade.sendJetton(mnemonic, version, {
+            jettonWalletAddress: JETTON_WALLET,
+            to: RECIPIENT,
+            amount: facade.parseJettonAmount('1.5', 6),
+        });
+        expect(result.success).toBe(true);
+
+        const external = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        const signed = WalletContractV5R1.create({
+            workchain: 0,
+            publicKey: wallet.keyPair.publicKey,
+            walletId: { networkGlobalId: 0, context: 698983191 },
+        });
+        expect(external.info.dest?.toString()).toBe(signed.address.toString());
+
+        // Walk to the single out action: sign op, wallet id, valid until, seqno, then out list ref
+        const request = external.body.beginParse();
+        request.skip(32 + 32 + 32 + 32);
+        expect(request.loadBit()).toBe(true);
+        const action = request.loadRef().beginParse();
+        action.loadRef(); // previous actions (empty)
+        action.skip(32 + 8); // action_send_msg tag + mode
+        const internal = loadMessageRelaxed(action.loadRef().beginParse());
+        expect(internal.info.dest?.toString()).toBe(Address.parse(JETTON_WALLET).toString());
+
+        const body = internal.body.beginParse();
+        expect(body.loadUint(32)).toBe(JETTON_OP_CODES.TRANSFER);
+        body.loadUintBig(64);
+        expect(body.loadCoins()).toBe(1_500_000n);
+        expect(body.loadAddress().equals(Address.parse(RECIPIENT))).toBe(true);
+        expect(body.loadAddress().equals(Address.parse(wallet.address))).toBe(true);
+    });
+
+    it('sends a signed highload batch with a query id', async () => {
+        const mnemonic = await mnemonicNew(24);
+        const client = new FakeClient();
+        const facade = createFacade(client);
+        const wallet = await facade.importWallet(mnemonic, 'highload-v3');
+
+        const result = await facade.sendBatch(mnemonic, [
+            { to: RECIPIENT, amount: toNano('0.1'), comment: 'first' },
+            { to: JETTON_WALLET, amount: toNano('0.2') },
+        ]);
+        expect(result.success).toBe(true);
+        expect(result.queryId).toBeDefined();
+        expect(client.sent).toHaveLength(1);
+        expect(client.sent[0].toString('base64')).toBe(result.boc);
+
+        const message = loadMessage(Cell.fromBoc(client.sent[0])[0].beginParse());
+        expect(message.info.dest?.toString()).toBe(Address.parse(wallet.address).toString());
+
+        const body = message.body.beginParse();
+        const signature = body.loadBuffer(64);
+        const signed = body.loadRef();
+        expect(signVerify(signed.hash(), signature, wallet.keyPair.publicKey)).toBe(true);
+    });
+});
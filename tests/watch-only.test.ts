@@ -0,0 +1,121 @@
+/**
+ * Watch-Only Test Suite
+ *
+ * Tests resolving watch-only accounts from addresses and public keys,
+ * and the TonAPI wallet lookup behind it.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Address } from '@ton/ton';
+import { mnemonicNew, mnemonicToPrivateKey } from '@ton/crypto';
+import { WatchOnlyService, canSign } from '../src/services/WatchOnlyService';
+import type { WalletDetails } from '../src/services/WatchOnlyService';
+// @ts-ignore
+import { TonApiService } from '../src/services/TonApiService';
+import { WalletFacade } from '../src/wallets/WalletFacade';
+
+/**
+ * Lookup answering with fixed details and recording the addresses asked for
+ */
+function createLookup(details: Partial<WalletDetails> = {}) {
+    const requested: string[] = [];
+    return {
+        requested,
+        async getWalletDetails(address: string): Promise<WalletDetails> {
+            requested.push(address);
+            return { status: 'active', version: null, publicKey: null, ...details };
+        },
+    };
+}
+
+describe('WatchOnlyService', () => {
+    const facade = new WalletFacade('mainnet');
+
+    it('keeps the public key of a known wallet so the cold signer can sign for it', async () => {
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const publicKey = keyPair.publicKey.toString('hex');
+        const address = facade.getAddress(keyPair.publicKey, 'v5r1');
+        const bounceable = Address.parse(address).toString({ bounceable: true });
+        const lookup = createLookup({ version: 'v5r1', publicKey });
+
+        const target = await new WatchOnlyService(facade, lookup).resolve(` ${bounceable} `);
+        expect(target).toEqual({ address, type: 'v5r1', publicKey });
+        expect(lookup.requested).toEqual([address]);
+        expect(canSign({ id: '1', name: 'Treasury', ...target, watchOnly: true })).toBe(true);
+    });
+
+    it('watches raw addresses and unknown contracts without signing', async () => {
+        const raw = `0:${'ab'.repeat(32)}`;
+        const target = await new WatchOnlyService(facade, createLookup()).resolve(raw);
+
+        expect(target.address).toBe(Address.parseRaw(raw).toString({ bounceable: false }));
+        expect(target.type).toBe('unknown');
+        expect(target.publicKey).toBeUndefined();
+        expect(canSign({ id: '1', name: 'Vendor', ...target, watchOnly: true })).toBe(false);
+    });
+
+    it('drops a public key that does not derive the address', async () => {
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const address = facade.getAddress(keyPair.publicKey, 'v5r1', 12);
+        const lookup = createLookup({ version: 'v5r1', publicKey: keyPair.publicKey.toString('hex') });
+
+        const target = await new WatchOnlyService(facade, lookup).resolve(address);
+        expect(target.type).toBe('v5r1');
+        expect(target.publicKey).toBeUndefined();
+    });
+
+    it('derives the address from a public key and version', async () => {
+        const keyPair = await mnemonicToPrivateKey(await mnemonicNew(24));
+        const publicKey = keyPair.publicKey.toString('hex').toUpperCase();
+        const lookup = createLookup();
+        const service = new WatchOnlyService(facade, lookup);
+
+        const target = await service.resolve(publicKey, 'v5r1');
+        expect(target).toEqual({
+            address: facade.getAddress(keyPair.publicKey, 'v5r1'),
+            type: 'v5r1',
+            publicKey: publicKey.toLowerCase(),
+        });
+        expect(lookup.requested).toHaveLength(0);
+
+        await expect(service.resolve(publicKey)).rejects.toThrow('Choose the wallet version');
+        await expect(service.resolve('treasury.ton')).rejects.toThrow('wallet address or a 64-character public key');
+    });
+});
+
+describe('TonApiService.getWalletDetails', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('maps wallet interfaces and reads the public key of active wallets', async () => {
+        const key = 'CD'.repeat(32);
+        const urls: string[] = [];
+        vi.stubGlobal('fetch', async (url: string) => {
+            urls.push(url);
+            if (url.endsWith('/publickey')) {
+                return new Response(JSON.stringify({ public_key: key }), { status: 200 });
+            }
+            return new Response(JSON.stringify({ status: 'active', interfaces: ['wallet_v4r2'] }), { status: 200 });
+        });
+
+        const details = await new TonApiService().getWalletDetails('UQtest');
+        expect(details).toEqual({ status: 'active', version: 'v4r2', publicKey: key.toLowerCase() });
+        expect(urls).toEqual([
+            'https://tonapi.io/v2/accounts/UQtest',
+            'https://tonapi.io/v2/accounts/UQtest/publickey',
+        ]);
+    });
+
+    it('reports unknown contracts and missing accounts without a version', async () => {
+        vi.stubGlobal('fetch', async () =>
+            new Response(JSON.stringify({ status: 'uninit' }), { status: 200 })
+        );
+        expect(await new TonApiService().getWalletDetails('UQtest'))
+            .toEqual({ status: 'uninit', version: null, publicKey: null });
+
+        vi.stubGlobal('fetch', async () => new Response('', { status: 404 }));
+        expect(await new TonApiService().getWalletDetails('UQtest'))
+            .toEqual({ status: 'nonexist', version: null, publicKey: null });
+    });
+});